@@ -0,0 +1,126 @@
+/**
+ * Regression tests for perturbing material-derived node properties: values
+ * the sensitivity job and design exploration write must reach the solver
+ * instead of being replaced by the node's material or coating.
+ * Run: npx tsx src/__tests__/derived-properties.test.ts
+ */
+
+import { buildThermalNetwork, runSimulation } from '../lib/solver/thermal-network';
+import { computeSensitivityEntries } from '../lib/solver/sensitivity';
+import { applyParameterSample, paramKey, type ExplorationParameter } from '../lib/solver/design-space';
+import { SPACE_TEMPERATURE, STEFAN_BOLTZMANN, type SimulationConfig } from '../lib/solver/types';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+const HEATER_POWER = 100;
+const ALUMINIUM = {
+  id: 'al', conductivity: 167, specificHeat: 896, emissivity: 0.85, absorptivity: 0.3, density: 2700,
+};
+
+/**
+ * A 1 m² panel radiating to space with a heater. Its stored ε (0.5) is stale:
+ * with no override the solver uses the material's 0.85.
+ */
+function panelModel(propertyOverrides: Array<'capacitance' | 'absorptivity' | 'emissivity'> | null) {
+  const nodes = [{
+    id: 'panel', name: 'Panel', nodeType: 'diffusion' as const,
+    temperature: 280, capacitance: 500, boundaryTemp: null,
+    area: 1, mass: 2, absorptivity: 0.5, emissivity: 0.5,
+    radiatesToSpace: true, spaceViewFactor: 1,
+    material: ALUMINIUM, coating: null, propertyOverrides,
+  }];
+  const loads = [{
+    id: 'heater', name: 'Heater', nodeId: 'panel', loadType: 'constant' as const,
+    value: HEATER_POWER, timeValues: null, orbitalParams: null,
+  }];
+  return { nodes, loads };
+}
+
+/** Steady-state panel temperature for emissivity ε. */
+function analyticTemperature(emissivity: number): number {
+  return (HEATER_POWER / (STEFAN_BOLTZMANN * emissivity) + SPACE_TEMPERATURE ** 4) ** 0.25;
+}
+
+const STEADY: SimulationConfig = {
+  simulationType: 'steady_state',
+  timeStart: 0, timeEnd: 0, timeStep: 1,
+  maxIterations: 1000, tolerance: 1e-9,
+  minStep: 0.001, maxStep: 10,
+};
+
+function solvePanel(nodes: ReturnType<typeof panelModel>['nodes'], loads: ReturnType<typeof panelModel>['loads']) {
+  const network = buildThermalNetwork(nodes, [], loads, null);
+  const result = runSimulation(network, STEADY);
+  const temperatures = result.nodeResults[0].temperatures;
+  return { emissivity: network.nodes.get('panel')!.emissivity, temperature: temperatures[temperatures.length - 1] };
+}
+
+// ── Test 1: Sensitivity to a material-derived emissivity ───────────────────
+
+console.log('\n=== Test 1: Sensitivity of a material node to its emissivity ===');
+{
+  const { nodes, loads } = panelModel([]);
+  const entries = computeSensitivityEntries(nodes, [], loads, null);
+  const entry = entries.find((e) => e.parameterId === 'node_emissivity_panel');
+  // dT/dε of εσT⁴ = Q at ε = 0.85
+  const T = analyticTemperature(ALUMINIUM.emissivity);
+  const expected = -T / (4 * ALUMINIUM.emissivity);
+
+  assert(!!entry, 'Emissivity is a sensitivity parameter');
+  assert(entry?.baselineValue === ALUMINIUM.emissivity, `Baseline is the material's ε = ${ALUMINIUM.emissivity}, not the stored 0.5`);
+  assert(
+    !!entry && Math.abs(entry.dT_dp - expected) / Math.abs(expected) < 1e-2,
+    `dT/dε = ${entry?.dT_dp.toFixed(2)} K ≈ −T/4ε = ${expected.toFixed(2)} K`,
+  );
+
+  const absorptivity = entries.find((e) => e.parameterId === 'node_absorptivity_panel');
+  assert(absorptivity?.baselineValue === ALUMINIUM.absorptivity, "Absorptivity baseline is the material's α");
+  assert(nodes[0].propertyOverrides!.length === 0, "The model's nodes are not modified");
+}
+
+// ── Test 2: Design exploration samples a material-derived emissivity ───────
+
+console.log('\n=== Test 2: Sampled emissivity on a material node reaches the solver ===');
+{
+  const parameter: ExplorationParameter = {
+    entityType: 'node', entityId: 'panel', property: 'emissivity',
+    minValue: 0.2, maxValue: 0.9, numLevels: 0,
+  };
+  const { nodes, loads } = panelModel([]);
+  for (const emissivity of [0.3, 0.6]) {
+    const sampled = applyParameterSample(nodes, [], loads, [parameter], { [paramKey(parameter)]: emissivity });
+    const solved = solvePanel(sampled.nodes, sampled.heatLoads);
+    const T = analyticTemperature(emissivity);
+    assert(solved.emissivity === emissivity, `ε = ${emissivity} is used by the network`);
+    assert(Math.abs(solved.temperature - T) < 1e-3, `Panel at ${solved.temperature.toFixed(2)} K = ${T.toFixed(2)} K`);
+    assert(
+      sampled.nodes[0].propertyOverrides!.includes('emissivity') && nodes[0].propertyOverrides!.length === 0,
+      'The sample marks ε as overridden on its copy only',
+    );
+  }
+
+  // Nodes without overrides derive nothing, so none are added
+  const legacy = panelModel(null);
+  const sampled = applyParameterSample(legacy.nodes, [], legacy.loads, [parameter], { [paramKey(parameter)]: 0.3 });
+  assert(sampled.nodes[0].propertyOverrides === null, 'Nodes that derive nothing are left without overrides');
+  assert(solvePanel(sampled.nodes, sampled.heatLoads).emissivity === 0.3, 'Their sampled ε is used as before');
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
@@ -0,0 +1,129 @@
+/**
+ * Regression tests for the NSGA-II design optimiser: non-dominated sorting,
+ * crowding, constrained domination and convergence onto a known Pareto front.
+ * Run: npx tsx src/__tests__/design-optimization.test.ts
+ */
+
+import {
+  crowdingDistance,
+  dominates,
+  makeOffspring,
+  nonDominatedSort,
+  paretoSet,
+  selectSurvivors,
+  type Candidate,
+} from '../lib/solver/design-optimization';
+import { paramKey, type ExplorationParameter } from '../lib/solver/design-space';
+import { createRandom } from '../lib/cad/view-factor-matrix';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+// Schaffer's problem: minimise f₁ = x², f₂ = (x − 2)²; the Pareto set is 0 ≤ x ≤ 2
+const PARAMETER: ExplorationParameter = {
+  entityType: 'symbol', entityId: 'x', property: 'value',
+  minValue: -4, maxValue: 6, numLevels: 0,
+};
+const KEY = paramKey(PARAMETER);
+
+function schaffer(x: number, violation = 0): Candidate {
+  return { paramValues: { [KEY]: x }, scores: [x * x, (x - 2) ** 2], violation };
+}
+
+const sameSet = (a: number[], b: number[]) =>
+  a.length === b.length && [...a].sort((p, q) => p - q).every((v, i) => v === [...b].sort((p, q) => p - q)[i]);
+
+// ── Test 1: Pareto set of Schaffer's problem ───────────────────────────────
+
+console.log("\n=== Test 1: Pareto set of Schaffer's problem on a grid ===");
+{
+  const xs = Array.from({ length: 17 }, (_, i) => -1 + i * 0.25);
+  const candidates = xs.map((x) => schaffer(x));
+  const expected = xs.flatMap((x, i) => (x >= 0 && x <= 2 ? [i] : []));
+  const front = paretoSet(candidates);
+  assert(sameSet(front, expected), `Pareto set is exactly 0 ≤ x ≤ 2 (${front.length} of ${xs.length} points)`);
+
+  const fronts = nonDominatedSort(candidates);
+  assert(sameSet(fronts[0], expected), 'First front equals the Pareto set');
+  assert(fronts.flat().length === candidates.length, 'Every candidate is in exactly one front');
+  // Outside [0, 2] each step further out is dominated by the one before it
+  assert(fronts.length === 5, `Points beyond the set fall into successive fronts (${fronts.length} fronts)`);
+  assert(sameSet(fronts[1], [3, 13]), 'Second front is x = −0.25 and x = 2.25');
+}
+
+// ── Test 2: Crowding distance ──────────────────────────────────────────────
+
+console.log('\n=== Test 2: Crowding distance on a linear front ===');
+{
+  // f₂ = 4 − f₁ at f₁ = 0, 1, 2, 4: interior gaps are known
+  const candidates: Candidate[] = [0, 1, 2, 4].map((f1) => ({ paramValues: {}, scores: [f1, 4 - f1], violation: 0 }));
+  const distance = crowdingDistance(candidates, [0, 1, 2, 3]);
+  assert(distance.get(0) === Infinity && distance.get(3) === Infinity, 'Extremes are infinitely far');
+  assert(Math.abs(distance.get(1)! - 1) < 1e-12, 'd(f₁ = 1) = 2·(2 − 0)/4 = 1');
+  assert(Math.abs(distance.get(2)! - 1.5) < 1e-12, 'd(f₁ = 2) = 2·(4 − 1)/4 = 1.5');
+
+  const survivors = selectSurvivors(candidates, 3);
+  assert(
+    survivors.length === 3 && !survivors.includes(candidates[1]),
+    'Truncating the front drops the most crowded point',
+  );
+}
+
+// ── Test 3: Constrained domination ─────────────────────────────────────────
+
+console.log('\n=== Test 3: Constrained domination ===');
+{
+  const feasible = schaffer(5);
+  const infeasible = schaffer(1, 0.5);
+  const worse = schaffer(1, 2);
+  assert(dominates(feasible, infeasible), 'A feasible design beats an infeasible one with better scores');
+  assert(dominates(infeasible, worse), 'Of two infeasible designs the smaller violation wins');
+  assert(!dominates(schaffer(0.5), schaffer(1.5)), 'Two points of the front do not dominate each other');
+  assert(!dominates(schaffer(1), schaffer(1)), 'A design does not dominate itself');
+
+  const front = paretoSet([schaffer(1, 0.1), schaffer(3), schaffer(4), schaffer(Infinity, Infinity)]);
+  assert(sameSet(front, [1]), 'Pareto set holds only feasible non-dominated designs');
+  assert(paretoSet([schaffer(1, 0.1)]).length === 0, 'No feasible designs, no Pareto set');
+}
+
+// ── Test 4: NSGA-II converges onto the front ───────────────────────────────
+
+console.log("\n=== Test 4: NSGA-II on Schaffer's problem ===");
+{
+  const random = createRandom(7);
+  const size = 20;
+  let population = Array.from({ length: size }, () =>
+    schaffer(PARAMETER.minValue + random() * (PARAMETER.maxValue - PARAMETER.minValue)),
+  );
+  let inBounds = true;
+  for (let generation = 0; generation < 30; generation++) {
+    const offspring = makeOffspring(population, [PARAMETER], size, random).map((p) => p[KEY]);
+    inBounds &&= offspring.every((x) => x >= PARAMETER.minValue && x <= PARAMETER.maxValue);
+    population = selectSurvivors([...population, ...offspring.map((x) => schaffer(x))], size);
+  }
+  const xs = population.map((c) => c.paramValues[KEY]);
+  assert(inBounds, 'Offspring stay within the parameter range');
+  assert(xs.every((x) => x >= -1e-3 && x <= 2 + 1e-3), 'Every survivor lies on the Pareto set 0 ≤ x ≤ 2');
+  assert(
+    Math.min(...xs) < 0.1 && Math.max(...xs) > 1.9,
+    `Survivors span the front (x from ${Math.min(...xs).toFixed(3)} to ${Math.max(...xs).toFixed(3)})`,
+  );
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
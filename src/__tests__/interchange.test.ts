@@ -0,0 +1,161 @@
+/**
+ * Regression tests for the ESATAN-TMS and SINDA/FLUINT interchange: a deck
+ * written by either writer must read back as the same network.
+ * Run: npx tsx src/__tests__/interchange.test.ts
+ */
+
+import { readEsatan, writeEsatan } from '../lib/interchange/esatan';
+import { readSinda, writeSinda } from '../lib/interchange/sinda';
+import { deckToModelRows } from '../lib/interchange/model';
+import type { DeckHeatLoad, DeckReadResult, ThermalDeck } from '../lib/interchange/deck';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function close(actual: number | null | undefined, expected: number | null | undefined): boolean {
+  if (actual == null || expected == null) return actual == expected;
+  return Math.abs(actual - expected) <= 1e-9 * Math.max(1, Math.abs(expected));
+}
+
+/**
+ * Radiator panel: a heated diffusion node, a diffusion and an arithmetic
+ * node, and a sink, with linear and radiative couplings, a constant heater
+ * and a time-varying absorbed flux.
+ */
+const DECK: ThermalDeck = {
+  title: 'Radiator Panel',
+  nodes: [
+    { key: '1', name: 'Electronics Box', nodeType: 'diffusion', temperature: 293.15, capacitance: 1250.5, area: 0.12, absorptivity: 0.3, emissivity: 0.85 },
+    { key: '2', name: 'Radiator', nodeType: 'diffusion', temperature: 250.4, capacitance: 480, area: 0.5, absorptivity: 0.15, emissivity: 0.9 },
+    { key: '3', name: 'Bracket', nodeType: 'arithmetic', temperature: 275, capacitance: null },
+    { key: '4', name: 'Deep Space', nodeType: 'boundary', temperature: 3, capacitance: null },
+  ],
+  conductors: [
+    { name: 'Box to bracket', kind: 'linear', from: '1', to: '3', value: 0.75 },
+    { name: 'Bracket to radiator', kind: 'linear', from: '3', to: '2', value: 1.2e-2 },
+    { name: 'Box to radiator', kind: 'radiation', from: '1', to: '2', value: 0.031 },
+    { name: 'Radiator to space', kind: 'radiation', from: '2', to: '4', value: 0.45 },
+  ],
+  heatLoads: [
+    { name: 'Heater', node: '1', value: 25.5 },
+    {
+      name: 'Absorbed flux',
+      node: '2',
+      value: 0,
+      timeValues: [
+        { time: 0, value: 0 },
+        { time: 1800, value: 62.5 },
+        { time: 3600, value: 0 },
+      ],
+    },
+  ],
+};
+
+/**
+ * Compare a read-back deck with DECK by node name, since readers qualify the
+ * keys with the submodel. Area and optical properties only travel in ESATAN.
+ */
+function checkRoundTrip(format: string, result: DeckReadResult, withOptics: boolean): void {
+  const { deck, unsupported } = result;
+  assert(unsupported.length === 0, `${format}: nothing reported as unsupported`);
+  assert(deck.nodes.length === DECK.nodes.length, `${format}: ${deck.nodes.length} nodes read back`);
+
+  const nameByKey = new Map(deck.nodes.map((n) => [n.key, n.name]));
+  const originalName = new Map(DECK.nodes.map((n) => [n.key, n.name]));
+  for (const expected of DECK.nodes) {
+    const node = deck.nodes.find((n) => n.name === expected.name);
+    assert(
+      !!node &&
+        node.nodeType === expected.nodeType &&
+        close(node.temperature, expected.temperature) &&
+        close(node.capacitance, expected.capacitance),
+      `${format}: ${expected.name} keeps its type, temperature and capacitance`,
+    );
+    if (withOptics && expected.area != null) {
+      assert(
+        !!node &&
+          close(node.area, expected.area) &&
+          close(node.absorptivity, expected.absorptivity) &&
+          close(node.emissivity, expected.emissivity),
+        `${format}: ${expected.name} keeps its area and optical properties`,
+      );
+    }
+  }
+
+  assert(deck.conductors.length === DECK.conductors.length, `${format}: ${deck.conductors.length} conductors read back`);
+  for (const expected of DECK.conductors) {
+    const conductor = deck.conductors.find(
+      (c) =>
+        nameByKey.get(c.from) === originalName.get(expected.from) &&
+        nameByKey.get(c.to) === originalName.get(expected.to),
+    );
+    assert(
+      !!conductor && conductor.kind === expected.kind && close(conductor.value, expected.value),
+      `${format}: ${expected.kind} conductor "${expected.name}" = ${expected.value}`,
+    );
+  }
+
+  const loadOn = (loads: DeckHeatLoad[], name: string, table: boolean) =>
+    loads.find((h) => nameByKey.get(h.node) === name && !!h.timeValues === table);
+  const heater = loadOn(deck.heatLoads, 'Electronics Box', false);
+  assert(!!heater && close(heater.value, 25.5), `${format}: constant heater = 25.5 W`);
+  const flux = loadOn(deck.heatLoads, 'Radiator', true);
+  const points = flux?.timeValues ?? [];
+  assert(
+    points.length === 3 && DECK.heatLoads[1].timeValues!.every(
+      (p, i) => close(points[i].time, p.time) && close(points[i].value, p.value),
+    ),
+    `${format}: time-varying flux keeps its ${points.length} points`,
+  );
+  assert(deck.heatLoads.length === DECK.heatLoads.length, `${format}: no extra loads`);
+
+  // The imported deck maps onto model rows without dangling references
+  const rows = deckToModelRows(deck, 'model');
+  assert(
+    rows.unsupported.length === 0 && rows.conductors.length === 4 && rows.heatLoads.length === 2,
+    `${format}: imported deck maps onto model rows`,
+  );
+}
+
+// ── Test 1: ESATAN-TMS export → import ─────────────────────────────────────
+
+console.log('\n=== Test 1: ESATAN-TMS export → import round-trip ===');
+{
+  checkRoundTrip('ESATAN', readEsatan(writeEsatan(DECK, [])), true);
+}
+
+// ── Test 2: SINDA/FLUINT export → import ───────────────────────────────────
+
+console.log('\n=== Test 2: SINDA/FLUINT export → import round-trip ===');
+{
+  checkRoundTrip('SINDA', readSinda(writeSinda(DECK, [])), false);
+}
+
+// ── Test 3: Not-exported notes stay comments ───────────────────────────────
+
+console.log('\n=== Test 3: Not-exported constructs are written as comments ===');
+{
+  const notExported = [{ line: null, construct: 'Sun load', detail: 'Orbital heat loads have no deck counterpart' }];
+  const esatan = writeEsatan(DECK, notExported);
+  const sinda = writeSinda(DECK, notExported);
+  assert(esatan.includes('# Not exported:') && readEsatan(esatan).unsupported.length === 0, 'ESATAN: header comments are ignored on import');
+  assert(sinda.includes('C Not exported:') && readSinda(sinda).unsupported.length === 0, 'SINDA: header comments are ignored on import');
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
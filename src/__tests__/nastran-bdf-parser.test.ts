@@ -193,6 +193,101 @@ console.log('\n=== Test 5: Edge cases ===');
   assertEqual(noGrids.grids.length, 0, 'No grids in file');
 }
 
+// ── Test 6: Thermal loads, boundaries and elements ──────────────────────────
+
+console.log('\n=== Test 6: Loads, radiation, convection and conduction cards ===');
+{
+  // Small-field line from its fields
+  const small = (...fields: string[]) => fields.map((f) => f.padEnd(8)).join('');
+  const content = [
+    'SOL 153',
+    'CEND',
+    'LOAD = 10',
+    'BEGIN BULK',
+    'GRID,1,,0.0,0.0,0.0',
+    'GRID,2,,1.0,0.0,0.0',
+    'GRID,3,,1.0,1.0,0.0',
+    'GRID,4,,0.0,1.0,0.0',
+    'GRID,5,,2.0,0.0,0.0',
+    'GRID,11,,0.0,0.0,1.0',
+    'GRID,12,,1.0,0.0,1.0',
+    'GRID,13,,1.0,1.0,1.0',
+    'GRID,14,,0.0,1.0,1.0',
+    'GRID,99,,0.0,0.0,5.0',
+    'GRID,100,,0.0,0.0,-5.0',
+    'MAT4,1,200.0,900.0,2700.0,10.0',
+    'PROD,1,1,0.001',
+    'CROD,1,1,2,5',
+    'CELAS2,2,5.0,1,1,4,1',
+    small('CHBDYG', '7', '', 'AREA4', '', '', '3'),
+    small('+', '1', '2', '3', '4'),
+    'CHBDYG,8,,AREA4,,,3',
+    ',11,12,13,14',
+    'RADM,3,0.3,0.8',
+    'PCONV,4,1',
+    'CONV,7,4,,,99',
+    'RADBC,100,0.5,,7',
+    'RADLST,1,1,7,THRU,8',
+    'RADMTX,1,1,0.0,0.2',
+    'RADMTX,1,2,0.0',
+    'QBDY1,1,1000.0,7',
+    'QVOL,2,1.0E6,,1',
+    'LOAD,10,2.0,1.0,1',
+    'SPC,1,99,1,250.0',
+    'ENDDATA',
+  ].join('\n');
+  const bdf = parseBdf(content);
+
+  assertEqual(bdf.loadSetId, 10, 'Case control LOAD = 10 selected');
+  assertEqual(bdf.chbdyg[0].grids.join(','), '1,2,3,4', 'Small-field CHBDYG continuation grids');
+  assertEqual(bdf.chbdyg[0].radMidF, 3, 'Small-field CHBDYG RADMIDF = 3');
+  assertEqual(bdf.chbdyg[1].grids.join(','), '11,12,13,14', 'Free-field CHBDYG continuation grids');
+  assertEqual(bdf.radlst[0].eids.join(','), '7,8', 'RADLST THRU range expanded');
+  assertEqual(bdf.loads[0].sets[0].sid, 1, 'LOAD combination references set 1');
+  assertEqual(bdf.mat4[0].h, 10.0, 'MAT4 convection coefficient = 10');
+  assertEqual(bdf.warnings.length, 0, 'No unsupported cards');
+
+  const mapped = mapBdfToVerixos(bdf, 'model-1', 'user-1', 'proj-1');
+  const byName = new Map(mapped.nodes.map((n) => [n.name, n]));
+  const node = (gid: number) => byName.get(`Node-${gid}`)!;
+
+  assertEqual(mapped.heatLoads.length, 4, 'QBDY1 spread over the 4 surface grids');
+  const total = mapped.heatLoads.reduce((sum, l) => sum + l.value, 0);
+  assertEqual(total, 2000, 'QBDY1 1000 W/m² × 1 m² × LOAD scale 2 = 2000 W');
+  assert(
+    mapped.warnings.some((w) => w.includes('set(s) 2 not imported')),
+    'Unselected load set 2 (QVOL) reported',
+  );
+
+  assertEqual(node(1).area, 0.25, 'Surface grid carries a quarter of the area');
+  assertEqual(node(1).emissivity, 0.8, 'RADM emissivity applied to surface grid');
+  assertEqual(node(100).nodeType, 'boundary', 'Unconstrained RADBC ambient made boundary');
+  assertEqual(node(99).boundaryTemp, 250.0, 'SPC ambient keeps its temperature');
+  assertEqual(node(2).capacitance, 1215, 'Rod heat capacity split between its grids');
+
+  const between = (a: number, b: number) =>
+    mapped.conductors.filter(
+      (c) =>
+        (c.nodeFromId === node(a).id && c.nodeToId === node(b).id) ||
+        (c.nodeFromId === node(b).id && c.nodeToId === node(a).id),
+    );
+  assertEqual(between(2, 5)[0]?.conductance, 0.2, 'CROD conductance k·A/L = 0.2 W/K');
+  assertEqual(between(1, 4)[0]?.conductance, 5.0, 'CELAS2 conductance = 5 W/K');
+  assertEqual(between(3, 99)[0]?.conductance, 2.5, 'CONV h·A/4 = 2.5 W/K per grid');
+  const radbc = between(3, 100)[0];
+  assertEqual(radbc?.viewFactor, 0.5, 'RADBC view factor to ambient = 0.5');
+  assertEqual(radbc?.emissivity, 0.8, 'RADBC uses the surface RADM emissivity');
+
+  const cavity = mapped.conductors.filter((c) => c.name.startsWith('Cavity1-'));
+  assertEqual(cavity.length, 16, 'Cavity exchange spread over 4 × 4 grid pairs');
+  const gr = cavity.reduce((sum, c) => sum + c.area!, 0);
+  assert(gr > 0.8 * 0.8 * 0.2 && gr < 0.8 * 0.2, 'Cavity GR between single-bounce ε²AF and εAF');
+  assert(
+    !mapped.conductors.some((c) => c.name.startsWith('Link-')),
+    'No placeholder grid-order links when elements are present',
+  );
+}
+
 // ── Summary ─────────────────────────────────────────────────────────────────
 
 console.log(`\n${'='.repeat(50)}`);
@@ -0,0 +1,158 @@
+/**
+ * Regression tests for attitude-dependent orbital loads created through the
+ * heat load schema: a load with a surface normal must absorb a flux that
+ * follows the spacecraft attitude.
+ * Run: npx tsx src/__tests__/orbital-attitude.test.ts
+ */
+
+import { buildThermalNetwork } from '../lib/solver/thermal-network';
+import { computeNodeHeatLoad } from '../lib/solver/heat-flow';
+import { calculateOrbitalEnvironment } from '../lib/solver/orbital-environment';
+import { createHeatLoadSchema } from '../lib/validators/heat-loads';
+import type { EnvironmentPreset, OrbitalConfig, ThermalNetwork } from '../lib/solver/types';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+const NODE_ID = '00000000-0000-4000-8000-000000000001';
+const ALPHA = 0.9;
+const EPSILON = 0.8;
+const AREA = 0.1;
+
+const PANEL = {
+  id: NODE_ID, name: 'Panel', nodeType: 'diffusion' as const,
+  temperature: 290, capacitance: 100, boundaryTemp: null,
+  area: AREA, absorptivity: ALPHA, emissivity: EPSILON,
+};
+
+const BASE_ORBIT: OrbitalConfig = {
+  altitude: 500,
+  inclination: 51.6,
+  raan: 0,
+  epoch: '2025-03-20T12:00:00Z',
+};
+
+/** An orbital load as the heat load API receives it. */
+function orbitalLoad(surfaceNormal?: { x: number; y: number; z: number }) {
+  const parsed = createHeatLoadSchema.parse({
+    name: 'Panel flux',
+    nodeId: NODE_ID,
+    loadType: 'orbital',
+    orbitalParams: { surfaceType: 'custom', absorptivity: ALPHA, emissivity: EPSILON, area: AREA, surfaceNormal },
+  });
+  return {
+    id: 'load', ...parsed, value: null, timeValues: null, orbitalParams: parsed.orbitalParams ?? null,
+  };
+}
+
+function network(
+  config: OrbitalConfig,
+  surfaceNormal?: { x: number; y: number; z: number },
+  environment: EnvironmentPreset | null = null,
+): ThermalNetwork {
+  return buildThermalNetwork([PANEL], [], [orbitalLoad(surfaceNormal)], config, environment);
+}
+
+/** Orbit-averaged absorbed power (W) over the first orbit. */
+function orbitAverage(net: ThermalNetwork): number {
+  const period = net.orbitalEnv!.orbitalPeriod;
+  const steps = 360;
+  let sum = 0;
+  for (let i = 0; i < steps; i++) {
+    sum += computeNodeHeatLoad(NODE_ID, net.heatLoads, (i + 0.5) * period / steps, net);
+  }
+  return sum / steps;
+}
+
+// ── Test 1: The schema keeps the surface normal ────────────────────────────
+
+console.log('\n=== Test 1: Surface normal through the heat load schema ===');
+{
+  const load = orbitalLoad({ x: 1, y: 0, z: 0 });
+  assert(load.orbitalParams?.surfaceNormal?.x === 1, 'surfaceNormal survives validation');
+  const skewed = createHeatLoadSchema.safeParse({
+    name: 'Skewed', nodeId: NODE_ID, loadType: 'orbital',
+    orbitalParams: { surfaceType: 'custom', absorptivity: 0.5, emissivity: 0.5, area: 1, surfaceNormal: { x: 1, y: 1, z: 0 } },
+  });
+  assert(!skewed.success, 'A normal that is not a unit vector is rejected');
+}
+
+// ── Test 2: Sun pointing — the sun axis decides the solar input ────────────
+
+console.log('\n=== Test 2: Sun-pointing attitude rotated by 180° ===');
+{
+  // No albedo or Earth IR, so only the direct solar input remains
+  const sunOnly: EnvironmentPreset = { name: 'custom', solarFlux: 1361, albedo: 0, earthIR: 0 };
+  const env = calculateOrbitalEnvironment(BASE_ORBIT, sunOnly);
+  const toward = orbitAverage(network(
+    { ...BASE_ORBIT, attitude: 'sun_pointing', attitudeParams: { sunAxis: { x: 1, y: 0, z: 0 } } },
+    { x: 1, y: 0, z: 0 },
+    sunOnly,
+  ));
+  const away = orbitAverage(network(
+    { ...BASE_ORBIT, attitude: 'sun_pointing', attitudeParams: { sunAxis: { x: -1, y: 0, z: 0 } } },
+    { x: 1, y: 0, z: 0 },
+    sunOnly,
+  ));
+  const directSolar = ALPHA * sunOnly.solarFlux * AREA * (1 - env.eclipseFraction);
+  assert(
+    Math.abs(toward - directSolar) / directSolar < 0.02,
+    `Face on the sun axis absorbs α·S·A·(1 − f_ecl): ${toward.toFixed(2)} W ≈ ${directSolar.toFixed(2)} W`,
+  );
+  assert(Math.abs(away) < 1e-9, 'The same face with the attitude turned 180° absorbs nothing');
+}
+
+// ── Test 3: Nadir pointing — Earth IR on the nadir face only ───────────────
+
+console.log('\n=== Test 3: Nadir-pointing zenith and nadir faces ===');
+{
+  const nadirConfig: OrbitalConfig = { ...BASE_ORBIT, attitude: 'nadir_pointing' };
+  const nadirFace = network(nadirConfig, { x: 0, y: 0, z: -1 });
+  const zenithFace = network(nadirConfig, { x: 0, y: 0, z: 1 });
+  const profile = nadirFace.orbitalProfile!;
+  const eclipseIndex = profile.inSunlight.findIndex((sunlit) => !sunlit);
+  const t = profile.times[eclipseIndex];
+
+  const earthIR = EPSILON * profile.earthIR[eclipseIndex] * AREA;
+  const qNadir = computeNodeHeatLoad(NODE_ID, nadirFace.heatLoads, t, nadirFace);
+  const qZenith = computeNodeHeatLoad(NODE_ID, zenithFace.heatLoads, t, zenithFace);
+  assert(Math.abs(qNadir - earthIR) / earthIR < 1e-6, `Nadir face in eclipse absorbs ε·IR·A = ${earthIR.toFixed(3)} W`);
+  assert(Math.abs(qZenith) < 1e-9, 'Zenith face in eclipse absorbs nothing');
+}
+
+// ── Test 4: Inertial attitude rotation ─────────────────────────────────────
+
+console.log('\n=== Test 4: Inertial quaternion rotates the absorbed flux ===');
+{
+  // 180° about body Z turns +X into −X
+  const identity = { ...BASE_ORBIT, attitude: 'inertial' as const, attitudeParams: { quaternion: { w: 1, x: 0, y: 0, z: 0 } } };
+  const flipped = { ...BASE_ORBIT, attitude: 'inertial' as const, attitudeParams: { quaternion: { w: 0, x: 0, y: 0, z: 1 } } };
+  const a = orbitAverage(network(identity, { x: 1, y: 0, z: 0 }));
+  const b = orbitAverage(network(flipped, { x: 1, y: 0, z: 0 }));
+  const mirrored = orbitAverage(network(identity, { x: -1, y: 0, z: 0 }));
+  assert(Math.abs(a - b) > 0.05 * Math.max(a, b), `Rotating the attitude changes the flux (${a.toFixed(2)} → ${b.toFixed(2)} W)`);
+  assert(Math.abs(b - mirrored) < 1e-9 * Math.max(b, 1), 'Flipped attitude on +X equals the −X face unflipped');
+
+  // Without a normal the surface type decides, whatever the attitude
+  const legacyA = orbitAverage(network(identity));
+  const legacyB = orbitAverage(network(flipped));
+  assert(legacyA === legacyB && legacyA > 0, 'A load without a normal is unaffected by attitude');
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
@@ -0,0 +1,154 @@
+/**
+ * Regression tests for Gebhart-factor radiative exchange and the view factor
+ * matrix's reciprocity/closure enforcement.
+ * Run: npx tsx src/__tests__/radiation-exchange.test.ts
+ */
+
+import {
+  applyRadiationEnclosure,
+  computeGebhartFactors,
+  type GebhartFactors,
+} from '../lib/solver/radiation-exchange';
+import {
+  enforceReciprocityAndClosure,
+  viewFactorErrors,
+} from '../lib/cad/view-factor-matrix';
+import type { RadiationEnclosure, SolverConductor, SolverNode } from '../lib/solver/types';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+function assertClose(actual: number, expected: number, tolerance: number, message: string): void {
+  const ok = Math.abs(actual - expected) <= tolerance;
+  if (!ok) console.error(`    expected: ${expected}, got: ${actual}`);
+  assert(ok, message);
+}
+
+/** Largest |Σ_j B_ij + B_i,space − 1| and |ε_i·A_i·B_ij − ε_j·A_j·B_ji| / min(ε·A). */
+function gebhartErrors(factors: GebhartFactors, areas: number[], emissivity: number[]) {
+  let closure = 0;
+  let reciprocity = 0;
+  factors.gebhart.forEach((row, i) => {
+    closure = Math.max(closure, Math.abs(row.reduce((s, b) => s + b, 0) + factors.toSpace[i] - 1));
+    for (let j = i + 1; j < row.length; j++) {
+      const wi = emissivity[i] * areas[i];
+      const wj = emissivity[j] * areas[j];
+      reciprocity = Math.max(
+        reciprocity,
+        Math.abs(wi * factors.gebhart[i][j] - wj * factors.gebhart[j][i]) / Math.min(wi, wj),
+      );
+    }
+  });
+  return { closure, reciprocity };
+}
+
+// Long triangular duct with sides 3, 4 and 5: F_ij = (L_i + L_j − L_k) / 2L_i
+const SIDES = [3, 4, 5];
+const DUCT = [
+  [0, 1 / 3, 2 / 3],
+  [1 / 4, 0, 3 / 4],
+  [0.4, 0.6, 0],
+];
+
+// ── Test 1: Reciprocity and closure enforcement ────────────────────────────
+
+console.log('\n=== Test 1: Reciprocity/closure enforcement on noisy view factors ===');
+{
+  // ±4% Monte Carlo-like noise and a spurious leak to space
+  const noisy = DUCT.map((row, i) => row.map((f, j) => f * (1 + 0.04 * Math.sin(3 * i + 7 * j + 1))));
+  const leak = [0.01, 0.02, 0.005];
+  const before = viewFactorErrors(SIDES, noisy, leak);
+  const { matrix, toSpace } = enforceReciprocityAndClosure(SIDES, noisy, leak);
+  const after = viewFactorErrors(SIDES, matrix, toSpace);
+
+  assert(before.reciprocity > 1e-3, `Raw factors are not reciprocal (${before.reciprocity.toExponential(1)})`);
+  assert(after.reciprocity < 1e-9, `Enforced reciprocity error ${after.reciprocity.toExponential(1)}`);
+  assert(after.closure < 1e-12, `Enforced closure error ${after.closure.toExponential(1)}`);
+  assert(toSpace.every((s) => s >= 0), 'Space terms stay non-negative');
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      if (i !== j) assertClose(matrix[i][j], DUCT[i][j], 0.05, `F_${i + 1}${j + 1} ≈ ${DUCT[i][j].toFixed(3)}`);
+    }
+  }
+}
+
+// ── Test 2: Parallel plates — analytical grey-body exchange ────────────────
+
+console.log('\n=== Test 2: Infinite parallel plates (analytical) ===');
+{
+  const [e1, e2] = [0.3, 0.8];
+  const enclosure: RadiationEnclosure = {
+    nodeIds: ['a', 'b'],
+    areas: [1, 1],
+    exchange: [[0, 1], [1, 0]],
+    toSpace: [0, 0],
+    specularReflectance: [0, 0],
+  };
+  const factors = computeGebhartFactors(enclosure, [e1, e2]);
+  const expected = 1 / (1 / e1 + 1 / e2 - 1);
+  assertClose(e1 * factors.gebhart[0][1], expected, 1e-12, `ε₁·A·B₁₂ = 1/(1/ε₁ + 1/ε₂ − 1) = ${expected.toFixed(4)}`);
+
+  const nodes = new Map<string, SolverNode>(
+    (['a', 'b'] as const).map((id, i) => [id, {
+      id, name: id, nodeType: 'diffusion', temperature: 300, initialTemperature: 300,
+      capacitance: 1, boundaryTemp: null, area: 1, absorptivity: 0.5, emissivity: [e1, e2][i],
+    }]),
+  );
+  const conductors: SolverConductor[] = [{
+    id: 'r', name: 'a-b', conductorType: 'radiation', nodeFromId: 'a', nodeToId: 'b',
+    conductance: 0, area: 1, viewFactor: 1, emissivity: 1,
+  }];
+  const [exact] = applyRadiationEnclosure(enclosure, nodes, conductors);
+  assertClose(exact.emissivity * exact.area * exact.viewFactor, expected, 1e-12, 'Radiation conductor carries the exact ε·A·F');
+}
+
+// ── Test 3: Open enclosure — Gebhart closure and reciprocity ───────────────
+
+console.log('\n=== Test 3: Open duct, diffuse and specular surfaces ===');
+{
+  // Sides 3 and 4 of the duct; what reached the 5 side now leaves to space
+  const enclosure: RadiationEnclosure = {
+    nodeIds: ['s3', 's4'],
+    areas: [3, 4],
+    exchange: [[0, 1 / 3], [1 / 4, 0]],
+    toSpace: [2 / 3, 3 / 4],
+    specularReflectance: [0, 0],
+  };
+  for (const emissivity of [[0.3, 0.7], [0.05, 0.95], [1, 1]]) {
+    const factors = computeGebhartFactors(enclosure, emissivity);
+    const errors = gebhartErrors(factors, enclosure.areas, emissivity);
+    assert(errors.closure < 1e-12, `ε = ${emissivity}: rows sum to 1 (${errors.closure.toExponential(1)})`);
+    assert(errors.reciprocity < 1e-12, `ε = ${emissivity}: ε_i·A_i·B_ij = ε_j·A_j·B_ji (${errors.reciprocity.toExponential(1)})`);
+  }
+
+  // A specular share is already in the traced factors; closure counts only what ends on each surface
+  const specular: RadiationEnclosure = {
+    ...enclosure,
+    exchange: [[0.05, 0.35], [0.28, 0.04]],
+    specularReflectance: [0.2, 0],
+  };
+  specular.toSpace = specular.exchange.map(
+    (row) => 1 - row.reduce((s, e, j) => s + e * (1 - specular.specularReflectance[j]), 0),
+  );
+  const emissivity = [0.6, 0.85];
+  const errors = gebhartErrors(computeGebhartFactors(specular, emissivity), specular.areas, emissivity);
+  assert(errors.closure < 1e-12, `Specular surface: rows sum to 1 (${errors.closure.toExponential(1)})`);
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
@@ -0,0 +1,208 @@
+/**
+ * Regression tests for the sparse Newton linear algebra: the Krylov solves
+ * must agree with a dense solve of the same network Jacobian.
+ * Run: npx tsx src/__tests__/sparse-solver.test.ts
+ */
+
+import { buildThermalNetwork } from '../lib/solver/thermal-network';
+import { solveSteadyState } from '../lib/solver/steady-state-solver';
+import {
+  createNetworkJacobian,
+  fillNetworkJacobian,
+  multiplyCsr,
+  solveSparse,
+  type CsrMatrix,
+  type PreconditionerType,
+} from '../lib/solver/sparse';
+import { STEFAN_BOLTZMANN } from '../lib/solver/types';
+import type { SolverConductor, SolverHeatLoad, SolverNode, SimulationConfig } from '../lib/solver/types';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+/**
+ * Benchmark panel: a 6×6 grid of diffusion nodes with 4-neighbour
+ * conduction, radiation to a 3 K boundary from every third node, diagonal
+ * radiative cross-links and heaters on every fifth node.
+ */
+function panelNetwork(withRadiation: boolean) {
+  const width = 6;
+  const nodes: SolverNode[] = [];
+  for (let i = 0; i < width * width; i++) {
+    nodes.push({
+      id: `n${i}`, name: `Node ${i}`, nodeType: 'diffusion',
+      temperature: 280 + (i % 7) * 5, initialTemperature: 280 + (i % 7) * 5,
+      capacitance: 800 + 40 * i, boundaryTemp: null,
+      area: 0.02, absorptivity: 0.5, emissivity: 0.8,
+    });
+  }
+  nodes.push({
+    id: 'space', name: 'Space', nodeType: 'boundary',
+    temperature: 3, initialTemperature: 3, capacitance: 0,
+    boundaryTemp: 3, area: 0, absorptivity: 0, emissivity: 0,
+  });
+
+  const conductors: SolverConductor[] = [];
+  const link = (type: 'linear' | 'radiation', from: string, to: string, value: number) => {
+    conductors.push({
+      id: `${from}-${to}`, name: `${from}-${to}`, conductorType: type,
+      nodeFromId: from, nodeToId: to,
+      conductance: type === 'linear' ? value : 0,
+      area: type === 'radiation' ? 0.02 : 0,
+      viewFactor: type === 'radiation' ? value : 0,
+      emissivity: type === 'radiation' ? 0.8 : 0,
+    });
+  };
+  for (let row = 0; row < width; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      if (col + 1 < width) link('linear', `n${i}`, `n${i + 1}`, 0.5 + 0.1 * (i % 4));
+      if (row + 1 < width) link('linear', `n${i}`, `n${i + width}`, 0.8);
+      if (withRadiation && i % 3 === 0) link('radiation', `n${i}`, 'space', 0.9);
+      if (withRadiation && row + 1 < width && col + 1 < width) {
+        link('radiation', `n${i}`, `n${i + width + 1}`, 0.2);
+      }
+    }
+  }
+  // Linear-only panels still need a sink for a non-singular system
+  if (!withRadiation) link('linear', 'n0', 'space', 2);
+
+  const heatLoads: SolverHeatLoad[] = nodes
+    .filter((_, i) => i < width * width && i % 5 === 0)
+    .map((n) => ({
+      id: `q-${n.id}`, name: `Heater ${n.id}`, nodeId: n.id, loadType: 'constant',
+      value: 5, timeValues: [], orbitalParams: null,
+    }));
+
+  return buildThermalNetwork(nodes, conductors, heatLoads, null);
+}
+
+function toDense(A: CsrMatrix): number[][] {
+  const dense = Array.from({ length: A.n }, () => new Array<number>(A.n).fill(0));
+  for (let i = 0; i < A.n; i++) {
+    for (let k = A.rowPtr[i]; k < A.rowPtr[i + 1]; k++) dense[i][A.colIdx[k]] = A.values[k];
+  }
+  return dense;
+}
+
+/** Gaussian elimination with partial pivoting. */
+function solveDense(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(m[r][c]) > Math.abs(m[pivot][c])) pivot = r;
+    [m[c], m[pivot]] = [m[pivot], m[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = m[r][c] / m[c][c];
+      for (let k = c; k <= n; k++) m[r][k] -= f * m[c][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = m[r][n];
+    for (let k = r + 1; k < n; k++) s -= m[r][k] * x[k];
+    x[r] = s / m[r][r];
+  }
+  return x;
+}
+
+function relativeError(x: ArrayLike<number>, reference: number[]): number {
+  let diff = 0;
+  let scale = 0;
+  for (let i = 0; i < reference.length; i++) {
+    diff = Math.max(diff, Math.abs(x[i] - reference[i]));
+    scale = Math.max(scale, Math.abs(reference[i]));
+  }
+  return diff / scale;
+}
+
+function jacobianSystem(withRadiation: boolean, shift: number) {
+  const network = panelNetwork(withRadiation);
+  const jac = createNetworkJacobian(network, network.diffusionNodeIds);
+  const temperatures = new Map([...network.nodes].map(([id, n]) => [id, n.temperature]));
+  const diagonal = shift > 0
+    ? Float64Array.from(jac.nodeIds, (id) => network.nodes.get(id)!.capacitance / shift)
+    : null;
+  fillNetworkJacobian(jac, temperatures, diagonal);
+  const b = Float64Array.from(jac.nodeIds, (_, i) => Math.sin(i + 1) * 10);
+  return { A: jac.matrix, b };
+}
+
+// ── Test 1: BiCGSTAB on the radiating panel vs dense ───────────────────────
+
+console.log('\n=== Test 1: BiCGSTAB vs dense solve (radiation + conduction) ===');
+{
+  const { A, b } = jacobianSystem(true, 0);
+  const reference = solveDense(toDense(A), [...b]);
+  for (const preconditioner of ['ilu0', 'jacobi', 'none'] as PreconditionerType[]) {
+    const result = solveSparse(A, b, { preconditioner });
+    const error = relativeError(result.x, reference);
+    assert(result.converged, `${preconditioner}: converged in ${result.iterations} iterations`);
+    assert(error < 1e-8, `${preconditioner}: matches dense solve (rel. error ${error.toExponential(1)})`);
+  }
+
+  const Ax = new Float64Array(A.n);
+  multiplyCsr(A, solveSparse(A, b).x, Ax);
+  assert(relativeError(Ax, [...b]) < 1e-8, 'A·x reproduces b');
+}
+
+// ── Test 2: CG on a linear-only (SPD) panel vs dense ───────────────────────
+
+console.log('\n=== Test 2: CG vs dense solve (linear conduction, implicit Euler shift) ===');
+{
+  const { A, b } = jacobianSystem(false, 10);
+  const reference = solveDense(toDense(A), [...b]);
+  const result = solveSparse(A, b, { method: 'cg' });
+  const error = relativeError(result.x, reference);
+  assert(result.converged, `CG converged in ${result.iterations} iterations`);
+  assert(error < 1e-8, `CG matches dense solve (rel. error ${error.toExponential(1)})`);
+}
+
+// ── Test 3: Steady state of the panel balances its loads ───────────────────
+
+console.log('\n=== Test 3: Sparse Newton steady state (energy balance) ===');
+{
+  const network = panelNetwork(true);
+  const config: SimulationConfig = {
+    simulationType: 'steady_state',
+    timeStart: 0, timeEnd: 0, timeStep: 0,
+    maxIterations: 200, tolerance: 1e-8,
+    minStep: 0, maxStep: 0,
+  };
+  const result = solveSteadyState(network, config);
+  assert(result.converged, 'Steady state converged');
+
+  const final = new Map(
+    result.nodeResults.map((r) => [r.nodeId, r.temperatures[r.temperatures.length - 1]]),
+  );
+  // Everything the heaters put in leaves through the radiators to space
+  let toSpace = 0;
+  for (const c of network.conductors) {
+    if (c.nodeToId !== 'space') continue;
+    toSpace += STEFAN_BOLTZMANN * c.emissivity * c.area * c.viewFactor * (final.get(c.nodeFromId)! ** 4 - 3 ** 4);
+  }
+  const input = network.heatLoads.reduce((sum, h) => sum + h.value, 0);
+  assert(
+    Math.abs(toSpace - input) / input < 1e-4,
+    `Radiated ${toSpace.toFixed(4)} W = heater input ${input.toFixed(4)} W`,
+  );
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
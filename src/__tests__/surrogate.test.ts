@@ -0,0 +1,145 @@
+/**
+ * Regression tests for the Gaussian-process design-space surrogate: it must
+ * interpolate its training samples, generalise to a smooth response and
+ * report honest intervals and leave-one-out R².
+ * Run: npx tsx src/__tests__/surrogate.test.ts
+ */
+
+import {
+  buildSurrogate,
+  fitSurrogate,
+  MIN_SURROGATE_SAMPLES,
+  SurrogateError,
+  type SurrogateSample,
+} from '../lib/solver/surrogate';
+import { latinHypercubeSample, paramKey, type ExplorationParameter } from '../lib/solver/design-space';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string): void {
+  if (condition) {
+    passed++;
+    console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    console.error(`  ✗ ${message}`);
+  }
+}
+
+const PARAMETERS: ExplorationParameter[] = [
+  { entityType: 'node', entityId: 'radiator', property: 'emissivity', minValue: 0.2, maxValue: 0.9, numLevels: 0 },
+  { entityType: 'heat_load', entityId: 'heater', property: 'value', minValue: 5, maxValue: 25, numLevels: 0 },
+];
+const [EPS, POWER] = PARAMETERS.map(paramKey);
+
+/** Smooth stand-in for a solved radiator: hotter with power, colder with ε. */
+function response(values: Record<string, number>) {
+  const mean = 250 + 3 * values[POWER] - 60 * values[EPS] + 8 * Math.sin(4 * values[EPS]);
+  return [
+    { nodeId: 'radiator', nodeName: 'Radiator', minTemp: mean - 12, maxTemp: mean + 5 + 0.1 * values[POWER], meanTemp: mean },
+    { nodeId: 'bracket', nodeName: 'Bracket', minTemp: 280, maxTemp: 280, meanTemp: 280 },
+  ];
+}
+
+// Training samples on a jittered 5×5 grid over the explored ranges
+const samples: SurrogateSample[] = [];
+for (let i = 0; i < 5; i++) {
+  for (let j = 0; j < 5; j++) {
+    const paramValues = {
+      [EPS]: 0.2 + 0.7 * (i + 0.5 + 0.3 * Math.sin(7 * i + 3 * j)) / 5,
+      [POWER]: 5 + 20 * (j + 0.5 + 0.3 * Math.cos(5 * i + 11 * j)) / 5,
+    };
+    samples.push({ paramValues, nodeResults: response(paramValues) });
+  }
+}
+
+const fit = fitSurrogate(PARAMETERS, samples);
+const surrogate = buildSurrogate(PARAMETERS, samples, fit);
+
+// ── Test 1: Interpolates the training samples ──────────────────────────────
+
+console.log('\n=== Test 1: Prediction at the training samples ===');
+{
+  let error = 0;
+  let halfWidth = 0;
+  for (const s of samples) {
+    const [radiator] = surrogate.predict(s.paramValues);
+    const [truth] = s.nodeResults;
+    for (const metric of ['minTemp', 'maxTemp', 'meanTemp'] as const) {
+      error = Math.max(error, Math.abs(radiator[metric].mean - truth[metric]));
+      halfWidth = Math.max(halfWidth, (radiator[metric].upper - radiator[metric].lower) / 2);
+    }
+  }
+  assert(fit.sampleCount === samples.length, `Fitted to all ${fit.sampleCount} samples`);
+  assert(error < 0.05, `Reproduces the training temperatures (max error ${error.toExponential(1)} K)`);
+  assert(halfWidth < 0.5, `Intervals collapse at the samples (max half-width ${halfWidth.toExponential(1)} K)`);
+}
+
+// ── Test 2: Generalises between the samples ────────────────────────────────
+
+console.log('\n=== Test 2: Held-out points and leave-one-out R² ===');
+{
+  const heldOut = latinHypercubeSample(PARAMETERS, 30);
+  let error = 0;
+  let covered = 0;
+  for (const values of heldOut) {
+    const [radiator] = surrogate.predict(values);
+    const truth = response(values)[0].meanTemp;
+    error = Math.max(error, Math.abs(radiator.meanTemp.mean - truth));
+    if (truth >= radiator.meanTemp.lower && truth <= radiator.meanTemp.upper) covered++;
+  }
+  assert(error < 1, `Held-out mean temperature within 1 K (max error ${error.toFixed(3)} K)`);
+  assert(covered >= 0.8 * heldOut.length, `95% intervals cover held-out truths (${covered}/${heldOut.length})`);
+
+  const r2 = fit.looR2.radiator;
+  assert(
+    r2.minTemp > 0.99 && r2.maxTemp > 0.99 && r2.meanTemp > 0.99,
+    `Leave-one-out R² > 0.99 (mean ${r2.meanTemp.toFixed(4)})`,
+  );
+}
+
+// ── Test 3: Intervals widen away from the data ─────────────────────────────
+
+console.log('\n=== Test 3: Extrapolation and constant targets ===');
+{
+  const width = (values: Record<string, number>) => {
+    const [radiator] = surrogate.predict(values);
+    return radiator.meanTemp.upper - radiator.meanTemp.lower;
+  };
+  const inside = width(samples[12].paramValues);
+  const outside = width({ [EPS]: 1.6, [POWER]: 60 });
+  assert(outside > 10 * inside, `Interval far outside the ranges is wider (${outside.toFixed(2)} vs ${inside.toFixed(4)} K)`);
+
+  const bracket = surrogate.predict({ [EPS]: 0.5, [POWER]: 12 })[1];
+  assert(
+    bracket.meanTemp.mean === 280 && bracket.meanTemp.upper === bracket.meanTemp.lower,
+    'A constant node is predicted exactly, with no interval',
+  );
+  assert(fit.looR2.bracket.meanTemp === 1, 'A constant node has leave-one-out R² of 1');
+}
+
+// ── Test 4: Too few samples ────────────────────────────────────────────────
+
+console.log('\n=== Test 4: Too few solved samples ===');
+{
+  const few = [
+    ...samples.slice(0, MIN_SURROGATE_SAMPLES - 1),
+    { paramValues: samples[10].paramValues, nodeResults: [] }, // failed solve
+  ];
+  let error: unknown = null;
+  try {
+    fitSurrogate(PARAMETERS, few);
+  } catch (e) {
+    error = e;
+  }
+  assert(error instanceof SurrogateError, `Fewer than ${MIN_SURROGATE_SAMPLES} solved samples throws SurrogateError`);
+}
+
+console.log('\n' + '='.repeat(50));
+console.log(`Results: ${passed} passed, ${failed} failed`);
+if (failed > 0) {
+  process.exit(1);
+} else {
+  console.log('All tests passed! ✅');
+}
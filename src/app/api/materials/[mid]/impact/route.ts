@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { materials } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { updateMaterialSchema } from '@/lib/validators/materials';
+import { previewMaterialImpact } from '@/lib/materials/node-properties';
+import { canEditMaterial } from '@/lib/materials/access';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  parseJsonBody,
+} from '@/lib/utils/api-helpers';
+
+interface RouteParams {
+  params: Promise<{ mid: string }>;
+}
+
+/**
+ * Preview of a material edit: the nodes whose derived capacitance or α/ε
+ * would change if the body were PUT to /api/materials/[mid]. Nothing is saved.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { mid } = await params;
+
+    const [existing] = await db
+      .select()
+      .from(materials)
+      .where(eq(materials.id, mid));
+    if (!existing) return notFoundResponse('Material');
+
+    if (!(await canEditMaterial(existing, user.id))) {
+      return forbiddenResponse();
+    }
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = updateMaterialSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const nodes = await previewMaterialImpact(existing, parsed.data);
+
+    return NextResponse.json({ nodes });
+  } catch (error) {
+    console.error('POST /api/materials/[mid]/impact error:', error);
+    return serverErrorResponse();
+  }
+}
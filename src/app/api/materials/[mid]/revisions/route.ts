@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { materials, materialRevisions, users } from '@/lib/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { visibleMaterials } from '@/lib/materials/access';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+} from '@/lib/utils/api-helpers';
+
+interface RouteParams {
+  params: Promise<{ mid: string }>;
+}
+
+/** Revision history of a material, newest first. */
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { mid } = await params;
+
+    const [material] = await db
+      .select({ id: materials.id })
+      .from(materials)
+      .where(and(eq(materials.id, mid), await visibleMaterials(user.id)));
+    if (!material) return notFoundResponse('Material');
+
+    const revisions = await db
+      .select({
+        id: materialRevisions.id,
+        revision: materialRevisions.revision,
+        data: materialRevisions.data,
+        note: materialRevisions.note,
+        changedBy: materialRevisions.changedBy,
+        changedByName: users.name,
+        changedByEmail: users.email,
+        createdAt: materialRevisions.createdAt,
+      })
+      .from(materialRevisions)
+      .leftJoin(users, eq(materialRevisions.changedBy, users.id))
+      .where(eq(materialRevisions.materialId, mid))
+      .orderBy(desc(materialRevisions.revision));
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('GET /api/materials/[mid]/revisions error:', error);
+    return serverErrorResponse();
+  }
+}
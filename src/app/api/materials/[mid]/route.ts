@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { materials } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { updateMaterialSchema } from '@/lib/validators/materials';
+import { canEditMaterial } from '@/lib/materials/access';
+import { reviseMaterial } from '@/lib/materials/library';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -33,13 +35,9 @@ export async function PUT(
       .where(eq(materials.id, mid));
     if (!existing) return notFoundResponse('Material');
 
-    // Can't edit default materials
-    if (existing.isDefault) {
-      return forbiddenResponse();
-    }
-
-    // Can only edit own materials
-    if (existing.userId !== user.id) {
+    // Defaults are read-only; custom materials are edited by their creator,
+    // an organisation's library by its owners and admins
+    if (!(await canEditMaterial(existing, user.id))) {
       return forbiddenResponse();
     }
 
@@ -56,13 +54,13 @@ export async function PUT(
       return validationErrorResponse(parsed.error);
     }
 
-    const [updated] = await db
-      .update(materials)
-      .set(parsed.data)
-      .where(eq(materials.id, mid))
-      .returning();
+    const { material: updated, updatedNodes } = await reviseMaterial(
+      existing,
+      parsed.data,
+      user.id,
+    );
 
-    return NextResponse.json({ material: updated });
+    return NextResponse.json({ material: updated, updatedNodes });
   } catch (error) {
     console.error('PUT /api/materials/[mid] error:', error);
     return serverErrorResponse();
@@ -85,11 +83,7 @@ export async function DELETE(
       .where(eq(materials.id, mid));
     if (!existing) return notFoundResponse('Material');
 
-    if (existing.isDefault) {
-      return forbiddenResponse();
-    }
-
-    if (existing.userId !== user.id) {
+    if (!(await canEditMaterial(existing, user.id))) {
       return forbiddenResponse();
     }
 
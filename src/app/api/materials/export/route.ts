@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { materials } from '@/lib/db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { userOrgIds } from '@/lib/materials/access';
+import { materialRevisionData } from '@/lib/materials/library';
+import { materialsToCsv } from '@/lib/materials/library-io';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+} from '@/lib/utils/api-helpers';
+
+/**
+ * Export a material library as CSV or JSON: the organisation's library with
+ * `?orgId=`, otherwise the user's own custom materials.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') ?? 'json';
+    const orgId = url.searchParams.get('orgId');
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { error: `Unknown format: ${format}` },
+        { status: 400 },
+      );
+    }
+
+    if (orgId && !(await userOrgIds(user.id)).includes(orgId)) {
+      return notFoundResponse('Organization');
+    }
+
+    const rows = await db
+      .select()
+      .from(materials)
+      .where(
+        orgId
+          ? eq(materials.orgId, orgId)
+          : and(eq(materials.userId, user.id), isNull(materials.orgId), eq(materials.isDefault, false)),
+      )
+      .orderBy(asc(materials.name));
+
+    const fileBase = `materials-${orgId ? orgId.slice(0, 8) : 'custom'}`;
+
+    if (format === 'csv') {
+      return new NextResponse(materialsToCsv(rows.map(materialRevisionData)), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${fileBase}.csv"`,
+        },
+      });
+    }
+
+    const body = {
+      exportedAt: new Date().toISOString(),
+      materials: rows.map((m) => ({ ...materialRevisionData(m), revision: m.revision })),
+    };
+    return new NextResponse(JSON.stringify(body, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileBase}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/materials/export error:', error);
+    return serverErrorResponse();
+  }
+}
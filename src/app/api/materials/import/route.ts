@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { createMaterialSchema, materialImportSchema } from '@/lib/validators/materials';
+import { canEditOrgLibrary } from '@/lib/materials/access';
+import { createMaterial, findLibraryMaterial, reviseMaterial } from '@/lib/materials/library';
+import {
+  MaterialImportError,
+  parseMaterialsCsv,
+  parseMaterialsJson,
+} from '@/lib/materials/library-io';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  parseJsonBody,
+} from '@/lib/utils/api-helpers';
+
+const IMPORT_NOTE = 'Imported';
+
+/** Whether importing `values` would change the material (re-imports add no revision). */
+function differs(existing: Record<string, unknown>, values: Record<string, unknown>): boolean {
+  return Object.entries(values).some(
+    ([key, value]) => JSON.stringify(value ?? null) !== JSON.stringify(existing[key] ?? null),
+  );
+}
+
+/**
+ * Import materials into the organisation's library (`orgId`) or the user's
+ * custom materials. A material whose name is already in that library is
+ * saved as its next revision if any value differs; the rest are created.
+ * Invalid rows are reported and skipped.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = materialImportSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+    const { format, content, orgId } = parsed.data;
+
+    if (orgId && !(await canEditOrgLibrary(orgId, user.id))) {
+      return forbiddenResponse();
+    }
+
+    let records: unknown[];
+    try {
+      records = format === 'csv' ? parseMaterialsCsv(content) : parseMaterialsJson(content);
+    } catch (error) {
+      if (error instanceof MaterialImportError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    let created = 0;
+    let updated = 0;
+    let unchanged = 0;
+    let updatedNodes = 0;
+    const errors: Array<{ row: number; name: string | null; error: string }> = [];
+
+    for (const [i, record] of records.entries()) {
+      const row = i + 1;
+      const result = createMaterialSchema.safeParse({
+        ...(record as object),
+        projectId: undefined,
+        orgId,
+      });
+      const name = typeof (record as { name?: unknown })?.name === 'string'
+        ? (record as { name: string }).name
+        : null;
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        errors.push({ row, name, error: `${issue.path.join('.')}: ${issue.message}` });
+        continue;
+      }
+      if (result.data.tempRangeMin >= result.data.tempRangeMax) {
+        errors.push({ row, name, error: 'tempRangeMin must be less than tempRangeMax' });
+        continue;
+      }
+
+      const values = { ...result.data };
+      delete values.projectId;
+      delete values.orgId;
+      const existing = await findLibraryMaterial(
+        values.name,
+        orgId ? { orgId } : { userId: user.id },
+      );
+      if (existing && !differs(existing, values)) {
+        unchanged++;
+      } else if (existing) {
+        const revised = await reviseMaterial(
+          existing,
+          { ...values, revisionNote: IMPORT_NOTE },
+          user.id,
+        );
+        updated++;
+        updatedNodes += revised.updatedNodes;
+      } else {
+        await createMaterial(result.data, user.id, IMPORT_NOTE);
+        created++;
+      }
+    }
+
+    return NextResponse.json({ created, updated, unchanged, updatedNodes, errors });
+  } catch (error) {
+    console.error('POST /api/materials/import error:', error);
+    return serverErrorResponse();
+  }
+}
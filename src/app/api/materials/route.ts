@@ -1,11 +1,14 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { materials } from '@/lib/db/schema';
-import { eq, or, and, isNull } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 import { createMaterialSchema } from '@/lib/validators/materials';
+import { canEditOrgLibrary, visibleMaterials } from '@/lib/materials/access';
+import { createMaterial } from '@/lib/materials/library';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
+  forbiddenResponse,
   validationErrorResponse,
   serverErrorResponse,
   parseJsonBody,
@@ -19,71 +22,30 @@ export async function GET(request: Request): Promise<NextResponse> {
     const url = new URL(request.url);
     const category = url.searchParams.get('category');
     const projectId = url.searchParams.get('projectId');
+    const orgId = url.searchParams.get('orgId');
 
-    // Always include default materials
-    // If authenticated, also include user's custom materials
-    let allMaterials;
-
-    if (user) {
-      if (category) {
-        const validCategories = ['metal', 'composite', 'mli', 'paint', 'osr', 'adhesive'] as const;
-        if (!validCategories.includes(category as typeof validCategories[number])) {
-          return NextResponse.json(
-            { error: 'Invalid category' },
-            { status: 400 },
-          );
-        }
+    const validCategories = ['metal', 'composite', 'mli', 'paint', 'osr', 'adhesive'] as const;
+    if (category && !validCategories.includes(category as typeof validCategories[number])) {
+      return NextResponse.json(
+        { error: 'Invalid category' },
+        { status: 400 },
+      );
+    }
 
-        allMaterials = await db
-          .select()
-          .from(materials)
-          .where(
-            and(
-              eq(materials.category, category as typeof validCategories[number]),
-              or(
-                eq(materials.isDefault, true),
-                eq(materials.userId, user.id),
-              ),
-            ),
-          );
-      } else {
-        allMaterials = await db
-          .select()
-          .from(materials)
-          .where(
-            or(
-              eq(materials.isDefault, true),
-              eq(materials.userId, user.id),
-            ),
-          );
-      }
-    } else {
-      // Unauthenticated: only default materials
-      if (category) {
-        const validCategories = ['metal', 'composite', 'mli', 'paint', 'osr', 'adhesive'] as const;
-        if (!validCategories.includes(category as typeof validCategories[number])) {
-          return NextResponse.json(
-            { error: 'Invalid category' },
-            { status: 400 },
-          );
-        }
+    // Always include default materials. If authenticated, also include the
+    // user's custom materials and their organisations' libraries
+    const visible = user ? await visibleMaterials(user.id) : eq(materials.isDefault, true);
 
-        allMaterials = await db
-          .select()
-          .from(materials)
-          .where(
-            and(
-              eq(materials.isDefault, true),
-              eq(materials.category, category as typeof validCategories[number]),
-            ),
-          );
-      } else {
-        allMaterials = await db
-          .select()
-          .from(materials)
-          .where(eq(materials.isDefault, true));
-      }
-    }
+    let allMaterials = await db
+      .select()
+      .from(materials)
+      .where(
+        and(
+          visible,
+          category ? eq(materials.category, category as typeof validCategories[number]) : undefined,
+          orgId ? eq(materials.orgId, orgId) : undefined,
+        ),
+      );
 
     // Filter by projectId if provided
     if (projectId && user) {
@@ -125,23 +87,12 @@ export async function POST(request: Request): Promise<NextResponse> {
       );
     }
 
-    const [material] = await db
-      .insert(materials)
-      .values({
-        name: parsed.data.name,
-        category: parsed.data.category,
-        absorptivity: parsed.data.absorptivity,
-        emissivity: parsed.data.emissivity,
-        conductivity: parsed.data.conductivity,
-        specificHeat: parsed.data.specificHeat,
-        density: parsed.data.density,
-        tempRangeMin: parsed.data.tempRangeMin,
-        tempRangeMax: parsed.data.tempRangeMax,
-        isDefault: false,
-        userId: user.id,
-        projectId: parsed.data.projectId ?? null,
-      })
-      .returning();
+    // Only the organisation's owners and admins add to its library
+    if (parsed.data.orgId && !(await canEditOrgLibrary(parsed.data.orgId, user.id))) {
+      return forbiddenResponse();
+    }
+
+    const material = await createMaterial(parsed.data, user.id);
 
     return NextResponse.json({ material }, { status: 201 });
   } catch (error) {
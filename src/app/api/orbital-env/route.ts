@@ -9,6 +9,7 @@ import {
 } from '@/lib/utils/api-helpers';
 import {
   calculateOrbitalEnvironment,
+  calculateEnvironmentEvolution,
   generateOrbitalHeatProfile,
 } from '@/lib/solver/orbital-environment';
 
@@ -38,11 +39,18 @@ export async function POST(request: Request): Promise<NextResponse> {
       epoch: parsed.data.epoch,
       apogeeAltitude: parsed.data.apogeeAltitude,
       perigeeAltitude: parsed.data.perigeeAltitude,
+      argumentOfPerigee: parsed.data.argumentOfPerigee,
+      trueAnomaly: parsed.data.trueAnomaly,
     };
 
     const environment = calculateOrbitalEnvironment(config);
     const profile = generateOrbitalHeatProfile(config, environment, 360);
 
+    // Daily beta-angle / eclipse-season evolution over the mission span
+    const evolution = parsed.data.durationDays
+      ? calculateEnvironmentEvolution(config, parsed.data.durationDays * 86400)
+      : null;
+
     return NextResponse.json({
       environment: {
         orbitalPeriod: {
@@ -88,6 +96,16 @@ export async function POST(request: Request): Promise<NextResponse> {
         earthIR: profile.earthIR,
         inSunlight: profile.inSunlight,
       },
+      ...(evolution && {
+        evolution: {
+          description: 'Daily environment evolution (J2 RAAN precession, sun position, sun distance)',
+          times: evolution.times,
+          timeUnit: 'seconds',
+          betaAngle: evolution.betaAngle,
+          eclipseFraction: evolution.eclipseFraction,
+          solarFlux: evolution.solarFlux,
+        },
+      }),
     });
   } catch (error) {
     console.error('POST /api/orbital-env error:', error);
@@ -0,0 +1,281 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { thermalModels, cadAssets } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { cadGeometrySchema, updateCadSchema } from '@/lib/validators/cad';
+import { MAX_STEP_FILE_SIZE } from '@/lib/cad/step-parser';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  forbiddenResponse,
+  parseJsonBody,
+  verifyModelOwnership,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string }>;
+}
+
+// Everything but the STEP file itself, which the editor never needs
+const geometryColumns = {
+  id: cadAssets.id,
+  fileName: cadAssets.fileName,
+  faces: cadAssets.faces,
+  boundingBox: cadAssets.boundingBox,
+  totalSurfaceArea: cadAssets.totalSurfaceArea,
+  createdAt: cadAssets.createdAt,
+};
+
+// GET - Current CAD geometry and face→node mappings
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    try {
+      await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    let geometry = null;
+    if (model.cadAssetId) {
+      [geometry] = await db
+        .select(geometryColumns)
+        .from(cadAssets)
+        .where(eq(cadAssets.id, model.cadAssetId));
+    }
+
+    return NextResponse.json({
+      geometry: geometry ?? null,
+      mappings: model.surfaceNodeMappings,
+    });
+  } catch (error) {
+    console.error('GET /api/.../cad error:', error);
+    return serverErrorResponse();
+  }
+}
+
+// POST - Upload a STEP file with its tessellation; replaces the current geometry
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected multipart form data' }, { status: 400 });
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No STEP file provided' }, { status: 400 });
+    }
+    if (!/\.(step|stp)$/i.test(file.name)) {
+      return NextResponse.json({ error: 'File must have a .step or .stp extension' }, { status: 400 });
+    }
+    if (file.size > MAX_STEP_FILE_SIZE) {
+      return NextResponse.json({ error: 'STEP file exceeds 100MB' }, { status: 400 });
+    }
+
+    let geometryJson: unknown;
+    try {
+      geometryJson = JSON.parse(String(formData.get('geometry') ?? ''));
+    } catch {
+      return NextResponse.json({ error: 'Invalid geometry JSON' }, { status: 400 });
+    }
+
+    const parsed = cadGeometrySchema.safeParse(geometryJson);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const [asset] = await db
+      .insert(cadAssets)
+      .values({
+        projectId: id,
+        modelId: mid,
+        fileName: file.name,
+        stepFile: Buffer.from(await file.arrayBuffer()),
+        faces: parsed.data.faces,
+        boundingBox: parsed.data.boundingBox,
+        totalSurfaceArea: parsed.data.totalSurfaceArea,
+        uploadedBy: user.id,
+      })
+      .returning(geometryColumns);
+
+    // Face ids are per tessellation, so old mappings can't carry over
+    await db
+      .update(thermalModels)
+      .set({ cadAssetId: asset.id, surfaceNodeMappings: [], updatedAt: new Date() })
+      .where(eq(thermalModels.id, mid));
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'model.updated',
+        entityType: 'cad_asset',
+        entityId: asset.id,
+        projectId: id,
+        modelId: mid,
+        before: { cadAssetId: model.cadAssetId },
+        after: { cadAssetId: asset.id, fileName: asset.fileName, faceCount: asset.faces.length },
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ geometry: asset, mappings: [] }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/.../cad error:', error);
+    return serverErrorResponse();
+  }
+}
+
+// PUT - Replace the face→node mappings, optionally switching geometry
+export async function PUT(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = updateCadSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { assetId, mappings } = parsed.data;
+    if (assetId) {
+      const [asset] = await db
+        .select({ id: cadAssets.id })
+        .from(cadAssets)
+        .where(and(eq(cadAssets.id, assetId), eq(cadAssets.modelId, mid)));
+      if (!asset) return notFoundResponse('CAD asset');
+    }
+
+    const [updated] = await db
+      .update(thermalModels)
+      .set({
+        ...(assetId !== undefined ? { cadAssetId: assetId } : {}),
+        surfaceNodeMappings: mappings,
+        updatedAt: new Date(),
+      })
+      .where(eq(thermalModels.id, mid))
+      .returning();
+
+    return NextResponse.json({
+      cadAssetId: updated.cadAssetId,
+      mappings: updated.surfaceNodeMappings,
+    });
+  } catch (error) {
+    console.error('PUT /api/.../cad error:', error);
+    return serverErrorResponse();
+  }
+}
+
+// DELETE - Detach the geometry from the model; the asset stays for older snapshots
+export async function DELETE(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    await db
+      .update(thermalModels)
+      .set({ cadAssetId: null, surfaceNodeMappings: [], updatedAt: new Date() })
+      .where(eq(thermalModels.id, mid));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/.../cad error:', error);
+    return serverErrorResponse();
+  }
+}
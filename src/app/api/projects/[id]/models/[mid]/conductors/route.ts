@@ -84,6 +84,7 @@ export async function POST(
         viewFactor: parsed.data.viewFactor ?? null,
         emissivity: parsed.data.emissivity ?? null,
         conductanceData: parsed.data.conductanceData ?? null,
+        expressions: parsed.data.expressions ?? null,
       })
       .returning();
 
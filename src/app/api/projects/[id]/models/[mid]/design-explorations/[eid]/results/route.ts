@@ -66,12 +66,16 @@ export async function GET(
           status: exploration.status,
           numSamples: exploration.numSamples,
           completedSamples: exploration.completedSamples,
+          errorMessage: exploration.errorMessage,
         },
         results: results.map((r) => ({
           sampleIndex: r.sampleIndex,
           paramValues: r.paramValues,
           nodeResults: r.nodeResults,
           feasible: r.feasible,
+          objectives: r.objectives,
+          generation: r.generation,
+          pareto: r.pareto,
         })),
       },
     });
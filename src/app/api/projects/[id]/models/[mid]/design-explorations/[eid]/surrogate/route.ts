@@ -0,0 +1,172 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { thermalModels, designExplorations, explorationResults } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  forbiddenResponse,
+  validationErrorResponse,
+  parseJsonBody,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { paramKey, type ExplorationConfig, type NodeResult } from '@/lib/solver/design-space';
+import {
+  buildSurrogate,
+  SurrogateError,
+  type Surrogate,
+  type SurrogateFit,
+} from '@/lib/solver/surrogate';
+import { surrogatePredictSchema } from '@/lib/validators/explorations';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; eid: string }>;
+}
+
+interface LoadedSurrogate {
+  config: ExplorationConfig;
+  fit: SurrogateFit;
+  surrogate: Surrogate;
+}
+
+/**
+ * Check access and load the surrogate the exploration job fitted. Returns the
+ * error response on failure.
+ */
+async function loadSurrogate(
+  userId: string,
+  projectId: string,
+  modelId: string,
+  explorationId: string,
+): Promise<LoadedSurrogate | NextResponse> {
+  let role;
+  try {
+    role = await getUserProjectAccess(userId, projectId);
+  } catch (e) {
+    if (e instanceof AccessDeniedError) return forbiddenResponse();
+    throw e;
+  }
+
+  try {
+    requireRole(role, 'viewer');
+  } catch {
+    return forbiddenResponse();
+  }
+
+  // Verify model belongs to project
+  const [model] = await db
+    .select()
+    .from(thermalModels)
+    .where(and(eq(thermalModels.id, modelId), eq(thermalModels.projectId, projectId)));
+  if (!model) return notFoundResponse('Model');
+
+  const [exploration] = await db
+    .select()
+    .from(designExplorations)
+    .where(and(eq(designExplorations.id, explorationId), eq(designExplorations.modelId, modelId)));
+  if (!exploration) return notFoundResponse('Exploration');
+
+  const config = exploration.config as ExplorationConfig;
+  if (exploration.status !== 'completed') {
+    return NextResponse.json(
+      { error: 'The exploration has not completed' },
+      { status: 400 },
+    );
+  }
+  const fit = exploration.surrogate as SurrogateFit | null;
+  if (!fit) {
+    return NextResponse.json(
+      { error: 'No surrogate was fitted to this exploration' },
+      { status: 400 },
+    );
+  }
+
+  const results = await db
+    .select()
+    .from(explorationResults)
+    .where(eq(explorationResults.explorationId, explorationId));
+  const samples = results.map((r) => ({
+    paramValues: r.paramValues as Record<string, number>,
+    nodeResults: r.nodeResults as NodeResult[],
+  }));
+
+  try {
+    return { config, fit, surrogate: buildSurrogate(config.parameters, samples, fit) };
+  } catch (e) {
+    if (e instanceof SurrogateError) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+}
+
+export async function GET(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, eid } = await params;
+
+    const loaded = await loadSurrogate(user.id, id, mid, eid);
+    if (loaded instanceof NextResponse) return loaded;
+
+    return NextResponse.json({ data: { surrogate: loaded.fit } });
+  } catch (error) {
+    console.error('GET /api/.../design-explorations/[eid]/surrogate error:', error);
+    return serverErrorResponse();
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, eid } = await params;
+
+    const body = await parseJsonBody(request);
+    if (!body) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+
+    const parsed = surrogatePredictSchema.safeParse(body);
+    if (!parsed.success) return validationErrorResponse(parsed.error);
+
+    const loaded = await loadSurrogate(user.id, id, mid, eid);
+    if (loaded instanceof NextResponse) return loaded;
+
+    // A value for every explored parameter
+    const paramValues: Record<string, number> = {};
+    let extrapolated = false;
+    for (const p of loaded.config.parameters) {
+      const key = paramKey(p);
+      const value = parsed.data.paramValues[key];
+      if (value === undefined) {
+        return NextResponse.json(
+          { error: `paramValues.${key} is required` },
+          { status: 400 },
+        );
+      }
+      paramValues[key] = value;
+      if (value < p.minValue || value > p.maxValue) extrapolated = true;
+    }
+
+    return NextResponse.json({
+      data: {
+        paramValues,
+        predictions: loaded.surrogate.predict(paramValues),
+        // Outside the sampled ranges the intervals widen quickly; flag it
+        extrapolated,
+      },
+    });
+  } catch (error) {
+    console.error('POST /api/.../design-explorations/[eid]/surrogate error:', error);
+    return serverErrorResponse();
+  }
+}
@@ -3,10 +3,7 @@ import { db } from '@/lib/db/client';
 import {
   thermalModels,
   thermalNodes,
-  conductors,
-  heatLoads,
   designExplorations,
-  explorationResults,
 } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import {
@@ -17,16 +14,10 @@ import {
   forbiddenResponse,
 } from '@/lib/utils/api-helpers';
 import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
-import { buildThermalNetwork, runSimulation } from '@/lib/solver/thermal-network';
-import {
-  latinHypercubeSample,
-  randomSample,
-  applyParameterSample,
-  checkFeasibility,
-  extractNodeResults,
-} from '@/lib/solver/design-space';
-import type { ExplorationConfig } from '@/lib/solver/design-space';
-import type { SimulationConfig } from '@/lib/solver/types';
+import type { ExplorationConfig, ObjectiveType } from '@/lib/solver/design-space';
+
+const OBJECTIVE_TYPES: ObjectiveType[] = ['heater_power', 'radiator_area', 'temperature_margin'];
+const MAX_OPTIMIZATION_EVALUATIONS = 500;
 
 interface RouteParams {
   params: Promise<{ id: string; mid: string }>;
@@ -84,161 +75,103 @@ export async function POST(
         { status: 400 },
       );
     }
-    if (!body.numSamples || body.numSamples < 10 || body.numSamples > 100) {
+    if (body.mode === 'optimization') {
+      const objectives = body.objectives;
+      if (
+        !Array.isArray(objectives) ||
+        objectives.length === 0 ||
+        objectives.some((o) => !OBJECTIVE_TYPES.includes(o?.type))
+      ) {
+        return NextResponse.json(
+          { error: `objectives must be a non-empty array of ${OBJECTIVE_TYPES.join(', ')}` },
+          { status: 400 },
+        );
+      }
+      if (new Set(objectives.map((o) => o.type)).size !== objectives.length) {
+        return NextResponse.json(
+          { error: 'Each objective may appear only once' },
+          { status: 400 },
+        );
+      }
+      if (objectives.some((o) => o.type === 'radiator_area' && !o.entityIds?.length)) {
+        return NextResponse.json(
+          { error: 'The radiator_area objective needs the radiator nodes in entityIds' },
+          { status: 400 },
+        );
+      }
+      if (
+        objectives.some((o) => o.type === 'temperature_margin') &&
+        !(body.constraints ?? []).some((c) => c.tempMin !== undefined || c.tempMax !== undefined)
+      ) {
+        return NextResponse.json(
+          { error: 'The temperature_margin objective needs at least one temperature constraint' },
+          { status: 400 },
+        );
+      }
+      const populationSize = body.populationSize ?? 0;
+      const generations = body.generations ?? 0;
+      if (!Number.isInteger(populationSize) || populationSize < 4 || populationSize > 50) {
+        return NextResponse.json(
+          { error: 'populationSize must be an integer between 4 and 50' },
+          { status: 400 },
+        );
+      }
+      if (!Number.isInteger(generations) || generations < 1 || generations > 50) {
+        return NextResponse.json(
+          { error: 'generations must be an integer between 1 and 50' },
+          { status: 400 },
+        );
+      }
+      if (populationSize * generations > MAX_OPTIMIZATION_EVALUATIONS) {
+        return NextResponse.json(
+          { error: `populationSize × generations must not exceed ${MAX_OPTIMIZATION_EVALUATIONS}` },
+          { status: 400 },
+        );
+      }
+      // Every evaluated design is a result row
+      body.numSamples = populationSize * generations;
+    } else if (!body.numSamples || body.numSamples < 10 || body.numSamples > 100) {
       return NextResponse.json(
         { error: 'numSamples must be between 10 and 100' },
         { status: 400 },
       );
     }
 
-    // Fetch model data
-    const nodes = await db
-      .select()
+    const [firstNode] = await db
+      .select({ id: thermalNodes.id })
       .from(thermalNodes)
-      .where(eq(thermalNodes.modelId, mid));
+      .where(eq(thermalNodes.modelId, mid))
+      .limit(1);
 
-    if (nodes.length === 0) {
+    if (!firstNode) {
       return NextResponse.json(
         { error: 'Model has no nodes. Add at least one node before running exploration.' },
         { status: 400 },
       );
     }
 
-    const modelConductors = await db
-      .select()
-      .from(conductors)
-      .where(eq(conductors.modelId, mid));
-
-    const loads = await db
-      .select()
-      .from(heatLoads)
-      .where(eq(heatLoads.modelId, mid));
-
-    // Create exploration row
+    // Queue the exploration — a simulation worker evaluates the samples.
+    // Clients poll GET .../design-explorations/[eid]/results for progress.
     const [exploration] = await db
       .insert(designExplorations)
       .values({
         modelId: mid,
         config: body as unknown as Record<string, unknown>,
-        status: 'running',
+        status: 'pending',
         numSamples: body.numSamples,
+        requestedBy: user.id,
       })
       .returning();
 
-    // Generate samples
-    const samplingMethod = body.samplingMethod ?? 'lhs';
-    const samples =
-      samplingMethod === 'lhs'
-        ? latinHypercubeSample(body.parameters, body.numSamples)
-        : randomSample(body.parameters, body.numSamples);
-
-    // Build node name map
-    const nodeNameMap = new Map<string, string>();
-    for (const n of nodes) {
-      nodeNameMap.set(n.id, n.name);
-    }
-
-    // Default steady-state config for exploration
-    const simConfig: SimulationConfig = {
-      simulationType: 'steady_state',
-      timeStart: 0,
-      timeEnd: 1000,
-      timeStep: 1,
-      maxIterations: 500,
-      tolerance: 0.01,
-      minStep: 0.1,
-      maxStep: 10,
-    };
-
-    const constraints = body.constraints ?? [];
-    let completedCount = 0;
-
-    // Run samples sequentially
-    for (let i = 0; i < samples.length; i++) {
-      try {
-        const sample = samples[i];
-        const modified = applyParameterSample(
-          nodes,
-          modelConductors,
-          loads,
-          body.parameters,
-          sample,
-        );
-
-        const network = buildThermalNetwork(
-          modified.nodes,
-          modified.conductors,
-          modified.heatLoads,
-          model.orbitalConfig as import('@/lib/solver/types').OrbitalConfig | null,
-        );
-
-        const result = runSimulation(network, simConfig);
-
-        const nodeResults = extractNodeResults(
-          result.nodeResults,
-          nodeNameMap,
-        );
-
-        const feasible = checkFeasibility(nodeResults, constraints);
-
-        await db.insert(explorationResults).values({
-          explorationId: exploration.id,
-          sampleIndex: i,
-          paramValues: sample as unknown as Record<string, unknown>,
-          nodeResults: nodeResults as unknown as Record<string, unknown>[],
-          feasible,
-        });
-
-        completedCount++;
-
-        // Update progress
-        await db
-          .update(designExplorations)
-          .set({ completedSamples: completedCount })
-          .where(eq(designExplorations.id, exploration.id));
-      } catch (sampleError) {
-        console.error(`Exploration sample ${i} error:`, sampleError);
-        // Store as infeasible with empty results
-        await db.insert(explorationResults).values({
-          explorationId: exploration.id,
-          sampleIndex: i,
-          paramValues: samples[i] as unknown as Record<string, unknown>,
-          nodeResults: [] as unknown as Record<string, unknown>[],
-          feasible: false,
-        });
-        completedCount++;
-      }
-    }
-
-    // Mark completed
-    await db
-      .update(designExplorations)
-      .set({
-        status: 'completed',
-        completedSamples: completedCount,
-        completedAt: new Date(),
-      })
-      .where(eq(designExplorations.id, exploration.id));
-
-    // Fetch results
-    const results = await db
-      .select()
-      .from(explorationResults)
-      .where(eq(explorationResults.explorationId, exploration.id));
-
-    return NextResponse.json({
-      explorationId: exploration.id,
-      status: 'completed',
-      numSamples: body.numSamples,
-      completedSamples: completedCount,
-      results: results.map((r) => ({
-        id: r.id,
-        sampleIndex: r.sampleIndex,
-        paramValues: r.paramValues,
-        nodeResults: r.nodeResults,
-        feasible: r.feasible,
-      })),
-    });
+    return NextResponse.json(
+      {
+        explorationId: exploration.id,
+        status: exploration.status,
+        numSamples: exploration.numSamples,
+        completedSamples: 0,
+      },
+      { status: 202 },
+    );
   } catch (error) {
     console.error('POST /api/.../design-explorations error:', error);
     return serverErrorResponse();
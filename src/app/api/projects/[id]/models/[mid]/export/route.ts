@@ -3,12 +3,18 @@ import { db } from '@/lib/db/client';
 import {
   thermalModels,
   thermalNodes,
+  nodeGroups,
   conductors,
   heatLoads,
   materials,
   simulationConfigs,
+  cadAssets,
 } from '@/lib/db/schema';
 import { eq, inArray } from 'drizzle-orm';
+import { DECK_FORMATS, type DeckFormat } from '@/lib/interchange/deck';
+import { writeEsatan } from '@/lib/interchange/esatan';
+import { writeSinda } from '@/lib/interchange/sinda';
+import { modelRowsToDeck } from '@/lib/interchange/model';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -22,6 +28,20 @@ interface RouteParams {
   params: Promise<{ id: string; mid: string }>;
 }
 
+const DECK_WRITERS: Record<
+  DeckFormat,
+  { write: typeof writeEsatan; ext: string }
+> = {
+  esatan: { write: writeEsatan, ext: 'd' },
+  sinda: { write: writeSinda, ext: 'inp' },
+};
+
+/**
+ * Download a model. `?format=vxm` (default) is the full Verixos model;
+ * `esatan` and `sinda` are input decks of the thermal network, with the
+ * constructs they cannot carry listed in the header and in the
+ * X-Unsupported-Constructs response header (count).
+ */
 export async function GET(
   request: Request,
   { params }: RouteParams,
@@ -36,6 +56,14 @@ export async function GET(
     const model = await verifyModelOwnership(mid, id);
     if (!model) return notFoundResponse('Model');
 
+    const format = new URL(request.url).searchParams.get('format') ?? 'vxm';
+    if (format !== 'vxm' && !(DECK_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json(
+        { error: `Unknown format. Supported: vxm, ${DECK_FORMATS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
     const [modelData] = await db
       .select()
       .from(thermalModels)
@@ -46,6 +74,34 @@ export async function GET(
       .from(thermalNodes)
       .where(eq(thermalNodes.modelId, mid));
 
+    const fileBase = modelData.name.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+    if (format !== 'vxm') {
+      const [conductorsData, heatLoadsData] = await Promise.all([
+        db.select().from(conductors).where(eq(conductors.modelId, mid)),
+        db.select().from(heatLoads).where(eq(heatLoads.modelId, mid)),
+      ]);
+      const { deck, unsupported } = modelRowsToDeck(
+        modelData.name,
+        nodesData,
+        conductorsData,
+        heatLoadsData,
+      );
+      const writer = DECK_WRITERS[format as DeckFormat];
+      return new NextResponse(writer.write(deck, unsupported), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileBase}.${writer.ext}"`,
+          'X-Unsupported-Constructs': String(unsupported.length),
+        },
+      });
+    }
+
+    const groupsData = await db
+      .select()
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, mid));
+
     const conductorsData = await db
       .select()
       .from(conductors)
@@ -61,9 +117,21 @@ export async function GET(
       .from(simulationConfigs)
       .where(eq(simulationConfigs.modelId, mid));
 
-    const materialIds = nodesData
-      .map((n) => n.materialId)
-      .filter((id): id is string => id !== null);
+    let cadAsset = null;
+    if (modelData.cadAssetId) {
+      [cadAsset] = await db
+        .select()
+        .from(cadAssets)
+        .where(eq(cadAssets.id, modelData.cadAssetId));
+    }
+
+    const materialIds = [
+      ...new Set(
+        nodesData
+          .flatMap((n) => [n.materialId, n.coatingId])
+          .filter((id): id is string => id !== null),
+      ),
+    ];
 
     let materialsData: Array<Record<string, unknown>> = [];
     if (materialIds.length > 0) {
@@ -81,6 +149,7 @@ export async function GET(
         name: modelData.name,
         description: modelData.description,
         orbitalConfig: modelData.orbitalConfig,
+        symbols: modelData.symbols,
         version: modelData.version,
       },
       nodes: nodesData.map((n) => ({
@@ -91,10 +160,23 @@ export async function GET(
         capacitance: n.capacitance,
         boundaryTemp: n.boundaryTemp,
         materialId: n.materialId,
+        coatingId: n.coatingId,
         area: n.area,
         mass: n.mass,
+        thickness: n.thickness,
+        propertyOverrides: n.propertyOverrides,
         absorptivity: n.absorptivity,
         emissivity: n.emissivity,
+        radiatesToSpace: n.radiatesToSpace,
+        spaceViewFactor: n.spaceViewFactor,
+        specularity: n.specularity,
+        groupId: n.groupId,
+        expressions: n.expressions,
+      })),
+      groups: groupsData.map((g) => ({
+        id: g.id,
+        name: g.name,
+        parentId: g.parentId,
       })),
       conductors: conductorsData.map((c) => ({
         id: c.id,
@@ -106,6 +188,7 @@ export async function GET(
         area: c.area,
         viewFactor: c.viewFactor,
         emissivity: c.emissivity,
+        expressions: c.expressions,
       })),
       heatLoads: heatLoadsData.map((h) => ({
         id: h.id,
@@ -115,7 +198,19 @@ export async function GET(
         value: h.value,
         timeValues: h.timeValues,
         orbitalParams: h.orbitalParams,
+        heaterParams: h.heaterParams,
+        expressions: h.expressions,
       })),
+      // Tessellation only; the original STEP file stays with the project
+      cad: cadAsset
+        ? {
+            fileName: cadAsset.fileName,
+            faces: cadAsset.faces,
+            boundingBox: cadAsset.boundingBox,
+            totalSurfaceArea: cadAsset.totalSurfaceArea,
+            mappings: modelData.surfaceNodeMappings,
+          }
+        : null,
       materials: materialsData,
       simulationConfigs: configs.map((c) => ({
         name: c.name,
@@ -126,11 +221,11 @@ export async function GET(
     return new NextResponse(JSON.stringify(vxm, null, 2), {
       headers: {
         'Content-Type': 'application/json',
-        'Content-Disposition': `attachment; filename="${modelData.name.replace(/[^a-zA-Z0-9_-]/g, '_')}.vxm"`,
+        'Content-Disposition': `attachment; filename="${fileBase}.vxm"`,
       },
     });
   } catch (error) {
-    console.error('GET /api/.../export vxm error:', error);
+    console.error('GET /api/.../export error:', error);
     return serverErrorResponse();
   }
 }
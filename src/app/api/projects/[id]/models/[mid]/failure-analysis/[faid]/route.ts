@@ -67,6 +67,7 @@ export async function GET(
         modelId: analysis.modelId,
         baseRunId: analysis.baseRunId,
         status: analysis.status,
+        errorMessage: analysis.errorMessage,
         createdAt: analysis.createdAt,
         completedAt: analysis.completedAt,
       },
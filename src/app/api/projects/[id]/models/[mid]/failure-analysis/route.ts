@@ -3,10 +3,6 @@ import { db } from '@/lib/db/client';
 import {
   thermalModels,
   thermalNodes,
-  conductors,
-  heatLoads,
-  simulationRuns,
-  simulationResults,
   failureAnalyses,
   failureCases,
 } from '@/lib/db/schema';
@@ -19,10 +15,7 @@ import {
   forbiddenResponse,
 } from '@/lib/utils/api-helpers';
 import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
-import { buildThermalNetwork, runSimulation } from '@/lib/solver/thermal-network';
-import { applyFailureMode } from '@/lib/solver/failure-mode';
 import type { FailureType, FailureModeParams } from '@/lib/solver/failure-mode';
-import type { OrbitalConfig, SimulationConfig } from '@/lib/solver/types';
 
 interface RouteParams {
   params: Promise<{ id: string; mid: string }>;
@@ -92,35 +85,27 @@ export async function POST(
       }
     }
 
-    // Fetch model data
-    const nodes = await db
-      .select()
+    const [firstNode] = await db
+      .select({ id: thermalNodes.id })
       .from(thermalNodes)
-      .where(eq(thermalNodes.modelId, mid));
+      .where(eq(thermalNodes.modelId, mid))
+      .limit(1);
 
-    if (nodes.length === 0) {
+    if (!firstNode) {
       return NextResponse.json(
         { error: 'Model has no nodes. Add at least one node before running failure analysis.' },
         { status: 400 },
       );
     }
 
-    const modelConductors = await db
-      .select()
-      .from(conductors)
-      .where(eq(conductors.modelId, mid));
-
-    const loads = await db
-      .select()
-      .from(heatLoads)
-      .where(eq(heatLoads.modelId, mid));
-
-    // Create analysis row
+    // Queue the analysis — a simulation worker solves each case.
+    // Clients poll GET .../failure-analysis/[faid] for case status.
     const [analysis] = await db
       .insert(failureAnalyses)
       .values({
         modelId: mid,
-        status: 'running',
+        status: 'pending',
+        requestedBy: user.id,
       })
       .returning();
 
@@ -138,169 +123,20 @@ export async function POST(
       )
       .returning();
 
-    // Default simulation config for failure analysis runs
-    const simConfig: SimulationConfig = {
-      simulationType: 'transient',
-      solverMethod: 'rk4',
-      timeStart: 0,
-      timeEnd: 5400, // 90 minutes (one orbit)
-      timeStep: 10,
-      maxIterations: 10000,
-      tolerance: 0.01,
-      minStep: 0.01,
-      maxStep: 100,
-    };
-
-    const orbitalConfig = (model.orbitalConfig as OrbitalConfig) ?? null;
-
-    // Process each case sequentially
-    for (const caseRow of caseRows) {
-      try {
-        // Set case status to running
-        await db
-          .update(failureCases)
-          .set({ status: 'running' })
-          .where(eq(failureCases.id, caseRow.id));
-
-        // Build network from original data
-        const network = buildThermalNetwork(nodes, modelConductors, loads, orbitalConfig);
-
-        // Apply failure mode to get modified solver-level data
-        const modified = applyFailureMode(
-          caseRow.failureType as FailureType,
-          Array.from(network.nodes.values()),
-          network.conductors,
-          network.heatLoads,
-          (caseRow.params as FailureModeParams) ?? {},
-        );
-
-        // Rebuild network from modified data (need to re-establish adjacency lists etc.)
-        // We convert solver nodes back to DB-like format for buildThermalNetwork
-        const modifiedNetwork = buildThermalNetwork(
-          modified.nodes.map((n) => ({
-            id: n.id,
-            name: n.name,
-            nodeType: n.nodeType,
-            temperature: n.initialTemperature,
-            capacitance: n.capacitance,
-            boundaryTemp: n.boundaryTemp,
-            area: n.area,
-            absorptivity: n.absorptivity,
-            emissivity: n.emissivity,
-          })),
-          modified.conductors.map((c) => ({
-            id: c.id,
-            name: c.name,
-            conductorType: c.conductorType,
-            nodeFromId: c.nodeFromId,
-            nodeToId: c.nodeToId,
-            conductance: c.conductance,
-            area: c.area,
-            viewFactor: c.viewFactor,
-            emissivity: c.emissivity,
-            conductanceData: c.conductanceData ?? undefined,
-          })),
-          modified.heatLoads.map((hl) => ({
-            id: hl.id,
-            name: hl.name,
-            nodeId: hl.nodeId,
-            loadType: hl.loadType,
-            value: hl.value,
-            timeValues: hl.timeValues.length > 0 ? hl.timeValues : null,
-            orbitalParams: hl.orbitalParams,
-          })),
-          orbitalConfig,
-        );
-
-        // Run simulation
-        const result = runSimulation(modifiedNetwork, simConfig);
-
-        // Create simulation run record
-        const [run] = await db
-          .insert(simulationRuns)
-          .values({
-            modelId: mid,
-            status: 'completed',
-            simulationType: 'transient',
-            config: {
-              timeStart: simConfig.timeStart,
-              timeEnd: simConfig.timeEnd,
-              timeStep: simConfig.timeStep,
-              maxIterations: simConfig.maxIterations,
-              tolerance: simConfig.tolerance,
-            },
-            progress: 100,
-            startedAt: new Date(),
-            completedAt: new Date(),
-          })
-          .returning();
-
-        // Store results
-        const resultValues = result.nodeResults.map((nodeResult) => ({
-          runId: run.id,
-          nodeId: nodeResult.nodeId,
-          timeValues: {
-            times: nodeResult.times,
-            temperatures: nodeResult.temperatures,
-          },
-          conductorFlows: result.conductorFlows
-            .filter((cf) => {
-              const conductor = modifiedNetwork.conductors.find(
-                (c) => c.id === cf.conductorId,
-              );
-              return (
-                conductor?.nodeFromId === nodeResult.nodeId ||
-                conductor?.nodeToId === nodeResult.nodeId
-              );
-            })
-            .map((cf) => ({
-              conductorId: cf.conductorId,
-              times: cf.times,
-              flows: cf.flows,
-            })),
-        }));
-
-        if (resultValues.length > 0) {
-          await db.insert(simulationResults).values(resultValues);
-        }
-
-        // Update case with run ID and completed status
-        await db
-          .update(failureCases)
-          .set({ runId: run.id, status: 'completed' })
-          .where(eq(failureCases.id, caseRow.id));
-      } catch (caseError) {
-        console.error(`Failure case ${caseRow.id} error:`, caseError);
-        await db
-          .update(failureCases)
-          .set({ status: 'failed' })
-          .where(eq(failureCases.id, caseRow.id));
-      }
-    }
-
-    // Mark analysis as completed
-    await db
-      .update(failureAnalyses)
-      .set({ status: 'completed', completedAt: new Date() })
-      .where(eq(failureAnalyses.id, analysis.id));
-
-    // Fetch final state
-    const finalCases = await db
-      .select()
-      .from(failureCases)
-      .where(eq(failureCases.analysisId, analysis.id));
-
-    return NextResponse.json({
-      analysisId: analysis.id,
-      status: 'completed',
-      cases: finalCases.map((c) => ({
-        id: c.id,
-        failureType: c.failureType,
-        label: c.label,
-        status: c.status,
-        runId: c.runId,
-      })),
-    });
+    return NextResponse.json(
+      {
+        analysisId: analysis.id,
+        status: analysis.status,
+        cases: caseRows.map((c) => ({
+          id: c.id,
+          failureType: c.failureType,
+          label: c.label,
+          status: c.status,
+          runId: c.runId,
+        })),
+      },
+      { status: 202 },
+    );
   } catch (error) {
     console.error('POST /api/.../failure-analysis error:', error);
     return serverErrorResponse();
@@ -0,0 +1,177 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { nodeGroups, thermalNodes, conductors, heatLoads } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { duplicateGroupSchema } from '@/lib/validators/groups';
+import { subtreeGroupIds } from '@/lib/node-groups';
+import { enforceTierLimit, TierLimitError } from '@/lib/billing/limits';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  verifyModelOwnership,
+  parseJsonBody,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; gid: string }>;
+}
+
+/**
+ * Copy a group alongside the original: its subgroups, member nodes, the
+ * conductors between members and the heat loads on members. Conductors to
+ * nodes outside the group are not copied.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, gid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = (await parseJsonBody(request)) ?? {};
+    const parsed = duplicateGroupSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const groups = await db
+      .select()
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, mid));
+    const source = groups.find((g) => g.id === gid);
+    if (!source) return notFoundResponse('Group');
+
+    const subtree = subtreeGroupIds(groups, gid);
+    const modelNodes = await db
+      .select()
+      .from(thermalNodes)
+      .where(eq(thermalNodes.modelId, mid));
+    const members = modelNodes.filter((n) => n.groupId && subtree.has(n.groupId));
+
+    try {
+      await enforceTierLimit(user.id, 'nodes', modelNodes.length + members.length - 1);
+    } catch (err) {
+      if (err instanceof TierLimitError) {
+        return NextResponse.json(
+          { error: { code: 'TIER_LIMIT_EXCEEDED', message: err.message, upgradeUrl: '/dashboard/settings/billing' } },
+          { status: 403 }
+        );
+      }
+      throw err;
+    }
+
+    // Old id → copy id. Subtree order puts parents before their children.
+    const groupIds = new Map([...subtree].map((g) => [g, crypto.randomUUID()]));
+    const nodeIds = new Map(members.map((n) => [n.id, crypto.randomUUID()]));
+
+    const newGroups = await db
+      .insert(nodeGroups)
+      .values(
+        [...subtree].map((oldId) => {
+          const group = groups.find((g) => g.id === oldId)!;
+          return {
+            id: groupIds.get(oldId)!,
+            modelId: mid,
+            name: oldId === gid ? (parsed.data.name ?? `${group.name} (copy)`) : group.name,
+            parentId: oldId === gid ? group.parentId : groupIds.get(group.parentId!)!,
+          };
+        }),
+      )
+      .returning();
+
+    const newNodes = members.length
+      ? await db
+          .insert(thermalNodes)
+          .values(
+            members.map((node) => ({
+              ...node,
+              id: nodeIds.get(node.id)!,
+              createdAt: new Date(),
+              groupId: groupIds.get(node.groupId!)!,
+            })),
+          )
+          .returning()
+      : [];
+
+    const internalConductors = (
+      await db.select().from(conductors).where(eq(conductors.modelId, mid))
+    ).filter((c) => nodeIds.has(c.nodeFromId) && nodeIds.has(c.nodeToId));
+    const newConductors = internalConductors.length
+      ? await db
+          .insert(conductors)
+          .values(
+            internalConductors.map((cond) => ({
+              ...cond,
+              id: crypto.randomUUID(),
+              createdAt: new Date(),
+              nodeFromId: nodeIds.get(cond.nodeFromId)!,
+              nodeToId: nodeIds.get(cond.nodeToId)!,
+            })),
+          )
+          .returning()
+      : [];
+
+    const memberLoads = (
+      await db.select().from(heatLoads).where(eq(heatLoads.modelId, mid))
+    ).filter((h) => nodeIds.has(h.nodeId));
+    const newHeatLoads = memberLoads.length
+      ? await db
+          .insert(heatLoads)
+          .values(
+            memberLoads.map((load) => ({
+              ...load,
+              id: crypto.randomUUID(),
+              createdAt: new Date(),
+              nodeId: nodeIds.get(load.nodeId)!,
+              // A copied heater senses the copy of its sense node when that is a member
+              heaterParams: load.heaterParams
+                ? {
+                    ...load.heaterParams,
+                    senseNodeId: nodeIds.get(load.heaterParams.senseNodeId) ?? load.heaterParams.senseNodeId,
+                  }
+                : null,
+            })),
+          )
+          .returning()
+      : [];
+
+    return NextResponse.json(
+      {
+        group: newGroups.find((g) => g.id === groupIds.get(gid)),
+        groups: newGroups,
+        nodes: newNodes,
+        conductors: newConductors,
+        heatLoads: newHeatLoads,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('POST /api/.../groups/[gid]/duplicate error:', error);
+    return serverErrorResponse();
+  }
+}
@@ -0,0 +1,233 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { nodeGroups, thermalNodes } from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { updateGroupSchema, bulkUpdateGroupNodesSchema } from '@/lib/validators/groups';
+import { subtreeGroupIds, wouldCreateCycle } from '@/lib/node-groups';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  verifyModelOwnership,
+  parseJsonBody,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; gid: string }>;
+}
+
+/** Rename or move a group. */
+export async function PUT(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, gid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = updateGroupSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const groups = await db
+      .select()
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, mid));
+    if (!groups.some((g) => g.id === gid)) return notFoundResponse('Group');
+
+    const { parentId } = parsed.data;
+    if (parentId) {
+      if (!groups.some((g) => g.id === parentId)) return notFoundResponse('Parent group');
+      if (wouldCreateCycle(groups, gid, parentId)) {
+        return NextResponse.json(
+          { error: 'A group cannot be moved into itself or one of its subgroups' },
+          { status: 400 },
+        );
+      }
+    }
+
+    const [updated] = await db
+      .update(nodeGroups)
+      .set(parsed.data)
+      .where(eq(nodeGroups.id, gid))
+      .returning();
+
+    return NextResponse.json({ group: updated });
+  } catch (error) {
+    console.error('PUT /api/.../groups/[gid] error:', error);
+    return serverErrorResponse();
+  }
+}
+
+/** Bulk property edit: apply the body to every node in the group and its subgroups. */
+export async function PATCH(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, gid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = bulkUpdateGroupNodesSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const groups = await db
+      .select()
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, mid));
+    if (!groups.some((g) => g.id === gid)) return notFoundResponse('Group');
+
+    const nodes = await db
+      .update(thermalNodes)
+      .set(parsed.data)
+      .where(
+        and(
+          eq(thermalNodes.modelId, mid),
+          inArray(thermalNodes.groupId, [...subtreeGroupIds(groups, gid)]),
+        ),
+      )
+      .returning();
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'group.updated',
+        entityType: 'group',
+        entityId: gid,
+        projectId: id,
+        modelId: mid,
+        after: { changes: parsed.data, nodeCount: nodes.length },
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ nodes });
+  } catch (error) {
+    console.error('PATCH /api/.../groups/[gid] error:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * Delete a group and its subgroups. Member nodes move to the top level unless
+ * `?withNodes=true`, which deletes them (and their conductors and loads) too.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, gid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const groups = await db
+      .select()
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, mid));
+    if (!groups.some((g) => g.id === gid)) return notFoundResponse('Group');
+
+    let deletedNodes = 0;
+    if (new URL(request.url).searchParams.get('withNodes') === 'true') {
+      const deleted = await db
+        .delete(thermalNodes)
+        .where(
+          and(
+            eq(thermalNodes.modelId, mid),
+            inArray(thermalNodes.groupId, [...subtreeGroupIds(groups, gid)]),
+          ),
+        )
+        .returning({ id: thermalNodes.id });
+      deletedNodes = deleted.length;
+    }
+
+    // Subgroups cascade; remaining members fall back to no group
+    await db.delete(nodeGroups).where(eq(nodeGroups.id, gid));
+
+    return NextResponse.json({ success: true, deletedNodes });
+  } catch (error) {
+    console.error('DELETE /api/.../groups/[gid] error:', error);
+    return serverErrorResponse();
+  }
+}
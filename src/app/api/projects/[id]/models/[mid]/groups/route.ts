@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { nodeGroups } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { createGroupSchema } from '@/lib/validators/groups';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  verifyProjectOwnership,
+  verifyModelOwnership,
+  parseJsonBody,
+} from '@/lib/utils/api-helpers';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string }>;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+    const project = await verifyProjectOwnership(id, user.id);
+    if (!project) return notFoundResponse('Project');
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const groups = await db
+      .select()
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, mid));
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('GET /api/.../groups error:', error);
+    return serverErrorResponse();
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+    const project = await verifyProjectOwnership(id, user.id);
+    if (!project) return notFoundResponse('Project');
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = createGroupSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    if (parsed.data.parentId) {
+      const [parent] = await db
+        .select()
+        .from(nodeGroups)
+        .where(and(eq(nodeGroups.id, parsed.data.parentId), eq(nodeGroups.modelId, mid)));
+      if (!parent) return notFoundResponse('Parent group');
+    }
+
+    const [group] = await db
+      .insert(nodeGroups)
+      .values({
+        modelId: mid,
+        name: parsed.data.name,
+        parentId: parsed.data.parentId ?? null,
+      })
+      .returning();
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'group.created',
+        entityType: 'group',
+        entityId: group.id,
+        projectId: id,
+        modelId: mid,
+        after: group,
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ group }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/.../groups error:', error);
+    return serverErrorResponse();
+  }
+}
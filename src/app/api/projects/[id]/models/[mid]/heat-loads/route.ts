@@ -81,6 +81,8 @@ export async function POST(
         value: parsed.data.value ?? null,
         timeValues: parsed.data.timeValues ?? null,
         orbitalParams: parsed.data.orbitalParams ?? null,
+        heaterParams: parsed.data.heaterParams ?? null,
+        expressions: parsed.data.expressions ?? null,
       })
       .returning();
 
@@ -0,0 +1,164 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { mliBlankets } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { updateBlanketSchema } from '@/lib/validators/blankets';
+import { detachBlanket, syncBlanket } from '@/lib/mli/blankets';
+import { blanketParamsError } from '@/lib/solver/mli-blanket';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  verifyModelOwnership,
+  parseJsonBody,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; bid: string }>;
+}
+
+/** Edit a blanket and regenerate its outer layer, conductor and loads. */
+export async function PUT(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, bid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = updateBlanketSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const [blanket] = await db
+      .select()
+      .from(mliBlankets)
+      .where(and(eq(mliBlankets.id, bid), eq(mliBlankets.modelId, mid)));
+    if (!blanket) return notFoundResponse('Blanket');
+
+    const paramsError = blanketParamsError({ ...blanket, ...parsed.data });
+    if (paramsError) {
+      return NextResponse.json({ error: paramsError }, { status: 400 });
+    }
+
+    const [updated] = await db
+      .update(mliBlankets)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(mliBlankets.id, bid))
+      .returning();
+    await syncBlanket(updated);
+
+    const [synced] = await db.select().from(mliBlankets).where(eq(mliBlankets.id, bid));
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'blanket.updated',
+        entityType: 'blanket',
+        entityId: bid,
+        projectId: id,
+        modelId: mid,
+        before: blanket,
+        after: synced,
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ blanket: synced });
+  } catch (error) {
+    console.error('PUT /api/.../mli-blankets/[bid] error:', error);
+    return serverErrorResponse();
+  }
+}
+
+/** Remove a blanket; the covered node gets its orbital loads and view to space back. */
+export async function DELETE(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, bid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const [blanket] = await db
+      .select()
+      .from(mliBlankets)
+      .where(and(eq(mliBlankets.id, bid), eq(mliBlankets.modelId, mid)));
+    if (!blanket) return notFoundResponse('Blanket');
+
+    await detachBlanket(blanket);
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'blanket.deleted',
+        entityType: 'blanket',
+        entityId: bid,
+        projectId: id,
+        modelId: mid,
+        before: blanket,
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/.../mli-blankets/[bid] error:', error);
+    return serverErrorResponse();
+  }
+}
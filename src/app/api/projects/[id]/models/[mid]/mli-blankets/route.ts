@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { mliBlankets, thermalNodes } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { createBlanketSchema } from '@/lib/validators/blankets';
+import { createBlanket } from '@/lib/mli/blankets';
+import { blanketParamsError } from '@/lib/solver/mli-blanket';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  verifyProjectOwnership,
+  verifyModelOwnership,
+  parseJsonBody,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string }>;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+    const project = await verifyProjectOwnership(id, user.id);
+    if (!project) return notFoundResponse('Project');
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const blankets = await db
+      .select()
+      .from(mliBlankets)
+      .where(eq(mliBlankets.modelId, mid));
+
+    return NextResponse.json({ blankets });
+  } catch (error) {
+    console.error('GET /api/.../mli-blankets error:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * Blanket a node. Generates the outer-layer node and its ε* conductor, and
+ * moves the node's orbital loads and view to space onto the outer layer.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 },
+      );
+    }
+
+    const parsed = createBlanketSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const [covered] = await db
+      .select()
+      .from(thermalNodes)
+      .where(and(eq(thermalNodes.id, parsed.data.nodeId), eq(thermalNodes.modelId, mid)));
+    if (!covered) return notFoundResponse('Node');
+
+    const [existing] = await db
+      .select({ id: mliBlankets.id })
+      .from(mliBlankets)
+      .where(eq(mliBlankets.nodeId, covered.id));
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This node already has a blanket' },
+        { status: 400 },
+      );
+    }
+
+    const area = parsed.data.area ?? covered.area;
+    if (area == null) {
+      return NextResponse.json(
+        { error: 'area is required when the covered node has no area' },
+        { status: 400 },
+      );
+    }
+
+    const paramsError = blanketParamsError(parsed.data);
+    if (paramsError) {
+      return NextResponse.json({ error: paramsError }, { status: 400 });
+    }
+
+    const blanket = await createBlanket(mid, { ...parsed.data, area }, covered);
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'blanket.created',
+        entityType: 'blanket',
+        entityId: blanket.id,
+        projectId: id,
+        modelId: mid,
+        after: blanket,
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ blanket }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/.../mli-blankets error:', error);
+    return serverErrorResponse();
+  }
+}
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { thermalNodes } from '@/lib/db/schema';
+import { nodeGroups, thermalNodes } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { updateNodeSchema } from '@/lib/validators/nodes';
+import { derivedNodeValues } from '@/lib/materials/node-properties';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -67,9 +68,17 @@ export async function PUT(
       );
     if (!existing) return notFoundResponse('Node');
 
+    if (parsed.data.groupId) {
+      const [group] = await db
+        .select()
+        .from(nodeGroups)
+        .where(and(eq(nodeGroups.id, parsed.data.groupId), eq(nodeGroups.modelId, mid)));
+      if (!group) return notFoundResponse('Group');
+    }
+
     const [updated] = await db
       .update(thermalNodes)
-      .set(parsed.data)
+      .set({ ...parsed.data, ...(await derivedNodeValues({ ...existing, ...parsed.data })) })
       .where(eq(thermalNodes.id, nid))
       .returning();
 
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { thermalNodes } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { nodeGroups, thermalNodes } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
 import { createNodeSchema } from '@/lib/validators/nodes';
 import { enforceTierLimit, TierLimitError } from '@/lib/billing/limits';
+import { derivedNodeValues } from '@/lib/materials/node-properties';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -86,6 +87,14 @@ export async function POST(
       return validationErrorResponse(parsed.error);
     }
 
+    if (parsed.data.groupId) {
+      const [group] = await db
+        .select()
+        .from(nodeGroups)
+        .where(and(eq(nodeGroups.id, parsed.data.groupId), eq(nodeGroups.modelId, mid)));
+      if (!group) return notFoundResponse('Group');
+    }
+
     const [node] = await db
       .insert(thermalNodes)
       .values({
@@ -96,10 +105,19 @@ export async function POST(
         capacitance: parsed.data.capacitance ?? null,
         boundaryTemp: parsed.data.boundaryTemp ?? null,
         materialId: parsed.data.materialId ?? null,
+        coatingId: parsed.data.coatingId ?? null,
         area: parsed.data.area ?? null,
         mass: parsed.data.mass ?? null,
+        thickness: parsed.data.thickness ?? null,
+        propertyOverrides: parsed.data.propertyOverrides ?? [],
         absorptivity: parsed.data.absorptivity ?? null,
         emissivity: parsed.data.emissivity ?? null,
+        radiatesToSpace: parsed.data.radiatesToSpace ?? false,
+        spaceViewFactor: parsed.data.spaceViewFactor ?? null,
+        specularity: parsed.data.specularity ?? 0,
+        groupId: parsed.data.groupId ?? null,
+        expressions: parsed.data.expressions ?? null,
+        ...(await derivedNodeValues(parsed.data)),
       })
       .returning();
 
@@ -8,12 +8,16 @@ import {
   heatLoads,
   thermalModels,
   simulationConfigs,
+  modelSnapshots,
 } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import type {
   NodeTemperatureHistory,
   ConductorFlowHistory,
+  SpaceFlowHistory,
+  ModelSnapshotData,
 } from '@/lib/db/schema';
+import { getRunInputsStatus, type RunInputsStatus } from '@/lib/snapshots/run-inputs';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -74,6 +78,20 @@ export async function GET(
       conductorNameMap.set(c.id, c.name);
     }
 
+    // Nodes and conductors deleted since the run keep the names they had then
+    const [inputSnapshot] = run.snapshotId
+      ? await db.select().from(modelSnapshots).where(eq(modelSnapshots.id, run.snapshotId))
+      : [];
+    const runInputs = inputSnapshot?.snapshot ?? null;
+    for (const [items, map] of [
+      [runInputs?.nodes ?? [], nodeNameMap],
+      [runInputs?.conductors ?? [], conductorNameMap],
+    ] as const) {
+      for (const item of items as Array<{ id?: string; name?: string }>) {
+        if (item.id && item.name && !map.has(item.id)) map.set(item.id, item.name);
+      }
+    }
+
     const url = new URL(request.url);
     const format = url.searchParams.get('format') ?? 'json-results';
     const units = url.searchParams.get('units') ?? 'si';
@@ -82,14 +100,16 @@ export async function GET(
       case 'csv-temp':
         return exportTemperatureCSV(results, nodeNameMap, run, units);
       case 'csv-flow':
-        return exportFlowCSV(results, conductorNameMap, run, units);
+        return exportFlowCSV(results, conductorNameMap, nodeNameMap, run, units);
       case 'csv':
         return exportTemperatureCSV(results, nodeNameMap, run, units);
       case 'json-full':
-        return await exportFullJSON(mid, run, results, nodeNameMap);
+        return await exportFullJSON(
+          mid, run, results, nodeNameMap, runInputs, await getRunInputsStatus(run, model),
+        );
       case 'json-results':
       case 'json':
-        return exportResultsJSON(run, results, nodeNameMap);
+        return exportResultsJSON(run, results, nodeNameMap, await getRunInputsStatus(run, model));
       default:
         return NextResponse.json(
           { error: `Unknown format: ${format}` },
@@ -162,14 +182,19 @@ function exportTemperatureCSV(
 }
 
 function exportFlowCSV(
-  results: Array<{ nodeId: string; timeValues: unknown; conductorFlows: unknown }>,
+  results: Array<{ nodeId: string; timeValues: unknown; conductorFlows: unknown; spaceFlow: unknown }>,
   conductorNameMap: Map<string, string>,
+  nodeNameMap: Map<string, string>,
   run: { id: string },
   units: string,
 ): NextResponse {
   const allFlows = new Map<string, ConductorFlowHistory>();
+  const spaceFlows = new Map<string, SpaceFlowHistory>();
   for (const result of results) {
     const flows = result.conductorFlows as ConductorFlowHistory[] | null;
+    if (result.spaceFlow) {
+      spaceFlows.set(result.nodeId, result.spaceFlow as SpaceFlowHistory);
+    }
     if (!flows) continue;
     for (const flow of flows) {
       if (!allFlows.has(flow.conductorId)) {
@@ -178,19 +203,23 @@ function exportFlowCSV(
     }
   }
 
-  if (allFlows.size === 0) {
+  if (allFlows.size === 0 && spaceFlows.size === 0) {
     return new NextResponse('No conductor flow data available', { status: 404 });
   }
 
   const fu = flowUnit(units);
   const flowEntries = Array.from(allFlows.values());
-  const times = flowEntries[0].times;
+  const spaceEntries = Array.from(spaceFlows.entries());
+  const times = flowEntries[0]?.times ?? spaceEntries[0][1].times;
 
   const headers = ['Time (s)'];
   for (const flow of flowEntries) {
     const name = conductorNameMap.get(flow.conductorId) ?? `Conductor_${flow.conductorId.slice(0, 8)}`;
     headers.push(`${name} (${fu})`);
   }
+  for (const [nodeId] of spaceEntries) {
+    headers.push(`${nodeNameMap.get(nodeId) ?? nodeId.slice(0, 8)} → Space (${fu})`);
+  }
 
   const rows: string[] = [headers.join(',')];
   for (let i = 0; i < times.length; i++) {
@@ -198,6 +227,9 @@ function exportFlowCSV(
     for (const flow of flowEntries) {
       row.push(convertFlow(flow.flows[i] ?? 0, units).toFixed(4));
     }
+    for (const [, flow] of spaceEntries) {
+      row.push(convertFlow(flow.flows[i] ?? 0, units).toFixed(4));
+    }
     rows.push(row.join(','));
   }
 
@@ -209,6 +241,16 @@ function exportFlowCSV(
   });
 }
 
+/** Which model version produced the run, and whether the model has moved on */
+function runInputsPayload(inputs: RunInputsStatus) {
+  return {
+    modelVersion: inputs.modelVersion,
+    snapshotId: inputs.snapshotId,
+    currentModelVersion: inputs.currentVersion,
+    modelChangedSinceRun: inputs.changed,
+  };
+}
+
 function exportResultsJSON(
   run: {
     id: string;
@@ -217,8 +259,9 @@ function exportResultsJSON(
     status: string;
     energyBalanceError: number | null;
   },
-  results: Array<{ nodeId: string; timeValues: unknown; conductorFlows: unknown }>,
+  results: Array<{ nodeId: string; timeValues: unknown; conductorFlows: unknown; spaceFlow: unknown }>,
   nodeNameMap: Map<string, string>,
+  inputs: RunInputsStatus,
 ): NextResponse {
   const payload = {
     exportType: 'results-only',
@@ -229,12 +272,14 @@ function exportResultsJSON(
       config: run.config,
       status: run.status,
       energyBalanceError: run.energyBalanceError,
+      ...runInputsPayload(inputs),
     },
     results: results.map((r) => ({
       nodeId: r.nodeId,
       nodeName: nodeNameMap.get(r.nodeId) ?? r.nodeId,
       timeValues: r.timeValues,
       conductorFlows: r.conductorFlows,
+      spaceFlow: r.spaceFlow,
     })),
   };
 
@@ -256,25 +301,28 @@ async function exportFullJSON(
     energyBalanceError: number | null;
     configId: string | null;
   },
-  results: Array<{ nodeId: string; timeValues: unknown; conductorFlows: unknown }>,
+  results: Array<{ nodeId: string; timeValues: unknown; conductorFlows: unknown; spaceFlow: unknown }>,
   nodeNameMap: Map<string, string>,
+  runInputs: ModelSnapshotData | null,
+  inputs: RunInputsStatus,
 ): Promise<NextResponse> {
   const [modelData] = await db
     .select()
     .from(thermalModels)
     .where(eq(thermalModels.id, modelId));
 
-  const nodesData = await db
+  // The model as the run saw it; runs from before inputs were recorded fall back to the current model
+  const nodesData = runInputs?.nodes ?? await db
     .select()
     .from(thermalNodes)
     .where(eq(thermalNodes.modelId, modelId));
 
-  const conductorsData = await db
+  const conductorsData = runInputs?.conductors ?? await db
     .select()
     .from(conductors)
     .where(eq(conductors.modelId, modelId));
 
-  const heatLoadsData = await db
+  const heatLoadsData = runInputs?.heatLoads ?? await db
     .select()
     .from(heatLoads)
     .where(eq(heatLoads.modelId, modelId));
@@ -294,7 +342,8 @@ async function exportFullJSON(
     model: {
       name: modelData.name,
       description: modelData.description,
-      orbitalConfig: modelData.orbitalConfig,
+      orbitalConfig: runInputs ? runInputs.orbitalConfig : modelData.orbitalConfig,
+      inputsFrom: runInputs ? 'run-snapshot' : 'current-model',
       nodes: nodesData,
       conductors: conductorsData,
       heatLoads: heatLoadsData,
@@ -308,12 +357,14 @@ async function exportFullJSON(
       config: run.config,
       status: run.status,
       energyBalanceError: run.energyBalanceError,
+      ...runInputsPayload(inputs),
     },
     results: results.map((r) => ({
       nodeId: r.nodeId,
       nodeName: nodeNameMap.get(r.nodeId) ?? r.nodeId,
       timeValues: r.timeValues,
       conductorFlows: r.conductorFlows,
+      spaceFlow: r.spaceFlow,
     })),
   };
 
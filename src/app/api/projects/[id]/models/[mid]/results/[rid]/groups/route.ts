@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import {
+  simulationRuns,
+  simulationResults,
+  nodeGroups,
+  thermalNodes,
+  conductors,
+} from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { summarizeGroupResults, type GroupResultSummary } from '@/lib/node-groups';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  verifyProjectOwnership,
+  verifyModelOwnership,
+} from '@/lib/utils/api-helpers';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; rid: string }>;
+}
+
+/** Per-group temperature statistics and boundary heat flow for a run. */
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, rid } = await params;
+    const project = await verifyProjectOwnership(id, user.id);
+    if (!project) return notFoundResponse('Project');
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const [run] = await db
+      .select()
+      .from(simulationRuns)
+      .where(
+        and(
+          eq(simulationRuns.id, rid),
+          eq(simulationRuns.modelId, mid),
+        ),
+      );
+    if (!run) return notFoundResponse('Simulation run');
+
+    const [groups, nodes, modelConductors, results] = await Promise.all([
+      db.select().from(nodeGroups).where(eq(nodeGroups.modelId, mid)),
+      db.select().from(thermalNodes).where(eq(thermalNodes.modelId, mid)),
+      db.select().from(conductors).where(eq(conductors.modelId, mid)),
+      db.select().from(simulationResults).where(eq(simulationResults.runId, rid)),
+    ]);
+
+    const summaries = groups
+      .map((g) => summarizeGroupResults(groups, nodes, modelConductors, results, g.id))
+      .filter((s): s is GroupResultSummary => s !== null);
+
+    return NextResponse.json({ groups: summaries });
+  } catch (error) {
+    console.error('GET /api/.../results/[rid]/groups error:', error);
+    return serverErrorResponse();
+  }
+}
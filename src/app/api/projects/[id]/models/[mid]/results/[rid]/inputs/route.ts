@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { simulationRuns } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getRunInputsStatus } from '@/lib/snapshots/run-inputs';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  verifyProjectOwnership,
+  verifyModelOwnership,
+} from '@/lib/utils/api-helpers';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; rid: string }>;
+}
+
+/**
+ * The model version and snapshot a run was queued with, and what has
+ * changed in the model since.
+ */
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, rid } = await params;
+    const project = await verifyProjectOwnership(id, user.id);
+    if (!project) return notFoundResponse('Project');
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const [run] = await db
+      .select()
+      .from(simulationRuns)
+      .where(and(eq(simulationRuns.id, rid), eq(simulationRuns.modelId, mid)));
+    if (!run) return notFoundResponse('Simulation run');
+
+    return NextResponse.json(await getRunInputsStatus(run, model));
+  } catch (error) {
+    console.error('GET /api/.../results/[rid]/inputs error:', error);
+    return serverErrorResponse();
+  }
+}
@@ -91,6 +91,11 @@ function buildParameterLabel(
   parameterType: string,
   nodeNameMap: Map<string, string>,
 ): string {
+  // Symbol names may contain underscores: symbol_value_<name>
+  if (parameterType === 'symbol') {
+    return `Symbol — ${parameterId.slice('symbol_value_'.length)}`;
+  }
+
   // parameterId format: type_property_entityId
   const parts = parameterId.split('_');
   const entityId = parts[parts.length - 1];
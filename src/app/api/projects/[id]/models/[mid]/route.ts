@@ -146,6 +146,10 @@ export async function PUT(
             nodes: body.nodes as unknown[],
             conductors: body.conductors as unknown[],
             heatLoads: body.heatLoads as unknown[],
+            groups: Array.isArray(body.groups) ? (body.groups as unknown[]) : [],
+            symbols: existing.symbols,
+            cadAssetId: existing.cadAssetId,
+            surfaceNodeMappings: existing.surfaceNodeMappings,
             orbitalConfig: existing.orbitalConfig,
           },
         });
@@ -194,6 +198,7 @@ export async function PUT(
       updateData.description = parsed.data.description;
     if (parsed.data.orbitalConfig !== undefined)
       updateData.orbitalConfig = parsed.data.orbitalConfig;
+    if (parsed.data.symbols !== undefined) updateData.symbols = parsed.data.symbols;
 
     const [updated] = await db
       .update(thermalModels)
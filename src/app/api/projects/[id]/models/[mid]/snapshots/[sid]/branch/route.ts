@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { modelSnapshots } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { branchSnapshotSchema } from '@/lib/validators/models';
+import { branchModel, captureModelSnapshot } from '@/lib/snapshots/apply';
+import { enforceTierLimit, TierLimitError } from '@/lib/billing/limits';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  verifyModelOwnership,
+  parseJsonBody,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; sid: string }>;
+}
+
+/**
+ * Fork a snapshot into a new model in the same project, leaving the source
+ * model untouched. The branch starts at version 1 with the snapshot as its
+ * first version.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, sid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const source = await verifyModelOwnership(mid, id);
+    if (!source) return notFoundResponse('Model');
+
+    const body = (await parseJsonBody(request)) ?? {};
+    const parsed = branchSnapshotSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const [snapshot] = await db
+      .select()
+      .from(modelSnapshots)
+      .where(and(eq(modelSnapshots.id, sid), eq(modelSnapshots.modelId, mid)));
+    if (!snapshot) return notFoundResponse('Snapshot');
+
+    try {
+      await enforceTierLimit(user.id, 'nodes', snapshot.snapshot.nodes.length - 1);
+    } catch (err) {
+      if (err instanceof TierLimitError) {
+        return NextResponse.json(
+          { error: { code: 'TIER_LIMIT_EXCEEDED', message: err.message, upgradeUrl: '/dashboard/settings/billing' } },
+          { status: 403 }
+        );
+      }
+      throw err;
+    }
+
+    const { model, summary } = await branchModel(source, snapshot, {
+      name: parsed.data.name ?? `${source.name} (branch of v${snapshot.version})`,
+      userId: user.id,
+    });
+
+    await db.insert(modelSnapshots).values({
+      modelId: model.id,
+      version: model.version,
+      description: `Branched from ${source.name} v${snapshot.version}`,
+      snapshot: await captureModelSnapshot(model),
+    });
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'model.branched',
+        entityType: 'model',
+        entityId: model.id,
+        projectId: id,
+        modelId: model.id,
+        after: { ...model, sourceVersion: snapshot.version, ...summary },
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    return NextResponse.json({ model }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/.../snapshots/[sid]/branch error:', error);
+    return serverErrorResponse();
+  }
+}
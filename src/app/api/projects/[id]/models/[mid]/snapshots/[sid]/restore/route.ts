@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { thermalModels, modelSnapshots } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { captureModelSnapshot, restoreModelSnapshot } from '@/lib/snapshots/apply';
+import { deliverWebhookEvent } from '@/lib/webhooks/deliver';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  verifyModelOwnership,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; sid: string }>;
+}
+
+/**
+ * Restore the model to a snapshot. The current state is snapshotted first
+ * so the restore can itself be undone, and the restored state is recorded
+ * as a new version.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, sid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const [snapshot] = await db
+      .select()
+      .from(modelSnapshots)
+      .where(and(eq(modelSnapshots.id, sid), eq(modelSnapshots.modelId, mid)));
+    if (!snapshot) return notFoundResponse('Snapshot');
+
+    const [safety] = await db
+      .insert(modelSnapshots)
+      .values({
+        modelId: mid,
+        version: model.version,
+        description: `Before restoring v${snapshot.version}`,
+        snapshot: await captureModelSnapshot(model),
+      })
+      .returning({ id: modelSnapshots.id });
+
+    const summary = await restoreModelSnapshot(model, snapshot.snapshot);
+
+    const newVersion = model.version + 1;
+    const [updated] = await db
+      .update(thermalModels)
+      .set({ version: newVersion, updatedAt: new Date() })
+      .where(eq(thermalModels.id, mid))
+      .returning();
+
+    await db.insert(modelSnapshots).values({
+      modelId: mid,
+      version: newVersion,
+      description: `Restored v${snapshot.version}`,
+      snapshot: await captureModelSnapshot(updated),
+    });
+
+    try {
+      const { logAuditEvent } = await import('@/lib/audit/logger');
+      await logAuditEvent({
+        userId: user.id,
+        action: 'model.restored',
+        entityType: 'model',
+        entityId: mid,
+        projectId: id,
+        modelId: mid,
+        before: { version: model.version, safetySnapshotId: safety.id },
+        after: { version: newVersion, snapshotId: sid, restoredVersion: snapshot.version, ...summary },
+        ipAddress: request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown',
+        userAgent: request.headers.get('user-agent') ?? undefined,
+      });
+    } catch { /* audit best-effort */ }
+
+    deliverWebhookEvent(user.id, 'model.updated', {
+      modelId: mid,
+      projectId: id,
+      version: newVersion,
+      timestamp: new Date().toISOString(),
+    }).catch((err) => console.error('Webhook delivery error:', err));
+
+    return NextResponse.json({
+      model: updated,
+      restored: summary,
+      safetySnapshotId: safety.id,
+    });
+  } catch (error) {
+    console.error('POST /api/.../snapshots/[sid]/restore error:', error);
+    return serverErrorResponse();
+  }
+}
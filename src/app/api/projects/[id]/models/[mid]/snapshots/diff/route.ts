@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { modelSnapshots } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { diffSnapshots, countChanges } from '@/lib/snapshots/diff';
+import { captureModelSnapshot } from '@/lib/snapshots/apply';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  verifyModelOwnership,
+  forbiddenResponse,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string }>;
+}
+
+/**
+ * GET ?from=<sid>&to=<sid|current> — field-by-field changes going from one
+ * snapshot to another, or to the model as currently stored (the default).
+ */
+export async function GET(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    try {
+      await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') ?? 'current';
+    if (!from) {
+      return NextResponse.json({ error: 'Missing "from" snapshot id' }, { status: 400 });
+    }
+
+    const load = async (sid: string) => {
+      const [row] = await db
+        .select()
+        .from(modelSnapshots)
+        .where(and(eq(modelSnapshots.id, sid), eq(modelSnapshots.modelId, mid)));
+      return row ?? null;
+    };
+
+    const base = await load(from);
+    if (!base) return notFoundResponse('Snapshot');
+    const target = to === 'current' ? null : await load(to);
+    if (to !== 'current' && !target) return notFoundResponse('Snapshot');
+
+    const diff = diffSnapshots(
+      base.snapshot,
+      target ? target.snapshot : await captureModelSnapshot(model),
+    );
+
+    return NextResponse.json({
+      from: { id: base.id, version: base.version },
+      to: target ? { id: target.id, version: target.version } : { id: 'current', version: model.version },
+      changeCount: countChanges(diff),
+      diff,
+    });
+  } catch (error) {
+    console.error('GET /api/.../snapshots/diff error:', error);
+    return serverErrorResponse();
+  }
+}
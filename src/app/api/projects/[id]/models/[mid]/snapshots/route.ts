@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { thermalModels, modelSnapshots } from '@/lib/db/schema';
+import { thermalModels, modelSnapshots, mliBlankets, type ModelSnapshotData } from '@/lib/db/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import {
   getAuthenticatedUser,
@@ -42,7 +42,7 @@ export async function GET(
         createdAt: modelSnapshots.createdAt,
       })
       .from(modelSnapshots)
-      .where(eq(modelSnapshots.modelId, mid))
+      .where(and(eq(modelSnapshots.modelId, mid), eq(modelSnapshots.isRunInputs, false)))
       .orderBy(desc(modelSnapshots.createdAt))
       .limit(100);
 
@@ -77,13 +77,18 @@ export async function POST(
       return NextResponse.json({ error: 'Missing snapshot data' }, { status: 400 });
     }
 
+    // Blankets are edited server-side, so the editor's snapshot does not carry them
+    const data = body.snapshot as ModelSnapshotData;
+    const blankets = data.blankets
+      ?? await db.select().from(mliBlankets).where(eq(mliBlankets.modelId, mid));
+
     const [snapshot] = await db
       .insert(modelSnapshots)
       .values({
         modelId: mid,
         version: model.version,
         description: (body.description as string) || 'Manual snapshot',
-        snapshot: body.snapshot as import('@/lib/db/schema').ModelSnapshotData,
+        snapshot: { ...data, blankets },
       })
       .returning();
 
@@ -10,6 +10,12 @@ import {
   verifyProjectOwnership,
 } from '@/lib/utils/api-helpers';
 import type { OrbitalConfig } from '@/lib/solver/types';
+import {
+  ExpressionError,
+  evaluateExpression,
+  expressionSymbols,
+  symbolValues,
+} from '@/lib/solver/expressions';
 
 interface RouteParams {
   params: Promise<{ id: string; mid: string }>;
@@ -185,6 +191,41 @@ export async function POST(
       }
     }
 
+    // Field expressions must evaluate against the model's symbols
+    const symbols = symbolValues(model.symbols);
+    const usedSymbols = new Set<string>();
+    const withExpressions = [
+      ...nodes.map((n) => ({ category: 'node' as const, label: 'Node', entity: n })),
+      ...modelConductors.map((c) => ({ category: 'conductor' as const, label: 'Conductor', entity: c })),
+      ...loads.map((l) => ({ category: 'heat_load' as const, label: 'Heat load', entity: l })),
+    ];
+    for (const { category, label, entity } of withExpressions) {
+      for (const [field, source] of Object.entries(entity.expressions ?? {})) {
+        try {
+          expressionSymbols(source).forEach((name) => usedSymbols.add(name));
+          evaluateExpression(source, symbols);
+        } catch (err) {
+          if (!(err instanceof ExpressionError)) throw err;
+          errors.push({
+            type: 'error',
+            category,
+            message: `${label} "${entity.name}" ${field}: ${err.message}`,
+            elementId: entity.id,
+            elementName: entity.name,
+          });
+        }
+      }
+    }
+    for (const symbol of model.symbols) {
+      if (!usedSymbols.has(symbol.name)) {
+        warnings.push({
+          type: 'warning',
+          category: 'general',
+          message: `Symbol "${symbol.name}" is not used by any expression`,
+        });
+      }
+    }
+
     // Check orbital loads require orbital config
     const hasOrbitalLoads = loads.some((l) => l.loadType === 'orbital');
     const orbitalConfig = model.orbitalConfig as OrbitalConfig | null;
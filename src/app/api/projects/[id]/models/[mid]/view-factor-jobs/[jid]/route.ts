@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { viewFactorJobs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  forbiddenResponse,
+  verifyModelOwnership,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string; jid: string }>;
+}
+
+// GET - Job status, and once completed the view factor matrix
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid, jid } = await params;
+
+    try {
+      await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const [job] = await db
+      .select()
+      .from(viewFactorJobs)
+      .where(and(eq(viewFactorJobs.id, jid), eq(viewFactorJobs.modelId, mid)));
+    if (!job) return notFoundResponse('View factor job');
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('GET /api/.../view-factor-jobs/[jid] error:', error);
+    return serverErrorResponse();
+  }
+}
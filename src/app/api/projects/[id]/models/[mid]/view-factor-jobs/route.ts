@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { viewFactorJobs } from '@/lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { createViewFactorJobSchema } from '@/lib/validators/cad';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  forbiddenResponse,
+  parseJsonBody,
+  verifyModelOwnership,
+} from '@/lib/utils/api-helpers';
+import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string; mid: string }>;
+}
+
+// Listing leaves out the matrix, which grows with the square of the surface count
+const summaryColumns = {
+  id: viewFactorJobs.id,
+  cadAssetId: viewFactorJobs.cadAssetId,
+  config: viewFactorJobs.config,
+  status: viewFactorJobs.status,
+  progress: viewFactorJobs.progress,
+  errorMessage: viewFactorJobs.errorMessage,
+  createdAt: viewFactorJobs.createdAt,
+  completedAt: viewFactorJobs.completedAt,
+};
+
+// POST - Queue a view factor run over the model's current CAD geometry
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    let role;
+    try {
+      role = await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    try {
+      requireRole(role, 'editor');
+    } catch {
+      return forbiddenResponse();
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const body = (await parseJsonBody(request)) ?? {};
+    const parsed = createViewFactorJobSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    if (!model.cadAssetId) {
+      return NextResponse.json(
+        { error: 'Import CAD geometry before computing view factors.' },
+        { status: 400 },
+      );
+    }
+    if (model.surfaceNodeMappings.length === 0) {
+      return NextResponse.json(
+        { error: 'Assign CAD faces to nodes before computing view factors.' },
+        { status: 400 },
+      );
+    }
+
+    // Queue the job — a simulation worker traces the rays.
+    // Clients poll GET .../view-factor-jobs/[jid] for progress.
+    const [job] = await db
+      .insert(viewFactorJobs)
+      .values({
+        modelId: mid,
+        cadAssetId: model.cadAssetId,
+        config: {
+          raysPerSurface: parsed.data.raysPerSurface,
+          minViewFactor: parsed.data.minViewFactor,
+          seed: parsed.data.seed ?? Math.floor(Math.random() * 2 ** 32),
+        },
+        status: 'pending',
+        requestedBy: user.id,
+      })
+      .returning(summaryColumns);
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('POST /api/.../view-factor-jobs error:', error);
+    return serverErrorResponse();
+  }
+}
+
+// GET - View factor jobs of the model, newest first
+export async function GET(
+  _request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, mid } = await params;
+
+    try {
+      await getUserProjectAccess(user.id, id);
+    } catch (e) {
+      if (e instanceof AccessDeniedError) return forbiddenResponse();
+      throw e;
+    }
+
+    const model = await verifyModelOwnership(mid, id);
+    if (!model) return notFoundResponse('Model');
+
+    const jobs = await db
+      .select(summaryColumns)
+      .from(viewFactorJobs)
+      .where(eq(viewFactorJobs.modelId, mid))
+      .orderBy(desc(viewFactorJobs.createdAt))
+      .limit(50);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('GET /api/.../view-factor-jobs error:', error);
+    return serverErrorResponse();
+  }
+}
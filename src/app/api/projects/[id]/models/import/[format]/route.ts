@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { thermalModels, thermalNodes, conductors, heatLoads } from '@/lib/db/schema';
+import { enforceTierLimit, TierLimitError } from '@/lib/billing/limits';
+import { DECK_FORMATS, type DeckFormat, type DeckReadResult } from '@/lib/interchange/deck';
+import { readEsatan } from '@/lib/interchange/esatan';
+import { readSinda } from '@/lib/interchange/sinda';
+import { deckToModelRows } from '@/lib/interchange/model';
+import {
+  getAuthenticatedUser,
+  unauthorizedResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  verifyProjectOwnership,
+} from '@/lib/utils/api-helpers';
+
+interface RouteParams {
+  params: Promise<{ id: string; format: string }>;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+
+const READERS: Record<DeckFormat, (content: string) => DeckReadResult> = {
+  esatan: readEsatan,
+  sinda: readSinda,
+};
+
+const FORMAT_LABELS: Record<DeckFormat, string> = {
+  esatan: 'ESATAN-TMS',
+  sinda: 'SINDA/FLUINT',
+};
+
+/**
+ * Create a model from an ESATAN-TMS (.d) or SINDA/FLUINT input deck
+ * (multipart field `file`, optional `name`). Responds with what was
+ * imported and every construct that was not.
+ */
+export async function POST(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id, format } = await params;
+    const project = await verifyProjectOwnership(id, user.id);
+    if (!project) return notFoundResponse('Project');
+
+    if (!(DECK_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json(
+        { error: `Unknown format. Supported: ${DECK_FORMATS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const deckFormat = format as DeckFormat;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json({ error: 'Missing required file field.' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024} MB` },
+        { status: 400 },
+      );
+    }
+
+    const { deck, unsupported } = READERS[deckFormat](await file.text());
+    if (deck.nodes.length === 0) {
+      return NextResponse.json(
+        { error: `No nodes found in the ${FORMAT_LABELS[deckFormat]} file.`, unsupported },
+        { status: 400 },
+      );
+    }
+
+    try {
+      await enforceTierLimit(user.id, 'nodes', deck.nodes.length - 1);
+    } catch (err) {
+      if (err instanceof TierLimitError) {
+        return NextResponse.json(
+          { error: { code: 'TIER_LIMIT_EXCEEDED', message: err.message, upgradeUrl: '/dashboard/settings/billing' } },
+          { status: 403 }
+        );
+      }
+      throw err;
+    }
+
+    const requestedName = formData.get('name');
+    const name =
+      (typeof requestedName === 'string' && requestedName.trim()) ||
+      deck.title ||
+      file.name.replace(/\.[^.]+$/, '');
+
+    const [model] = await db
+      .insert(thermalModels)
+      .values({
+        projectId: id,
+        name,
+        description: `Imported from ${FORMAT_LABELS[deckFormat]} file ${file.name}`,
+      })
+      .returning();
+
+    const rows = deckToModelRows(deck, model.id);
+    await db.insert(thermalNodes).values(rows.nodes);
+    if (rows.conductors.length > 0) {
+      await db.insert(conductors).values(rows.conductors);
+    }
+    if (rows.heatLoads.length > 0) {
+      await db.insert(heatLoads).values(rows.heatLoads);
+    }
+
+    return NextResponse.json(
+      {
+        modelId: model.id,
+        name: model.name,
+        imported: {
+          nodes: rows.nodes.length,
+          conductors: rows.conductors.length,
+          heatLoads: rows.heatLoads.length,
+        },
+        unsupported: [...unsupported, ...rows.unsupported],
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('POST /api/.../models/import/[format] error:', error);
+    return serverErrorResponse();
+  }
+}
@@ -3,10 +3,15 @@ import { db } from '@/lib/db/client';
 import {
   thermalModels,
   thermalNodes,
+  nodeGroups,
   conductors,
   heatLoads,
   simulationConfigs,
+  cadAssets,
 } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { symbolsSchema } from '@/lib/validators/expressions';
+import { cadGeometrySchema } from '@/lib/validators/cad';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -27,10 +32,23 @@ interface VxmNode {
   capacitance?: number | null;
   boundaryTemp?: number | null;
   materialId?: string | null;
+  coatingId?: string | null;
   area?: number | null;
   mass?: number | null;
+  thickness?: number | null;
   absorptivity?: number | null;
   emissivity?: number | null;
+  radiatesToSpace?: boolean;
+  spaceViewFactor?: number | null;
+  specularity?: number;
+  groupId?: string | null;
+  expressions?: Record<string, string> | null;
+}
+
+interface VxmGroup {
+  id: string;
+  name: string;
+  parentId?: string | null;
 }
 
 interface VxmConductor {
@@ -44,13 +62,14 @@ interface VxmConductor {
   viewFactor?: number | null;
   emissivity?: number | null;
   conductanceData?: { points: Array<{ temperature: number; conductance: number }> } | null;
+  expressions?: Record<string, string> | null;
 }
 
 interface VxmHeatLoad {
   id: string;
   name: string;
   nodeId: string;
-  loadType: 'constant' | 'time_varying' | 'orbital';
+  loadType: 'constant' | 'time_varying' | 'orbital' | 'heater';
   value?: number | null;
   timeValues?: { time: number; value: number }[] | null;
   orbitalParams?: {
@@ -58,7 +77,15 @@ interface VxmHeatLoad {
     absorptivity: number;
     emissivity: number;
     area: number;
+    surfaceNormal?: { x: number; y: number; z: number };
+  } | null;
+  heaterParams?: {
+    senseNodeId: string;
+    onSetpoint: number;
+    offSetpoint: number;
+    maxPower: number;
   } | null;
+  expressions?: Record<string, string> | null;
 }
 
 interface VxmFile {
@@ -68,10 +95,19 @@ interface VxmFile {
     name: string;
     description?: string | null;
     orbitalConfig?: unknown;
+    symbols?: unknown;
   };
   nodes: VxmNode[];
+  groups?: VxmGroup[];
   conductors: VxmConductor[];
   heatLoads: VxmHeatLoad[];
+  cad?: {
+    fileName: string;
+    faces: unknown[];
+    boundingBox: unknown;
+    totalSurfaceArea: number;
+    mappings?: Array<{ faceId: string; nodeId: string }>;
+  } | null;
   simulationConfigs?: Array<{ name: string; config: unknown }>;
 }
 
@@ -111,9 +147,39 @@ export async function POST(
         name: `${body.model.name} (imported)`,
         description: body.model.description ?? '',
         orbitalConfig: body.model.orbitalConfig as any,
+        // Files from before symbols existed, or with an invalid table, import without
+        symbols: symbolsSchema.safeParse(body.model.symbols ?? []).data ?? [],
       })
       .returning();
 
+    // Groups first so nodes can reference them; ids are assigned up front so
+    // each group is inserted after its parent
+    const groupIdMap = new Map<string, string>();
+    const groups = body.groups ?? [];
+    const orderedGroups: VxmGroup[] = [];
+    let pending = groups;
+    while (pending.length > 0) {
+      const ready = pending.filter(
+        (g) => !g.parentId || orderedGroups.some((o) => o.id === g.parentId),
+      );
+      // Parents missing from the file (or a cycle) — attach the rest at the top level
+      const next = ready.length > 0 ? ready : pending.map((g) => ({ ...g, parentId: null }));
+      orderedGroups.push(...next);
+      pending = pending.filter((g) => !next.some((n) => n.id === g.id));
+    }
+    for (const g of orderedGroups) groupIdMap.set(g.id, crypto.randomUUID());
+
+    if (orderedGroups.length > 0) {
+      await db.insert(nodeGroups).values(
+        orderedGroups.map((g) => ({
+          id: groupIdMap.get(g.id)!,
+          modelId: newModel.id,
+          name: g.name,
+          parentId: g.parentId ? groupIdMap.get(g.parentId)! : null,
+        })),
+      );
+    }
+
     // Build old-id → new-id map for nodes
     const nodeIdMap = new Map<string, string>();
 
@@ -130,10 +196,17 @@ export async function POST(
             capacitance: n.capacitance ?? null,
             boundaryTemp: n.boundaryTemp ?? null,
             materialId: null, // Don't carry over materialId references
+            coatingId: null, // the exported values stay as typed values
             area: n.area ?? null,
             mass: n.mass ?? null,
+            thickness: n.thickness ?? null,
             absorptivity: n.absorptivity ?? null,
             emissivity: n.emissivity ?? null,
+            radiatesToSpace: n.radiatesToSpace ?? false,
+            spaceViewFactor: n.spaceViewFactor ?? null,
+            specularity: n.specularity ?? 0,
+            groupId: n.groupId ? (groupIdMap.get(n.groupId) ?? null) : null,
+            expressions: n.expressions ?? null,
           })),
         )
         .returning();
@@ -162,6 +235,7 @@ export async function POST(
             viewFactor: c.viewFactor ?? null,
             emissivity: c.emissivity ?? null,
             conductanceData: c.conductanceData ?? null,
+            expressions: c.expressions ?? null,
           })),
       );
     }
@@ -170,7 +244,11 @@ export async function POST(
     if (body.heatLoads.length > 0) {
       await db.insert(heatLoads).values(
         body.heatLoads
-          .filter((h) => nodeIdMap.has(h.nodeId))
+          .filter(
+            (h) =>
+              nodeIdMap.has(h.nodeId) &&
+              (!h.heaterParams || nodeIdMap.has(h.heaterParams.senseNodeId)),
+          )
           .map((h) => ({
             modelId: newModel.id,
             nodeId: nodeIdMap.get(h.nodeId)!,
@@ -179,10 +257,45 @@ export async function POST(
             value: h.value ?? null,
             timeValues: h.timeValues ?? null,
             orbitalParams: h.orbitalParams ?? null,
+            heaterParams: h.heaterParams
+              ? {
+                  ...h.heaterParams,
+                  senseNodeId: nodeIdMap.get(h.heaterParams.senseNodeId)!,
+                }
+              : null,
+            expressions: h.expressions ?? null,
           })),
       );
     }
 
+    // CAD geometry; mappings follow the remapped nodes
+    const cad = cadGeometrySchema.safeParse(body.cad);
+    if (cad.success) {
+      const [asset] = await db
+        .insert(cadAssets)
+        .values({
+          projectId: id,
+          modelId: newModel.id,
+          fileName: cad.data.fileName,
+          faces: cad.data.faces,
+          boundingBox: cad.data.boundingBox,
+          totalSurfaceArea: cad.data.totalSurfaceArea,
+          uploadedBy: user.id,
+        })
+        .returning({ id: cadAssets.id });
+
+      const faceIds = new Set(cad.data.faces.map((f) => f.id));
+      await db
+        .update(thermalModels)
+        .set({
+          cadAssetId: asset.id,
+          surfaceNodeMappings: (body.cad?.mappings ?? [])
+            .filter((m) => faceIds.has(m.faceId) && nodeIdMap.has(m.nodeId))
+            .map((m) => ({ faceId: m.faceId, nodeId: nodeIdMap.get(m.nodeId)! })),
+        })
+        .where(eq(thermalModels.id, newModel.id));
+    }
+
     // Insert simulation configs
     if (body.simulationConfigs && body.simulationConfigs.length > 0) {
       await db.insert(simulationConfigs).values(
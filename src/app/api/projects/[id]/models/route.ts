@@ -74,6 +74,7 @@ export async function POST(
         name: parsed.data.name,
         description: parsed.data.description,
         orbitalConfig: parsed.data.orbitalConfig ?? null,
+        symbols: parsed.data.symbols ?? [],
       })
       .returning();
 
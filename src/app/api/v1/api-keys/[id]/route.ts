@@ -2,15 +2,86 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { apiKeys } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { DEFAULT_API_KEY_RATE_LIMIT } from '@/lib/auth/api-key';
+import { getUserProjectAccess, AccessDeniedError } from '@/lib/auth/access';
+import { updateApiKeySchema } from '@/lib/validators/api-keys';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
+  validationErrorResponse,
+  parseJsonBody,
 } from '@/lib/utils/api-helpers';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+/** Change a key's label, scopes, project restriction, rate limit or expiry. */
+export async function PATCH(
+  request: Request,
+  { params }: RouteParams,
+): Promise<NextResponse> {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return unauthorizedResponse();
+
+    const { id } = await params;
+
+    const [key] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, user.id)));
+
+    if (!key) return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    if (key.revokedAt) return NextResponse.json({ error: 'API key has been revoked' }, { status: 409 });
+
+    const body = await parseJsonBody(request);
+    if (!body) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+
+    const parsed = updateApiKeySchema.safeParse(body);
+    if (!parsed.success) return validationErrorResponse(parsed.error);
+
+    for (const projectId of parsed.data.projectIds ?? []) {
+      try {
+        await getUserProjectAccess(user.id, projectId);
+      } catch (e) {
+        if (e instanceof AccessDeniedError) {
+          return NextResponse.json({ error: `No access to project ${projectId}` }, { status: 400 });
+        }
+        throw e;
+      }
+    }
+
+    const { expiresAt, ...rest } = parsed.data;
+    const [updated] = await db
+      .update(apiKeys)
+      .set({
+        ...rest,
+        ...(expiresAt !== undefined && { expiresAt: expiresAt ? new Date(expiresAt) : null }),
+      })
+      .where(eq(apiKeys.id, id))
+      .returning();
+
+    return NextResponse.json({
+      data: {
+        id: updated.id,
+        label: updated.label,
+        keyHint: updated.keyHint,
+        scopes: updated.scopes,
+        projectIds: updated.projectIds,
+        rateLimitPerMinute: updated.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+        createdAt: updated.createdAt,
+        lastUsedAt: updated.lastUsedAt,
+        expiresAt: updated.expiresAt,
+        revokedAt: updated.revokedAt,
+      },
+    });
+  } catch (error) {
+    console.error('PATCH /api/v1/api-keys/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 export async function DELETE(
   _request: Request,
   { params }: RouteParams,
@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { apiKeys } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { z } from 'zod';
-import { generateApiKey } from '@/lib/auth/api-key';
+import { generateApiKey, DEFAULT_API_KEY_RATE_LIMIT } from '@/lib/auth/api-key';
+import { getUserProjectAccess, AccessDeniedError } from '@/lib/auth/access';
+import { createApiKeySchema } from '@/lib/validators/api-keys';
 import {
   getAuthenticatedUser,
   unauthorizedResponse,
@@ -11,11 +12,6 @@ import {
   parseJsonBody,
 } from '@/lib/utils/api-helpers';
 
-const createApiKeySchema = z.object({
-  label: z.string().min(1).max(200),
-  expiresAt: z.string().datetime().optional(),
-});
-
 export async function GET(): Promise<NextResponse> {
   try {
     const user = await getAuthenticatedUser();
@@ -26,6 +22,9 @@ export async function GET(): Promise<NextResponse> {
         id: apiKeys.id,
         label: apiKeys.label,
         keyHint: apiKeys.keyHint,
+        scopes: apiKeys.scopes,
+        projectIds: apiKeys.projectIds,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
         createdAt: apiKeys.createdAt,
         lastUsedAt: apiKeys.lastUsedAt,
         expiresAt: apiKeys.expiresAt,
@@ -34,7 +33,12 @@ export async function GET(): Promise<NextResponse> {
       .from(apiKeys)
       .where(eq(apiKeys.userId, user.id));
 
-    return NextResponse.json({ data: keys });
+    return NextResponse.json({
+      data: keys.map((k) => ({
+        ...k,
+        rateLimitPerMinute: k.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+      })),
+    });
   } catch (error) {
     console.error('GET /api/v1/api-keys error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -52,6 +56,18 @@ export async function POST(request: Request): Promise<NextResponse> {
     const parsed = createApiKeySchema.safeParse(body);
     if (!parsed.success) return validationErrorResponse(parsed.error);
 
+    // Keys can only be restricted to projects their owner can access
+    for (const projectId of parsed.data.projectIds ?? []) {
+      try {
+        await getUserProjectAccess(user.id, projectId);
+      } catch (e) {
+        if (e instanceof AccessDeniedError) {
+          return NextResponse.json({ error: `No access to project ${projectId}` }, { status: 400 });
+        }
+        throw e;
+      }
+    }
+
     const { plaintext, hash, hint } = generateApiKey();
 
     const [key] = await db
@@ -61,6 +77,9 @@ export async function POST(request: Request): Promise<NextResponse> {
         keyHash: hash,
         keyHint: hint,
         label: parsed.data.label,
+        scopes: parsed.data.scopes,
+        projectIds: parsed.data.projectIds ?? null,
+        rateLimitPerMinute: parsed.data.rateLimitPerMinute ?? null,
         expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null,
       })
       .returning();
@@ -72,6 +91,9 @@ export async function POST(request: Request): Promise<NextResponse> {
           label: key.label,
           keyHint: key.keyHint,
           plaintext, // shown ONCE
+          scopes: key.scopes,
+          projectIds: key.projectIds,
+          rateLimitPerMinute: key.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
           createdAt: key.createdAt,
           expiresAt: key.expiresAt,
         },
@@ -2,16 +2,17 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { conductors, thermalModels } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import type { ApiKeyAuth } from '@/lib/auth/api-key';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { updateConductorSchema } from '@/lib/validators/conductors';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function getConductorWithAccess(auth: { userId: string }, conductorId: string) {
+async function getConductorWithAccess(auth: ApiKeyAuth, conductorId: string) {
   const [conductor] = await db.select().from(conductors).where(eq(conductors.id, conductorId));
   if (!conductor) return { conductor: null, role: null };
 
@@ -19,7 +20,7 @@ async function getConductorWithAccess(auth: { userId: string }, conductorId: str
   if (!model) return { conductor: null, role: null };
 
   try {
-    const role = await getUserProjectAccess(auth.userId, model.projectId);
+    const role = await getKeyProjectAccess(auth, model.projectId);
     return { conductor, role };
   } catch (e) {
     if (e instanceof AccessDeniedError) return { conductor: null, role: null, forbidden: true };
@@ -29,7 +30,7 @@ async function getConductorWithAccess(auth: { userId: string }, conductorId: str
 
 export async function PUT(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -55,7 +56,7 @@ export async function PUT(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function DELETE(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
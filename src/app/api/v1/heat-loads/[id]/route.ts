@@ -2,16 +2,17 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { heatLoads, thermalModels } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import type { ApiKeyAuth } from '@/lib/auth/api-key';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { updateHeatLoadSchema } from '@/lib/validators/heat-loads';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function getHeatLoadWithAccess(auth: { userId: string }, heatLoadId: string) {
+async function getHeatLoadWithAccess(auth: ApiKeyAuth, heatLoadId: string) {
   const [load] = await db.select().from(heatLoads).where(eq(heatLoads.id, heatLoadId));
   if (!load) return { load: null, role: null };
 
@@ -19,7 +20,7 @@ async function getHeatLoadWithAccess(auth: { userId: string }, heatLoadId: strin
   if (!model) return { load: null, role: null };
 
   try {
-    const role = await getUserProjectAccess(auth.userId, model.projectId);
+    const role = await getKeyProjectAccess(auth, model.projectId);
     return { load, role };
   } catch (e) {
     if (e instanceof AccessDeniedError) return { load: null, role: null, forbidden: true };
@@ -29,7 +30,7 @@ async function getHeatLoadWithAccess(auth: { userId: string }, heatLoadId: strin
 
 export async function PUT(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -55,7 +56,7 @@ export async function PUT(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function DELETE(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { materials } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import { visibleMaterials } from '@/lib/materials/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -10,7 +11,7 @@ interface RouteParams {
 
 export async function GET(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'read');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -18,8 +19,12 @@ export async function GET(request: Request, { params }: RouteParams): Promise<Ne
     const [material] = await db.select().from(materials).where(eq(materials.id, id));
     if (!material) return NextResponse.json({ error: 'Material not found' }, { status: 404 });
 
-    // Only allow access to default materials or user's own
-    if (!material.isDefault && material.userId !== auth.userId) {
+    // Only allow access to default materials, the user's own and their orgs' libraries
+    const [visible] = await db
+      .select({ id: materials.id })
+      .from(materials)
+      .where(and(eq(materials.id, id), await visibleMaterials(auth.userId)));
+    if (!visible) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -1,20 +1,21 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { materials } from '@/lib/db/schema';
-import { eq, or } from 'drizzle-orm';
 import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
 import { createMaterialSchema } from '@/lib/validators/materials';
+import { canEditOrgLibrary, visibleMaterials } from '@/lib/materials/access';
+import { createMaterial } from '@/lib/materials/library';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
 
 export async function GET(request: Request): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'read');
     if (isErrorResponse(auth)) return auth;
 
     const rows = await db
       .select()
       .from(materials)
-      .where(or(eq(materials.isDefault, true), eq(materials.userId, auth.userId)));
+      .where(await visibleMaterials(auth.userId));
 
     return NextResponse.json({ data: rows });
   } catch (error) {
@@ -25,7 +26,7 @@ export async function GET(request: Request): Promise<NextResponse> {
 
 export async function POST(request: Request): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const body = await parseJsonBody(request);
@@ -34,14 +35,12 @@ export async function POST(request: Request): Promise<NextResponse> {
     const parsed = createMaterialSchema.safeParse(body);
     if (!parsed.success) return validationErrorResponse(parsed.error);
 
-    const [material] = await db
-      .insert(materials)
-      .values({
-        ...parsed.data,
-        userId: auth.userId,
-        isDefault: false,
-      })
-      .returning();
+    // Only the organisation's owners and admins add to its library
+    if (parsed.data.orgId && !(await canEditOrgLibrary(parsed.data.orgId, auth.userId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const material = await createMaterial(parsed.data, auth.userId);
 
     return NextResponse.json({ data: material }, { status: 201 });
   } catch (error) {
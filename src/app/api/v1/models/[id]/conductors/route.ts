@@ -2,10 +2,10 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { thermalModels, conductors } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { createConductorSchema } from '@/lib/validators/conductors';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -13,7 +13,7 @@ interface RouteParams {
 
 export async function GET(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'read');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -22,7 +22,7 @@ export async function GET(request: Request, { params }: RouteParams): Promise<Ne
     if (!model) return NextResponse.json({ error: 'Model not found' }, { status: 404 });
 
     try {
-      await getUserProjectAccess(auth.userId, model.projectId);
+      await getKeyProjectAccess(auth, model.projectId);
     } catch (e) {
       if (e instanceof AccessDeniedError) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       throw e;
@@ -39,7 +39,7 @@ export async function GET(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function POST(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -49,7 +49,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
 
     let role;
     try {
-      role = await getUserProjectAccess(auth.userId, model.projectId);
+      role = await getKeyProjectAccess(auth, model.projectId);
     } catch (e) {
       if (e instanceof AccessDeniedError) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       throw e;
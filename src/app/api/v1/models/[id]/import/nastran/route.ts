@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { thermalModels, thermalNodes, conductors, materials } from '@/lib/db/schema';
+import { thermalModels, thermalNodes, conductors, heatLoads, materials } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 import { parseBdf } from '@/lib/import/nastran-bdf-parser';
 import { mapBdfToVerixos } from '@/lib/import/nastran-mapper';
 
@@ -16,7 +16,7 @@ const ALLOWED_EXTENSIONS = ['.bdf', '.dat'];
 
 export async function POST(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id: modelId } = await params;
@@ -30,7 +30,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
     // Auth: user must have editor+ access to the project
     let role;
     try {
-      role = await getUserProjectAccess(auth.userId, model.projectId);
+      role = await getKeyProjectAccess(auth, model.projectId);
     } catch (e) {
       if (e instanceof AccessDeniedError) {
         return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
@@ -105,6 +105,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
       // Replace mode: delete all existing data and re-insert in a transaction
       await db.transaction(async (tx) => {
         // Delete existing model data
+        await tx.delete(heatLoads).where(eq(heatLoads.modelId, modelId));
         await tx.delete(conductors).where(eq(conductors.modelId, modelId));
         await tx.delete(thermalNodes).where(eq(thermalNodes.modelId, modelId));
         await tx.delete(materials).where(eq(materials.projectId, model.projectId));
@@ -167,6 +168,11 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
             })),
           );
         }
+
+        // Insert heat loads
+        if (mapped.heatLoads.length > 0) {
+          await tx.insert(heatLoads).values(mapped.heatLoads);
+        }
       });
     } else if (existingNodes.length > 0 && mode !== 'append') {
       return NextResponse.json(
@@ -233,6 +239,10 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
           })),
         );
       }
+
+      if (mapped.heatLoads.length > 0) {
+        await db.insert(heatLoads).values(mapped.heatLoads);
+      }
     }
 
     return NextResponse.json({
@@ -240,6 +250,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
       imported: {
         nodes: mapped.nodes.length,
         conductors: mapped.conductors.length,
+        heatLoads: mapped.heatLoads.length,
         materials: mapped.materials.length,
       },
       warnings: mapped.warnings,
@@ -2,10 +2,11 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { thermalModels, thermalNodes } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { createNodeSchema } from '@/lib/validators/nodes';
+import { derivedNodeValues } from '@/lib/materials/node-properties';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 import { enforceTierLimit, TierLimitError } from '@/lib/billing/limits';
 
 interface RouteParams {
@@ -14,7 +15,7 @@ interface RouteParams {
 
 export async function GET(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'read');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -23,7 +24,7 @@ export async function GET(request: Request, { params }: RouteParams): Promise<Ne
     if (!model) return NextResponse.json({ error: 'Model not found' }, { status: 404 });
 
     try {
-      await getUserProjectAccess(auth.userId, model.projectId);
+      await getKeyProjectAccess(auth, model.projectId);
     } catch (e) {
       if (e instanceof AccessDeniedError) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       throw e;
@@ -40,7 +41,7 @@ export async function GET(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function POST(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -50,7 +51,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
 
     let role;
     try {
-      role = await getUserProjectAccess(auth.userId, model.projectId);
+      role = await getKeyProjectAccess(auth, model.projectId);
     } catch (e) {
       if (e instanceof AccessDeniedError) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       throw e;
@@ -81,7 +82,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
     for (const item of items) {
       const parsed = createNodeSchema.safeParse(item);
       if (!parsed.success) return validationErrorResponse(parsed.error);
-      results.push({ modelId: id, ...parsed.data });
+      results.push({ modelId: id, ...parsed.data, ...(await derivedNodeValues(parsed.data)) });
     }
 
     const created = await db.insert(thermalNodes).values(results).returning();
@@ -2,21 +2,22 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { thermalModels, thermalNodes, conductors, heatLoads } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import type { ApiKeyAuth } from '@/lib/auth/api-key';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { updateModelSchema } from '@/lib/validators/models';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function getModelWithAccess(auth: { userId: string }, modelId: string) {
+async function getModelWithAccess(auth: ApiKeyAuth, modelId: string) {
   const [model] = await db.select().from(thermalModels).where(eq(thermalModels.id, modelId));
   if (!model) return { model: null, role: null, error: 'Model not found' };
 
   try {
-    const role = await getUserProjectAccess(auth.userId, model.projectId);
+    const role = await getKeyProjectAccess(auth, model.projectId);
     return { model, role, error: null };
   } catch (e) {
     if (e instanceof AccessDeniedError) return { model: null, role: null, error: 'Forbidden' };
@@ -26,7 +27,7 @@ async function getModelWithAccess(auth: { userId: string }, modelId: string) {
 
 export async function GET(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'read');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -50,7 +51,7 @@ export async function GET(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function PUT(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -80,7 +81,7 @@ export async function PUT(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function DELETE(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -3,33 +3,26 @@ import { db } from '@/lib/db/client';
 import {
   thermalModels,
   thermalNodes,
-  conductors,
-  heatLoads,
   simulationRuns,
-  simulationResults,
-  sensitivityMatrices,
+  simulationConfigs,
   projects,
 } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import { eq, and, inArray } from 'drizzle-orm';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { runSimulationSchema } from '@/lib/validators/simulation';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 import { enforceTierLimit, TierLimitError } from '@/lib/billing/limits';
-import { buildThermalNetwork, runSimulation } from '@/lib/solver/thermal-network';
-import { computeEnergyBalance } from '@/lib/solver/energy-balance';
-import { computeSensitivityMatrix } from '@/lib/solver/sensitivity';
-import type { OrbitalConfig, SimulationConfig } from '@/lib/solver/types';
+import { recordRunInputs } from '@/lib/snapshots/run-inputs';
+import type { EnvironmentPreset } from '@/lib/solver/types';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-const MAX_SIMULATION_TIME_MS = 30000;
-
 export async function POST(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'simulate');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -39,7 +32,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
 
     let role;
     try {
-      role = await getUserProjectAccess(auth.userId, model.projectId);
+      role = await getKeyProjectAccess(auth, model.projectId);
     } catch (e) {
       if (e instanceof AccessDeniedError) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
       throw e;
@@ -53,13 +46,35 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
     const parsed = runSimulationSchema.safeParse(body);
     if (!parsed.success) return validationErrorResponse(parsed.error);
 
-    // Enforce tier limit on simultaneous simulations (scoped to current user)
+    // Per-run environment and BOL/EOL override, else the saved config's, else defaults
+    let environment: EnvironmentPreset | null = parsed.data.environment ?? null;
+    let { opticalLife, missionYears } = parsed.data.config;
+    if (parsed.data.configId) {
+      const [savedConfig] = await db
+        .select()
+        .from(simulationConfigs)
+        .where(and(eq(simulationConfigs.id, parsed.data.configId), eq(simulationConfigs.modelId, id)));
+      if (!savedConfig) return NextResponse.json({ error: 'Simulation config not found' }, { status: 404 });
+      environment ??= savedConfig.config.environment ?? null;
+      if (!opticalLife) {
+        opticalLife = savedConfig.config.opticalLife;
+        missionYears ??= savedConfig.config.missionYears;
+      }
+    }
+
+    // Enforce tier limit on simultaneous simulations (scoped to current user).
+    // Queued runs count too, otherwise the limit could be bypassed by enqueueing.
     const runningSims = await db
       .select({ id: simulationRuns.id })
       .from(simulationRuns)
       .innerJoin(thermalModels, eq(simulationRuns.modelId, thermalModels.id))
       .innerJoin(projects, eq(thermalModels.projectId, projects.id))
-      .where(and(eq(simulationRuns.status, 'running'), eq(projects.userId, auth.userId)));
+      .where(
+        and(
+          inArray(simulationRuns.status, ['pending', 'running']),
+          eq(projects.userId, auth.userId),
+        ),
+      );
     const userRunningSims = runningSims.length;
     try {
       await enforceTierLimit(auth.userId, 'sims', userRunningSims);
@@ -73,24 +88,29 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
       throw err;
     }
 
-    const nodes = await db.select().from(thermalNodes).where(eq(thermalNodes.modelId, id));
-    if (nodes.length === 0) {
+    const [firstNode] = await db
+      .select({ id: thermalNodes.id })
+      .from(thermalNodes)
+      .where(eq(thermalNodes.modelId, id))
+      .limit(1);
+    if (!firstNode) {
       return NextResponse.json({ error: 'Model has no nodes' }, { status: 400 });
     }
 
-    const modelConductors = await db.select().from(conductors).where(eq(conductors.modelId, id));
-    const loads = await db.select().from(heatLoads).where(eq(heatLoads.modelId, id));
-
+    // Queued for a simulation worker; poll GET /api/v1/simulations/[id] for progress
+    const inputs = await recordRunInputs(model);
     const [run] = await db
       .insert(simulationRuns)
       .values({
         modelId: id,
-        configId: (parsed.data as any).configId ?? null,
-        status: 'running',
+        ...inputs,
+        configId: parsed.data.configId ?? null,
+        status: 'pending',
         simulationType: parsed.data.simulationType,
-        config: parsed.data.config,
+        config: { ...parsed.data.config, solverMethod: parsed.data.solverMethod, opticalLife, missionYears },
+        environment,
+        requestedBy: auth.userId,
         progress: 0,
-        startedAt: new Date(),
       })
       .returning();
 
@@ -109,101 +129,7 @@ export async function POST(request: Request, { params }: RouteParams): Promise<N
       });
     } catch { /* audit best-effort */ }
 
-    try {
-      await db.update(simulationRuns).set({ progress: 10 }).where(eq(simulationRuns.id, run.id));
-
-      const network = buildThermalNetwork(
-        nodes, modelConductors, loads,
-        (model.orbitalConfig as OrbitalConfig) ?? null,
-      );
-
-      await db.update(simulationRuns).set({ progress: 20 }).where(eq(simulationRuns.id, run.id));
-
-      const simConfig: SimulationConfig = {
-        simulationType: parsed.data.simulationType,
-        solverMethod: parsed.data.solverMethod ?? 'rk4',
-        timeStart: parsed.data.config.timeStart,
-        timeEnd: parsed.data.config.timeEnd,
-        timeStep: parsed.data.config.timeStep,
-        maxIterations: parsed.data.config.maxIterations,
-        tolerance: parsed.data.config.tolerance,
-        minStep: parsed.data.config.minStep ?? parsed.data.config.timeStep * 0.001,
-        maxStep: parsed.data.config.maxStep ?? parsed.data.config.timeStep * 10,
-      };
-
-      const startTime = Date.now();
-      const result = runSimulation(network, simConfig);
-      const elapsed = Date.now() - startTime;
-
-      await db.update(simulationRuns).set({ progress: 80 }).where(eq(simulationRuns.id, run.id));
-
-      if (elapsed > MAX_SIMULATION_TIME_MS) {
-        await db.update(simulationRuns).set({
-          status: 'failed', completedAt: new Date(), progress: 100,
-          errorMessage: 'Simulation exceeded time limit',
-        }).where(eq(simulationRuns.id, run.id));
-        return NextResponse.json({ error: 'Simulation exceeded time limit' }, { status: 408 });
-      }
-
-      const energyBalance = computeEnergyBalance(network, result);
-
-      const BATCH_SIZE = 100;
-      const resultValues = result.nodeResults.map((nodeResult) => ({
-        runId: run.id,
-        nodeId: nodeResult.nodeId,
-        timeValues: { times: nodeResult.times, temperatures: nodeResult.temperatures },
-        conductorFlows: result.conductorFlows
-          .filter((cf) => {
-            const c = network.conductors.find((c) => c.id === cf.conductorId);
-            return c?.nodeFromId === nodeResult.nodeId || c?.nodeToId === nodeResult.nodeId;
-          })
-          .map((cf) => ({ conductorId: cf.conductorId, times: cf.times, flows: cf.flows })),
-      }));
-
-      for (let i = 0; i < resultValues.length; i += BATCH_SIZE) {
-        const batch = resultValues.slice(i, i + BATCH_SIZE);
-        await db.insert(simulationResults).values(batch);
-        const writeProgress = 80 + Math.floor((i / resultValues.length) * 15);
-        await db.update(simulationRuns).set({ progress: writeProgress }).where(eq(simulationRuns.id, run.id));
-      }
-
-      await db.update(simulationRuns).set({
-        status: 'completed', completedAt: new Date(), progress: 100,
-        energyBalanceError: energyBalance.relativeError,
-      }).where(eq(simulationRuns.id, run.id));
-
-      // Fire sensitivity in background
-      try {
-        const [sensRow] = await db.insert(sensitivityMatrices).values({ runId: run.id, status: 'pending' }).returning();
-        setTimeout(() => {
-          computeSensitivityMatrix(sensRow.id, nodes, modelConductors, loads, (model.orbitalConfig as OrbitalConfig) ?? null).catch(console.error);
-        }, 0);
-      } catch { /* non-blocking */ }
-
-      return NextResponse.json({
-        data: {
-          run: { ...run, status: 'completed', completedAt: new Date(), progress: 100, energyBalanceError: energyBalance.relativeError },
-          summary: {
-            timePoints: result.timePoints.length,
-            nodeCount: result.nodeResults.length,
-            conductorCount: result.conductorFlows.length,
-            converged: result.converged,
-            iterations: result.iterations,
-            energyBalance: {
-              isBalanced: energyBalance.isBalanced,
-              relativeError: energyBalance.relativeError,
-              totalEnergyStored: energyBalance.totalEnergyStored,
-            },
-          },
-        },
-      });
-    } catch (simError) {
-      const errorMessage = simError instanceof Error ? simError.message : 'Unknown simulation error';
-      await db.update(simulationRuns).set({
-        status: 'failed', completedAt: new Date(), progress: 100, errorMessage,
-      }).where(eq(simulationRuns.id, run.id));
-      return NextResponse.json({ error: 'Simulation failed', details: errorMessage, runId: run.id }, { status: 500 });
-    }
+    return NextResponse.json({ data: { run } }, { status: 202 });
   } catch (error) {
     console.error('POST /api/v1/models/[id]/simulations error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -2,16 +2,18 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { thermalNodes, thermalModels } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
+import type { ApiKeyAuth } from '@/lib/auth/api-key';
+import { authenticateApiKey, isErrorResponse, getKeyProjectAccess } from '@/lib/utils/v1-helpers';
 import { updateNodeSchema } from '@/lib/validators/nodes';
+import { derivedNodeValues } from '@/lib/materials/node-properties';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
-import { getUserProjectAccess, requireRole, AccessDeniedError } from '@/lib/auth/access';
+import { requireRole, AccessDeniedError } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function getNodeWithAccess(auth: { userId: string }, nodeId: string) {
+async function getNodeWithAccess(auth: ApiKeyAuth, nodeId: string) {
   const [node] = await db.select().from(thermalNodes).where(eq(thermalNodes.id, nodeId));
   if (!node) return { node: null, role: null };
 
@@ -19,7 +21,7 @@ async function getNodeWithAccess(auth: { userId: string }, nodeId: string) {
   if (!model) return { node: null, role: null };
 
   try {
-    const role = await getUserProjectAccess(auth.userId, model.projectId);
+    const role = await getKeyProjectAccess(auth, model.projectId);
     return { node, role };
   } catch (e) {
     if (e instanceof AccessDeniedError) return { node: null, role: null, forbidden: true };
@@ -29,7 +31,7 @@ async function getNodeWithAccess(auth: { userId: string }, nodeId: string) {
 
 export async function PUT(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -44,7 +46,8 @@ export async function PUT(request: Request, { params }: RouteParams): Promise<Ne
     const parsed = updateNodeSchema.safeParse(body);
     if (!parsed.success) return validationErrorResponse(parsed.error);
 
-    const [updated] = await db.update(thermalNodes).set(parsed.data).where(eq(thermalNodes.id, id)).returning();
+    const values = { ...parsed.data, ...(await derivedNodeValues({ ...result.node, ...parsed.data })) };
+    const [updated] = await db.update(thermalNodes).set(values).where(eq(thermalNodes.id, id)).returning();
 
     return NextResponse.json({ data: updated });
   } catch (error) {
@@ -55,7 +58,7 @@ export async function PUT(request: Request, { params }: RouteParams): Promise<Ne
 
 export async function DELETE(request: Request, { params }: RouteParams): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
     const { id } = await params;
@@ -1,20 +1,24 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { projects } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 import { authenticateApiKey, isErrorResponse } from '@/lib/utils/v1-helpers';
 import { createProjectSchema } from '@/lib/validators/projects';
 import { parseJsonBody, validationErrorResponse } from '@/lib/utils/api-helpers';
 
 export async function GET(request: Request): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'read');
     if (isErrorResponse(auth)) return auth;
 
     const rows = await db
       .select()
       .from(projects)
-      .where(eq(projects.userId, auth.userId));
+      .where(
+        auth.projectIds === null
+          ? eq(projects.userId, auth.userId)
+          : and(eq(projects.userId, auth.userId), inArray(projects.id, auth.projectIds)),
+      );
 
     return NextResponse.json({ data: rows });
   } catch (error) {
@@ -25,9 +29,14 @@ export async function GET(request: Request): Promise<NextResponse> {
 
 export async function POST(request: Request): Promise<NextResponse> {
   try {
-    const auth = await authenticateApiKey(request);
+    const auth = await authenticateApiKey(request, 'edit');
     if (isErrorResponse(auth)) return auth;
 
+    // A key scoped to given projects cannot create new ones
+    if (auth.projectIds !== null) {
+      return NextResponse.json({ error: 'API key is restricted to specific projects' }, { status: 403 });
+    }
+
     const body = await parseJsonBody(request);
     if (!body) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
 
@@ -11,16 +11,23 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import {
   Search, Database, LayoutGrid, List, GitCompareArrows,
-  Plus, Download, Upload, X, CheckSquare, Square, ChevronRight,
+  Plus, Download, Upload, X, CheckSquare, Square, ChevronRight, Trash2, Thermometer,
 } from 'lucide-react';
 import {
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
 } from 'recharts';
 import { useEditorStore } from '@/lib/stores/editor-store';
+import { deriveNodeProperties } from '@/lib/solver/node-properties';
+import type { MaterialImpactEntry } from '@/lib/materials/node-properties';
 import { cn } from '@/lib/utils';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
+interface PropertyPoint {
+  temperature: number;
+  value: number;
+}
+
 interface Material {
   id: string;
   name: string;
@@ -32,10 +39,42 @@ interface Material {
   absorptivity: number;
   tempRangeMin: number;
   tempRangeMax: number;
+  conductivityTable?: PropertyPoint[] | null;
+  specificHeatTable?: PropertyPoint[] | null;
+  emissivityTable?: PropertyPoint[] | null;
+  absorptivityEol?: number | null;
+  emissivityEol?: number | null;
+  absorptivityPerYear?: number | null;
+  emissivityPerYear?: number | null;
+  sources?: Record<string, string> | null;
+  revision: number;
   isDefault: boolean;
   projectId?: string | null;
+  orgId?: string | null;
+  updatedAt?: string;
+}
+
+interface Organization {
+  id: string;
+  name: string;
+  role: 'owner' | 'admin' | 'member';
 }
 
+interface MaterialRevision {
+  id: string;
+  revision: number;
+  note: string | null;
+  changedByName: string | null;
+  changedByEmail: string | null;
+  createdAt: string;
+}
+
+type PropertyTableKey = 'conductivityTable' | 'specificHeatTable' | 'emissivityTable';
+
+type ScalarKey = 'conductivity' | 'density' | 'specificHeat' | 'emissivity' | 'absorptivity';
+
+type OpticalLifeKey = 'absorptivityEol' | 'emissivityEol' | 'absorptivityPerYear' | 'emissivityPerYear';
+
 // ── Constants ─────────────────────────────────────────────────────────────────
 
 const CATEGORIES = ['all', 'metal', 'composite', 'mli', 'paint', 'osr', 'adhesive'] as const;
@@ -49,8 +88,46 @@ const CATEGORY_COLORS: Record<string, string> = {
   adhesive:  'text-rose-400 border-rose-400/30 bg-rose-400/10',
 };
 
+// Library filter values besides organisation ids
+const ALL_LIBRARIES = 'all';
+const DEFAULT_LIBRARY = 'default';
+const PERSONAL_LIBRARY = 'personal';
+
 const COMPARE_COLORS = ['#3b82f6', '#06b6d4', '#a855f7', '#22c55e', '#f97316'];
 
+const PROPERTY_TABLES: Array<{
+  key: PropertyTableKey;
+  scalar: 'conductivity' | 'specificHeat' | 'emissivity';
+  label: string;
+  unit: string;
+}> = [
+  { key: 'conductivityTable', scalar: 'conductivity', label: 'k(T)', unit: 'W/m·K' },
+  { key: 'specificHeatTable', scalar: 'specificHeat', label: 'Cp(T)', unit: 'J/kg·K' },
+  { key: 'emissivityTable', scalar: 'emissivity', label: 'ε(T)', unit: '' },
+];
+
+const SCALAR_FIELDS: Array<{ key: ScalarKey; label: string; unit: string }> = [
+  { key: 'conductivity', label: 'Thermal Conductivity', unit: 'W/m·K' },
+  { key: 'density', label: 'Density', unit: 'kg/m³' },
+  { key: 'specificHeat', label: 'Specific Heat', unit: 'J/kg·K' },
+  { key: 'emissivity', label: 'Emissivity (ε)', unit: '' },
+  { key: 'absorptivity', label: 'Absorptivity (α)', unit: '' },
+];
+
+// End-of-life optics; blank = no degradation data, so EOL runs keep the BOL value
+const OPTICAL_LIFE_FIELDS: Array<{ key: OpticalLifeKey; label: string; unit: string }> = [
+  { key: 'absorptivityEol', label: 'EOL Absorptivity (α)', unit: '' },
+  { key: 'emissivityEol', label: 'EOL Emissivity (ε)', unit: '' },
+  { key: 'absorptivityPerYear', label: 'Δα per Year', unit: '1/yr' },
+  { key: 'emissivityPerYear', label: 'Δε per Year', unit: '1/yr' },
+];
+
+const DERIVED_FIELD_LABELS: Record<string, string> = {
+  capacitance: 'C',
+  absorptivity: 'α',
+  emissivity: 'ε',
+};
+
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
 function fmt(v: number, decimals = 3): string {
@@ -59,10 +136,37 @@ function fmt(v: number, decimals = 3): string {
   return v.toFixed(decimals);
 }
 
+function hasPropertyTables(mat: Material): boolean {
+  return PROPERTY_TABLES.some(({ key }) => (mat[key]?.length ?? 0) > 0);
+}
+
+function hasEolData(mat: Material): boolean {
+  return OPTICAL_LIFE_FIELDS.some(({ key }) => mat[key] != null);
+}
+
+/** Custom materials are edited by their creator, an org library by its owners and admins. */
+function canEdit(mat: Material, orgs: Organization[]): boolean {
+  if (mat.isDefault) return false;
+  if (!mat.orgId) return true;
+  const role = orgs.find((o) => o.id === mat.orgId)?.role;
+  return role === 'owner' || role === 'admin';
+}
+
+function LibraryLabel({ mat, orgs, className }: { mat: Material; orgs: Organization[]; className?: string }) {
+  if (mat.isDefault) return null;
+  const org = mat.orgId ? orgs.find((o) => o.id === mat.orgId) : null;
+  return (
+    <span className={cn('text-[10px]', org ? 'text-amber-400' : 'text-muted-foreground', className)}>
+      {org ? org.name : 'Custom'}
+    </span>
+  );
+}
+
 // ── Sub-components ────────────────────────────────────────────────────────────
 
-function MaterialCard({ mat, selected, onSelect, onOpen }: {
+function MaterialCard({ mat, orgs, selected, onSelect, onOpen }: {
   mat: Material;
+  orgs: Organization[];
   selected: boolean;
   onSelect: (id: string) => void;
   onOpen: (mat: Material) => void;
@@ -82,8 +186,12 @@ function MaterialCard({ mat, selected, onSelect, onOpen }: {
       <div className="flex items-start justify-between gap-2 mb-3">
         <div className="flex-1 min-w-0">
           <p className="font-medium text-sm truncate">{mat.name}</p>
-          {!mat.isDefault && (
-            <span className="text-[10px] text-muted-foreground">Custom</span>
+          <LibraryLabel mat={mat} orgs={orgs} />
+          {hasPropertyTables(mat) && (
+            <span className="ml-1.5 text-[10px] text-cyan-400">T-dependent</span>
+          )}
+          {hasEolData(mat) && (
+            <span className="ml-1.5 text-[10px] text-green-400">EOL</span>
           )}
         </div>
         <div className="flex items-center gap-1 shrink-0">
@@ -121,8 +229,9 @@ function MaterialCard({ mat, selected, onSelect, onOpen }: {
   );
 }
 
-function MaterialRow({ mat, selected, onSelect, onOpen }: {
+function MaterialRow({ mat, orgs, selected, onSelect, onOpen }: {
   mat: Material;
+  orgs: Organization[];
   selected: boolean;
   onSelect: (id: string) => void;
   onOpen: (mat: Material) => void;
@@ -142,8 +251,12 @@ function MaterialRow({ mat, selected, onSelect, onOpen }: {
       </td>
       <td className="py-2.5 px-4 font-medium text-sm">
         {mat.name}
-        {!mat.isDefault && (
-          <span className="ml-1.5 text-[10px] text-muted-foreground">(custom)</span>
+        <LibraryLabel mat={mat} orgs={orgs} className="ml-1.5" />
+        {hasPropertyTables(mat) && (
+          <Thermometer className="inline ml-1.5 w-3 h-3 text-cyan-400" aria-label="Temperature-dependent" />
+        )}
+        {hasEolData(mat) && (
+          <span className="ml-1.5 text-[10px] text-green-400">EOL</span>
         )}
       </td>
       <td className="py-2.5 px-4">
@@ -165,51 +278,441 @@ function MaterialRow({ mat, selected, onSelect, onOpen }: {
 
 // ── Detail Panel ──────────────────────────────────────────────────────────────
 
-function MaterialDetailDialog({ mat, onClose }: { mat: Material; onClose: () => void }) {
+function PropertyTableEditor({ label, unit, reference, points, editable, onChange }: {
+  label: string;
+  unit: string;
+  reference: number;
+  points: PropertyPoint[];
+  editable: boolean;
+  onChange: (points: PropertyPoint[]) => void;
+}) {
+  const update = (next: PropertyPoint[]) =>
+    onChange([...next].sort((a, b) => a.temperature - b.temperature));
+
+  const handlePointChange = (index: number, field: keyof PropertyPoint, raw: string) => {
+    const val = parseFloat(raw);
+    if (isNaN(val) || val < 0) return;
+    const next = [...points];
+    next[index] = { ...next[index], [field]: val };
+    update(next);
+  };
+
+  const addPoint = () => {
+    if (points.length >= 50) return;
+    const lastT = points[points.length - 1]?.temperature ?? 250;
+    update([...points, { temperature: lastT + 50, value: reference }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">
+          {label} {unit && <span className="text-muted-foreground">({unit})</span>}
+        </span>
+        {editable && (
+          <div className="flex items-center gap-1">
+            {points.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => onChange([])} className="h-6 text-[10px]">
+                Clear
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={addPoint} className="h-6 text-[10px] gap-1">
+              <Plus className="h-3 w-3" /> Point
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground">Constant — {fmt(reference, 3)} at all temperatures.</p>
+      ) : (
+        <>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {points.map((point, idx) => (
+              <div key={idx} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                {editable ? (
+                  <>
+                    <Input
+                      type="number"
+                      value={point.temperature}
+                      onChange={(e) => handlePointChange(idx, 'temperature', e.target.value)}
+                      className="h-6 text-[11px] bg-white/5 border-white/10"
+                    />
+                    <Input
+                      type="number"
+                      value={point.value}
+                      onChange={(e) => handlePointChange(idx, 'value', e.target.value)}
+                      className="h-6 text-[11px] bg-white/5 border-white/10"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update(points.filter((_, i) => i !== idx))}
+                      className="h-6 w-6 p-0"
+                    >
+                      <Trash2 className="h-3 w-3 text-red-400" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="font-mono text-[11px]">{point.temperature} K</span>
+                    <span className="font-mono text-[11px]">{fmt(point.value, 3)}</span>
+                    <span />
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          {points.length === 1 && (
+            <p className="text-[10px] text-amber-400">At least 2 points are required.</p>
+          )}
+          {points.length >= 2 && (
+            <div className="h-24 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                  <XAxis dataKey="temperature" tick={{ fontSize: 9, fill: '#888' }} />
+                  <YAxis tick={{ fontSize: 9, fill: '#888' }} width={40} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#111122', border: '1px solid rgba(255,255,255,0.1)', fontSize: 11 }}
+                    labelFormatter={(v) => `${v} K`}
+                  />
+                  <Line type="linear" dataKey="value" stroke="#06b6d4" strokeWidth={2} dot={{ r: 2, fill: '#06b6d4' }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function PropertyValueRow({ label, unit, display, value, source, editable, onValueChange, onSourceChange }: {
+  label: string;
+  unit: string;
+  display: string;
+  value: string;
+  source: string;
+  editable: boolean;
+  onValueChange: (value: string) => void;
+  onSourceChange: (source: string) => void;
+}) {
+  return (
+    <div className="py-1 border-b border-white/5 space-y-1">
+      <div className="flex justify-between items-center gap-3">
+        <span className="text-sm text-muted-foreground">
+          {label} {unit && <span className="text-[10px]">({unit})</span>}
+        </span>
+        {editable ? (
+          <Input
+            type="number"
+            value={value}
+            onChange={(e) => onValueChange(e.target.value)}
+            className="h-7 w-28 text-right font-mono text-xs bg-white/5 border-white/10"
+          />
+        ) : (
+          <span className="font-mono text-sm">{display}</span>
+        )}
+      </div>
+      {editable ? (
+        <Input
+          value={source}
+          placeholder="Source (datasheet, test report...)"
+          onChange={(e) => onSourceChange(e.target.value)}
+          className="h-6 text-[10px] bg-white/5 border-white/10"
+        />
+      ) : (
+        source && <p className="text-[10px] text-muted-foreground text-right">{source}</p>
+      )}
+    </div>
+  );
+}
+
+function MaterialDetailDialog({ mat, materials: allMats, orgs, editable, onClose, onUpdated }: {
+  mat: Material;
+  materials: Material[];
+  orgs: Organization[];
+  editable: boolean;
+  onClose: () => void;
+  onUpdated: (mat: Material) => void;
+}) {
   const nodes = useEditorStore((s) => s.nodes);
   const updateNode = useEditorStore((s) => s.updateNode);
   const modelId = useEditorStore((s) => s.modelId);
   const [assignNodeId, setAssignNodeId] = useState('');
   const [assigned, setAssigned] = useState(false);
+  const [scalars, setScalars] = useState<Record<ScalarKey, string>>(
+    () => Object.fromEntries(SCALAR_FIELDS.map(({ key }) => [key, String(mat[key])])) as Record<ScalarKey, string>,
+  );
+  const [opticalLife, setOpticalLife] = useState<Record<OpticalLifeKey, string>>(
+    () => Object.fromEntries(
+      OPTICAL_LIFE_FIELDS.map(({ key }) => [key, mat[key] != null ? String(mat[key]) : '']),
+    ) as Record<OpticalLifeKey, string>,
+  );
+  const [sources, setSources] = useState<Record<string, string>>(mat.sources ?? {});
+  const [revisionNote, setRevisionNote] = useState('');
+  const [revisions, setRevisions] = useState<MaterialRevision[] | null>(null);
+  const [tables, setTables] = useState<Record<PropertyTableKey, PropertyPoint[]>>({
+    conductivityTable: mat.conductivityTable ?? [],
+    specificHeatTable: mat.specificHeatTable ?? [],
+    emissivityTable: mat.emissivityTable ?? [],
+  });
+  const [dirty, setDirty] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [impact, setImpact] = useState<MaterialImpactEntry[] | null>(null);
+
+  const materialFor = (id: string | null | undefined, saved: Material) =>
+    id === saved.id ? saved : allMats.find((m) => m.id === id);
+
+  useEffect(() => {
+    if (mat.isDefault) return;
+    fetch(`/api/materials/${mat.id}/revisions`)
+      .then((r) => r.json())
+      .then((d) => setRevisions(d.revisions ?? []))
+      .catch(console.error);
+  }, [mat.id, mat.isDefault, mat.revision]);
+
+  function editBody() {
+    const namedSources = Object.entries(sources).filter(([, v]) => v.trim() !== '');
+    return {
+      ...Object.fromEntries(SCALAR_FIELDS.map(({ key }) => [key, parseFloat(scalars[key])])),
+      ...Object.fromEntries(
+        OPTICAL_LIFE_FIELDS.map(({ key }) => [key, opticalLife[key] === '' ? null : parseFloat(opticalLife[key])]),
+      ),
+      ...Object.fromEntries(
+        PROPERTY_TABLES.map(({ key }) => [key, tables[key].length > 0 ? tables[key] : null]),
+      ),
+      sources: namedSources.length > 0 ? Object.fromEntries(namedSources) : null,
+      ...(revisionNote ? { revisionNote } : {}),
+    };
+  }
+
+  function markDirty() {
+    setDirty(true);
+    setImpact(null);
+  }
+
+  async function handlePreview() {
+    setSaving(true);
+    setSaveError('');
+    try {
+      const res = await fetch(`/api/materials/${mat.id}/impact`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(editBody()),
+      });
+      if (!res.ok) {
+        const d = await res.json();
+        setSaveError(d.details?.[0]?.message || d.error || 'Failed');
+        return;
+      }
+      const { nodes: affected } = await res.json();
+      setImpact(affected);
+    } catch {
+      setSaveError('Network error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setSaveError('');
+    try {
+      const res = await fetch(`/api/materials/${mat.id}`, {
+        method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(editBody()),
+      });
+      if (!res.ok) {
+        const d = await res.json();
+        setSaveError(d.details?.[0]?.message || d.error || 'Failed');
+        return;
+      }
+      const { material } = await res.json();
+      onUpdated(material);
+      // The open model's nodes follow the saved material too
+      for (const n of nodes) {
+        if (n.materialId !== material.id && n.coatingId !== material.id) continue;
+        updateNode(
+          n.id,
+          deriveNodeProperties(n, materialFor(n.materialId, material), materialFor(n.coatingId, material)),
+        );
+      }
+      setDirty(false);
+      setImpact(null);
+      setRevisionNote('');
+    } catch {
+      setSaveError('Network error');
+    } finally {
+      setSaving(false);
+    }
+  }
 
   function handleAssign() {
     if (!assignNodeId) return;
-    updateNode(assignNodeId, { materialId: mat.id });
+    const node = nodes.find((n) => n.id === assignNodeId);
+    if (!node) return;
+    updateNode(assignNodeId, {
+      materialId: mat.id,
+      ...deriveNodeProperties(node, mat, materialFor(node.coatingId, mat)),
+    });
     setAssigned(true);
     setTimeout(() => setAssigned(false), 2000);
   }
 
-  const props = [
-    { label: 'Thermal Conductivity', value: `${fmt(mat.conductivity)} W/m·K` },
-    { label: 'Density', value: `${fmt(mat.density, 0)} kg/m³` },
-    { label: 'Specific Heat', value: `${fmt(mat.specificHeat, 0)} J/kg·K` },
-    { label: 'Emissivity (ε)', value: fmt(mat.emissivity, 3) },
-    { label: 'Absorptivity (α)', value: fmt(mat.absorptivity, 3) },
-    { label: 'Temp Range', value: `${mat.tempRangeMin} – ${mat.tempRangeMax} K` },
-  ];
+  const valueRow = (key: ScalarKey | OpticalLifeKey, label: string, unit: string) => {
+    const value = mat[key];
+    const isScalar = SCALAR_FIELDS.some((f) => f.key === key);
+    return (
+      <PropertyValueRow
+        key={key}
+        label={label}
+        unit={unit}
+        display={value == null ? '—' : `${fmt(value, key === 'density' || key === 'specificHeat' ? 0 : 3)}${unit ? ` ${unit}` : ''}`}
+        value={isScalar ? scalars[key as ScalarKey] : opticalLife[key as OpticalLifeKey]}
+        source={sources[key] ?? ''}
+        editable={editable}
+        onValueChange={(v) => {
+          if (isScalar) setScalars((prev) => ({ ...prev, [key]: v }));
+          else setOpticalLife((prev) => ({ ...prev, [key]: v }));
+          markDirty();
+        }}
+        onSourceChange={(v) => {
+          setSources((prev) => ({ ...prev, [key]: v }));
+          markDirty();
+        }}
+      />
+    );
+  };
 
   return (
     <Dialog open onOpenChange={onClose}>
-      <DialogContent className="max-w-md bg-[#0a0a1a] border-white/10">
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto bg-[#0a0a1a] border-white/10">
         <DialogHeader>
           <DialogTitle className="font-heading">{mat.name}</DialogTitle>
           <div className="flex items-center gap-2 mt-1">
             <Badge variant="outline" className={`text-[10px] capitalize ${CATEGORY_COLORS[mat.category]}`}>
               {mat.category}
             </Badge>
-            {!mat.isDefault && <Badge variant="outline" className="text-[10px]">Custom</Badge>}
+            {!mat.isDefault && (
+              <Badge variant="outline" className="text-[10px]">
+                <LibraryLabel mat={mat} orgs={orgs} />
+              </Badge>
+            )}
+            {!mat.isDefault && (
+              <span className="text-[10px] text-muted-foreground">Revision {mat.revision}</span>
+            )}
           </div>
         </DialogHeader>
 
         <div className="space-y-1">
-          {props.map(({ label, value }) => (
-            <div key={label} className="flex justify-between items-center py-1.5 border-b border-white/5">
-              <span className="text-sm text-muted-foreground">{label}</span>
-              <span className="font-mono text-sm">{value}</span>
-            </div>
+          {SCALAR_FIELDS.map(({ key, label, unit }) => valueRow(key, label, unit))}
+          <div className="flex justify-between items-center py-1.5 border-b border-white/5">
+            <span className="text-sm text-muted-foreground">Temp Range</span>
+            <span className="font-mono text-sm">{mat.tempRangeMin} – {mat.tempRangeMax} K</span>
+          </div>
+        </div>
+
+        <div className="space-y-1 pt-2">
+          <Separator />
+          <div>
+            <p className="text-xs text-muted-foreground font-medium">End-of-Life Optics</p>
+            <p className="text-[10px] text-muted-foreground">
+              α and ε above are beginning-of-life. EOL runs use the per-year rates times the
+              mission duration when set, else the EOL values; blank fields keep the BOL value.
+            </p>
+          </div>
+          {OPTICAL_LIFE_FIELDS.map(({ key, label, unit }) => valueRow(key, label, unit))}
+        </div>
+
+        <div className="space-y-3 pt-2">
+          <Separator />
+          <div>
+            <p className="text-xs text-muted-foreground font-medium">Temperature-Dependent Properties</p>
+            <p className="text-[10px] text-muted-foreground">
+              The solver scales a node&apos;s capacitance, conductances and emissivity by the
+              tabulated value relative to the constant above.
+            </p>
+          </div>
+          {PROPERTY_TABLES.map(({ key, scalar, label, unit }) => (
+            <PropertyTableEditor
+              key={key}
+              label={label}
+              unit={unit}
+              reference={mat[scalar]}
+              points={tables[key]}
+              editable={editable}
+              onChange={(points) => {
+                setTables((prev) => ({ ...prev, [key]: points }));
+                markDirty();
+              }}
+            />
           ))}
         </div>
 
+        {editable && dirty && (
+          <div className="space-y-2 pt-2">
+            <Separator />
+            <Input
+              value={revisionNote}
+              placeholder="Revision note (optional)"
+              onChange={(e) => setRevisionNote(e.target.value)}
+              className="h-7 text-xs bg-white/5 border-white/10"
+            />
+            {impact && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground font-medium">
+                  {impact.length === 0
+                    ? 'No node derives a changed value from this material.'
+                    : `Saving updates ${impact.length} node${impact.length === 1 ? '' : 's'}:`}
+                </p>
+                <div className="max-h-32 overflow-y-auto space-y-1">
+                  {impact.map((entry) => (
+                    <div key={entry.nodeId} className="flex justify-between gap-2 text-[11px]">
+                      <span className="truncate">
+                        {entry.nodeName} <span className="text-muted-foreground">· {entry.modelName}</span>
+                      </span>
+                      <span className="font-mono shrink-0">
+                        {entry.changes
+                          .map((c) => `${DERIVED_FIELD_LABELS[c.field]} ${c.before != null ? fmt(c.before) : '—'} → ${fmt(c.after)}`)
+                          .join(', ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {saveError && <p className="text-xs text-red-400">{saveError}</p>}
+            {impact ? (
+              <Button size="sm" onClick={handleSave} disabled={saving} className="text-xs h-8 w-full">
+                {saving ? 'Saving...' : 'Save Material'}
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={handlePreview} disabled={saving} className="text-xs h-8 w-full">
+                {saving ? 'Checking...' : 'Preview Impact'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {revisions && revisions.length > 0 && (
+          <div className="space-y-1 pt-2">
+            <Separator />
+            <p className="text-xs text-muted-foreground font-medium">Revision History</p>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {revisions.map((rev) => (
+                <div key={rev.id} className="text-[11px]">
+                  <span className="font-mono">r{rev.revision}</span>
+                  <span className="text-muted-foreground">
+                    {' · '}{new Date(rev.createdAt).toLocaleDateString()}
+                    {(rev.changedByName || rev.changedByEmail) && ` · ${rev.changedByName ?? rev.changedByEmail}`}
+                  </span>
+                  {rev.note && <span> — {rev.note}</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {nodes.length > 0 && modelId ? (
           <div className="space-y-2 pt-2">
             <Separator />
@@ -329,12 +832,22 @@ function ComparisonView({ materials: mats, onClose }: { materials: Material[]; o
 
 // ── New Material Dialog ───────────────────────────────────────────────────────
 
-function NewMaterialDialog({ onClose, onCreated }: { onClose: () => void; onCreated: (mat: Material) => void }) {
+function NewMaterialDialog({ orgs, defaultLibrary, onClose, onCreated }: {
+  orgs: Organization[];
+  defaultLibrary: string;
+  onClose: () => void;
+  onCreated: (mat: Material) => void;
+}) {
   const projectId = useEditorStore((s) => s.projectId);
+  const editableOrgs = orgs.filter((o) => o.role === 'owner' || o.role === 'admin');
+  const [library, setLibrary] = useState(
+    editableOrgs.some((o) => o.id === defaultLibrary) ? defaultLibrary : PERSONAL_LIBRARY,
+  );
   const [form, setForm] = useState({
     name: '', category: 'metal' as Material['category'],
     conductivity: '', density: '', specificHeat: '',
     emissivity: '', absorptivity: '', tempRangeMin: '0', tempRangeMax: '400',
+    emissivityEol: '', absorptivityEol: '',
   });
   const [error, setError] = useState('');
   const [saving, setSaving] = useState(false);
@@ -353,7 +866,11 @@ function NewMaterialDialog({ onClose, onCreated }: { onClose: () => void; onCrea
         absorptivity: parseFloat(form.absorptivity),
         tempRangeMin: parseFloat(form.tempRangeMin),
         tempRangeMax: parseFloat(form.tempRangeMax),
-        ...(projectId ? { projectId } : {}),
+        emissivityEol: form.emissivityEol ? parseFloat(form.emissivityEol) : null,
+        absorptivityEol: form.absorptivityEol ? parseFloat(form.absorptivityEol) : null,
+        ...(library !== PERSONAL_LIBRARY
+          ? { orgId: library }
+          : projectId ? { projectId } : {}),
       };
       const res = await fetch('/api/materials', {
         method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
@@ -410,6 +927,22 @@ function NewMaterialDialog({ onClose, onCreated }: { onClose: () => void; onCrea
           {field('absorptivity', 'Absorptivity α (0–1)', 'number')}
           {field('tempRangeMin', 'T_min (K)', 'number')}
           {field('tempRangeMax', 'T_max (K)', 'number')}
+          {field('emissivityEol', 'EOL ε (optional)', 'number')}
+          {field('absorptivityEol', 'EOL α (optional)', 'number')}
+          {editableOrgs.length > 0 && (
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs text-muted-foreground">Library</Label>
+              <Select value={library} onValueChange={setLibrary}>
+                <SelectTrigger className="h-8 text-xs bg-white/5 border-white/10"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL_LIBRARY} className="text-xs">My materials</SelectItem>
+                  {editableOrgs.map((o) => (
+                    <SelectItem key={o.id} value={o.id} className="text-xs">{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
         {error && <p className="text-xs text-red-400">{error}</p>}
         <DialogFooter>
@@ -430,6 +963,9 @@ export default function MaterialsPage() {
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
   const [category, setCategory] = useState('all');
+  const [orgs, setOrgs] = useState<Organization[]>([]);
+  const [library, setLibrary] = useState<string>(ALL_LIBRARIES);
+  const [importMessage, setImportMessage] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'table'>('table');
   const [compareIds, setCompareIds] = useState<Set<string>>(new Set());
   const [comparing, setComparing] = useState(false);
@@ -437,21 +973,39 @@ export default function MaterialsPage() {
   const [showNewMaterial, setShowNewMaterial] = useState(false);
   const importRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    fetch('/api/materials')
+  function loadMaterials() {
+    return fetch('/api/materials')
       .then((r) => r.json())
       .then((d) => setAllMaterials(d.materials ?? []))
       .catch(console.error)
       .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    loadMaterials();
+    fetch('/api/organizations')
+      .then((r) => r.json())
+      .then((d) => setOrgs(d.data ?? []))
+      .catch(console.error);
   }, []);
 
   const filtered = useMemo(() => {
     return allMaterials.filter((m) => {
       const matchSearch = m.name.toLowerCase().includes(search.toLowerCase());
       const matchCat = category === 'all' || m.category === category;
-      return matchSearch && matchCat;
+      const matchLibrary =
+        library === ALL_LIBRARIES ||
+        (library === DEFAULT_LIBRARY && m.isDefault) ||
+        (library === PERSONAL_LIBRARY && !m.isDefault && !m.orgId) ||
+        m.orgId === library;
+      return matchSearch && matchCat && matchLibrary;
     });
-  }, [allMaterials, search, category]);
+  }, [allMaterials, search, category, library]);
+
+  // Import and export act on the selected organisation's library, else the user's own materials
+  const ioOrgId = orgs.some((o) => o.id === library) ? library : null;
+  const ioOrg = orgs.find((o) => o.id === ioOrgId);
+  const canImport = !ioOrg || ioOrg.role === 'owner' || ioOrg.role === 'admin';
 
   const compareList = useMemo(
     () => allMaterials.filter((m) => compareIds.has(m.id)),
@@ -467,31 +1021,38 @@ export default function MaterialsPage() {
     });
   }
 
-  function handleExport() {
-    const custom = allMaterials.filter((m) => !m.isDefault);
-    const blob = new Blob([JSON.stringify(custom, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
+  function handleExport(format: 'csv' | 'json') {
+    const params = new URLSearchParams({ format, ...(ioOrgId ? { orgId: ioOrgId } : {}) });
     const a = document.createElement('a');
-    a.href = url; a.download = 'verixos-custom-materials.json'; a.click();
-    URL.revokeObjectURL(url);
+    a.href = `/api/materials/export?${params}`;
+    a.click();
   }
 
   async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
+    setImportMessage('');
     try {
-      const text = await file.text();
-      const data = JSON.parse(text) as any[];
-      const created: Material[] = [];
-      for (const mat of data) {
-        const res = await fetch('/api/materials', {
-          method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(mat),
-        });
-        if (res.ok) { const { material } = await res.json(); created.push(material); }
+      const body = {
+        format: file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json',
+        content: await file.text(),
+        ...(ioOrgId ? { orgId: ioOrgId } : {}),
+      };
+      const res = await fetch('/api/materials/import', {
+        method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
+      });
+      const d = await res.json();
+      if (!res.ok) {
+        setImportMessage(d.details?.[0]?.message || d.error || 'Import failed');
+      } else {
+        const skipped = d.errors.length > 0
+          ? ` ${d.errors.length} skipped: ${d.errors.slice(0, 3).map((err: { row: number; error: string }) => `row ${err.row} ${err.error}`).join('; ')}`
+          : '';
+        setImportMessage(`${d.created} created, ${d.updated} updated, ${d.unchanged} unchanged.${skipped}`);
+        await loadMaterials();
       }
-      setAllMaterials((prev) => [...prev, ...created]);
     } catch {
-      console.error('Import failed');
+      setImportMessage('Import failed');
     }
     if (importRef.current) importRef.current.value = '';
   }
@@ -503,15 +1064,26 @@ export default function MaterialsPage() {
           <div>
             <h1 className="font-heading text-3xl font-bold mb-1">Materials Database</h1>
             <p className="text-muted-foreground">Thermal properties for spacecraft materials.</p>
+            {importMessage && <p className="text-xs text-muted-foreground mt-1">{importMessage}</p>}
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="ghost" size="sm" onClick={handleExport} className="text-xs h-8 gap-1.5">
-              <Download className="w-3.5 h-3.5" /> Export Custom
+            <Button variant="ghost" size="sm" onClick={() => handleExport('csv')} className="text-xs h-8 gap-1.5">
+              <Download className="w-3.5 h-3.5" /> CSV
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleExport('json')} className="text-xs h-8 gap-1.5">
+              <Download className="w-3.5 h-3.5" /> JSON
             </Button>
-            <Button variant="ghost" size="sm" onClick={() => importRef.current?.click()} className="text-xs h-8 gap-1.5">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => importRef.current?.click()}
+              disabled={!canImport}
+              title={ioOrg ? `Import into ${ioOrg.name}` : 'Import into my materials'}
+              className="text-xs h-8 gap-1.5"
+            >
               <Upload className="w-3.5 h-3.5" /> Import
             </Button>
-            <input ref={importRef} type="file" accept=".json" className="hidden" onChange={handleImport} />
+            <input ref={importRef} type="file" accept=".csv,.json" className="hidden" onChange={handleImport} />
             <Button size="sm" onClick={() => setShowNewMaterial(true)} className="text-xs h-8 gap-1.5">
               <Plus className="w-3.5 h-3.5" /> New Material
             </Button>
@@ -547,6 +1119,19 @@ export default function MaterialsPage() {
                   ))}
                 </SelectContent>
               </Select>
+              <Select value={library} onValueChange={setLibrary}>
+                <SelectTrigger className="w-[160px] h-9 text-xs bg-white/5 border-white/10">
+                  <SelectValue placeholder="Library" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LIBRARIES} className="text-xs">All libraries</SelectItem>
+                  <SelectItem value={DEFAULT_LIBRARY} className="text-xs">Built-in</SelectItem>
+                  <SelectItem value={PERSONAL_LIBRARY} className="text-xs">My materials</SelectItem>
+                  {orgs.map((o) => (
+                    <SelectItem key={o.id} value={o.id} className="text-xs">{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <div className="flex items-center rounded-lg border border-white/10 overflow-hidden">
                 <button
                   onClick={() => setViewMode('table')}
@@ -595,6 +1180,7 @@ export default function MaterialsPage() {
                     <MaterialCard
                       key={mat.id}
                       mat={mat}
+                      orgs={orgs}
                       selected={compareIds.has(mat.id)}
                       onSelect={toggleCompare}
                       onOpen={setDetailMat}
@@ -630,6 +1216,7 @@ export default function MaterialsPage() {
                         <MaterialRow
                           key={mat.id}
                           mat={mat}
+                          orgs={orgs}
                           selected={compareIds.has(mat.id)}
                           onSelect={toggleCompare}
                           onOpen={setDetailMat}
@@ -652,11 +1239,25 @@ export default function MaterialsPage() {
       </AnimatePresence>
 
       {/* Detail panel */}
-      {detailMat && <MaterialDetailDialog mat={detailMat} onClose={() => setDetailMat(null)} />}
+      {detailMat && (
+        <MaterialDetailDialog
+          mat={detailMat}
+          materials={allMaterials}
+          orgs={orgs}
+          editable={canEdit(detailMat, orgs)}
+          onClose={() => setDetailMat(null)}
+          onUpdated={(mat) => {
+            setAllMaterials((prev) => prev.map((m) => (m.id === mat.id ? mat : m)));
+            setDetailMat(mat);
+          }}
+        />
+      )}
 
       {/* New material */}
       {showNewMaterial && (
         <NewMaterialDialog
+          orgs={orgs}
+          defaultLibrary={library}
           onClose={() => setShowNewMaterial(false)}
           onCreated={(mat) => setAllMaterials((prev) => [...prev, mat])}
         />
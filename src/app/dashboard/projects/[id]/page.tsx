@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ModelCard } from '@/components/dashboard/model-card';
 import { CreateModelDialog } from '@/components/dashboard/create-model-dialog';
+import { ImportModelDialog } from '@/components/dashboard/import-model-dialog';
 import { EmptyState } from '@/components/dashboard/empty-state';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
@@ -87,7 +88,10 @@ export default function ProjectPage() {
 
       <div className="flex items-center justify-between">
         <h2 className="font-heading text-xl font-semibold">Thermal Models</h2>
-        <CreateModelDialog projectId={projectId} />
+        <div className="flex items-center gap-2">
+          <ImportModelDialog projectId={projectId} />
+          <CreateModelDialog projectId={projectId} />
+        </div>
       </div>
 
       {demoModels.length > 0 ? (
@@ -8,6 +8,9 @@ interface ApiKey {
   id: string;
   label: string;
   keyHint: string;
+  scopes: Array<'read' | 'simulate' | 'edit'>;
+  projectIds: string[] | null;
+  rateLimitPerMinute: number;
   createdAt: string;
   lastUsedAt: string | null;
   expiresAt: string | null;
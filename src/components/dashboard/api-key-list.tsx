@@ -9,6 +9,9 @@ interface ApiKey {
   id: string;
   label: string;
   keyHint: string;
+  scopes: Array<'read' | 'simulate' | 'edit'>;
+  projectIds: string[] | null;
+  rateLimitPerMinute: number;
   createdAt: string;
   lastUsedAt: string | null;
   expiresAt: string | null;
@@ -60,12 +63,21 @@ export function ApiKeyList({
               <div className="flex items-center gap-2">
                 <span className="font-medium">{key.label}</span>
                 <Badge variant={status.variant}>{status.label}</Badge>
+                {key.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline">
+                    {scope}
+                  </Badge>
+                ))}
               </div>
               <div className="text-sm text-muted-foreground font-mono">
                 vx_live_...{key.keyHint}
               </div>
               <div className="text-xs text-muted-foreground">
-                Created {new Date(key.createdAt).toLocaleDateString()}
+                {key.projectIds
+                  ? `${key.projectIds.length} project${key.projectIds.length === 1 ? '' : 's'}`
+                  : 'All projects'}
+                {' · '}
+                {key.rateLimitPerMinute} req/min · Created {new Date(key.createdAt).toLocaleDateString()}
                 {key.lastUsedAt && (
                   <> · Last used {new Date(key.lastUsedAt).toLocaleDateString()}</>
                 )}
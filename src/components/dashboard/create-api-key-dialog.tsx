@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -11,8 +11,19 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Copy, Plus, AlertTriangle } from 'lucide-react';
 
+type Scope = 'read' | 'simulate' | 'edit';
+
+const SCOPE_OPTIONS: Array<{ value: Scope; label: string; description: string }> = [
+  { value: 'read', label: 'Read', description: 'Projects, models and results' },
+  { value: 'simulate', label: 'Run simulations', description: 'Queue simulation runs' },
+  { value: 'edit', label: 'Edit models', description: 'Create, update and delete' },
+];
+
+const DEFAULT_RATE_LIMIT = 100;
+
 export function CreateApiKeyDialog({
   onCreated,
 }: {
@@ -21,16 +32,35 @@ export function CreateApiKeyDialog({
   const [open, setOpen] = useState(false);
   const [label, setLabel] = useState('');
   const [expiresAt, setExpiresAt] = useState('');
+  const [scopes, setScopes] = useState<Scope[]>(['read']);
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  // Empty = all projects
+  const [projectIds, setProjectIds] = useState<string[]>([]);
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_RATE_LIMIT));
   const [loading, setLoading] = useState(false);
   const [plaintext, setPlaintext] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
+  useEffect(() => {
+    if (!open) return;
+    fetch('/api/projects')
+      .then((res) => (res.ok ? res.json() : { projects: [] }))
+      .then((json) => setProjects(json.projects ?? []))
+      .catch(() => setProjects([]));
+  }, [open]);
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
   const handleSubmit = async () => {
-    if (!label.trim()) return;
+    if (!label.trim() || scopes.length === 0) return;
     setLoading(true);
     try {
-      const body: Record<string, string> = { label: label.trim() };
+      const body: Record<string, unknown> = { label: label.trim(), scopes };
       if (expiresAt) body.expiresAt = new Date(expiresAt).toISOString();
+      if (projectIds.length > 0) body.projectIds = projectIds;
+      const limit = parseInt(rateLimit, 10);
+      if (Number.isFinite(limit) && limit > 0) body.rateLimitPerMinute = limit;
 
       const res = await fetch('/api/v1/api-keys', {
         method: 'POST',
@@ -61,6 +91,9 @@ export function CreateApiKeyDialog({
       // Reset state on close
       setLabel('');
       setExpiresAt('');
+      setScopes(['read']);
+      setProjectIds([]);
+      setRateLimit(String(DEFAULT_RATE_LIMIT));
       setPlaintext(null);
       setCopied(false);
       if (plaintext) onCreated(); // refresh list only if key was created
@@ -126,10 +159,59 @@ export function CreateApiKeyDialog({
                 onChange={(e) => setExpiresAt(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {SCOPE_OPTIONS.map((opt) => (
+                <div key={opt.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`scope-${opt.value}`}
+                    checked={scopes.includes(opt.value)}
+                    onCheckedChange={() => setScopes(toggle(scopes, opt.value))}
+                  />
+                  <Label htmlFor={`scope-${opt.value}`} className="font-normal">
+                    {opt.label}
+                    <span className="ml-2 text-xs text-muted-foreground">{opt.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Projects</Label>
+              <p className="text-xs text-muted-foreground">
+                {projectIds.length === 0
+                  ? 'All projects you can access. Select projects to restrict the key.'
+                  : `Restricted to ${projectIds.length} project${projectIds.length === 1 ? '' : 's'}.`}
+              </p>
+              <div className="max-h-32 space-y-2 overflow-y-auto">
+                {projects.map((p) => (
+                  <div key={p.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`project-${p.id}`}
+                      checked={projectIds.includes(p.id)}
+                      onCheckedChange={() => setProjectIds(toggle(projectIds, p.id))}
+                    />
+                    <Label htmlFor={`project-${p.id}`} className="font-normal">
+                      {p.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="key-rate-limit">Rate limit (requests per minute)</Label>
+              <Input
+                id="key-rate-limit"
+                type="number"
+                min={1}
+                max={10000}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.value)}
+              />
+            </div>
             <Button
               className="w-full"
               onClick={handleSubmit}
-              disabled={loading || !label.trim()}
+              disabled={loading || !label.trim() || scopes.length === 0}
             >
               {loading ? 'Generating...' : 'Generate Key'}
             </Button>
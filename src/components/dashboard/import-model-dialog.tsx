@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+interface ImportModelDialogProps {
+  projectId: string;
+}
+
+type ImportFormat = 'esatan' | 'sinda';
+
+interface UnsupportedConstruct {
+  line: number | null;
+  construct: string;
+  detail: string;
+}
+
+interface ImportResult {
+  modelId: string;
+  name: string;
+  imported: { nodes: number; conductors: number; heatLoads: number };
+  unsupported: UnsupportedConstruct[];
+}
+
+const FORMAT_OPTIONS: Record<ImportFormat, { label: string; accept: string }> = {
+  esatan: { label: 'ESATAN-TMS (.d)', accept: '.d,.txt' },
+  sinda: { label: 'SINDA/FLUINT (.inp, .sin)', accept: '.inp,.sin,.txt' },
+};
+
+export function ImportModelDialog({ projectId }: ImportModelDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [format, setFormat] = useState<ImportFormat>('esatan');
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const router = useRouter();
+
+  const reset = () => {
+    setFile(null);
+    setError(null);
+    setResult(null);
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      const res = await fetch(`/api/projects/${projectId}/models/import/${format}`, {
+        method: 'POST',
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(typeof data.error === 'string' ? data.error : data.error?.message ?? 'Import failed');
+        return;
+      }
+      if (data.unsupported.length === 0) {
+        openModel(data.modelId);
+        return;
+      }
+      // Keep the dialog open so the report can be read before moving on
+      setResult(data);
+    } catch (err) {
+      console.error('Failed to import model:', err);
+      setError('Import failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openModel = (modelId: string) => {
+    setOpen(false);
+    reset();
+    router.push(`/dashboard/projects/${projectId}/models/${modelId}`);
+    router.refresh();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        {result ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Imported {result.name}</DialogTitle>
+              <DialogDescription>
+                {result.imported.nodes} nodes, {result.imported.conductors} conductors and{' '}
+                {result.imported.heatLoads} heat loads. The constructs below were not imported.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="h-64 my-4 rounded-md border border-white/10">
+              <ul className="divide-y divide-white/5 text-sm">
+                {result.unsupported.map((u, i) => (
+                  <li key={i} className="flex gap-3 px-3 py-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-amber-400 mt-0.5" />
+                    <div className="min-w-0">
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {u.line !== null ? `Line ${u.line} · ` : ''}
+                        {u.construct}
+                      </div>
+                      <div>{u.detail}</div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+            <DialogFooter>
+              <Button variant="glow" onClick={() => openModel(result.modelId)}>
+                Open Model
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleImport}>
+            <DialogHeader>
+              <DialogTitle>Import thermal model</DialogTitle>
+              <DialogDescription>
+                Create a model from an ESATAN-TMS or SINDA/FLUINT input deck.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 my-6">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select
+                  value={format}
+                  onValueChange={(v) => {
+                    setFormat(v as ImportFormat);
+                    setFile(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="bg-white/5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_OPTIONS) as ImportFormat[]).map((f) => (
+                      <SelectItem key={f} value={f}>
+                        {FORMAT_OPTIONS[f].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-file">Input file</Label>
+                <Input
+                  key={format}
+                  id="import-file"
+                  type="file"
+                  accept={FORMAT_OPTIONS[format].accept}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  required
+                  disabled={isLoading}
+                  className="bg-white/5"
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setOpen(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="glow" disabled={isLoading || !file}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Importing...
+                  </>
+                ) : (
+                  'Import Model'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
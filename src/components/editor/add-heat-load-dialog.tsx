@@ -30,6 +30,19 @@ import { useEditorStore } from '@/lib/stores/editor-store';
 import type { HeatLoad } from '@/lib/stores/editor-store';
 import { useUnits } from '@/lib/hooks/use-units';
 
+type OrbitalParams = NonNullable<HeatLoad['orbitalParams']>;
+
+/** Body-axis normals offered for orbital surfaces; 'none' keeps the surface-type fluxes. */
+const SURFACE_NORMALS: Record<string, OrbitalParams['surfaceNormal']> = {
+  none: undefined,
+  '+x': { x: 1, y: 0, z: 0 },
+  '-x': { x: -1, y: 0, z: 0 },
+  '+y': { x: 0, y: 1, z: 0 },
+  '-y': { x: 0, y: -1, z: 0 },
+  '+z': { x: 0, y: 0, z: 1 },
+  '-z': { x: 0, y: 0, z: -1 },
+};
+
 export function AddHeatLoadDialog() {
   const [open, setOpen] = useState(false);
   const nodes = useEditorStore((s) => s.nodes);
@@ -40,6 +53,23 @@ export function AddHeatLoadDialog() {
   const [loadType, setLoadType] = useState<HeatLoad['loadType']>('constant');
   const [nodeId, setNodeId] = useState('');
   const [value, setValue] = useState('10');
+  const [senseNodeId, setSenseNodeId] = useState('');
+  const [onSetpoint, setOnSetpoint] = useState('273');
+  const [offSetpoint, setOffSetpoint] = useState('278');
+  const [maxPower, setMaxPower] = useState('5');
+  const [surfaceType, setSurfaceType] = useState<OrbitalParams['surfaceType']>('custom');
+  const [absorptivity, setAbsorptivity] = useState('0.3');
+  const [emissivity, setEmissivity] = useState('0.85');
+  const [area, setArea] = useState('0.01');
+  const [surfaceNormal, setSurfaceNormal] = useState('none');
+
+  // Setpoints are in display units; the difference is unit-offset free
+  const deadband = parseFloat(offSetpoint) - parseFloat(onSetpoint);
+  const heaterValid = loadType !== 'heater' || (deadband > 0 && parseFloat(maxPower) > 0);
+  const inUnitRange = (v: string) => parseFloat(v) >= 0 && parseFloat(v) <= 1;
+  const orbitalValid =
+    loadType !== 'orbital' ||
+    (inUnitRange(absorptivity) && inUnitRange(emissivity) && parseFloat(area) > 0);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,10 +78,31 @@ export function AddHeatLoadDialog() {
       nodeId,
       loadType,
       value: loadType === 'constant' ? parse(parseFloat(value), 'Power') : null,
+      heaterParams:
+        loadType === 'heater'
+          ? {
+              // Thermostat on the heater's own node unless another is chosen
+              senseNodeId: senseNodeId || nodeId,
+              onSetpoint: parse(parseFloat(onSetpoint), 'Temperature'),
+              offSetpoint: parse(parseFloat(offSetpoint), 'Temperature'),
+              maxPower: parse(parseFloat(maxPower), 'Power'),
+            }
+          : null,
+      orbitalParams:
+        loadType === 'orbital'
+          ? {
+              surfaceType,
+              absorptivity: parseFloat(absorptivity),
+              emissivity: parseFloat(emissivity),
+              area: parse(parseFloat(area), 'Area'),
+              surfaceNormal: SURFACE_NORMALS[surfaceNormal],
+            }
+          : null,
     });
     setOpen(false);
     setName('');
     setNodeId('');
+    setSenseNodeId('');
   };
 
   return (
@@ -112,6 +163,7 @@ export function AddHeatLoadDialog() {
                   <SelectItem value="constant">Constant</SelectItem>
                   <SelectItem value="time_varying">Time-Varying</SelectItem>
                   <SelectItem value="orbital">Orbital</SelectItem>
+                  <SelectItem value="heater">Thermostat Heater</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -129,12 +181,164 @@ export function AddHeatLoadDialog() {
                 />
               </div>
             )}
+            {loadType === 'orbital' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Surface Type</Label>
+                    <Select
+                      value={surfaceType}
+                      onValueChange={(v) => setSurfaceType(v as OrbitalParams['surfaceType'])}
+                    >
+                      <SelectTrigger className="bg-white/5">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="solar">Sun-Facing</SelectItem>
+                        <SelectItem value="earth_facing">Earth-Facing</SelectItem>
+                        <SelectItem value="anti_earth">Anti-Earth</SelectItem>
+                        <SelectItem value="custom">All Sources</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Surface Normal</Label>
+                    <Select value={surfaceNormal} onValueChange={setSurfaceNormal}>
+                      <SelectTrigger className="bg-white/5">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None (surface type)</SelectItem>
+                        {Object.keys(SURFACE_NORMALS)
+                          .filter((k) => k !== 'none')
+                          .map((k) => (
+                            <SelectItem key={k} value={k}>
+                              Body {k.toUpperCase()}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {surfaceNormal === 'none'
+                    ? 'Fluxes follow the surface type; the attitude is not applied.'
+                    : 'Solar, albedo and Earth IR are projected onto the normal by the attitude.'}
+                </p>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="hl-alpha">Absorptivity</Label>
+                    <Input
+                      id="hl-alpha"
+                      type="number"
+                      value={absorptivity}
+                      onChange={(e) => setAbsorptivity(e.target.value)}
+                      required
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      className="bg-white/5"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl-eps">Emissivity</Label>
+                    <Input
+                      id="hl-eps"
+                      type="number"
+                      value={emissivity}
+                      onChange={(e) => setEmissivity(e.target.value)}
+                      required
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      className="bg-white/5"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl-area">Area ({label('Area')})</Label>
+                    <Input
+                      id="hl-area"
+                      type="number"
+                      value={area}
+                      onChange={(e) => setArea(e.target.value)}
+                      required
+                      min="0"
+                      step="0.001"
+                      className="bg-white/5"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+            {loadType === 'heater' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Sense Node</Label>
+                  <Select value={senseNodeId || nodeId} onValueChange={setSenseNodeId}>
+                    <SelectTrigger className="bg-white/5">
+                      <SelectValue placeholder="Same as target node" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {nodes.map((node) => (
+                        <SelectItem key={node.id} value={node.id}>
+                          {node.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="hl-on">On below ({label('Temperature')})</Label>
+                    <Input
+                      id="hl-on"
+                      type="number"
+                      value={onSetpoint}
+                      onChange={(e) => setOnSetpoint(e.target.value)}
+                      required
+                      step="0.1"
+                      className="bg-white/5"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="hl-off">Off above ({label('Temperature')})</Label>
+                    <Input
+                      id="hl-off"
+                      type="number"
+                      value={offSetpoint}
+                      onChange={(e) => setOffSetpoint(e.target.value)}
+                      required
+                      step="0.1"
+                      className="bg-white/5"
+                    />
+                  </div>
+                </div>
+                <p className={`text-xs ${deadband > 0 ? 'text-muted-foreground' : 'text-red-400'}`}>
+                  {deadband > 0
+                    ? `Deadband: ${deadband.toFixed(1)} ${label('Temperature')}`
+                    : 'Off setpoint must be above the on setpoint'}
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="hl-max-power">Max Power ({label('Power')})</Label>
+                  <Input
+                    id="hl-max-power"
+                    type="number"
+                    value={maxPower}
+                    onChange={(e) => setMaxPower(e.target.value)}
+                    required
+                    min="0"
+                    step="0.1"
+                    className="bg-white/5"
+                  />
+                </div>
+              </>
+            )}
           </div>
           <DialogFooter>
             <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
               Cancel
             </Button>
-            <Button type="submit" variant="glow" disabled={!name.trim() || !nodeId}>
+            <Button type="submit" variant="glow" disabled={!name.trim() || !nodeId || !heaterValid || !orbitalValid}>
               Add Heat Load
             </Button>
           </DialogFooter>
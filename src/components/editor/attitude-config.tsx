@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  AttitudeMode,
+  AttitudeParams,
+  AttitudeQuaternionSample,
+  Quaternion,
+  Vec3,
+} from '@/lib/solver/types';
+
+const MODES: Array<{ value: AttitudeMode; label: string }> = [
+  { value: 'nadir_pointing', label: 'Nadir pointing' },
+  { value: 'sun_pointing', label: 'Sun pointing' },
+  { value: 'inertial', label: 'Inertial fixed' },
+  { value: 'spinning', label: 'Spin stabilised' },
+  { value: 'quaternion_series', label: 'Quaternion profile' },
+];
+
+const AXES: Record<string, Vec3> = {
+  '+X': { x: 1, y: 0, z: 0 },
+  '-X': { x: -1, y: 0, z: 0 },
+  '+Y': { x: 0, y: 1, z: 0 },
+  '-Y': { x: 0, y: -1, z: 0 },
+  '+Z': { x: 0, y: 0, z: 1 },
+  '-Z': { x: 0, y: 0, z: -1 },
+};
+
+function axisName(v: Vec3 | undefined, fallback: string): string {
+  if (!v) return fallback;
+  return Object.keys(AXES).find((k) => AXES[k].x === v.x && AXES[k].y === v.y && AXES[k].z === v.z) ?? fallback;
+}
+
+function formatSeries(samples: AttitudeQuaternionSample[] | undefined): string {
+  return (samples ?? [])
+    .map((s) => [s.time, s.quaternion.w, s.quaternion.x, s.quaternion.y, s.quaternion.z].join(', '))
+    .join('\n');
+}
+
+/** Parse "time, w, x, y, z" lines; returns an error message on bad input. */
+function parseSeries(text: string): AttitudeQuaternionSample[] | string {
+  const samples: AttitudeQuaternionSample[] = [];
+  const lines = text.split('\n').map((l) => l.trim()).filter((l) => l && !l.startsWith('#'));
+  for (const [i, line] of lines.entries()) {
+    const values = line.split(/[,\s]+/).map(Number);
+    if (values.length !== 5 || values.some((v) => !Number.isFinite(v))) {
+      return `Line ${i + 1}: expected time, w, x, y, z`;
+    }
+    if (i > 0 && values[0] <= samples[i - 1].time) {
+      return `Line ${i + 1}: times must be strictly increasing`;
+    }
+    const [time, w, x, y, z] = values;
+    samples.push({ time, quaternion: { w, x, y, z } });
+  }
+  return samples;
+}
+
+function AxisSelect({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: string;
+  onChange: (axis: Vec3) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(AXES[v])}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.keys(AXES).map((axis) => (
+          <SelectItem key={axis} value={axis}>
+            {axis}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface AttitudeConfigProps {
+  attitude: AttitudeMode;
+  params: AttitudeParams;
+  onChange: (attitude: AttitudeMode, params: AttitudeParams) => void;
+}
+
+export function AttitudeConfig({ attitude, params, onChange }: AttitudeConfigProps) {
+  const [seriesText, setSeriesText] = useState(() => formatSeries(params.quaternions));
+  const [seriesError, setSeriesError] = useState<string | null>(null);
+
+  const update = (patch: Partial<AttitudeParams>) => onChange(attitude, { ...params, ...patch });
+  const quaternion: Quaternion = params.quaternion ?? { w: 1, x: 0, y: 0, z: 0 };
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor="attitudeMode" className="text-xs font-medium">Attitude</Label>
+      <Select value={attitude} onValueChange={(v) => onChange(v as AttitudeMode, params)}>
+        <SelectTrigger id="attitudeMode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MODES.map((mode) => (
+            <SelectItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {attitude === 'nadir_pointing' && (
+        <div className="text-xs text-muted-foreground p-2 rounded bg-muted/50">
+          Body +X along velocity, +Y along the orbit normal, +Z to zenith.
+        </div>
+      )}
+
+      {attitude === 'sun_pointing' && (
+        <div className="grid grid-cols-2 gap-3 p-3 rounded bg-muted/50">
+          <div className="space-y-1.5">
+            <Label htmlFor="sunAxis" className="text-xs">Sun axis</Label>
+            <AxisSelect
+              id="sunAxis"
+              value={axisName(params.sunAxis, '+X')}
+              onChange={(sunAxis) => update({ sunAxis })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="secondaryAxis" className="text-xs">Secondary axis</Label>
+            <AxisSelect
+              id="secondaryAxis"
+              value={axisName(params.secondaryAxis, '-Z')}
+              onChange={(secondaryAxis) => update({ secondaryAxis })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="secondaryTarget" className="text-xs">Secondary toward</Label>
+            <Select
+              value={params.secondaryTarget ?? 'nadir'}
+              onValueChange={(v) => update({ secondaryTarget: v as AttitudeParams['secondaryTarget'] })}
+            >
+              <SelectTrigger id="secondaryTarget">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="nadir">Nadir</SelectItem>
+                <SelectItem value="orbit_normal">Orbit normal</SelectItem>
+                <SelectItem value="velocity">Velocity</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="rollAngle" className="text-xs">Roll about sun line (°)</Label>
+            <Input
+              id="rollAngle"
+              type="number"
+              value={params.rollAngle ?? 0}
+              onChange={(e) => update({ rollAngle: Number(e.target.value) })}
+              min={-360}
+              max={360}
+            />
+          </div>
+        </div>
+      )}
+
+      {attitude === 'inertial' && (
+        <div className="space-y-1.5 p-3 rounded bg-muted/50">
+          <Label className="text-xs">Body → ECI quaternion (w, x, y, z)</Label>
+          <div className="grid grid-cols-4 gap-2">
+            {(['w', 'x', 'y', 'z'] as const).map((c) => (
+              <Input
+                key={c}
+                aria-label={`q${c}`}
+                type="number"
+                step="any"
+                value={quaternion[c]}
+                onChange={(e) => update({ quaternion: { ...quaternion, [c]: Number(e.target.value) } })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {attitude === 'spinning' && (
+        <div className="grid grid-cols-2 gap-3 p-3 rounded bg-muted/50">
+          <div className="space-y-1.5">
+            <Label htmlFor="spinAxis" className="text-xs">Spin axis</Label>
+            <AxisSelect
+              id="spinAxis"
+              value={axisName(params.spinAxis, '+Z')}
+              onChange={(spinAxis) => update({ spinAxis })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="spinRate" className="text-xs">Spin rate (°/s)</Label>
+            <Input
+              id="spinRate"
+              type="number"
+              step="any"
+              value={params.spinRate ?? 0}
+              onChange={(e) => update({ spinRate: Number(e.target.value) })}
+              min={-360}
+              max={360}
+            />
+          </div>
+          <p className="col-span-2 text-xs text-muted-foreground">
+            The spin axis stays inertially fixed along the orbit normal at the epoch.
+          </p>
+        </div>
+      )}
+
+      {attitude === 'quaternion_series' && (
+        <div className="space-y-1.5 p-3 rounded bg-muted/50">
+          <Label htmlFor="quaternionSeries" className="text-xs">
+            Body → ECI quaternions, one per line: time (s), w, x, y, z
+          </Label>
+          <Textarea
+            id="quaternionSeries"
+            className="font-mono text-xs"
+            rows={5}
+            value={seriesText}
+            placeholder={'0, 1, 0, 0, 0\n600, 0.924, 0, 0, 0.383'}
+            onChange={(e) => {
+              setSeriesText(e.target.value);
+              const parsed = parseSeries(e.target.value);
+              if (typeof parsed === 'string') {
+                setSeriesError(parsed);
+              } else {
+                setSeriesError(null);
+                update({ quaternions: parsed });
+              }
+            }}
+          />
+          {seriesError ? (
+            <p className="text-xs text-red-400">{seriesError}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {params.quaternions?.length ?? 0} samples, interpolated between and held beyond the ends.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
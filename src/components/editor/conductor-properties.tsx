@@ -19,6 +19,8 @@ import {
   type ViewFactorProgress,
   type ViewFactorResult,
 } from '@/lib/cad/monte-carlo';
+import { CONDUCTOR_EXPRESSION_FIELDS } from '@/lib/solver/expressions';
+import { FieldExpressions } from './field-expressions';
 
 interface ConductorPropertiesProps {
   conductor: Conductor;
@@ -415,6 +417,12 @@ export function ConductorProperties({ conductor }: ConductorPropertiesProps) {
           )}
         </div>
       )}
+
+      <FieldExpressions
+        expressions={conductor.expressions}
+        fields={CONDUCTOR_EXPRESSION_FIELDS}
+        onChange={(expressions) => updateConductor(conductor.id, { expressions })}
+      />
     </div>
   );
 }
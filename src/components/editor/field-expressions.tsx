@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Sigma, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEditorStore, type FieldExpressions as Expressions } from '@/lib/stores/editor-store';
+import { ExpressionError, evaluateExpression, symbolValues } from '@/lib/solver/expressions';
+
+interface FieldExpressionsProps {
+  expressions: Expressions | null | undefined;
+  /** Fields that may take an expression */
+  fields: readonly string[];
+  onChange: (expressions: Expressions | null) => void;
+}
+
+/**
+ * Expressions over the model symbols for an entity's numeric fields. A field
+ * with an expression takes its value from it; values are SI.
+ */
+export function FieldExpressions({ expressions, fields, onChange }: FieldExpressionsProps) {
+  const symbols = useEditorStore((s) => s.symbols);
+  const values = symbolValues(symbols);
+  const entries = Object.entries(expressions ?? {});
+  const freeFields = fields.filter((f) => !(f in (expressions ?? {})));
+  const [newField, setNewField] = useState<string>('');
+
+  const setExpression = (field: string, source: string | null) => {
+    const next: Expressions = { ...(expressions ?? {}) };
+    if (source === null) delete next[field];
+    else next[field] = source;
+    onChange(Object.keys(next).length > 0 ? next : null);
+  };
+
+  const preview = (source: string): { value?: number; error?: string } => {
+    try {
+      return { value: evaluateExpression(source, values) };
+    } catch (err) {
+      return { error: err instanceof ExpressionError ? err.message : 'Invalid expression' };
+    }
+  };
+
+  return (
+    <div className="pt-2 border-t border-white/10">
+      <div className="flex items-center gap-2 mb-3">
+        <Sigma className="h-3.5 w-3.5 text-muted-foreground" />
+        <p className="text-xs font-medium text-muted-foreground">Expressions</p>
+      </div>
+      <div className="space-y-2">
+        {entries.map(([field, source]) => {
+          const result = preview(source);
+          return (
+            <div key={field} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-mono">{field}</Label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-white/40 hover:text-red-400"
+                  onClick={() => setExpression(field, null)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              <Input
+                value={source}
+                onChange={(e) => setExpression(field, e.target.value)}
+                className="bg-white/5 h-7 text-xs font-mono"
+                placeholder="e.g. 2 * panel_area"
+              />
+              {result.error ? (
+                <p className="text-xs text-red-400">{result.error}</p>
+              ) : (
+                <p className="text-xs font-mono text-muted-foreground">= {result.value}</p>
+              )}
+            </div>
+          );
+        })}
+        {freeFields.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={newField} onValueChange={setNewField}>
+              <SelectTrigger className="bg-white/5 h-7 text-xs flex-1">
+                <SelectValue placeholder="Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {freeFields.map((f) => (
+                  <SelectItem key={f} value={f}>{f}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={!newField}
+              onClick={() => {
+                setExpression(newField, symbols[0]?.name ?? '0');
+                setNewField('');
+              }}
+            >
+              <Plus className="h-3 w-3 mr-1" /> Add
+            </Button>
+          </div>
+        )}
+        {symbols.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Define symbols in the model overview to use them here.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEditorStore, type NodeGroup, type ThermalNode } from '@/lib/stores/editor-store';
+import { useUnits } from '@/lib/hooks/use-units';
+import { groupMemberNodeIds, groupPath, subtreeGroupIds } from '@/lib/node-groups';
+
+interface GroupPropertiesProps {
+  group: NodeGroup;
+}
+
+/** Fields of the bulk edit form; empty strings leave the property unchanged. */
+interface BulkFields {
+  temperature: string;
+  absorptivity: string;
+  emissivity: string;
+  radiatesToSpace: 'unchanged' | 'on' | 'off';
+}
+
+const EMPTY_BULK: BulkFields = {
+  temperature: '',
+  absorptivity: '',
+  emissivity: '',
+  radiatesToSpace: 'unchanged',
+};
+
+export function GroupProperties({ group }: GroupPropertiesProps) {
+  const groups = useEditorStore((s) => s.groups);
+  const nodes = useEditorStore((s) => s.nodes);
+  const collapsedGroupIds = useEditorStore((s) => s.collapsedGroupIds);
+  const updateGroup = useEditorStore((s) => s.updateGroup);
+  const bulkUpdateGroupNodes = useEditorStore((s) => s.bulkUpdateGroupNodes);
+  const toggleGroupCollapsed = useEditorStore((s) => s.toggleGroupCollapsed);
+  const { label, parse } = useUnits();
+  const [bulk, setBulk] = useState<BulkFields>(EMPTY_BULK);
+
+  const memberCount = groupMemberNodeIds(groups, nodes, group.id).length;
+  const directCount = nodes.filter((n) => n.groupId === group.id).length;
+  // A group can't move under itself or one of its subgroups
+  const subtree = subtreeGroupIds(groups, group.id);
+  const parentOptions = groups.filter((g) => !subtree.has(g.id));
+
+  const bulkData = (): Partial<ThermalNode> => {
+    const data: Partial<ThermalNode> = {};
+    const temperature = parseFloat(bulk.temperature);
+    if (!isNaN(temperature)) data.temperature = parse(temperature, 'Temperature');
+    const absorptivity = parseFloat(bulk.absorptivity);
+    if (!isNaN(absorptivity)) data.absorptivity = Math.min(Math.max(absorptivity, 0), 1);
+    const emissivity = parseFloat(bulk.emissivity);
+    if (!isNaN(emissivity)) data.emissivity = Math.min(Math.max(emissivity, 0), 1);
+    if (bulk.radiatesToSpace !== 'unchanged') data.radiatesToSpace = bulk.radiatesToSpace === 'on';
+    return data;
+  };
+  const canApply = memberCount > 0 && Object.keys(bulkData()).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Badge variant="outline">group</Badge>
+        <span className="text-xs font-mono text-muted-foreground">
+          {group.id.slice(0, 8)}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="group-name">Name</Label>
+        <Input
+          id="group-name"
+          value={group.name}
+          onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+          className="bg-white/5 h-8 text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Parent Group</Label>
+        <Select
+          value={group.parentId ?? 'none'}
+          onValueChange={(v) => updateGroup(group.id, { parentId: v === 'none' ? null : v })}
+        >
+          <SelectTrigger className="bg-white/5 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Top level</SelectItem>
+            {parentOptions.map((g) => (
+              <SelectItem key={g.id} value={g.id}>
+                {groupPath(groups, g.id)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">Nodes</span>
+        <span className="font-mono">
+          {memberCount}
+          {memberCount !== directCount && ` (${memberCount - directCount} in subgroups)`}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="text-xs" htmlFor="group-collapsed">Collapse in network view</Label>
+        <Switch
+          id="group-collapsed"
+          checked={collapsedGroupIds.includes(group.id)}
+          onCheckedChange={() => toggleGroupCollapsed(group.id)}
+        />
+      </div>
+
+      <div className="pt-2 border-t border-white/10">
+        <p className="text-xs font-medium text-muted-foreground mb-3">Edit All Nodes</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs" htmlFor="bulk-temp">Temperature ({label('Temperature')})</Label>
+            <Input
+              id="bulk-temp"
+              type="number"
+              value={bulk.temperature}
+              placeholder="unchanged"
+              onChange={(e) => setBulk({ ...bulk, temperature: e.target.value })}
+              className="bg-white/5 h-7 text-xs"
+              step="0.1"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="bulk-abs">α (absorptivity)</Label>
+            <Input
+              id="bulk-abs"
+              type="number"
+              value={bulk.absorptivity}
+              placeholder="unchanged"
+              onChange={(e) => setBulk({ ...bulk, absorptivity: e.target.value })}
+              className="bg-white/5 h-7 text-xs"
+              min="0"
+              max="1"
+              step="0.01"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="bulk-em">ε (emissivity)</Label>
+            <Input
+              id="bulk-em"
+              type="number"
+              value={bulk.emissivity}
+              placeholder="unchanged"
+              onChange={(e) => setBulk({ ...bulk, emissivity: e.target.value })}
+              className="bg-white/5 h-7 text-xs"
+              min="0"
+              max="1"
+              step="0.01"
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs">Radiates to space</Label>
+            <Select
+              value={bulk.radiatesToSpace}
+              onValueChange={(v) => setBulk({ ...bulk, radiatesToSpace: v as BulkFields['radiatesToSpace'] })}
+            >
+              <SelectTrigger className="bg-white/5 h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unchanged">Unchanged</SelectItem>
+                <SelectItem value="on">On</SelectItem>
+                <SelectItem value="off">Off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full mt-3"
+          disabled={!canApply}
+          onClick={() => {
+            bulkUpdateGroupNodes(group.id, bulkData());
+            setBulk(EMPTY_BULK);
+          }}
+        >
+          Apply to {memberCount} node{memberCount === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -37,22 +37,29 @@ export function ImportCadButton() {
     setCadImportStatus('parsing');
     setCadImportProgress({ percent: 0, message: 'Starting…' });
 
+    let geometry: CadGeometry;
     try {
       const result: ParseResult = await parseStepFile(file, (progress) => {
         setCadImportProgress(progress);
       });
 
-      const geometry: CadGeometry = {
+      geometry = {
         fileName: file.name,
         faces: result.faces,
         boundingBox: result.boundingBox,
         totalSurfaceArea: result.totalSurfaceArea,
       };
-
-      setCadGeometry(geometry);
     } catch (err: any) {
       setCadImportStatus('error');
       setError(err.message || 'Failed to parse STEP file.');
+      return;
+    }
+
+    // The geometry stays usable in this session even if the upload fails
+    try {
+      await setCadGeometry(geometry, file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save STEP file.');
     }
   }, [setCadGeometry, setCadImportStatus, setCadImportProgress]);
 
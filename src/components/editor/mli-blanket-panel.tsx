@@ -0,0 +1,248 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Layers, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useEditorStore, type ThermalNode } from '@/lib/stores/editor-store';
+import { blanketEmittance, idealEffectiveEmittance } from '@/lib/solver/mli-blanket';
+
+interface MliBlanket {
+  id: string;
+  name: string;
+  nodeId: string;
+  layerCount: number;
+  effectiveEmittance: number;
+  outerAbsorptivity: number;
+  outerEmissivity: number;
+  area: number;
+  seamDegradation: number;
+  outerNodeId: string | null;
+}
+
+interface BlanketForm {
+  name: string;
+  layerCount: string;
+  effectiveEmittance: string;
+  outerAbsorptivity: string;
+  outerEmissivity: string;
+  area: string;
+  seamDegradation: string; // %
+}
+
+function toForm(blanket: MliBlanket | null, node: ThermalNode): BlanketForm {
+  if (!blanket) {
+    return {
+      name: `${node.name} MLI`,
+      layerCount: '20',
+      effectiveEmittance: '0.03',
+      outerAbsorptivity: '0.12', // Kapton-aluminised cover
+      outerEmissivity: '0.6',
+      area: '',
+      seamDegradation: '0',
+    };
+  }
+  return {
+    name: blanket.name,
+    layerCount: String(blanket.layerCount),
+    effectiveEmittance: String(blanket.effectiveEmittance),
+    outerAbsorptivity: String(blanket.outerAbsorptivity),
+    outerEmissivity: String(blanket.outerEmissivity),
+    area: String(blanket.area),
+    seamDegradation: String(blanket.seamDegradation * 100),
+  };
+}
+
+const FIELDS: Array<{ key: Exclude<keyof BlanketForm, 'name'>; label: string; step: string }> = [
+  { key: 'layerCount', label: 'Layers', step: '1' },
+  { key: 'effectiveEmittance', label: 'ε* (effective)', step: '0.001' },
+  { key: 'outerAbsorptivity', label: 'Cover α', step: '0.01' },
+  { key: 'outerEmissivity', label: 'Cover ε', step: '0.01' },
+  { key: 'area', label: 'Area (m²)', step: '0.001' },
+  { key: 'seamDegradation', label: 'Seams (+% ε*)', step: '1' },
+];
+
+/**
+ * The MLI blanket over the selected node; keyed by node id so the form resets
+ * on selection. Saving generates the blanket's outer-layer node and ε*
+ * conductor server-side and moves the node's orbital loads onto it, so the
+ * model reloads afterwards.
+ */
+export function MliBlanketPanel({ node }: { node: ThermalNode }) {
+  const projectId = useEditorStore((s) => s.projectId);
+  const modelId = useEditorStore((s) => s.modelId);
+  const nodes = useEditorStore((s) => s.nodes);
+  const loadModel = useEditorStore((s) => s.loadModel);
+
+  const [blankets, setBlankets] = useState<MliBlanket[]>([]);
+  const [form, setForm] = useState<BlanketForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = projectId && modelId
+    ? `/api/projects/${projectId}/models/${modelId}/mli-blankets`
+    : null;
+
+  const fetchBlankets = useCallback(async () => {
+    if (!base) return;
+    const res = await fetch(base);
+    if (res.ok) setBlankets((await res.json()).blankets);
+  }, [base]);
+
+  useEffect(() => {
+    fetchBlankets();
+  }, [fetchBlankets]);
+
+  if (!projectId || !modelId || !base || node.nodeType === 'boundary') return null;
+
+  const blanket = blankets.find((b) => b.nodeId === node.id) ?? null;
+  const coveredBy = blankets.find((b) => b.outerNodeId === node.id);
+  if (coveredBy) {
+    const covered = nodes.find((n) => n.id === coveredBy.nodeId);
+    return (
+      <div className="pt-2 border-t border-white/10">
+        <p className="text-xs text-muted-foreground">
+          Outer layer of the MLI blanket &ldquo;{coveredBy.name}&rdquo; on {covered?.name ?? 'another node'}.
+          Edit the blanket from that node; changes made here are overwritten.
+        </p>
+      </div>
+    );
+  }
+
+  const layers = form ? parseInt(form.layerCount, 10) : blanket?.layerCount;
+  const ideal = layers && layers > 0 ? idealEffectiveEmittance(layers) : null;
+
+  const submit = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const body = {
+        name: form.name,
+        layerCount: parseInt(form.layerCount, 10),
+        effectiveEmittance: parseFloat(form.effectiveEmittance),
+        outerAbsorptivity: parseFloat(form.outerAbsorptivity),
+        outerEmissivity: parseFloat(form.outerEmissivity),
+        area: form.area === '' ? undefined : parseFloat(form.area),
+        seamDegradation: (parseFloat(form.seamDegradation) || 0) / 100,
+      };
+      const res = await fetch(blanket ? `${base}/${blanket.id}` : base, {
+        method: blanket ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(blanket ? body : { ...body, nodeId: node.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save blanket');
+
+      setForm(null);
+      await fetchBlankets();
+      await loadModel(projectId, modelId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!blanket) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`${base}/${blanket.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to remove blanket');
+      await fetchBlankets();
+      await loadModel(projectId, modelId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="pt-2 border-t border-white/10">
+      <div className="flex items-center gap-2 mb-3">
+        <Layers className="h-3.5 w-3.5 text-accent-cyan" />
+        <p className="text-xs font-medium text-muted-foreground">MLI Blanket</p>
+      </div>
+
+      {!form && blanket && (
+        <div className="space-y-2">
+          <div className="text-xs font-mono text-muted-foreground space-y-0.5">
+            <p>{blanket.name}: {blanket.layerCount} layers, {blanket.area} m²</p>
+            <p>
+              ε* {blanket.effectiveEmittance}
+              {blanket.seamDegradation > 0 && ` → ${blanketEmittance(blanket).toFixed(4)} with seams`}
+            </p>
+            <p>Cover α {blanket.outerAbsorptivity} / ε {blanket.outerEmissivity}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="flex-1" disabled={isSaving} onClick={() => setForm(toForm(blanket, node))}>
+              Edit
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" disabled={isSaving} onClick={remove}>
+              {isSaving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : null}
+              Remove
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!form && !blanket && (
+        <Button size="sm" variant="outline" className="w-full" onClick={() => setForm(toForm(null, node))}>
+          Add MLI blanket
+        </Button>
+      )}
+
+      {form && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="mli-name">Name</Label>
+            <Input
+              id="mli-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="bg-white/5 h-7 text-xs"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs" htmlFor={`mli-${key}`}>{label}</Label>
+                <Input
+                  id={`mli-${key}`}
+                  type="number"
+                  value={form[key]}
+                  placeholder={key === 'area' ? String(node.area ?? '') : undefined}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className="bg-white/5 h-7 text-xs"
+                  min="0"
+                  step={step}
+                />
+              </div>
+            ))}
+          </div>
+          {ideal !== null && (
+            <p className="text-xs text-muted-foreground">
+              Ideal {layers}-layer ε* is {ideal.toPrecision(3)}; flight blankets are typically
+              0.01–0.05 once seams and compression are included.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" className="flex-1" disabled={isSaving} onClick={submit}>
+              {isSaving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : null}
+              {blanket ? 'Save blanket' : 'Create blanket'}
+            </Button>
+            <Button size="sm" variant="outline" disabled={isSaving} onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
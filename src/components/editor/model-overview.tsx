@@ -5,6 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Circle, GitBranch, Flame, Globe } from 'lucide-react';
+import { SymbolTable } from './symbol-table';
+import { ViewFactorJobPanel } from './view-factor-job-panel';
 
 export function ModelOverview() {
   const { nodes, conductors, heatLoads, orbitalConfig, modelName } = useEditorStore();
@@ -112,6 +114,10 @@ export function ModelOverview() {
         </div>
       )}
 
+      <SymbolTable />
+
+      <ViewFactorJobPanel />
+
       <div className="pt-4 border-t border-white/10">
         <p className="text-xs text-muted-foreground">
           Click on a node or conductor in the tree or graph to view and edit its properties.
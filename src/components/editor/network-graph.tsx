@@ -1,10 +1,12 @@
 'use client';
 
-import { useRef, useEffect, useCallback, useState } from 'react';
+import { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import { useEditorStore } from '@/lib/stores/editor-store';
 import { cn } from '@/lib/utils';
+import { groupMemberNodeIds, type NodeGroup } from '@/lib/node-groups';
 
 const NODE_RADIUS = 24;
+const GROUP_COLOR = '#eab308';
 
 const nodeTypeColors: Record<string, string> = {
   diffusion: '#3b82f6',
@@ -22,6 +24,28 @@ interface NetworkGraphProps {
   readOnly?: boolean;
 }
 
+type GraphItem = { kind: 'node' | 'group'; id: string };
+
+/**
+ * The collapsed group a node is drawn as: its outermost collapsed ancestor,
+ * or null when the node is visible itself.
+ */
+function collapsedAncestor(
+  groupId: string | null | undefined,
+  groups: NodeGroup[],
+  collapsed: Set<string>,
+): string | null {
+  let outermost: string | null = null;
+  const seen = new Set<string>();
+  let current = groupId ? groups.find((g) => g.id === groupId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    if (collapsed.has(current.id)) outermost = current.id;
+    current = current.parentId ? groups.find((g) => g.id === current!.parentId) : undefined;
+  }
+  return outermost;
+}
+
 export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -29,22 +53,49 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
     nodes,
     conductors,
     heatLoads,
+    groups,
+    collapsedGroupIds,
     selectedNodeId,
     selectedConductorId,
+    selectedGroupId,
     selectNode,
-    selectConductor,
+    selectGroup,
     clearSelection,
     updateNode,
+    toggleGroupCollapsed,
     showResultsOverlay,
     simulationResults,
   } = useEditorStore();
 
   const [offset, setOffset] = useState({ x: 0, y: 0 });
   const [scale, setScale] = useState(1);
-  const [dragNode, setDragNode] = useState<string | null>(null);
+  const [dragItem, setDragItem] = useState<GraphItem | null>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [lastMouse, setLastMouse] = useState({ x: 0, y: 0 });
 
+  // Collapsed groups replace their members with one node at the members' centroid
+  const layout = useMemo(() => {
+    const collapsed = new Set(collapsedGroupIds);
+    const displayKey = new Map<string, string>();
+    const groupMembers = new Map<string, typeof nodes>();
+    for (const node of nodes) {
+      const groupId = collapsedAncestor(node.groupId, groups, collapsed);
+      displayKey.set(node.id, groupId ? `group:${groupId}` : node.id);
+      if (groupId) groupMembers.set(groupId, [...(groupMembers.get(groupId) ?? []), node]);
+    }
+    const collapsedNodes = [...groupMembers.entries()].map(([groupId, members]) => ({
+      group: groups.find((g) => g.id === groupId)!,
+      members,
+      x: members.reduce((sum, n) => sum + (n.x ?? 0), 0) / members.length,
+      y: members.reduce((sum, n) => sum + (n.y ?? 0), 0) / members.length,
+    }));
+    return {
+      displayKey,
+      visibleNodes: nodes.filter((n) => displayKey.get(n.id) === n.id),
+      collapsedNodes,
+    };
+  }, [nodes, groups, collapsedGroupIds]);
+
   const toScreen = useCallback(
     (x: number, y: number) => ({
       x: (x + offset.x) * scale,
@@ -94,17 +145,37 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
       ctx.stroke();
     }
 
-    // Build node position lookup
+    // Build position lookup for visible nodes and collapsed groups
     const nodePos = new Map<string, { x: number; y: number }>();
-    nodes.forEach((node) => {
+    layout.visibleNodes.forEach((node) => {
       const pos = toScreen(node.x ?? 0, node.y ?? 0);
       nodePos.set(node.id, pos);
     });
+    layout.collapsedNodes.forEach(({ group, x, y }) => {
+      nodePos.set(`group:${group.id}`, toScreen(x, y));
+    });
 
-    // Draw conductors
+    // Conductors between the same pair of drawn items are drawn once;
+    // conductors inside a collapsed group are hidden
+    const edges = new Map<string, { cond: (typeof conductors)[number]; from: string; to: string; count: number }>();
     conductors.forEach((cond) => {
-      const from = nodePos.get(cond.nodeFromId);
-      const to = nodePos.get(cond.nodeToId);
+      const from = layout.displayKey.get(cond.nodeFromId);
+      const to = layout.displayKey.get(cond.nodeToId);
+      if (!from || !to || from === to) return;
+      const key = from < to ? `${from}|${to}` : `${to}|${from}`;
+      const edge = edges.get(key);
+      if (edge) {
+        edge.count++;
+        if (selectedConductorId === cond.id) edge.cond = cond;
+      } else {
+        edges.set(key, { cond, from, to, count: 1 });
+      }
+    });
+
+    // Draw conductors
+    edges.forEach(({ cond, from: fromKey, to: toKey, count }) => {
+      const from = nodePos.get(fromKey);
+      const to = nodePos.get(toKey);
       if (!from || !to) return;
 
       const isSelected = selectedConductorId === cond.id;
@@ -132,11 +203,52 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
       ctx.fillStyle = 'rgba(148, 163, 184, 0.6)';
       ctx.font = '10px monospace';
       ctx.textAlign = 'center';
-      ctx.fillText(cond.name, midX, midY - 8);
+      ctx.fillText(count > 1 ? `${count} conductors` : cond.name, midX, midY - 8);
+    });
+
+    // Draw collapsed groups
+    layout.collapsedNodes.forEach(({ group, members }) => {
+      const pos = nodePos.get(`group:${group.id}`)!;
+      const isSelected = selectedGroupId === group.id;
+      const w = NODE_RADIUS * 2.6 * scale;
+      const h = NODE_RADIUS * 1.6 * scale;
+
+      ctx.beginPath();
+      ctx.roundRect(pos.x - w / 2, pos.y - h / 2, w, h, 6 * scale);
+      ctx.fillStyle = isSelected ? `${GROUP_COLOR}40` : `${GROUP_COLOR}1a`;
+      ctx.fill();
+      ctx.strokeStyle = isSelected ? GROUP_COLOR : `${GROUP_COLOR}80`;
+      ctx.lineWidth = isSelected ? 2.5 : 1.5;
+      ctx.setLineDash([4, 3]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = '#e2e8f0';
+      ctx.font = `${11 * scale}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(group.name, pos.x, pos.y - 6 * scale);
+      ctx.fillStyle = 'rgba(148, 163, 184, 0.7)';
+      ctx.font = `${9 * scale}px monospace`;
+      ctx.fillText(`${members.length} nodes`, pos.x, pos.y + 8 * scale);
+
+      // Mean final temperature of the members
+      if (showResultsOverlay && simulationResults) {
+        const finals = members
+          .map((n) => simulationResults.nodeResults?.[n.id]?.temperatures)
+          .filter((t): t is number[] => !!t && t.length > 0)
+          .map((t) => t[t.length - 1]);
+        if (finals.length > 0) {
+          const mean = finals.reduce((a, b) => a + b, 0) / finals.length;
+          ctx.fillStyle = '#f59e0b';
+          ctx.font = `bold ${10 * scale}px monospace`;
+          ctx.fillText(`${mean.toFixed(1)}K`, pos.x, pos.y + h / 2 + 12);
+        }
+      }
     });
 
     // Draw nodes
-    nodes.forEach((node) => {
+    layout.visibleNodes.forEach((node) => {
       const pos = nodePos.get(node.id);
       if (!pos) return;
 
@@ -204,7 +316,7 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
         ctx.fillText(`${node.temperature.toFixed(0)}K`, pos.x, pos.y + r + 12);
       }
     });
-  }, [nodes, conductors, heatLoads, selectedNodeId, selectedConductorId, offset, scale, toScreen, showResultsOverlay, simulationResults]);
+  }, [layout, conductors, heatLoads, selectedNodeId, selectedConductorId, selectedGroupId, offset, scale, toScreen, showResultsOverlay, simulationResults]);
 
   useEffect(() => {
     draw();
@@ -213,32 +325,45 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
     return () => window.removeEventListener('resize', handleResize);
   }, [draw]);
 
-  const findNodeAt = useCallback(
-    (clientX: number, clientY: number) => {
+  const findItemAt = useCallback(
+    (clientX: number, clientY: number): GraphItem | null => {
       const canvas = canvasRef.current;
       if (!canvas) return null;
       const rect = canvas.getBoundingClientRect();
       const x = clientX - rect.left;
       const y = clientY - rect.top;
 
-      for (const node of nodes) {
+      for (const { group, x: gx, y: gy } of layout.collapsedNodes) {
+        const pos = toScreen(gx, gy);
+        if (
+          Math.abs(x - pos.x) < NODE_RADIUS * 1.3 * scale + 4 &&
+          Math.abs(y - pos.y) < NODE_RADIUS * 0.8 * scale + 4
+        ) {
+          return { kind: 'group', id: group.id };
+        }
+      }
+      for (const node of layout.visibleNodes) {
         const pos = toScreen(node.x ?? 0, node.y ?? 0);
         const dx = x - pos.x;
         const dy = y - pos.y;
         if (Math.sqrt(dx * dx + dy * dy) < NODE_RADIUS * scale + 8) {
-          return node.id;
+          return { kind: 'node', id: node.id };
         }
       }
       return null;
     },
-    [nodes, toScreen, scale],
+    [layout, toScreen, scale],
   );
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    const nodeId = findNodeAt(e.clientX, e.clientY);
-    if (nodeId) {
-      if (!readOnly) setDragNode(nodeId);
-      selectNode(nodeId);
+    const item = findItemAt(e.clientX, e.clientY);
+    if (item) {
+      if (!readOnly) setDragItem(item);
+      if (item.kind === 'group') {
+        selectGroup(item.id);
+      } else {
+        selectNode(item.id);
+      }
     } else if (e.button === 0) {
       setIsPanning(true);
       clearSelection();
@@ -250,11 +375,17 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
     const dx = e.clientX - lastMouse.x;
     const dy = e.clientY - lastMouse.y;
 
-    if (dragNode && !readOnly) {
-      updateNode(dragNode, {
-        x: (nodes.find((n) => n.id === dragNode)?.x ?? 0) + dx / scale,
-        y: (nodes.find((n) => n.id === dragNode)?.y ?? 0) + dy / scale,
-      });
+    if (dragItem && !readOnly) {
+      // Dragging a collapsed group moves all of its members
+      const ids =
+        dragItem.kind === 'group' ? groupMemberNodeIds(groups, nodes, dragItem.id) : [dragItem.id];
+      for (const id of ids) {
+        const node = nodes.find((n) => n.id === id);
+        updateNode(id, {
+          x: (node?.x ?? 0) + dx / scale,
+          y: (node?.y ?? 0) + dy / scale,
+        });
+      }
     } else if (isPanning) {
       setOffset((prev) => ({
         x: prev.x + dx / scale,
@@ -265,10 +396,16 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
   };
 
   const handleMouseUp = () => {
-    setDragNode(null);
+    setDragItem(null);
     setIsPanning(false);
   };
 
+  // Double-click a collapsed group to expand it
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const item = findItemAt(e.clientX, e.clientY);
+    if (item?.kind === 'group') toggleGroupCollapsed(item.id);
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
@@ -284,6 +421,7 @@ export function NetworkGraph({ readOnly }: NetworkGraphProps = {}) {
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
+        onDoubleClick={handleDoubleClick}
         onWheel={handleWheel}
       />
       {/* Empty state */}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -13,7 +14,18 @@ import {
 } from '@/components/ui/select';
 import { useEditorStore, type ThermalNode } from '@/lib/stores/editor-store';
 import { useUnits } from '@/lib/hooks/use-units';
+import { useMaterials } from '@/lib/hooks/use-materials';
 import type { QuantityType } from '@/lib/units';
+import { groupPath } from '@/lib/node-groups';
+import { NODE_EXPRESSION_FIELDS } from '@/lib/solver/expressions';
+import {
+  deriveNodeProperties,
+  derivedNodePropertySources,
+  type DerivedNodeField,
+  type NodePropertySource,
+} from '@/lib/solver/node-properties';
+import { FieldExpressions } from './field-expressions';
+import { MliBlanketPanel } from './mli-blanket-panel';
 
 /** Validation bounds in SI units */
 const BOUNDS: Partial<Record<string, { min?: number; max?: number }>> = {
@@ -22,6 +34,14 @@ const BOUNDS: Partial<Record<string, { min?: number; max?: number }>> = {
   capacitance: { min: 0 },       // >= 0 J/K
   area: { min: 0 },              // >= 0 m²
   mass: { min: 0 },              // >= 0 kg
+  thickness: { min: 0 },         // >= 0 m
+};
+
+const SOURCE_LABELS: Record<NodePropertySource, string> = {
+  mass: 'm·cp',
+  volume: 'ρ·A·t·cp',
+  material: 'material',
+  coating: 'coating',
 };
 
 interface NodePropertiesProps {
@@ -30,11 +50,55 @@ interface NodePropertiesProps {
 
 export function NodeProperties({ node }: NodePropertiesProps) {
   const updateNode = useEditorStore((s) => s.updateNode);
+  const groups = useEditorStore((s) => s.groups);
+  const moveNodeToGroup = useEditorStore((s) => s.moveNodeToGroup);
   const { label, display, parse, fmt } = useUnits();
+  const materials = useMaterials();
   const [errors, setErrors] = useState<Record<string, string | null>>({});
 
-  const handleChange = (field: keyof ThermalNode, value: string | number | null) => {
-    updateNode(node.id, { [field]: value });
+  const materialById = (id: string | null | undefined) =>
+    id ? materials.find((m) => m.id === id) : undefined;
+  const material = materialById(node.materialId);
+  const coating = materialById(node.coatingId);
+  const sources = derivedNodePropertySources(node, material, coating);
+
+  /** Apply the edit, then re-derive capacitance and α/ε from the material and coating */
+  const applyPatch = (patch: Partial<ThermalNode>) => {
+    const next = { ...node, ...patch };
+    updateNode(node.id, {
+      ...patch,
+      ...deriveNodeProperties(next, materialById(next.materialId), materialById(next.coatingId)),
+    });
+  };
+
+  const handleChange = (field: keyof ThermalNode, value: string | number | boolean | null) => {
+    applyPatch({ [field]: value });
+  };
+
+  const toggleOverride = (field: DerivedNodeField) => {
+    const overrides = node.propertyOverrides ?? [];
+    applyPatch({
+      propertyOverrides: overrides.includes(field)
+        ? overrides.filter((f) => f !== field)
+        : [...overrides, field],
+    });
+  };
+
+  /** Where a derived field comes from; clicking switches between derived and typed */
+  const DerivedToggle = ({ field }: { field: DerivedNodeField }) => {
+    const source = sources[field];
+    const overridden = node.propertyOverrides?.includes(field) ?? false;
+    if (!source && !(overridden && (material || coating))) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => toggleOverride(field)}
+        className={`text-[10px] ${overridden ? 'text-amber-400' : 'text-cyan-400'} hover:underline`}
+        title={overridden ? 'Typed value — click to derive from the material' : 'Derived — click to override'}
+      >
+        {overridden ? 'override' : `from ${SOURCE_LABELS[source!]}`}
+      </button>
+    );
   };
 
   /** Validate SI value against bounds; returns error message or null */
@@ -102,6 +166,28 @@ export function NodeProperties({ node }: NodePropertiesProps) {
         />
       </div>
 
+      {groups.length > 0 && (
+        <div className="space-y-2">
+          <Label>Group</Label>
+          <Select
+            value={node.groupId ?? 'none'}
+            onValueChange={(v) => moveNodeToGroup(node.id, v === 'none' ? null : v)}
+          >
+            <SelectTrigger className="bg-white/5 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No group</SelectItem>
+              {groups.map((group) => (
+                <SelectItem key={group.id} value={group.id}>
+                  {groupPath(groups, group.id)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label>Node Type</Label>
         <Select
@@ -134,12 +220,16 @@ export function NodeProperties({ node }: NodePropertiesProps) {
 
       {node.nodeType === 'diffusion' && (
         <div className="space-y-2">
-          <Label htmlFor="prop-cap">Capacitance ({label('Capacitance')})</Label>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="prop-cap">Capacitance ({label('Capacitance')})</Label>
+            <DerivedToggle field="capacitance" />
+          </div>
           <Input
             id="prop-cap"
             type="number"
             value={node.capacitance != null ? display(node.capacitance, 'Capacitance') : ''}
             onChange={(e) => handleUnitChange('capacitance', 'Capacitance', e.target.value)}
+            disabled={sources.capacitance !== undefined}
             className="bg-white/5 h-8 text-sm"
             min="0"
             step="0.1"
@@ -163,6 +253,59 @@ export function NodeProperties({ node }: NodePropertiesProps) {
         </div>
       )}
 
+      <div className="pt-2 border-t border-white/10 space-y-3">
+        <p className="text-xs font-medium text-muted-foreground">Material</p>
+        <div className="space-y-1">
+          <Label className="text-xs">Bulk material</Label>
+          <Select
+            value={node.materialId ?? 'none'}
+            onValueChange={(v) => handleChange('materialId', v === 'none' ? null : v)}
+          >
+            <SelectTrigger className="bg-white/5 h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {materials.map((m) => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Coating</Label>
+            <Select
+              value={node.coatingId ?? 'none'}
+              onValueChange={(v) => handleChange('coatingId', v === 'none' ? null : v)}
+            >
+              <SelectTrigger className="bg-white/5 h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {materials.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="prop-thickness">Thickness ({label('Length')})</Label>
+            <Input
+              id="prop-thickness"
+              type="number"
+              value={node.thickness != null ? display(node.thickness, 'Length') : ''}
+              onChange={(e) => handleUnitChange('thickness', 'Length', e.target.value)}
+              className="bg-white/5 h-7 text-xs"
+              min="0"
+              step="0.0001"
+            />
+            <FieldError field="thickness" />
+          </div>
+        </div>
+      </div>
+
       <div className="pt-2 border-t border-white/10">
         <p className="text-xs font-medium text-muted-foreground mb-3">Surface Properties</p>
         <div className="grid grid-cols-2 gap-3">
@@ -193,12 +336,16 @@ export function NodeProperties({ node }: NodePropertiesProps) {
             <FieldError field="mass" />
           </div>
           <div className="space-y-1">
-            <Label className="text-xs" htmlFor="prop-abs">α (absorptivity)</Label>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs" htmlFor="prop-abs">α (absorptivity)</Label>
+              <DerivedToggle field="absorptivity" />
+            </div>
             <Input
               id="prop-abs"
               type="number"
               value={node.absorptivity ?? ''}
               onChange={(e) => { const v = parseFloat(e.target.value); handleChange('absorptivity', isNaN(v) ? null : v); }}
+              disabled={sources.absorptivity !== undefined}
               className="bg-white/5 h-7 text-xs"
               min="0"
               max="1"
@@ -206,20 +353,75 @@ export function NodeProperties({ node }: NodePropertiesProps) {
             />
           </div>
           <div className="space-y-1">
-            <Label className="text-xs" htmlFor="prop-em">ε (emissivity)</Label>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs" htmlFor="prop-em">ε (emissivity)</Label>
+              <DerivedToggle field="emissivity" />
+            </div>
             <Input
               id="prop-em"
               type="number"
               value={node.emissivity ?? ''}
               onChange={(e) => { const v = parseFloat(e.target.value); handleChange('emissivity', isNaN(v) ? null : v); }}
+              disabled={sources.emissivity !== undefined}
               className="bg-white/5 h-7 text-xs"
               min="0"
               max="1"
               step="0.01"
             />
           </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="prop-spec" title="Share of the reflected IR that is specular; the rest is diffuse">
+              Specular fraction
+            </Label>
+            <Input
+              id="prop-spec"
+              type="number"
+              value={node.specularity ?? 0}
+              onChange={(e) => { const v = parseFloat(e.target.value); handleChange('specularity', isNaN(v) ? 0 : v); }}
+              className="bg-white/5 h-7 text-xs"
+              min="0"
+              max="1"
+              step="0.05"
+            />
+          </div>
         </div>
+        {node.nodeType !== 'boundary' && (
+          <div className="mt-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs" htmlFor="prop-space">Radiates to space</Label>
+              <Switch
+                id="prop-space"
+                checked={node.radiatesToSpace ?? false}
+                onCheckedChange={(checked) => handleChange('radiatesToSpace', checked)}
+              />
+            </div>
+            {node.radiatesToSpace && (
+              <div className="space-y-1">
+                <Label className="text-xs" htmlFor="prop-space-vf">View factor to space</Label>
+                <Input
+                  id="prop-space-vf"
+                  type="number"
+                  value={node.spaceViewFactor ?? ''}
+                  placeholder="1"
+                  onChange={(e) => { const v = parseFloat(e.target.value); handleChange('spaceViewFactor', isNaN(v) ? null : v); }}
+                  className="bg-white/5 h-7 text-xs"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                />
+              </div>
+            )}
+          </div>
+        )}
       </div>
+
+      <MliBlanketPanel key={node.id} node={node} />
+
+      <FieldExpressions
+        expressions={node.expressions}
+        fields={NODE_EXPRESSION_FIELDS}
+        onChange={(expressions) => updateNode(node.id, { expressions })}
+      />
     </div>
   );
 }
@@ -5,16 +5,26 @@ import { useUnitsStore } from '@/lib/stores/units-store';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { NodeProperties } from './node-properties';
 import { ConductorProperties } from './conductor-properties';
+import { GroupProperties } from './group-properties';
 import { ModelOverview } from './model-overview';
 import { SurfaceProperties } from './surface-properties';
 import { useState } from 'react';
 import { WhatIfPanel } from '@/components/results/what-if-panel';
 import { FailureModePanel } from '@/components/results/failure-mode-panel';
 import { RiskMatrix } from '@/components/results/risk-matrix';
+import { HeaterSummary } from '@/components/results/heater-summary';
+import { GroupSummary } from '@/components/results/group-summary';
+import { RunInputsStatus } from '@/components/results/run-inputs-status';
 import { DesignSpaceSetup } from '@/components/results/design-space-setup';
 import { DesignSpaceChart } from '@/components/results/design-space-chart';
 import { DesignSpaceResultsTable } from '@/components/results/design-space-results-table';
-import type { ExplorationSampleResult, ExplorationParameter } from '@/lib/solver/design-space';
+import { DesignParetoChart } from '@/components/results/design-pareto-chart';
+import { SurrogateExplorer } from '@/components/results/surrogate-explorer';
+import type {
+  ExplorationSampleResult,
+  ExplorationParameter,
+  ExplorationObjective,
+} from '@/lib/solver/design-space';
 
 interface PropertiesPanelProps {
   readOnly?: boolean;
@@ -26,12 +36,15 @@ export function PropertiesPanel({ readOnly }: PropertiesPanelProps = {}) {
   const [explorationId, setExplorationId] = useState<string | null>(null);
   const [explorationResults, setExplorationResults] = useState<ExplorationSampleResult[] | null>(null);
   const [explorationParams, setExplorationParams] = useState<ExplorationParameter[]>([]);
+  const [explorationObjectives, setExplorationObjectives] = useState<ExplorationObjective[]>([]);
   const selectedNodeId = useEditorStore((s) => s.selectedNodeId);
   const selectedConductorId = useEditorStore((s) => s.selectedConductorId);
+  const selectedGroupId = useEditorStore((s) => s.selectedGroupId);
   const selectedCadFaceIds = useEditorStore((s) => s.selectedCadFaceIds);
   const selectedCadFaceId = useEditorStore((s) => s.selectedCadFaceId);
   const nodes = useEditorStore((s) => s.nodes);
   const conductors = useEditorStore((s) => s.conductors);
+  const groups = useEditorStore((s) => s.groups);
   const showResultsOverlay = useEditorStore((s) => s.showResultsOverlay);
   const simulationResults = useEditorStore((s) => s.simulationResults);
   const projectId = useEditorStore((s) => s.projectId);
@@ -41,15 +54,18 @@ export function PropertiesPanel({ readOnly }: PropertiesPanelProps = {}) {
   const selectedConductor = selectedConductorId
     ? conductors.find((c) => c.id === selectedConductorId)
     : null;
+  const selectedGroup = selectedGroupId ? groups.find((g) => g.id === selectedGroupId) : null;
   const hasSurfaceSelection = selectedCadFaceIds.length > 0 || selectedCadFaceId !== null;
 
   const panelTitle = selectedNode
     ? 'Node Properties'
     : selectedConductor
       ? 'Conductor Properties'
-      : hasSurfaceSelection
-        ? 'Surface Properties'
-        : 'Model Overview';
+      : selectedGroup
+        ? 'Group Properties'
+        : hasSurfaceSelection
+          ? 'Surface Properties'
+          : 'Model Overview';
 
   return (
     <div className="h-full flex flex-col border-l border-white/10 bg-space-surface/50">
@@ -71,6 +87,8 @@ export function PropertiesPanel({ readOnly }: PropertiesPanelProps = {}) {
             <NodeProperties node={selectedNode} />
           ) : selectedConductor ? (
             <ConductorProperties conductor={selectedConductor} />
+          ) : selectedGroup ? (
+            <GroupProperties group={selectedGroup} />
           ) : hasSurfaceSelection ? (
             <SurfaceProperties />
           ) : (
@@ -78,6 +96,39 @@ export function PropertiesPanel({ readOnly }: PropertiesPanelProps = {}) {
           )}
           </fieldset>
 
+          {/* Model version behind the results, and whether it has changed since */}
+          {!readOnly && showResultsOverlay && simulationResults && projectId && modelId && (
+            <div className="mt-4 pt-4 border-t border-white/10">
+              <RunInputsStatus
+                projectId={projectId}
+                modelId={modelId}
+                runId={simulationResults.runId}
+                rerunConfig={
+                  simulationResults.run?.simulationType
+                    ? { simulationType: simulationResults.run.simulationType, config: simulationResults.run.config }
+                    : null
+                }
+              />
+            </div>
+          )}
+
+          {/* Per-group temperatures and boundary heat flow */}
+          {showResultsOverlay && selectedGroup && simulationResults?.results?.length ? (
+            <div className="mt-4 pt-4 border-t border-white/10">
+              <GroupSummary groupId={selectedGroup.id} results={simulationResults.results} />
+            </div>
+          ) : null}
+
+          {/* Thermostat heater duty cycles and switching */}
+          {showResultsOverlay && simulationResults?.run?.heaterResults?.length ? (
+            <div className="mt-4 pt-4 border-t border-white/10">
+              <HeaterSummary
+                heaterResults={simulationResults.run.heaterResults}
+                timeEnd={simulationResults.run.config.timeEnd}
+              />
+            </div>
+          ) : null}
+
           {/* What If panel — visible when results overlay is active (not in readOnly/demo mode) */}
           {!readOnly && showResultsOverlay && simulationResults && projectId && modelId && (
             <div className="mt-4 pt-4 border-t border-white/10">
@@ -116,16 +167,38 @@ export function PropertiesPanel({ readOnly }: PropertiesPanelProps = {}) {
                 projectId={projectId}
                 modelId={modelId}
                 onExplorationComplete={async (explorationId) => {
+                  setExplorationId(explorationId);
                   const res = await fetch(`/api/projects/${projectId}/models/${modelId}/design-explorations/${explorationId}/results`);
                   const data = await res.json();
                   setExplorationResults(data.data.results);
                   setExplorationParams(data.data.exploration.config.parameters);
+                  setExplorationObjectives(
+                    data.data.exploration.config.mode === 'optimization'
+                      ? data.data.exploration.config.objectives ?? []
+                      : [],
+                  );
                 }}
               />
             </div>
           )}
           {explorationResults && explorationParams.length > 0 && (
             <div className="mt-4 pt-4 border-t border-white/10 space-y-4">
+              {explorationObjectives.length > 0 && (
+                <DesignParetoChart
+                  results={explorationResults}
+                  parameters={explorationParams}
+                  objectives={explorationObjectives}
+                />
+              )}
+              {explorationObjectives.length === 0 && explorationId && projectId && modelId && (
+                <SurrogateExplorer
+                  key={explorationId}
+                  projectId={projectId}
+                  modelId={modelId}
+                  explorationId={explorationId}
+                  parameters={explorationParams}
+                />
+              )}
               <DesignSpaceChart results={explorationResults} parameters={explorationParams} />
               <DesignSpaceResultsTable results={explorationResults} parameters={explorationParams} />
             </div>
@@ -34,6 +34,8 @@ import {
   X,
 } from 'lucide-react';
 import { useEditorStore } from '@/lib/stores/editor-store';
+import type { AttitudeMode, AttitudeParams } from '@/lib/solver/types';
+import { AttitudeConfig } from './attitude-config';
 import type { ValidationResult, ValidationError } from '@/app/api/projects/[id]/models/[mid]/validate/route';
 
 type OrbitType = 'leo' | 'meo' | 'geo' | 'heo';
@@ -101,12 +103,22 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
   const [albedo, setAlbedo] = useState(0.30);
   const [earthIR, setEarthIR] = useState(226);
 
+  // Coating optics: beginning or end of life, from the material library
+  const [opticalLife, setOpticalLife] = useState<'bol' | 'eol'>('bol');
+  const [missionYears, setMissionYears] = useState<number | ''>('');
+
   // Orbit type
   const [orbitType, setOrbitType] = useState<OrbitType>((orbitalConfig?.orbitType as OrbitType) ?? 'leo');
   const [orbitAltitude, setOrbitAltitude] = useState(orbitalConfig?.altitude ?? 400);
   const [orbitInclination, setOrbitInclination] = useState(orbitalConfig?.inclination ?? 51.6);
   const [apogeeAltitude, setApogeeAltitude] = useState(orbitalConfig?.apogeeAltitude ?? 40000);
   const [perigeeAltitude, setPerigeeAltitude] = useState(orbitalConfig?.perigeeAltitude ?? 1000);
+  const [argumentOfPerigee, setArgumentOfPerigee] = useState(orbitalConfig?.argumentOfPerigee ?? 270);
+  const [trueAnomaly, setTrueAnomaly] = useState(orbitalConfig?.trueAnomaly ?? 0);
+
+  // Attitude
+  const [attitude, setAttitude] = useState<AttitudeMode>(orbitalConfig?.attitude ?? 'nadir_pointing');
+  const [attitudeParams, setAttitudeParams] = useState<AttitudeParams>(orbitalConfig?.attitudeParams ?? {});
 
   // Solver method
   const [solverMethod, setSolverMethod] = useState<'rk4' | 'implicit_euler'>('rk4');
@@ -238,10 +250,14 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
       inclination: orbitType === 'geo' ? 0 : orbitInclination,
       raan: 0,
       epoch: new Date().toISOString(),
+      attitude,
+      attitudeParams,
     };
     if (orbitType === 'heo') {
       orbitalPayload.apogeeAltitude = apogeeAltitude;
       orbitalPayload.perigeeAltitude = perigeeAltitude;
+      orbitalPayload.argumentOfPerigee = argumentOfPerigee;
+      orbitalPayload.trueAnomaly = trueAnomaly;
     }
 
     try {
@@ -254,10 +270,16 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
       // Continue with simulation even if orbital config save fails
     }
 
+    const environment = { name: selectedPreset, solarFlux, albedo, earthIR };
+    const optics = opticalLife === 'eol'
+      ? { opticalLife, ...(missionYears !== '' ? { missionYears } : {}) }
+      : {};
+
     const config = simType === 'transient'
       ? {
           simulationType: 'transient' as const,
           solverMethod,
+          environment,
           config: {
             timeStart: 0,
             timeEnd: duration,
@@ -266,16 +288,19 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
             tolerance: transientTolerance,
             minStep,
             maxStep,
+            ...optics,
           },
         }
       : {
           simulationType: 'steady_state' as const,
+          environment,
           config: {
             timeStart: 0,
             timeEnd: 0,
             timeStep: 1,
             maxIterations,
             tolerance: ssTolerance,
+            ...optics,
           },
         };
 
@@ -298,39 +323,9 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
         return;
       }
 
-      // If completed synchronously (which is how the current backend works)
-      if (data.run?.status === 'completed') {
-        setIsRunning(false);
-        setRunComplete(true);
-        setRunProgress(100);
-        setCurrentRunId(data.run.id);
-
-        // Fetch full results and load into store
-        const resultsRes = await fetch(
-          `/api/projects/${projectId}/models/${modelId}/results/${data.run.id}`,
-        );
-        if (resultsRes.ok) {
-          const resultsData = await resultsRes.json();
-          useEditorStore.setState({
-            simulationStatus: 'completed',
-            simulationResults: resultsData,
-            showResultsOverlay: true,
-            activeView: 'results',
-          });
-        } else {
-          // Still mark as complete even if results fetch fails
-          useEditorStore.setState({
-            simulationStatus: 'completed',
-            simulationResults: data,
-            showResultsOverlay: true,
-            activeView: 'results',
-          });
-        }
-      } else if (data.run?.id) {
-        // Async — poll for progress
-        setCurrentRunId(data.run.id);
-        startPolling(data.run.id);
-      }
+      // Runs are queued for a background worker — poll for progress
+      setCurrentRunId(data.run.id);
+      startPolling(data.run.id);
     } catch (err) {
       setIsRunning(false);
       setRunError(err instanceof Error ? err.message : 'Network error');
@@ -339,7 +334,8 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
   }, [
     projectId, modelId, validation, simType, solverMethod, duration, timeStep, transientTolerance,
     minStep, maxStep, maxIterations, ssTolerance, startPolling, orbitType, orbitAltitude,
-    orbitInclination, apogeeAltitude, perigeeAltitude,
+    orbitInclination, apogeeAltitude, perigeeAltitude, argumentOfPerigee, trueAnomaly, attitude,
+    attitudeParams, selectedPreset, solarFlux, albedo, earthIR, opticalLife, missionYears,
   ]);
 
   // Cancel simulation
@@ -575,6 +571,7 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
                         setApogeeAltitude(40000);
                         setPerigeeAltitude(1000);
                         setOrbitInclination(63.4);
+                        setArgumentOfPerigee(270);
                       }}
                     >
                       Molniya Preset
@@ -586,6 +583,7 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
                         setApogeeAltitude(47100);
                         setPerigeeAltitude(24000);
                         setOrbitInclination(63.4);
+                        setArgumentOfPerigee(270);
                       }}
                     >
                       Tundra Preset
@@ -612,6 +610,28 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
                         min={160}
                       />
                     </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="argPerigee" className="text-xs">Argument of Perigee (°)</Label>
+                      <Input
+                        id="argPerigee"
+                        type="number"
+                        value={argumentOfPerigee}
+                        onChange={(e) => setArgumentOfPerigee(Number(e.target.value))}
+                        min={0}
+                        max={360}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="trueAnomaly" className="text-xs">True Anomaly at Epoch (°)</Label>
+                      <Input
+                        id="trueAnomaly"
+                        type="number"
+                        value={trueAnomaly}
+                        onChange={(e) => setTrueAnomaly(Number(e.target.value))}
+                        min={0}
+                        max={360}
+                      />
+                    </div>
                   </div>
                 </div>
               )}
@@ -649,6 +669,15 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
               )}
             </div>
 
+            <AttitudeConfig
+              attitude={attitude}
+              params={attitudeParams}
+              onChange={(mode, params) => {
+                setAttitude(mode);
+                setAttitudeParams(params);
+              }}
+            />
+
             <div className="space-y-3">
               <Label className="text-xs font-medium">Environment Preset</Label>
               <div className="grid grid-cols-3 gap-2">
@@ -721,6 +750,45 @@ export function SimulationConfigDialog({ open, onOpenChange }: SimulationConfigD
               <br />
               <strong>Nominal:</strong> Typical values for standard mission analysis.
             </div>
+
+            <div className="space-y-3">
+              <Label className="text-xs font-medium">Coating Optics</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="opticalLife" className="text-xs">Life Stage</Label>
+                  <Select value={opticalLife} onValueChange={(v) => setOpticalLife(v as 'bol' | 'eol')}>
+                    <SelectTrigger id="opticalLife">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bol">Beginning of Life (BOL)</SelectItem>
+                      <SelectItem value="eol">End of Life (EOL)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {opticalLife === 'eol' && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="missionYears" className="text-xs">Mission Duration (years)</Label>
+                    <Input
+                      id="missionYears"
+                      type="number"
+                      value={missionYears}
+                      onChange={(e) => setMissionYears(e.target.value === '' ? '' : Number(e.target.value))}
+                      placeholder="Library EOL values"
+                      min={0}
+                      max={100}
+                    />
+                  </div>
+                )}
+              </div>
+              {opticalLife === 'eol' && (
+                <p className="text-xs text-muted-foreground">
+                  Node α/ε come from each coating&apos;s EOL values in the material library, or its
+                  per-year degradation over the mission duration when given. Coatings without
+                  degradation data keep their BOL values.
+                </p>
+              )}
+            </div>
           </TabsContent>
 
           {/* Validation Tab */}
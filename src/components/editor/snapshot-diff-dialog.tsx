@@ -0,0 +1,130 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import type { EntityDiff, FieldChange, SnapshotDiff } from '@/lib/snapshots/diff';
+
+export interface SnapshotDiffResponse {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  changeCount: number;
+  diff: SnapshotDiff;
+}
+
+interface SnapshotDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** null while loading */
+  result: SnapshotDiffResponse | null;
+}
+
+const SECTIONS: Array<{ key: keyof Omit<SnapshotDiff, 'orbitalConfig'>; label: string }> = [
+  { key: 'nodes', label: 'Nodes' },
+  { key: 'conductors', label: 'Conductors' },
+  { key: 'heatLoads', label: 'Heat Loads' },
+  { key: 'groups', label: 'Groups' },
+  { key: 'blankets', label: 'MLI Blankets' },
+  { key: 'materials', label: 'Material Revisions' },
+  { key: 'symbols', label: 'Symbols' },
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toPrecision(4);
+  if (typeof value === 'string') return value;
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+}
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="mt-1 space-y-0.5 pl-3">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2 text-[11px]">
+          <span className="font-mono text-muted-foreground truncate">{change.field}</span>
+          <span className="truncate">
+            <span className="text-red-400/80 line-through">{formatValue(change.before)}</span>
+            {' → '}
+            <span className="text-green-400">{formatValue(change.after)}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EntitySection({ label, diff }: { label: string; diff: EntityDiff }) {
+  if (diff.added.length + diff.removed.length + diff.changed.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium">{label}</p>
+      {diff.added.map((e) => (
+        <div key={`a-${e.id}`} className="text-xs">
+          <Badge variant="outline" className="text-[10px] px-1 py-0 mr-2 text-green-400 border-green-400/30">added</Badge>
+          {e.name}
+        </div>
+      ))}
+      {diff.removed.map((e) => (
+        <div key={`r-${e.id}`} className="text-xs">
+          <Badge variant="outline" className="text-[10px] px-1 py-0 mr-2 text-red-400 border-red-400/30">removed</Badge>
+          {e.name}
+        </div>
+      ))}
+      {diff.changed.map((e) => (
+        <div key={`c-${e.id}`} className="text-xs">
+          <Badge variant="outline" className="text-[10px] px-1 py-0 mr-2 text-yellow-400 border-yellow-400/30">changed</Badge>
+          {e.name}
+          <FieldChanges changes={e.changes} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SnapshotDiffDialog({ open, onOpenChange, result }: SnapshotDiffDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>
+            {result ? `Changes from v${result.from.version} to v${result.to.version}` : 'Comparing versions'}
+          </DialogTitle>
+          <DialogDescription>
+            {result
+              ? `${result.changeCount} change${result.changeCount === 1 ? '' : 's'}`
+              : 'Loading…'}
+          </DialogDescription>
+        </DialogHeader>
+        {!result ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : result.changeCount === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-8">The two versions are identical.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-4">
+              {SECTIONS.map(({ key, label }) => (
+                <EntitySection key={key} label={label} diff={result.diff[key]} />
+              ))}
+              {result.diff.orbitalConfig.length > 0 && (
+                <div className="space-y-1.5">
+                  <p className="text-xs font-medium">Orbital Config</p>
+                  <FieldChanges changes={result.diff.orbitalConfig} />
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Variable } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useEditorStore, type ModelSymbol } from '@/lib/stores/editor-store';
+import { RESERVED_NAMES, SYMBOL_NAME_PATTERN } from '@/lib/solver/expressions';
+
+interface SymbolDraft {
+  name: string;
+  value: string;
+  description: string;
+}
+
+function toDrafts(symbols: ModelSymbol[]): SymbolDraft[] {
+  return symbols.map((s) => ({
+    name: s.name,
+    value: String(s.value),
+    description: s.description ?? '',
+  }));
+}
+
+/** Problem with a draft row, or null when it can be saved. */
+function draftError(draft: SymbolDraft, drafts: SymbolDraft[]): string | null {
+  if (!SYMBOL_NAME_PATTERN.test(draft.name)) return 'Use letters, digits and _ (not starting with a digit)';
+  if (RESERVED_NAMES.has(draft.name)) return `"${draft.name}" is a built-in name`;
+  if (drafts.filter((d) => d.name === draft.name).length > 1) return 'Duplicate name';
+  if (!Number.isFinite(parseFloat(draft.value))) return 'Value must be a number';
+  return null;
+}
+
+/**
+ * Model symbol table. Node and conductor fields can hold expressions over
+ * these names; edits are saved when every row is valid.
+ */
+export function SymbolTable() {
+  const symbols = useEditorStore((s) => s.symbols);
+  const setSymbols = useEditorStore((s) => s.setSymbols);
+  const [drafts, setDrafts] = useState<SymbolDraft[]>(() => toDrafts(symbols));
+
+  useEffect(() => {
+    setDrafts(toDrafts(symbols));
+  }, [symbols]);
+
+  const commit = (next: SymbolDraft[]) => {
+    if (next.some((d) => draftError(d, next))) return;
+    setSymbols(
+      next.map((d) => ({
+        name: d.name,
+        value: parseFloat(d.value),
+        ...(d.description ? { description: d.description } : {}),
+      })),
+    );
+  };
+
+  const updateDraft = (index: number, data: Partial<SymbolDraft>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...data } : d)));
+
+  const addSymbol = () => {
+    let n = drafts.length + 1;
+    while (drafts.some((d) => d.name === `p${n}`)) n++;
+    const next = [...drafts, { name: `p${n}`, value: '0', description: '' }];
+    setDrafts(next);
+    commit(next);
+  };
+
+  const removeSymbol = (index: number) => {
+    const next = drafts.filter((_, i) => i !== index);
+    setDrafts(next);
+    commit(next);
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <div className="flex items-center gap-2 mb-3">
+        <Variable className="h-4 w-4 text-accent-cyan" />
+        <h4 className="text-sm font-medium">Symbols</h4>
+      </div>
+      <div className="space-y-2">
+        {drafts.map((draft, i) => {
+          const error = draftError(draft, drafts);
+          return (
+            <div key={i} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft(i, { name: e.target.value })}
+                  onBlur={() => commit(drafts)}
+                  className="bg-white/5 h-7 text-xs font-mono flex-1"
+                  aria-label="Symbol name"
+                />
+                <Input
+                  type="number"
+                  value={draft.value}
+                  onChange={(e) => updateDraft(i, { value: e.target.value })}
+                  onBlur={() => commit(drafts)}
+                  className="bg-white/5 h-7 text-xs font-mono w-24"
+                  aria-label="Symbol value"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-white/40 hover:text-red-400"
+                  onClick={() => removeSymbol(i)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              <Input
+                value={draft.description}
+                placeholder="Description"
+                onChange={(e) => updateDraft(i, { description: e.target.value })}
+                onBlur={() => commit(drafts)}
+                className="bg-white/5 h-6 text-[11px]"
+              />
+              {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+          );
+        })}
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full text-xs border-dashed border-white/20 text-white/50 hover:text-white"
+          onClick={addSymbol}
+        >
+          <Plus className="h-3 w-3 mr-1" /> Add Symbol
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Values are SI. Changing a symbol updates every field whose expression uses it.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -13,11 +13,29 @@ import {
   ContextMenuContent,
   ContextMenuItem,
   ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuCheckboxItem,
   ContextMenuTrigger,
 } from '@/components/ui/context-menu';
-import { ChevronRight, Circle, Diamond, Square, GitBranch, Flame, Trash2, Copy } from 'lucide-react';
+import {
+  ChevronRight,
+  Circle,
+  Diamond,
+  Square,
+  GitBranch,
+  Flame,
+  Trash2,
+  Copy,
+  Folder,
+  FolderPlus,
+  FolderInput,
+} from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { groupMemberNodeIds, groupPath } from '@/lib/node-groups';
+import type { NodeGroup, ThermalNode } from '@/lib/stores/editor-store';
 
 const nodeTypeIcons = {
   diffusion: Circle,
@@ -35,20 +53,186 @@ interface TreePanelProps {
   readOnly?: boolean;
 }
 
+function NodeItem({ node, readOnly }: { node: ThermalNode; readOnly?: boolean }) {
+  const { groups, selectedNodeId, selectNode, deleteNode, moveNodeToGroup } = useEditorStore();
+  const Icon = nodeTypeIcons[node.nodeType];
+  const isSelected = selectedNodeId === node.id;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger>
+        <button
+          className={cn(
+            'flex items-center gap-2 w-full px-2 py-1.5 rounded text-sm transition-all duration-150 cursor-pointer',
+            isSelected
+              ? 'bg-accent-blue/15 text-accent-blue'
+              : 'text-muted-foreground hover:text-foreground hover:bg-white/5',
+          )}
+          onClick={() => selectNode(node.id)}
+        >
+          <Icon className={cn('h-3.5 w-3.5', nodeTypeColors[node.nodeType])} />
+          <span className="truncate">{node.name}</span>
+          <span className="ml-auto text-[10px] font-mono opacity-60">
+            {node.temperature.toFixed(0)}K
+          </span>
+        </button>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onClick={() => selectNode(node.id)}>
+          Select
+        </ContextMenuItem>
+        <ContextMenuItem disabled={readOnly}>
+          <Copy className="h-3.5 w-3.5 mr-2" />
+          Duplicate
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger disabled={readOnly}>
+            <FolderInput className="h-3.5 w-3.5 mr-2" />
+            Move to group
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuItem
+              disabled={!node.groupId}
+              onClick={() => moveNodeToGroup(node.id, null)}
+            >
+              No group
+            </ContextMenuItem>
+            {groups.length > 0 && <ContextMenuSeparator />}
+            {groups.map((group) => (
+              <ContextMenuItem
+                key={group.id}
+                disabled={node.groupId === group.id}
+                onClick={() => moveNodeToGroup(node.id, group.id)}
+              >
+                {groupPath(groups, group.id)}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          className={readOnly ? 'text-muted-foreground' : 'text-red-400'}
+          disabled={readOnly}
+          onClick={readOnly ? undefined : () => deleteNode(node.id)}
+        >
+          <Trash2 className="h-3.5 w-3.5 mr-2" />
+          Delete
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
+
+function GroupItem({ group, readOnly }: { group: NodeGroup; readOnly?: boolean }) {
+  const {
+    nodes,
+    groups,
+    selectedGroupId,
+    collapsedGroupIds,
+    selectGroup,
+    addGroup,
+    deleteGroup,
+    duplicateGroup,
+    toggleGroupCollapsed,
+  } = useEditorStore();
+  const [open, setOpen] = useState(true);
+
+  const subgroups = groups.filter((g) => g.parentId === group.id);
+  const members = nodes.filter((n) => n.groupId === group.id);
+  const memberCount = groupMemberNodeIds(groups, nodes, group.id).length;
+  const isSelected = selectedGroupId === group.id;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <ContextMenu>
+        <ContextMenuTrigger>
+          <div
+            className={cn(
+              'flex items-center gap-2 w-full px-2 py-1.5 rounded text-sm transition-all duration-150 cursor-pointer',
+              isSelected
+                ? 'bg-accent-blue/15 text-accent-blue'
+                : 'text-muted-foreground hover:text-foreground hover:bg-white/5',
+            )}
+            onClick={() => selectGroup(group.id)}
+          >
+            <CollapsibleTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <ChevronRight className={cn('h-3.5 w-3.5 transition-transform', open && 'rotate-90')} />
+            </CollapsibleTrigger>
+            <Folder className="h-3.5 w-3.5 text-yellow-400" />
+            <span className="truncate">{group.name}</span>
+            <span className="ml-auto text-[10px] font-mono opacity-60">{memberCount}</span>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem onClick={() => selectGroup(group.id)}>
+            Select
+          </ContextMenuItem>
+          <ContextMenuCheckboxItem
+            checked={collapsedGroupIds.includes(group.id)}
+            onCheckedChange={() => toggleGroupCollapsed(group.id)}
+          >
+            Collapse in network
+          </ContextMenuCheckboxItem>
+          <ContextMenuItem
+            disabled={readOnly}
+            onClick={readOnly ? undefined : () => addGroup('New group', group.id)}
+          >
+            <FolderPlus className="h-3.5 w-3.5 mr-2" />
+            Add subgroup
+          </ContextMenuItem>
+          <ContextMenuItem
+            disabled={readOnly}
+            onClick={readOnly ? undefined : () => duplicateGroup(group.id)}
+          >
+            <Copy className="h-3.5 w-3.5 mr-2" />
+            Duplicate
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            className={readOnly ? 'text-muted-foreground' : 'text-red-400'}
+            disabled={readOnly}
+            onClick={readOnly ? undefined : () => deleteGroup(group.id)}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-2" />
+            Delete group
+          </ContextMenuItem>
+          <ContextMenuItem
+            className={readOnly ? 'text-muted-foreground' : 'text-red-400'}
+            disabled={readOnly || memberCount === 0}
+            onClick={readOnly ? undefined : () => deleteGroup(group.id, true)}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-2" />
+            Delete group and nodes
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+      <CollapsibleContent>
+        <div className="ml-4 space-y-0.5">
+          {subgroups.map((sub) => (
+            <GroupItem key={sub.id} group={sub} readOnly={readOnly} />
+          ))}
+          {members.map((node) => (
+            <NodeItem key={node.id} node={node} readOnly={readOnly} />
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 export function TreePanel({ readOnly }: TreePanelProps = {}) {
   const {
     nodes,
+    groups,
     conductors,
     heatLoads,
-    selectedNodeId,
     selectedConductorId,
     selectedHeatLoadId,
-    selectNode,
     selectConductor,
     selectHeatLoad,
-    deleteNode,
     deleteConductor,
     deleteHeatLoad,
+    addGroup,
   } = useEditorStore();
 
   const [nodesOpen, setNodesOpen] = useState(true);
@@ -67,53 +251,34 @@ export function TreePanel({ readOnly }: TreePanelProps = {}) {
             <CollapsibleTrigger className="flex items-center gap-2 w-full px-2 py-1.5 rounded hover:bg-white/5 transition-colors cursor-pointer">
               <ChevronRight className={cn('h-3.5 w-3.5 transition-transform', nodesOpen && 'rotate-90')} />
               <span className="text-sm font-medium">Nodes</span>
-              <span className="text-xs text-muted-foreground ml-auto">{nodes.length}</span>
+              {!readOnly && (
+                <span
+                  role="button"
+                  title="Add group"
+                  className="ml-auto rounded p-0.5 text-muted-foreground hover:text-foreground hover:bg-white/10"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    addGroup('New group');
+                    setNodesOpen(true);
+                  }}
+                >
+                  <FolderPlus className="h-3.5 w-3.5" />
+                </span>
+              )}
+              <span className={cn('text-xs text-muted-foreground', readOnly && 'ml-auto')}>{nodes.length}</span>
             </CollapsibleTrigger>
             <CollapsibleContent>
               <div className="ml-4 space-y-0.5">
-                {nodes.map((node) => {
-                  const Icon = nodeTypeIcons[node.nodeType];
-                  const isSelected = selectedNodeId === node.id;
-                  return (
-                    <ContextMenu key={node.id}>
-                      <ContextMenuTrigger>
-                        <button
-                          className={cn(
-                            'flex items-center gap-2 w-full px-2 py-1.5 rounded text-sm transition-all duration-150 cursor-pointer',
-                            isSelected
-                              ? 'bg-accent-blue/15 text-accent-blue'
-                              : 'text-muted-foreground hover:text-foreground hover:bg-white/5',
-                          )}
-                          onClick={() => selectNode(node.id)}
-                        >
-                          <Icon className={cn('h-3.5 w-3.5', nodeTypeColors[node.nodeType])} />
-                          <span className="truncate">{node.name}</span>
-                          <span className="ml-auto text-[10px] font-mono opacity-60">
-                            {node.temperature.toFixed(0)}K
-                          </span>
-                        </button>
-                      </ContextMenuTrigger>
-                      <ContextMenuContent>
-                        <ContextMenuItem onClick={() => selectNode(node.id)}>
-                          Select
-                        </ContextMenuItem>
-                        <ContextMenuItem disabled={readOnly}>
-                          <Copy className="h-3.5 w-3.5 mr-2" />
-                          Duplicate
-                        </ContextMenuItem>
-                        <ContextMenuSeparator />
-                        <ContextMenuItem
-                          className={readOnly ? 'text-muted-foreground' : 'text-red-400'}
-                          disabled={readOnly}
-                          onClick={readOnly ? undefined : () => deleteNode(node.id)}
-                        >
-                          <Trash2 className="h-3.5 w-3.5 mr-2" />
-                          Delete
-                        </ContextMenuItem>
-                      </ContextMenuContent>
-                    </ContextMenu>
-                  );
-                })}
+                {groups
+                  .filter((g) => !g.parentId)
+                  .map((group) => (
+                    <GroupItem key={group.id} group={group} readOnly={readOnly} />
+                  ))}
+                {nodes
+                  .filter((n) => !n.groupId || !groups.some((g) => g.id === n.groupId))
+                  .map((node) => (
+                    <NodeItem key={node.id} node={node} readOnly={readOnly} />
+                  ))}
                 {nodes.length === 0 && (
                   <p className="text-xs text-muted-foreground px-2 py-2">No nodes yet</p>
                 )}
@@ -1,18 +1,31 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
 import {
   X,
   RotateCcw,
   Clock,
   Loader2,
+  GitCompare,
+  GitBranch,
 } from 'lucide-react';
 import { useEditorStore } from '@/lib/stores/editor-store';
 import { cn } from '@/lib/utils';
+import { SnapshotDiffDialog, type SnapshotDiffResponse } from './snapshot-diff-dialog';
 
 interface Snapshot {
   id: string;
@@ -29,10 +42,19 @@ export function VersionHistory({ onClose }: VersionHistoryProps) {
   const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
   const [loading, setLoading] = useState(true);
   const [restoring, setRestoring] = useState<string | null>(null);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [diff, setDiff] = useState<SnapshotDiffResponse | null>(null);
+  const [branchFrom, setBranchFrom] = useState<Snapshot | null>(null);
+  const [branchName, setBranchName] = useState('');
+  const [branching, setBranching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
+  const router = useRouter();
   const projectId = useEditorStore((s) => s.projectId);
   const modelId = useEditorStore((s) => s.modelId);
+  const modelName = useEditorStore((s) => s.modelName);
   const createSnapshot = useEditorStore((s) => s.createSnapshot);
+  const loadModel = useEditorStore((s) => s.loadModel);
 
   const fetchSnapshots = useCallback(async () => {
     if (!projectId || !modelId) return;
@@ -58,41 +80,82 @@ export function VersionHistory({ onClose }: VersionHistoryProps) {
   const handleRestore = async (snapshotId: string) => {
     if (!projectId || !modelId) return;
     setRestoring(snapshotId);
+    setError(null);
 
     try {
-      // 1. Create safety snapshot of current state
+      // 1. Keep the editor's current state; the server snapshots what it has stored
       await createSnapshot('Safety snapshot before restore');
 
-      // 2. Fetch the full snapshot data
+      // 2. Restore on the server, which rewrites the model's nodes, conductors and loads
       const res = await fetch(
-        `/api/projects/${projectId}/models/${modelId}/snapshots/${snapshotId}`,
+        `/api/projects/${projectId}/models/${modelId}/snapshots/${snapshotId}/restore`,
+        { method: 'POST' },
       );
-      if (!res.ok) throw new Error('Failed to fetch snapshot');
-      const snapshot = await res.json();
-
-      // 3. Load snapshot data into the editor store
-      const store = useEditorStore.getState();
-      const data = snapshot.snapshot;
-      if (data) {
-        useEditorStore.setState({
-          nodes: data.nodes || [],
-          conductors: data.conductors || [],
-          heatLoads: data.heatLoads || [],
-          isDirty: true,
-        });
-        store.pushHistory(`Restored version ${snapshot.version}`);
-        store._scheduleAutoSave();
-      }
+      if (!res.ok) throw new Error('Failed to restore snapshot');
+
+      // 3. Reload the editor from the restored model
+      await loadModel(projectId, modelId);
 
       // 4. Refresh snapshots list
       await fetchSnapshots();
     } catch (err) {
       console.error('Failed to restore snapshot:', err);
+      setError('Restore failed');
     } finally {
       setRestoring(null);
     }
   };
 
+  /** Changes made between `previous` and `snap` */
+  const handleCompare = async (previous: Snapshot, snap: Snapshot) => {
+    if (!projectId || !modelId) return;
+    setDiff(null);
+    setDiffOpen(true);
+
+    try {
+      const res = await fetch(
+        `/api/projects/${projectId}/models/${modelId}/snapshots/diff?from=${previous.id}&to=${snap.id}`,
+      );
+      if (!res.ok) throw new Error('Failed to compare snapshots');
+      setDiff(await res.json());
+    } catch (err) {
+      console.error('Failed to compare snapshots:', err);
+      setDiffOpen(false);
+      setError('Compare failed');
+    }
+  };
+
+  const openBranch = (snap: Snapshot) => {
+    setBranchFrom(snap);
+    setBranchName(`${modelName} (branch of v${snap.version})`);
+  };
+
+  const handleBranch = async () => {
+    if (!projectId || !modelId || !branchFrom) return;
+    setBranching(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        `/api/projects/${projectId}/models/${modelId}/snapshots/${branchFrom.id}/branch`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: branchName.trim() || undefined }),
+        },
+      );
+      if (!res.ok) throw new Error('Failed to branch snapshot');
+      const { model } = await res.json();
+      setBranchFrom(null);
+      router.push(`/dashboard/projects/${projectId}/models/${model.id}`);
+    } catch (err) {
+      console.error('Failed to branch snapshot:', err);
+      setError('Branch failed');
+    } finally {
+      setBranching(false);
+    }
+  };
+
   const formatTime = (dateStr: string) => {
     const date = new Date(dateStr);
     const now = new Date();
@@ -111,7 +174,8 @@ export function VersionHistory({ onClose }: VersionHistoryProps) {
   const descriptionBadgeColor = (desc: string) => {
     if (desc.includes('Pre-simulation')) return 'text-orange-400 border-orange-400/30';
     if (desc.includes('Manual')) return 'text-cyan-400 border-cyan-400/30';
-    if (desc.includes('Safety')) return 'text-yellow-400 border-yellow-400/30';
+    if (desc.includes('Safety') || desc.includes('Before restoring')) return 'text-yellow-400 border-yellow-400/30';
+    if (desc.includes('Restored') || desc.includes('Branched')) return 'text-green-400 border-green-400/30';
     if (desc.includes('Periodic')) return 'text-purple-400 border-purple-400/30';
     return 'text-muted-foreground border-white/10';
   };
@@ -134,6 +198,10 @@ export function VersionHistory({ onClose }: VersionHistoryProps) {
         </Button>
       </div>
 
+      {error && (
+        <p className="px-4 py-2 text-xs text-red-400 border-b border-white/10">{error}</p>
+      )}
+
       {/* Snapshot list */}
       <ScrollArea className="flex-1">
         <div className="p-3 space-y-1.5">
@@ -146,7 +214,7 @@ export function VersionHistory({ onClose }: VersionHistoryProps) {
               No snapshots yet. Changes are saved automatically.
             </p>
           ) : (
-            snapshots.map((snap) => (
+            snapshots.map((snap, i) => (
               <div
                 key={snap.id}
                 className="group rounded-lg border border-white/5 bg-white/[0.02] p-3 hover:border-white/10 transition-colors"
@@ -171,25 +239,76 @@ export function VersionHistory({ onClose }: VersionHistoryProps) {
                       {snap.description}
                     </p>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
-                    onClick={() => handleRestore(snap.id)}
-                    disabled={restoring !== null}
-                  >
-                    {restoring === snap.id ? (
-                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                    ) : (
-                      <RotateCcw className="h-3.5 w-3.5" />
+                  <div className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {i + 1 < snapshots.length && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title={`Compare with v${snapshots[i + 1].version}`}
+                        onClick={() => handleCompare(snapshots[i + 1], snap)}
+                      >
+                        <GitCompare className="h-3.5 w-3.5" />
+                      </Button>
                     )}
-                  </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Branch into a new model"
+                      onClick={() => openBranch(snap)}
+                    >
+                      <GitBranch className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Restore this version"
+                      onClick={() => handleRestore(snap.id)}
+                      disabled={restoring !== null}
+                    >
+                      {restoring === snap.id ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                  </div>
                 </div>
               </div>
             ))
           )}
         </div>
       </ScrollArea>
+
+      <SnapshotDiffDialog open={diffOpen} onOpenChange={setDiffOpen} result={diff} />
+
+      <Dialog open={branchFrom !== null} onOpenChange={(open) => !open && setBranchFrom(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Branch v{branchFrom?.version}</DialogTitle>
+            <DialogDescription>
+              Creates a new model in this project from this version. The current model is left as it is.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={branchName}
+            onChange={(e) => setBranchName(e.target.value)}
+            placeholder="Model name"
+            maxLength={200}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setBranchFrom(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleBranch} disabled={branching}>
+              {branching && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+              Create branch
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </motion.div>
   );
 }
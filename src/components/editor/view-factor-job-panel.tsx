@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Radar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useEditorStore } from '@/lib/stores/editor-store';
+import { RAY_COUNTS, type RayQuality } from '@/lib/cad/monte-carlo';
+
+const POLL_INTERVAL_MS = 2000;
+
+interface JobSummary {
+  conductorsCreated: number;
+  conductorsUpdated: number;
+  nodesUpdated: number;
+  rawReciprocityError: number;
+  rawClosureError: number;
+}
+
+/**
+ * Compute every view factor between the nodes' CAD surfaces, and to space,
+ * as one background job; the model reloads with the resulting radiation
+ * conductors when it finishes.
+ */
+export function ViewFactorJobPanel() {
+  const projectId = useEditorStore((s) => s.projectId);
+  const modelId = useEditorStore((s) => s.modelId);
+  const cadAssetId = useEditorStore((s) => s.cadAssetId);
+  const surfaceNodeMappings = useEditorStore((s) => s.surfaceNodeMappings);
+  const loadModel = useEditorStore((s) => s.loadModel);
+
+  const [quality, setQuality] = useState<RayQuality>('default');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [summary, setSummary] = useState<JobSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!projectId || !modelId || !cadAssetId) return null;
+  const surfaceCount = new Set(surfaceNodeMappings.map((m) => m.nodeId)).size;
+
+  const run = async () => {
+    setIsRunning(true);
+    setProgress(0);
+    setSummary(null);
+    setError(null);
+
+    try {
+      const base = `/api/projects/${projectId}/models/${modelId}/view-factor-jobs`;
+      const res = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ raysPerSurface: RAY_COUNTS[quality] }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start view factor job');
+
+      // Rays are traced by a background worker — poll until it finishes
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        const pollRes = await fetch(`${base}/${data.job.id}`);
+        if (!pollRes.ok) continue;
+        const { job } = await pollRes.json();
+        setProgress(job.progress);
+        if (job.status === 'completed') {
+          setSummary(job.result);
+          break;
+        }
+        if (job.status === 'failed') {
+          throw new Error(job.errorMessage || 'View factor job failed');
+        }
+      }
+
+      await loadModel(projectId, modelId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="pt-4 border-t border-white/10">
+      <div className="flex items-center gap-2 mb-3">
+        <Radar className="h-4 w-4 text-accent-cyan" />
+        <h4 className="text-sm font-medium">Radiation View Factors</h4>
+      </div>
+      <div className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {surfaceCount} node surface{surfaceCount === 1 ? '' : 's'} from the CAD geometry.
+          Creates or updates a radiation conductor for every pair that exchanges heat,
+          directly or by reflection, and each node&apos;s view factor to space.
+          Simulations use the exact grey-body exchange for the current emissivities;
+          re-run after changing a surface&apos;s specular fraction.
+        </p>
+        <div className="space-y-1">
+          <Label className="text-xs">Rays per surface</Label>
+          <Select value={quality} onValueChange={(v) => setQuality(v as RayQuality)} disabled={isRunning}>
+            <SelectTrigger className="bg-white/5 h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RAY_COUNTS) as RayQuality[]).map((q) => (
+                <SelectItem key={q} value={q}>
+                  {q} ({RAY_COUNTS[q].toLocaleString()})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full"
+          disabled={isRunning || surfaceCount === 0}
+          onClick={run}
+        >
+          {isRunning ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : null}
+          Compute all view factors
+        </Button>
+        {isRunning && <Progress value={progress} className="h-1.5" />}
+        {summary && (
+          <div className="text-xs font-mono text-muted-foreground space-y-0.5">
+            <p>{summary.conductorsCreated} conductors created, {summary.conductorsUpdated} updated</p>
+            <p>{summary.nodesUpdated} nodes with view factor to space</p>
+            <p>
+              Raw error before enforcement: reciprocity {summary.rawReciprocityError.toFixed(4)},
+              closure {summary.rawClosureError.toFixed(4)}
+            </p>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1089,19 +1089,21 @@ export function Viewport3D() {
     store.setCadImportStatus('parsing');
     store.setCadImportProgress({ percent: 0, message: 'Starting…' });
 
+    let result;
     try {
-      const result = await parseStepFile(file, (progress) => {
+      result = await parseStepFile(file, (progress) => {
         store.setCadImportProgress(progress);
       });
-      store.setCadGeometry({
-        fileName: file.name,
-        faces: result.faces,
-        boundingBox: result.boundingBox,
-        totalSurfaceArea: result.totalSurfaceArea,
-      });
     } catch {
       store.setCadImportStatus('error');
+      return;
     }
+    store.setCadGeometry({
+      fileName: file.name,
+      faces: result.faces,
+      boundingBox: result.boundingBox,
+      totalSurfaceArea: result.totalSurfaceArea,
+    }, file).catch((err) => console.error('Failed to save CAD geometry:', err));
   }, []);
 
   return (
@@ -0,0 +1,176 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import {
+  paramKey,
+  type ExplorationObjective,
+  type ExplorationParameter,
+  type ExplorationSampleResult,
+  type ObjectiveType,
+} from '@/lib/solver/design-space';
+import { OBJECTIVE_LABELS } from '@/lib/solver/design-optimization';
+
+interface DesignParetoChartProps {
+  results: ExplorationSampleResult[];
+  parameters: ExplorationParameter[];
+  objectives: ExplorationObjective[];
+}
+
+function paramLabel(p: ExplorationParameter): string {
+  if (p.entityType === 'symbol') return `symbol · ${p.entityId}`;
+  return `${p.entityType} · ${p.property}`;
+}
+
+interface ParetoDatum {
+  x: number;
+  y: number;
+  sample: ExplorationSampleResult;
+}
+
+/**
+ * Objective space of an optimization: every evaluated design, with the
+ * Pareto set highlighted and listed. A single objective plots it against
+ * the generation.
+ */
+export function DesignParetoChart({ results, parameters, objectives }: DesignParetoChartProps) {
+  const types = useMemo(() => objectives.map((o) => o.type), [objectives]);
+  const [xType, setXType] = useState<ObjectiveType>(types[0]);
+  const [yType, setYType] = useState<ObjectiveType>(types[1] ?? types[0]);
+  const single = types.length === 1;
+
+  const data = useMemo(() => {
+    const pareto: ParetoDatum[] = [];
+    const feasible: ParetoDatum[] = [];
+    const infeasible: ParetoDatum[] = [];
+    for (const sample of results) {
+      const x = single ? sample.generation ?? 0 : sample.objectives?.[xType];
+      const y = sample.objectives?.[single ? types[0] : yType];
+      if (x == null || y == null) continue;
+      const datum = { x, y, sample };
+      if (sample.pareto) pareto.push(datum);
+      else if (sample.feasible) feasible.push(datum);
+      else infeasible.push(datum);
+    }
+    return { pareto, feasible, infeasible };
+  }, [results, single, types, xType, yType]);
+
+  const paretoSamples = useMemo(
+    () =>
+      results
+        .filter((r) => r.pareto)
+        .sort((a, b) => (a.objectives?.[types[0]] ?? 0) - (b.objectives?.[types[0]] ?? 0)),
+    [results, types],
+  );
+
+  const objectiveSelect = (value: ObjectiveType, onChange: (v: ObjectiveType) => void) => (
+    <Select value={value} onValueChange={(v) => onChange(v as ObjectiveType)}>
+      <SelectTrigger className="h-8 text-xs bg-white/5 border-white/10">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {types.map((t) => (
+          <SelectItem key={t} value={t}>{OBJECTIVE_LABELS[t]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium">Pareto Front</h4>
+      {!single && (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs text-white/60">X-axis</Label>
+            {objectiveSelect(xType, setXType)}
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs text-white/60">Y-axis</Label>
+            {objectiveSelect(yType, setYType)}
+          </div>
+        </div>
+      )}
+
+      <div className="h-[240px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 8, right: 8, bottom: 24, left: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              name={single ? 'Generation' : OBJECTIVE_LABELS[xType]}
+              tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.4)' }}
+              stroke="rgba(255,255,255,0.1)"
+            />
+            <YAxis
+              dataKey="y"
+              type="number"
+              name={OBJECTIVE_LABELS[single ? types[0] : yType]}
+              tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.4)' }}
+              stroke="rgba(255,255,255,0.1)"
+            />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter name="Infeasible" data={data.infeasible} fill="#ef4444" fillOpacity={0.4} />
+            <Scatter name="Feasible" data={data.feasible} fill="#64748b" fillOpacity={0.6} />
+            <Scatter name="Pareto" data={data.pareto} fill="#f97316" fillOpacity={0.9} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-white/50">
+        <span className="text-orange-400 font-medium">{paretoSamples.length}</span> Pareto-optimal of{' '}
+        <span className="font-medium">{results.length}</span> evaluated designs
+      </p>
+
+      {paretoSamples.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-white/50 border-b border-white/10">
+                <th className="text-left py-1 pr-2 font-normal">#</th>
+                {parameters.map((p) => (
+                  <th key={paramKey(p)} className="text-right py-1 px-2 font-normal">{paramLabel(p)}</th>
+                ))}
+                {types.map((t) => (
+                  <th key={t} className="text-right py-1 pl-2 font-normal">{OBJECTIVE_LABELS[t]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {paretoSamples.map((s) => (
+                <tr key={s.sampleIndex} className="border-b border-white/5 font-mono">
+                  <td className="py-1 pr-2 text-white/50">{s.sampleIndex}</td>
+                  {parameters.map((p) => (
+                    <td key={paramKey(p)} className="text-right py-1 px-2">
+                      {s.paramValues[paramKey(p)]?.toPrecision(3)}
+                    </td>
+                  ))}
+                  {types.map((t) => (
+                    <td key={t} className="text-right py-1 pl-2">{s.objectives?.[t]?.toPrecision(4)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ function paramKey(p: ExplorationParameter): string {
 }
 
 function paramLabel(p: ExplorationParameter): string {
+  if (p.entityType === 'symbol') return `symbol · ${p.entityId}`;
   return `${p.entityType} · ${p.property}`;
 }
 
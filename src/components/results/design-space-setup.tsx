@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -12,11 +13,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2, Plus, Trash2, AlertTriangle, FlaskConical } from 'lucide-react';
+import { Loader2, Plus, Trash2, AlertTriangle, FlaskConical, Target, X } from 'lucide-react';
 import { useEditorStore } from '@/lib/stores/editor-store';
+import { OBJECTIVE_LABELS } from '@/lib/solver/design-optimization';
+import type { ObjectiveType } from '@/lib/solver/design-space';
 
 interface DesignParam {
-  entityType: 'node' | 'conductor' | 'heat_load';
+  entityType: 'node' | 'conductor' | 'heat_load' | 'symbol';
   entityId: string;
   property: string;
   minValue: number;
@@ -29,6 +32,10 @@ interface DesignConstraint {
   tempMax: string;
 }
 
+const POLL_INTERVAL_MS = 1500;
+
+const OBJECTIVE_TYPES = Object.keys(OBJECTIVE_LABELS) as ObjectiveType[];
+
 interface DesignSpaceSetupProps {
   projectId: string;
   modelId: string;
@@ -43,11 +50,19 @@ export function DesignSpaceSetup({
   const [parameters, setParameters] = useState<DesignParam[]>([]);
   const [constraints, setConstraints] = useState<DesignConstraint[]>([]);
   const [numSamples, setNumSamples] = useState(20);
+  const [mode, setMode] = useState<'sampling' | 'optimization'>('sampling');
+  const [objectives, setObjectives] = useState<ObjectiveType[]>(['heater_power']);
+  const [radiatorNodeIds, setRadiatorNodeIds] = useState<string[]>([]);
+  const [populationSize, setPopulationSize] = useState(20);
+  const [generations, setGenerations] = useState(5);
   const [isRunning, setIsRunning] = useState(false);
+  const [completedSamples, setCompletedSamples] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
   const nodes = useEditorStore((s) => s.nodes);
   const conductors = useEditorStore((s) => s.conductors);
+  const heatLoads = useEditorStore((s) => s.heatLoads);
+  const symbols = useEditorStore((s) => s.symbols);
 
   const addParameter = () => {
     if (parameters.length >= 5) return;
@@ -81,6 +96,12 @@ export function DesignSpaceSetup({
     );
   };
 
+  const toggleObjective = (type: ObjectiveType, checked: boolean) => {
+    setObjectives((prev) => (checked ? [...prev, type] : prev.filter((o) => o !== type)));
+  };
+
+  const totalSamples = mode === 'optimization' ? populationSize * generations : numSamples;
+
   const handleExplore = async () => {
     setIsRunning(true);
     setError(null);
@@ -103,6 +124,16 @@ export function DesignSpaceSetup({
         })),
       numSamples,
       samplingMethod: 'lhs' as const,
+      ...(mode === 'optimization'
+        ? {
+            mode,
+            objectives: objectives.map((type) =>
+              type === 'radiator_area' ? { type, entityIds: radiatorNodeIds } : { type },
+            ),
+            populationSize,
+            generations,
+          }
+        : {}),
     };
 
     try {
@@ -120,8 +151,25 @@ export function DesignSpaceSetup({
         throw new Error(data.error || 'Failed to start exploration');
       }
 
-      const data = await res.json();
-      onExplorationComplete(data.data.explorationId);
+      const { explorationId } = await res.json();
+
+      // Samples are evaluated by a background worker — poll until it finishes
+      setCompletedSamples(0);
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        const pollRes = await fetch(
+          `/api/projects/${projectId}/models/${modelId}/design-explorations/${explorationId}/results`,
+        );
+        if (!pollRes.ok) continue;
+        const { data } = await pollRes.json();
+        setCompletedSamples(data.exploration.completedSamples);
+        if (data.exploration.status === 'completed') break;
+        if (data.exploration.status === 'failed') {
+          throw new Error(data.exploration.errorMessage || 'Exploration failed');
+        }
+      }
+
+      onExplorationComplete(explorationId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
@@ -132,6 +180,8 @@ export function DesignSpaceSetup({
   const entityOptions = (entityType: string) => {
     if (entityType === 'node') return nodes.map((n) => ({ id: n.id, name: n.name }));
     if (entityType === 'conductor') return conductors.map((c) => ({ id: c.id, name: c.name }));
+    if (entityType === 'heat_load') return heatLoads.map((h) => ({ id: h.id, name: h.name }));
+    if (entityType === 'symbol') return symbols.map((s) => ({ id: s.name, name: s.name }));
     return [];
   };
 
@@ -153,7 +203,14 @@ export function DesignSpaceSetup({
             <div className="flex items-center gap-2">
               <Select
                 value={param.entityType}
-                onValueChange={(v) => updateParameter(i, { entityType: v as DesignParam['entityType'], entityId: '' })}
+                onValueChange={(v) =>
+                  updateParameter(i, {
+                    entityType: v as DesignParam['entityType'],
+                    entityId: '',
+                    // A symbol has a single value to vary
+                    property: v === 'symbol' ? 'value' : '',
+                  })
+                }
                 disabled={isRunning}
               >
                 <SelectTrigger className="h-8 text-xs bg-white/5 border-white/10 w-[120px]">
@@ -163,11 +220,25 @@ export function DesignSpaceSetup({
                   <SelectItem value="node">Node</SelectItem>
                   <SelectItem value="conductor">Conductor</SelectItem>
                   <SelectItem value="heat_load">Heat Load</SelectItem>
+                  <SelectItem value="symbol">Symbol</SelectItem>
                 </SelectContent>
               </Select>
               <Select
                 value={param.entityId}
-                onValueChange={(v) => updateParameter(i, { entityId: v })}
+                onValueChange={(v) => {
+                  const symbol = param.entityType === 'symbol' ? symbols.find((s) => s.name === v) : undefined;
+                  // Default a symbol's range to ±50% of its current value
+                  updateParameter(
+                    i,
+                    symbol
+                      ? {
+                          entityId: v,
+                          minValue: Math.min(symbol.value * 0.5, symbol.value * 1.5),
+                          maxValue: Math.max(symbol.value * 0.5, symbol.value * 1.5),
+                        }
+                      : { entityId: v },
+                  );
+                }}
                 disabled={isRunning}
               >
                 <SelectTrigger className="h-8 text-xs bg-white/5 border-white/10 flex-1">
@@ -195,7 +266,7 @@ export function DesignSpaceSetup({
                 value={param.property}
                 onChange={(e) => updateParameter(i, { property: e.target.value })}
                 className="h-8 text-xs bg-white/5 border-white/10 flex-1"
-                disabled={isRunning}
+                disabled={isRunning || param.entityType === 'symbol'}
               />
               <Input
                 type="number"
@@ -286,28 +357,140 @@ export function DesignSpaceSetup({
         </Button>
       </div>
 
-      {/* Samples slider */}
+      {/* Mode */}
       <div className="space-y-2">
-        <div className="flex items-center justify-between">
-          <Label className="text-xs text-white/60">Samples</Label>
-          <span className="text-xs text-white/40">{numSamples}</span>
-        </div>
-        <Slider
-          min={10}
-          max={100}
-          step={1}
-          value={[numSamples]}
-          onValueChange={([v]) => setNumSamples(v)}
+        <Label className="text-xs text-white/60">Mode</Label>
+        <Select
+          value={mode}
+          onValueChange={(v) => setMode(v as typeof mode)}
           disabled={isRunning}
-        />
-        {numSamples > 50 && (
-          <p className="text-[11px] text-amber-400 flex items-center gap-1">
-            <AlertTriangle className="h-3 w-3" />
-            High sample count may take a while
-          </p>
-        )}
+        >
+          <SelectTrigger className="h-8 text-xs bg-white/5 border-white/10">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sampling">Explore (Latin hypercube)</SelectItem>
+            <SelectItem value="optimization">Optimize (NSGA-II Pareto front)</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
+      {mode === 'optimization' ? (
+        <>
+          {/* Objectives */}
+          <div className="space-y-2">
+            <Label className="text-xs text-white/60">Objectives</Label>
+            {OBJECTIVE_TYPES.map((type) => (
+              <div key={type} className="space-y-2">
+                <label className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={objectives.includes(type)}
+                    onCheckedChange={(checked) => toggleObjective(type, checked)}
+                    disabled={isRunning}
+                  />
+                  {type === 'temperature_margin' ? 'Maximize' : 'Minimize'}: {OBJECTIVE_LABELS[type]}
+                </label>
+                {type === 'radiator_area' && objectives.includes(type) && (
+                  <div className="pl-6 space-y-1">
+                    <div className="flex flex-wrap gap-1">
+                      {radiatorNodeIds.map((nodeId) => (
+                        <span
+                          key={nodeId}
+                          className="inline-flex items-center gap-1 rounded bg-white/10 px-1.5 py-0.5 text-[11px]"
+                        >
+                          {nodes.find((n) => n.id === nodeId)?.name ?? nodeId}
+                          <button
+                            type="button"
+                            onClick={() => setRadiatorNodeIds((prev) => prev.filter((id) => id !== nodeId))}
+                            disabled={isRunning}
+                          >
+                            <X className="h-3 w-3 text-white/50" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    <Select
+                      value=""
+                      onValueChange={(v) => setRadiatorNodeIds((prev) => [...prev, v])}
+                      disabled={isRunning}
+                    >
+                      <SelectTrigger className="h-8 text-xs bg-white/5 border-white/10">
+                        <SelectValue placeholder="Add radiator node" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nodes
+                          .filter((n) => !radiatorNodeIds.includes(n.id))
+                          .map((n) => (
+                            <SelectItem key={n.id} value={n.id}>{n.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            ))}
+            <p className="text-[11px] text-white/40">
+              Heater power sums the thermostat heaters&apos; regulating power; the temperature
+              margin is the smallest distance to the constraint limits.
+            </p>
+          </div>
+
+          {/* Population and generations */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-white/60">Population</Label>
+              <span className="text-xs text-white/40">{populationSize}</span>
+            </div>
+            <Slider
+              min={4}
+              max={50}
+              step={2}
+              value={[populationSize]}
+              onValueChange={([v]) => {
+                setPopulationSize(v);
+                setGenerations((g) => Math.min(g, Math.floor(500 / v)));
+              }}
+              disabled={isRunning}
+            />
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-white/60">Generations</Label>
+              <span className="text-xs text-white/40">{generations}</span>
+            </div>
+            <Slider
+              min={1}
+              max={Math.min(50, Math.floor(500 / populationSize))}
+              step={1}
+              value={[generations]}
+              onValueChange={([v]) => setGenerations(v)}
+              disabled={isRunning}
+            />
+            <p className="text-[11px] text-white/40">{totalSamples} evaluations</p>
+          </div>
+        </>
+      ) : (
+        /* Samples slider */
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-white/60">Samples</Label>
+            <span className="text-xs text-white/40">{numSamples}</span>
+          </div>
+          <Slider
+            min={10}
+            max={100}
+            step={1}
+            value={[numSamples]}
+            onValueChange={([v]) => setNumSamples(v)}
+            disabled={isRunning}
+          />
+          {numSamples > 50 && (
+            <p className="text-[11px] text-amber-400 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              High sample count may take a while
+            </p>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="flex items-center gap-2 text-sm text-red-400 bg-red-400/10 rounded-md p-2">
           <AlertTriangle className="h-4 w-4 shrink-0" />
@@ -318,18 +501,24 @@ export function DesignSpaceSetup({
       <Button
         variant="glow-orange"
         className="w-full gap-2"
-        disabled={parameters.length === 0 || isRunning}
+        disabled={
+          parameters.length === 0 ||
+          isRunning ||
+          (mode === 'optimization' &&
+            (objectives.length === 0 ||
+              (objectives.includes('radiator_area') && radiatorNodeIds.length === 0)))
+        }
         onClick={handleExplore}
       >
         {isRunning ? (
           <>
             <Loader2 className="h-4 w-4 animate-spin" />
-            Exploring…
+            {mode === 'optimization' ? 'Optimizing' : 'Exploring'}… {completedSamples}/{totalSamples}
           </>
         ) : (
           <>
-            <FlaskConical className="h-4 w-4" />
-            Explore
+            {mode === 'optimization' ? <Target className="h-4 w-4" /> : <FlaskConical className="h-4 w-4" />}
+            {mode === 'optimization' ? 'Optimize' : 'Explore'}
           </>
         )}
       </Button>
@@ -21,7 +21,11 @@ type ExportFormat =
   | 'csv-flow'
   | 'json-results'
   | 'json-full'
-  | 'vxm';
+  | 'vxm'
+  | 'esatan'
+  | 'sinda';
+
+const MODEL_FORMATS: ExportFormat[] = ['vxm', 'esatan', 'sinda'];
 
 const FORMAT_CONFIG: Record<
   ExportFormat,
@@ -32,14 +36,17 @@ const FORMAT_CONFIG: Record<
   'json-results': { label: 'Results JSON', ext: 'json', icon: 'json' },
   'json-full': { label: 'Full Model + Results JSON', ext: 'json', icon: 'json' },
   vxm: { label: 'Verixos Model (.vxm)', ext: 'vxm', icon: 'vxm' },
+  esatan: { label: 'ESATAN-TMS Deck (.d)', ext: 'd', icon: 'vxm' },
+  sinda: { label: 'SINDA/FLUINT Deck (.inp)', ext: 'inp', icon: 'vxm' },
 };
 
 export function ExportButtons({ projectId, modelId, runId }: ExportButtonsProps) {
   const download = async (format: ExportFormat) => {
     try {
       let url: string;
-      if (format === 'vxm') {
-        url = `/api/projects/${projectId}/models/${modelId}/export?format=vxm`;
+      const isModel = MODEL_FORMATS.includes(format);
+      if (isModel) {
+        url = `/api/projects/${projectId}/models/${modelId}/export?format=${format}`;
       } else {
         url = `/api/projects/${projectId}/models/${modelId}/results/${runId}/export?format=${format}`;
       }
@@ -52,7 +59,7 @@ export function ExportButtons({ projectId, modelId, runId }: ExportButtonsProps)
       const a = document.createElement('a');
       a.href = blobUrl;
       const config = FORMAT_CONFIG[format];
-      a.download = `${format === 'vxm' ? 'model' : 'simulation'}_${runId.slice(0, 8)}.${config.ext}`;
+      a.download = `${isModel ? 'model' : 'simulation'}_${runId.slice(0, 8)}.${config.ext}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -93,6 +100,14 @@ export function ExportButtons({ projectId, modelId, runId }: ExportButtonsProps)
           <FileBox className="mr-2 h-4 w-4" />
           Verixos Model (.vxm)
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download('esatan')}>
+          <FileBox className="mr-2 h-4 w-4" />
+          ESATAN-TMS Deck (.d)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download('sinda')}>
+          <FileBox className="mr-2 h-4 w-4" />
+          SINDA/FLUINT Deck (.inp)
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
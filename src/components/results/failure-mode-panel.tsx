@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -45,6 +45,13 @@ interface FailureAnalysisResult {
   }>;
 }
 
+interface FailureAnalysisStatus {
+  analysis: { status: string; errorMessage: string | null };
+  cases: Array<{ status: string }>;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
 interface FailureModePanelProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -64,16 +71,16 @@ const DEFAULT_CASES: FailureCase[] = [
   {
     failureType: 'mli_degradation',
     label: 'MLI Degradation',
-    description: 'Increased thermal conductance through MLI layers',
+    description: 'Blanket ε* raised by the factor (low-ε nodes when the model has no blankets)',
     enabled: false,
     params: { degradationFactor: 5 },
   },
   {
     failureType: 'coating_degradation_eol',
     label: 'Coating Degradation (EOL)',
-    description: 'End-of-life absorptivity increase',
+    description: 'End-of-life coating optics from the material library',
     enabled: false,
-    params: { absorptivityDelta: 0.05 },
+    params: { absorbanceDelta: 0.05 },
   },
   {
     failureType: 'attitude_loss_tumble',
@@ -114,11 +121,22 @@ export function FailureModePanel({
 }: FailureModePanelProps) {
   const [cases, setCases] = useState<FailureCase[]>(DEFAULT_CASES);
   const [isRunning, setIsRunning] = useState(false);
+  const [finishedCases, setFinishedCases] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
   const nodes = useEditorStore((s) => s.nodes);
   const conductors = useEditorStore((s) => s.conductors);
 
+  const [blankets, setBlankets] = useState<Array<{ id: string; name: string }>>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    fetch(`/api/projects/${projectId}/models/${modelId}/mli-blankets`)
+      .then((res) => (res.ok ? res.json() : { blankets: [] }))
+      .then((data) => setBlankets(data.blankets))
+      .catch(() => setBlankets([]));
+  }, [open, projectId, modelId]);
+
   const enabledCount = cases.filter((c) => c.enabled).length;
 
   const toggleCase = useCallback((index: number) => {
@@ -166,6 +184,25 @@ export function FailureModePanel({
       }
 
       const result: FailureAnalysisResult = await res.json();
+
+      // Cases are solved by a background worker — poll until the analysis finishes
+      setFinishedCases(0);
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        const pollRes = await fetch(
+          `/api/projects/${projectId}/models/${modelId}/failure-analysis/${result.analysisId}`,
+        );
+        if (!pollRes.ok) continue;
+        const status: FailureAnalysisStatus = await pollRes.json();
+        setFinishedCases(
+          status.cases.filter((c) => c.status === 'completed' || c.status === 'failed').length,
+        );
+        if (status.analysis.status === 'completed') break;
+        if (status.analysis.status === 'failed') {
+          throw new Error(status.analysis.errorMessage || 'Failure analysis failed');
+        }
+      }
+
       onAnalysisComplete(result.analysisId);
       onOpenChange(false);
     } catch (err) {
@@ -217,41 +254,96 @@ export function FailureModePanel({
                 {c.enabled && (
                   <div className="mt-3 pl-12 space-y-3">
                     {c.failureType === 'mli_degradation' && (
-                      <div className="space-y-1">
-                        <Label className="text-xs text-white/60">
-                          Degradation factor
-                        </Label>
-                        <Input
-                          type="number"
-                          min={1}
-                          max={100}
-                          value={c.params.degradationFactor as number}
-                          onChange={(e) =>
-                            updateParams(i, 'degradationFactor', parseFloat(e.target.value) || 1)
-                          }
-                          className="h-8 text-sm bg-white/5 border-white/10"
-                          disabled={isRunning}
-                        />
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs text-white/60">
+                            Degradation factor
+                          </Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={c.params.degradationFactor as number}
+                            onChange={(e) =>
+                              updateParams(i, 'degradationFactor', parseFloat(e.target.value) || 1)
+                            }
+                            className="h-8 text-sm bg-white/5 border-white/10"
+                            disabled={isRunning}
+                          />
+                        </div>
+                        {blankets.length > 0 && (
+                          <div className="space-y-1">
+                            <Label className="text-xs text-white/60">
+                              Blanket
+                            </Label>
+                            <Select
+                              value={(c.params.blanketId as string | undefined) ?? 'all'}
+                              onValueChange={(v) =>
+                                updateParams(i, 'blanketId', v === 'all' ? undefined : v)
+                              }
+                              disabled={isRunning}
+                            >
+                              <SelectTrigger className="h-8 text-sm bg-white/5 border-white/10">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">All blankets</SelectItem>
+                                {blankets.map((b) => (
+                                  <SelectItem key={b.id} value={b.id}>
+                                    {b.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                       </div>
                     )}
 
                     {c.failureType === 'coating_degradation_eol' && (
-                      <div className="space-y-1">
-                        <Label className="text-xs text-white/60">
-                          Absorptivity delta
-                        </Label>
-                        <Input
-                          type="number"
-                          min={0.01}
-                          max={1}
-                          step={0.01}
-                          value={c.params.absorptivityDelta as number}
-                          onChange={(e) =>
-                            updateParams(i, 'absorptivityDelta', parseFloat(e.target.value) || 0.01)
-                          }
-                          className="h-8 text-sm bg-white/5 border-white/10"
-                          disabled={isRunning}
-                        />
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label className="text-xs text-white/60">
+                            Mission duration (years)
+                          </Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={(c.params.missionYears as number | undefined) ?? ''}
+                            placeholder="Library EOL"
+                            onChange={(e) =>
+                              updateParams(
+                                i,
+                                'missionYears',
+                                e.target.value === '' ? undefined : parseFloat(e.target.value),
+                              )
+                            }
+                            className="h-8 text-sm bg-white/5 border-white/10"
+                            disabled={isRunning}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs text-white/60">
+                            Fallback absorptivity delta
+                          </Label>
+                          <Input
+                            type="number"
+                            min={0.01}
+                            max={1}
+                            step={0.01}
+                            value={c.params.absorbanceDelta as number}
+                            onChange={(e) =>
+                              updateParams(i, 'absorbanceDelta', parseFloat(e.target.value) || 0.01)
+                            }
+                            className="h-8 text-sm bg-white/5 border-white/10"
+                            disabled={isRunning}
+                          />
+                        </div>
+                        <p className="col-span-2 text-[11px] text-white/40">
+                          Coatings with EOL data in the material library use it; other
+                          surfaces gain the fallback absorptivity delta.
+                        </p>
                       </div>
                     )}
 
@@ -372,7 +464,7 @@ export function FailureModePanel({
             {isRunning ? (
               <>
                 <Loader2 className="h-4 w-4 animate-spin" />
-                Running {enabledCount} case{enabledCount !== 1 ? 's' : ''}...
+                Running case {Math.min(finishedCases + 1, enabledCount)} of {enabledCount}...
               </>
             ) : (
               <>
@@ -0,0 +1,65 @@
+'use client';
+
+import { Folder } from 'lucide-react';
+import { useEditorStore } from '@/lib/stores/editor-store';
+import { summarizeGroupResults, type GroupResultRow } from '@/lib/node-groups';
+import { useUnits } from '@/lib/hooks/use-units';
+
+interface GroupSummaryProps {
+  groupId: string;
+  results: GroupResultRow[];
+}
+
+/** Temperature range and boundary heat flow of a group over the run. */
+export function GroupSummary({ groupId, results }: GroupSummaryProps) {
+  const groups = useEditorStore((s) => s.groups);
+  const nodes = useEditorStore((s) => s.nodes);
+  const conductors = useEditorStore((s) => s.conductors);
+  const { fmt } = useUnits();
+
+  const summary = summarizeGroupResults(groups, nodes, conductors, results, groupId);
+  if (!summary) return null;
+
+  return (
+    <div className="glass rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Folder className="h-4 w-4 text-yellow-400" />
+        <h3 className="font-heading text-sm font-semibold">Group Results</h3>
+        <span className="ml-auto text-xs font-mono text-muted-foreground">
+          {summary.nodeCount} node{summary.nodeCount === 1 ? '' : 's'}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs font-mono">
+        <div>
+          <p className="text-muted-foreground">Min</p>
+          <p>{fmt(summary.minTemperature, 'Temperature')}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Mean</p>
+          <p>{fmt(summary.meanTemperature, 'Temperature')}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Max</p>
+          <p>{fmt(summary.maxTemperature, 'Temperature')}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Heat in</p>
+          <p>{fmt(summary.heatIn, 'Power')}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Heat out</p>
+          <p>{fmt(summary.heatOut, 'Power')}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Net</p>
+          <p className={summary.netHeatFlow >= 0 ? 'text-orange-400' : 'text-cyan-400'}>
+            {fmt(summary.netHeatFlow, 'Power')}
+          </p>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Time-averaged flow across the group boundary, including radiation to space.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { Flame } from 'lucide-react';
+import { useEditorStore } from '@/lib/stores/editor-store';
+import type { HeaterRunResult } from '@/lib/stores/editor-store';
+import { useUnits } from '@/lib/hooks/use-units';
+
+interface HeaterSummaryProps {
+  heaterResults: HeaterRunResult[];
+  /** End of the run (s) — closes the last timeline segment */
+  timeEnd: number;
+}
+
+function formatEnergy(j: number) {
+  if (Math.abs(j) > 1e6) return `${(j / 1e6).toFixed(1)} MJ`;
+  if (Math.abs(j) > 1e3) return `${(j / 1e3).toFixed(1)} kJ`;
+  return `${j.toFixed(0)} J`;
+}
+
+/** On/off strip across the run: one segment per timeline entry. */
+function SwitchingTimeline({ timeline, timeEnd }: { timeline: HeaterRunResult['timeline']; timeEnd: number }) {
+  const timeStart = timeline[0].time;
+  const span = timeEnd - timeStart;
+  if (span <= 0) return null;
+
+  return (
+    <div className="flex h-2 w-full overflow-hidden rounded-sm bg-white/5">
+      {timeline.map((event, i) => {
+        const end = i + 1 < timeline.length ? timeline[i + 1].time : timeEnd;
+        return (
+          <div
+            key={i}
+            className={event.on ? 'bg-orange-400' : 'bg-transparent'}
+            style={{ width: `${((end - event.time) / span) * 100}%` }}
+            title={`${event.on ? 'On' : 'Off'} at ${event.time.toFixed(0)} s`}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function HeaterSummary({ heaterResults, timeEnd }: HeaterSummaryProps) {
+  const heatLoads = useEditorStore((s) => s.heatLoads);
+  const nodes = useEditorStore((s) => s.nodes);
+  const { fmt } = useUnits();
+
+  const nodeName = (id: string) => nodes.find((n) => n.id === id)?.name ?? id.slice(0, 8);
+
+  return (
+    <div className="glass rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Flame className="h-4 w-4 text-orange-400" />
+        <h3 className="font-heading text-sm font-semibold">Heaters</h3>
+      </div>
+
+      {heaterResults.map((heater) => {
+        const load = heatLoads.find((h) => h.id === heater.heatLoadId);
+        const switches = Math.max(heater.timeline.length - 1, 0);
+
+        return (
+          <div key={heater.heatLoadId} className="space-y-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-xs font-medium">{load?.name ?? 'Heater'}</span>
+              <span className="text-xs font-mono text-muted-foreground">
+                senses {nodeName(heater.senseNodeId)}
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-xs font-mono">
+              <div>
+                <p className="text-muted-foreground">Duty</p>
+                <p>{(heater.dutyCycle * 100).toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Avg power</p>
+                <p>{fmt(heater.averagePower, 'Power')}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Energy</p>
+                {/* Steady state reports a regulating duty, not a switching history */}
+                <p>{heater.timeline.length > 0 ? formatEnergy(heater.energy) : '—'}</p>
+              </div>
+            </div>
+            {heater.timeline.length > 0 && (
+              <>
+                <SwitchingTimeline timeline={heater.timeline} timeEnd={timeEnd} />
+                <p className="text-xs font-mono text-muted-foreground">
+                  {switches} switch{switches === 1 ? '' : 'es'}
+                </p>
+              </>
+            )}
+            {heater.orbitAveragePower.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Orbit-average power</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {heater.orbitAveragePower.map((p, i) => (
+                    <span
+                      key={i}
+                      className="rounded-md bg-white/[0.02] border border-white/5 px-1.5 py-0.5 text-xs font-mono"
+                    >
+                      #{i + 1} {fmt(p, 'Power')}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -15,7 +15,8 @@ import {
   isInEclipse,
   eclipsePeriods,
 } from '@/lib/demo/simulation-data';
-import { computeSunDirectionAtTime } from '@/lib/solver/orbital-environment';
+import { computeOrbitGeometry, computeSunDirectionAtTime } from '@/lib/solver/orbital-environment';
+import { computeBodyFrame, toOrbitFrame, type BodyFrame } from '@/lib/solver/attitude';
 import type { OrbitalConfig } from '@/lib/solver/types';
 import { cn } from '@/lib/utils';
 
@@ -83,6 +84,15 @@ function getSunDirectionAtTimestep(orbitalConfig: OrbitalConfig | null, currentT
   return new THREE.Vector3(dir.x, dir.y, dir.z).normalize();
 }
 
+// ─── Spacecraft attitude, as the solver computes it ─────────────────
+
+function getAttitudeAtTimestep(orbitalConfig: OrbitalConfig | null, currentTimeMin: number): BodyFrame | undefined {
+  if (!orbitalConfig) return undefined;
+  const elapsedSeconds = currentTimeMin * 60;
+  const geometry = computeOrbitGeometry(orbitalConfig, elapsedSeconds);
+  return toOrbitFrame(computeBodyFrame(orbitalConfig, elapsedSeconds, geometry), geometry);
+}
+
 // ─── Orbit Scene Contents ───────────────────────────────────────────
 
 interface OrbitSceneProps {
@@ -98,6 +108,10 @@ function OrbitScene({ shadowMapSize, onShadowDowngrade }: OrbitSceneProps) {
     () => getSunDirectionAtTimestep(orbitalConfig, currentTime),
     [orbitalConfig, currentTime],
   );
+  const attitude = useMemo(
+    () => getAttitudeAtTimestep(orbitalConfig, currentTime),
+    [orbitalConfig, currentTime],
+  );
   const { intensity: sunIntensityRef, isEclipse: eclipse } = useEclipseIntensity(currentTime);
 
   // Orbit fraction (0-1) within current orbit
@@ -129,6 +143,7 @@ function OrbitScene({ shadowMapSize, onShadowDowngrade }: OrbitSceneProps) {
         altitudeKm={400}
         inclinationDeg={51.6}
         orbitFraction={orbitFraction}
+        attitude={attitude}
       />
 
       {/* Sun sphere with corona glow */}
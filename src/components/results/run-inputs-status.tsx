@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2, Play } from 'lucide-react';
+import { useEditorStore, type SimulationConfig } from '@/lib/stores/editor-store';
+import { SnapshotDiffDialog } from '@/components/editor/snapshot-diff-dialog';
+import type { RunInputsStatus as RunInputs } from '@/lib/snapshots/run-inputs';
+
+interface RunInputsStatusProps {
+  projectId: string;
+  modelId: string;
+  runId: string;
+  /** Settings to rerun with; rerunning is offered only when given */
+  rerunConfig: SimulationConfig | null;
+}
+
+/** Model version the shown results came from, and whether the model has changed since. */
+export function RunInputsStatus({ projectId, modelId, runId, rerunConfig }: RunInputsStatusProps) {
+  const [inputs, setInputs] = useState<RunInputs | null>(null);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const simulationStatus = useEditorStore((s) => s.simulationStatus);
+  const runSimulation = useEditorStore((s) => s.runSimulation);
+
+  useEffect(() => {
+    let cancelled = false;
+    setInputs(null);
+    fetch(`/api/projects/${projectId}/models/${modelId}/results/${runId}/inputs`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: RunInputs | null) => {
+        if (!cancelled) setInputs(data);
+      })
+      .catch((err) => console.error('Failed to load run inputs:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, modelId, runId]);
+
+  if (!inputs) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          Run inputs: {inputs.modelVersion != null ? `v${inputs.modelVersion}` : 'version not recorded'}
+        </span>
+        {inputs.changed ? (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-yellow-400 border-yellow-400/30">
+            {inputs.tracked
+              ? `Model changed · ${inputs.changeCount} change${inputs.changeCount === 1 ? '' : 's'}`
+              : 'Model changed'}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-green-400 border-green-400/30">
+            {inputs.tracked ? 'Up to date' : `v${inputs.currentVersion}`}
+          </Badge>
+        )}
+      </div>
+
+      {(inputs.tracked || (inputs.changed && rerunConfig)) && (
+        <div className="flex gap-2">
+          {inputs.tracked && (
+            <Button variant="outline" size="sm" className="h-7 text-xs flex-1" onClick={() => setDiffOpen(true)}>
+              <History className="h-3 w-3 mr-1" />
+              View run inputs
+            </Button>
+          )}
+          {inputs.changed && rerunConfig && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs flex-1"
+              disabled={simulationStatus === 'running'}
+              onClick={() => runSimulation(rerunConfig)}
+            >
+              {simulationStatus === 'running' ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <Play className="h-3 w-3 mr-1" />
+              )}
+              Rerun on current
+            </Button>
+          )}
+        </div>
+      )}
+
+      {inputs.snapshotId && (
+        <a
+          href={`/api/projects/${projectId}/models/${modelId}/snapshots/${inputs.snapshotId}`}
+          target="_blank"
+          rel="noreferrer"
+          className="block text-[10px] text-muted-foreground hover:text-accent-cyan"
+        >
+          Download run inputs (JSON)
+        </a>
+      )}
+
+      {inputs.tracked && inputs.diff && (
+        <SnapshotDiffDialog
+          open={diffOpen}
+          onOpenChange={setDiffOpen}
+          result={{
+            from: { id: inputs.snapshotId!, version: inputs.modelVersion ?? 0 },
+            to: { id: 'current', version: inputs.currentVersion },
+            changeCount: inputs.changeCount,
+            diff: inputs.diff,
+          }}
+        />
+      )}
+    </div>
+  );
+}
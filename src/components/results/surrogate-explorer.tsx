@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { paramKey, type ExplorationParameter } from '@/lib/solver/design-space';
+import type { NodePrediction, PredictedValue, SurrogateFit } from '@/lib/solver/surrogate';
+
+interface SurrogateExplorerProps {
+  projectId: string;
+  modelId: string;
+  explorationId: string;
+  parameters: ExplorationParameter[];
+}
+
+const PREDICT_DEBOUNCE_MS = 150;
+const SLIDER_STEPS = 100;
+
+function paramLabel(p: ExplorationParameter): string {
+  if (p.entityType === 'symbol') return `symbol · ${p.entityId}`;
+  return `${p.entityType} · ${p.property}`;
+}
+
+function formatPrediction(value: PredictedValue): string {
+  return `${value.mean.toFixed(1)} ± ${((value.upper - value.lower) / 2).toFixed(1)}`;
+}
+
+/** Colour of a leave-one-out R²: how far the surrogate can be trusted. */
+function r2Color(r2: number): string {
+  if (r2 >= 0.9) return 'text-green-400';
+  if (r2 >= 0.7) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+/**
+ * Sliders over the explored parameters, answered by the exploration's
+ * Gaussian-process surrogate instead of a solve. Temperatures show the
+ * predicted mean ± the 95% interval half-width.
+ */
+export function SurrogateExplorer({ projectId, modelId, explorationId, parameters }: SurrogateExplorerProps) {
+  const base = `/api/projects/${projectId}/models/${modelId}/design-explorations/${explorationId}/surrogate`;
+
+  const [values, setValues] = useState<Record<string, number>>(() =>
+    Object.fromEntries(parameters.map((p) => [paramKey(p), (p.minValue + p.maxValue) / 2])),
+  );
+  const [fit, setFit] = useState<SurrogateFit | null>(null);
+  const [predictions, setPredictions] = useState<NodePrediction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The surrogate's fit and leave-one-out R²
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await fetch(base);
+      const data = await res.json();
+      if (cancelled) return;
+      if (res.ok) setFit(data.data.surrogate);
+      else setError(data.error || 'Failed to load surrogate');
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [base]);
+
+  useEffect(() => {
+    if (!fit) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(base, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ paramValues: values }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) throw new Error(data.error || 'Prediction failed');
+        setPredictions(data.data.predictions);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, PREDICT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [base, fit, values]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h4 className="text-sm font-medium">Surrogate Explorer</h4>
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin text-white/40" />}
+      </div>
+      {fit && (
+        <p className="text-xs text-white/50">
+          Gaussian process fitted to {fit.sampleCount} samples. Values are mean ± 95% interval (K).
+        </p>
+      )}
+
+      {parameters.map((p) => {
+        const key = paramKey(p);
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex justify-between">
+              <Label className="text-xs text-white/60">{paramLabel(p)}</Label>
+              <span className="text-xs font-mono">{values[key]?.toPrecision(4)}</span>
+            </div>
+            <Slider
+              min={p.minValue}
+              max={p.maxValue}
+              step={(p.maxValue - p.minValue) / SLIDER_STEPS}
+              value={[values[key]]}
+              onValueChange={([v]) => setValues((prev) => ({ ...prev, [key]: v }))}
+              disabled={!fit}
+            />
+          </div>
+        );
+      })}
+
+      {predictions.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-white/50 border-b border-white/10">
+                <th className="text-left py-1 pr-2 font-normal">Node</th>
+                <th className="text-right py-1 px-2 font-normal">Min</th>
+                <th className="text-right py-1 px-2 font-normal">Mean</th>
+                <th className="text-right py-1 px-2 font-normal">Max</th>
+                <th className="text-right py-1 pl-2 font-normal">LOO R²</th>
+              </tr>
+            </thead>
+            <tbody>
+              {predictions.map((n) => {
+                const r2 = fit?.looR2[n.nodeId]?.meanTemp;
+                return (
+                  <tr key={n.nodeId} className="border-b border-white/5 font-mono">
+                    <td className="py-1 pr-2 font-sans">{n.nodeName}</td>
+                    <td className="text-right py-1 px-2">{formatPrediction(n.minTemp)}</td>
+                    <td className="text-right py-1 px-2">{formatPrediction(n.meanTemp)}</td>
+                    <td className="text-right py-1 px-2">{formatPrediction(n.maxTemp)}</td>
+                    <td className={`text-right py-1 pl-2 ${r2 != null ? r2Color(r2) : ''}`}>
+                      {r2?.toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -266,6 +266,7 @@ function RerunButton({ projectId, modelId, entries, deltas, disabled }: RerunBut
   const updateConductor = useEditorStore((s) => s.updateConductor);
   const heatLoads = useEditorStore((s) => s.heatLoads);
   const updateHeatLoad = useEditorStore((s) => s.updateHeatLoad);
+  const updateSymbol = useEditorStore((s) => s.updateSymbol);
 
   const handleRerun = useCallback(() => {
     // Apply deltas to model parameters before re-running
@@ -288,6 +289,8 @@ function RerunButton({ projectId, modelId, entries, deltas, disabled }: RerunBut
         updateConductor(entry.entityId, { conductance: newValue });
       } else if (entry.parameterType === 'heat_load') {
         updateHeatLoad(entry.entityId, { value: newValue });
+      } else if (entry.parameterType === 'symbol') {
+        updateSymbol(entry.entityId, newValue);
       }
     }
 
@@ -302,7 +305,7 @@ function RerunButton({ projectId, modelId, entries, deltas, disabled }: RerunBut
         tolerance: 0.01,
       },
     });
-  }, [entries, deltas, updateNode, updateConductor, updateHeatLoad, runSimulation]);
+  }, [entries, deltas, updateNode, updateConductor, updateHeatLoad, updateSymbol, runSimulation]);
 
   return (
     <Button
@@ -100,16 +100,20 @@ export function runDeterministicChecks(
 
     // For each node, check energy balance from conductor flows
     for (const sr of simResults) {
-      if (!sr.conductorFlows || sr.conductorFlows.length === 0) continue;
+      if (!sr.conductorFlows?.length && !sr.spaceFlow) continue;
       let totalFlowIn = 0;
       let totalFlowOut = 0;
-      for (const cf of sr.conductorFlows) {
+      for (const cf of sr.conductorFlows ?? []) {
         if (cf.flows && cf.flows.length > 0) {
           const lastFlow = cf.flows[cf.flows.length - 1];
           if (lastFlow > 0) totalFlowIn += lastFlow;
           else totalFlowOut += Math.abs(lastFlow);
         }
       }
+      // Radiation to deep space leaves the node
+      if (sr.spaceFlow && sr.spaceFlow.flows.length > 0) {
+        totalFlowOut += sr.spaceFlow.flows[sr.spaceFlow.flows.length - 1];
+      }
       // Add heat loads for this node
       const nodeLoads = modelHeatLoads.filter((hl) => hl.nodeId === sr.nodeId);
       for (const hl of nodeLoads) {
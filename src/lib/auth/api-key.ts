@@ -1,11 +1,24 @@
 import crypto from 'crypto';
 import { db } from '@/lib/db/client';
-import { apiKeys } from '@/lib/db/schema';
-import { eq, and, isNull, or, gt } from 'drizzle-orm';
+import { apiKeys, type ApiKeyScope } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
 
 const KEY_PREFIX = 'vx_live_';
 const KEY_PATTERN = /^vx_live_[0-9a-f]{32}$/;
 
+/** Requests per minute for keys without their own limit */
+export const DEFAULT_API_KEY_RATE_LIMIT = 100;
+
+export interface ApiKeyAuth {
+  keyId: string;
+  userId: string;
+  orgId: string | null;
+  scopes: ApiKeyScope[];
+  /** Projects the key is restricted to; null = all of the user's projects */
+  projectIds: string[] | null;
+  rateLimitPerMinute: number;
+}
+
 export function generateApiKey(): { plaintext: string; hash: string; hint: string } {
   const random = crypto.randomBytes(16).toString('hex');
   const plaintext = `${KEY_PREFIX}${random}`;
@@ -14,9 +27,7 @@ export function generateApiKey(): { plaintext: string; hash: string; hint: strin
   return { plaintext, hash, hint };
 }
 
-export async function validateApiKey(
-  request: Request,
-): Promise<{ userId: string; orgId: string | null } | null> {
+export async function validateApiKey(request: Request): Promise<ApiKeyAuth | null> {
   const key = request.headers.get('X-API-Key');
   if (!key || !KEY_PATTERN.test(key)) return null;
 
@@ -31,12 +42,12 @@ export async function validateApiKey(
   if (row.revokedAt) return null;
   if (row.expiresAt && row.expiresAt < new Date()) return null;
 
-  // Fire-and-forget: update last_used_at
-  db.update(apiKeys)
-    .set({ lastUsedAt: new Date() })
-    .where(eq(apiKeys.id, row.id))
-    .then(() => {})
-    .catch(() => {});
-
-  return { userId: row.userId, orgId: row.orgId };
+  return {
+    keyId: row.id,
+    userId: row.userId,
+    orgId: row.orgId,
+    scopes: row.scopes,
+    projectIds: row.projectIds ?? null,
+    rateLimitPerMinute: row.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+  };
 }
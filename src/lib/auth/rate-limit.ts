@@ -1,3 +1,7 @@
+import { sql, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/client';
+import { apiKeys } from '@/lib/db/schema';
+
 /**
  * In-memory rate limiter for login attempts.
  * 5 failed attempts per 15 minutes per IP.
@@ -47,37 +51,36 @@ export function recordFailedAttempt(ip: string): void {
   }
 }
 
-// ── API Key Rate Limiter (token bucket) ────────────────────────────────────
-
-interface Bucket {
-  tokens: number;
-  lastRefill: number;
-}
-
-export class RateLimiter {
-  private buckets = new Map<string, Bucket>();
-
-  check(key: string, limit: number = 100, windowMs: number = 60000): boolean {
-    const now = Date.now();
-    const bucket = this.buckets.get(key);
-
-    if (!bucket) {
-      this.buckets.set(key, { tokens: limit - 1, lastRefill: now });
-      return true;
-    }
+// ── API Key Rate Limiter (Postgres) ────────────────────────────────────────
 
-    const elapsed = now - bucket.lastRefill;
-    const refill = (elapsed / windowMs) * limit;
-    bucket.tokens = Math.min(limit, bucket.tokens + refill);
-    bucket.lastRefill = now;
-
-    if (bucket.tokens < 1) {
-      return false;
-    }
-
-    bucket.tokens -= 1;
-    return true;
-  }
+/**
+ * Count one request against an API key's fixed one-minute window. The
+ * counter lives on the key row so limits hold across restarts and
+ * instances; the window is taken from the database clock. Also records
+ * the key's last use.
+ */
+export async function consumeApiKeyRequest(
+  keyId: string,
+  limitPerMinute: number,
+): Promise<{ allowed: boolean; remaining: number; retryAfterSec: number }> {
+  const window = sql`date_trunc('minute', localtimestamp)`;
+  const [row] = await db
+    .update(apiKeys)
+    .set({
+      rateWindowCount: sql`CASE WHEN ${apiKeys.rateWindowStart} = ${window} THEN ${apiKeys.rateWindowCount} + 1 ELSE 1 END`,
+      rateWindowStart: window,
+      lastUsedAt: new Date(),
+    })
+    .where(eq(apiKeys.id, keyId))
+    .returning({
+      count: apiKeys.rateWindowCount,
+      secondsLeft: sql<number>`60 - extract(second from localtimestamp)::int`,
+    });
+
+  const count = row?.count ?? 0;
+  return {
+    allowed: count <= limitPerMinute,
+    remaining: Math.max(0, limitPerMinute - count),
+    retryAfterSec: Math.max(1, Number(row?.secondsLeft ?? 60)),
+  };
 }
-
-export const rateLimiter = new RateLimiter();
@@ -0,0 +1,191 @@
+/**
+ * Bounding volume hierarchy over a triangle soup, for closest-hit ray queries.
+ *
+ * Triangles are packed 9 floats each (v0, v1, v2). The tree is built by
+ * splitting at the median centroid along the longest axis and stored in flat
+ * typed arrays; nodes with count > 0 are leaves over `order[start … start+count)`.
+ */
+
+const LEAF_SIZE = 4;
+const EPSILON = 1e-12;
+
+export interface Bvh {
+  /** Packed triangle vertices, 9 per triangle */
+  vertices: Float64Array;
+  /** Per node: minX, minY, minZ, maxX, maxY, maxZ */
+  bounds: Float64Array;
+  /** Interior: index of the left child (right child is left + 1). Leaf: first slot in `order` */
+  start: Int32Array;
+  /** Leaf triangle count; 0 for interior nodes */
+  count: Int32Array;
+  /** Triangle indices, grouped by leaf */
+  order: Int32Array;
+  nodeCount: number;
+}
+
+export interface RayHit {
+  triangle: number;
+  t: number;
+}
+
+export function buildBvh(vertices: Float64Array): Bvh {
+  const triangleCount = vertices.length / 9;
+  const centroids = new Float64Array(triangleCount * 3);
+  for (let i = 0; i < triangleCount; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      centroids[i * 3 + axis] =
+        (vertices[i * 9 + axis] + vertices[i * 9 + 3 + axis] + vertices[i * 9 + 6 + axis]) / 3;
+    }
+  }
+
+  const order = new Int32Array(triangleCount);
+  for (let i = 0; i < triangleCount; i++) order[i] = i;
+
+  // A binary tree with leaves of ≥ 1 triangle has at most 2n − 1 nodes
+  const maxNodes = Math.max(1, 2 * triangleCount - 1);
+  const bounds = new Float64Array(maxNodes * 6);
+  const start = new Int32Array(maxNodes);
+  const count = new Int32Array(maxNodes);
+  let nodeCount = 1;
+
+  const stack: Array<[node: number, from: number, to: number]> = [[0, 0, triangleCount]];
+  while (stack.length > 0) {
+    const [node, from, to] = stack.pop()!;
+
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    let cMinX = Infinity, cMinY = Infinity, cMinZ = Infinity;
+    let cMaxX = -Infinity, cMaxY = -Infinity, cMaxZ = -Infinity;
+    for (let k = from; k < to; k++) {
+      const tri = order[k];
+      for (let v = 0; v < 3; v++) {
+        const o = tri * 9 + v * 3;
+        minX = Math.min(minX, vertices[o]); maxX = Math.max(maxX, vertices[o]);
+        minY = Math.min(minY, vertices[o + 1]); maxY = Math.max(maxY, vertices[o + 1]);
+        minZ = Math.min(minZ, vertices[o + 2]); maxZ = Math.max(maxZ, vertices[o + 2]);
+      }
+      cMinX = Math.min(cMinX, centroids[tri * 3]); cMaxX = Math.max(cMaxX, centroids[tri * 3]);
+      cMinY = Math.min(cMinY, centroids[tri * 3 + 1]); cMaxY = Math.max(cMaxY, centroids[tri * 3 + 1]);
+      cMinZ = Math.min(cMinZ, centroids[tri * 3 + 2]); cMaxZ = Math.max(cMaxZ, centroids[tri * 3 + 2]);
+    }
+    bounds.set([minX, minY, minZ, maxX, maxY, maxZ], node * 6);
+
+    const n = to - from;
+    const extents = [cMaxX - cMinX, cMaxY - cMinY, cMaxZ - cMinZ];
+    const axis = extents.indexOf(Math.max(...extents));
+    if (n <= LEAF_SIZE || extents[axis] < EPSILON) {
+      start[node] = from;
+      count[node] = n;
+      continue;
+    }
+
+    // Median split: sort the range by centroid along the axis
+    const sorted = Array.from(order.subarray(from, to)).sort(
+      (a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis],
+    );
+    order.set(sorted, from);
+    const mid = from + (n >> 1);
+
+    const left = nodeCount;
+    nodeCount += 2;
+    start[node] = left;
+    count[node] = 0;
+    stack.push([left, from, mid], [left + 1, mid, to]);
+  }
+
+  return { vertices, bounds, start, count, order, nodeCount };
+}
+
+/** Möller–Trumbore; distance along the ray, or -1 on a miss. */
+function intersectTriangle(
+  v: Float64Array,
+  tri: number,
+  ox: number, oy: number, oz: number,
+  dx: number, dy: number, dz: number,
+): number {
+  const o = tri * 9;
+  const e1x = v[o + 3] - v[o], e1y = v[o + 4] - v[o + 1], e1z = v[o + 5] - v[o + 2];
+  const e2x = v[o + 6] - v[o], e2y = v[o + 7] - v[o + 1], e2z = v[o + 8] - v[o + 2];
+  const hx = dy * e2z - dz * e2y, hy = dz * e2x - dx * e2z, hz = dx * e2y - dy * e2x;
+  const a = e1x * hx + e1y * hy + e1z * hz;
+  if (a > -EPSILON && a < EPSILON) return -1;
+  const f = 1 / a;
+  const sx = ox - v[o], sy = oy - v[o + 1], sz = oz - v[o + 2];
+  const u = f * (sx * hx + sy * hy + sz * hz);
+  if (u < 0 || u > 1) return -1;
+  const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+  const w = f * (dx * qx + dy * qy + dz * qz);
+  if (w < 0 || u + w > 1) return -1;
+  const t = f * (e2x * qx + e2y * qy + e2z * qz);
+  return t > EPSILON ? t : -1;
+}
+
+/** Slab test; entry distance, or Infinity when the ray misses the box before tMax. */
+function intersectBox(
+  b: Float64Array,
+  node: number,
+  ox: number, oy: number, oz: number,
+  ix: number, iy: number, iz: number,
+  tMax: number,
+): number {
+  const o = node * 6;
+  let t1 = (b[o] - ox) * ix, t2 = (b[o + 3] - ox) * ix;
+  let tNear = Math.min(t1, t2), tFar = Math.max(t1, t2);
+  t1 = (b[o + 1] - oy) * iy; t2 = (b[o + 4] - oy) * iy;
+  tNear = Math.max(tNear, Math.min(t1, t2)); tFar = Math.min(tFar, Math.max(t1, t2));
+  t1 = (b[o + 2] - oz) * iz; t2 = (b[o + 5] - oz) * iz;
+  tNear = Math.max(tNear, Math.min(t1, t2)); tFar = Math.min(tFar, Math.max(t1, t2));
+  return tFar >= Math.max(tNear, 0) && tNear < tMax ? tNear : Infinity;
+}
+
+/**
+ * Closest triangle hit by the ray origin + t·dir (t > 0), skipping
+ * `ignoreTriangle` (the triangle the ray leaves from). Null on a miss.
+ */
+export function intersectBvh(
+  bvh: Bvh,
+  origin: readonly [number, number, number],
+  dir: readonly [number, number, number],
+  ignoreTriangle = -1,
+): RayHit | null {
+  if (bvh.order.length === 0) return null;
+  const [ox, oy, oz] = origin;
+  const [dx, dy, dz] = dir;
+  // A zero component would give 0 · ∞ = NaN in the slab test
+  const ix = 1 / (dx || 1e-300), iy = 1 / (dy || 1e-300), iz = 1 / (dz || 1e-300);
+
+  let closest = Infinity;
+  let hit = -1;
+  const stack = [0];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (intersectBox(bvh.bounds, node, ox, oy, oz, ix, iy, iz, closest) === Infinity) continue;
+
+    const n = bvh.count[node];
+    if (n > 0) {
+      for (let k = bvh.start[node]; k < bvh.start[node] + n; k++) {
+        const tri = bvh.order[k];
+        if (tri === ignoreTriangle) continue;
+        const t = intersectTriangle(bvh.vertices, tri, ox, oy, oz, dx, dy, dz);
+        if (t > 0 && t < closest) {
+          closest = t;
+          hit = tri;
+        }
+      }
+    } else {
+      // Visit the nearer child first so its hits prune the farther one
+      const left = bvh.start[node];
+      const tLeft = intersectBox(bvh.bounds, left, ox, oy, oz, ix, iy, iz, closest);
+      const tRight = intersectBox(bvh.bounds, left + 1, ox, oy, oz, ix, iy, iz, closest);
+      if (tLeft <= tRight) {
+        if (tRight !== Infinity) stack.push(left + 1);
+        if (tLeft !== Infinity) stack.push(left);
+      } else {
+        if (tLeft !== Infinity) stack.push(left);
+        stack.push(left + 1);
+      }
+    }
+  }
+
+  return hit >= 0 ? { triangle: hit, t: closest } : null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Storage form of tessellated CAD geometry.
+ *
+ * Typed arrays don't survive JSON, so each face's vertex data is stored as
+ * base64 of the array's bytes. Runs in the browser (before upload, after
+ * load) and on the server (.vxm import/export).
+ */
+
+import type { ParsedFace } from './step-parser';
+
+export interface StoredCadFace {
+  id: string;
+  name: string;
+  /** base64 Float32Array */
+  positions: string;
+  /** base64 Float32Array */
+  normals: string;
+  /** base64 Uint32Array */
+  indices: string;
+  color: [number, number, number];
+  surfaceArea: number;
+}
+
+// String.fromCharCode takes its bytes as arguments; keep calls well under the engine limit
+const CHUNK_SIZE = 0x8000;
+
+function toBase64(array: Float32Array | Uint32Array): string {
+  const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+export function encodeCadFaces(faces: ParsedFace[]): StoredCadFace[] {
+  return faces.map((face) => ({
+    id: face.id,
+    name: face.name,
+    positions: toBase64(face.positions),
+    normals: toBase64(face.normals),
+    indices: toBase64(face.indices),
+    color: face.color,
+    surfaceArea: face.surfaceArea,
+  }));
+}
+
+export function decodeCadFaces(faces: StoredCadFace[]): ParsedFace[] {
+  return faces.map((face) => ({
+    id: face.id,
+    name: face.name,
+    positions: new Float32Array(fromBase64(face.positions)),
+    normals: new Float32Array(fromBase64(face.normals)),
+    indices: new Uint32Array(fromBase64(face.indices)),
+    color: face.color,
+    surfaceArea: face.surfaceArea,
+  }));
+}
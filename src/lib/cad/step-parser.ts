@@ -27,7 +27,7 @@ export interface ParseProgress {
   message: string;
 }
 
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_STEP_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 const VALID_EXTENSIONS = ['.step', '.stp'];
 
 export function validateStepFile(file: File): string | null {
@@ -35,7 +35,7 @@ export function validateStepFile(file: File): string | null {
   if (!VALID_EXTENSIONS.includes(ext)) {
     return `Invalid file type "${ext}". Please upload a .step or .stp file.`;
   }
-  if (file.size > MAX_FILE_SIZE) {
+  if (file.size > MAX_STEP_FILE_SIZE) {
     return `File too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Maximum size is 100MB.`;
   }
   return null;
@@ -0,0 +1,300 @@
+/**
+ * Surface-to-surface view factor matrix by Monte Carlo ray tracing.
+ *
+ * A surface is the set of CAD faces mapped to one thermal node. Rays leave
+ * each surface from area-weighted random points in cosine-weighted
+ * directions; the fraction whose first hit lands on surface j estimates
+ * F_ij, and the fraction that escapes estimates the view factor to space.
+ * Faces not mapped to a node are ignored, as in the per-conductor worker.
+ *
+ * Surfaces with a specular reflectance ρs mirror that share of each ray
+ * onwards, so a row then holds exchange factors E_ij: everything arriving
+ * at j directly or by specular reflection (see RadiationEnclosure). With
+ * no specular surfaces E = F.
+ *
+ * The raw estimates are then made consistent: A_i·E_ij = A_j·E_ji
+ * (reciprocity) and Σ_j (1 − ρs_j)·E_ij + E_i,space = 1 (closure).
+ */
+
+import { buildBvh, intersectBvh, type Bvh } from './bvh';
+
+const MAX_SPECULAR_BOUNCES = 50;
+/** A ray is dropped once specular reflections have left less than this of it */
+const MIN_RAY_WEIGHT = 1e-4;
+
+export interface RadiationSurface {
+  nodeId: string;
+  /** Total area of the surface's triangles (model units²) */
+  area: number;
+}
+
+export interface RadiationScene {
+  surfaces: RadiationSurface[];
+  bvh: Bvh;
+  /** Index into `surfaces` of each packed triangle */
+  triangleSurface: Int32Array;
+  triangleNormals: Float64Array;
+  /** Per surface: its triangle indices and their cumulative area fractions */
+  emitters: Array<{ triangles: Int32Array; cdf: Float64Array }>;
+  /** Ray origin offset along the normal, scaled to the model */
+  offset: number;
+}
+
+interface SceneFace {
+  id: string;
+  positions: ArrayLike<number>;
+  normals: ArrayLike<number>;
+  indices: ArrayLike<number>;
+}
+
+/** Pack the mapped faces into one triangle soup with a BVH over it. */
+export function buildRadiationScene(
+  faces: SceneFace[],
+  mappings: Array<{ faceId: string; nodeId: string }>,
+): RadiationScene {
+  const faceById = new Map(faces.map((f) => [f.id, f]));
+  const surfaceIndex = new Map<string, number>();
+  const vertices: number[] = [];
+  const normals: number[] = [];
+  const owner: number[] = [];
+  const areas: number[] = [];
+
+  for (const mapping of mappings) {
+    const face = faceById.get(mapping.faceId);
+    if (!face) continue;
+    let surface = surfaceIndex.get(mapping.nodeId);
+    if (surface === undefined) {
+      surface = surfaceIndex.size;
+      surfaceIndex.set(mapping.nodeId, surface);
+    }
+
+    const { positions: p, normals: vn, indices: idx } = face;
+    for (let k = 0; k + 2 < idx.length; k += 3) {
+      const [a, b, c] = [idx[k] * 3, idx[k + 1] * 3, idx[k + 2] * 3];
+      const e1 = [p[b] - p[a], p[b + 1] - p[a + 1], p[b + 2] - p[a + 2]];
+      const e2 = [p[c] - p[a], p[c + 1] - p[a + 1], p[c + 2] - p[a + 2]];
+      const cx = e1[1] * e2[2] - e1[2] * e2[1];
+      const cy = e1[2] * e2[0] - e1[0] * e2[2];
+      const cz = e1[0] * e2[1] - e1[1] * e2[0];
+      const doubleArea = Math.hypot(cx, cy, cz);
+      if (doubleArea === 0) continue;
+
+      // Geometric normal, turned to agree with the tessellator's vertex normals
+      const sx = vn[a] + vn[b] + vn[c];
+      const sy = vn[a + 1] + vn[b + 1] + vn[c + 1];
+      const sz = vn[a + 2] + vn[b + 2] + vn[c + 2];
+      const sign = cx * sx + cy * sy + cz * sz < 0 ? -1 : 1;
+
+      vertices.push(p[a], p[a + 1], p[a + 2], p[b], p[b + 1], p[b + 2], p[c], p[c + 1], p[c + 2]);
+      normals.push((sign * cx) / doubleArea, (sign * cy) / doubleArea, (sign * cz) / doubleArea);
+      owner.push(surface);
+      areas.push(doubleArea / 2);
+    }
+  }
+
+  const surfaces: RadiationSurface[] = [...surfaceIndex.keys()].map((nodeId) => ({ nodeId, area: 0 }));
+  const members: number[][] = surfaces.map(() => []);
+  owner.forEach((s, tri) => {
+    surfaces[s].area += areas[tri];
+    members[s].push(tri);
+  });
+
+  const emitters = members.map((tris, s) => {
+    const cdf = new Float64Array(tris.length);
+    let cumulative = 0;
+    tris.forEach((tri, k) => {
+      cumulative += areas[tri] / surfaces[s].area;
+      cdf[k] = cumulative;
+    });
+    if (cdf.length > 0) cdf[cdf.length - 1] = 1;
+    return { triangles: Int32Array.from(tris), cdf };
+  });
+
+  const packed = Float64Array.from(vertices);
+  let extent = 0;
+  for (let k = 0; k < packed.length; k++) extent = Math.max(extent, Math.abs(packed[k]));
+
+  return {
+    surfaces,
+    bvh: buildBvh(packed),
+    triangleSurface: Int32Array.from(owner),
+    triangleNormals: Float64Array.from(normals),
+    emitters,
+    offset: Math.max(extent, 1) * 1e-7,
+  };
+}
+
+/** Deterministic uniform [0, 1) generator (mulberry32), so a job can be reproduced. */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Trace `rays` rays from one surface. Returns the fraction reaching each
+ * surface, followed by the fraction escaping to space. `specularReflectance`
+ * is indexed like `scene.surfaces`; omitted, every surface is diffuse.
+ */
+export function traceViewFactorRow(
+  scene: RadiationScene,
+  source: number,
+  rays: number,
+  random: () => number,
+  specularReflectance: ArrayLike<number> = [],
+): number[] {
+  const counts = new Array<number>(scene.surfaces.length + 1).fill(0);
+  const { triangles, cdf } = scene.emitters[source];
+  if (triangles.length === 0 || rays <= 0) return counts;
+  const v = scene.bvh.vertices;
+  const nrm = scene.triangleNormals;
+
+  for (let r = 0; r < rays; r++) {
+    // Area-weighted triangle, then a uniform point on it
+    const pick = random();
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] < pick) lo = mid + 1;
+      else hi = mid;
+    }
+    const tri = triangles[lo];
+    let u = random(), w = random();
+    if (u + w > 1) { u = 1 - u; w = 1 - w; }
+    const o = tri * 9;
+    const nx = nrm[tri * 3], ny = nrm[tri * 3 + 1], nz = nrm[tri * 3 + 2];
+    const origin: [number, number, number] = [
+      v[o] + u * (v[o + 3] - v[o]) + w * (v[o + 6] - v[o]) + nx * scene.offset,
+      v[o + 1] + u * (v[o + 4] - v[o + 1]) + w * (v[o + 7] - v[o + 1]) + ny * scene.offset,
+      v[o + 2] + u * (v[o + 5] - v[o + 2]) + w * (v[o + 8] - v[o + 2]) + nz * scene.offset,
+    ];
+
+    // Cosine-weighted direction about the normal (Malley's method)
+    const tx0 = Math.abs(nx) < 0.9 ? 1 : 0, ty0 = tx0 ? 0 : 1;
+    let tx = ty0 * nz, ty = -tx0 * nz, tz = tx0 * ny - ty0 * nx;
+    const tLen = Math.hypot(tx, ty, tz);
+    tx /= tLen; ty /= tLen; tz /= tLen;
+    const bx = ny * tz - nz * ty, by = nz * tx - nx * tz, bz = nx * ty - ny * tx;
+    const r1 = random(), phi = 2 * Math.PI * random();
+    const sinTheta = Math.sqrt(r1), cosTheta = Math.sqrt(1 - r1);
+    const a = sinTheta * Math.cos(phi), b = sinTheta * Math.sin(phi);
+    const dir: [number, number, number] = [
+      a * tx + b * bx + cosTheta * nx,
+      a * ty + b * by + cosTheta * ny,
+      a * tz + b * bz + cosTheta * nz,
+    ];
+
+    let weight = 1;
+    let from = tri;
+    for (let bounce = 0; ; bounce++) {
+      const hit = intersectBvh(scene.bvh, origin, dir, from);
+      if (!hit) {
+        counts[scene.surfaces.length] += weight;
+        break;
+      }
+      const surface = scene.triangleSurface[hit.triangle];
+      counts[surface] += weight;
+      weight *= specularReflectance[surface] ?? 0;
+      if (weight < MIN_RAY_WEIGHT || bounce === MAX_SPECULAR_BOUNCES) break;
+
+      // Mirror about the hit triangle, leaving from the side the ray came in on
+      const hx = nrm[hit.triangle * 3], hy = nrm[hit.triangle * 3 + 1], hz = nrm[hit.triangle * 3 + 2];
+      const cosIn = dir[0] * hx + dir[1] * hy + dir[2] * hz;
+      const side = cosIn < 0 ? scene.offset : -scene.offset;
+      origin[0] += hit.t * dir[0] + side * hx;
+      origin[1] += hit.t * dir[1] + side * hy;
+      origin[2] += hit.t * dir[2] + side * hz;
+      dir[0] -= 2 * cosIn * hx;
+      dir[1] -= 2 * cosIn * hy;
+      dir[2] -= 2 * cosIn * hz;
+      from = hit.triangle;
+    }
+  }
+
+  return counts.map((c) => c / rays);
+}
+
+/**
+ * Adjust raw Monte Carlo estimates so that A_i·F_ij = A_j·F_ji and every
+ * row, space included, sums to 1 — each F_ij weighted by 1 − ρs_j, the
+ * share of it that ends at j. Alternates symmetrising the exchange areas
+ * with rescaling each row; the last pass restores exact closure through
+ * the space term.
+ */
+export function enforceReciprocityAndClosure(
+  areas: number[],
+  matrix: number[][],
+  toSpace: number[],
+  specularReflectance: number[] = [],
+  iterations = 50,
+): { matrix: number[][]; toSpace: number[] } {
+  const n = areas.length;
+  const F = matrix.map((row) => [...row]);
+  const space = [...toSpace];
+  const ending = areas.map((_, j) => 1 - (specularReflectance[j] ?? 0));
+  const rowSum = (i: number) => F[i].reduce((s, f, j) => s + f * ending[j], 0);
+
+  const symmetrise = () => {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const exchange = (areas[i] * F[i][j] + areas[j] * F[j][i]) / 2;
+        F[i][j] = areas[i] > 0 ? exchange / areas[i] : 0;
+        F[j][i] = areas[j] > 0 ? exchange / areas[j] : 0;
+      }
+    }
+  };
+
+  for (let iter = 0; iter < iterations; iter++) {
+    symmetrise();
+    for (let i = 0; i < n; i++) {
+      const total = rowSum(i) + space[i];
+      if (total <= 0) continue;
+      for (let j = 0; j < n; j++) F[i][j] /= total;
+      space[i] /= total;
+    }
+  }
+
+  symmetrise();
+  for (let i = 0; i < n; i++) {
+    const enclosed = rowSum(i);
+    if (enclosed > 1) {
+      // Only reachable if the iterations did not converge; give up reciprocity for closure
+      for (let j = 0; j < n; j++) F[i][j] /= enclosed;
+      space[i] = 0;
+    } else {
+      space[i] = 1 - enclosed;
+    }
+  }
+
+  return { matrix: F, toSpace: space };
+}
+
+/** Largest |A_i·F_ij − A_j·F_ji| / min(A_i, A_j) and |Σ_j (1 − ρs_j)·F_ij + F_i,space − 1|. */
+export function viewFactorErrors(
+  areas: number[],
+  matrix: number[][],
+  toSpace: number[],
+  specularReflectance: number[] = [],
+): { reciprocity: number; closure: number } {
+  let reciprocity = 0;
+  let closure = 0;
+  for (let i = 0; i < areas.length; i++) {
+    for (let j = i + 1; j < areas.length; j++) {
+      const scale = Math.min(areas[i], areas[j]);
+      if (scale > 0) {
+        reciprocity = Math.max(
+          reciprocity,
+          Math.abs(areas[i] * matrix[i][j] - areas[j] * matrix[j][i]) / scale,
+        );
+      }
+    }
+    const ended = matrix[i].reduce((s, f, j) => s + f * (1 - (specularReflectance[j] ?? 0)), 0);
+    closure = Math.max(closure, Math.abs(ended + toSpace[i] - 1));
+  }
+  return { reciprocity, closure };
+}
@@ -0,0 +1,19 @@
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS requested_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS worker_id text;
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS heartbeat_at timestamp;
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS simulation_runs_status_idx ON simulation_runs (status);
+
+ALTER TABLE failure_analyses ADD COLUMN IF NOT EXISTS error_message text;
+ALTER TABLE failure_analyses ADD COLUMN IF NOT EXISTS requested_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE failure_analyses ADD COLUMN IF NOT EXISTS worker_id text;
+ALTER TABLE failure_analyses ADD COLUMN IF NOT EXISTS heartbeat_at timestamp;
+ALTER TABLE failure_analyses ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS failure_analyses_status_idx ON failure_analyses (status);
+
+ALTER TABLE design_explorations ADD COLUMN IF NOT EXISTS error_message text;
+ALTER TABLE design_explorations ADD COLUMN IF NOT EXISTS requested_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE design_explorations ADD COLUMN IF NOT EXISTS worker_id text;
+ALTER TABLE design_explorations ADD COLUMN IF NOT EXISTS heartbeat_at timestamp;
+ALTER TABLE design_explorations ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS design_explorations_status_idx ON design_explorations (status);
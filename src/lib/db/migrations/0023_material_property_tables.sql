@@ -0,0 +1,3 @@
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS conductivity_table jsonb;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS specific_heat_table jsonb;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS emissivity_table jsonb;
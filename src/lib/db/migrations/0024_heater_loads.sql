@@ -0,0 +1,3 @@
+ALTER TYPE heat_load_type ADD VALUE IF NOT EXISTS 'heater';
+ALTER TABLE heat_loads ADD COLUMN IF NOT EXISTS heater_params jsonb;
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS heater_results jsonb;
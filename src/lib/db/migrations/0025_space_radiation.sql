@@ -0,0 +1,3 @@
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS radiates_to_space boolean NOT NULL DEFAULT false;
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS space_view_factor double precision;
+ALTER TABLE simulation_results ADD COLUMN IF NOT EXISTS space_flow jsonb;
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "node_groups" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "model_id" uuid NOT NULL REFERENCES "thermal_models"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "parent_id" uuid REFERENCES "node_groups"("id") ON DELETE CASCADE,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS node_groups_model_id_idx ON node_groups (model_id);
+
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES node_groups(id) ON DELETE SET NULL;
+
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'group.created';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'group.updated';
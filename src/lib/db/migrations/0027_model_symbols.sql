@@ -0,0 +1,5 @@
+ALTER TABLE thermal_models ADD COLUMN IF NOT EXISTS symbols jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS expressions jsonb;
+ALTER TABLE conductors ADD COLUMN IF NOT EXISTS expressions jsonb;
+ALTER TABLE heat_loads ADD COLUMN IF NOT EXISTS expressions jsonb;
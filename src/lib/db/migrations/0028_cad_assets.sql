@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "cad_assets" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL REFERENCES "projects"("id") ON DELETE CASCADE,
+  "model_id" uuid NOT NULL REFERENCES "thermal_models"("id") ON DELETE CASCADE,
+  "file_name" text NOT NULL,
+  "step_file" bytea,
+  "faces" jsonb NOT NULL,
+  "bounding_box" jsonb NOT NULL,
+  "total_surface_area" double precision NOT NULL,
+  "uploaded_by" uuid REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS cad_assets_model_id_idx ON cad_assets (model_id);
+
+ALTER TABLE thermal_models ADD COLUMN IF NOT EXISTS cad_asset_id uuid REFERENCES cad_assets(id) ON DELETE SET NULL;
+ALTER TABLE thermal_models ADD COLUMN IF NOT EXISTS surface_node_mappings jsonb DEFAULT '[]'::jsonb NOT NULL;
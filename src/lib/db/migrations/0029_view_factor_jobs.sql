@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "view_factor_jobs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "model_id" uuid NOT NULL REFERENCES "thermal_models"("id") ON DELETE CASCADE,
+  "cad_asset_id" uuid REFERENCES "cad_assets"("id") ON DELETE SET NULL,
+  "config" jsonb NOT NULL,
+  "status" "analysis_status" DEFAULT 'pending' NOT NULL,
+  "progress" integer DEFAULT 0 NOT NULL,
+  "result" jsonb,
+  "error_message" text,
+  "requested_by" uuid REFERENCES "users"("id") ON DELETE SET NULL,
+  "worker_id" text,
+  "heartbeat_at" timestamp,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "completed_at" timestamp
+);
+CREATE INDEX IF NOT EXISTS view_factor_jobs_model_id_idx ON view_factor_jobs (model_id);
+CREATE INDEX IF NOT EXISTS view_factor_jobs_status_idx ON view_factor_jobs (status);
@@ -0,0 +1 @@
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS specularity double precision NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+ALTER TABLE thermal_models ADD COLUMN IF NOT EXISTS branched_from_model_id uuid REFERENCES thermal_models(id) ON DELETE SET NULL;
+ALTER TABLE thermal_models ADD COLUMN IF NOT EXISTS branched_from_snapshot_id uuid REFERENCES model_snapshots(id) ON DELETE SET NULL;
+
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'model.restored';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'model.branched';
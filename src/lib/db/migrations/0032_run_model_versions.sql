@@ -0,0 +1,2 @@
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS model_version integer;
+ALTER TABLE simulation_runs ADD COLUMN IF NOT EXISTS snapshot_id uuid REFERENCES model_snapshots(id) ON DELETE SET NULL;
@@ -0,0 +1,18 @@
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS coating_id uuid REFERENCES materials(id) ON DELETE SET NULL;
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS thickness double precision;
+ALTER TABLE thermal_nodes ADD COLUMN IF NOT EXISTS property_overrides jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Values typed on nodes that already had a material stay as they are
+UPDATE thermal_nodes
+SET property_overrides = (
+  SELECT coalesce(jsonb_agg(field), '[]'::jsonb)
+  FROM (
+    SELECT 'capacitance' AS field WHERE capacitance IS NOT NULL
+    UNION ALL SELECT 'absorptivity' WHERE absorptivity IS NOT NULL
+    UNION ALL SELECT 'emissivity' WHERE emissivity IS NOT NULL
+  ) typed
+)
+WHERE material_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS thermal_nodes_material_id_idx ON thermal_nodes (material_id);
+CREATE INDEX IF NOT EXISTS thermal_nodes_coating_id_idx ON thermal_nodes (coating_id);
@@ -0,0 +1,44 @@
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS absorptivity_eol double precision;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS emissivity_eol double precision;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS absorptivity_per_year double precision;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS emissivity_per_year double precision;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS sources jsonb;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS org_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS updated_at timestamp NOT NULL DEFAULT now();
+CREATE INDEX IF NOT EXISTS materials_org_id_idx ON materials (org_id);
+
+CREATE TABLE IF NOT EXISTS "material_revisions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "material_id" uuid NOT NULL REFERENCES "materials"("id") ON DELETE CASCADE,
+  "revision" integer NOT NULL,
+  "data" jsonb NOT NULL,
+  "note" text,
+  "changed_by" uuid REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "material_revisions_material_revision_unique" UNIQUE ("material_id", "revision")
+);
+
+-- Existing materials start their history at revision 1
+INSERT INTO "material_revisions" ("material_id", "revision", "data", "changed_by")
+SELECT m.id, 1, jsonb_build_object(
+  'name', m.name,
+  'category', m.category,
+  'absorptivity', m.absorptivity,
+  'emissivity', m.emissivity,
+  'conductivity', m.conductivity,
+  'specificHeat', m.specific_heat,
+  'density', m.density,
+  'tempRangeMin', m.temp_range_min,
+  'tempRangeMax', m.temp_range_max,
+  'conductivityTable', m.conductivity_table,
+  'specificHeatTable', m.specific_heat_table,
+  'emissivityTable', m.emissivity_table,
+  'absorptivityEol', NULL,
+  'emissivityEol', NULL,
+  'absorptivityPerYear', NULL,
+  'emissivityPerYear', NULL,
+  'sources', NULL
+), m.user_id
+FROM materials m
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "mli_blankets" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "model_id" uuid NOT NULL REFERENCES "thermal_models"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "node_id" uuid NOT NULL REFERENCES "thermal_nodes"("id") ON DELETE CASCADE,
+  "layer_count" integer NOT NULL,
+  "effective_emittance" double precision NOT NULL,
+  "outer_absorptivity" double precision NOT NULL,
+  "outer_emissivity" double precision NOT NULL,
+  "area" double precision NOT NULL,
+  "seam_degradation" double precision DEFAULT 0 NOT NULL,
+  "outer_node_id" uuid REFERENCES "thermal_nodes"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS mli_blankets_model_id_idx ON mli_blankets (model_id);
+CREATE INDEX IF NOT EXISTS mli_blankets_node_id_idx ON mli_blankets (node_id);
+
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'blanket.created';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'blanket.updated';
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'blanket.deleted';
@@ -0,0 +1,3 @@
+ALTER TABLE exploration_results ADD COLUMN IF NOT EXISTS objectives jsonb;
+ALTER TABLE exploration_results ADD COLUMN IF NOT EXISTS generation integer;
+ALTER TABLE exploration_results ADD COLUMN IF NOT EXISTS pareto boolean NOT NULL DEFAULT false;
@@ -0,0 +1 @@
+ALTER TABLE design_explorations ADD COLUMN IF NOT EXISTS surrogate jsonb;
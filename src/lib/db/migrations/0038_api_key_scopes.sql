@@ -0,0 +1,5 @@
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes jsonb NOT NULL DEFAULT '["read","simulate","edit"]';
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS project_ids jsonb;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_limit_per_minute integer;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_window_start timestamp;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_window_count integer NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+ALTER TABLE model_snapshots ADD COLUMN IF NOT EXISTS is_run_inputs boolean NOT NULL DEFAULT false;
+UPDATE model_snapshots SET is_run_inputs = true
+  WHERE description = 'Simulation run inputs'
+    AND id IN (SELECT snapshot_id FROM simulation_runs WHERE snapshot_id IS NOT NULL);
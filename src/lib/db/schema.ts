@@ -12,8 +12,27 @@ import {
   primaryKey,
   customType,
   unique,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 
+// ── Custom Types ───────────────────────────────────────────────────────────
+
+const bytea = customType<{ data: Buffer; driverData: string }>({
+  dataType() {
+    return 'bytea';
+  },
+  toDriver(value: Buffer): string {
+    return `\\x${value.toString('hex')}`;
+  },
+  fromDriver(value: string): Buffer {
+    // Neon HTTP returns hex-encoded string with \x prefix
+    const hex = typeof value === 'string' && value.startsWith('\\x')
+      ? value.slice(2)
+      : typeof value === 'string' ? value : '';
+    return Buffer.from(hex, 'hex');
+  },
+});
+
 // ── Enums ──────────────────────────────────────────────────────────────────
 
 export const nodeTypeEnum = pgEnum('node_type', [
@@ -33,6 +52,7 @@ export const heatLoadTypeEnum = pgEnum('heat_load_type', [
   'constant',
   'time_varying',
   'orbital',
+  'heater',
 ]);
 
 export const materialCategoryEnum = pgEnum('material_category', [
@@ -294,6 +314,25 @@ export interface OrbitalConfig {
   epoch: string; // ISO date
 }
 
+/** Named model parameter that field expressions refer to. */
+export interface ModelSymbol {
+  name: string;
+  value: number;
+  description?: string;
+}
+
+/** Field name → expression over the model's symbols, e.g. { area: '2 * panel_width' }. */
+export type FieldExpressions = Record<string, string>;
+
+/** Node fields that keep their typed value instead of deriving from the material. */
+export type NodePropertyOverride = 'capacitance' | 'absorptivity' | 'emissivity';
+
+/** CAD face assigned to a thermal node. */
+export interface SurfaceNodeMapping {
+  faceId: string;
+  nodeId: string;
+}
+
 export const thermalModels = pgTable(
   'thermal_models',
   {
@@ -304,6 +343,24 @@ export const thermalModels = pgTable(
     name: text('name').notNull(),
     description: text('description').default(''),
     orbitalConfig: jsonb('orbital_config').$type<OrbitalConfig>(),
+    symbols: jsonb('symbols').$type<ModelSymbol[]>().default([]).notNull(),
+    /** Geometry shown in the editor; older assets stay for snapshots */
+    cadAssetId: uuid('cad_asset_id').references((): AnyPgColumn => cadAssets.id, {
+      onDelete: 'set null',
+    }),
+    surfaceNodeMappings: jsonb('surface_node_mappings')
+      .$type<SurfaceNodeMapping[]>()
+      .default([])
+      .notNull(),
+    /** Set on models branched from a snapshot of another model */
+    branchedFromModelId: uuid('branched_from_model_id').references(
+      (): AnyPgColumn => thermalModels.id,
+      { onDelete: 'set null' },
+    ),
+    branchedFromSnapshotId: uuid('branched_from_snapshot_id').references(
+      (): AnyPgColumn => modelSnapshots.id,
+      { onDelete: 'set null' },
+    ),
     version: integer('version').default(1).notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
@@ -317,6 +374,14 @@ export interface ModelSnapshotData {
   nodes: unknown[];
   conductors: unknown[];
   heatLoads: unknown[];
+  groups?: unknown[];
+  /** MLI blankets; absent from snapshots taken before blankets were recorded */
+  blankets?: unknown[];
+  /** Revision of each material and coating the nodes use, as applied by the solver */
+  materials?: Array<{ id: string; name: string; revision: number }>;
+  symbols?: ModelSymbol[];
+  cadAssetId?: string | null;
+  surfaceNodeMappings?: SurfaceNodeMapping[];
   orbitalConfig: OrbitalConfig | null;
 }
 
@@ -330,6 +395,8 @@ export const modelSnapshots = pgTable(
     version: integer('version').notNull(),
     description: text('description').default('Auto-save').notNull(),
     snapshot: jsonb('snapshot').$type<ModelSnapshotData>().notNull(),
+    /** Recorded as a simulation run's inputs; kept out of the version history */
+    isRunInputs: boolean('is_run_inputs').default(false).notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
@@ -337,6 +404,72 @@ export const modelSnapshots = pgTable(
   }),
 );
 
+/**
+ * Tessellated CAD face. Vertex data is base64 of the little-endian typed
+ * array (Float32 positions and normals, Uint32 indices).
+ */
+export interface StoredCadFace {
+  id: string;
+  name: string;
+  positions: string;
+  normals: string;
+  indices: string;
+  color: [number, number, number];
+  surfaceArea: number;
+}
+
+export interface CadBoundingBox {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+/**
+ * Imported STEP file and its tessellation. Rows are never updated — a new
+ * import adds a row and repoints thermal_models.cad_asset_id.
+ */
+export const cadAssets = pgTable(
+  'cad_assets',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    projectId: uuid('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    modelId: uuid('model_id')
+      .notNull()
+      .references((): AnyPgColumn => thermalModels.id, { onDelete: 'cascade' }),
+    fileName: text('file_name').notNull(),
+    /** Original STEP file; null when the geometry came from a .vxm import */
+    stepFile: bytea('step_file'),
+    faces: jsonb('faces').$type<StoredCadFace[]>().notNull(),
+    boundingBox: jsonb('bounding_box').$type<CadBoundingBox>().notNull(),
+    totalSurfaceArea: doublePrecision('total_surface_area').notNull(),
+    uploadedBy: uuid('uploaded_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    modelIdIdx: index('cad_assets_model_id_idx').on(table.modelId),
+  }),
+);
+
+/** Submodel grouping of nodes (battery pack, radiator panel, ...); groups nest. */
+export const nodeGroups = pgTable(
+  'node_groups',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    modelId: uuid('model_id')
+      .notNull()
+      .references(() => thermalModels.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    parentId: uuid('parent_id').references((): AnyPgColumn => nodeGroups.id, {
+      onDelete: 'cascade',
+    }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    modelIdIdx: index('node_groups_model_id_idx').on(table.modelId),
+  }),
+);
+
 export const thermalNodes = pgTable(
   'thermal_nodes',
   {
@@ -352,14 +485,31 @@ export const thermalNodes = pgTable(
     materialId: uuid('material_id').references(() => materials.id, {
       onDelete: 'set null',
     }),
+    // Surface finish; supplies α/ε ahead of the bulk material
+    coatingId: uuid('coating_id').references(() => materials.id, {
+      onDelete: 'set null',
+    }),
     area: doublePrecision('area'), // m², surface area
     mass: doublePrecision('mass'), // kg
-    absorptivity: doublePrecision('absorptivity'), // α_s override
-    emissivity: doublePrecision('emissivity'), // ε_IR override
+    thickness: doublePrecision('thickness'), // m, for C = ρ·A·t·cp without a mass
+    absorptivity: doublePrecision('absorptivity'), // α_s
+    emissivity: doublePrecision('emissivity'), // ε_IR
+    // Fields typed by hand; the rest follow the material (see solver/node-properties.ts)
+    propertyOverrides: jsonb('property_overrides')
+      .$type<NodePropertyOverride[]>()
+      .default([])
+      .notNull(),
+    radiatesToSpace: boolean('radiates_to_space').default(false).notNull(),
+    spaceViewFactor: doublePrecision('space_view_factor'), // F to space, null = 1
+    specularity: doublePrecision('specularity').default(0).notNull(), // specular share of reflectance
+    groupId: uuid('group_id').references(() => nodeGroups.id, { onDelete: 'set null' }),
+    expressions: jsonb('expressions').$type<FieldExpressions>(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
     modelIdIdx: index('thermal_nodes_model_id_idx').on(table.modelId),
+    materialIdIdx: index('thermal_nodes_material_id_idx').on(table.materialId),
+    coatingIdIdx: index('thermal_nodes_coating_id_idx').on(table.coatingId),
   }),
 );
 
@@ -383,6 +533,7 @@ export const conductors = pgTable(
     viewFactor: doublePrecision('view_factor'), // F for radiation
     emissivity: doublePrecision('emissivity'), // effective ε for radiation
     conductanceData: jsonb('conductance_data').$type<ConductanceData>(), // for heat_pipe
+    expressions: jsonb('expressions').$type<FieldExpressions>(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
@@ -413,6 +564,14 @@ export interface OrbitalHeatLoadParams {
   surfaceNormal?: { x: number; y: number; z: number };
 }
 
+/** Thermostat control for a 'heater' heat load. */
+export interface HeaterParams {
+  senseNodeId: string; // node whose temperature the thermostat reads
+  onSetpoint: number; // K — switch on at or below
+  offSetpoint: number; // K — switch off at or above; offSetpoint - onSetpoint is the deadband
+  maxPower: number; // W while on
+}
+
 export const heatLoads = pgTable(
   'heat_loads',
   {
@@ -428,6 +587,8 @@ export const heatLoads = pgTable(
     value: doublePrecision('value'), // W for constant
     timeValues: jsonb('time_values').$type<TimeValuePair[]>(), // piecewise linear
     orbitalParams: jsonb('orbital_params').$type<OrbitalHeatLoadParams>(),
+    heaterParams: jsonb('heater_params').$type<HeaterParams>(),
+    expressions: jsonb('expressions').$type<FieldExpressions>(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
@@ -435,6 +596,54 @@ export const heatLoads = pgTable(
   }),
 );
 
+/**
+ * Multi-layer insulation blanket over a node's exposed surface. The blanket
+ * owns a generated outer-layer node, which takes over the covered node's
+ * orbital loads and view to space, and an ε* radiation conductor between the
+ * two (see lib/mli/blankets.ts).
+ */
+export const mliBlankets = pgTable(
+  'mli_blankets',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    modelId: uuid('model_id')
+      .notNull()
+      .references(() => thermalModels.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    nodeId: uuid('node_id')
+      .notNull()
+      .references(() => thermalNodes.id, { onDelete: 'cascade' }),
+    layerCount: integer('layer_count').notNull(),
+    effectiveEmittance: doublePrecision('effective_emittance').notNull(), // ε*
+    outerAbsorptivity: doublePrecision('outer_absorptivity').notNull(), // cover α_s
+    outerEmissivity: doublePrecision('outer_emissivity').notNull(), // cover ε_IR
+    area: doublePrecision('area').notNull(), // m²
+    // Fractional increase of ε* for seams and penetrations
+    seamDegradation: doublePrecision('seam_degradation').default(0).notNull(),
+    outerNodeId: uuid('outer_node_id').references(() => thermalNodes.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    modelIdIdx: index('mli_blankets_model_id_idx').on(table.modelId),
+    nodeIdIdx: index('mli_blankets_node_id_idx').on(table.nodeId),
+  }),
+);
+
+/** One point of a tabulated material property, e.g. k(T) or cp(T). */
+export interface MaterialPropertyPoint {
+  temperature: number; // K
+  value: number;
+}
+
+/** Property name (e.g. 'absorptivityEol') → where its value comes from. */
+export type MaterialSources = Record<string, string>;
+
+/** Beginning- or end-of-life coating optics for a run. */
+export type OpticalLifeStage = 'bol' | 'eol';
+
 export const materials = pgTable(
   'materials',
   {
@@ -448,6 +657,19 @@ export const materials = pgTable(
     density: doublePrecision('density').notNull(),
     tempRangeMin: doublePrecision('temp_range_min').notNull(),
     tempRangeMax: doublePrecision('temp_range_max').notNull(),
+    // Optional temperature-dependent tables; the scalars above are the reference values
+    conductivityTable: jsonb('conductivity_table').$type<MaterialPropertyPoint[]>(), // W/(m·K)
+    specificHeatTable: jsonb('specific_heat_table').$type<MaterialPropertyPoint[]>(), // J/(kg·K)
+    emissivityTable: jsonb('emissivity_table').$type<MaterialPropertyPoint[]>(),
+    // End-of-life optics; the scalars above are beginning-of-life. Null = no degradation data
+    absorptivityEol: doublePrecision('absorptivity_eol'),
+    emissivityEol: doublePrecision('emissivity_eol'),
+    // Degradation per year in orbit, for EOL at a given mission duration
+    absorptivityPerYear: doublePrecision('absorptivity_per_year'),
+    emissivityPerYear: doublePrecision('emissivity_per_year'),
+    // Property → source reference (test report, datasheet, handbook)
+    sources: jsonb('sources').$type<MaterialSources>(),
+    revision: integer('revision').default(1).notNull(),
     isDefault: boolean('is_default').default(false).notNull(),
     userId: uuid('user_id').references(() => users.id, {
       onDelete: 'cascade',
@@ -455,11 +677,44 @@ export const materials = pgTable(
     projectId: uuid('project_id').references(() => projects.id, {
       onDelete: 'cascade',
     }),
+    // Organisation library; editable by the org's owners and admins
+    orgId: uuid('org_id').references(() => organizations.id, {
+      onDelete: 'cascade',
+    }),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
     isDefaultIdx: index('materials_is_default_idx').on(table.isDefault),
     userIdIdx: index('materials_user_id_idx').on(table.userId),
+    orgIdIdx: index('materials_org_id_idx').on(table.orgId),
+  }),
+);
+
+/** The material's property values as of one revision. */
+export type MaterialRevisionData = Omit<
+  typeof materials.$inferSelect,
+  'id' | 'revision' | 'isDefault' | 'userId' | 'projectId' | 'orgId' | 'createdAt' | 'updatedAt'
+>;
+
+export const materialRevisions = pgTable(
+  'material_revisions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    materialId: uuid('material_id')
+      .notNull()
+      .references(() => materials.id, { onDelete: 'cascade' }),
+    revision: integer('revision').notNull(),
+    data: jsonb('data').$type<MaterialRevisionData>().notNull(),
+    note: text('note'),
+    changedBy: uuid('changed_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+  },
+  (table) => ({
+    materialRevisionUnique: unique('material_revisions_material_revision_unique').on(
+      table.materialId,
+      table.revision,
+    ),
   }),
 );
 
@@ -472,6 +727,9 @@ export interface SimulationConfigData {
   minStep?: number;
   maxStep?: number;
   outputInterval?: number; // seconds, how often to record results
+  solverMethod?: 'rk4' | 'implicit_euler';
+  opticalLife?: OpticalLifeStage; // default 'bol'
+  missionYears?: number; // EOL from the per-year degradation rates, when set
 }
 
 export interface EnvironmentPreset {
@@ -495,6 +753,8 @@ export interface SimulationConfigFull {
     tolerance: number;
   };
   environment: EnvironmentPreset;
+  opticalLife?: OpticalLifeStage;
+  missionYears?: number;
 }
 
 export const simulationConfigs = pgTable(
@@ -526,18 +786,46 @@ export const simulationRuns = pgTable(
     status: simulationStatusEnum('status').default('pending').notNull(),
     simulationType: simulationTypeEnum('simulation_type').notNull(),
     config: jsonb('config').$type<SimulationConfigData>().notNull(),
+    environment: jsonb('environment').$type<EnvironmentPreset>(), // null = default constants
     progress: integer('progress').default(0).notNull(),
     startedAt: timestamp('started_at', { mode: 'date' }),
     completedAt: timestamp('completed_at', { mode: 'date' }),
     errorMessage: text('error_message'),
     energyBalanceError: doublePrecision('energy_balance_error'),
+    heaterResults: jsonb('heater_results').$type<HeaterRunResult[]>(),
+    /** thermal_models.version when the run was queued; null for runs from before it was recorded */
+    modelVersion: integer('model_version'),
+    /** Immutable copy of the model's nodes, conductors and loads the run was queued with */
+    snapshotId: uuid('snapshot_id').references(() => modelSnapshots.id, {
+      onDelete: 'set null',
+    }),
+    // Job queue bookkeeping — see src/lib/jobs/queue.ts
+    requestedBy: uuid('requested_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    workerId: text('worker_id'), // null for runs solved inline by another job
+    heartbeatAt: timestamp('heartbeat_at', { mode: 'date' }),
+    attempts: integer('attempts').default(0).notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
     modelIdIdx: index('simulation_runs_model_id_idx').on(table.modelId),
+    statusIdx: index('simulation_runs_status_idx').on(table.status),
   }),
 );
 
+/** Per-heater thermostat behaviour over a run — see solver/heater.ts. */
+export interface HeaterRunResult {
+  heatLoadId: string;
+  nodeId: string;
+  senseNodeId: string;
+  timeline: Array<{ time: number; on: boolean }>;
+  dutyCycle: number;
+  averagePower: number; // W
+  orbitAveragePower: number[]; // W per orbit
+  energy: number; // J
+}
+
 export interface NodeTemperatureHistory {
   times: number[];
   temperatures: number[];
@@ -549,6 +837,12 @@ export interface ConductorFlowHistory {
   flows: number[];
 }
 
+/** Net radiation from a node to deep space (W, positive leaving the node). */
+export interface SpaceFlowHistory {
+  times: number[];
+  flows: number[];
+}
+
 export const sensitivityStatusEnum = pgEnum('sensitivity_status', [
   'pending',
   'running',
@@ -558,7 +852,7 @@ export const sensitivityStatusEnum = pgEnum('sensitivity_status', [
 
 export interface SensitivityEntry {
   parameterId: string;
-  parameterType: 'node_property' | 'conductor' | 'heat_load';
+  parameterType: 'node_property' | 'conductor' | 'heat_load' | 'symbol';
   entityId: string;
   nodeId: string;
   dT_dp: number;
@@ -596,6 +890,7 @@ export const simulationResults = pgTable(
       .references(() => thermalNodes.id, { onDelete: 'cascade' }),
     timeValues: jsonb('time_values').$type<NodeTemperatureHistory>().notNull(),
     conductorFlows: jsonb('conductor_flows').$type<ConductorFlowHistory[]>(),
+    spaceFlow: jsonb('space_flow').$type<SpaceFlowHistory>(), // nodes that radiate to space
   },
   (table) => ({
     runIdIdx: index('simulation_results_run_id_idx').on(table.runId),
@@ -604,6 +899,9 @@ export const simulationResults = pgTable(
 
 // ── API Keys ───────────────────────────────────────────────────────────────
 
+/** read: GET routes; simulate: queue runs; edit: create/update/delete */
+export type ApiKeyScope = 'read' | 'simulate' | 'edit';
+
 export const apiKeys = pgTable(
   'api_keys',
   {
@@ -617,6 +915,17 @@ export const apiKeys = pgTable(
     keyHash: text('key_hash').notNull().unique(),
     keyHint: text('key_hint').notNull(),
     label: text('label').notNull(),
+    scopes: jsonb('scopes')
+      .$type<ApiKeyScope[]>()
+      .notNull()
+      .default(['read', 'simulate', 'edit']),
+    // null = every project the user can access
+    projectIds: jsonb('project_ids').$type<string[]>(),
+    // null = DEFAULT_API_KEY_RATE_LIMIT
+    rateLimitPerMinute: integer('rate_limit_per_minute'),
+    // Fixed one-minute window counter, updated atomically on each request
+    rateWindowStart: timestamp('rate_window_start', { mode: 'date' }),
+    rateWindowCount: integer('rate_window_count').default(0).notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     lastUsedAt: timestamp('last_used_at', { mode: 'date' }),
     expiresAt: timestamp('expires_at', { mode: 'date' }),
@@ -658,11 +967,19 @@ export const failureAnalyses = pgTable(
       onDelete: 'set null',
     }),
     status: analysisStatusEnum('status').default('pending').notNull(),
+    errorMessage: text('error_message'),
+    requestedBy: uuid('requested_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    workerId: text('worker_id'),
+    heartbeatAt: timestamp('heartbeat_at', { mode: 'date' }),
+    attempts: integer('attempts').default(0).notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     completedAt: timestamp('completed_at', { mode: 'date' }),
   },
   (table) => ({
     modelIdIdx: index('failure_analyses_model_id_idx').on(table.modelId),
+    statusIdx: index('failure_analyses_status_idx').on(table.status),
   }),
 );
 
@@ -687,24 +1004,6 @@ export const failureCases = pgTable(
   }),
 );
 
-// ── Custom Types ───────────────────────────────────────────────────────────
-
-const bytea = customType<{ data: Buffer; driverData: string }>({
-  dataType() {
-    return 'bytea';
-  },
-  toDriver(value: Buffer): string {
-    return `\\x${value.toString('hex')}`;
-  },
-  fromDriver(value: string): Buffer {
-    // Neon HTTP returns hex-encoded string with \x prefix
-    const hex = typeof value === 'string' && value.startsWith('\\x')
-      ? value.slice(2)
-      : typeof value === 'string' ? value : '';
-    return Buffer.from(hex, 'hex');
-  },
-});
-
 // ── Report Generation ──────────────────────────────────────────────────────
 
 export const reportStatusEnum = pgEnum('report_status', [
@@ -761,11 +1060,21 @@ export const designExplorations = pgTable(
     status: explorationStatusEnum('status').default('pending').notNull(),
     numSamples: integer('num_samples').notNull(),
     completedSamples: integer('completed_samples').default(0).notNull(),
+    errorMessage: text('error_message'),
+    // Gaussian-process surrogate hyperparameters, fitted on first use (SurrogateFit)
+    surrogate: jsonb('surrogate'),
+    requestedBy: uuid('requested_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    workerId: text('worker_id'),
+    heartbeatAt: timestamp('heartbeat_at', { mode: 'date' }),
+    attempts: integer('attempts').default(0).notNull(),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
     completedAt: timestamp('completed_at', { mode: 'date' }),
   },
   (table) => ({
     modelIdIdx: index('design_explorations_model_id_idx').on(table.modelId),
+    statusIdx: index('design_explorations_status_idx').on(table.status),
   }),
 );
 
@@ -780,6 +1089,10 @@ export const explorationResults = pgTable(
     paramValues: jsonb('param_values').notNull(),
     nodeResults: jsonb('node_results').notNull(),
     feasible: boolean('feasible').notNull().default(true),
+    // Optimizations only: objective values, NSGA-II generation, Pareto membership
+    objectives: jsonb('objectives'),
+    generation: integer('generation'),
+    pareto: boolean('pareto').notNull().default(false),
     createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
   },
   (table) => ({
@@ -787,6 +1100,64 @@ export const explorationResults = pgTable(
   }),
 );
 
+// ── View Factors ───────────────────────────────────────────────────────────
+
+export interface ViewFactorJobConfig {
+  raysPerSurface: number;
+  /** Pairs below this view factor get no new conductor */
+  minViewFactor: number;
+  seed: number;
+}
+
+export interface ViewFactorJobResult {
+  nodeIds: string[];
+  /** Surface areas from the geometry (m²) */
+  areas: number[];
+  /** F_ij after reciprocity and closure enforcement — exchange factors E_ij
+   *  when some surfaces are specular */
+  matrix: number[][];
+  toSpace: number[];
+  /** ρs = specularity·(1 − ε) of each surface as traced; absent = all diffuse */
+  specularReflectance?: number[];
+  /** Worst reciprocity / closure error of the raw estimates */
+  rawReciprocityError: number;
+  rawClosureError: number;
+  conductorsCreated: number;
+  conductorsUpdated: number;
+  nodesUpdated: number;
+}
+
+/** Batch Monte Carlo view factor run over a model's stored CAD geometry. */
+export const viewFactorJobs = pgTable(
+  'view_factor_jobs',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    modelId: uuid('model_id')
+      .notNull()
+      .references(() => thermalModels.id, { onDelete: 'cascade' }),
+    cadAssetId: uuid('cad_asset_id').references(() => cadAssets.id, {
+      onDelete: 'set null',
+    }),
+    config: jsonb('config').$type<ViewFactorJobConfig>().notNull(),
+    status: analysisStatusEnum('status').default('pending').notNull(),
+    progress: integer('progress').default(0).notNull(),
+    result: jsonb('result').$type<ViewFactorJobResult>(),
+    errorMessage: text('error_message'),
+    requestedBy: uuid('requested_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    workerId: text('worker_id'),
+    heartbeatAt: timestamp('heartbeat_at', { mode: 'date' }),
+    attempts: integer('attempts').default(0).notNull(),
+    createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+    completedAt: timestamp('completed_at', { mode: 'date' }),
+  },
+  (table) => ({
+    modelIdIdx: index('view_factor_jobs_model_id_idx').on(table.modelId),
+    statusIdx: index('view_factor_jobs_status_idx').on(table.status),
+  }),
+);
+
 // ── Collaboration & Review ─────────────────────────────────────────────────
 
 export const sharePermissionEnum = pgEnum('share_permission', ['view', 'edit']);
@@ -885,9 +1256,11 @@ export const advisorMonthlyUsage = pgTable(
 
 export const auditActionEnum = pgEnum('audit_action', [
   'project.created', 'project.updated', 'project.deleted',
-  'model.created', 'model.updated', 'model.deleted',
+  'model.created', 'model.updated', 'model.deleted', 'model.restored', 'model.branched',
   'node.created', 'node.updated', 'node.deleted',
   'conductor.created', 'conductor.updated', 'conductor.deleted',
+  'group.created', 'group.updated',
+  'blanket.created', 'blanket.updated', 'blanket.deleted',
   'simulation.run', 'simulation.completed',
   'share.created', 'share.revoked',
   'comment.created', 'comment.resolved',
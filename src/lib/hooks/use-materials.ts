@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import type { NodePropertyMaterial } from '@/lib/solver/node-properties';
+
+export interface MaterialOption extends NodePropertyMaterial {
+  id: string;
+  name: string;
+  category: string;
+  absorptivity: number;
+  density: number;
+}
+
+let cached: Promise<MaterialOption[]> | null = null;
+
+/** Materials the user can assign (defaults plus their own), fetched once per page load */
+export function useMaterials(): MaterialOption[] {
+  const [materials, setMaterials] = useState<MaterialOption[]>([]);
+
+  useEffect(() => {
+    cached ??= fetch('/api/materials')
+      .then((res) => (res.ok ? res.json() : { materials: [] }))
+      .then((data) => (Array.isArray(data.materials) ? data.materials : []))
+      .catch(() => {
+        cached = null;
+        return [];
+      });
+    let active = true;
+    cached.then((list) => {
+      if (active) setMaterials(list);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return materials;
+}
@@ -3,7 +3,9 @@
  *
  * Supports both small-field (8-char fixed-width columns) and
  * free-field (comma-delimited) card formats. Continuation lines
- * (leading +, *, or whitespace) are merged before parsing.
+ * (leading +, *, comma or whitespace) are merged before parsing, so
+ * field i of a card is field i of the logical card: fields 1–8 on the
+ * first line, 9–16 on the first continuation, and so on.
  *
  * Mapped card types:
  *   GRID        → grid points (x, y, z)
@@ -16,6 +18,21 @@
  *   SPC / SPC1  → single-point constraint (fixed temperature)
  *   TEMP        → node initial temperature
  *   TEMPD       → default initial temperature
+ *   QBDY1/2/3   → heat flux into surface elements
+ *   QHBDY       → heat flux onto an area, line or point of grids
+ *   QVOL        → volumetric heat addition
+ *   LOAD        → combination of load sets
+ *   RADBC       → radiation from surfaces to an ambient point
+ *   RADM        → surface absorptivity / emissivity
+ *   RADSET      → radiation cavities in use
+ *   RADLST      → surface elements of a cavity
+ *   RADMTX      → cavity exchange factors (A·F)
+ *   CONV        → free convection from a surface to ambient points
+ *   CELAS1/2    → scalar conductance between grids (with PELAS)
+ *   CROD/CONROD → conduction rod (with PROD)
+ *
+ * The case control `LOAD = n` selection, if present, is returned as
+ * `loadSetId`.
  */
 
 // ── Public types ────────────────────────────────────────────────────────────
@@ -115,6 +132,116 @@ export interface BdfTempd {
   temperature: number;
 }
 
+/** QBDY1: uniform flux Q0 (W/m²) into surface elements */
+export interface BdfQbdy1 {
+  sid: number;
+  q0: number;
+  eids: number[];
+}
+
+/** QBDY2: flux (W/m²) at each grid of one surface element */
+export interface BdfQbdy2 {
+  sid: number;
+  eid: number;
+  q0: number[];
+}
+
+/** QBDY3: uniform flux Q0 (W/m²) into surface elements, thermostat-controlled */
+export interface BdfQbdy3 {
+  sid: number;
+  q0: number;
+  cntrlnd: number;
+  eids: number[];
+}
+
+/** QVOL: volumetric heat addition (W/m³) in conduction elements */
+export interface BdfQvol {
+  sid: number;
+  qvol: number;
+  cntrlnd: number;
+  eids: number[];
+}
+
+/** QHBDY: flux Q0 onto a point, line or area defined directly by grids */
+export interface BdfQhbdy {
+  sid: number;
+  flag: string; // POINT, LINE, REV, AREA3, AREA4, AREA6, AREA8
+  q0: number;
+  af: number;   // area factor
+  grids: number[];
+}
+
+/** LOAD: SID = S · Σ Si · Li */
+export interface BdfLoad {
+  sid: number;
+  scale: number;
+  sets: Array<{ scale: number; sid: number }>;
+}
+
+export interface BdfRadbc {
+  nodamb: number;  // ambient grid
+  famb: number;    // view factor to ambient
+  cntrlnd: number;
+  eids: number[];
+}
+
+export interface BdfRadm {
+  radmid: number;
+  absorb: number;
+  emissivity: number[]; // one per wavelength band
+}
+
+export interface BdfRadlst {
+  icavity: number;
+  mtxtyp: number; // 1 = symmetric (lower triangle given), 2 = full
+  eids: number[];
+}
+
+/** RADMTX: column `index` of a cavity's exchange-factor matrix */
+export interface BdfRadmtx {
+  icavity: number;
+  index: number;
+  values: number[];
+}
+
+export interface BdfConv {
+  eid: number;     // surface element
+  pconid: number;  // PCONV id
+  flmnd: number;
+  cntrlnd: number;
+  ta: number[];    // ambient grid per element grid; blanks are 0
+}
+
+/** CELAS1 (pid → PELAS) or CELAS2 (k given directly) */
+export interface BdfCelas {
+  eid: number;
+  pid?: number;
+  k?: number;
+  g1: number;
+  g2: number; // 0 = grounded
+}
+
+export interface BdfPelas {
+  pid: number;
+  k: number;
+}
+
+/** CROD (pid → PROD) or CONROD (mid and a given directly) */
+export interface BdfCrod {
+  eid: number;
+  pid?: number;
+  mid?: number;
+  a?: number;
+  g1: number;
+  g2: number;
+}
+
+export interface BdfProd {
+  pid: number;
+  mid: number;
+  a: number;
+}
+
 export interface BdfParseResult {
   grids: BdfGrid[];
   chbdye: BdfChbdye[];
@@ -126,6 +253,24 @@ export interface BdfParseResult {
   spc: BdfSpc[];
   temp: BdfTemp[];
   tempd: BdfTempd[];
+  qbdy1: BdfQbdy1[];
+  qbdy2: BdfQbdy2[];
+  qbdy3: BdfQbdy3[];
+  qvol: BdfQvol[];
+  qhbdy: BdfQhbdy[];
+  loads: BdfLoad[];
+  radbc: BdfRadbc[];
+  radm: BdfRadm[];
+  radset: number[]; // cavity ids
+  radlst: BdfRadlst[];
+  radmtx: BdfRadmtx[];
+  conv: BdfConv[];
+  celas: BdfCelas[];
+  pelas: BdfPelas[];
+  crod: BdfCrod[];
+  prod: BdfProd[];
+  /** Load set selected by case control `LOAD = n` */
+  loadSetId?: number;
   warnings: string[];
 }
 
@@ -174,17 +319,62 @@ function int(field: string | undefined): number {
   return isNaN(v) ? 0 : v;
 }
 
+/** Ids from `start` on, expanding `a THRU b` ranges and skipping blanks */
+function idList(fields: string[], start: number): number[] {
+  const ids: number[] = [];
+  for (let i = start; i < fields.length; i++) {
+    if ((fields[i] || '').toUpperCase() === 'THRU' && ids.length > 0) {
+      const last = ids[ids.length - 1];
+      const end = int(fields[++i]);
+      for (let id = last + 1; id <= end; id++) ids.push(id);
+      continue;
+    }
+    const id = int(fields[i]);
+    if (id > 0) ids.push(id);
+  }
+  return ids;
+}
+
+/** Numeric fields from `start` up to the last non-blank one (inner blanks are 0) */
+function numList(fields: string[], start: number, end = fields.length): number[] {
+  let last = Math.min(end, fields.length) - 1;
+  while (last >= start && !fields[last]) last--;
+  const values: number[] = [];
+  for (let i = start; i <= last; i++) values.push(num(fields[i]));
+  return values;
+}
+
 // ── Continuation merging ────────────────────────────────────────────────────
 
+interface MergedCard {
+  /** First physical line of the card */
+  line: string;
+  /** Fields of the logical card */
+  fields: string[];
+}
+
+/**
+ * Pad or cut a line's fields to its data fields. A line holds at most nine
+ * (name + 8, or marker + 8) followed by the continuation marker; longer
+ * free-field lines are kept whole.
+ */
+function dataFields(fields: string[], from: number, to: number): string[] {
+  if (fields.length > 10) return fields.slice(from);
+  const data = fields.slice(from, to);
+  while (data.length < to - from) data.push('');
+  return data;
+}
+
 /**
  * Merge continuation lines into their parent card.
- * Continuation lines start with +, *, or 8+ spaces (small field continuation).
- * We also handle the convention where a line ends with a continuation marker
- * (field 10 = +xxx) and the next line starts with +xxx.
+ * Continuation lines start with +, *, a comma, or 8+ spaces (small field
+ * continuation). We also handle the convention where a line ends with a
+ * continuation marker (field 10 = +xxx) and the next line starts with +xxx.
  */
-function mergeContLines(rawLines: string[]): string[] {
-  const merged: string[] = [];
-  let current = '';
+function mergeContLines(rawLines: string[]): MergedCard[] {
+  const merged: MergedCard[] = [];
+  let current: MergedCard | null = null;
+  let continued = false;
 
   for (const line of rawLines) {
     const trimmed = line.trimStart();
@@ -196,23 +386,23 @@ function mergeContLines(rawLines: string[]): string[] {
     const isCont =
       trimmed.startsWith('+') ||
       trimmed.startsWith('*') ||
-      (line.startsWith('        ') && current !== '');
+      trimmed.startsWith(',') ||
+      (line.startsWith('        ') && current !== null);
 
     if (isCont && current) {
-      // Append fields from continuation line (skip the continuation marker in field 1)
-      if (isFreeField(trimmed)) {
-        // Free-field continuation: skip the first field (continuation marker)
-        const parts = trimmed.split(',');
-        current += ',' + parts.slice(1).join(',');
-      } else {
-        // Small-field continuation: strip the first 8-char field, append rest
-        const rest = trimmed.length > 8 ? trimmed.substring(8) : '';
-        current += rest;
+      // Drop the parent's continuation marker, then append this line's
+      // data fields (skipping its own marker in field 1)
+      if (!continued) {
+        current.fields = dataFields(current.fields, 0, 9);
+        continued = true;
       }
+      const fields = isFreeField(trimmed) ? parseFreeFields(trimmed) : parseSmallFields(line);
+      current.fields.push(...dataFields(fields, 1, 9));
     } else {
       // Flush previous card
       if (current) merged.push(current);
-      current = line;
+      current = { line, fields: parseFields(line.trim()) };
+      continued = false;
     }
   }
   // Flush last card
@@ -349,17 +539,160 @@ function parseTempd(fields: string[]): BdfTempd {
   };
 }
 
+function parseQbdy1(fields: string[]): BdfQbdy1 {
+  return { sid: int(fields[1]), q0: num(fields[2]), eids: idList(fields, 3) };
+}
+
+function parseQbdy2(fields: string[]): BdfQbdy2 {
+  return { sid: int(fields[1]), eid: int(fields[2]), q0: numList(fields, 3, 11) };
+}
+
+function parseQbdy3(fields: string[]): BdfQbdy3 {
+  return {
+    sid: int(fields[1]),
+    q0: num(fields[2]),
+    cntrlnd: int(fields[3]),
+    eids: idList(fields, 4),
+  };
+}
+
+function parseQvol(fields: string[]): BdfQvol {
+  return {
+    sid: int(fields[1]),
+    qvol: num(fields[2]),
+    cntrlnd: int(fields[3]),
+    eids: idList(fields, 4),
+  };
+}
+
+function parseQhbdy(fields: string[]): BdfQhbdy {
+  return {
+    sid: int(fields[1]),
+    flag: (fields[2] || '').toUpperCase(),
+    q0: num(fields[3]),
+    af: num(fields[4]),
+    grids: idList(fields.slice(0, 13), 5),
+  };
+}
+
+function parseLoad(fields: string[]): BdfLoad {
+  // LOAD, SID, S, S1, L1, S2, L2, ...
+  const sets: BdfLoad['sets'] = [];
+  for (let i = 3; i + 1 < fields.length; i += 2) {
+    const sid = int(fields[i + 1]);
+    if (sid === 0) break;
+    sets.push({ scale: num(fields[i]), sid });
+  }
+  return { sid: int(fields[1]), scale: num(fields[2]), sets };
+}
+
+function parseRadbc(fields: string[]): BdfRadbc {
+  return {
+    nodamb: int(fields[1]),
+    famb: fields[2] ? num(fields[2]) : 1.0,
+    cntrlnd: int(fields[3]),
+    eids: idList(fields, 4),
+  };
+}
+
+function parseRadm(fields: string[]): BdfRadm {
+  return {
+    radmid: int(fields[1]),
+    absorb: num(fields[2]),
+    emissivity: numList(fields, 3),
+  };
+}
+
+function parseRadlst(fields: string[]): BdfRadlst {
+  return {
+    icavity: int(fields[1]),
+    mtxtyp: int(fields[2]) || 1,
+    eids: idList(fields, 3),
+  };
+}
+
+function parseRadmtx(fields: string[]): BdfRadmtx {
+  return {
+    icavity: int(fields[1]),
+    index: int(fields[2]),
+    values: numList(fields, 3),
+  };
+}
+
+function parseConv(fields: string[]): BdfConv {
+  const ta: number[] = [];
+  for (let i = 5; i < 13; i++) ta.push(int(fields[i]));
+  return {
+    eid: int(fields[1]),
+    pconid: int(fields[2]),
+    flmnd: int(fields[3]),
+    cntrlnd: int(fields[4]),
+    ta,
+  };
+}
+
+function parseCelas(cardName: string, fields: string[]): BdfCelas {
+  // CELAS1, EID, PID, G1, C1, G2, C2 / CELAS2, EID, K, G1, C1, G2, C2
+  return {
+    eid: int(fields[1]),
+    ...(cardName === 'CELAS1' ? { pid: int(fields[2]) } : { k: num(fields[2]) }),
+    g1: int(fields[3]),
+    g2: int(fields[5]),
+  };
+}
+
+function parsePelas(fields: string[]): BdfPelas[] {
+  // PELAS can define two properties: PID1, K1, GE1, S1, PID2, K2, GE2, S2
+  const results: BdfPelas[] = [];
+  for (let i = 1; i + 1 < fields.length; i += 4) {
+    const pid = int(fields[i]);
+    if (pid === 0) break;
+    results.push({ pid, k: num(fields[i + 1]) });
+  }
+  return results;
+}
+
+function parseCrod(fields: string[]): BdfCrod {
+  return {
+    eid: int(fields[1]),
+    pid: int(fields[2]),
+    g1: int(fields[3]),
+    g2: int(fields[4]),
+  };
+}
+
+function parseConrod(fields: string[]): BdfCrod {
+  return {
+    eid: int(fields[1]),
+    g1: int(fields[2]),
+    g2: int(fields[3]),
+    mid: int(fields[4]),
+    a: num(fields[5]),
+  };
+}
+
+function parseProd(fields: string[]): BdfProd {
+  return {
+    pid: int(fields[1]),
+    mid: int(fields[2]),
+    a: num(fields[3]),
+  };
+}
+
 // ── Main parser ─────────────────────────────────────────────────────────────
 
 const KNOWN_CARDS = new Set([
   'GRID', 'CHBDYE', 'CHBDYG', 'MAT4', 'MAT5',
   'PCONV', 'PRAD', 'SPC', 'SPC1', 'TEMP', 'TEMPD',
+  'QBDY1', 'QBDY2', 'QBDY3', 'QVOL', 'QHBDY',
+  'RADBC', 'RADM', 'RADSET', 'RADLST', 'RADMTX',
+  'CONV', 'CELAS1', 'CELAS2', 'PELAS', 'CROD', 'CONROD', 'PROD',
 ]);
 
 // Cards we silently skip without warning (executive control, common structural)
 const SKIP_CARDS = new Set([
   'SOL', 'CEND', 'BEGIN', 'ENDDATA', 'PARAM', 'EIGR', 'EIGRL',
-  'TITLE', 'SUBTITLE', 'LABEL', 'SUBCASE', 'LOAD', 'DLOAD',
+  'TITLE', 'SUBTITLE', 'LABEL', 'SUBCASE', 'DLOAD',
   'TSTEP', 'NLPARM', 'OUTPUT',
 ]);
 
@@ -378,6 +711,22 @@ export function parseBdf(content: string): BdfParseResult {
     spc: [],
     temp: [],
     tempd: [],
+    qbdy1: [],
+    qbdy2: [],
+    qbdy3: [],
+    qvol: [],
+    qhbdy: [],
+    loads: [],
+    radbc: [],
+    radm: [],
+    radset: [],
+    radlst: [],
+    radmtx: [],
+    conv: [],
+    celas: [],
+    pelas: [],
+    crod: [],
+    prod: [],
     warnings: [],
   };
 
@@ -386,8 +735,8 @@ export function parseBdf(content: string): BdfParseResult {
 
   let inBulk = false;
 
-  for (const card of cards) {
-    const trimmed = card.trim();
+  for (const { line, fields } of cards) {
+    const trimmed = line.trim();
     if (!trimmed) continue;
 
     // Track bulk data section
@@ -399,9 +748,15 @@ export function parseBdf(content: string): BdfParseResult {
       break;
     }
 
+    // Case control load set selection (first one wins)
+    const loadSelect = !inBulk ? /^LOAD\s*=\s*(\d+)/i.exec(trimmed) : null;
+    if (loadSelect) {
+      result.loadSetId ??= parseInt(loadSelect[1], 10);
+      continue;
+    }
+
     // Skip executive/case control before BEGIN BULK
     // (but also allow files with no BEGIN BULK — treat all as bulk)
-    const fields = parseFields(trimmed);
     const cardName = (fields[0] || '').toUpperCase();
 
     if (!cardName) continue;
@@ -443,6 +798,58 @@ export function parseBdf(content: string): BdfParseResult {
         case 'TEMPD':
           result.tempd.push(parseTempd(fields));
           break;
+        case 'QBDY1':
+          result.qbdy1.push(parseQbdy1(fields));
+          break;
+        case 'QBDY2':
+          result.qbdy2.push(parseQbdy2(fields));
+          break;
+        case 'QBDY3':
+          result.qbdy3.push(parseQbdy3(fields));
+          break;
+        case 'QVOL':
+          result.qvol.push(parseQvol(fields));
+          break;
+        case 'QHBDY':
+          result.qhbdy.push(parseQhbdy(fields));
+          break;
+        case 'LOAD':
+          result.loads.push(parseLoad(fields));
+          break;
+        case 'RADBC':
+          result.radbc.push(parseRadbc(fields));
+          break;
+        case 'RADM':
+          result.radm.push(parseRadm(fields));
+          break;
+        case 'RADSET':
+          result.radset.push(...idList(fields, 1));
+          break;
+        case 'RADLST':
+          result.radlst.push(parseRadlst(fields));
+          break;
+        case 'RADMTX':
+          result.radmtx.push(parseRadmtx(fields));
+          break;
+        case 'CONV':
+          result.conv.push(parseConv(fields));
+          break;
+        case 'CELAS1':
+        case 'CELAS2':
+          result.celas.push(parseCelas(cardName, fields));
+          break;
+        case 'PELAS':
+          result.pelas.push(...parsePelas(fields));
+          break;
+        case 'CROD':
+          result.crod.push(parseCrod(fields));
+          break;
+        case 'CONROD':
+          result.crod.push(parseConrod(fields));
+          break;
+        case 'PROD':
+          result.prod.push(parseProd(fields));
+          break;
         default:
           if (inBulk) {
             result.warnings.push(`Unsupported card: ${cardName}`);
@@ -1,10 +1,16 @@
 /**
  * Maps parsed NASTRAN BDF data to Verixos thermal model entities
- * (nodes, conductors, materials) ready for DB insertion.
+ * (nodes, conductors, heat loads, materials) ready for DB insertion.
+ *
+ * GRID points become nodes. Surface elements (CHBDYG) are not nodes of
+ * their own: their area is shared equally between their grids, so a flux,
+ * convection or radiation boundary on a surface becomes one heat load or
+ * conductor per grid. Conductors joining the same pair of grids are merged.
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { BdfParseResult } from './nastran-bdf-parser';
+import { computeGebhartFactors } from '@/lib/solver/radiation-exchange';
+import type { BdfGrid, BdfParseResult } from './nastran-bdf-parser';
 
 // ── Output types (match DB insert shapes) ───────────────────────────────────
 
@@ -52,9 +58,19 @@ export interface VxMaterial {
   projectId: string;
 }
 
+export interface VxHeatLoad {
+  id: string;
+  modelId: string;
+  nodeId: string;
+  name: string;
+  loadType: 'constant';
+  value: number; // W
+}
+
 export interface MappingResult {
   nodes: VxNode[];
   conductors: VxConductor[];
+  heatLoads: VxHeatLoad[];
   materials: VxMaterial[];
   warnings: string[];
 }
@@ -62,6 +78,51 @@ export interface MappingResult {
 // Default initial temperature (K) when not specified
 const DEFAULT_TEMP_K = 293.15;
 
+// Corner grids of each CHBDYG area type; the rest are mid-side grids
+const CHBDYG_CORNERS: Record<string, number> = {
+  AREA3: 3,
+  AREA4: 4,
+  AREA6: 3,
+  AREA8: 4,
+};
+
+/** Surface element resolved to the grids it spreads over */
+interface Surface {
+  grids: number[];
+  area: number | null; // m²; null when the geometry is unknown
+  radMid?: number;
+}
+
+function distance(a: BdfGrid, b: BdfGrid): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+}
+
+/** Area of a planar (or gently warped) polygon by Newell's method */
+function polygonArea(corners: BdfGrid[]): number {
+  let nx = 0;
+  let ny = 0;
+  let nz = 0;
+  for (let i = 0; i < corners.length; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % corners.length];
+    nx += (a.y - b.y) * (a.z + b.z);
+    ny += (a.z - b.z) * (a.x + b.x);
+    nz += (a.x - b.x) * (a.y + b.y);
+  }
+  return Math.hypot(nx, ny, nz) / 2;
+}
+
+/** Area of the polygon through the given corner grids, or null if any is missing */
+function areaOf(gridIds: number[], grids: Map<number, BdfGrid>): number | null {
+  const corners = gridIds.map((id) => grids.get(id));
+  if (corners.length < 3 || corners.some((g) => !g)) return null;
+  return polygonArea(corners as BdfGrid[]);
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
 /**
  * Map parsed BDF data into Verixos model entities.
  */
@@ -151,6 +212,7 @@ export function mapBdfToVerixos(
   // ── Nodes (GRID → diffusion/boundary node) ───────────────────────────
 
   const nodes: VxNode[] = [];
+  const nodeByGrid = new Map<number, VxNode>();
 
   for (const g of bdf.grids) {
     const id = uuidv4();
@@ -160,7 +222,7 @@ export function mapBdfToVerixos(
     const temp = tempOverrides.get(g.id) ?? defaultTemp;
     const boundaryTemp = isBoundary ? spcMap.get(g.id)! : null;
 
-    nodes.push({
+    const node: VxNode = {
       id,
       modelId,
       name: `Node-${g.id}`,
@@ -173,90 +235,560 @@ export function mapBdfToVerixos(
       mass: null,
       absorptivity: null,
       emissivity: null,
-    });
+    };
+    nodes.push(node);
+    nodeByGrid.set(g.id, node);
   }
 
-  // ── Conductors (PCONV → linear, PRAD → radiation) ────────────────────
+  const gridById = new Map(bdf.grids.map((g) => [g.id, g]));
 
   const conductors: VxConductor[] = [];
+  const heatLoads: VxHeatLoad[] = [];
 
-  // For PCONV/PRAD we create conductors between sequential grid nodes
-  // since the actual element connectivity comes from CHBDYE/CHBDYG.
-  // We'll create conductors from CHBDYE elements connecting parent element
-  // to neighboring elements if possible. For a simple mapping, each CHBDYE
-  // gets logged; conductors come from PCONV/PRAD connecting consecutive nodes.
-
-  // Build conductors from PCONV properties — convection link
-  for (const pc of bdf.pconv) {
-    // PCONV defines a convection property; in a full model it's linked via
-    // CHBDYE/CHBDYG. For import, we create a conductor template per PCONV.
-    // If we have at least 2 nodes, create convection conductors.
-    if (nodes.length >= 2) {
-      const id = uuidv4();
-      conductors.push({
-        id,
-        modelId,
-        name: `Conv-PCONV${pc.pid}`,
-        conductorType: 'linear',
-        nodeFromId: nodes[0].id,
-        nodeToId: nodes[1].id,
-        conductance: pc.expf || 10, // Use expf as approx conductance if available
-        area: null,
-        viewFactor: null,
-        emissivity: null,
-      });
+  // Conductors are merged per grid pair (radiation: per pair, view factor
+  // and emissivity) so that shared grids of adjacent surfaces get one link
+  const conductorByKey = new Map<string, VxConductor>();
+
+  function addLinear(name: string, from: number, to: number, conductance: number) {
+    const a = gridIdToUuid.get(from);
+    const b = gridIdToUuid.get(to);
+    if (!a || !b || a === b || !(conductance > 0)) return;
+    const key = `linear|${pairKey(a, b)}`;
+    const existing = conductorByKey.get(key);
+    if (existing) {
+      existing.conductance! += conductance;
+      return;
     }
+    const conductor: VxConductor = {
+      id: uuidv4(),
+      modelId,
+      name,
+      conductorType: 'linear',
+      nodeFromId: a,
+      nodeToId: b,
+      conductance,
+      area: null,
+      viewFactor: null,
+      emissivity: null,
+    };
+    conductorByKey.set(key, conductor);
+    conductors.push(conductor);
   }
 
-  // Build conductors from PRAD properties — radiation link
-  for (const pr of bdf.prad) {
-    if (nodes.length >= 2) {
-      const id = uuidv4();
-      conductors.push({
-        id,
-        modelId,
-        name: `Rad-PRAD${pr.pid}`,
-        conductorType: 'radiation',
-        nodeFromId: nodes[0].id,
-        nodeToId: nodes[1].id,
-        conductance: null,
-        area: 0.01, // default area
-        viewFactor: 1.0,
-        emissivity: pr.emissivity || 0.5,
-      });
+  function addRadiation(
+    name: string,
+    from: number,
+    to: number,
+    area: number,
+    viewFactor: number,
+    emissivity: number,
+  ) {
+    const a = gridIdToUuid.get(from);
+    const b = gridIdToUuid.get(to);
+    if (!a || !b || a === b || !(area * viewFactor * emissivity > 0)) return;
+    const key = `radiation|${pairKey(a, b)}|${viewFactor}|${emissivity}`;
+    const existing = conductorByKey.get(key);
+    if (existing) {
+      existing.area! += area;
+      return;
+    }
+    const conductor: VxConductor = {
+      id: uuidv4(),
+      modelId,
+      name,
+      conductorType: 'radiation',
+      nodeFromId: a,
+      nodeToId: b,
+      conductance: null,
+      area,
+      viewFactor,
+      emissivity,
+    };
+    conductorByKey.set(key, conductor);
+    conductors.push(conductor);
+  }
+
+  // ── Surface elements (CHBDYG/CHBDYE → grids + area) ───────────────────
+
+  const surfaces = new Map<number, Surface>();
+  for (const e of bdf.chbdyg) {
+    const corners = CHBDYG_CORNERS[e.type];
+    surfaces.set(e.eid, {
+      grids: e.grids,
+      area: corners ? areaOf(e.grids.slice(0, corners), gridById) : null,
+      radMid: e.radMidF,
+    });
+  }
+  // CHBDYE takes its geometry from the parent element; of those only rods
+  // are imported, and a rod's surface area is not known
+  const rodById = new Map(bdf.crod.map((r) => [r.eid, r]));
+  for (const e of bdf.chbdye) {
+    const rod = rodById.get(e.eid2);
+    surfaces.set(e.eid, { grids: rod ? [rod.g1, rod.g2] : [], area: null, radMid: e.radMidF });
+  }
+
+  // Elements a load or boundary condition referenced but that could not be used
+  const unresolved = new Set<number>();
+  function surfaceWithArea(eid: number): (Surface & { area: number }) | null {
+    const surface = surfaces.get(eid);
+    if (!surface || surface.area === null || surface.grids.length === 0) {
+      unresolved.add(eid);
+      return null;
+    }
+    return surface as Surface & { area: number };
+  }
+
+  // ── Optics (RADM → surface and node emissivity/absorptivity) ─────────
+
+  const radmById = new Map(bdf.radm.map((r) => [r.radmid, r]));
+  for (const r of bdf.radm) {
+    if (r.emissivity.length > 1) {
+      warnings.push(`RADM-${r.radmid}: wavelength-dependent emissivity; using the first band`);
     }
   }
+  function surfaceEmissivity(surface: Surface): number {
+    const radm = surface.radMid ? radmById.get(surface.radMid) : undefined;
+    return radm?.emissivity[0] ?? 1.0;
+  }
+
+  for (const surface of surfaces.values()) {
+    const radm = surface.radMid ? radmById.get(surface.radMid) : undefined;
+    for (const gid of surface.grids) {
+      const node = nodeByGrid.get(gid);
+      if (!node) continue;
+      if (surface.area !== null) {
+        node.area = (node.area ?? 0) + surface.area / surface.grids.length;
+      }
+      if (radm) {
+        node.absorptivity ??= radm.absorb;
+        node.emissivity ??= radm.emissivity[0] ?? null;
+      }
+    }
+  }
+
+  // ── Conduction (CROD/CONROD → k·A/L, CELAS → K) ──────────────────────
+
+  const prodById = new Map(bdf.prod.map((p) => [p.pid, p]));
+  const mat4ById = new Map(bdf.mat4.map((m) => [m.mid, m]));
+  const mat5ById = new Map(bdf.mat5.map((m) => [m.mid, m]));
+  const rodCapacitance = new Map<number, number>();
+  const rodMaterial = new Map<number, string>();
+
+  /** Cross-section area and length of a rod, when fully defined */
+  function rodGeometry(rod: (typeof bdf.crod)[number]) {
+    const prop = rod.pid ? prodById.get(rod.pid) : undefined;
+    const mid = prop?.mid ?? rod.mid ?? 0;
+    const a = prop?.a ?? rod.a ?? 0;
+    const g1 = gridById.get(rod.g1);
+    const g2 = gridById.get(rod.g2);
+    const length = g1 && g2 ? distance(g1, g2) : 0;
+    return a > 0 && length > 0 ? { mid, a, length } : null;
+  }
+
+  for (const rod of bdf.crod) {
+    const geometry = rodGeometry(rod);
+    const mat4 = geometry ? mat4ById.get(geometry.mid) : undefined;
+    const mat5 = geometry ? mat5ById.get(geometry.mid) : undefined;
+    const k = mat4?.k ?? (mat5 ? (mat5.kxx + mat5.kyy + mat5.kzz) / 3 : 0);
+    if (!geometry || !(k > 0)) {
+      warnings.push(`CROD-${rod.eid}: missing property, material or length; skipped`);
+      continue;
+    }
+    addLinear(`Rod-${rod.eid}`, rod.g1, rod.g2, (k * geometry.a) / geometry.length);
+
+    // Half the rod's heat capacity goes to each end
+    const rho = mat4?.rho ?? mat5?.rho ?? 0;
+    const cp = mat4?.cp ?? mat5?.cp ?? 0;
+    const half = (rho * cp * geometry.a * geometry.length) / 2;
+    const matUuid = matIdToUuid.get(geometry.mid);
+    for (const gid of [rod.g1, rod.g2]) {
+      if (half > 0) rodCapacitance.set(gid, (rodCapacitance.get(gid) ?? 0) + half);
+      if (matUuid && !rodMaterial.has(gid)) rodMaterial.set(gid, matUuid);
+    }
+  }
+
+  const pelasById = new Map(bdf.pelas.map((p) => [p.pid, p]));
+  let groundedElas = 0;
+  for (const e of bdf.celas) {
+    const k = e.k ?? (e.pid ? pelasById.get(e.pid)?.k : undefined);
+    if (e.g1 === 0 || e.g2 === 0) {
+      groundedElas++;
+      continue;
+    }
+    if (!(k !== undefined && k > 0)) {
+      warnings.push(`CELAS-${e.eid}: no conductance (missing PELAS); skipped`);
+      continue;
+    }
+    addLinear(`Elas-${e.eid}`, e.g1, e.g2, k);
+  }
+  if (groundedElas > 0) {
+    warnings.push(`${groundedElas} grounded CELAS element(s) have no second grid; skipped`);
+  }
+
+  // ── Convection (CONV → h·A to ambient grids) ─────────────────────────
+
+  // Grids used as ambient points; made boundary nodes if unconstrained
+  const ambientGrids = new Set<number>();
+  const pconvById = new Map(bdf.pconv.map((p) => [p.pid, p]));
+  const expfWarned = new Set<number>();
+
+  for (const c of bdf.conv) {
+    const surface = surfaceWithArea(c.eid);
+    if (!surface) continue;
+    const pconv = pconvById.get(c.pconid);
+    const h = pconv ? mat4ById.get(pconv.mid)?.h : undefined;
+    if (!pconv || !h) {
+      warnings.push(`CONV-${c.eid}: PCONV ${c.pconid} has no MAT4 convection coefficient; skipped`);
+      continue;
+    }
+    if (pconv.expf && !expfWarned.has(pconv.pid)) {
+      expfWarned.add(pconv.pid);
+      warnings.push(`PCONV-${pconv.pid}: exponent EXPF=${pconv.expf} ignored; h taken as constant`);
+    }
+    const share = (h * surface.area) / surface.grids.length;
+    surface.grids.forEach((gid, i) => {
+      const ambient = c.ta[i] || c.ta[0];
+      if (!ambient) return;
+      ambientGrids.add(ambient);
+      addLinear(`Conv-${c.eid}`, gid, ambient, share);
+    });
+  }
+
+  // ── Radiation to ambient (RADBC) ─────────────────────────────────────
 
-  // Additionally, create linear conductors between consecutive GRID nodes
-  // to establish thermal connectivity (common in NASTRAN thermal models)
-  for (let i = 0; i < bdf.grids.length - 1; i++) {
-    const fromUuid = gridIdToUuid.get(bdf.grids[i].id);
-    const toUuid = gridIdToUuid.get(bdf.grids[i + 1].id);
-    if (fromUuid && toUuid) {
-      // Check if conductor already exists between these nodes
-      const exists = conductors.some(
-        (c) =>
-          (c.nodeFromId === fromUuid && c.nodeToId === toUuid) ||
-          (c.nodeFromId === toUuid && c.nodeToId === fromUuid),
+  for (const r of bdf.radbc) {
+    ambientGrids.add(r.nodamb);
+    for (const eid of r.eids) {
+      const surface = surfaceWithArea(eid);
+      if (!surface) continue;
+      const emissivity = surfaceEmissivity(surface);
+      for (const gid of surface.grids) {
+        addRadiation(
+          `RadBC-${eid}`,
+          gid,
+          r.nodamb,
+          surface.area / surface.grids.length,
+          r.famb,
+          emissivity,
+        );
+      }
+    }
+  }
+
+  // ── Radiation cavities (RADLST + RADMTX) ──────────────────────────────
+
+  /**
+   * Turn a cavity's exchange areas AF_ij = A_i·F_ij into grid-to-grid
+   * conductors. With every surface area known the exact grey-body factor
+   * GR_ij = ε_i·A_i·B_ij comes from the Gebhart factors; otherwise the
+   * single-bounce ε_i·ε_j·AF_ij is used. Either way the conductor carries
+   * GR in `area`, with view factor and emissivity 1.
+   */
+  function mapCavity(icavity: number, mtxtyp: number, eids: number[]) {
+    const n = eids.length;
+    const af = eids.map(() => new Array<number>(n).fill(0));
+    for (const column of bdf.radmtx) {
+      if (column.icavity !== icavity) continue;
+      const j = column.index - 1;
+      column.values.forEach((value, k) => {
+        const i = mtxtyp === 1 ? j + k : k;
+        if (i >= n || j < 0 || j >= n) return;
+        af[i][j] = value;
+        if (mtxtyp === 1) af[j][i] = value;
+      });
+    }
+
+    const cavitySurfaces = eids.map((eid) => {
+      const surface = surfaces.get(eid);
+      if (!surface || surface.grids.length === 0) unresolved.add(eid);
+      return surface;
+    });
+    const emissivity = cavitySurfaces.map((s) => (s ? surfaceEmissivity(s) : 1));
+    const areas = cavitySurfaces.map((s) => s?.area ?? null);
+
+    let gr: number[][] | null = null;
+    if (areas.every((a) => a !== null && a > 0)) {
+      const area = areas as number[];
+      // Full matrices give A_i·F_ij and A_j·F_ji; reciprocity makes them equal
+      const exchange = af.map((row, i) =>
+        row.map((_, j) => (i === j ? 0 : (af[i][j] + af[j][i]) / 2 / area[i])),
+      );
+      try {
+        const { gebhart } = computeGebhartFactors(
+          {
+            nodeIds: eids.map(String),
+            areas: area,
+            exchange,
+            toSpace: exchange.map((row) => Math.max(0, 1 - row.reduce((sum, e) => sum + e, 0))),
+            specularReflectance: eids.map(() => 0),
+          },
+          emissivity,
+        );
+        gr = gebhart.map((row, i) => row.map((b) => emissivity[i] * area[i] * b));
+      } catch {
+        gr = null;
+      }
+    }
+    if (!gr) {
+      warnings.push(
+        `Radiation cavity ${icavity}: surface areas unavailable; single-bounce exchange used`,
+      );
+      gr = af.map((row, i) =>
+        row.map((_, j) => (emissivity[i] * emissivity[j] * (af[i][j] + af[j][i])) / 2),
       );
-      if (!exists) {
-        // Find material conductivity for the link
-        const mat = bdf.mat4[0];
-        const conductance = mat ? mat.k * 0.01 : 1.0; // k * (A/L) with defaults
+    }
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const si = cavitySurfaces[i];
+        const sj = cavitySurfaces[j];
+        const value = (gr[i][j] + gr[j][i]) / 2;
+        if (!si?.grids.length || !sj?.grids.length || !(value > 0)) continue;
+        const share = value / (si.grids.length * sj.grids.length);
+        const name = `Cavity${icavity}-${eids[i]}-${eids[j]}`;
+        for (const a of si.grids) {
+          for (const b of sj.grids) addRadiation(name, a, b, share, 1, 1);
+        }
+      }
+    }
+  }
+
+  const activeCavities = new Set(bdf.radset);
+  for (const list of bdf.radlst) {
+    if (activeCavities.size > 0 && !activeCavities.has(list.icavity)) continue;
+    mapCavity(list.icavity, list.mtxtyp, list.eids);
+  }
+
+  // ── Heat loads (QBDY1/2/3, QHBDY, QVOL) ──────────────────────────────
+
+  // Only the selected load set is imported: the case control LOAD = n, or
+  // the lowest set id. A LOAD combination scales its member sets.
+  const loadSids = [
+    ...new Set(
+      [...bdf.qbdy1, ...bdf.qbdy2, ...bdf.qbdy3, ...bdf.qvol, ...bdf.qhbdy].map((q) => q.sid),
+    ),
+  ].sort((a, b) => a - b);
+  const selectedSid = bdf.loadSetId ?? loadSids[0];
+  const loadScale = new Map<number, number>();
+  const combination = bdf.loads.find((l) => l.sid === selectedSid);
+  if (combination) {
+    for (const set of combination.sets) {
+      loadScale.set(set.sid, (loadScale.get(set.sid) ?? 0) + combination.scale * set.scale);
+    }
+  } else if (selectedSid !== undefined) {
+    loadScale.set(selectedSid, 1);
+  }
+  const ignoredSids = loadSids.filter((sid) => !loadScale.has(sid));
+  if (ignoredSids.length > 0) {
+    warnings.push(
+      `Heat load set(s) ${ignoredSids.join(', ')} not imported; using load set ${selectedSid}`,
+    );
+  }
+
+  const loadByKey = new Map<string, VxHeatLoad>();
+  function addLoad(card: string, gid: number, watts: number) {
+    const nodeId = gridIdToUuid.get(gid);
+    if (!nodeId || watts === 0) return;
+    const key = `${card}|${gid}`;
+    const existing = loadByKey.get(key);
+    if (existing) {
+      existing.value += watts;
+      return;
+    }
+    const load: VxHeatLoad = {
+      id: uuidv4(),
+      modelId,
+      nodeId,
+      name: `${card}-${gid}`,
+      loadType: 'constant',
+      value: watts,
+    };
+    loadByKey.set(key, load);
+    heatLoads.push(load);
+  }
+
+  function addSurfaceFlux(card: string, eid: number, flux: (gridIndex: number) => number) {
+    const surface = surfaceWithArea(eid);
+    if (!surface) return;
+    const share = surface.area / surface.grids.length;
+    surface.grids.forEach((gid, i) => addLoad(card, gid, flux(i) * share));
+  }
+
+  let controlled = 0;
+  for (const q of bdf.qbdy1) {
+    const scale = loadScale.get(q.sid);
+    if (scale === undefined) continue;
+    for (const eid of q.eids) addSurfaceFlux('QBDY1', eid, () => q.q0 * scale);
+  }
+  for (const q of bdf.qbdy2) {
+    const scale = loadScale.get(q.sid);
+    if (scale === undefined) continue;
+    addSurfaceFlux('QBDY2', q.eid, (i) => (q.q0[i] ?? 0) * scale);
+  }
+  for (const q of bdf.qbdy3) {
+    const scale = loadScale.get(q.sid);
+    if (scale === undefined) continue;
+    if (q.cntrlnd) controlled++;
+    for (const eid of q.eids) addSurfaceFlux('QBDY3', eid, () => q.q0 * scale);
+  }
+
+  for (const q of bdf.qhbdy) {
+    const scale = loadScale.get(q.sid);
+    if (scale === undefined) continue;
+    const corners = CHBDYG_CORNERS[q.flag];
+    let watts: number | null = null;
+    if (q.flag === 'POINT') {
+      watts = q.q0 * q.af;
+    } else if (q.flag === 'LINE') {
+      const [g1, g2] = q.grids.map((id) => gridById.get(id));
+      watts = g1 && g2 ? q.q0 * q.af * distance(g1, g2) : null;
+    } else if (corners) {
+      const area = areaOf(q.grids.slice(0, corners), gridById);
+      watts = area !== null ? q.q0 * area : null;
+    }
+    const grids = q.flag === 'POINT' ? q.grids.slice(0, 1) : q.grids;
+    if (watts === null || grids.length === 0) {
+      warnings.push(`QHBDY (set ${q.sid}, ${q.flag || 'no type'}): geometry not supported; skipped`);
+      continue;
+    }
+    for (const gid of grids) addLoad('QHBDY', gid, (watts * scale) / grids.length);
+  }
+
+  for (const q of bdf.qvol) {
+    const scale = loadScale.get(q.sid);
+    if (scale === undefined) continue;
+    if (q.cntrlnd) controlled++;
+    for (const eid of q.eids) {
+      const rod = rodById.get(eid);
+      const geometry = rod ? rodGeometry(rod) : null;
+      if (!rod || !geometry) {
+        unresolved.add(eid);
+        continue;
+      }
+      const half = (q.qvol * scale * geometry.a * geometry.length) / 2;
+      addLoad('QVOL', rod.g1, half);
+      addLoad('QVOL', rod.g2, half);
+    }
+  }
+  if (controlled > 0) {
+    warnings.push(`${controlled} QBDY3/QVOL card(s) have a control node; loads applied uncontrolled`);
+  }
+  if (unresolved.size > 0) {
+    const ids = [...unresolved].sort((a, b) => a - b);
+    warnings.push(
+      `Element(s) ${ids.slice(0, 10).join(', ')}${ids.length > 10 ? ` and ${ids.length - 10} more` : ''} ` +
+        'have no imported surface geometry; loads and boundary conditions on them were skipped',
+    );
+  }
+
+  // ── Ambient points and rod capacitance ───────────────────────────────
+
+  const floatingAmbient: number[] = [];
+  for (const gid of ambientGrids) {
+    const node = nodeByGrid.get(gid);
+    if (!node || node.nodeType === 'boundary') continue;
+    floatingAmbient.push(gid);
+    node.nodeType = 'boundary';
+    node.boundaryTemp = node.temperature;
+    node.capacitance = null;
+  }
+  if (floatingAmbient.length > 0) {
+    warnings.push(
+      `Ambient grid(s) ${floatingAmbient.join(', ')} have no SPC; imported as boundary nodes at their initial temperature`,
+    );
+  }
+
+  for (const [gid, capacitance] of rodCapacitance) {
+    const node = nodeByGrid.get(gid);
+    if (node && node.nodeType !== 'boundary') node.capacitance = capacitance;
+  }
+  for (const [gid, matUuid] of rodMaterial) {
+    const node = nodeByGrid.get(gid);
+    if (node && node.nodeType !== 'boundary') node.materialId = matUuid;
+  }
+
+  // Decks without element connectivity (e.g. shell meshes, whose elements
+  // are not imported) still get a connected network from the properties
+  // and the grid order, to be refined by hand
+  if (conductors.length === 0) {
+    // For PCONV/PRAD we create conductors between sequential grid nodes
+    // since the actual element connectivity comes from CHBDYE/CHBDYG.
+    // We'll create conductors from CHBDYE elements connecting parent element
+    // to neighboring elements if possible. For a simple mapping, each CHBDYE
+    // gets logged; conductors come from PCONV/PRAD connecting consecutive nodes.
+
+    // Build conductors from PCONV properties — convection link
+    for (const pc of bdf.pconv) {
+      // PCONV defines a convection property; in a full model it's linked via
+      // CHBDYE/CHBDYG. For import, we create a conductor template per PCONV.
+      // If we have at least 2 nodes, create convection conductors.
+      if (nodes.length >= 2) {
+        const id = uuidv4();
         conductors.push({
-          id: uuidv4(),
+          id,
           modelId,
-          name: `Link-${bdf.grids[i].id}-${bdf.grids[i + 1].id}`,
+          name: `Conv-PCONV${pc.pid}`,
           conductorType: 'linear',
-          nodeFromId: fromUuid,
-          nodeToId: toUuid,
-          conductance,
+          nodeFromId: nodes[0].id,
+          nodeToId: nodes[1].id,
+          conductance: pc.expf || 10, // Use expf as approx conductance if available
           area: null,
           viewFactor: null,
           emissivity: null,
         });
       }
     }
+
+    // Build conductors from PRAD properties — radiation link
+    for (const pr of bdf.prad) {
+      if (nodes.length >= 2) {
+        const id = uuidv4();
+        conductors.push({
+          id,
+          modelId,
+          name: `Rad-PRAD${pr.pid}`,
+          conductorType: 'radiation',
+          nodeFromId: nodes[0].id,
+          nodeToId: nodes[1].id,
+          conductance: null,
+          area: 0.01, // default area
+          viewFactor: 1.0,
+          emissivity: pr.emissivity || 0.5,
+        });
+      }
+    }
+
+    // Additionally, create linear conductors between consecutive GRID nodes
+    // to establish thermal connectivity (common in NASTRAN thermal models)
+    for (let i = 0; i < bdf.grids.length - 1; i++) {
+      const fromUuid = gridIdToUuid.get(bdf.grids[i].id);
+      const toUuid = gridIdToUuid.get(bdf.grids[i + 1].id);
+      if (fromUuid && toUuid) {
+        // Check if conductor already exists between these nodes
+        const exists = conductors.some(
+          (c) =>
+            (c.nodeFromId === fromUuid && c.nodeToId === toUuid) ||
+            (c.nodeFromId === toUuid && c.nodeToId === fromUuid),
+        );
+        if (!exists) {
+          // Find material conductivity for the link
+          const mat = bdf.mat4[0];
+          const conductance = mat ? mat.k * 0.01 : 1.0; // k * (A/L) with defaults
+          conductors.push({
+            id: uuidv4(),
+            modelId,
+            name: `Link-${bdf.grids[i].id}-${bdf.grids[i + 1].id}`,
+            conductorType: 'linear',
+            nodeFromId: fromUuid,
+            nodeToId: toUuid,
+            conductance,
+            area: null,
+            viewFactor: null,
+            emissivity: null,
+          });
+        }
+      }
+    }
   }
 
   // Assign materials to nodes from PRAD absorptivity/emissivity
@@ -282,5 +814,5 @@ export function mapBdfToVerixos(
     }
   }
 
-  return { nodes, conductors, materials, warnings };
+  return { nodes, conductors, heatLoads, materials, warnings };
 }
@@ -0,0 +1,85 @@
+// ─── Thermal Deck Interchange ────────────────────────────────────────────────
+// Neutral form of a lumped-parameter network shared by the ESATAN-TMS and
+// SINDA/FLUINT readers and writers. Values are SI: temperatures in K,
+// conductances in W/K, radiative exchange factors (ε·A·F) in m², loads in W.
+
+export type DeckNodeType = 'diffusion' | 'arithmetic' | 'boundary';
+
+export interface DeckNode {
+  /** Identifier within the deck, e.g. "12" or "PANEL:12" */
+  key: string;
+  name: string;
+  nodeType: DeckNodeType;
+  temperature: number;
+  capacitance: number | null;
+  area?: number | null;
+  absorptivity?: number | null;
+  emissivity?: number | null;
+}
+
+export interface DeckConductor {
+  name: string;
+  /** linear: conductance in W/K; radiation: exchange factor ε·A·F in m² */
+  kind: 'linear' | 'radiation';
+  from: string;
+  to: string;
+  value: number;
+}
+
+export interface DeckHeatLoad {
+  name: string;
+  node: string;
+  /** Constant power, or a table over time (s) when `timeValues` is set */
+  value: number;
+  timeValues?: Array<{ time: number; value: number }>;
+}
+
+export interface ThermalDeck {
+  title: string;
+  nodes: DeckNode[];
+  conductors: DeckConductor[];
+  heatLoads: DeckHeatLoad[];
+}
+
+/** Something in a file or model that the other side cannot represent. */
+export interface UnsupportedConstruct {
+  /** 1-based source line for imports; null for exports */
+  line: number | null;
+  construct: string;
+  detail: string;
+}
+
+export interface DeckReadResult {
+  deck: ThermalDeck;
+  unsupported: UnsupportedConstruct[];
+}
+
+export const DECK_FORMATS = ['esatan', 'sinda'] as const;
+export type DeckFormat = (typeof DECK_FORMATS)[number];
+
+/** Kelvin offset of the Celsius scale both tools default to in SI */
+export const CELSIUS_ZERO = -273.15;
+
+/** A real in Fortran-friendly form: always with a decimal point, E exponent. */
+export function formatReal(value: number): string {
+  if (!Number.isFinite(value)) return '0.0';
+  const [mantissa, exponent] = String(Number(value.toPrecision(10))).toUpperCase().split('E');
+  const withPoint = mantissa.includes('.') ? mantissa : `${mantissa}.0`;
+  return exponent ? `${withPoint}E${exponent}` : withPoint;
+}
+
+/** Parse a Fortran real ("1.5D-3", "2.", "-4E2"); NaN when it is not a plain number. */
+export function parseReal(text: string): number {
+  const trimmed = text.trim();
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)([EeDd][+-]?\d+)?$/.test(trimmed)) return NaN;
+  return Number(trimmed.replace(/[Dd]/, 'E'));
+}
+
+/** Consecutive (time, value) pairs of a doublet array; a trailing odd value is dropped. */
+export function toTimeValues(values: number[], timeScale = 1, valueScale = 1) {
+  const points: Array<{ time: number; value: number }> = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    points.push({ time: values[i] * timeScale, value: values[i + 1] * valueScale });
+  }
+  return points;
+}
@@ -0,0 +1,376 @@
+// ─── ESATAN-TMS Model Deck (.d) ──────────────────────────────────────────────
+// Reads and writes the network part of an ESATAN-TMS input deck:
+//   $NODES       D (diffusion), X (arithmetic) and B (boundary) nodes with
+//                T, C, A, ALP, EPS and the QI/QS/QA/QE/QR sources
+//   $CONDUCTORS  GL (W/K) and GR (m²) conductors
+//   $ARRAYS      doublet arrays for time-varying sources
+//   $VARIABLES1  Q assignments summing constants and INTERP(TIMEM, array)
+//   $CONSTANTS   $CONTROL ABSZRO (default −273.15, i.e. temperatures in °C)
+// Other logic — $VARIABLES2, $EVENTS, fluid conductors, general Mortran
+// statements — is listed as unsupported rather than guessed at.
+
+import {
+  CELSIUS_ZERO,
+  formatReal,
+  parseReal,
+  toTimeValues,
+  type DeckHeatLoad,
+  type DeckNodeType,
+  type DeckReadResult,
+  type ThermalDeck,
+  type UnsupportedConstruct,
+} from './deck';
+
+const NODE_TYPES: Record<string, DeckNodeType> = {
+  D: 'diffusion',
+  X: 'arithmetic',
+  B: 'boundary',
+};
+
+const SOURCE_ATTRIBUTES = ['QI', 'QS', 'QA', 'QE', 'QR'];
+// Geometry and bookkeeping attributes with no bearing on the network
+const IGNORED_ATTRIBUTES = new Set(['FX', 'FY', 'FZ', 'CMP', 'LABEL']);
+
+// Blocks describing how to solve or report the model rather than the model
+const IGNORED_BLOCKS = new Set(['$LOCALS', '$EXECUTION', '$OUTPUTS', '$INITIAL']);
+// Sub-headers that type the entries of $CONSTANTS / $ARRAYS
+const SUB_BLOCKS = new Set(['$INTEGER', '$REAL', '$CHARACTER', '$CONTROL']);
+
+interface Statement {
+  text: string;
+  line: number;
+  /** Trailing # comment on the line that ends the statement */
+  comment: string;
+}
+
+/** Split a line at its # comment, ignoring # inside quoted labels. */
+function splitComment(line: string): [string, string] {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "'") quoted = !quoted;
+    else if (line[i] === '#' && !quoted) return [line.slice(0, i), line.slice(i + 1).trim()];
+  }
+  return [line, ''];
+}
+
+/** Split on a separator at the top level: outside quotes and parentheses. */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+function unquote(text: string): string | null {
+  const match = /^'(.*)'$/s.exec(text.trim());
+  return match ? match[1].replace(/''/g, "'") : null;
+}
+
+/** Read an ESATAN-TMS deck into the neutral form. */
+export function readEsatan(content: string): DeckReadResult {
+  const unsupported: UnsupportedConstruct[] = [];
+  const report = (line: number | null, construct: string, detail: string) =>
+    unsupported.push({ line, construct, detail });
+
+  const deck: ThermalDeck = { title: '', nodes: [], conductors: [], heatLoads: [] };
+  const models: string[] = [];
+  let block = '';
+  let subBlock = '';
+  let pending = '';
+  let pendingLine = 0;
+  const skippedBlocks = new Map<string, { line: number; count: number }>();
+
+  const nodeStatements: Array<Statement & { model: string }> = [];
+  const conductorStatements: Array<Statement & { model: string }> = [];
+  const variableStatements: Array<Statement & { model: string }> = [];
+  const arrays = new Map<string, number[]>();
+  let absZero = CELSIUS_ZERO;
+
+  const handle = (statement: Statement) => {
+    const model = models.length > 1 ? models[models.length - 1] : '';
+    switch (block) {
+      case '$NODES':
+        nodeStatements.push({ ...statement, model });
+        break;
+      case '$CONDUCTORS':
+        conductorStatements.push({ ...statement, model });
+        break;
+      case '$VARIABLES1':
+        variableStatements.push({ ...statement, model });
+        break;
+      case '$CONSTANTS': {
+        const match = /^ABSZRO\s*=\s*(.+)$/i.exec(statement.text);
+        if (match && subBlock === '$CONTROL') {
+          const value = parseReal(match[1]);
+          if (Number.isNaN(value)) report(statement.line, 'ABSZRO', 'Not a number; −273.15 assumed');
+          else absZero = value;
+        }
+        break;
+      }
+      case '$ARRAYS': {
+        const match = /^(\w+)\s*(?:\([^)]*\))?\s*=\s*(.+)$/s.exec(statement.text);
+        const values = match ? splitTopLevel(match[2], ',').map(parseReal) : [];
+        if (!match || values.some(Number.isNaN)) {
+          report(statement.line, match?.[1] ?? 'array', 'Array is not a plain list of numbers; skipped');
+        } else {
+          arrays.set(match[1].toUpperCase(), values);
+        }
+        break;
+      }
+      default: {
+        if (IGNORED_BLOCKS.has(block)) break;
+        const skipped = skippedBlocks.get(block || '(outside a block)');
+        if (skipped) skipped.count++;
+        else skippedBlocks.set(block || '(outside a block)', { line: statement.line, count: 1 });
+      }
+    }
+  };
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const lineNo = index + 1;
+    const [code, comment] = splitComment(raw);
+    const trimmed = code.trim();
+
+    if (trimmed.startsWith('$')) {
+      if (pending.trim()) report(pendingLine, block, `Unterminated statement "${pending.trim().slice(0, 40)}"`);
+      pending = '';
+      const [directive, ...rest] = trimmed.split(/\s+/);
+      const name = directive.toUpperCase();
+      if (SUB_BLOCKS.has(name)) {
+        subBlock = name;
+        return;
+      }
+      subBlock = '';
+      if (name === '$MODEL') {
+        models.push((rest[0] ?? 'MODEL').toUpperCase());
+        if (models.length === 1) deck.title = rest[0] ?? '';
+        else report(lineNo, `$MODEL ${rest[0]}`, 'Submodel flattened; its nodes are prefixed with the submodel name');
+        block = '';
+      } else if (name === '$ENDMODEL') {
+        models.pop();
+        block = '';
+      } else {
+        block = name;
+      }
+      return;
+    }
+
+    if (!trimmed) return;
+    if (!pending) pendingLine = lineNo;
+    pending += `${pending ? ' ' : ''}${trimmed}`;
+
+    const parts = splitTopLevel(pending, ';');
+    pending = parts.pop() ?? '';
+    for (const text of parts) {
+      if (text) handle({ text, line: pendingLine, comment });
+      pendingLine = lineNo;
+    }
+  });
+  if (pending.trim()) report(pendingLine, block, `Unterminated statement "${pending.trim().slice(0, 40)}"`);
+
+  for (const [name, { line, count }] of skippedBlocks) {
+    report(line, name, `${count} statement(s) not imported`);
+  }
+
+  const toKelvin = (t: number) => Number((t - absZero).toFixed(6));
+  const nodeKey = (model: string, ref: string) => {
+    const trimmed = ref.trim().toUpperCase();
+    if (trimmed.includes(':')) return trimmed;
+    return model ? `${model}:${trimmed}` : trimmed;
+  };
+  const labels = new Map<string, string>();
+
+  // ── Nodes ──────────────────────────────────────────────────────────────
+  const attributeLoads = new Map<string, DeckHeatLoad>();
+  for (const s of nodeStatements) {
+    const match = /^([A-Z])(\d+)\s*=\s*(.*)$/is.exec(s.text);
+    const nodeType = match ? NODE_TYPES[match[1].toUpperCase()] : undefined;
+    if (!match || !nodeType) {
+      report(s.line, s.text.slice(0, 24), 'Not a D, X or B node definition; skipped');
+      continue;
+    }
+    const key = nodeKey(s.model, match[2]);
+    const fields = splitTopLevel(match[3], ',');
+    const label = unquote(fields[0] ?? '');
+    const attributes = new Map<string, number>();
+    for (const field of label !== null ? fields.slice(1) : fields) {
+      const attr = /^(\w+)\s*=\s*(.+)$/s.exec(field);
+      const name = attr?.[1].toUpperCase() ?? field;
+      if (IGNORED_ATTRIBUTES.has(name)) continue;
+      const value = attr ? parseReal(attr[2]) : NaN;
+      if (!attr || Number.isNaN(value)) {
+        report(s.line, `${match[1]}${match[2]} ${name}`, 'Attribute is not a number; ignored');
+      } else {
+        attributes.set(name, value);
+      }
+    }
+    for (const name of attributes.keys()) {
+      if (!['T', 'C', 'A', 'ALP', 'EPS', ...SOURCE_ATTRIBUTES].includes(name)) {
+        report(s.line, `${match[1]}${match[2]} ${name}`, 'Node attribute not supported; ignored');
+      }
+    }
+
+    const name = label || `${match[1].toUpperCase()}${key}`;
+    labels.set(key, name);
+    deck.nodes.push({
+      key,
+      name,
+      nodeType,
+      temperature: attributes.has('T') ? toKelvin(attributes.get('T')!) : 293.15,
+      capacitance: nodeType === 'diffusion' ? (attributes.get('C') ?? 0) : null,
+      area: attributes.get('A') ?? null,
+      absorptivity: attributes.get('ALP') ?? null,
+      emissivity: attributes.get('EPS') ?? null,
+    });
+    for (const source of SOURCE_ATTRIBUTES) {
+      const value = attributes.get(source);
+      if (value) attributeLoads.set(`${source}|${key}`, { name: `${name} ${source}`, node: key, value });
+    }
+  }
+
+  // ── Conductors ─────────────────────────────────────────────────────────
+  for (const s of conductorStatements) {
+    const match = /^(G[A-Z]?)\s*\(\s*([^,]+?)\s*,\s*([^)]+?)\s*\)\s*=\s*(.+)$/is.exec(s.text);
+    const kind = match?.[1].toUpperCase();
+    if (!match || (kind !== 'GL' && kind !== 'GR')) {
+      report(s.line, s.text.slice(0, 24), kind ? `${kind} conductors not supported; skipped` : 'Not a conductor definition; skipped');
+      continue;
+    }
+    const value = parseReal(match[4]);
+    if (Number.isNaN(value)) {
+      report(s.line, `${kind}(${match[2]}, ${match[3]})`, 'Conductance is an expression; skipped');
+      continue;
+    }
+    deck.conductors.push({
+      name: s.comment || `${kind}(${match[2]}, ${match[3]})`,
+      kind: kind === 'GL' ? 'linear' : 'radiation',
+      from: nodeKey(s.model, match[2]),
+      to: nodeKey(s.model, match[3]),
+      value,
+    });
+  }
+
+  // ── $VARIABLES1 sources ────────────────────────────────────────────────
+  const variableLoads: DeckHeatLoad[] = [];
+  for (const s of variableStatements) {
+    const match = /^(Q[ISAER]?)\s*(?:\(\s*([\w:]+)\s*\)|(\d+))\s*=\s*(.+)$/is.exec(s.text);
+    if (!match) {
+      report(s.line, s.text.slice(0, 24), 'Statement not imported');
+      continue;
+    }
+    const source = match[1].toUpperCase();
+    const key = nodeKey(s.model, match[2] ?? match[3]);
+    const name = labels.get(key) ?? key;
+    const loads: DeckHeatLoad[] = [];
+    let ok = true;
+    for (const term of splitTopLevel(match[4], '+')) {
+      const constant = parseReal(term);
+      const table = /^(?:INTERP|INTRP1)\s*\(\s*TIMEM\s*,\s*(\w+)\s*(?:,\s*\d+\s*)?\)$/i.exec(term);
+      const values = table ? arrays.get(table[1].toUpperCase()) : undefined;
+      if (!Number.isNaN(constant)) {
+        loads.push({ name: `${name} ${source}`, node: key, value: constant });
+      } else if (values) {
+        loads.push({ name: `${name} ${table![1]}`, node: key, value: 0, timeValues: toTimeValues(values) });
+      } else {
+        ok = false;
+      }
+    }
+    if (!ok) {
+      report(s.line, `${source}${match[2] ?? match[3]}`, 'Source is not a sum of constants and INTERP(TIMEM, array); not imported');
+      continue;
+    }
+    // The assignment replaces the constant given with the node
+    attributeLoads.delete(`${source}|${key}`);
+    variableLoads.push(...loads);
+  }
+  deck.heatLoads.push(...attributeLoads.values(), ...variableLoads);
+
+  unsupported.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { deck, unsupported };
+}
+
+/** Model name as ESATAN accepts it: upper-case alphanumerics, at most 24. */
+function modelName(title: string): string {
+  return title.toUpperCase().replace(/[^A-Z0-9_]/g, '_').replace(/^[^A-Z]+/, '').slice(0, 24) || 'MODEL';
+}
+
+const NODE_LETTER: Record<DeckNodeType, string> = {
+  diffusion: 'D',
+  arithmetic: 'X',
+  boundary: 'B',
+};
+
+/** Write the neutral form as an ESATAN-TMS deck; `notExported` heads the file as comments. */
+export function writeEsatan(deck: ThermalDeck, notExported: UnsupportedConstruct[]): string {
+  const name = modelName(deck.title);
+  const out: string[] = [
+    `# ESATAN-TMS model "${deck.title}" exported from Verixos`,
+    '# Temperatures in degC (ABSZRO = -273.15), GL in W/K, GR in m2, Q in W',
+  ];
+  if (notExported.length > 0) {
+    out.push('#', '# Not exported:');
+    for (const u of notExported) out.push(`#   ${u.construct}: ${u.detail}`);
+  }
+
+  const constant = new Map<string, number>();
+  const tables = new Map<string, DeckHeatLoad[]>();
+  for (const h of deck.heatLoads) {
+    if (h.timeValues) tables.set(h.node, [...(tables.get(h.node) ?? []), h]);
+    else constant.set(h.node, (constant.get(h.node) ?? 0) + h.value);
+  }
+
+  out.push(`$MODEL ${name}`, '$NODES');
+  for (const n of deck.nodes) {
+    const attributes = [`'${n.name.replace(/'/g, "''")}'`, `T = ${formatReal(n.temperature + CELSIUS_ZERO)}`];
+    if (n.nodeType === 'diffusion') attributes.push(`C = ${formatReal(n.capacitance ?? 0)}`);
+    if (n.area != null) attributes.push(`A = ${formatReal(n.area)}`);
+    if (n.absorptivity != null) attributes.push(`ALP = ${formatReal(n.absorptivity)}`);
+    if (n.emissivity != null) attributes.push(`EPS = ${formatReal(n.emissivity)}`);
+    // Nodes with tables get their whole source in $VARIABLES1
+    const q = constant.get(n.key);
+    if (q && !tables.has(n.key)) attributes.push(`QI = ${formatReal(q)}`);
+    out.push(`    ${NODE_LETTER[n.nodeType]}${n.key} = ${attributes.join(', ')};`);
+  }
+
+  out.push('$CONDUCTORS');
+  for (const c of deck.conductors) {
+    out.push(`    ${c.kind === 'linear' ? 'GL' : 'GR'}(${c.from}, ${c.to}) = ${formatReal(c.value)};  # ${c.name}`);
+  }
+
+  out.push('$CONSTANTS', '$CONTROL', `    ABSZRO = ${formatReal(CELSIUS_ZERO)};`);
+
+  const arrayNames = new Map<DeckHeatLoad, string>();
+  out.push('$ARRAYS', '$REAL');
+  for (const loads of tables.values()) {
+    for (const h of loads) {
+      const arrayName = `QTAB${arrayNames.size + 1}`;
+      arrayNames.set(h, arrayName);
+      const values = h.timeValues!.flatMap((p) => [formatReal(p.time), formatReal(p.value)]);
+      out.push(`    ${arrayName}(2, ${h.timeValues!.length}) = ${values.join(', ')};  # ${h.name}`);
+    }
+  }
+
+  out.push('$VARIABLES1');
+  for (const [node, loads] of tables) {
+    const terms = loads.map((h) => `INTERP(TIMEM, ${arrayNames.get(h)}, 1)`);
+    const q = constant.get(node);
+    if (q) terms.unshift(formatReal(q));
+    out.push(`    QI${node} = ${terms.join(' + ')};`);
+  }
+
+  out.push('$EXECUTION', '    SOLVFM;', `$ENDMODEL ${name}`, '');
+  return out.join('\n');
+}
@@ -0,0 +1,212 @@
+// ─── Deck ↔ Model Tables ─────────────────────────────────────────────────────
+// Maps a ThermalDeck onto thermal_nodes / conductors / heat_loads rows and
+// back. Exports report what the deck formats cannot carry.
+
+import type { thermalNodes, conductors, heatLoads } from '@/lib/db/schema';
+import { SPACE_TEMPERATURE } from '@/lib/solver/types';
+import type { ThermalDeck, UnsupportedConstruct } from './deck';
+
+type NodeRow = typeof thermalNodes.$inferSelect;
+type ConductorRow = typeof conductors.$inferSelect;
+type HeatLoadRow = typeof heatLoads.$inferSelect;
+
+type NodeInsert = typeof thermalNodes.$inferInsert;
+type ConductorInsert = typeof conductors.$inferInsert;
+type HeatLoadInsert = typeof heatLoads.$inferInsert;
+
+/** Name of the sink node that stands in for radiation to deep space */
+export const SPACE_NODE_NAME = 'SPACE';
+
+/**
+ * Rows for a deck, with ids assigned up front so conductors and loads can
+ * point at their nodes. Conductors or loads on unknown nodes are reported.
+ */
+export function deckToModelRows(
+  deck: ThermalDeck,
+  modelId: string,
+): {
+  nodes: Array<NodeInsert & { id: string }>;
+  conductors: ConductorInsert[];
+  heatLoads: HeatLoadInsert[];
+  unsupported: UnsupportedConstruct[];
+} {
+  const unsupported: UnsupportedConstruct[] = [];
+  const idByKey = new Map<string, string>();
+
+  const nodeRows = deck.nodes.map((n) => {
+    const id = crypto.randomUUID();
+    idByKey.set(n.key, id);
+    return {
+      id,
+      modelId,
+      name: n.name,
+      nodeType: n.nodeType,
+      temperature: n.temperature,
+      capacitance: n.nodeType === 'diffusion' ? (n.capacitance ?? 0) : null,
+      boundaryTemp: n.nodeType === 'boundary' ? n.temperature : null,
+      area: n.area ?? null,
+      absorptivity: n.absorptivity ?? null,
+      emissivity: n.emissivity ?? null,
+    };
+  });
+
+  const conductorRows: ConductorInsert[] = [];
+  for (const c of deck.conductors) {
+    const from = idByKey.get(c.from);
+    const to = idByKey.get(c.to);
+    if (!from || !to) {
+      unsupported.push({
+        line: null,
+        construct: c.name,
+        detail: `Conductor references undefined node ${from ? c.to : c.from}; skipped`,
+      });
+      continue;
+    }
+    conductorRows.push(
+      c.kind === 'linear'
+        ? { modelId, name: c.name, conductorType: 'linear', nodeFromId: from, nodeToId: to, conductance: c.value }
+        : {
+            modelId,
+            name: c.name,
+            conductorType: 'radiation',
+            nodeFromId: from,
+            nodeToId: to,
+            // The exchange factor is already ε·A·F
+            area: c.value,
+            viewFactor: 1,
+            emissivity: 1,
+          },
+    );
+  }
+
+  const heatLoadRows: HeatLoadInsert[] = [];
+  for (const h of deck.heatLoads) {
+    const nodeId = idByKey.get(h.node);
+    if (!nodeId) {
+      unsupported.push({
+        line: null,
+        construct: h.name,
+        detail: `Heat load on undefined node ${h.node}; skipped`,
+      });
+      continue;
+    }
+    heatLoadRows.push(
+      h.timeValues
+        ? { modelId, nodeId, name: h.name, loadType: 'time_varying', timeValues: h.timeValues }
+        : { modelId, nodeId, name: h.name, loadType: 'constant', value: h.value },
+    );
+  }
+
+  return { nodes: nodeRows, conductors: conductorRows, heatLoads: heatLoadRows, unsupported };
+}
+
+/**
+ * Deck for a model's stored tables. Stored values are written as they are;
+ * expressions, orbital and heater loads and heat pipe tables have no
+ * counterpart in the decks and are reported. Radiation to space becomes a
+ * radiative conductor to an added SPACE boundary node.
+ */
+export function modelRowsToDeck(
+  title: string,
+  nodes: NodeRow[],
+  conductorRows: ConductorRow[],
+  heatLoadRows: HeatLoadRow[],
+): { deck: ThermalDeck; unsupported: UnsupportedConstruct[] } {
+  const unsupported: UnsupportedConstruct[] = [];
+  const report = (construct: string, detail: string) =>
+    unsupported.push({ line: null, construct, detail });
+
+  // Decks number their nodes; keys are 1-based positions
+  const keyById = new Map(nodes.map((n, i) => [n.id, String(i + 1)]));
+  const deck: ThermalDeck = { title, nodes: [], conductors: [], heatLoads: [] };
+
+  for (const n of nodes) {
+    if (n.expressions && Object.keys(n.expressions).length > 0) {
+      report(n.name, 'Node expressions exported as their stored values');
+    }
+    deck.nodes.push({
+      key: keyById.get(n.id)!,
+      name: n.name,
+      nodeType: n.nodeType,
+      temperature: n.nodeType === 'boundary' ? (n.boundaryTemp ?? n.temperature) : n.temperature,
+      capacitance: n.nodeType === 'diffusion' ? (n.capacitance ?? 0) : null,
+      area: n.area,
+      absorptivity: n.absorptivity,
+      emissivity: n.emissivity,
+    });
+  }
+
+  const spaceKey = String(nodes.length + 1);
+  for (const n of nodes) {
+    if (!n.radiatesToSpace || n.nodeType === 'boundary') continue;
+    const value = (n.emissivity ?? 0.5) * (n.area ?? 0) * (n.spaceViewFactor ?? 1);
+    if (value <= 0) continue;
+    if (!deck.nodes.some((d) => d.key === spaceKey)) {
+      deck.nodes.push({
+        key: spaceKey,
+        name: SPACE_NODE_NAME,
+        nodeType: 'boundary',
+        temperature: SPACE_TEMPERATURE,
+        capacitance: null,
+      });
+    }
+    deck.conductors.push({
+      name: `${n.name} to space`,
+      kind: 'radiation',
+      from: keyById.get(n.id)!,
+      to: spaceKey,
+      value,
+    });
+  }
+
+  for (const c of conductorRows) {
+    const from = keyById.get(c.nodeFromId);
+    const to = keyById.get(c.nodeToId);
+    if (!from || !to) continue;
+    if (c.expressions && Object.keys(c.expressions).length > 0) {
+      report(c.name, 'Conductor expressions exported as their stored values');
+    }
+    if (c.conductorType === 'radiation') {
+      deck.conductors.push({
+        name: c.name,
+        kind: 'radiation',
+        from,
+        to,
+        value: (c.area ?? 0) * (c.viewFactor ?? 0) * (c.emissivity ?? 0),
+      });
+      continue;
+    }
+    let value = c.conductance ?? 0;
+    const points = c.conductanceData?.points ?? [];
+    if (c.conductorType === 'heat_pipe' && points.length > 0) {
+      value = points.reduce((sum, p) => sum + p.conductance, 0) / points.length;
+      report(c.name, 'Heat pipe G(T) table exported as its mean conductance');
+    }
+    deck.conductors.push({ name: c.name, kind: 'linear', from, to, value });
+  }
+
+  const nodeNameById = new Map(nodes.map((n) => [n.id, n.name]));
+  for (const h of heatLoadRows) {
+    const node = keyById.get(h.nodeId);
+    if (!node) continue;
+    if (h.expressions && Object.keys(h.expressions).length > 0) {
+      report(h.name, 'Heat load expressions exported as their stored values');
+    }
+    switch (h.loadType) {
+      case 'constant':
+        deck.heatLoads.push({ name: h.name, node, value: h.value ?? 0 });
+        break;
+      case 'time_varying':
+        deck.heatLoads.push({ name: h.name, node, value: 0, timeValues: h.timeValues ?? [] });
+        break;
+      case 'orbital':
+        report(h.name, `Orbital heat load on ${nodeNameById.get(h.nodeId)} not exported; environment fluxes are computed by the receiving tool`);
+        break;
+      case 'heater':
+        report(h.name, `Thermostat heater on ${nodeNameById.get(h.nodeId)} not exported; needs control logic in the receiving tool`);
+        break;
+    }
+  }
+
+  return { deck, unsupported };
+}
@@ -0,0 +1,339 @@
+// ─── SINDA/FLUINT Input Deck ─────────────────────────────────────────────────
+// Reads and writes the thermal network of a SINDA/FLUINT input file:
+//   NODE DATA       id, T, C — negative id = boundary, C < 0 = arithmetic;
+//                   GEN lines are expanded
+//   CONDUCTOR DATA  id, node a, node b, G — negative id = radiation (ε·A·F);
+//                   GEN lines are expanded
+//   SOURCE DATA     node, Q
+//   ARRAY DATA      doublet arrays for time-varying sources
+//   VARIABLES 1     Q assignments summing constants and D1DEG1(TIMEM, A<n>)
+//   CONTROL DATA    UID (SI or ENG) and ABSZRO
+// Node keys are "<submodel>.<id>". Fluid submodels (FLOW DATA), temperature
+// dependent inputs and general logic are listed as unsupported.
+
+import {
+  CELSIUS_ZERO,
+  formatReal,
+  parseReal,
+  toTimeValues,
+  type DeckHeatLoad,
+  type DeckNodeType,
+  type DeckReadResult,
+  type ThermalDeck,
+  type UnsupportedConstruct,
+} from './deck';
+
+/** Factors from the deck's unit system to SI */
+interface UnitSystem {
+  absZero: number;
+  /** Temperature degrees per kelvin */
+  degreesPerKelvin: number;
+  capacitance: number;
+  conductance: number;
+  radiation: number;
+  power: number;
+  time: number;
+}
+
+const UNITS: Record<'SI' | 'ENG', UnitSystem> = {
+  SI: { absZero: CELSIUS_ZERO, degreesPerKelvin: 1, capacitance: 1, conductance: 1, radiation: 1, power: 1, time: 1 },
+  // °F, BTU/°F, BTU/(hr·°F), ft², BTU/hr, hr
+  ENG: {
+    absZero: -459.67,
+    degreesPerKelvin: 1.8,
+    capacitance: 1899.100534,
+    conductance: 0.5275279,
+    radiation: 0.09290304,
+    power: 0.2930711,
+    time: 3600,
+  },
+};
+
+// Blocks that control the solution or output rather than define the model
+const IGNORED_BLOCKS = new Set(['OPTIONS', 'OPERATIONS']);
+
+interface Line {
+  text: string;
+  line: number;
+  /** Trailing $ comment */
+  comment: string;
+  submodel: string;
+}
+
+/** Entries of a data line: "GEN 10, 5, 1" → ["GEN", "10", "5", "1"] */
+function entries(text: string): string[] {
+  return text
+    .split(/[,\s]+/)
+    .map((e) => e.trim())
+    .filter(Boolean);
+}
+
+function isComment(raw: string): boolean {
+  return /^[Cc](\s|$)/.test(raw) || raw.trimStart().startsWith('$');
+}
+
+/** Read a SINDA/FLUINT input file into the neutral form. */
+export function readSinda(content: string): DeckReadResult {
+  const unsupported: UnsupportedConstruct[] = [];
+  const report = (line: number | null, construct: string, detail: string) =>
+    unsupported.push({ line, construct, detail });
+
+  const deck: ThermalDeck = { title: '', nodes: [], conductors: [], heatLoads: [] };
+  const blocks = new Map<string, Line[]>();
+  let block = '';
+  let submodel = '';
+  let unitId: 'SI' | 'ENG' = 'SI';
+  let absZero: number | null = null;
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const lineNo = index + 1;
+    if (!raw.trim() || isComment(raw)) return;
+    const dollar = raw.indexOf('$');
+    const text = (dollar >= 0 ? raw.slice(0, dollar) : raw).trim();
+    const comment = dollar >= 0 ? raw.slice(dollar + 1).trim() : '';
+    if (!text) return;
+
+    const header = /^HEADER\s+([^,]+?)\s*(?:,\s*(\S+))?\s*$/i.exec(text);
+    if (header) {
+      block = header[1].toUpperCase().replace(/\s+DATA$/, '').replace(/\s+/g, ' ');
+      submodel = (header[2] ?? '').toUpperCase();
+      return;
+    }
+    if (/^END OF DATA/i.test(text)) {
+      block = 'END';
+      return;
+    }
+    if (block === 'END') return;
+
+    if (block === 'OPTIONS') {
+      const title = /^TITLE\s+(.+)$/i.exec(text);
+      if (title) deck.title = title[1].trim();
+      return;
+    }
+    if (block === 'CONTROL') {
+      for (const [, name, value] of text.matchAll(/(\w+)\s*=\s*([^,\s]+)/g)) {
+        if (name.toUpperCase() === 'UID') {
+          if (value.toUpperCase() === 'ENG') unitId = 'ENG';
+          else if (value.toUpperCase() !== 'SI') report(lineNo, `UID = ${value}`, 'Unknown unit system; SI assumed');
+        } else if (name.toUpperCase() === 'ABSZRO') {
+          absZero = parseReal(value);
+        }
+      }
+      return;
+    }
+    const lines = blocks.get(block) ?? [];
+    lines.push({ text, line: lineNo, comment, submodel });
+    blocks.set(block, lines);
+  });
+
+  const units = UNITS[unitId];
+  const zero = absZero !== null && !Number.isNaN(absZero) ? absZero : units.absZero;
+  const toKelvin = (t: number) => Number(((t - zero) / units.degreesPerKelvin).toFixed(6));
+  const nodeKey = (submodel: string, ref: string) => {
+    const trimmed = ref.trim().toUpperCase().replace(/^-/, '');
+    return trimmed.includes('.') ? trimmed : `${submodel}.${trimmed}`;
+  };
+
+  for (const [name, lines] of blocks) {
+    if (['NODE', 'CONDUCTOR', 'SOURCE', 'ARRAY', 'VARIABLES 1'].includes(name) || IGNORED_BLOCKS.has(name)) continue;
+    const detail = name === 'FLOW'
+      ? 'FLUINT fluid network not imported'
+      : `${lines.length} line(s) not imported`;
+    report(lines[0].line, `HEADER ${name}`, detail);
+  }
+
+  // ── Nodes ──────────────────────────────────────────────────────────────
+  const names = new Map<string, string>();
+  const addNode = (l: Line, id: number, t: number, c: number) => {
+    const key = nodeKey(l.submodel, String(Math.abs(id)));
+    const nodeType: DeckNodeType = id < 0 ? 'boundary' : c < 0 ? 'arithmetic' : 'diffusion';
+    const name = l.comment || key;
+    names.set(key, name);
+    deck.nodes.push({
+      key,
+      name,
+      nodeType,
+      temperature: toKelvin(t),
+      capacitance: nodeType === 'diffusion' ? c * units.capacitance : null,
+    });
+  };
+  for (const l of blocks.get('NODE') ?? []) {
+    const values = entries(l.text);
+    if (values[0].toUpperCase() === 'GEN') {
+      const [id, count, step, t, c] = values.slice(1).map(parseReal);
+      if ([id, count, step, t, c].some(Number.isNaN)) {
+        report(l.line, l.text.slice(0, 24), 'GEN line with expressions; skipped');
+        continue;
+      }
+      for (let i = 0; i < count; i++) addNode({ ...l, comment: '' }, id + Math.sign(id) * i * step, t, c);
+      continue;
+    }
+    const [id, t, c] = values.map(parseReal);
+    if (values.length !== 3 || [id, t, c].some(Number.isNaN)) {
+      report(l.line, l.text.slice(0, 24), 'Only constant id, T, C nodes are supported; skipped');
+      continue;
+    }
+    addNode(l, id, t, c);
+  }
+
+  // ── Conductors ─────────────────────────────────────────────────────────
+  const addConductor = (l: Line, id: number, a: string, b: string, g: number, name?: string) => {
+    const radiation = id < 0;
+    deck.conductors.push({
+      name: name || `${l.submodel}.G${Math.abs(id)}`,
+      kind: radiation ? 'radiation' : 'linear',
+      from: nodeKey(l.submodel, a),
+      to: nodeKey(l.submodel, b),
+      value: g * (radiation ? units.radiation : units.conductance),
+    });
+  };
+  for (const l of blocks.get('CONDUCTOR') ?? []) {
+    const values = entries(l.text);
+    if (values[0].toUpperCase() === 'GEN') {
+      const [id, count, step, a, aStep, b, bStep, g] = values.slice(1).map(parseReal);
+      if ([id, count, step, a, aStep, b, bStep, g].some(Number.isNaN)) {
+        report(l.line, l.text.slice(0, 24), 'GEN line with expressions; skipped');
+        continue;
+      }
+      for (let i = 0; i < count; i++) {
+        addConductor(l, id + Math.sign(id) * i * step, String(a + i * aStep), String(b + i * bStep), g);
+      }
+      continue;
+    }
+    const g = parseReal(values[3] ?? '');
+    const id = parseReal(values[0]);
+    if (values.length !== 4 || Number.isNaN(g) || Number.isNaN(id)) {
+      report(l.line, l.text.slice(0, 24), 'Only constant id, a, b, G conductors are supported; skipped');
+      continue;
+    }
+    addConductor(l, id, values[1], values[2], g, l.comment);
+  }
+
+  // ── Sources ────────────────────────────────────────────────────────────
+  const sources = new Map<string, DeckHeatLoad[]>();
+  for (const l of blocks.get('SOURCE') ?? []) {
+    const values = entries(l.text);
+    const q = parseReal(values[1] ?? '');
+    if (values.length !== 2 || Number.isNaN(q)) {
+      report(l.line, l.text.slice(0, 24), 'Only constant node, Q sources are supported; skipped');
+      continue;
+    }
+    const key = nodeKey(l.submodel, values[0]);
+    sources.set(key, [
+      ...(sources.get(key) ?? []),
+      { name: l.comment || `${names.get(key) ?? key} Q`, node: key, value: q * units.power },
+    ]);
+  }
+
+  const arrays = new Map<string, number[]>();
+  let current: number[] | null = null;
+  for (const l of blocks.get('ARRAY') ?? []) {
+    const start = /^(\d+)\s*=\s*(.*)$/.exec(l.text);
+    if (start) {
+      current = [];
+      arrays.set(`${l.submodel}.A${start[1]}`, current);
+    }
+    const values = entries(start ? start[2] : l.text).filter((v) => v.toUpperCase() !== 'END');
+    if (!current || values.some((v) => Number.isNaN(parseReal(v)))) {
+      report(l.line, l.text.slice(0, 24), 'Array entry is not a number; array skipped');
+      current = null;
+      continue;
+    }
+    current.push(...values.map(parseReal));
+  }
+
+  for (const l of blocks.get('VARIABLES 1') ?? []) {
+    const match = /^(?:(\w+)\.)?Q(\d+)\s*=\s*(.+)$/i.exec(l.text);
+    if (!match) {
+      report(l.line, l.text.slice(0, 24), 'Statement not imported');
+      continue;
+    }
+    const key = nodeKey(match[1] ?? l.submodel, match[2]);
+    const loads: DeckHeatLoad[] = [];
+    let cumulative = false;
+    let ok = true;
+    for (const term of match[3].split('+').map((t) => t.trim())) {
+      const constant = parseReal(term);
+      const table = /^D1DEG1\s*\(\s*TIMEM\s*,\s*(?:(\w+)\.)?A(\d+)\s*\)$/i.exec(term);
+      const values = table ? arrays.get(`${(table[1] ?? l.submodel).toUpperCase()}.A${table[2]}`) : undefined;
+      const self = /^(?:(\w+)\.)?Q(\d+)$/i.exec(term);
+      if (self && nodeKey(self[1] ?? l.submodel, self[2]) === key) {
+        cumulative = true;
+      } else if (!Number.isNaN(constant)) {
+        loads.push({ name: `${names.get(key) ?? key} Q`, node: key, value: constant * units.power });
+      } else if (values) {
+        loads.push({
+          name: `${names.get(key) ?? key} A${table![2]}`,
+          node: key,
+          value: 0,
+          timeValues: toTimeValues(values, units.time, units.power),
+        });
+      } else {
+        ok = false;
+      }
+    }
+    if (!ok) {
+      report(l.line, `Q${match[2]}`, 'Source is not a sum of constants and D1DEG1(TIMEM, array); not imported');
+      continue;
+    }
+    // Q = … replaces the SOURCE DATA value; Q = Q + … adds to it
+    sources.set(key, [...(cumulative ? (sources.get(key) ?? []) : []), ...loads]);
+  }
+  for (const loads of sources.values()) deck.heatLoads.push(...loads);
+
+  unsupported.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { deck, unsupported };
+}
+
+const SUBMODEL = 'MODEL';
+
+/** Write the neutral form as a SINDA/FLUINT input file; `notExported` heads the file as comments. */
+export function writeSinda(deck: ThermalDeck, notExported: UnsupportedConstruct[]): string {
+  const out: string[] = [`C SINDA/FLUINT model "${deck.title}" exported from Verixos`];
+  if (notExported.length > 0) {
+    out.push('C', 'C Not exported:');
+    for (const u of notExported) out.push(`C   ${u.construct}: ${u.detail}`);
+  }
+  const pad = (text: string) => `      ${text}`;
+  const name = (text: string) => text.replace(/\s+/g, ' ');
+
+  out.push(
+    'HEADER OPTIONS DATA',
+    `TITLE ${deck.title}`,
+    'HEADER CONTROL DATA, GLOBAL',
+    pad('UID = SI'),
+    pad(`ABSZRO = ${formatReal(CELSIUS_ZERO)}`),
+    pad('SIGMA = 5.670374E-8'),
+    `HEADER NODE DATA, ${SUBMODEL}`,
+  );
+  for (const n of deck.nodes) {
+    const id = n.nodeType === 'boundary' ? `-${n.key}` : n.key;
+    const c = n.nodeType === 'diffusion' ? (n.capacitance ?? 0) : n.nodeType === 'arithmetic' ? -1 : 0;
+    out.push(pad(`${id}, ${formatReal(n.temperature + CELSIUS_ZERO)}, ${formatReal(c)}  $ ${name(n.name)}`));
+  }
+
+  out.push(`HEADER CONDUCTOR DATA, ${SUBMODEL}`);
+  deck.conductors.forEach((c, i) => {
+    const id = c.kind === 'radiation' ? -(i + 1) : i + 1;
+    out.push(pad(`${id}, ${c.from}, ${c.to}, ${formatReal(c.value)}  $ ${name(c.name)}`));
+  });
+
+  const constants = deck.heatLoads.filter((h) => !h.timeValues);
+  const tables = deck.heatLoads.filter((h) => h.timeValues);
+  if (constants.length > 0) {
+    out.push(`HEADER SOURCE DATA, ${SUBMODEL}`);
+    for (const h of constants) out.push(pad(`${h.node}, ${formatReal(h.value)}  $ ${name(h.name)}`));
+  }
+  if (tables.length > 0) {
+    out.push(`HEADER ARRAY DATA, ${SUBMODEL}`);
+    tables.forEach((h, i) => {
+      const values = h.timeValues!.flatMap((p) => [formatReal(p.time), formatReal(p.value)]);
+      out.push(pad(`${i + 1} = ${values.join(', ')}, END  $ ${name(h.name)}`));
+    });
+    out.push(`HEADER VARIABLES 1, ${SUBMODEL}`);
+    tables.forEach((h, i) => out.push(pad(`Q${h.node} = Q${h.node} + D1DEG1(TIMEM, A${i + 1})`)));
+  }
+
+  out.push('HEADER OPERATIONS', 'BUILD ALL', pad('CALL STEADY'), 'END OF DATA', '');
+  return out.join('\n');
+}
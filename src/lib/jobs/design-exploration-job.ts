@@ -0,0 +1,314 @@
+import { db } from '@/lib/db/client';
+import {
+  thermalModels,
+  thermalNodes,
+  conductors,
+  heatLoads,
+  designExplorations,
+  explorationResults,
+} from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { buildThermalNetwork } from '@/lib/solver/thermal-network';
+import {
+  latinHypercubeSample,
+  randomSample,
+  applyParameterSample,
+  checkFeasibility,
+  constraintViolation,
+  extractNodeResults,
+} from '@/lib/solver/design-space';
+import type { ExplorationConfig, NodeResult } from '@/lib/solver/design-space';
+import {
+  evaluateObjectives,
+  makeOffspring,
+  objectiveScores,
+  paretoSet,
+  selectSurvivors,
+  type Candidate,
+} from '@/lib/solver/design-optimization';
+import { fitSurrogate, SurrogateError, type SurrogateFit, type SurrogateSample } from '@/lib/solver/surrogate';
+import { symbolValues } from '@/lib/solver/expressions';
+import type { HeaterResult, OrbitalConfig, SimulationConfig } from '@/lib/solver/types';
+import { deliverWebhookEvent } from '@/lib/webhooks/deliver';
+import { touchDesignExploration } from './queue';
+import { runSolverInChildProcess } from './run-solver';
+import { attachNodeMaterials } from './node-materials';
+import { loadRadiationEnclosure } from './radiation-enclosure';
+import type { DesignExplorationJob } from './queue';
+
+// Default steady-state config for exploration
+const EXPLORATION_CONFIG: SimulationConfig = {
+  simulationType: 'steady_state',
+  timeStart: 0,
+  timeEnd: 1000,
+  timeStep: 1,
+  maxIterations: 500,
+  tolerance: 0.01,
+  minStep: 0.1,
+  maxStep: 10,
+};
+
+/**
+ * Evaluate every sample of a claimed design exploration.
+ *
+ * Each sample is solved in a child process like a simulation run, so the
+ * heartbeat keeps going during long solves; the completedSamples counter is
+ * updated between samples. A retry starts the exploration over with fresh
+ * samples.
+ *
+ * An optimization evaluates `generations` NSGA-II generations of
+ * `populationSize` designs each, every one stored as a result row with its
+ * objective values; the feasible non-dominated designs are then marked as
+ * the Pareto set. A sampling run fits the Gaussian-process surrogate over
+ * its samples once they are all in.
+ */
+export async function processDesignExploration(
+  exploration: DesignExplorationJob,
+  workerId: string,
+): Promise<void> {
+  const [model] = await db
+    .select()
+    .from(thermalModels)
+    .where(eq(thermalModels.id, exploration.modelId));
+  if (!model) return;
+
+  try {
+    const config = exploration.config as ExplorationConfig;
+
+    await db
+      .delete(explorationResults)
+      .where(eq(explorationResults.explorationId, exploration.id));
+    await db
+      .update(designExplorations)
+      .set({ surrogate: null })
+      .where(eq(designExplorations.id, exploration.id));
+
+    const nodes = await attachNodeMaterials(
+      await db
+        .select()
+        .from(thermalNodes)
+        .where(eq(thermalNodes.modelId, exploration.modelId)),
+    );
+    if (nodes.length === 0) {
+      throw new Error('Model has no nodes');
+    }
+    const modelConductors = await db
+      .select()
+      .from(conductors)
+      .where(eq(conductors.modelId, exploration.modelId));
+    const loads = await db
+      .select()
+      .from(heatLoads)
+      .where(eq(heatLoads.modelId, exploration.modelId));
+
+    // Build node name map
+    const nodeNameMap = new Map<string, string>();
+    for (const n of nodes) {
+      nodeNameMap.set(n.id, n.name);
+    }
+
+    const constraints = config.constraints ?? [];
+    const symbols = symbolValues(model.symbols);
+    const enclosure = await loadRadiationEnclosure(model);
+    let completedCount = 0;
+    let surrogate: SurrogateFit | null = null;
+
+    if (!(await touchDesignExploration(exploration.id, workerId, 0))) return;
+
+    /**
+     * Solve one sample; throws when the solve fails, and resolves null when
+     * the exploration was cancelled or taken over by another worker.
+     */
+    const solveSample = async (sample: Record<string, number>) => {
+      const modified = applyParameterSample(
+        nodes,
+        modelConductors,
+        loads,
+        config.parameters,
+        sample,
+        symbols,
+      );
+
+      const network = buildThermalNetwork(
+        modified.nodes,
+        modified.conductors,
+        modified.heatLoads,
+        (model.orbitalConfig as OrbitalConfig) ?? null,
+        null,
+        modified.symbols,
+        enclosure,
+      );
+
+      const result = await runSolverInChildProcess(network, EXPLORATION_CONFIG, () =>
+        touchDesignExploration(exploration.id, workerId, completedCount),
+      );
+      if (!result) return null;
+
+      const nodeResults = extractNodeResults(
+        result.nodeResults,
+        nodeNameMap,
+      );
+      return { nodeResults, heaterResults: result.heaterResults ?? [], nodes: modified.nodes };
+    };
+
+    if (config.mode === 'optimization') {
+      const objectives = config.objectives ?? [];
+      const populationSize = config.populationSize ?? 20;
+      const generations = config.generations ?? 5;
+      const evaluated: Array<Candidate & { resultId: string }> = [];
+      let population: Candidate[] = [];
+      let pending = latinHypercubeSample(config.parameters, populationSize);
+
+      for (let generation = 0; generation < generations; generation++) {
+        const offspring: Candidate[] = [];
+        for (const sample of pending) {
+          let nodeResults: NodeResult[] = [];
+          let heaterResults: HeaterResult[] = [];
+          let sampledNodes: typeof nodes = [];
+          let solved = false;
+          try {
+            const outcome = await solveSample(sample);
+            if (!outcome) return;
+            ({ nodeResults, heaterResults, nodes: sampledNodes } = outcome);
+            solved = true;
+          } catch (sampleError) {
+            console.error(`Optimization sample ${completedCount} error:`, sampleError);
+          }
+
+          const values = solved
+            ? evaluateObjectives(objectives, { nodeResults, heaterResults, nodes: sampledNodes }, constraints)
+            : null;
+          const candidate: Candidate = {
+            paramValues: sample,
+            scores: values ? objectiveScores(objectives, values) : objectives.map(() => Infinity),
+            violation: solved ? constraintViolation(nodeResults, constraints) : Infinity,
+          };
+
+          const [row] = await db
+            .insert(explorationResults)
+            .values({
+              explorationId: exploration.id,
+              sampleIndex: completedCount,
+              paramValues: sample as unknown as Record<string, unknown>,
+              nodeResults: nodeResults as unknown as Record<string, unknown>[],
+              feasible: candidate.violation === 0,
+              objectives: values,
+              generation,
+            })
+            .returning({ id: explorationResults.id });
+          evaluated.push({ ...candidate, resultId: row.id });
+          offspring.push(candidate);
+
+          completedCount++;
+          if (!(await touchDesignExploration(exploration.id, workerId, completedCount))) {
+            return;
+          }
+        }
+
+        population = generation === 0
+          ? offspring
+          : selectSurvivors([...population, ...offspring], populationSize);
+        if (generation < generations - 1) {
+          pending = makeOffspring(population, config.parameters, populationSize);
+        }
+      }
+
+      const paretoIds = paretoSet(evaluated).map((i) => evaluated[i].resultId);
+      if (paretoIds.length > 0) {
+        await db
+          .update(explorationResults)
+          .set({ pareto: true })
+          .where(inArray(explorationResults.id, paretoIds));
+      }
+    } else {
+      // Generate samples
+      const samples =
+        (config.samplingMethod ?? 'lhs') === 'lhs'
+          ? latinHypercubeSample(config.parameters, config.numSamples)
+          : randomSample(config.parameters, config.numSamples);
+
+      // Run samples sequentially
+      const solvedSamples: SurrogateSample[] = [];
+      for (let i = 0; i < samples.length; i++) {
+        try {
+          const outcome = await solveSample(samples[i]);
+          if (!outcome) return;
+          const { nodeResults } = outcome;
+          const feasible = checkFeasibility(nodeResults, constraints);
+          solvedSamples.push({ paramValues: samples[i], nodeResults });
+
+          await db.insert(explorationResults).values({
+            explorationId: exploration.id,
+            sampleIndex: i,
+            paramValues: samples[i] as unknown as Record<string, unknown>,
+            nodeResults: nodeResults as unknown as Record<string, unknown>[],
+            feasible,
+          });
+        } catch (sampleError) {
+          console.error(`Exploration sample ${i} error:`, sampleError);
+          // Store as infeasible with empty results
+          await db.insert(explorationResults).values({
+            explorationId: exploration.id,
+            sampleIndex: i,
+            paramValues: samples[i] as unknown as Record<string, unknown>,
+            nodeResults: [] as unknown as Record<string, unknown>[],
+            feasible: false,
+          });
+        }
+
+        completedCount++;
+        if (!(await touchDesignExploration(exploration.id, workerId, completedCount))) {
+          return;
+        }
+      }
+
+      try {
+        surrogate = fitSurrogate(config.parameters, solvedSamples);
+      } catch (surrogateError) {
+        // Too few or degenerate samples: the exploration completes without one
+        if (!(surrogateError instanceof SurrogateError)) throw surrogateError;
+        console.warn(`Exploration ${exploration.id} has no surrogate: ${surrogateError.message}`);
+      }
+    }
+
+    const [completed] = await db
+      .update(designExplorations)
+      .set({
+        status: 'completed',
+        completedSamples: completedCount,
+        completedAt: new Date(),
+        surrogate,
+      })
+      .where(
+        and(
+          eq(designExplorations.id, exploration.id),
+          eq(designExplorations.status, 'running'),
+        ),
+      )
+      .returning({ id: designExplorations.id });
+
+    if (completed && exploration.requestedBy) {
+      deliverWebhookEvent(exploration.requestedBy, 'design_exploration.completed', {
+        explorationId: exploration.id,
+        modelId: exploration.modelId,
+        projectId: model.projectId,
+        status: 'completed',
+        timestamp: new Date().toISOString(),
+      }).catch((err) => console.error('Webhook delivery error:', err));
+    }
+  } catch (error) {
+    await db
+      .update(designExplorations)
+      .set({
+        status: 'failed',
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      })
+      .where(
+        and(
+          eq(designExplorations.id, exploration.id),
+          eq(designExplorations.status, 'running'),
+        ),
+      );
+  }
+}
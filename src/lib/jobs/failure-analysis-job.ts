@@ -0,0 +1,298 @@
+import { db } from '@/lib/db/client';
+import {
+  thermalModels,
+  thermalNodes,
+  conductors,
+  heatLoads,
+  simulationRuns,
+  simulationResults,
+  failureAnalyses,
+  failureCases,
+  mliBlankets,
+} from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { buildThermalNetwork } from '@/lib/solver/thermal-network';
+import { applyFailureMode } from '@/lib/solver/failure-mode';
+import type { FailureType, FailureModeParams } from '@/lib/solver/failure-mode';
+import { symbolValues } from '@/lib/solver/expressions';
+import { surfaceDegradation } from '@/lib/solver/optical-life';
+import { blanketConductorIds } from '@/lib/solver/mli-blanket';
+import type { OrbitalConfig, SimulationConfig } from '@/lib/solver/types';
+import { deliverWebhookEvent } from '@/lib/webhooks/deliver';
+import { runSolverInChildProcess } from './run-solver';
+import { buildResultRows } from './simulation-job';
+import { touchFailureAnalysis } from './queue';
+import { attachNodeMaterials } from './node-materials';
+import { loadRadiationEnclosure } from './radiation-enclosure';
+import type { FailureAnalysisJob } from './queue';
+
+// Default simulation config for failure analysis runs
+const FAILURE_CASE_CONFIG: SimulationConfig = {
+  simulationType: 'transient',
+  solverMethod: 'rk4',
+  timeStart: 0,
+  timeEnd: 5400, // 90 minutes (one orbit)
+  timeStep: 10,
+  maxIterations: 10000,
+  tolerance: 0.01,
+  minStep: 0.01,
+  maxStep: 100,
+};
+
+/**
+ * Run every outstanding case of a claimed failure analysis.
+ *
+ * Each case gets its own simulation run, created up-front as 'running' and
+ * linked to the case so the UI can follow it. Case runs carry no worker id —
+ * they are owned by the analysis job, not the queue. On a retry, cases that
+ * already completed are kept and interrupted ones are solved again.
+ */
+export async function processFailureAnalysis(
+  analysis: FailureAnalysisJob,
+  workerId: string,
+): Promise<void> {
+  const [model] = await db
+    .select()
+    .from(thermalModels)
+    .where(eq(thermalModels.id, analysis.modelId));
+  if (!model) return;
+
+  try {
+    const nodes = await attachNodeMaterials(
+      await db
+        .select()
+        .from(thermalNodes)
+        .where(eq(thermalNodes.modelId, analysis.modelId)),
+    );
+    if (nodes.length === 0) {
+      throw new Error('Model has no nodes');
+    }
+    const modelConductors = await db
+      .select()
+      .from(conductors)
+      .where(eq(conductors.modelId, analysis.modelId));
+    const loads = await db
+      .select()
+      .from(heatLoads)
+      .where(eq(heatLoads.modelId, analysis.modelId));
+    const blankets = await db
+      .select()
+      .from(mliBlankets)
+      .where(eq(mliBlankets.modelId, analysis.modelId));
+
+    const orbitalConfig = (model.orbitalConfig as OrbitalConfig) ?? null;
+    // Expressions are resolved here; the per-case rebuilds below start from
+    // the resolved solver values. The enclosure is applied again to those, so
+    // a failure that changes emissivities changes the radiative exchange.
+    const enclosure = await loadRadiationEnclosure(model);
+    const network = buildThermalNetwork(
+      nodes,
+      modelConductors,
+      loads,
+      orbitalConfig,
+      null,
+      symbolValues(model.symbols),
+      enclosure,
+    );
+
+    const cases = await db
+      .select()
+      .from(failureCases)
+      .where(eq(failureCases.analysisId, analysis.id));
+
+    for (const caseRow of cases) {
+      if (caseRow.status === 'completed') continue;
+
+      // A run left over from an interrupted attempt
+      if (caseRow.runId) {
+        await db
+          .update(simulationRuns)
+          .set({
+            status: 'failed',
+            completedAt: new Date(),
+            errorMessage: 'Interrupted — superseded by retry',
+          })
+          .where(
+            and(eq(simulationRuns.id, caseRow.runId), eq(simulationRuns.status, 'running')),
+          );
+      }
+
+      let runId: string | null = null;
+      try {
+        // Coating degradation takes each surface's EOL optics from the material library
+        let params = (caseRow.params as FailureModeParams) ?? {};
+        if (caseRow.failureType === 'coating_degradation_eol') {
+          const degradation = surfaceDegradation(nodes, { stage: 'eol', years: params.missionYears });
+          params = { ...params, surfaceDegradation: Object.fromEntries(degradation) };
+        }
+        // MLI degradation raises the ε* of the model's blankets, or of the one selected
+        if (caseRow.failureType === 'mli_degradation' && blankets.length > 0) {
+          const targets = params.blanketId
+            ? blankets.filter((b) => b.id === params.blanketId)
+            : blankets;
+          params = { ...params, blanketConductorIds: blanketConductorIds(targets, modelConductors) };
+        }
+
+        // Apply failure mode to get modified solver-level data
+        const modified = applyFailureMode(
+          caseRow.failureType as FailureType,
+          Array.from(network.nodes.values()),
+          network.conductors,
+          network.heatLoads,
+          params,
+        );
+
+        // Rebuild network from modified data (need to re-establish adjacency lists etc.)
+        // We convert solver nodes back to DB-like format for buildThermalNetwork
+        const modifiedNetwork = buildThermalNetwork(
+          modified.nodes.map((n) => ({
+            id: n.id,
+            name: n.name,
+            nodeType: n.nodeType,
+            temperature: n.initialTemperature,
+            capacitance: n.capacitance,
+            boundaryTemp: n.boundaryTemp,
+            area: n.area,
+            absorptivity: n.absorptivity,
+            emissivity: n.emissivity,
+            radiatesToSpace: n.radiatesToSpace,
+            spaceViewFactor: n.spaceViewFactor,
+            material: n.material,
+          })),
+          modified.conductors.map((c) => ({
+            id: c.id,
+            name: c.name,
+            conductorType: c.conductorType,
+            nodeFromId: c.nodeFromId,
+            nodeToId: c.nodeToId,
+            conductance: c.conductance,
+            area: c.area,
+            viewFactor: c.viewFactor,
+            emissivity: c.emissivity,
+            conductanceData: c.conductanceData ?? undefined,
+          })),
+          modified.heatLoads.map((hl) => ({
+            id: hl.id,
+            name: hl.name,
+            nodeId: hl.nodeId,
+            loadType: hl.loadType,
+            value: hl.value,
+            timeValues: hl.timeValues.length > 0 ? hl.timeValues : null,
+            orbitalParams: hl.orbitalParams,
+            heaterParams: hl.heaterParams,
+          })),
+          orbitalConfig,
+          null,
+          {},
+          enclosure,
+        );
+
+        const [run] = await db
+          .insert(simulationRuns)
+          .values({
+            modelId: analysis.modelId,
+            // Inputs are the failure case's variant of this version; no snapshot
+            modelVersion: model.version,
+            status: 'running',
+            simulationType: 'transient',
+            config: {
+              timeStart: FAILURE_CASE_CONFIG.timeStart,
+              timeEnd: FAILURE_CASE_CONFIG.timeEnd,
+              timeStep: FAILURE_CASE_CONFIG.timeStep,
+              maxIterations: FAILURE_CASE_CONFIG.maxIterations,
+              tolerance: FAILURE_CASE_CONFIG.tolerance,
+            },
+            requestedBy: analysis.requestedBy,
+            progress: 0,
+            startedAt: new Date(),
+          })
+          .returning();
+        runId = run.id;
+
+        await db
+          .update(failureCases)
+          .set({ runId: run.id, status: 'running' })
+          .where(eq(failureCases.id, caseRow.id));
+
+        const result = await runSolverInChildProcess(
+          modifiedNetwork,
+          FAILURE_CASE_CONFIG,
+          async (fraction) => {
+            await db
+              .update(simulationRuns)
+              .set({ progress: Math.floor(fraction * 90) })
+              .where(eq(simulationRuns.id, run.id));
+            return touchFailureAnalysis(analysis.id, workerId);
+          },
+        );
+        if (!result) {
+          // Analysis was taken over by another worker; leave the case to it
+          await db
+            .update(simulationRuns)
+            .set({ status: 'cancelled', completedAt: new Date() })
+            .where(eq(simulationRuns.id, run.id));
+          return;
+        }
+
+        const resultValues = buildResultRows(run.id, modifiedNetwork, result);
+        if (resultValues.length > 0) {
+          await db.insert(simulationResults).values(resultValues);
+        }
+
+        await db
+          .update(simulationRuns)
+          .set({ status: 'completed', progress: 100, completedAt: new Date() })
+          .where(eq(simulationRuns.id, run.id));
+        await db
+          .update(failureCases)
+          .set({ status: 'completed' })
+          .where(eq(failureCases.id, caseRow.id));
+      } catch (caseError) {
+        console.error(`Failure case ${caseRow.id} error:`, caseError);
+        if (runId) {
+          await db
+            .update(simulationRuns)
+            .set({
+              status: 'failed',
+              progress: 100,
+              completedAt: new Date(),
+              errorMessage:
+                caseError instanceof Error ? caseError.message : 'Unknown simulation error',
+            })
+            .where(eq(simulationRuns.id, runId));
+        }
+        await db
+          .update(failureCases)
+          .set({ status: 'failed' })
+          .where(eq(failureCases.id, caseRow.id));
+      }
+
+      if (!(await touchFailureAnalysis(analysis.id, workerId))) return;
+    }
+
+    const [completed] = await db
+      .update(failureAnalyses)
+      .set({ status: 'completed', completedAt: new Date() })
+      .where(and(eq(failureAnalyses.id, analysis.id), eq(failureAnalyses.status, 'running')))
+      .returning({ id: failureAnalyses.id });
+
+    if (completed && analysis.requestedBy) {
+      deliverWebhookEvent(analysis.requestedBy, 'failure_analysis.completed', {
+        analysisId: analysis.id,
+        modelId: analysis.modelId,
+        projectId: model.projectId,
+        status: 'completed',
+        timestamp: new Date().toISOString(),
+      }).catch((err) => console.error('Webhook delivery error:', err));
+    }
+  } catch (error) {
+    await db
+      .update(failureAnalyses)
+      .set({
+        status: 'failed',
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      })
+      .where(and(eq(failureAnalyses.id, analysis.id), eq(failureAnalyses.status, 'running')));
+  }
+}
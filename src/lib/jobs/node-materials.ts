@@ -0,0 +1,33 @@
+import { db } from '@/lib/db/client';
+import { materials } from '@/lib/db/schema';
+import { inArray } from 'drizzle-orm';
+
+type Material = typeof materials.$inferSelect;
+
+/**
+ * Attach each node's material and coating rows so buildThermalNetwork() can
+ * derive capacitance and α/ε from them and apply the temperature-dependent
+ * k(T), cp(T) and ε(T) tables.
+ */
+export async function attachNodeMaterials<
+  T extends { materialId: string | null; coatingId?: string | null },
+>(nodes: T[]): Promise<Array<T & { material: Material | null; coating: Material | null }>> {
+  const materialIds = [
+    ...new Set(
+      nodes
+        .flatMap((n) => [n.materialId, n.coatingId ?? null])
+        .filter((id): id is string => id !== null),
+    ),
+  ];
+  const rows =
+    materialIds.length > 0
+      ? await db.select().from(materials).where(inArray(materials.id, materialIds))
+      : [];
+  const byId = new Map(rows.map((m) => [m.id, m]));
+
+  return nodes.map((n) => ({
+    ...n,
+    material: n.materialId ? (byId.get(n.materialId) ?? null) : null,
+    coating: n.coatingId ? (byId.get(n.coatingId) ?? null) : null,
+  }));
+}
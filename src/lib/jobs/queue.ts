@@ -0,0 +1,330 @@
+/**
+ * Postgres-backed job queue.
+ *
+ * API routes insert simulation runs, failure analyses, design explorations and
+ * view factor jobs with status 'pending'; worker processes (src/scripts/simulation-worker.ts)
+ * claim them here. A claim is a single UPDATE … WHERE id IN (SELECT … FOR
+ * UPDATE SKIP LOCKED) statement, so concurrent workers never pick up the same
+ * row even over the stateless neon-http driver.
+ *
+ * Claimed rows carry the worker id and a heartbeat timestamp. Rows whose
+ * heartbeat goes stale (worker crashed or was killed) are put back in the
+ * queue until MAX_ATTEMPTS is reached, then marked failed.
+ */
+
+import { hostname } from 'os';
+import { db } from '@/lib/db/client';
+import {
+  simulationRuns,
+  failureAnalyses,
+  designExplorations,
+  viewFactorJobs,
+} from '@/lib/db/schema';
+import { and, asc, eq, inArray, isNotNull, lt, gte, sql } from 'drizzle-orm';
+
+export type SimulationRunJob = typeof simulationRuns.$inferSelect;
+export type FailureAnalysisJob = typeof failureAnalyses.$inferSelect;
+export type DesignExplorationJob = typeof designExplorations.$inferSelect;
+export type ViewFactorJob = typeof viewFactorJobs.$inferSelect;
+
+export const MAX_ATTEMPTS = 3;
+export const STALE_AFTER_MS = 2 * 60 * 1000; // 2 minutes without a heartbeat
+
+export function createWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+// ── Claiming ───────────────────────────────────────────────────────────────
+
+export async function claimSimulationRun(
+  workerId: string,
+): Promise<SimulationRunJob | null> {
+  const next = db
+    .select({ id: simulationRuns.id })
+    .from(simulationRuns)
+    .where(eq(simulationRuns.status, 'pending'))
+    .orderBy(asc(simulationRuns.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [run] = await db
+    .update(simulationRuns)
+    .set({
+      status: 'running',
+      workerId,
+      startedAt: new Date(),
+      heartbeatAt: new Date(),
+      progress: 0,
+      attempts: sql`${simulationRuns.attempts} + 1`,
+    })
+    .where(
+      and(inArray(simulationRuns.id, next), eq(simulationRuns.status, 'pending')),
+    )
+    .returning();
+
+  return run ?? null;
+}
+
+export async function claimFailureAnalysis(
+  workerId: string,
+): Promise<FailureAnalysisJob | null> {
+  const next = db
+    .select({ id: failureAnalyses.id })
+    .from(failureAnalyses)
+    .where(eq(failureAnalyses.status, 'pending'))
+    .orderBy(asc(failureAnalyses.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [analysis] = await db
+    .update(failureAnalyses)
+    .set({
+      status: 'running',
+      workerId,
+      heartbeatAt: new Date(),
+      attempts: sql`${failureAnalyses.attempts} + 1`,
+    })
+    .where(
+      and(inArray(failureAnalyses.id, next), eq(failureAnalyses.status, 'pending')),
+    )
+    .returning();
+
+  return analysis ?? null;
+}
+
+export async function claimDesignExploration(
+  workerId: string,
+): Promise<DesignExplorationJob | null> {
+  const next = db
+    .select({ id: designExplorations.id })
+    .from(designExplorations)
+    .where(eq(designExplorations.status, 'pending'))
+    .orderBy(asc(designExplorations.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [exploration] = await db
+    .update(designExplorations)
+    .set({
+      status: 'running',
+      workerId,
+      heartbeatAt: new Date(),
+      attempts: sql`${designExplorations.attempts} + 1`,
+    })
+    .where(
+      and(
+        inArray(designExplorations.id, next),
+        eq(designExplorations.status, 'pending'),
+      ),
+    )
+    .returning();
+
+  return exploration ?? null;
+}
+
+export async function claimViewFactorJob(
+  workerId: string,
+): Promise<ViewFactorJob | null> {
+  const next = db
+    .select({ id: viewFactorJobs.id })
+    .from(viewFactorJobs)
+    .where(eq(viewFactorJobs.status, 'pending'))
+    .orderBy(asc(viewFactorJobs.createdAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job] = await db
+    .update(viewFactorJobs)
+    .set({
+      status: 'running',
+      workerId,
+      heartbeatAt: new Date(),
+      progress: 0,
+      attempts: sql`${viewFactorJobs.attempts} + 1`,
+    })
+    .where(
+      and(inArray(viewFactorJobs.id, next), eq(viewFactorJobs.status, 'pending')),
+    )
+    .returning();
+
+  return job ?? null;
+}
+
+// ── Heartbeats ─────────────────────────────────────────────────────────────
+// Each returns false once the row is no longer 'running' for this worker
+// (cancelled by the user, or re-queued after going stale) so the caller can
+// abandon the job.
+
+export async function touchSimulationRun(
+  runId: string,
+  workerId: string,
+  progress: number,
+): Promise<boolean> {
+  const rows = await db
+    .update(simulationRuns)
+    .set({ progress, heartbeatAt: new Date() })
+    .where(
+      and(
+        eq(simulationRuns.id, runId),
+        eq(simulationRuns.status, 'running'),
+        eq(simulationRuns.workerId, workerId),
+      ),
+    )
+    .returning({ id: simulationRuns.id });
+  return rows.length > 0;
+}
+
+export async function touchFailureAnalysis(
+  analysisId: string,
+  workerId: string,
+): Promise<boolean> {
+  const rows = await db
+    .update(failureAnalyses)
+    .set({ heartbeatAt: new Date() })
+    .where(
+      and(
+        eq(failureAnalyses.id, analysisId),
+        eq(failureAnalyses.status, 'running'),
+        eq(failureAnalyses.workerId, workerId),
+      ),
+    )
+    .returning({ id: failureAnalyses.id });
+  return rows.length > 0;
+}
+
+export async function touchDesignExploration(
+  explorationId: string,
+  workerId: string,
+  completedSamples: number,
+): Promise<boolean> {
+  const rows = await db
+    .update(designExplorations)
+    .set({ completedSamples, heartbeatAt: new Date() })
+    .where(
+      and(
+        eq(designExplorations.id, explorationId),
+        eq(designExplorations.status, 'running'),
+        eq(designExplorations.workerId, workerId),
+      ),
+    )
+    .returning({ id: designExplorations.id });
+  return rows.length > 0;
+}
+
+export async function touchViewFactorJob(
+  jobId: string,
+  workerId: string,
+  progress: number,
+): Promise<boolean> {
+  const rows = await db
+    .update(viewFactorJobs)
+    .set({ progress, heartbeatAt: new Date() })
+    .where(
+      and(
+        eq(viewFactorJobs.id, jobId),
+        eq(viewFactorJobs.status, 'running'),
+        eq(viewFactorJobs.workerId, workerId),
+      ),
+    )
+    .returning({ id: viewFactorJobs.id });
+  return rows.length > 0;
+}
+
+// ── Stale job recovery ─────────────────────────────────────────────────────
+
+/**
+ * Re-queue jobs whose worker stopped sending heartbeats, or fail them once
+ * they have used up MAX_ATTEMPTS. Returns the number of rows touched.
+ */
+export async function requeueStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_AFTER_MS);
+  const failure = {
+    status: 'failed' as const,
+    workerId: null,
+    errorMessage: 'Worker stopped responding',
+    completedAt: new Date(),
+  };
+  let touched = 0;
+
+  const staleRuns = and(
+    eq(simulationRuns.status, 'running'),
+    isNotNull(simulationRuns.workerId),
+    lt(simulationRuns.heartbeatAt, cutoff),
+  );
+  touched += (
+    await db
+      .update(simulationRuns)
+      .set({ status: 'pending', workerId: null, progress: 0 })
+      .where(and(staleRuns, lt(simulationRuns.attempts, MAX_ATTEMPTS)))
+      .returning({ id: simulationRuns.id })
+  ).length;
+  touched += (
+    await db
+      .update(simulationRuns)
+      .set({ ...failure, progress: 100 })
+      .where(and(staleRuns, gte(simulationRuns.attempts, MAX_ATTEMPTS)))
+      .returning({ id: simulationRuns.id })
+  ).length;
+
+  const staleAnalyses = and(
+    eq(failureAnalyses.status, 'running'),
+    isNotNull(failureAnalyses.workerId),
+    lt(failureAnalyses.heartbeatAt, cutoff),
+  );
+  touched += (
+    await db
+      .update(failureAnalyses)
+      .set({ status: 'pending', workerId: null })
+      .where(and(staleAnalyses, lt(failureAnalyses.attempts, MAX_ATTEMPTS)))
+      .returning({ id: failureAnalyses.id })
+  ).length;
+  touched += (
+    await db
+      .update(failureAnalyses)
+      .set(failure)
+      .where(and(staleAnalyses, gte(failureAnalyses.attempts, MAX_ATTEMPTS)))
+      .returning({ id: failureAnalyses.id })
+  ).length;
+
+  const staleExplorations = and(
+    eq(designExplorations.status, 'running'),
+    isNotNull(designExplorations.workerId),
+    lt(designExplorations.heartbeatAt, cutoff),
+  );
+  touched += (
+    await db
+      .update(designExplorations)
+      .set({ status: 'pending', workerId: null })
+      .where(and(staleExplorations, lt(designExplorations.attempts, MAX_ATTEMPTS)))
+      .returning({ id: designExplorations.id })
+  ).length;
+  touched += (
+    await db
+      .update(designExplorations)
+      .set(failure)
+      .where(and(staleExplorations, gte(designExplorations.attempts, MAX_ATTEMPTS)))
+      .returning({ id: designExplorations.id })
+  ).length;
+
+  const staleViewFactorJobs = and(
+    eq(viewFactorJobs.status, 'running'),
+    isNotNull(viewFactorJobs.workerId),
+    lt(viewFactorJobs.heartbeatAt, cutoff),
+  );
+  touched += (
+    await db
+      .update(viewFactorJobs)
+      .set({ status: 'pending', workerId: null, progress: 0 })
+      .where(and(staleViewFactorJobs, lt(viewFactorJobs.attempts, MAX_ATTEMPTS)))
+      .returning({ id: viewFactorJobs.id })
+  ).length;
+  touched += (
+    await db
+      .update(viewFactorJobs)
+      .set(failure)
+      .where(and(staleViewFactorJobs, gte(viewFactorJobs.attempts, MAX_ATTEMPTS)))
+      .returning({ id: viewFactorJobs.id })
+  ).length;
+
+  return touched;
+}
@@ -0,0 +1,39 @@
+import { db } from '@/lib/db/client';
+import { viewFactorJobs } from '@/lib/db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import type { RadiationEnclosure } from '@/lib/solver/types';
+
+/**
+ * The model's radiation enclosure for buildThermalNetwork(): the matrix of
+ * the latest completed view factor job over its current CAD geometry, or
+ * null if there is none.
+ */
+export async function loadRadiationEnclosure(model: {
+  id: string;
+  cadAssetId: string | null;
+}): Promise<RadiationEnclosure | null> {
+  if (!model.cadAssetId) return null;
+
+  const [job] = await db
+    .select({ result: viewFactorJobs.result })
+    .from(viewFactorJobs)
+    .where(
+      and(
+        eq(viewFactorJobs.modelId, model.id),
+        eq(viewFactorJobs.cadAssetId, model.cadAssetId),
+        eq(viewFactorJobs.status, 'completed'),
+      ),
+    )
+    .orderBy(desc(viewFactorJobs.completedAt))
+    .limit(1);
+  if (!job?.result) return null;
+
+  const { nodeIds, areas, matrix, toSpace, specularReflectance } = job.result;
+  return {
+    nodeIds,
+    areas,
+    exchange: matrix,
+    toSpace,
+    specularReflectance: specularReflectance ?? nodeIds.map(() => 0),
+  };
+}
@@ -0,0 +1,91 @@
+import { fork } from 'child_process';
+import path from 'path';
+import type { ThermalNetwork, SimulationConfig, SolverResult } from '@/lib/solver/types';
+
+export interface SolverRequest {
+  network: ThermalNetwork;
+  config: SimulationConfig;
+}
+
+export type SolverMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; result: SolverResult }
+  | { type: 'error'; message: string };
+
+/** How often the caller's tick (heartbeat / progress / cancel check) runs. */
+const TICK_INTERVAL_MS = 2000;
+
+/**
+ * Run a solve in a forked child process.
+ *
+ * `tick` is called every TICK_INTERVAL_MS with the latest solver progress
+ * (0-1). When it resolves false the child is killed and the promise resolves
+ * null — used for cancellation and for runs taken over by another worker.
+ * Solver errors reject with the child's error message.
+ */
+export function runSolverInChildProcess(
+  network: ThermalNetwork,
+  config: SimulationConfig,
+  tick: (fraction: number) => Promise<boolean>,
+): Promise<SolverResult | null> {
+  return new Promise((resolve, reject) => {
+    // execArgv is inherited so the child gets the same TypeScript loader
+    // (tsx) and path aliases as the worker. 'advanced' serialization keeps
+    // the network's Maps intact.
+    const child = fork(path.join(__dirname, 'solver-process.ts'), [], {
+      execArgv: process.execArgv,
+      serialization: 'advanced',
+    });
+
+    let fraction = 0;
+    let settled = false;
+    let ticking = false;
+
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearInterval(timer);
+      fn();
+    };
+
+    const timer = setInterval(() => {
+      if (ticking) return;
+      ticking = true;
+      tick(fraction)
+        .then((keepGoing) => {
+          if (!keepGoing) {
+            child.kill();
+            finish(() => resolve(null));
+          }
+        })
+        .catch((err) => console.error('Solver tick error:', err))
+        .finally(() => {
+          ticking = false;
+        });
+    }, TICK_INTERVAL_MS);
+
+    child.on('message', (message: SolverMessage) => {
+      if (message.type === 'progress') {
+        fraction = message.fraction;
+      } else if (message.type === 'result') {
+        finish(() => resolve(message.result));
+      } else {
+        finish(() => reject(new Error(message.message)));
+      }
+    });
+
+    child.on('error', (err) => finish(() => reject(err)));
+
+    child.on('exit', (code, signal) => {
+      finish(() =>
+        reject(
+          new Error(
+            `Solver process exited unexpectedly (${signal ?? `code ${code}`})`,
+          ),
+        ),
+      );
+    });
+
+    child.send({ network, config } satisfies SolverRequest);
+  });
+}
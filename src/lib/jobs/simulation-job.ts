@@ -0,0 +1,245 @@
+import { db } from '@/lib/db/client';
+import {
+  thermalModels,
+  thermalNodes,
+  conductors,
+  heatLoads,
+  simulationRuns,
+  simulationResults,
+  sensitivityMatrices,
+} from '@/lib/db/schema';
+import type { SimulationConfigData } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { buildThermalNetwork } from '@/lib/solver/thermal-network';
+import { computeEnergyBalance } from '@/lib/solver/energy-balance';
+import { computeSensitivityMatrix } from '@/lib/solver/sensitivity';
+import { symbolValues } from '@/lib/solver/expressions';
+import {
+  degradeOrbitalLoads,
+  nodesAtLife,
+  surfaceDegradation,
+  type OpticalLife,
+} from '@/lib/solver/optical-life';
+import type {
+  OrbitalConfig,
+  SimulationConfig,
+  ThermalNetwork,
+  SolverResult,
+} from '@/lib/solver/types';
+import { deliverWebhookEvent } from '@/lib/webhooks/deliver';
+import { runSolverInChildProcess } from './run-solver';
+import { touchSimulationRun } from './queue';
+import { attachNodeMaterials } from './node-materials';
+import { loadRadiationEnclosure } from './radiation-enclosure';
+import type { SimulationRunJob } from './queue';
+
+const BATCH_SIZE = 100;
+
+/** Expand a stored run config into the solver's config. */
+export function toSolverConfig(
+  simulationType: 'transient' | 'steady_state',
+  config: SimulationConfigData,
+): SimulationConfig {
+  return {
+    simulationType,
+    solverMethod: config.solverMethod ?? 'rk4',
+    timeStart: config.timeStart,
+    timeEnd: config.timeEnd,
+    timeStep: config.timeStep,
+    maxIterations: config.maxIterations,
+    tolerance: config.tolerance,
+    minStep: config.minStep ?? config.timeStep * 0.001,
+    maxStep: config.maxStep ?? config.timeStep * 10,
+  };
+}
+
+/** One simulation_results row per node, with the flows of its conductors. */
+export function buildResultRows(
+  runId: string,
+  network: ThermalNetwork,
+  result: SolverResult,
+) {
+  const spaceFlows = new Map(
+    (result.spaceFlows ?? []).map((sf) => [sf.nodeId, { times: sf.times, flows: sf.flows }]),
+  );
+  return result.nodeResults.map((nodeResult) => ({
+    runId,
+    nodeId: nodeResult.nodeId,
+    timeValues: {
+      times: nodeResult.times,
+      temperatures: nodeResult.temperatures,
+    },
+    conductorFlows: result.conductorFlows
+      .filter((cf) => {
+        const conductor = network.conductors.find(
+          (c) => c.id === cf.conductorId,
+        );
+        return (
+          conductor?.nodeFromId === nodeResult.nodeId ||
+          conductor?.nodeToId === nodeResult.nodeId
+        );
+      })
+      .map((cf) => ({
+        conductorId: cf.conductorId,
+        times: cf.times,
+        flows: cf.flows,
+      })),
+    spaceFlow: spaceFlows.get(nodeResult.nodeId) ?? null,
+  }));
+}
+
+/**
+ * Solve a claimed simulation run and store its results.
+ *
+ * Progress: 10% model loaded, 20–80% solver, 80–95% result writes, 100% done.
+ * If the run is cancelled (or re-queued) mid-way the job stops without
+ * touching the row's status.
+ */
+export async function processSimulationRun(
+  run: SimulationRunJob,
+  workerId: string,
+): Promise<void> {
+  const [model] = await db
+    .select()
+    .from(thermalModels)
+    .where(eq(thermalModels.id, run.modelId));
+  if (!model) return; // model deleted — the run row went with it
+
+  try {
+    // Discard partial results from an earlier attempt
+    await db.delete(simulationResults).where(eq(simulationResults.runId, run.id));
+
+    const bolNodes = await attachNodeMaterials(
+      await db
+        .select()
+        .from(thermalNodes)
+        .where(eq(thermalNodes.modelId, run.modelId)),
+    );
+    if (bolNodes.length === 0) {
+      throw new Error('Model has no nodes');
+    }
+    const modelConductors = await db
+      .select()
+      .from(conductors)
+      .where(eq(conductors.modelId, run.modelId));
+    const bolLoads = await db
+      .select()
+      .from(heatLoads)
+      .where(eq(heatLoads.modelId, run.modelId));
+
+    // EOL runs take the coatings' degraded optics from the material library
+    const life: OpticalLife = {
+      stage: run.config.opticalLife ?? 'bol',
+      years: run.config.missionYears,
+    };
+    const nodes = nodesAtLife(bolNodes, life);
+    const loads = degradeOrbitalLoads(bolLoads, surfaceDegradation(bolNodes, life));
+
+    if (!(await touchSimulationRun(run.id, workerId, 10))) return;
+
+    const orbitalConfig = (model.orbitalConfig as OrbitalConfig) ?? null;
+    const symbols = symbolValues(model.symbols);
+    const enclosure = await loadRadiationEnclosure(model);
+    const network = buildThermalNetwork(
+      nodes,
+      modelConductors,
+      loads,
+      orbitalConfig,
+      run.environment ?? null,
+      symbols,
+      enclosure,
+    );
+
+    if (!(await touchSimulationRun(run.id, workerId, 20))) return;
+
+    const result = await runSolverInChildProcess(
+      network,
+      toSolverConfig(run.simulationType, run.config),
+      (fraction) =>
+        touchSimulationRun(run.id, workerId, 20 + Math.floor(fraction * 60)),
+    );
+    if (!result) return;
+
+    if (!(await touchSimulationRun(run.id, workerId, 80))) return;
+
+    const energyBalance = computeEnergyBalance(network, result);
+
+    // Store results — batched inserts, progress 80-95% during DB writes
+    const resultValues = buildResultRows(run.id, network, result);
+    for (let i = 0; i < resultValues.length; i += BATCH_SIZE) {
+      await db
+        .insert(simulationResults)
+        .values(resultValues.slice(i, i + BATCH_SIZE));
+      const writeProgress = 80 + Math.floor((i / resultValues.length) * 15);
+      if (!(await touchSimulationRun(run.id, workerId, writeProgress))) return;
+    }
+
+    const [completed] = await db
+      .update(simulationRuns)
+      .set({
+        status: 'completed',
+        completedAt: new Date(),
+        progress: 100,
+        energyBalanceError: energyBalance.relativeError,
+        heaterResults: result.heaterResults ?? null,
+      })
+      .where(and(eq(simulationRuns.id, run.id), eq(simulationRuns.status, 'running')))
+      .returning({ id: simulationRuns.id });
+    if (!completed) return;
+
+    if (run.requestedBy) {
+      deliverWebhookEvent(run.requestedBy, 'simulation.completed', {
+        runId: run.id,
+        modelId: run.modelId,
+        projectId: model.projectId,
+        status: 'completed',
+        timestamp: new Date().toISOString(),
+      }).catch((err) => console.error('Webhook delivery error:', err));
+    }
+
+    // Sensitivity matrix — failures here never affect the run itself
+    try {
+      const [sensRow] = await db
+        .insert(sensitivityMatrices)
+        .values({ runId: run.id, status: 'pending' })
+        .returning();
+      await computeSensitivityMatrix(
+        sensRow.id,
+        nodes,
+        modelConductors,
+        loads,
+        orbitalConfig,
+        run.environment ?? null,
+        symbols,
+        enclosure,
+      );
+    } catch (sensErr) {
+      console.error('Sensitivity computation error:', sensErr);
+    }
+  } catch (simError) {
+    const errorMessage =
+      simError instanceof Error ? simError.message : 'Unknown simulation error';
+
+    const [failed] = await db
+      .update(simulationRuns)
+      .set({
+        status: 'failed',
+        completedAt: new Date(),
+        progress: 100,
+        errorMessage,
+      })
+      .where(and(eq(simulationRuns.id, run.id), eq(simulationRuns.status, 'running')))
+      .returning({ id: simulationRuns.id });
+
+    if (failed && run.requestedBy) {
+      deliverWebhookEvent(run.requestedBy, 'simulation.failed', {
+        runId: run.id,
+        modelId: run.modelId,
+        projectId: model.projectId,
+        status: 'failed',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      }).catch((err) => console.error('Webhook delivery error:', err));
+    }
+  }
+}
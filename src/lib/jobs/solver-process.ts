@@ -0,0 +1,43 @@
+/**
+ * Child-process entry point for a single solve.
+ *
+ * Forked by runSolverInChildProcess() so the worker's event loop stays free
+ * for heartbeats and cancellation checks while the (synchronous) solver runs.
+ * Receives one SolverRequest, streams throttled progress and replies with the
+ * result or an error message, then exits.
+ */
+
+import { runSimulation } from '@/lib/solver/thermal-network';
+import type { SolverRequest, SolverMessage } from './run-solver';
+
+const PROGRESS_THROTTLE_MS = 250;
+
+function send(message: SolverMessage): Promise<void> {
+  return new Promise((resolve) => {
+    process.send!(message, undefined, {}, () => resolve());
+  });
+}
+
+// Ctrl+C reaches the whole process group; the worker decides when to stop us.
+process.on('SIGINT', () => {});
+
+process.once('message', async (request: SolverRequest) => {
+  let lastProgressAt = 0;
+  try {
+    const result = runSimulation(request.network, request.config, {
+      onProgress: (fraction) => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_THROTTLE_MS) return;
+        lastProgressAt = now;
+        process.send!({ type: 'progress', fraction } satisfies SolverMessage);
+      },
+    });
+    await send({ type: 'result', result });
+  } catch (error) {
+    await send({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown simulation error',
+    });
+  }
+  process.exit(0);
+});
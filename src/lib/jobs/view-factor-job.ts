@@ -0,0 +1,243 @@
+import { db } from '@/lib/db/client';
+import {
+  thermalModels,
+  thermalNodes,
+  conductors,
+  cadAssets,
+  viewFactorJobs,
+  type FieldExpressions,
+  type ViewFactorJobResult,
+} from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { decodeCadFaces } from '@/lib/cad/geometry-storage';
+import {
+  buildRadiationScene,
+  createRandom,
+  enforceReciprocityAndClosure,
+  traceViewFactorRow,
+  viewFactorErrors,
+} from '@/lib/cad/view-factor-matrix';
+import { evaluateFieldExpressions, symbolValues } from '@/lib/solver/expressions';
+import { computeGebhartFactors } from '@/lib/solver/radiation-exchange';
+import { deliverWebhookEvent } from '@/lib/webhooks/deliver';
+import { touchViewFactorJob } from './queue';
+import { attachNodeMaterials } from './node-materials';
+import type { ViewFactorJob } from './queue';
+
+/** Fields the job writes; expressions on them would override the computed values. */
+function withoutExpressions(
+  expressions: FieldExpressions | null,
+  fields: string[],
+): FieldExpressions | null {
+  if (!expressions) return null;
+  const rest = { ...expressions };
+  for (const field of fields) delete rest[field];
+  return Object.keys(rest).length > 0 ? rest : null;
+}
+
+/**
+ * Trace the view factor matrix of a model's mapped CAD surfaces and write it
+ * back as radiation conductors and node view factors to space.
+ *
+ * Each surface's rays are one unit of work; the heartbeat and progress are
+ * updated between surfaces. Conductors carry the exact grey-body exchange
+ * GR_ij = ε_i·A_i·B_ij from the Gebhart factors at the nodes' current
+ * emissivities, as area A_i, view factor B_ij and emissivity ε_i; an
+ * existing radiation conductor between the same two nodes is updated rather
+ * than duplicated. The completed job's matrix is the model's radiation
+ * enclosure, from which simulations recompute the exchange for the
+ * emissivities they run with. A retry traces from scratch.
+ */
+export async function processViewFactorJob(
+  job: ViewFactorJob,
+  workerId: string,
+): Promise<void> {
+  const [model] = await db
+    .select()
+    .from(thermalModels)
+    .where(eq(thermalModels.id, job.modelId));
+  if (!model) return;
+
+  try {
+    if (!job.cadAssetId || model.cadAssetId !== job.cadAssetId) {
+      throw new Error('The CAD geometry was replaced after the job was queued');
+    }
+    const [asset] = await db
+      .select()
+      .from(cadAssets)
+      .where(eq(cadAssets.id, job.cadAssetId));
+    if (!asset) throw new Error('CAD geometry not found');
+
+    const nodes = await attachNodeMaterials(
+      await db
+        .select()
+        .from(thermalNodes)
+        .where(eq(thermalNodes.modelId, job.modelId)),
+    );
+    const nodeById = new Map(nodes.map((n) => [n.id, n]));
+    const mappings = model.surfaceNodeMappings.filter((m) => nodeById.has(m.nodeId));
+
+    const scene = buildRadiationScene(decodeCadFaces(asset.faces), mappings);
+    const n = scene.surfaces.length;
+    if (n === 0) throw new Error('No CAD faces are assigned to nodes');
+
+    const nodeIds = scene.surfaces.map((s) => s.nodeId);
+    const symbols = symbolValues(model.symbols);
+    const emissivity = nodeIds.map((nodeId) => {
+      const node = nodeById.get(nodeId)!;
+      const evaluated = evaluateFieldExpressions(
+        node.expressions,
+        ['emissivity'],
+        symbols,
+        `Node "${node.name}"`,
+      );
+      return evaluated.emissivity ?? node.emissivity ?? node.material?.emissivity ?? 0.5;
+    });
+    const specularReflectance = nodeIds.map(
+      (nodeId, i) => Math.min(Math.max(nodeById.get(nodeId)!.specularity, 0), 1) * (1 - emissivity[i]),
+    );
+
+    if (!(await touchViewFactorJob(job.id, workerId, 0))) return;
+
+    const random = createRandom(job.config.seed);
+    const raw: number[][] = [];
+    const rawSpace: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const row = traceViewFactorRow(scene, i, job.config.raysPerSurface, random, specularReflectance);
+      raw.push(row.slice(0, n));
+      rawSpace.push(row[n]);
+      // Tracing is ~90% of the work; the writes below take the rest
+      if (!(await touchViewFactorJob(job.id, workerId, Math.round(((i + 1) / n) * 90)))) {
+        return;
+      }
+    }
+
+    const areas = scene.surfaces.map((s) => s.area);
+    const rawErrors = viewFactorErrors(areas, raw, rawSpace, specularReflectance);
+    const { matrix, toSpace } = enforceReciprocityAndClosure(
+      areas,
+      raw,
+      rawSpace,
+      specularReflectance,
+    );
+    const { gebhart, toSpace: gebhartToSpace } = computeGebhartFactors(
+      { nodeIds, areas, exchange: matrix, toSpace, specularReflectance },
+      emissivity,
+    );
+
+    // ── Radiation conductors ──
+    const existing = (
+      await db
+        .select()
+        .from(conductors)
+        .where(and(eq(conductors.modelId, job.modelId), eq(conductors.conductorType, 'radiation')))
+    ).filter((c) => c.nodeFromId !== c.nodeToId);
+    const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+    const existingByPair = new Map(existing.map((c) => [pairKey(c.nodeFromId, c.nodeToId), c]));
+
+    let conductorsCreated = 0;
+    let conductorsUpdated = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const current = existingByPair.get(pairKey(nodeIds[i], nodeIds[j]));
+        // Reflections can couple surfaces that do not see each other
+        const coupling = Math.max(matrix[i][j], gebhart[i][j]);
+        if (!current && coupling < job.config.minViewFactor) continue;
+
+        // Keep an existing conductor's direction; GR_ij = GR_ji either way
+        const [from, to] = current?.nodeFromId === nodeIds[j] ? [j, i] : [i, j];
+        const weight = emissivity[from] * areas[from];
+        const gr =
+          (weight * gebhart[from][to] + emissivity[to] * areas[to] * gebhart[to][from]) / 2;
+        const values = {
+          area: areas[from],
+          viewFactor: weight > 0 ? gr / weight : 0,
+          emissivity: emissivity[from],
+        };
+
+        if (current) {
+          await db
+            .update(conductors)
+            .set({
+              ...values,
+              expressions: withoutExpressions(current.expressions, ['area', 'viewFactor', 'emissivity']),
+            })
+            .where(eq(conductors.id, current.id));
+          conductorsUpdated++;
+        } else {
+          await db.insert(conductors).values({
+            modelId: job.modelId,
+            name: `RAD ${nodeById.get(nodeIds[from])!.name} → ${nodeById.get(nodeIds[to])!.name}`,
+            conductorType: 'radiation',
+            nodeFromId: nodeIds[from],
+            nodeToId: nodeIds[to],
+            ...values,
+          });
+          conductorsCreated++;
+        }
+      }
+    }
+
+    // ── View factors to space ──
+    for (let i = 0; i < n; i++) {
+      const node = nodeById.get(nodeIds[i])!;
+      // A user-entered area is kept; the geometry fills in a missing one
+      const area = node.area ?? areas[i];
+      await db
+        .update(thermalNodes)
+        .set({
+          radiatesToSpace: gebhartToSpace[i] >= job.config.minViewFactor,
+          // ε·A·F of the node equals ε_i·A_i·B_i,space
+          spaceViewFactor: Math.min((gebhartToSpace[i] * areas[i]) / area, 1),
+          area,
+          expressions: withoutExpressions(
+            node.expressions,
+            node.area === null ? ['spaceViewFactor', 'area'] : ['spaceViewFactor'],
+          ),
+        })
+        .where(eq(thermalNodes.id, node.id));
+    }
+
+    await db
+      .update(thermalModels)
+      .set({ updatedAt: new Date() })
+      .where(eq(thermalModels.id, job.modelId));
+
+    const result: ViewFactorJobResult = {
+      nodeIds,
+      areas,
+      matrix,
+      toSpace,
+      specularReflectance,
+      rawReciprocityError: rawErrors.reciprocity,
+      rawClosureError: rawErrors.closure,
+      conductorsCreated,
+      conductorsUpdated,
+      nodesUpdated: n,
+    };
+
+    const [completed] = await db
+      .update(viewFactorJobs)
+      .set({ status: 'completed', progress: 100, result, completedAt: new Date() })
+      .where(and(eq(viewFactorJobs.id, job.id), eq(viewFactorJobs.status, 'running')))
+      .returning({ id: viewFactorJobs.id });
+
+    if (completed && job.requestedBy) {
+      deliverWebhookEvent(job.requestedBy, 'model.updated', {
+        modelId: job.modelId,
+        projectId: model.projectId,
+        viewFactorJobId: job.id,
+        timestamp: new Date().toISOString(),
+      }).catch((err) => console.error('Webhook delivery error:', err));
+    }
+  } catch (error) {
+    await db
+      .update(viewFactorJobs)
+      .set({
+        status: 'failed',
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      })
+      .where(and(eq(viewFactorJobs.id, job.id), eq(viewFactorJobs.status, 'running')));
+  }
+}
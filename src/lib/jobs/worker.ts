@@ -0,0 +1,98 @@
+import {
+  claimSimulationRun,
+  claimFailureAnalysis,
+  claimDesignExploration,
+  claimViewFactorJob,
+  requeueStaleJobs,
+} from './queue';
+import { processSimulationRun } from './simulation-job';
+import { processFailureAnalysis } from './failure-analysis-job';
+import { processDesignExploration } from './design-exploration-job';
+import { processViewFactorJob } from './view-factor-job';
+
+export interface WorkerOptions {
+  workerId: string;
+  /** Delay between polls when the queue is empty. */
+  pollIntervalMs?: number;
+  /** How often to sweep for jobs abandoned by crashed workers. */
+  staleSweepIntervalMs?: number;
+}
+
+/**
+ * Claim and process one job. Simulation runs take priority over the longer
+ * failure analyses, design explorations and view factor jobs. Returns false
+ * when the queue is empty.
+ */
+export async function processNextJob(workerId: string): Promise<boolean> {
+  const run = await claimSimulationRun(workerId);
+  if (run) {
+    console.log(`[worker] simulation run ${run.id}`);
+    await processSimulationRun(run, workerId);
+    return true;
+  }
+
+  const analysis = await claimFailureAnalysis(workerId);
+  if (analysis) {
+    console.log(`[worker] failure analysis ${analysis.id}`);
+    await processFailureAnalysis(analysis, workerId);
+    return true;
+  }
+
+  const exploration = await claimDesignExploration(workerId);
+  if (exploration) {
+    console.log(`[worker] design exploration ${exploration.id}`);
+    await processDesignExploration(exploration, workerId);
+    return true;
+  }
+
+  const viewFactorJob = await claimViewFactorJob(workerId);
+  if (viewFactorJob) {
+    console.log(`[worker] view factor job ${viewFactorJob.id}`);
+    await processViewFactorJob(viewFactorJob, workerId);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Poll the queue until `signal` is aborted. The current job is always
+ * finished before the loop exits.
+ */
+export async function runWorker(
+  options: WorkerOptions,
+  signal: AbortSignal,
+): Promise<void> {
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  const staleSweepIntervalMs = options.staleSweepIntervalMs ?? 60_000;
+  let lastSweep = 0;
+
+  while (!signal.aborted) {
+    try {
+      if (Date.now() - lastSweep >= staleSweepIntervalMs) {
+        lastSweep = Date.now();
+        const requeued = await requeueStaleJobs();
+        if (requeued > 0) {
+          console.log(`[worker] recovered ${requeued} stale job(s)`);
+        }
+      }
+
+      if (await processNextJob(options.workerId)) continue;
+    } catch (error) {
+      console.error('[worker] error:', error);
+    }
+
+    await new Promise<void>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      // Remove the listener when the timer fires so idle polls don't pile them up
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, pollIntervalMs);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
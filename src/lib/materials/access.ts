@@ -0,0 +1,44 @@
+// ─── Material Library Access ─────────────────────────────────────────────────
+// Who sees and edits which materials: defaults are read-only, personal
+// materials belong to their creator, and an organisation's library is read by
+// its members and maintained by its owners and admins.
+
+import { db } from '@/lib/db/client';
+import { materials, orgMembers } from '@/lib/db/schema';
+import { and, eq, inArray, or, type SQL } from 'drizzle-orm';
+
+type Material = typeof materials.$inferSelect;
+
+/** Organisations the user belongs to. */
+export async function userOrgIds(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ orgId: orgMembers.orgId })
+    .from(orgMembers)
+    .where(eq(orgMembers.userId, userId));
+  return rows.map((r) => r.orgId);
+}
+
+/** Whether the user maintains the organisation's material library. */
+export async function canEditOrgLibrary(orgId: string, userId: string): Promise<boolean> {
+  const [member] = await db
+    .select({ role: orgMembers.role })
+    .from(orgMembers)
+    .where(and(eq(orgMembers.orgId, orgId), eq(orgMembers.userId, userId)));
+  return member?.role === 'owner' || member?.role === 'admin';
+}
+
+export async function canEditMaterial(material: Material, userId: string): Promise<boolean> {
+  if (material.isDefault) return false;
+  if (material.orgId) return canEditOrgLibrary(material.orgId, userId);
+  return material.userId === userId;
+}
+
+/** Filter for the materials visible to the user: defaults, their own and their orgs' libraries. */
+export async function visibleMaterials(userId: string): Promise<SQL> {
+  const orgIds = await userOrgIds(userId);
+  return or(
+    eq(materials.isDefault, true),
+    eq(materials.userId, userId),
+    ...(orgIds.length > 0 ? [inArray(materials.orgId, orgIds)] : []),
+  )!;
+}
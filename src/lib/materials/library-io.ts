@@ -0,0 +1,168 @@
+// ─── Material Library Import/Export ──────────────────────────────────────────
+// CSV and JSON formats for moving a material library between organisations
+// and tools. CSV has one row per material with a `<property>_source` column
+// beside each numeric property; the k(T), cp(T) and ε(T) tables are JSON in
+// their cells. Parsed records are validated by the caller.
+
+import type { MaterialRevisionData } from '@/lib/db/schema';
+
+const NUMERIC_FIELDS = [
+  'absorptivity',
+  'emissivity',
+  'absorptivityEol',
+  'emissivityEol',
+  'absorptivityPerYear',
+  'emissivityPerYear',
+  'conductivity',
+  'specificHeat',
+  'density',
+  'tempRangeMin',
+  'tempRangeMax',
+] as const;
+
+const TABLE_FIELDS = ['conductivityTable', 'specificHeatTable', 'emissivityTable'] as const;
+
+function snakeCase(field: string): string {
+  return field.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+function sourceColumn(field: string): string {
+  return `${snakeCase(field)}_source`;
+}
+
+export const MATERIAL_CSV_COLUMNS = [
+  'name',
+  'category',
+  ...NUMERIC_FIELDS.map(snakeCase),
+  ...TABLE_FIELDS.map(snakeCase),
+  ...NUMERIC_FIELDS.map(sourceColumn),
+];
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function materialsToCsv(rows: MaterialRevisionData[]): string {
+  const lines = [MATERIAL_CSV_COLUMNS.join(',')];
+  for (const m of rows) {
+    const cells = [
+      m.name,
+      m.category,
+      ...NUMERIC_FIELDS.map((f) => (m[f] == null ? '' : String(m[f]))),
+      ...TABLE_FIELDS.map((f) => (m[f] ? JSON.stringify(m[f]) : '')),
+      ...NUMERIC_FIELDS.map((f) => m.sources?.[f] ?? ''),
+    ];
+    lines.push(cells.map(csvCell).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Split CSV text into rows of cells (RFC 4180 quoting). */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+export class MaterialImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaterialImportError';
+  }
+}
+
+/**
+ * Material records from CSV text, keyed by field name for validation with
+ * createMaterialSchema. Empty cells are null; unknown columns are ignored.
+ */
+export function parseMaterialsCsv(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new MaterialImportError('CSV is empty');
+  const columns = header.map((h) => h.trim().toLowerCase());
+  for (const required of ['name', 'category']) {
+    if (!columns.includes(required)) {
+      throw new MaterialImportError(`CSV is missing the "${required}" column`);
+    }
+  }
+
+  return rows.map((cells) => {
+    const cell = (column: string): string | null => {
+      const value = cells[columns.indexOf(column)]?.trim();
+      return value ? value : null;
+    };
+
+    const record: Record<string, unknown> = {
+      name: cell('name'),
+      category: cell('category'),
+    };
+    for (const field of NUMERIC_FIELDS) {
+      const value = cell(snakeCase(field));
+      record[field] = value === null ? null : Number(value);
+    }
+    for (const field of TABLE_FIELDS) {
+      const value = cell(snakeCase(field));
+      try {
+        record[field] = value === null ? null : JSON.parse(value);
+      } catch {
+        record[field] = value; // left for the validator to reject
+      }
+    }
+    const sources: Record<string, string> = {};
+    for (const field of NUMERIC_FIELDS) {
+      const value = cell(sourceColumn(field));
+      if (value) sources[field] = value;
+    }
+    record.sources = Object.keys(sources).length > 0 ? sources : null;
+    return record;
+  });
+}
+
+/** Material records from a JSON export: `{ materials: [...] }` or a bare array. */
+export function parseMaterialsJson(text: string): unknown[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MaterialImportError('Invalid JSON');
+  }
+  const list = Array.isArray(data)
+    ? data
+    : (data as { materials?: unknown } | null)?.materials;
+  if (!Array.isArray(list)) {
+    throw new MaterialImportError('JSON must be an array of materials or { "materials": [...] }');
+  }
+  return list;
+}
@@ -0,0 +1,130 @@
+// ─── Material Library ────────────────────────────────────────────────────────
+// Creating and revising materials. Every save bumps the material's revision
+// and records the property values as a material_revisions row, and an edit
+// is propagated to the nodes that derive their properties from it.
+
+import { db } from '@/lib/db/client';
+import {
+  materials,
+  materialRevisions,
+  type MaterialRevisionData,
+} from '@/lib/db/schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import type { CreateMaterialInput, UpdateMaterialInput } from '@/lib/validators/materials';
+import { propagateMaterial } from './node-properties';
+
+type Material = typeof materials.$inferSelect;
+
+const REVISION_FIELDS = [
+  'name',
+  'category',
+  'absorptivity',
+  'emissivity',
+  'conductivity',
+  'specificHeat',
+  'density',
+  'tempRangeMin',
+  'tempRangeMax',
+  'conductivityTable',
+  'specificHeatTable',
+  'emissivityTable',
+  'absorptivityEol',
+  'emissivityEol',
+  'absorptivityPerYear',
+  'emissivityPerYear',
+  'sources',
+] as const satisfies ReadonlyArray<keyof MaterialRevisionData>;
+
+/** The values a revision records. */
+export function materialRevisionData(material: Material): MaterialRevisionData {
+  return Object.fromEntries(
+    REVISION_FIELDS.map((field) => [field, material[field]]),
+  ) as MaterialRevisionData;
+}
+
+async function recordRevision(material: Material, userId: string, note: string | null) {
+  await db.insert(materialRevisions).values({
+    materialId: material.id,
+    revision: material.revision,
+    data: materialRevisionData(material),
+    note,
+    changedBy: userId,
+  });
+}
+
+/** Insert a custom or organisation material as revision 1. */
+export async function createMaterial(
+  input: CreateMaterialInput,
+  userId: string,
+  note: string | null = null,
+): Promise<Material> {
+  const [material] = await db
+    .insert(materials)
+    .values({
+      name: input.name,
+      category: input.category,
+      absorptivity: input.absorptivity,
+      emissivity: input.emissivity,
+      conductivity: input.conductivity,
+      specificHeat: input.specificHeat,
+      density: input.density,
+      tempRangeMin: input.tempRangeMin,
+      tempRangeMax: input.tempRangeMax,
+      conductivityTable: input.conductivityTable ?? null,
+      specificHeatTable: input.specificHeatTable ?? null,
+      emissivityTable: input.emissivityTable ?? null,
+      absorptivityEol: input.absorptivityEol ?? null,
+      emissivityEol: input.emissivityEol ?? null,
+      absorptivityPerYear: input.absorptivityPerYear ?? null,
+      emissivityPerYear: input.emissivityPerYear ?? null,
+      sources: input.sources ?? null,
+      isDefault: false,
+      userId,
+      projectId: input.projectId ?? null,
+      orgId: input.orgId ?? null,
+    })
+    .returning();
+  await recordRevision(material, userId, note);
+  return material;
+}
+
+/**
+ * Save an edit as the material's next revision and rewrite the derived
+ * values of the nodes using it. Returns the material and that node count.
+ */
+export async function reviseMaterial(
+  material: Material,
+  input: UpdateMaterialInput,
+  userId: string,
+): Promise<{ material: Material; updatedNodes: number }> {
+  const { revisionNote, ...changes } = input;
+  const [updated] = await db
+    .update(materials)
+    .set({ ...changes, revision: sql`${materials.revision} + 1`, updatedAt: new Date() })
+    .where(eq(materials.id, material.id))
+    .returning();
+  await recordRevision(updated, userId, revisionNote ?? null);
+
+  // Nodes that derive their capacitance or α/ε from this material follow it
+  const updatedNodes = await propagateMaterial(updated);
+  return { material: updated, updatedNodes };
+}
+
+/** The material of that name in the library an import writes to, if any. */
+export async function findLibraryMaterial(
+  name: string,
+  scope: { orgId: string } | { userId: string },
+): Promise<Material | null> {
+  const [material] = await db
+    .select()
+    .from(materials)
+    .where(
+      and(
+        sql`lower(${materials.name}) = lower(${name})`,
+        'orgId' in scope
+          ? eq(materials.orgId, scope.orgId)
+          : and(eq(materials.userId, scope.userId), isNull(materials.orgId), isNull(materials.projectId)),
+      ),
+    );
+  return material ?? null;
+}
@@ -0,0 +1,112 @@
+// ─── Material-Derived Node Properties ────────────────────────────────────────
+// Keeps the capacitance and α/ε stored on node rows in step with their
+// material and coating: node writes store the derived values, and a material
+// edit is previewed and then propagated to every node that uses it.
+
+import { db } from '@/lib/db/client';
+import { materials, thermalModels, thermalNodes } from '@/lib/db/schema';
+import { eq, inArray, or } from 'drizzle-orm';
+import { attachNodeMaterials } from '@/lib/jobs/node-materials';
+import {
+  DERIVED_NODE_FIELDS,
+  deriveNodeProperties,
+  type DerivedNodeField,
+  type DerivedNodeProperties,
+  type NodePropertyInputs,
+} from '@/lib/solver/node-properties';
+
+type Material = typeof materials.$inferSelect;
+type NodeRow = typeof thermalNodes.$inferSelect;
+
+export interface NodePropertyChange {
+  field: DerivedNodeField;
+  before: number | null;
+  after: number;
+}
+
+export interface MaterialImpactEntry {
+  nodeId: string;
+  nodeName: string;
+  modelId: string;
+  modelName: string;
+  projectId: string;
+  changes: NodePropertyChange[];
+}
+
+/**
+ * The derived fields for these node values, looking up the material and
+ * coating by id. Spread over the values before inserting or updating a row.
+ */
+export async function derivedNodeValues(
+  node: NodePropertyInputs & { materialId?: string | null; coatingId?: string | null },
+): Promise<DerivedNodeProperties> {
+  const [attached] = await attachNodeMaterials([
+    { materialId: node.materialId ?? null, coatingId: node.coatingId ?? null },
+  ]);
+  return deriveNodeProperties(node, attached.material, attached.coating);
+}
+
+/** Nodes whose derived values would change if `material` had these properties. */
+async function nodeChanges(
+  material: Material,
+): Promise<Array<{ node: NodeRow; changes: NodePropertyChange[] }>> {
+  const rows = await db
+    .select()
+    .from(thermalNodes)
+    .where(or(eq(thermalNodes.materialId, material.id), eq(thermalNodes.coatingId, material.id)));
+  const nodes = await attachNodeMaterials(rows);
+
+  return nodes
+    .map(({ material: nodeMaterial, coating, ...node }) => {
+      const derived = deriveNodeProperties(
+        node,
+        node.materialId === material.id ? material : nodeMaterial,
+        node.coatingId === material.id ? material : coating,
+      );
+      const changes = DERIVED_NODE_FIELDS.flatMap((field): NodePropertyChange[] => {
+        const after = derived[field];
+        return after !== undefined && after !== node[field]
+          ? [{ field, before: node[field], after }]
+          : [];
+      });
+      return { node, changes };
+    })
+    .filter(({ changes }) => changes.length > 0);
+}
+
+/** What saving `proposed` over the material would change, node by node. */
+export async function previewMaterialImpact(
+  material: Material,
+  proposed: Partial<Material>,
+): Promise<MaterialImpactEntry[]> {
+  const affected = await nodeChanges({ ...material, ...proposed, id: material.id });
+  const modelIds = [...new Set(affected.map(({ node }) => node.modelId))];
+  const models = modelIds.length
+    ? await db
+        .select({ id: thermalModels.id, name: thermalModels.name, projectId: thermalModels.projectId })
+        .from(thermalModels)
+        .where(inArray(thermalModels.id, modelIds))
+    : [];
+  const modelById = new Map(models.map((m) => [m.id, m]));
+
+  return affected.map(({ node, changes }) => ({
+    nodeId: node.id,
+    nodeName: node.name,
+    modelId: node.modelId,
+    modelName: modelById.get(node.modelId)?.name ?? '',
+    projectId: modelById.get(node.modelId)?.projectId ?? '',
+    changes,
+  }));
+}
+
+/** Write the saved material's derived values to every node using it; returns the node count. */
+export async function propagateMaterial(material: Material): Promise<number> {
+  const affected = await nodeChanges(material);
+  for (const { node, changes } of affected) {
+    await db
+      .update(thermalNodes)
+      .set(Object.fromEntries(changes.map((c) => [c.field, c.after])))
+      .where(eq(thermalNodes.id, node.id));
+  }
+  return affected.length;
+}
@@ -0,0 +1,190 @@
+// ─── MLI Blankets ────────────────────────────────────────────────────────────
+// Keeps the rows a blanket generates in step with it: the outer-layer node,
+// the ε* radiation conductor from the covered node, and the covered node's
+// orbital loads and view to space, which move to the outer layer while the
+// blanket is attached and back to the node when it is removed.
+
+import { db } from '@/lib/db/client';
+import { conductors, heatLoads, mliBlankets, thermalNodes } from '@/lib/db/schema';
+import { and, eq, or } from 'drizzle-orm';
+import {
+  blanketConductorValues,
+  blanketOrbitalParams,
+  blanketOuterNodeValues,
+} from '@/lib/solver/mli-blanket';
+import { derivedNodeValues } from '@/lib/materials/node-properties';
+
+import type { CreateBlanketInput } from '@/lib/validators/blankets';
+
+type Blanket = typeof mliBlankets.$inferSelect;
+type NodeRow = typeof thermalNodes.$inferSelect;
+
+async function orbitalLoadsOn(nodeId: string) {
+  return db
+    .select()
+    .from(heatLoads)
+    .where(and(eq(heatLoads.nodeId, nodeId), eq(heatLoads.loadType, 'orbital')));
+}
+
+/** Create the outer-layer node and hand it the covered node's exposure. */
+async function attachOuterLayer(blanket: Blanket, covered: NodeRow): Promise<string> {
+  const [outer] = await db
+    .insert(thermalNodes)
+    .values({
+      modelId: blanket.modelId,
+      name: `${blanket.name} outer layer`,
+      temperature: covered.temperature,
+      ...blanketOuterNodeValues(blanket),
+      radiatesToSpace: covered.radiatesToSpace,
+      spaceViewFactor: covered.spaceViewFactor,
+      groupId: covered.groupId,
+    })
+    .returning();
+
+  // The blanket now stands between the node and space
+  await db
+    .update(thermalNodes)
+    .set({ radiatesToSpace: false })
+    .where(eq(thermalNodes.id, covered.id));
+  for (const load of await orbitalLoadsOn(covered.id)) {
+    await db
+      .update(heatLoads)
+      .set({
+        nodeId: outer.id,
+        orbitalParams: load.orbitalParams ? blanketOrbitalParams(blanket, load.orbitalParams) : null,
+      })
+      .where(eq(heatLoads.id, load.id));
+  }
+
+  await db
+    .update(mliBlankets)
+    .set({ outerNodeId: outer.id })
+    .where(eq(mliBlankets.id, blanket.id));
+  return outer.id;
+}
+
+/** Put a blanket over `covered` and generate its outer layer. */
+export async function createBlanket(
+  modelId: string,
+  input: CreateBlanketInput & { area: number },
+  covered: NodeRow,
+): Promise<Blanket> {
+  const [blanket] = await db
+    .insert(mliBlankets)
+    .values({
+      modelId,
+      name: input.name,
+      nodeId: covered.id,
+      layerCount: input.layerCount,
+      effectiveEmittance: input.effectiveEmittance,
+      outerAbsorptivity: input.outerAbsorptivity,
+      outerEmissivity: input.outerEmissivity,
+      area: input.area,
+      seamDegradation: input.seamDegradation ?? 0,
+    })
+    .returning();
+  await syncBlanket(blanket);
+  const [created] = await db.select().from(mliBlankets).where(eq(mliBlankets.id, blanket.id));
+  return created;
+}
+
+/**
+ * Write the blanket's values to its outer layer, conductor and environment
+ * loads, recreating the outer layer or conductor if they were deleted.
+ */
+export async function syncBlanket(blanket: Blanket): Promise<void> {
+  const [covered] = await db
+    .select()
+    .from(thermalNodes)
+    .where(eq(thermalNodes.id, blanket.nodeId));
+  if (!covered) return;
+
+  const [existingOuter] = blanket.outerNodeId
+    ? await db.select().from(thermalNodes).where(eq(thermalNodes.id, blanket.outerNodeId))
+    : [];
+  let outerId: string;
+  if (existingOuter) {
+    outerId = existingOuter.id;
+    await db
+      .update(thermalNodes)
+      .set({ name: `${blanket.name} outer layer`, ...blanketOuterNodeValues(blanket) })
+      .where(eq(thermalNodes.id, outerId));
+    for (const load of await orbitalLoadsOn(outerId)) {
+      if (!load.orbitalParams) continue;
+      await db
+        .update(heatLoads)
+        .set({ orbitalParams: blanketOrbitalParams(blanket, load.orbitalParams) })
+        .where(eq(heatLoads.id, load.id));
+    }
+  } else {
+    outerId = await attachOuterLayer(blanket, covered);
+  }
+
+  const [conductor] = await db
+    .select()
+    .from(conductors)
+    .where(
+      and(
+        eq(conductors.conductorType, 'radiation'),
+        or(
+          and(eq(conductors.nodeFromId, covered.id), eq(conductors.nodeToId, outerId)),
+          and(eq(conductors.nodeFromId, outerId), eq(conductors.nodeToId, covered.id)),
+        ),
+      ),
+    );
+  const values = { name: `MLI ${blanket.name}`, ...blanketConductorValues(blanket) };
+  if (conductor) {
+    await db.update(conductors).set(values).where(eq(conductors.id, conductor.id));
+  } else {
+    await db.insert(conductors).values({
+      modelId: blanket.modelId,
+      nodeFromId: covered.id,
+      nodeToId: outerId,
+      ...values,
+    });
+  }
+}
+
+/**
+ * Remove the blanket: its orbital loads and view to space return to the
+ * covered node with the node's own α/ε (derived from its material and coating
+ * where it has them), and the outer layer and its conductor are deleted.
+ */
+export async function detachBlanket(blanket: Blanket): Promise<void> {
+  const [covered] = await db
+    .select()
+    .from(thermalNodes)
+    .where(eq(thermalNodes.id, blanket.nodeId));
+  const [outer] = blanket.outerNodeId
+    ? await db.select().from(thermalNodes).where(eq(thermalNodes.id, blanket.outerNodeId))
+    : [];
+
+  if (covered && outer) {
+    // The stored α/ε can lag the node's material or coating
+    const node = { ...covered, ...(await derivedNodeValues(covered)) };
+    for (const load of await orbitalLoadsOn(outer.id)) {
+      await db
+        .update(heatLoads)
+        .set({
+          nodeId: covered.id,
+          orbitalParams: load.orbitalParams
+            ? {
+                ...load.orbitalParams,
+                absorptivity: node.absorptivity ?? load.orbitalParams.absorptivity,
+                emissivity: node.emissivity ?? load.orbitalParams.emissivity,
+                area: node.area ?? load.orbitalParams.area,
+              }
+            : null,
+        })
+        .where(eq(heatLoads.id, load.id));
+    }
+    await db
+      .update(thermalNodes)
+      .set({ radiatesToSpace: outer.radiatesToSpace, spaceViewFactor: outer.spaceViewFactor })
+      .where(eq(thermalNodes.id, covered.id));
+  }
+
+  // Conductors and remaining loads on the outer layer go with it
+  if (outer) await db.delete(thermalNodes).where(eq(thermalNodes.id, outer.id));
+  await db.delete(mliBlankets).where(eq(mliBlankets.id, blanket.id));
+}
@@ -0,0 +1,170 @@
+// ─── Node Groups ─────────────────────────────────────────────────────────────
+// Submodels: named, nestable groups of thermal nodes. A node belongs to at most
+// one group; membership of a group includes the nodes of all its subgroups.
+
+export interface NodeGroup {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+interface GroupedNode {
+  id: string;
+  groupId?: string | null;
+}
+
+interface ConductorEndpoints {
+  id: string;
+  nodeFromId: string;
+  nodeToId: string;
+}
+
+/** Per-node result row as stored in simulation_results. */
+export interface GroupResultRow {
+  nodeId: string;
+  timeValues: { times: number[]; temperatures: number[] };
+  conductorFlows?: Array<{ conductorId: string; times: number[]; flows: number[] }> | null;
+  spaceFlow?: { times: number[]; flows: number[] } | null;
+}
+
+export interface GroupResultSummary {
+  groupId: string;
+  nodeCount: number;
+  minTemperature: number; // K, over members and time
+  maxTemperature: number; // K
+  /** Time average of the member mean temperature (K) */
+  meanTemperature: number;
+  /** Time-averaged heat conducted/radiated into the group across its boundary (W) */
+  heatIn: number;
+  /** Time-averaged heat leaving the group, including radiation to space (W) */
+  heatOut: number;
+  /** heatIn − heatOut (W); positive when the group gains heat */
+  netHeatFlow: number;
+}
+
+/** The group and all groups nested below it. */
+export function subtreeGroupIds(groups: NodeGroup[], rootId: string): Set<string> {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const group of groups) {
+      if (group.parentId && ids.has(group.parentId) && !ids.has(group.id)) {
+        ids.add(group.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/** Ids of the nodes in a group, including those in its subgroups. */
+export function groupMemberNodeIds(
+  groups: NodeGroup[],
+  nodes: GroupedNode[],
+  groupId: string,
+): string[] {
+  const subtree = subtreeGroupIds(groups, groupId);
+  return nodes.filter((n) => n.groupId && subtree.has(n.groupId)).map((n) => n.id);
+}
+
+/** True if making `parentId` the parent of `groupId` would create a cycle. */
+export function wouldCreateCycle(
+  groups: NodeGroup[],
+  groupId: string,
+  parentId: string | null,
+): boolean {
+  return parentId !== null && subtreeGroupIds(groups, groupId).has(parentId);
+}
+
+/** Path of group names from the root down to the group, e.g. "Bus / Battery". */
+export function groupPath(groups: NodeGroup[], groupId: string): string {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = groups.find((g) => g.id === groupId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = groups.find((g) => g.id === current!.parentId);
+  }
+  return names.join(' / ');
+}
+
+/** Trapezoidal time average of a series; the single value for steady state. */
+function timeAverage(times: number[], values: number[]): number {
+  if (values.length === 0) return 0;
+  const span = times[times.length - 1] - times[0];
+  if (values.length === 1 || span <= 0) return values[values.length - 1];
+  let integral = 0;
+  for (let i = 1; i < values.length; i++) {
+    integral += 0.5 * (values[i] + values[i - 1]) * (times[i] - times[i - 1]);
+  }
+  return integral / span;
+}
+
+/**
+ * Temperature statistics and boundary heat flow for one group. Heat flow
+ * counts conductors with exactly one end inside the group and the members'
+ * radiation to space; internal conductors cancel and are skipped. Applied
+ * heat loads are not included. Returns null if no member has results.
+ */
+export function summarizeGroupResults(
+  groups: NodeGroup[],
+  nodes: GroupedNode[],
+  conductors: ConductorEndpoints[],
+  results: GroupResultRow[],
+  groupId: string,
+): GroupResultSummary | null {
+  const members = new Set(groupMemberNodeIds(groups, nodes, groupId));
+  const rows = results.filter((r) => members.has(r.nodeId) && r.timeValues.times.length > 0);
+  if (rows.length === 0) return null;
+
+  let minTemperature = Infinity;
+  let maxTemperature = -Infinity;
+  for (const row of rows) {
+    for (const t of row.timeValues.temperatures) {
+      if (t < minTemperature) minTemperature = t;
+      if (t > maxTemperature) maxTemperature = t;
+    }
+  }
+
+  // All nodes of a run share the output times
+  const times = rows[0].timeValues.times;
+  const meanSeries = times.map(
+    (_, i) => rows.reduce((sum, r) => sum + (r.timeValues.temperatures[i] ?? 0), 0) / rows.length,
+  );
+
+  const endpoints = new Map(conductors.map((c) => [c.id, c]));
+  let heatIn = 0;
+  let heatOut = 0;
+  const counted = new Set<string>();
+  for (const row of rows) {
+    for (const cf of row.conductorFlows ?? []) {
+      const conductor = endpoints.get(cf.conductorId);
+      if (!conductor || counted.has(cf.conductorId)) continue;
+      const fromInside = members.has(conductor.nodeFromId);
+      if (fromInside === members.has(conductor.nodeToId)) continue;
+      counted.add(cf.conductorId);
+
+      // Positive flow runs from → to, so it enters the group when `to` is inside
+      const inflow = cf.flows.map((q) => (fromInside ? -q : q));
+      heatIn += timeAverage(cf.times, inflow.map((q) => Math.max(q, 0)));
+      heatOut += timeAverage(cf.times, inflow.map((q) => Math.max(-q, 0)));
+    }
+    if (row.spaceFlow) {
+      heatOut += timeAverage(row.spaceFlow.times, row.spaceFlow.flows.map((q) => Math.max(q, 0)));
+      heatIn += timeAverage(row.spaceFlow.times, row.spaceFlow.flows.map((q) => Math.max(-q, 0)));
+    }
+  }
+
+  return {
+    groupId,
+    nodeCount: rows.length,
+    minTemperature,
+    maxTemperature,
+    meanTemperature: timeAverage(times, meanSeries),
+    heatIn,
+    heatOut,
+    netHeatFlow: heatIn - heatOut,
+  };
+}
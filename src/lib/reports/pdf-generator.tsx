@@ -11,6 +11,7 @@ import {
   simulationResults,
   materials,
   users,
+  modelSnapshots,
 } from '@/lib/db/schema';
 import type {
   OrbitalConfig,
@@ -19,6 +20,7 @@ import type {
   ConductorFlowHistory,
 } from '@/lib/db/schema';
 import { eq, and, inArray } from 'drizzle-orm';
+import { getRunInputsStatus } from '@/lib/snapshots/run-inputs';
 
 import { CoverPage } from './sections/cover-page';
 import { PageWrapper } from './sections/page-wrapper';
@@ -52,12 +54,24 @@ export async function generateThermalReport(
     throw new Error('Required data not found for report generation');
   }
 
-  const [nodeList, conductorList, heatLoadList, resultRows] = await Promise.all([
-    db.select().from(thermalNodes).where(eq(thermalNodes.modelId, modelId)),
-    db.select().from(conductors).where(eq(conductors.modelId, modelId)),
-    db.select().from(heatLoads).where(eq(heatLoads.modelId, modelId)),
-    db.select().from(simulationResults).where(eq(simulationResults.runId, runId)),
-  ]);
+  const [currentNodes, currentConductors, currentHeatLoads, resultRows, [inputSnapshot], inputs] =
+    await Promise.all([
+      db.select().from(thermalNodes).where(eq(thermalNodes.modelId, modelId)),
+      db.select().from(conductors).where(eq(conductors.modelId, modelId)),
+      db.select().from(heatLoads).where(eq(heatLoads.modelId, modelId)),
+      db.select().from(simulationResults).where(eq(simulationResults.runId, runId)),
+      run.snapshotId
+        ? db.select().from(modelSnapshots).where(eq(modelSnapshots.id, run.snapshotId))
+        : Promise.resolve([]),
+      getRunInputsStatus(run, model),
+    ]);
+
+  // Describe the model as the run saw it. Run inputs are captured from the
+  // tables, so their entries have the row shape.
+  const runInputs = inputSnapshot?.snapshot ?? null;
+  const nodeList = (runInputs?.nodes ?? currentNodes) as typeof currentNodes;
+  const conductorList = (runInputs?.conductors ?? currentConductors) as typeof currentConductors;
+  const heatLoadList = (runInputs?.heatLoads ?? currentHeatLoads) as typeof currentHeatLoads;
 
   // Fetch materials used by nodes
   const materialIds = nodeList
@@ -169,7 +183,7 @@ export async function generateThermalReport(
 
   const reportDate = new Date().toISOString().split('T')[0];
   const analystName = user?.name ?? user?.email ?? 'Unknown';
-  const orbitalConfig = model.orbitalConfig as OrbitalConfig | null;
+  const orbitalConfig = (runInputs ? runInputs.orbitalConfig : model.orbitalConfig) as OrbitalConfig | null;
 
   const modelParamsJson = JSON.stringify(
     {
@@ -214,6 +228,8 @@ export async function generateThermalReport(
         <SimulationConfig
           simulationType={run.simulationType}
           config={config}
+          environment={run.environment ?? null}
+          inputs={inputs}
         />
       </PageWrapper>
       <PageWrapper reportDate={reportDate}>
@@ -1,14 +1,17 @@
 import React from 'react';
 import { View, Text } from '@react-pdf/renderer';
 import { styles } from '../styles';
-import type { SimulationConfigData } from '@/lib/db/schema';
+import type { SimulationConfigData, EnvironmentPreset } from '@/lib/db/schema';
+import type { RunInputsStatus } from '@/lib/snapshots/run-inputs';
 
 interface SimulationConfigProps {
   simulationType: string;
   config: SimulationConfigData;
+  environment: EnvironmentPreset | null;
+  inputs: RunInputsStatus;
 }
 
-export function SimulationConfig({ simulationType, config }: SimulationConfigProps) {
+export function SimulationConfig({ simulationType, config, environment, inputs }: SimulationConfigProps) {
   return (
     <View>
       <Text style={styles.sectionTitle}>3. Simulation Configuration</Text>
@@ -21,6 +24,26 @@ export function SimulationConfig({ simulationType, config }: SimulationConfigPro
       {config.minStep != null && <Text style={styles.bodyText}>Min Step: {config.minStep} s</Text>}
       {config.maxStep != null && <Text style={styles.bodyText}>Max Step: {config.maxStep} s</Text>}
       {config.outputInterval != null && <Text style={styles.bodyText}>Output Interval: {config.outputInterval} s</Text>}
+      {environment ? (
+        <Text style={styles.bodyText}>
+          Environment: {environment.name} (solar {environment.solarFlux} W/m², albedo {environment.albedo}, Earth IR {environment.earthIR} W/m²)
+        </Text>
+      ) : (
+        <Text style={styles.bodyText}>Environment: default constants</Text>
+      )}
+      <Text style={styles.bodyText}>
+        Model Version: {inputs.modelVersion != null ? `v${inputs.modelVersion}` : 'not recorded'}
+        {inputs.snapshotId ? ` (inputs snapshot ${inputs.snapshotId.slice(0, 8)})` : ''}
+      </Text>
+      {inputs.changed && (
+        <Text style={styles.bodyText}>
+          Note: the model has changed since this run (now v{inputs.currentVersion}
+          {inputs.tracked ? `, ${inputs.changeCount} change${inputs.changeCount === 1 ? '' : 's'}` : ''}).
+          {inputs.tracked
+            ? ' This report describes the inputs the run used.'
+            : ' The model description in this report is the current model.'}
+        </Text>
+      )}
     </View>
   );
 }
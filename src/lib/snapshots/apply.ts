@@ -0,0 +1,443 @@
+// ─── Snapshot Restore & Branch ───────────────────────────────────────────────
+// Writes a ModelSnapshotData back to the entity tables, either over the model
+// it came from (restore) or into a new model (branch), and captures the
+// tables as a snapshot.
+
+import { db } from '@/lib/db/client';
+import {
+  thermalModels,
+  thermalNodes,
+  nodeGroups,
+  conductors,
+  heatLoads,
+  materials,
+  cadAssets,
+  mliBlankets,
+  type ModelSnapshotData,
+  type SurfaceNodeMapping,
+} from '@/lib/db/schema';
+import { and, eq, inArray, isNull, notInArray, sql } from 'drizzle-orm';
+import { symbolsSchema } from '@/lib/validators/expressions';
+
+type Model = typeof thermalModels.$inferSelect;
+type NodeRow = typeof thermalNodes.$inferInsert;
+type GroupRow = typeof nodeGroups.$inferInsert;
+type ConductorRow = typeof conductors.$inferInsert;
+type HeatLoadRow = typeof heatLoads.$inferInsert;
+type BlanketRow = typeof mliBlankets.$inferInsert;
+type Entity = Record<string, unknown>;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NODE_TYPES = new Set(['diffusion', 'arithmetic', 'boundary']);
+const CONDUCTOR_TYPES = new Set(['linear', 'radiation', 'contact', 'heat_pipe']);
+const LOAD_TYPES = new Set(['constant', 'time_varying', 'orbital', 'heater']);
+
+export interface RestoreSummary {
+  nodes: number;
+  conductors: number;
+  heatLoads: number;
+  groups: number;
+  blankets: number;
+}
+
+/** The model's tables as snapshot data, e.g. for a safety snapshot. */
+export async function captureModelSnapshot(model: Model): Promise<ModelSnapshotData> {
+  const [nodes, modelConductors, modelHeatLoads, groups, blankets] = await Promise.all([
+    db.select().from(thermalNodes).where(eq(thermalNodes.modelId, model.id)),
+    db.select().from(conductors).where(eq(conductors.modelId, model.id)),
+    db.select().from(heatLoads).where(eq(heatLoads.modelId, model.id)),
+    db
+      .select({ id: nodeGroups.id, name: nodeGroups.name, parentId: nodeGroups.parentId })
+      .from(nodeGroups)
+      .where(eq(nodeGroups.modelId, model.id)),
+    db.select().from(mliBlankets).where(eq(mliBlankets.modelId, model.id)),
+  ]);
+  // Table and EOL edits change results without touching the nodes, so the
+  // revisions in use are part of the state
+  const materialIds = [
+    ...new Set(nodes.flatMap((n) => [n.materialId, n.coatingId]).filter((m): m is string => !!m)),
+  ];
+  const usedMaterials = materialIds.length
+    ? await db
+        .select({ id: materials.id, name: materials.name, revision: materials.revision })
+        .from(materials)
+        .where(inArray(materials.id, materialIds))
+    : [];
+  return {
+    nodes,
+    conductors: modelConductors,
+    heatLoads: modelHeatLoads,
+    groups,
+    blankets,
+    materials: usedMaterials,
+    symbols: model.symbols,
+    cadAssetId: model.cadAssetId,
+    surfaceNodeMappings: model.surfaceNodeMappings,
+    orbitalConfig: model.orbitalConfig,
+  };
+}
+
+function entities(items: unknown[] | undefined): Entity[] {
+  return (items ?? []).filter(
+    (item): item is Entity =>
+      !!item && typeof item === 'object' && typeof (item as Entity).id === 'string',
+  );
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function json<T>(value: unknown): T | null {
+  return value && typeof value === 'object' ? (value as T) : null;
+}
+
+/**
+ * Row id for each snapshot id. An id is kept when it already belongs to this
+ * model's table, or is a UUID that no other model uses; otherwise (or when
+ * `fresh`) a new one is drawn.
+ */
+async function assignIds(
+  table:
+    | typeof thermalNodes
+    | typeof nodeGroups
+    | typeof conductors
+    | typeof heatLoads
+    | typeof mliBlankets,
+  modelId: string,
+  ids: string[],
+  fresh: boolean,
+): Promise<Map<string, string>> {
+  const candidates = fresh ? [] : ids.filter((id) => UUID.test(id));
+  const taken = candidates.length
+    ? await db
+        .select({ id: table.id, modelId: table.modelId })
+        .from(table)
+        .where(inArray(table.id, candidates))
+    : [];
+  const foreign = new Set(taken.filter((r) => r.modelId !== modelId).map((r) => r.id));
+  const usable = new Set(candidates.filter((id) => !foreign.has(id)));
+  return new Map(ids.map((id) => [id, usable.has(id) ? id : crypto.randomUUID()]));
+}
+
+/** Groups in insertion order, parents first; orphans and cycles go to the top level */
+function orderGroups(groups: Entity[]): Entity[] {
+  const ordered: Entity[] = [];
+  const placed = new Set<string>();
+  let pending = groups;
+  while (pending.length > 0) {
+    const ready = pending.filter(
+      (g) => typeof g.parentId !== 'string' || placed.has(g.parentId),
+    );
+    const next = ready.length > 0 ? ready : pending.map((g): Entity => ({ ...g, parentId: null }));
+    for (const g of next) {
+      ordered.push(g);
+      placed.add(g.id as string);
+    }
+    pending = pending.filter((g) => !placed.has(g.id as string));
+  }
+  return ordered;
+}
+
+/**
+ * Replace the model's nodes, groups, conductors, heat loads, MLI blankets,
+ * symbols, orbital config and CAD mappings with the snapshot's. Nodes are
+ * updated in place where their id survives, so their simulation results and
+ * comments stay attached; conductors, heat loads, groups and blankets are
+ * rewritten. With `freshIds` every entity gets a new id (branching).
+ * Snapshots without blankets keep the current blankets whose outer layer
+ * survives the restore.
+ *
+ * The HTTP driver has no transactions, so a failure part-way leaves a mixed
+ * state — callers take a safety snapshot first.
+ */
+async function writeModelState(
+  model: Model,
+  data: ModelSnapshotData,
+  options: { freshIds: boolean; cadAssetId: string | null },
+): Promise<RestoreSummary> {
+  const snapNodes = entities(data.nodes).filter(
+    (n) => typeof n.name === 'string' && NODE_TYPES.has(n.nodeType as string) && num(n.temperature) !== null,
+  );
+  const snapGroups = orderGroups(entities(data.groups).filter((g) => typeof g.name === 'string'));
+
+  const [nodeIds, groupIds] = await Promise.all([
+    assignIds(thermalNodes, model.id, snapNodes.map((n) => n.id as string), options.freshIds),
+    assignIds(nodeGroups, model.id, snapGroups.map((g) => g.id as string), options.freshIds),
+  ]);
+
+  const snapConductors = entities(data.conductors).filter(
+    (c) =>
+      typeof c.name === 'string' &&
+      CONDUCTOR_TYPES.has(c.conductorType as string) &&
+      nodeIds.has(c.nodeFromId as string) &&
+      nodeIds.has(c.nodeToId as string),
+  );
+  const snapHeatLoads = entities(data.heatLoads).filter((h) => {
+    const heater = json<{ senseNodeId?: string }>(h.heaterParams);
+    return (
+      typeof h.name === 'string' &&
+      LOAD_TYPES.has(h.loadType as string) &&
+      nodeIds.has(h.nodeId as string) &&
+      (!heater || nodeIds.has(heater.senseNodeId ?? ''))
+    );
+  });
+  const snapBlankets = data.blankets
+    ? entities(data.blankets).filter(
+        (b) =>
+          typeof b.name === 'string' &&
+          nodeIds.has(b.nodeId as string) &&
+          [b.layerCount, b.effectiveEmittance, b.outerAbsorptivity, b.outerEmissivity, b.area].every(
+            (v) => num(v) !== null,
+          ),
+      )
+    : null;
+  const [conductorIds, heatLoadIds, blanketIds] = await Promise.all([
+    assignIds(conductors, model.id, snapConductors.map((c) => c.id as string), options.freshIds),
+    assignIds(heatLoads, model.id, snapHeatLoads.map((h) => h.id as string), options.freshIds),
+    assignIds(mliBlankets, model.id, (snapBlankets ?? []).map((b) => b.id as string), options.freshIds),
+  ]);
+
+  // Materials deleted since the snapshot are dropped rather than failing the FK
+  const materialIds = [
+    ...new Set(
+      snapNodes
+        .flatMap((n) => [n.materialId, n.coatingId])
+        .filter((m): m is string => typeof m === 'string' && UUID.test(m)),
+    ),
+  ];
+  const knownMaterials = new Set(
+    materialIds.length
+      ? (await db.select({ id: materials.id }).from(materials).where(inArray(materials.id, materialIds))).map((m) => m.id)
+      : [],
+  );
+
+  const groupRows: GroupRow[] = snapGroups.map((g) => ({
+    id: groupIds.get(g.id as string)!,
+    modelId: model.id,
+    name: g.name as string,
+    parentId: typeof g.parentId === 'string' ? (groupIds.get(g.parentId) ?? null) : null,
+  }));
+
+  const nodeRows: NodeRow[] = snapNodes.map((n) => ({
+    id: nodeIds.get(n.id as string)!,
+    modelId: model.id,
+    name: n.name as string,
+    nodeType: n.nodeType as NodeRow['nodeType'],
+    temperature: num(n.temperature)!,
+    capacitance: num(n.capacitance),
+    boundaryTemp: num(n.boundaryTemp),
+    materialId: knownMaterials.has(n.materialId as string) ? (n.materialId as string) : null,
+    coatingId: knownMaterials.has(n.coatingId as string) ? (n.coatingId as string) : null,
+    area: num(n.area),
+    mass: num(n.mass),
+    thickness: num(n.thickness),
+    propertyOverrides: Array.isArray(n.propertyOverrides)
+      ? (n.propertyOverrides as NodeRow['propertyOverrides'])
+      : [],
+    absorptivity: num(n.absorptivity),
+    emissivity: num(n.emissivity),
+    radiatesToSpace: n.radiatesToSpace === true,
+    spaceViewFactor: num(n.spaceViewFactor),
+    specularity: num(n.specularity) ?? 0,
+    groupId: typeof n.groupId === 'string' ? (groupIds.get(n.groupId) ?? null) : null,
+    expressions: json(n.expressions),
+  }));
+
+  const conductorRows: ConductorRow[] = snapConductors.map((c) => ({
+    id: conductorIds.get(c.id as string)!,
+    modelId: model.id,
+    name: c.name as string,
+    conductorType: c.conductorType as ConductorRow['conductorType'],
+    nodeFromId: nodeIds.get(c.nodeFromId as string)!,
+    nodeToId: nodeIds.get(c.nodeToId as string)!,
+    conductance: num(c.conductance),
+    area: num(c.area),
+    viewFactor: num(c.viewFactor),
+    emissivity: num(c.emissivity),
+    conductanceData: json(c.conductanceData),
+    expressions: json(c.expressions),
+  }));
+
+  const heatLoadRows: HeatLoadRow[] = snapHeatLoads.map((h) => {
+    const heater = json<NonNullable<HeatLoadRow['heaterParams']>>(h.heaterParams);
+    return {
+      id: heatLoadIds.get(h.id as string)!,
+      modelId: model.id,
+      nodeId: nodeIds.get(h.nodeId as string)!,
+      name: h.name as string,
+      loadType: h.loadType as HeatLoadRow['loadType'],
+      value: num(h.value),
+      timeValues: json(h.timeValues),
+      orbitalParams: json(h.orbitalParams),
+      heaterParams: heater ? { ...heater, senseNodeId: nodeIds.get(heater.senseNodeId)! } : null,
+      expressions: json(h.expressions),
+    };
+  });
+
+  const blanketRows: BlanketRow[] = (snapBlankets ?? []).map((b) => ({
+    id: blanketIds.get(b.id as string)!,
+    modelId: model.id,
+    name: b.name as string,
+    nodeId: nodeIds.get(b.nodeId as string)!,
+    layerCount: num(b.layerCount)!,
+    effectiveEmittance: num(b.effectiveEmittance)!,
+    outerAbsorptivity: num(b.outerAbsorptivity)!,
+    outerEmissivity: num(b.outerEmissivity)!,
+    area: num(b.area)!,
+    seamDegradation: num(b.seamDegradation) ?? 0,
+    outerNodeId: typeof b.outerNodeId === 'string' ? (nodeIds.get(b.outerNodeId) ?? null) : null,
+  }));
+
+  // Conductors and loads are rewritten whole. Dropping the groups first
+  // detaches their nodes (set null); the upsert below reattaches them.
+  await db.delete(conductors).where(eq(conductors.modelId, model.id));
+  await db.delete(heatLoads).where(eq(heatLoads.modelId, model.id));
+  await db.delete(nodeGroups).where(eq(nodeGroups.modelId, model.id));
+  if (groupRows.length) await db.insert(nodeGroups).values(groupRows);
+
+  if (nodeRows.length) {
+    await db
+      .insert(thermalNodes)
+      .values(nodeRows)
+      .onConflictDoUpdate({
+        target: thermalNodes.id,
+        set: {
+          name: sql`excluded.name`,
+          nodeType: sql`excluded.node_type`,
+          temperature: sql`excluded.temperature`,
+          capacitance: sql`excluded.capacitance`,
+          boundaryTemp: sql`excluded.boundary_temp`,
+          materialId: sql`excluded.material_id`,
+          coatingId: sql`excluded.coating_id`,
+          area: sql`excluded.area`,
+          mass: sql`excluded.mass`,
+          thickness: sql`excluded.thickness`,
+          propertyOverrides: sql`excluded.property_overrides`,
+          absorptivity: sql`excluded.absorptivity`,
+          emissivity: sql`excluded.emissivity`,
+          radiatesToSpace: sql`excluded.radiates_to_space`,
+          spaceViewFactor: sql`excluded.space_view_factor`,
+          specularity: sql`excluded.specularity`,
+          groupId: sql`excluded.group_id`,
+          expressions: sql`excluded.expressions`,
+        },
+      });
+  }
+  const keptNodeIds = nodeRows.map((n) => n.id!);
+  await db
+    .delete(thermalNodes)
+    .where(
+      keptNodeIds.length
+        ? and(eq(thermalNodes.modelId, model.id), notInArray(thermalNodes.id, keptNodeIds))
+        : eq(thermalNodes.modelId, model.id),
+    );
+
+  if (conductorRows.length) await db.insert(conductors).values(conductorRows);
+  if (heatLoadRows.length) await db.insert(heatLoads).values(heatLoadRows);
+
+  if (snapBlankets) {
+    await db.delete(mliBlankets).where(eq(mliBlankets.modelId, model.id));
+    if (blanketRows.length) await db.insert(mliBlankets).values(blanketRows);
+  } else {
+    // Deleting a node above detached (set null) any blanket it was the outer layer of
+    await db
+      .delete(mliBlankets)
+      .where(and(eq(mliBlankets.modelId, model.id), isNull(mliBlankets.outerNodeId)));
+  }
+
+  const mappings: SurfaceNodeMapping[] = options.cadAssetId
+    ? (data.surfaceNodeMappings ?? [])
+        .filter((m) => nodeIds.has(m.nodeId))
+        .map((m) => ({ faceId: m.faceId, nodeId: nodeIds.get(m.nodeId)! }))
+    : [];
+  await db
+    .update(thermalModels)
+    .set({
+      orbitalConfig: data.orbitalConfig ?? null,
+      symbols: symbolsSchema.safeParse(data.symbols ?? []).data ?? [],
+      cadAssetId: options.cadAssetId,
+      surfaceNodeMappings: mappings,
+      updatedAt: new Date(),
+    })
+    .where(eq(thermalModels.id, model.id));
+
+  return {
+    nodes: nodeRows.length,
+    conductors: conductorRows.length,
+    heatLoads: heatLoadRows.length,
+    groups: groupRows.length,
+    blankets: blanketRows.length,
+  };
+}
+
+/** The snapshot's CAD asset if it still exists and belongs to `modelId` */
+async function ownedCadAsset(modelId: string, assetId: string | null | undefined) {
+  if (!assetId || !UUID.test(assetId)) return null;
+  const [asset] = await db
+    .select()
+    .from(cadAssets)
+    .where(and(eq(cadAssets.id, assetId), eq(cadAssets.modelId, modelId)));
+  return asset ?? null;
+}
+
+/**
+ * Make the model's tables match a snapshot of it. The CAD asset is restored
+ * only if it is still one of the model's imports; otherwise the current
+ * geometry is kept.
+ */
+export async function restoreModelSnapshot(
+  model: Model,
+  data: ModelSnapshotData,
+): Promise<RestoreSummary> {
+  const asset = await ownedCadAsset(model.id, data.cadAssetId);
+  return writeModelState(model, data, {
+    freshIds: false,
+    cadAssetId: asset ? asset.id : model.cadAssetId,
+  });
+}
+
+/**
+ * Create a model in the same project from a snapshot of `source`. Every
+ * entity gets a new id; the CAD asset, when it is still available, is
+ * copied so the two models' geometry is independent.
+ */
+export async function branchModel(
+  source: Model,
+  snapshot: { id: string; snapshot: ModelSnapshotData },
+  options: { name: string; userId: string },
+): Promise<{ model: Model; summary: RestoreSummary }> {
+  const [created] = await db
+    .insert(thermalModels)
+    .values({
+      projectId: source.projectId,
+      name: options.name,
+      description: source.description,
+      branchedFromModelId: source.id,
+      branchedFromSnapshotId: snapshot.id,
+    })
+    .returning();
+
+  const asset = await ownedCadAsset(source.id, snapshot.snapshot.cadAssetId);
+  let cadAssetId: string | null = null;
+  if (asset) {
+    const [inserted] = await db
+      .insert(cadAssets)
+      .values({
+        projectId: asset.projectId,
+        modelId: created.id,
+        fileName: asset.fileName,
+        stepFile: asset.stepFile,
+        faces: asset.faces,
+        boundingBox: asset.boundingBox,
+        totalSurfaceArea: asset.totalSurfaceArea,
+        uploadedBy: options.userId,
+      })
+      .returning({ id: cadAssets.id });
+    cadAssetId = inserted.id;
+  }
+
+  const summary = await writeModelState(created, snapshot.snapshot, { freshIds: true, cadAssetId });
+  const [model] = await db.select().from(thermalModels).where(eq(thermalModels.id, created.id));
+  return { model, summary };
+}
@@ -0,0 +1,168 @@
+// ─── Snapshot Diff ───────────────────────────────────────────────────────────
+// Structured comparison of two model states (snapshots, or the live model
+// captured as one). Entities are matched by id; symbols by name.
+
+import type { ModelSnapshotData } from '@/lib/db/schema';
+
+export interface FieldChange {
+  /** Field name; nested orbital settings use dotted paths (`attitudeParams.spinRate`) */
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface EntityRef {
+  id: string;
+  name: string;
+}
+
+export interface EntityDiff {
+  added: EntityRef[];
+  removed: EntityRef[];
+  changed: Array<EntityRef & { changes: FieldChange[] }>;
+}
+
+export interface SnapshotDiff {
+  nodes: EntityDiff;
+  conductors: EntityDiff;
+  heatLoads: EntityDiff;
+  groups: EntityDiff;
+  blankets: EntityDiff;
+  materials: EntityDiff;
+  symbols: EntityDiff;
+  orbitalConfig: FieldChange[];
+}
+
+type Entity = Record<string, unknown>;
+
+/** Row bookkeeping and editor layout, which are not part of the design */
+const IGNORED_FIELDS = new Set(['id', 'modelId', 'createdAt', 'updatedAt', 'x', 'y', 'material', 'coating']);
+
+/** Values a field takes when a snapshot predates it */
+const FIELD_DEFAULTS: Record<string, unknown> = {
+  radiatesToSpace: false,
+  specularity: 0,
+  coatingId: null,
+  thickness: null,
+  propertyOverrides: [],
+  groupId: null,
+  expressions: null,
+};
+
+function normalise(value: unknown): unknown {
+  return value === undefined ? null : value;
+}
+
+/** Order-independent JSON of a value, for deep comparison */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Entity)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(normalise(value));
+}
+
+function valueOf(entity: Entity, field: string): unknown {
+  const value = normalise(entity[field]);
+  return value === null && field in FIELD_DEFAULTS ? FIELD_DEFAULTS[field] : value;
+}
+
+function entities(items: unknown[] | undefined, key: 'id' | 'name'): Map<string, Entity> {
+  const map = new Map<string, Entity>();
+  for (const item of items ?? []) {
+    if (item && typeof item === 'object' && typeof (item as Entity)[key] === 'string') {
+      map.set((item as Entity)[key] as string, item as Entity);
+    }
+  }
+  return map;
+}
+
+function entityFieldChanges(before: Entity, after: Entity): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const a = valueOf(before, field);
+    const b = valueOf(after, field);
+    if (canonical(a) !== canonical(b)) changes.push({ field, before: a, after: b });
+  }
+  return changes;
+}
+
+function diffEntities(
+  before: unknown[] | undefined,
+  after: unknown[] | undefined,
+  key: 'id' | 'name' = 'id',
+): EntityDiff {
+  const a = entities(before, key);
+  const b = entities(after, key);
+  const ref = (id: string, e: Entity): EntityRef => ({ id, name: String(e.name ?? id) });
+
+  const diff: EntityDiff = { added: [], removed: [], changed: [] };
+  for (const [id, entity] of b) {
+    const previous = a.get(id);
+    if (!previous) {
+      diff.added.push(ref(id, entity));
+      continue;
+    }
+    const changes = entityFieldChanges(previous, entity);
+    if (changes.length > 0) diff.changed.push({ ...ref(id, entity), changes });
+  }
+  for (const [id, entity] of a) {
+    if (!b.has(id)) diff.removed.push(ref(id, entity));
+  }
+  return diff;
+}
+
+/** Flatten nested objects to dotted paths; arrays are compared whole. */
+function flatten(value: unknown, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value as Entity)) {
+      flatten(v, prefix ? `${prefix}.${k}` : k, out);
+    }
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+function diffOrbitalConfig(before: unknown, after: unknown): FieldChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...fields]
+    .sort()
+    .filter((field) => canonical(a[field]) !== canonical(b[field]))
+    .map((field) => ({ field, before: normalise(a[field]), after: normalise(b[field]) }));
+}
+
+/** What changed going from `before` to `after`. */
+export function diffSnapshots(before: ModelSnapshotData, after: ModelSnapshotData): SnapshotDiff {
+  return {
+    nodes: diffEntities(before.nodes, after.nodes),
+    conductors: diffEntities(before.conductors, after.conductors),
+    heatLoads: diffEntities(before.heatLoads, after.heatLoads),
+    groups: diffEntities(before.groups, after.groups),
+    // Snapshots without blankets or materials predate them; they say nothing either way
+    blankets: before.blankets && after.blankets
+      ? diffEntities(before.blankets, after.blankets)
+      : { added: [], removed: [], changed: [] },
+    materials: before.materials && after.materials
+      ? diffEntities(before.materials, after.materials)
+      : { added: [], removed: [], changed: [] },
+    symbols: diffEntities(before.symbols, after.symbols, 'name'),
+    orbitalConfig: diffOrbitalConfig(before.orbitalConfig, after.orbitalConfig),
+  };
+}
+
+/** Number of added, removed and changed items, orbital fields included. */
+export function countChanges(diff: SnapshotDiff): number {
+  const kinds = [diff.nodes, diff.conductors, diff.heatLoads, diff.groups, diff.blankets, diff.materials, diff.symbols];
+  return (
+    kinds.reduce((n, d) => n + d.added.length + d.removed.length + d.changed.length, 0) +
+    diff.orbitalConfig.length
+  );
+}
@@ -0,0 +1,80 @@
+// ─── Simulation Run Inputs ───────────────────────────────────────────────────
+// Each queued run points at an immutable snapshot of the stored model, so
+// results can be traced to the inputs that produced them after later edits.
+// These rows are flagged so they stay out of the user-facing version history.
+
+import { db } from '@/lib/db/client';
+import { modelSnapshots, type thermalModels, type simulationRuns } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { captureModelSnapshot } from './apply';
+import { diffSnapshots, countChanges, type SnapshotDiff } from './diff';
+
+type Model = typeof thermalModels.$inferSelect;
+type Run = typeof simulationRuns.$inferSelect;
+
+export interface RunInputsStatus {
+  /** False for runs queued before inputs were recorded */
+  tracked: boolean;
+  snapshotId: string | null;
+  modelVersion: number | null;
+  currentVersion: number;
+  /** Whether the stored model differs from the run's inputs */
+  changed: boolean;
+  changeCount: number;
+  diff: SnapshotDiff | null;
+}
+
+/** Snapshot the stored model as a run's inputs; spread into the run insert. */
+export async function recordRunInputs(
+  model: Model,
+): Promise<{ modelVersion: number; snapshotId: string }> {
+  const [snapshot] = await db
+    .insert(modelSnapshots)
+    .values({
+      modelId: model.id,
+      version: model.version,
+      description: 'Simulation run inputs',
+      snapshot: await captureModelSnapshot(model),
+      isRunInputs: true,
+    })
+    .returning({ id: modelSnapshots.id });
+  return { modelVersion: model.version, snapshotId: snapshot.id };
+}
+
+/**
+ * Compare a run's recorded inputs with the model as stored now. Version
+ * numbers alone over-report — every editor save bumps them — so `changed`
+ * comes from the diff.
+ */
+export async function getRunInputsStatus(run: Run, model: Model): Promise<RunInputsStatus> {
+  const [snapshot] = run.snapshotId
+    ? await db
+        .select()
+        .from(modelSnapshots)
+        .where(and(eq(modelSnapshots.id, run.snapshotId), eq(modelSnapshots.modelId, model.id)))
+    : [];
+
+  if (!snapshot) {
+    return {
+      tracked: false,
+      snapshotId: null,
+      modelVersion: run.modelVersion,
+      currentVersion: model.version,
+      changed: run.modelVersion !== null && run.modelVersion !== model.version,
+      changeCount: 0,
+      diff: null,
+    };
+  }
+
+  const diff = diffSnapshots(snapshot.snapshot, await captureModelSnapshot(model));
+  const changeCount = countChanges(diff);
+  return {
+    tracked: true,
+    snapshotId: snapshot.id,
+    modelVersion: run.modelVersion ?? snapshot.version,
+    currentVersion: model.version,
+    changed: changeCount > 0,
+    changeCount,
+    diff,
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Spacecraft attitude — the orientation of the body frame in ECI over time.
+ *
+ * Every mode yields a BodyFrame: the body X, Y and Z axes expressed in ECI,
+ * i.e. the columns of the body→ECI rotation. heat-flow uses it to bring
+ * surface normals into ECI against the sun and nadir directions, and
+ * orbit-playback renders the same frame, so the 3D view shows the attitude
+ * the solver used.
+ *
+ * The nadir-pointing body frame is +X velocity, +Y orbit normal, +Z zenith.
+ */
+
+import { computeOrbitGeometry } from './orbital-environment';
+import type {
+  AttitudeParams,
+  OrbitalConfig,
+  OrbitGeometry,
+  Quaternion,
+  Vec3,
+} from './types';
+
+/** Body X, Y and Z axes in ECI. */
+export type BodyFrame = [Vec3, Vec3, Vec3];
+
+const DEG_TO_RAD = Math.PI / 180;
+const PARALLEL_TOLERANCE = 1e-6;
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function scale(v: Vec3, s: number): Vec3 {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+function normalize(v: Vec3): Vec3 {
+  const len = Math.sqrt(dot(v, v));
+  return len > 0 ? scale(v, 1 / len) : v;
+}
+
+/** Rodrigues rotation of v about a unit axis. */
+function rotateAbout(v: Vec3, axis: Vec3, angle: number): Vec3 {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const k = cross(axis, v);
+  const d = dot(axis, v) * (1 - c);
+  return {
+    x: v.x * c + k.x * s + axis.x * d,
+    y: v.y * c + k.y * s + axis.y * d,
+    z: v.z * c + k.z * s + axis.z * d,
+  };
+}
+
+/** Some unit vector perpendicular to v (v must be a unit vector). */
+function perpendicular(v: Vec3): Vec3 {
+  const ref = Math.abs(v.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  return normalize(cross(v, ref));
+}
+
+/** Rotate a body-frame vector into ECI. */
+export function bodyToECI(frame: BodyFrame, v: Vec3): Vec3 {
+  return {
+    x: frame[0].x * v.x + frame[1].x * v.y + frame[2].x * v.z,
+    y: frame[0].y * v.x + frame[1].y * v.y + frame[2].y * v.z,
+    z: frame[0].z * v.x + frame[1].z * v.y + frame[2].z * v.z,
+  };
+}
+
+/** Rotate an ECI vector into the body frame. */
+export function eciToBody(frame: BodyFrame, v: Vec3): Vec3 {
+  return { x: dot(frame[0], v), y: dot(frame[1], v), z: dot(frame[2], v) };
+}
+
+/** Local orbit frame: velocity, orbit normal, zenith. */
+export function orbitFrame(geometry: OrbitGeometry): BodyFrame {
+  const zenith = geometry.position;
+  const normal = normalize(cross(zenith, geometry.velocity));
+  return [cross(normal, zenith), normal, zenith];
+}
+
+/**
+ * Body axes expressed in the local orbit frame (velocity, orbit normal,
+ * zenith) instead of ECI — the frame is then independent of where the orbit
+ * sits in inertial space.
+ */
+export function toOrbitFrame(frame: BodyFrame, geometry: OrbitGeometry): BodyFrame {
+  const local = orbitFrame(geometry);
+  return [eciToBody(local, frame[0]), eciToBody(local, frame[1]), eciToBody(local, frame[2])];
+}
+
+/**
+ * TRIAD: the rotation that takes the body primary axis exactly onto the ECI
+ * primary direction and the body secondary axis as close as possible to the
+ * ECI secondary direction. Returns null if either pair is parallel.
+ */
+function triad(
+  bodyPrimary: Vec3,
+  eciPrimary: Vec3,
+  bodySecondary: Vec3,
+  eciSecondary: Vec3,
+): BodyFrame | null {
+  const b1 = normalize(bodyPrimary);
+  const b2 = cross(b1, normalize(bodySecondary));
+  const e1 = normalize(eciPrimary);
+  const e2 = cross(e1, normalize(eciSecondary));
+  if (dot(b2, b2) < PARALLEL_TOLERANCE || dot(e2, e2) < PARALLEL_TOLERANCE) return null;
+
+  const body = [b1, normalize(b2)];
+  body.push(cross(body[0], body[1]));
+  const eci = [e1, normalize(e2)];
+  eci.push(cross(eci[0], eci[1]));
+
+  // R = E·Bᵀ; column i is the image of body axis i
+  const column = (pick: (v: Vec3) => number): Vec3 => ({
+    x: eci[0].x * pick(body[0]) + eci[1].x * pick(body[1]) + eci[2].x * pick(body[2]),
+    y: eci[0].y * pick(body[0]) + eci[1].y * pick(body[1]) + eci[2].y * pick(body[2]),
+    z: eci[0].z * pick(body[0]) + eci[1].z * pick(body[1]) + eci[2].z * pick(body[2]),
+  });
+  return [column((v) => v.x), column((v) => v.y), column((v) => v.z)];
+}
+
+/** Body frame of a body→ECI quaternion (normalised first). */
+export function quaternionToFrame(q: Quaternion): BodyFrame {
+  const len = Math.sqrt(q.w * q.w + q.x * q.x + q.y * q.y + q.z * q.z) || 1;
+  const w = q.w / len;
+  const x = q.x / len;
+  const y = q.y / len;
+  const z = q.z / len;
+  return [
+    { x: 1 - 2 * (y * y + z * z), y: 2 * (x * y + w * z), z: 2 * (x * z - w * y) },
+    { x: 2 * (x * y - w * z), y: 1 - 2 * (x * x + z * z), z: 2 * (y * z + w * x) },
+    { x: 2 * (x * z + w * y), y: 2 * (y * z - w * x), z: 1 - 2 * (x * x + y * y) },
+  ];
+}
+
+/** Spherical linear interpolation along the shorter arc. */
+function slerp(a: Quaternion, b: Quaternion, f: number): Quaternion {
+  let cosHalf = a.w * b.w + a.x * b.x + a.y * b.y + a.z * b.z;
+  let end = b;
+  if (cosHalf < 0) {
+    cosHalf = -cosHalf;
+    end = { w: -b.w, x: -b.x, y: -b.y, z: -b.z };
+  }
+
+  let wa = 1 - f;
+  let wb = f;
+  if (cosHalf < 0.9995) {
+    const half = Math.acos(cosHalf);
+    const sinHalf = Math.sin(half);
+    wa = Math.sin((1 - f) * half) / sinHalf;
+    wb = Math.sin(f * half) / sinHalf;
+  }
+  return {
+    w: wa * a.w + wb * end.w,
+    x: wa * a.x + wb * end.x,
+    y: wa * a.y + wb * end.y,
+    z: wa * a.z + wb * end.z,
+  };
+}
+
+function sunPointingFrame(params: AttitudeParams, geometry: OrbitGeometry): BodyFrame {
+  const local = orbitFrame(geometry);
+  const targets: Record<NonNullable<AttitudeParams['secondaryTarget']>, Vec3> = {
+    nadir: scale(local[2], -1),
+    orbit_normal: local[1],
+    velocity: local[0],
+  };
+  const sunAxis = params.sunAxis ?? { x: 1, y: 0, z: 0 };
+  const secondaryAxis = params.secondaryAxis ?? { x: 0, y: 0, z: -1 };
+
+  // When the target lines up with the sun (e.g. nadir at the subsolar
+  // point) fall back to the other orbit directions
+  const candidates = [
+    targets[params.secondaryTarget ?? 'nadir'],
+    targets.orbit_normal,
+    targets.velocity,
+  ];
+  let frame: BodyFrame | null = null;
+  for (const target of candidates) {
+    frame = triad(sunAxis, geometry.sun, secondaryAxis, target);
+    if (frame) break;
+  }
+  // Sun axis parallel to the secondary axis — only the sun axis is defined
+  frame ??= triad(sunAxis, geometry.sun, perpendicular(normalize(sunAxis)), perpendicular(geometry.sun))!;
+
+  const roll = (params.rollAngle ?? 0) * DEG_TO_RAD;
+  if (roll === 0) return frame;
+  return [
+    rotateAbout(frame[0], geometry.sun, roll),
+    rotateAbout(frame[1], geometry.sun, roll),
+    rotateAbout(frame[2], geometry.sun, roll),
+  ];
+}
+
+function spinningFrame(config: OrbitalConfig, params: AttitudeParams, t: number): BodyFrame {
+  const spinAxis = normalize(params.spinAxis ?? { x: 0, y: 0, z: 1 });
+  const inertialAxis = normalize(
+    params.spinAxisInertial ?? orbitFrame(computeOrbitGeometry(config, 0))[1],
+  );
+  const base = triad(spinAxis, inertialAxis, perpendicular(spinAxis), perpendicular(inertialAxis))!;
+
+  const angle = (params.spinRate ?? 0) * DEG_TO_RAD * t;
+  return [
+    rotateAbout(base[0], inertialAxis, angle),
+    rotateAbout(base[1], inertialAxis, angle),
+    rotateAbout(base[2], inertialAxis, angle),
+  ];
+}
+
+function quaternionSeriesFrame(params: AttitudeParams, t: number): BodyFrame {
+  const samples = params.quaternions ?? [];
+  if (samples.length === 0) return quaternionToFrame({ w: 1, x: 0, y: 0, z: 0 });
+  if (t <= samples[0].time) return quaternionToFrame(samples[0].quaternion);
+  const last = samples[samples.length - 1];
+  if (t >= last.time) return quaternionToFrame(last.quaternion);
+
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (samples[mid].time <= t) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  const f = (t - samples[lo].time) / (samples[hi].time - samples[lo].time);
+  return quaternionToFrame(slerp(samples[lo].quaternion, samples[hi].quaternion, f));
+}
+
+/**
+ * Body frame at time t (s after the epoch of `config`) for the config's
+ * attitude mode. `geometry` is the sun and orbit state at t.
+ */
+export function computeBodyFrame(
+  config: OrbitalConfig,
+  t: number,
+  geometry: OrbitGeometry,
+): BodyFrame {
+  const params = config.attitudeParams ?? {};
+
+  switch (config.attitude ?? 'nadir_pointing') {
+    case 'sun_pointing':
+      return sunPointingFrame(params, geometry);
+    case 'inertial':
+      return quaternionToFrame(params.quaternion ?? { w: 1, x: 0, y: 0, z: 0 });
+    case 'spinning':
+      return spinningFrame(config, params, t);
+    case 'quaternion_series':
+      return quaternionSeriesFrame(params, t);
+    case 'nadir_pointing':
+    default:
+      return orbitFrame(geometry);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Design Optimization — NSGA-II over the design-space parameters
+ *
+ * Each generation's offspring are bred from the surviving population by
+ * binary tournament, simulated binary crossover (SBX) and polynomial
+ * mutation, then parents and offspring compete for survival by
+ * non-dominated rank and crowding distance (Deb et al., 2002). Constraints
+ * use constrained domination: a feasible design beats an infeasible one, and
+ * of two infeasible designs the smaller violation wins.
+ */
+
+import {
+  paramKey,
+  temperatureMargin,
+  type ExplorationConstraint,
+  type ExplorationObjective,
+  type ExplorationParameter,
+  type NodeResult,
+  type ObjectiveType,
+} from './design-space';
+import type { HeaterResult } from './types';
+
+// ── Objectives ──────────────────────────────────────────────────────────────
+
+export const OBJECTIVE_LABELS: Record<ObjectiveType, string> = {
+  heater_power: 'Heater power (W)',
+  radiator_area: 'Radiator area (m²)',
+  temperature_margin: 'Temperature margin (K)',
+};
+
+interface SampleOutcome {
+  nodeResults: NodeResult[];
+  heaterResults: HeaterResult[];
+  /** Nodes with the sample applied, for areas set by a parameter */
+  nodes: Array<{ id: string; area?: number | null }>;
+}
+
+/** Objective values of one evaluated design, in their own units. */
+export function evaluateObjectives(
+  objectives: ExplorationObjective[],
+  outcome: SampleOutcome,
+  constraints: ExplorationConstraint[],
+): Partial<Record<ObjectiveType, number>> {
+  const values: Partial<Record<ObjectiveType, number>> = {};
+  for (const objective of objectives) {
+    const ids = objective.entityIds && objective.entityIds.length > 0
+      ? new Set(objective.entityIds)
+      : null;
+    if (objective.type === 'heater_power') {
+      values.heater_power = outcome.heaterResults
+        .filter((h) => !ids || ids.has(h.heatLoadId))
+        .reduce((sum, h) => sum + h.averagePower, 0);
+    } else if (objective.type === 'radiator_area') {
+      values.radiator_area = outcome.nodes
+        .filter((n) => ids?.has(n.id))
+        .reduce((sum, n) => sum + (n.area ?? 0), 0);
+    } else {
+      values.temperature_margin = temperatureMargin(outcome.nodeResults, constraints) ?? 0;
+    }
+  }
+  return values;
+}
+
+/** Objective values as quantities to minimise, in the objectives' order. */
+export function objectiveScores(
+  objectives: ExplorationObjective[],
+  values: Partial<Record<ObjectiveType, number>>,
+): number[] {
+  return objectives.map((o) => {
+    const value = values[o.type] ?? Infinity;
+    return o.type === 'temperature_margin' ? -value : value;
+  });
+}
+
+// ── Domination and sorting ──────────────────────────────────────────────────
+
+export interface Candidate {
+  paramValues: Record<string, number>;
+  /** Objective values to minimise */
+  scores: number[];
+  /** Constraint violation; 0 when feasible, Infinity when the solve failed */
+  violation: number;
+}
+
+/** Whether `a` constrained-dominates `b`. */
+export function dominates(a: Candidate, b: Candidate): boolean {
+  if (a.violation !== b.violation) {
+    return a.violation < b.violation;
+  }
+  let better = false;
+  for (let i = 0; i < a.scores.length; i++) {
+    if (a.scores[i] > b.scores[i]) return false;
+    if (a.scores[i] < b.scores[i]) better = true;
+  }
+  return better;
+}
+
+/** Indices of the candidates grouped into successive non-dominated fronts. */
+export function nonDominatedSort(candidates: Candidate[]): number[][] {
+  const dominatedBy = candidates.map(() => 0);
+  const dominating: number[][] = candidates.map(() => []);
+  const fronts: number[][] = [[]];
+
+  for (let p = 0; p < candidates.length; p++) {
+    for (let q = p + 1; q < candidates.length; q++) {
+      if (dominates(candidates[p], candidates[q])) {
+        dominating[p].push(q);
+        dominatedBy[q]++;
+      } else if (dominates(candidates[q], candidates[p])) {
+        dominating[q].push(p);
+        dominatedBy[p]++;
+      }
+    }
+    // Every pair with p has been compared by now
+    if (dominatedBy[p] === 0) fronts[0].push(p);
+  }
+
+  for (let f = 0; fronts[f].length > 0; f++) {
+    const next: number[] = [];
+    for (const p of fronts[f]) {
+      for (const q of dominating[p]) {
+        if (--dominatedBy[q] === 0) next.push(q);
+      }
+    }
+    fronts.push(next);
+  }
+  fronts.pop();
+  return fronts;
+}
+
+/** Crowding distance of each member of a front, keyed by candidate index. */
+export function crowdingDistance(candidates: Candidate[], front: number[]): Map<number, number> {
+  const distance = new Map(front.map((i) => [i, 0]));
+  if (front.length === 0) return distance;
+  const numObjectives = candidates[front[0]].scores.length;
+
+  for (let m = 0; m < numObjectives; m++) {
+    const sorted = [...front].sort((a, b) => candidates[a].scores[m] - candidates[b].scores[m]);
+    const lo = candidates[sorted[0]].scores[m];
+    const hi = candidates[sorted[sorted.length - 1]].scores[m];
+    distance.set(sorted[0], Infinity);
+    distance.set(sorted[sorted.length - 1], Infinity);
+    if (!(hi - lo > 0) || !Number.isFinite(hi - lo)) continue;
+    for (let k = 1; k < sorted.length - 1; k++) {
+      const gap = candidates[sorted[k + 1]].scores[m] - candidates[sorted[k - 1]].scores[m];
+      distance.set(sorted[k], distance.get(sorted[k])! + gap / (hi - lo));
+    }
+  }
+  return distance;
+}
+
+/** Rank (front number) and crowding distance of every candidate. */
+function rankAndCrowding(candidates: Candidate[]): { rank: number[]; crowding: number[] } {
+  const rank = candidates.map(() => 0);
+  const crowding = candidates.map(() => 0);
+  nonDominatedSort(candidates).forEach((front, f) => {
+    const distance = crowdingDistance(candidates, front);
+    for (const i of front) {
+      rank[i] = f;
+      crowding[i] = distance.get(i)!;
+    }
+  });
+  return { rank, crowding };
+}
+
+/** The `size` best candidates by rank, then by crowding distance. */
+export function selectSurvivors(candidates: Candidate[], size: number): Candidate[] {
+  const survivors: Candidate[] = [];
+  for (const front of nonDominatedSort(candidates)) {
+    if (survivors.length + front.length <= size) {
+      survivors.push(...front.map((i) => candidates[i]));
+      continue;
+    }
+    const distance = crowdingDistance(candidates, front);
+    const byCrowding = [...front].sort((a, b) => distance.get(b)! - distance.get(a)!);
+    survivors.push(...byCrowding.slice(0, size - survivors.length).map((i) => candidates[i]));
+    break;
+  }
+  return survivors;
+}
+
+/** Indices of the feasible, non-dominated candidates. */
+export function paretoSet(candidates: Candidate[]): number[] {
+  const feasible = candidates
+    .map((c, i) => ({ c, i }))
+    .filter(({ c }) => c.violation === 0);
+  if (feasible.length === 0) return [];
+  const [front] = nonDominatedSort(feasible.map(({ c }) => c));
+  return front.map((k) => feasible[k].i);
+}
+
+// ── Variation ───────────────────────────────────────────────────────────────
+
+const CROSSOVER_PROBABILITY = 0.9;
+const SBX_ETA = 15;
+const MUTATION_ETA = 20;
+
+function clamp(value: number, lo: number, hi: number): number {
+  return Math.min(Math.max(value, lo), hi);
+}
+
+/** SBX of one variable; returns the two children's values. */
+function sbx(x1: number, x2: number, lo: number, hi: number, random: () => number): [number, number] {
+  const u = random();
+  const beta = u <= 0.5
+    ? (2 * u) ** (1 / (SBX_ETA + 1))
+    : (1 / (2 * (1 - u))) ** (1 / (SBX_ETA + 1));
+  const c1 = 0.5 * ((1 + beta) * x1 + (1 - beta) * x2);
+  const c2 = 0.5 * ((1 - beta) * x1 + (1 + beta) * x2);
+  return [clamp(c1, lo, hi), clamp(c2, lo, hi)];
+}
+
+/** Polynomial mutation of one variable within [lo, hi]. */
+function mutate(x: number, lo: number, hi: number, random: () => number): number {
+  const range = hi - lo;
+  if (!(range > 0)) return x;
+  const u = random();
+  const delta = u < 0.5
+    ? (2 * u) ** (1 / (MUTATION_ETA + 1)) - 1
+    : 1 - (2 * (1 - u)) ** (1 / (MUTATION_ETA + 1));
+  return clamp(x + delta * range, lo, hi);
+}
+
+/**
+ * Parameter samples for the next generation, bred from the population by
+ * binary tournament on rank and crowding distance.
+ */
+export function makeOffspring(
+  population: Candidate[],
+  parameters: ExplorationParameter[],
+  count: number,
+  random: () => number = Math.random,
+): Record<string, number>[] {
+  const { rank, crowding } = rankAndCrowding(population);
+  const tournament = (): Candidate => {
+    const a = Math.floor(random() * population.length);
+    const b = Math.floor(random() * population.length);
+    if (rank[a] !== rank[b]) return population[rank[a] < rank[b] ? a : b];
+    return population[crowding[a] >= crowding[b] ? a : b];
+  };
+  const mutationProbability = 1 / Math.max(parameters.length, 1);
+
+  const offspring: Record<string, number>[] = [];
+  while (offspring.length < count) {
+    const p1 = tournament().paramValues;
+    const p2 = tournament().paramValues;
+    const c1: Record<string, number> = {};
+    const c2: Record<string, number> = {};
+    const cross = random() < CROSSOVER_PROBABILITY;
+
+    for (const param of parameters) {
+      const key = paramKey(param);
+      const [lo, hi] = [param.minValue, param.maxValue];
+      [c1[key], c2[key]] = cross && random() < 0.5
+        ? sbx(p1[key], p2[key], lo, hi, random)
+        : [p1[key], p2[key]];
+      if (random() < mutationProbability) c1[key] = mutate(c1[key], lo, hi, random);
+      if (random() < mutationProbability) c2[key] = mutate(c2[key], lo, hi, random);
+    }
+
+    offspring.push(c1);
+    if (offspring.length < count) offspring.push(c2);
+  }
+  return offspring;
+}
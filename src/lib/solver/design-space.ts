@@ -2,10 +2,14 @@
  * Design Space Explorer — Latin Hypercube Sampling & parameter application
  */
 
+import type { SymbolValues } from './expressions';
+import { addPropertyOverride, type DerivedNodeField } from './node-properties';
+
 // ── Interfaces ──────────────────────────────────────────────────────────────
 
 export interface ExplorationParameter {
-  entityType: 'node' | 'conductor' | 'heat_load';
+  /** 'symbol' varies a model symbol: entityId is its name, property 'value'. */
+  entityType: 'node' | 'conductor' | 'heat_load' | 'symbol';
   entityId: string;
   property: string;
   minValue: number;
@@ -19,11 +23,28 @@ export interface ExplorationConstraint {
   tempMax?: number;
 }
 
+export type ObjectiveType = 'heater_power' | 'radiator_area' | 'temperature_margin';
+
+export interface ExplorationObjective {
+  /** heater_power and radiator_area are minimised, temperature_margin maximised */
+  type: ObjectiveType;
+  /**
+   * heater_power: the heater loads to sum (all heaters when absent);
+   * radiator_area: the radiator nodes whose areas are summed.
+   */
+  entityIds?: string[];
+}
+
 export interface ExplorationConfig {
   parameters: ExplorationParameter[];
   constraints: ExplorationConstraint[];
   numSamples: number;
   samplingMethod: 'lhs' | 'random';
+  /** 'optimization' evolves an NSGA-II population towards the objectives' Pareto front */
+  mode?: 'sampling' | 'optimization';
+  objectives?: ExplorationObjective[];
+  populationSize?: number;
+  generations?: number;
 }
 
 export interface NodeResult {
@@ -39,11 +60,16 @@ export interface ExplorationSampleResult {
   paramValues: Record<string, number>;
   nodeResults: NodeResult[];
   feasible: boolean;
+  /** Objective values in their own units (W, m², K); optimizations only */
+  objectives?: Partial<Record<ObjectiveType, number>> | null;
+  generation?: number | null;
+  /** On the Pareto front of all feasible designs evaluated */
+  pareto?: boolean;
 }
 
 // ── Helper: parameter key ───────────────────────────────────────────────────
 
-function paramKey(p: ExplorationParameter): string {
+export function paramKey(p: ExplorationParameter): string {
   return `${p.entityType}_${p.entityId}_${p.property}`;
 }
 
@@ -118,6 +144,7 @@ export function randomSample(
 
 interface DbNodeLike {
   id: string;
+  propertyOverrides?: readonly DerivedNodeField[] | null;
   [key: string]: unknown;
 }
 
@@ -139,8 +166,19 @@ const CONDUCTOR_PROPERTIES = new Set([
 ]);
 const HEAT_LOAD_PROPERTIES = new Set(['value']);
 
+/** Set a sampled field, dropping any expression that would override it. */
+function setSampledField(entity: Record<string, unknown>, property: string, value: number): void {
+  entity[property] = value;
+  const expressions = entity.expressions as Record<string, string> | null | undefined;
+  if (expressions && property in expressions) {
+    const rest = { ...expressions };
+    delete rest[property];
+    entity.expressions = rest;
+  }
+}
+
 /**
- * Apply a parameter sample to model data, returning deep copies.
+ * Apply a parameter sample to model data and symbols, returning deep copies.
  * Never mutates originals.
  */
 export function applyParameterSample<
@@ -153,11 +191,13 @@ export function applyParameterSample<
   heatLoadsList: H[],
   parameters: ExplorationParameter[],
   sample: Record<string, number>,
-): { nodes: N[]; conductors: C[]; heatLoads: H[] } {
+  symbols: SymbolValues = {},
+): { nodes: N[]; conductors: C[]; heatLoads: H[]; symbols: SymbolValues } {
   // Deep copy
   const newNodes: N[] = JSON.parse(JSON.stringify(nodes));
   const newConductors: C[] = JSON.parse(JSON.stringify(conductorsList));
   const newHeatLoads: H[] = JSON.parse(JSON.stringify(heatLoadsList));
+  const newSymbols: SymbolValues = { ...symbols };
 
   for (const param of parameters) {
     const key = paramKey(param);
@@ -166,17 +206,23 @@ export function applyParameterSample<
 
     if (param.entityType === 'node' && NODE_PROPERTIES.has(param.property)) {
       const node = newNodes.find((n) => n.id === param.entityId);
-      if (node) (node as Record<string, unknown>)[param.property] = value;
+      if (node) {
+        setSampledField(node, param.property, value);
+        // Otherwise the node's material or coating would replace the sample
+        addPropertyOverride(node, param.property);
+      }
     } else if (param.entityType === 'conductor' && CONDUCTOR_PROPERTIES.has(param.property)) {
       const cond = newConductors.find((c) => c.id === param.entityId);
-      if (cond) (cond as Record<string, unknown>)[param.property] = value;
+      if (cond) setSampledField(cond, param.property, value);
     } else if (param.entityType === 'heat_load' && HEAT_LOAD_PROPERTIES.has(param.property)) {
       const hl = newHeatLoads.find((h) => h.id === param.entityId);
-      if (hl) (hl as Record<string, unknown>)[param.property] = value;
+      if (hl) setSampledField(hl, param.property, value);
+    } else if (param.entityType === 'symbol' && param.entityId in newSymbols) {
+      newSymbols[param.entityId] = value;
     }
   }
 
-  return { nodes: newNodes, conductors: newConductors, heatLoads: newHeatLoads };
+  return { nodes: newNodes, conductors: newConductors, heatLoads: newHeatLoads, symbols: newSymbols };
 }
 
 // ── Feasibility Check ───────────────────────────────────────────────────────
@@ -205,6 +251,45 @@ export function checkFeasibility(
   return true;
 }
 
+/**
+ * Total amount by which node results break the constraints (K); 0 when feasible.
+ */
+export function constraintViolation(
+  nodeResults: NodeResult[],
+  constraints: ExplorationConstraint[],
+): number {
+  let violation = 0;
+  for (const constraint of constraints) {
+    const nr = nodeResults.find((r) => r.nodeId === constraint.nodeId);
+    if (!nr) continue;
+    if (constraint.tempMax !== undefined) violation += Math.max(nr.maxTemp - constraint.tempMax, 0);
+    if (constraint.tempMin !== undefined) violation += Math.max(constraint.tempMin - nr.minTemp, 0);
+  }
+  return violation;
+}
+
+/**
+ * Smallest distance (K) from any constrained node's temperature range to its
+ * limits; negative when a limit is broken, null without applicable constraints.
+ */
+export function temperatureMargin(
+  nodeResults: NodeResult[],
+  constraints: ExplorationConstraint[],
+): number | null {
+  let margin: number | null = null;
+  for (const constraint of constraints) {
+    const nr = nodeResults.find((r) => r.nodeId === constraint.nodeId);
+    if (!nr) continue;
+    if (constraint.tempMax !== undefined) {
+      margin = Math.min(margin ?? Infinity, constraint.tempMax - nr.maxTemp);
+    }
+    if (constraint.tempMin !== undefined) {
+      margin = Math.min(margin ?? Infinity, nr.minTemp - constraint.tempMin);
+    }
+  }
+  return margin;
+}
+
 /**
  * Extract per-node summary (min/max/mean) from solver time-series results.
  */
@@ -1,4 +1,5 @@
 import type { ThermalNetwork, SolverResult } from './types';
+import { nodeStoredEnergy } from './material-properties';
 
 /**
  * Comprehensive energy balance check for simulation results.
@@ -14,6 +15,7 @@ export interface EnergyBalanceReport {
   totalEnergyStored: number; // J - net energy change in capacitances
   totalExternalHeatInput: number; // J - integrated external heat loads
   totalBoundaryHeatFlow: number; // J - heat exchanged with boundary nodes
+  totalSpaceRadiation: number; // J - radiated to deep space by nodes with a sink
   imbalance: number; // J - absolute imbalance
   relativeError: number; // fraction - |imbalance| / max(|stored|, |input|)
   isBalanced: boolean; // true if relative error < threshold
@@ -35,7 +37,7 @@ export function computeEnergyBalance(
 
     const tInitial = nodeResult.temperatures[0];
     const tFinal = nodeResult.temperatures[nodeResult.temperatures.length - 1];
-    totalEnergyStored += node.capacitance * (tFinal - tInitial);
+    totalEnergyStored += nodeStoredEnergy(node, tInitial, tFinal);
   }
 
   // 2. Estimate total external heat input via trapezoidal integration
@@ -65,6 +67,12 @@ export function computeEnergyBalance(
     }
   }
 
+  // Heater power is piecewise constant between switches — take it from the
+  // switching timelines rather than sampling the output state
+  for (const heater of result.heaterResults ?? []) {
+    totalExternalHeatInput += heater.energy;
+  }
+
   // 3. Compute heat flow through boundary nodes
   let totalBoundaryHeatFlow = 0;
   for (const conductorFlow of result.conductorFlows) {
@@ -95,8 +103,16 @@ export function computeEnergyBalance(
     }
   }
 
-  // 4. Energy balance check
-  const totalInput = totalExternalHeatInput + totalBoundaryHeatFlow;
+  // 4. Radiation to deep space from nodes with a space sink
+  let totalSpaceRadiation = 0;
+  for (const { times, flows } of result.spaceFlows ?? []) {
+    for (let i = 1; i < times.length; i++) {
+      totalSpaceRadiation += (flows[i - 1] + flows[i]) * 0.5 * (times[i] - times[i - 1]);
+    }
+  }
+
+  // 5. Energy balance check
+  const totalInput = totalExternalHeatInput + totalBoundaryHeatFlow - totalSpaceRadiation;
   const imbalance = Math.abs(totalInput - totalEnergyStored);
   const maxMagnitude = Math.max(
     Math.abs(totalEnergyStored),
@@ -109,6 +125,7 @@ export function computeEnergyBalance(
     totalEnergyStored,
     totalExternalHeatInput,
     totalBoundaryHeatFlow,
+    totalSpaceRadiation,
     imbalance,
     relativeError,
     isBalanced: relativeError < threshold,
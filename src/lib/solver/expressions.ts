@@ -0,0 +1,365 @@
+/**
+ * Parametric models — named symbols and field expressions.
+ *
+ * A model carries a symbol table (`panel_thickness = 0.002`) and any numeric
+ * field of a node, conductor or heat load may hold an expression over those
+ * symbols (`2 * heater_power`) instead of a literal. buildThermalNetwork()
+ * evaluates the expressions and the results replace the stored literals, so a
+ * trade study can vary one symbol and every entity that uses it follows.
+ *
+ * Grammar: numbers, symbol names, + - * / ^ (right-associative), unary minus,
+ * parentheses, the constant `pi` and the functions in FUNCTIONS.
+ */
+
+export interface ModelSymbol {
+  name: string;
+  value: number;
+  description?: string;
+}
+
+/** Field name → expression source, as stored on an entity. */
+export type FieldExpressions = Record<string, string>;
+
+/** Symbol name → value. */
+export type SymbolValues = Record<string, number>;
+
+export const NODE_EXPRESSION_FIELDS = [
+  'temperature',
+  'capacitance',
+  'boundaryTemp',
+  'area',
+  'mass',
+  'thickness',
+  'absorptivity',
+  'emissivity',
+  'spaceViewFactor',
+] as const;
+
+export const CONDUCTOR_EXPRESSION_FIELDS = [
+  'conductance',
+  'area',
+  'viewFactor',
+  'emissivity',
+] as const;
+
+/** `maxPower`, `onSetpoint` and `offSetpoint` drive the heater parameters. */
+export const HEAT_LOAD_EXPRESSION_FIELDS = [
+  'value',
+  'maxPower',
+  'onSetpoint',
+  'offSetpoint',
+] as const;
+
+/**
+ * Ranges the entity validators enforce on literal values, applied to the
+ * evaluated expressions too. Fields not listed (a heat load's value) are
+ * unbounded.
+ */
+const FIELD_RANGES: Record<string, { min: number; max?: number; positive?: boolean }> = {
+  temperature: { min: 0, max: 10000 },
+  boundaryTemp: { min: 0, max: 10000 },
+  capacitance: { min: 0, positive: true },
+  area: { min: 0, positive: true },
+  mass: { min: 0, positive: true },
+  thickness: { min: 0, positive: true },
+  absorptivity: { min: 0, max: 1 },
+  emissivity: { min: 0, max: 1 },
+  spaceViewFactor: { min: 0, max: 1 },
+  viewFactor: { min: 0, max: 1 },
+  conductance: { min: 0, positive: true },
+  maxPower: { min: 0, positive: true },
+  onSetpoint: { min: 0, positive: true },
+  offSetpoint: { min: 0, positive: true },
+};
+
+/** Why an evaluated value is outside its field's range, or null. */
+function rangeError(field: string, value: number): string | null {
+  const range = FIELD_RANGES[field];
+  if (!range) return null;
+  if (range.positive && !(value > 0)) return `evaluates to ${value}, which must be positive`;
+  if (value < range.min || (range.max !== undefined && value > range.max)) {
+    return `evaluates to ${value}, outside [${range.min}, ${range.max ?? '∞'}]`;
+  }
+  return null;
+}
+
+export const SYMBOL_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type ExprNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'symbol'; name: string }
+  | { kind: 'negate'; operand: ExprNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExprNode; right: ExprNode }
+  | { kind: 'call'; fn: string; args: ExprNode[] };
+
+const FUNCTIONS: Record<string, { arity: number | 'variadic'; fn: (...args: number[]) => number }> = {
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  abs: { arity: 1, fn: Math.abs },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  pow: { arity: 2, fn: Math.pow },
+  min: { arity: 'variadic', fn: Math.min },
+  max: { arity: 'variadic', fn: Math.max },
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI };
+
+function has(table: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, key);
+}
+
+/** Names a symbol may not take because expressions already give them a meaning. */
+export const RESERVED_NAMES = new Set([...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)]);
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`);
+      tokens.push({ type: 'number', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+    } else if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch, pos: i });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected character "${ch}" at position ${i + 1}`);
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExprNode {
+    if (this.tokens.length === 0) throw new ExpressionError('Expression is empty');
+    const node = this.additive();
+    const rest = this.peek();
+    if (rest) throw new ExpressionError(`Unexpected "${rest.value}" at position ${rest.pos + 1}`);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private acceptOp(...ops: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'op' && ops.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.acceptOp(op)) {
+      const token = this.peek();
+      throw new ExpressionError(
+        token ? `Expected "${op}" at position ${token.pos + 1}` : `Expected "${op}" at end of expression`,
+      );
+    }
+  }
+
+  private additive(): ExprNode {
+    let left = this.multiplicative();
+    let op: string | null;
+    while ((op = this.acceptOp('+', '-'))) {
+      left = { kind: 'binary', op: op as '+' | '-', left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  private multiplicative(): ExprNode {
+    let left = this.unary();
+    let op: string | null;
+    while ((op = this.acceptOp('*', '/'))) {
+      left = { kind: 'binary', op: op as '*' | '/', left, right: this.unary() };
+    }
+    return left;
+  }
+
+  // Unary minus binds looser than ^, so -2^2 = -4
+  private unary(): ExprNode {
+    if (this.acceptOp('-')) return { kind: 'negate', operand: this.unary() };
+    if (this.acceptOp('+')) return this.unary();
+    return this.power();
+  }
+
+  private power(): ExprNode {
+    const base = this.primary();
+    if (this.acceptOp('^')) return { kind: 'binary', op: '^', left: base, right: this.unary() };
+    return base;
+  }
+
+  private primary(): ExprNode {
+    const token = this.peek();
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'ident') {
+      this.index++;
+      if (!this.acceptOp('(')) return { kind: 'symbol', name: token.value };
+
+      const spec = has(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!spec) throw new ExpressionError(`Unknown function "${token.value}"`);
+      const args: ExprNode[] = [];
+      if (!this.acceptOp(')')) {
+        do {
+          args.push(this.additive());
+        } while (this.acceptOp(','));
+        this.expectOp(')');
+      }
+      if (spec.arity === 'variadic' ? args.length === 0 : args.length !== spec.arity) {
+        const expected =
+          spec.arity === 'variadic'
+            ? 'at least 1 argument'
+            : `${spec.arity} argument${spec.arity === 1 ? '' : 's'}`;
+        throw new ExpressionError(`${token.value}() takes ${expected}`);
+      }
+      return { kind: 'call', fn: token.value, args };
+    }
+
+    if (this.acceptOp('(')) {
+      const inner = this.additive();
+      this.expectOp(')');
+      return inner;
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}" at position ${token.pos + 1}`);
+  }
+}
+
+/** Parse an expression; throws ExpressionError on a syntax error. */
+export function parseExpression(source: string): ExprNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/** Symbol names an expression refers to (constants excluded). */
+export function expressionSymbols(source: string): string[] {
+  const names = new Set<string>();
+  const visit = (node: ExprNode): void => {
+    switch (node.kind) {
+      case 'symbol':
+        if (!has(CONSTANTS, node.name)) names.add(node.name);
+        break;
+      case 'negate':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+    }
+  };
+  visit(parseExpression(source));
+  return [...names];
+}
+
+function evaluateNode(node: ExprNode, symbols: SymbolValues): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'symbol':
+      if (has(symbols, node.name)) return symbols[node.name];
+      if (has(CONSTANTS, node.name)) return CONSTANTS[node.name];
+      throw new ExpressionError(`Unknown symbol "${node.name}"`);
+    case 'negate':
+      return -evaluateNode(node.operand, symbols);
+    case 'binary': {
+      const a = evaluateNode(node.left, symbols);
+      const b = evaluateNode(node.right, symbols);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return Math.pow(a, b);
+      }
+      break;
+    }
+    case 'call':
+      return FUNCTIONS[node.fn].fn(...node.args.map((arg) => evaluateNode(arg, symbols)));
+  }
+  throw new ExpressionError('Invalid expression');
+}
+
+/** Evaluate an expression against symbol values; the result must be finite. */
+export function evaluateExpression(source: string, symbols: SymbolValues): number {
+  const value = evaluateNode(parseExpression(source), symbols);
+  if (!Number.isFinite(value)) {
+    throw new ExpressionError(`"${source}" does not evaluate to a finite number`);
+  }
+  return value;
+}
+
+/** Symbol table as a name → value lookup. */
+export function symbolValues(symbols: ModelSymbol[] | null | undefined): SymbolValues {
+  const values: SymbolValues = {};
+  for (const symbol of symbols ?? []) values[symbol.name] = symbol.value;
+  return values;
+}
+
+/**
+ * Evaluate an entity's expressions for the given fields; fields without an
+ * expression are omitted. A value outside the range the field accepts as a
+ * literal (ε > 1, a negative area) is an error. `label` names the entity in
+ * error messages, e.g. `Node "Panel +X"`.
+ */
+export function evaluateFieldExpressions(
+  expressions: FieldExpressions | null | undefined,
+  fields: readonly string[],
+  symbols: SymbolValues,
+  label: string,
+): Record<string, number> {
+  const values: Record<string, number> = {};
+  if (!expressions) return values;
+  for (const field of fields) {
+    const source = expressions[field];
+    if (source === undefined) continue;
+    try {
+      values[field] = evaluateExpression(source, symbols);
+    } catch (err) {
+      if (err instanceof ExpressionError) {
+        throw new ExpressionError(`${label} ${field}: ${err.message}`);
+      }
+      throw err;
+    }
+    const error = rangeError(field, values[field]);
+    if (error) throw new ExpressionError(`${label} ${field}: ${error}`);
+  }
+  return values;
+}
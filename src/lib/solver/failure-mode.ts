@@ -11,6 +11,7 @@ import type {
   SolverHeatLoad,
   OrbitalHeatLoadParams,
 } from './types';
+import type { OpticalDelta } from './optical-life';
 
 export type FailureType =
   | 'heater_failure'
@@ -25,6 +26,20 @@ export interface FailureModeParams {
   heatLoadId?: string;
   degradationFactor?: number;
   absorbanceDelta?: number;
+  /** Mission duration for the coating library's per-year degradation rates */
+  missionYears?: number;
+  /**
+   * Node id → α/ε change at end of life from the coating library; filled in
+   * by the failure analysis job. Surfaces without library data use absorbanceDelta.
+   */
+  surfaceDegradation?: Record<string, OpticalDelta>;
+  /** MLI degradation of one blanket; all of the model's blankets when absent */
+  blanketId?: string;
+  /**
+   * ε* conductors of the blankets to degrade; filled in by the failure
+   * analysis job. Models without blankets fall back to low-ε nodes.
+   */
+  blanketConductorIds?: string[];
   powerScaleFactor?: number;
   conductorId?: string;
   nodeId?: string;
@@ -80,6 +95,9 @@ function applyHeaterFailure(model: ModelData, params: FailureModeParams): ModelD
       if (load.timeValues && load.timeValues.length > 0) {
         load.timeValues = load.timeValues.map((tv) => ({ time: tv.time, value: 0 }));
       }
+      if (load.heaterParams) {
+        load.heaterParams.maxPower = 0;
+      }
     }
   }
   return model;
@@ -88,6 +106,17 @@ function applyHeaterFailure(model: ModelData, params: FailureModeParams): ModelD
 function applyMliDegradation(model: ModelData, params: FailureModeParams): ModelData {
   const factor = params.degradationFactor ?? 5;
 
+  if (params.blanketConductorIds) {
+    // Seams opening up and layers compressing raise the blanket's ε*
+    const ids = new Set(params.blanketConductorIds);
+    for (const conductor of model.conductors) {
+      if (ids.has(conductor.id)) {
+        conductor.emissivity = Math.min(conductor.emissivity * factor, 1);
+      }
+    }
+    return model;
+  }
+
   for (const node of model.nodes) {
     // MLI surfaces typically have very low emissivity (< 0.1)
     if (node.emissivity < 0.1) {
@@ -99,6 +128,7 @@ function applyMliDegradation(model: ModelData, params: FailureModeParams): Model
 
 function applyCoatingDegradation(model: ModelData, params: FailureModeParams): ModelData {
   const delta = params.absorbanceDelta ?? 0.05;
+  const library = params.surfaceDegradation ?? {};
 
   // Find nodes that have orbital heat loads (surface nodes)
   const orbitalNodeIds = new Set(
@@ -107,25 +137,34 @@ function applyCoatingDegradation(model: ModelData, params: FailureModeParams): M
       .map((hl) => hl.nodeId),
   );
 
+  // Library EOL data where the node's coating has it, else the flat delta
+  const nodeDelta = (nodeId: string): OpticalDelta =>
+    library[nodeId] ?? { absorptivity: delta, emissivity: 0 };
+
   for (const node of model.nodes) {
-    if (orbitalNodeIds.has(node.id)) {
-      node.absorptivity = Math.min((node.absorptivity || 0) + delta, 0.99);
+    if (orbitalNodeIds.has(node.id) || library[node.id]) {
+      const d = nodeDelta(node.id);
+      node.absorptivity = clampOptical((node.absorptivity || 0) + d.absorptivity);
+      node.emissivity = clampOptical(node.emissivity + d.emissivity);
     }
   }
 
   // Also update absorptivity in orbital params
   for (const load of model.heatLoads) {
     if (load.loadType === 'orbital' && load.orbitalParams) {
-      load.orbitalParams.absorptivity = Math.min(
-        load.orbitalParams.absorptivity + delta,
-        0.99,
-      );
+      const d = nodeDelta(load.nodeId);
+      load.orbitalParams.absorptivity = clampOptical(load.orbitalParams.absorptivity + d.absorptivity);
+      load.orbitalParams.emissivity = clampOptical(load.orbitalParams.emissivity + d.emissivity);
     }
   }
 
   return model;
 }
 
+function clampOptical(value: number): number {
+  return Math.min(Math.max(value, 0), 0.99);
+}
+
 function applyAttitudeLossTumble(model: ModelData): ModelData {
   for (const load of model.heatLoads) {
     if (load.loadType === 'orbital' && load.orbitalParams) {
@@ -150,6 +189,9 @@ function applyPowerBudgetReduction(model: ModelData, params: FailureModeParams):
         value: Math.max(tv.value * scale, 0),
       }));
     }
+    if (load.loadType === 'heater' && load.heaterParams) {
+      load.heaterParams.maxPower = Math.max(load.heaterParams.maxPower * scale, 0);
+    }
   }
   return model;
 }
@@ -1,5 +1,6 @@
 import {
   STEFAN_BOLTZMANN,
+  SPACE_TEMPERATURE,
   type SolverConductor,
   type SolverHeatLoad,
   type SolverNode,
@@ -8,6 +9,15 @@ import {
   type OrbitalHeatProfile,
 } from './types';
 import { computeHeatPipeFlow, interpolateGeff } from './heat-pipe';
+import { getOrbitAtTime, plateEarthViewFactor } from './orbital-environment';
+import { computeHeaterPower } from './heater';
+import { bodyToECI, computeBodyFrame } from './attitude';
+import {
+  conductorMaterialScale,
+  conductorMaterialScaleAt,
+  emissivityRatio,
+  nodeCapacitance,
+} from './material-properties';
 
 /**
  * Compute linear conduction heat flow from nodeFrom to nodeTo.
@@ -55,17 +65,27 @@ export function computeContactFlow(
 
 /**
  * Compute total heat flow through a conductor given temperatures.
+ * When the network is passed, k(T) and ε(T) of the end nodes' materials
+ * scale linear and radiation couplings.
  */
 export function computeConductorFlow(
   conductor: SolverConductor,
   tFrom: number,
   tTo: number,
+  network?: ThermalNetwork,
 ): number {
+  const nodes = network?.hasMaterialTables ? network.nodes : null;
   switch (conductor.conductorType) {
     case 'linear':
-      return computeLinearConductionFlow(conductor, tFrom, tTo);
+      return (
+        computeLinearConductionFlow(conductor, tFrom, tTo) *
+        (nodes ? conductorMaterialScale(conductor, tFrom, tTo, nodes) : 1)
+      );
     case 'radiation':
-      return computeRadiationFlow(conductor, tFrom, tTo);
+      return (
+        computeRadiationFlow(conductor, tFrom, tTo) *
+        (nodes ? conductorMaterialScale(conductor, tFrom, tTo, nodes) : 1)
+      );
     case 'contact':
       return computeContactFlow(conductor, tFrom, tTo);
     case 'heat_pipe':
@@ -112,15 +132,22 @@ export function interpolateTimeVarying(
 
 /**
  * Compute external heat load on a node at time t.
- * Sums all heat loads applied to the node.
+ * Sums all heat loads applied to the node. `temperature` is the node's
+ * current temperature, used for the ε(T) of its material when absorbing
+ * Earth IR; omitted, the nominal emissivity applies.
  */
 export function computeNodeHeatLoad(
   nodeId: string,
   heatLoads: SolverHeatLoad[],
   t: number,
   network: ThermalNetwork,
+  temperature?: number,
 ): number {
   let totalQ = 0;
+  const irScale =
+    temperature !== undefined && network.hasMaterialTables
+      ? emissivityRatio(network.nodes.get(nodeId), temperature)
+      : 1;
 
   // Use pre-indexed heat loads when available, otherwise fall back to full scan
   const nodeLoads = network.nodeHeatLoads?.get(nodeId) ?? heatLoads.filter(l => l.nodeId === nodeId);
@@ -137,7 +164,11 @@ export function computeNodeHeatLoad(
         break;
 
       case 'orbital':
-        totalQ += computeOrbitalHeatLoad(load, t, network);
+        totalQ += computeOrbitalHeatLoad(load, t, network, irScale);
+        break;
+
+      case 'heater':
+        totalQ += computeHeaterPower(load, network);
         break;
     }
   }
@@ -145,135 +176,186 @@ export function computeNodeHeatLoad(
   return totalQ;
 }
 
-/**
- * Compute the cosine factor between the sun direction (LVLH) and a body-frame surface normal.
- * For nadir_pointing attitude: body +Z = zenith = LVLH -z, so flip z.
- * Returns 0 if the surface faces away from the sun.
- */
-function getSolarCosFactor(
-  sunLVLH: { x: number; y: number; z: number },
-  surfaceNormalBody: { x: number; y: number; z: number },
-): number {
-  // body → LVLH rotation (nadir_pointing: flip z-axis)
-  const nx = surfaceNormalBody.x;
-  const ny = surfaceNormalBody.y;
-  const nz = -surfaceNormalBody.z; // body +Z = zenith = LVLH -z
-  const cos = sunLVLH.x * nx + sunLVLH.y * ny + sunLVLH.z * nz;
-  return Math.max(0, cos);
-}
-
 /**
  * Compute orbital-dependent heat load at time t.
- * Uses the orbital profile from the network to determine solar/albedo/IR flux.
+ * Uses the profile of the orbit containing t to determine solar/albedo/IR flux.
+ * `irScale` is ε(T)/ε_ref of the receiving node's material.
  */
 function computeOrbitalHeatLoad(
   load: SolverHeatLoad,
   t: number,
   network: ThermalNetwork,
+  irScale: number,
 ): number {
-  if (!load.orbitalParams || !network.orbitalProfile || !network.orbitalEnv) {
-    return 0;
-  }
+  if (!load.orbitalParams) return 0;
 
-  const params = load.orbitalParams;
-  const profile = network.orbitalProfile;
-  const period = network.orbitalEnv.orbitalPeriod;
+  // Profile of the orbit containing t — the environment advances with the epoch
+  const orbit = getOrbitAtTime(network, t);
+  if (!orbit) return 0;
 
-  // Map t to position within the orbital period
-  const orbitTime = ((t % period) + period) % period;
+  const params = load.orbitalParams;
+  const emissivity = params.emissivity * irScale;
+  const { profile, orbitTime } = orbit;
 
-  // Find the profile index (interpolate)
   const profileLength = profile.times.length;
   if (profileLength === 0) return 0;
 
-  // Find bracketing indices
+  // Last sample at or before orbitTime (samples may be non-uniform in time);
+  // past the last sample, interpolate toward the first one of the next orbit
   let idx = 0;
-  for (let i = 0; i < profileLength - 1; i++) {
-    if (profile.times[i] <= orbitTime && profile.times[i + 1] > orbitTime) {
-      idx = i;
-      break;
-    }
-    if (i === profileLength - 2) {
-      idx = i;
+  let hi = profileLength - 1;
+  if (orbitTime >= profile.times[hi]) {
+    idx = hi;
+  } else {
+    while (hi - idx > 1) {
+      const mid = Math.floor((idx + hi) / 2);
+      if (profile.times[mid] <= orbitTime) {
+        idx = mid;
+      } else {
+        hi = mid;
+      }
     }
   }
+  const next = idx < profileLength - 1 ? idx + 1 : 0;
+  const nextTime = next > 0 ? profile.times[next] : orbit.env.orbitalPeriod;
 
   // Simple nearest-neighbor for boolean (sunlight)
   const inSunlight = profile.inSunlight[idx];
 
   // Interpolate flux values
   const frac =
-    profileLength > 1 && idx < profileLength - 1
-      ? (orbitTime - profile.times[idx]) /
-        (profile.times[idx + 1] - profile.times[idx])
+    profileLength > 1 && nextTime > profile.times[idx]
+      ? Math.min(1, (orbitTime - profile.times[idx]) / (nextTime - profile.times[idx]))
       : 0;
+  const interpolate = (values: number[]) => values[idx] + frac * (values[next] - values[idx]);
 
-  const solarFlux =
-    profile.solarFlux[idx] +
-    frac *
-      ((idx < profileLength - 1 ? profile.solarFlux[idx + 1] : profile.solarFlux[idx]) -
-        profile.solarFlux[idx]);
-
-  const albedoFlux =
-    profile.albedoFlux[idx] +
-    frac *
-      ((idx < profileLength - 1 ? profile.albedoFlux[idx + 1] : profile.albedoFlux[idx]) -
-        profile.albedoFlux[idx]);
-
-  const earthIRFlux =
-    profile.earthIR[idx] +
-    frac *
-      ((idx < profileLength - 1 ? profile.earthIR[idx + 1] : profile.earthIR[idx]) -
-        profile.earthIR[idx]);
+  const solarFlux = interpolate(profile.solarFlux);
+  const albedoFlux = interpolate(profile.albedoFlux);
+  const earthIRFlux = interpolate(profile.earthIR);
 
   let Q = 0;
 
-  // Compute cos factor for surfaces with a defined normal (attitude-aware)
-  const attitude = network.orbitalConfig?.attitude;
-  const cosFactor =
-    params.surfaceNormal && profile.sunDirectionLVLH?.length && attitude !== 'sun_pointing'
-      ? getSolarCosFactor(profile.sunDirectionLVLH[idx], params.surfaceNormal)
-      : 1.0; // legacy: assume full solar flux
+  // Surfaces with a defined normal, rotated into ECI by the spacecraft
+  // attitude at t: solar flux on n·ŝ, and albedo and Earth IR scaled from the
+  // nadir-facing plate to the plate's own Earth view factor. Every surface
+  // type sees all three sources; surfaceType only matters without a normal.
+  const geometry = profile.geometryECI?.[idx];
+  if (params.surfaceNormal && geometry && network.orbitalConfig) {
+    const frame = computeBodyFrame(network.orbitalConfig, t, geometry);
+    const normal = bodyToECI(frame, params.surfaceNormal);
+    const solarCos = Math.max(
+      0,
+      normal.x * geometry.sun.x + normal.y * geometry.sun.y + normal.z * geometry.sun.z,
+    );
+    const cosNadir = -(
+      normal.x * geometry.position.x +
+      normal.y * geometry.position.y +
+      normal.z * geometry.position.z
+    );
+    const viewFactorRatio =
+      plateEarthViewFactor(Math.acos(Math.min(Math.max(cosNadir, -1), 1)), geometry.radius) /
+      plateEarthViewFactor(0, geometry.radius);
+
+    if (inSunlight) {
+      Q += params.absorptivity * solarFlux * params.area * solarCos;
+      Q += params.absorptivity * albedoFlux * params.area * viewFactorRatio;
+    }
+    Q += emissivity * earthIRFlux * params.area * viewFactorRatio;
+    // Emission to space is the node's sink — see computeSpaceRadiationFlow
+    return Q;
+  }
 
   switch (params.surfaceType) {
     case 'solar':
       // Receives solar and albedo when sunlit, Earth IR always
       if (inSunlight) {
-        Q += params.absorptivity * solarFlux * params.area * cosFactor;
-        Q += params.absorptivity * albedoFlux * params.area * cosFactor;
+        Q += params.absorptivity * solarFlux * params.area;
+        Q += params.absorptivity * albedoFlux * params.area;
       }
-      Q += params.emissivity * earthIRFlux * params.area;
-      // Radiation to space
+      Q += emissivity * earthIRFlux * params.area;
+      // Emission to space is the node's sink — see computeSpaceRadiationFlow
       break;
 
     case 'earth_facing':
       // Receives albedo when sunlit and Earth IR always
       if (inSunlight) {
-        Q += params.absorptivity * albedoFlux * params.area * cosFactor;
+        Q += params.absorptivity * albedoFlux * params.area;
       }
-      Q += params.emissivity * earthIRFlux * params.area;
+      Q += emissivity * earthIRFlux * params.area;
       break;
 
     case 'anti_earth':
       // Receives solar when sunlit, no Earth flux
       if (inSunlight) {
-        Q += params.absorptivity * solarFlux * params.area * cosFactor;
+        Q += params.absorptivity * solarFlux * params.area;
       }
       break;
 
     case 'custom':
       // Apply all fluxes
       if (inSunlight) {
-        Q += params.absorptivity * solarFlux * params.area * cosFactor;
-        Q += params.absorptivity * albedoFlux * params.area * cosFactor;
+        Q += params.absorptivity * solarFlux * params.area;
+        Q += params.absorptivity * albedoFlux * params.area;
       }
-      Q += params.emissivity * earthIRFlux * params.area;
+      Q += emissivity * earthIRFlux * params.area;
       break;
   }
 
   return Q;
 }
 
+/**
+ * σ·ε·A·F of a node's radiation to deep space (W/K⁴), with ε(T) of its
+ * material when tables apply; 0 unless the node radiates to space.
+ */
+export function spaceRadiationCoefficient(
+  node: SolverNode,
+  temperature: number,
+  network: ThermalNetwork,
+): number {
+  if (!node.radiatesToSpace) return 0;
+  return (
+    STEFAN_BOLTZMANN *
+    node.emissivity *
+    node.area *
+    (node.spaceViewFactor ?? 1) *
+    (network.hasMaterialTables ? emissivityRatio(node, temperature) : 1)
+  );
+}
+
+/**
+ * Net radiation from a node to deep space.
+ * Q = σ * ε * A * F * (T⁴ - T_space⁴)
+ * Positive flow = heat leaves the node
+ */
+export function computeSpaceRadiationFlow(
+  node: SolverNode,
+  temperature: number,
+  network: ThermalNetwork,
+): number {
+  const k = spaceRadiationCoefficient(node, temperature, network);
+  if (k === 0) return 0;
+  return k * (Math.pow(temperature, 4) - Math.pow(SPACE_TEMPERATURE, 4));
+}
+
+/**
+ * Radiation to space of every node that has a sink, keyed by node id.
+ */
+export function computeAllSpaceFlows(
+  temperatures: Map<string, number>,
+  network: ThermalNetwork,
+): Map<string, number> {
+  const flows = new Map<string, number>();
+
+  for (const [nodeId, node] of network.nodes) {
+    if (!node.radiatesToSpace) continue;
+    const temperature = temperatures.get(nodeId) ?? node.initialTemperature;
+    flows.set(nodeId, computeSpaceRadiationFlow(node, temperature, network));
+  }
+
+  return flows;
+}
+
 /**
  * Compute the total heat flow into a node from all conductors.
  * Uses pre-built adjacency list for O(degree) instead of O(C).
@@ -295,7 +377,7 @@ export function computeTotalConductorHeatFlow(
     if (tFrom === undefined || tTo === undefined) continue;
 
     // sign is +1 for "to" node (heat flows in), -1 for "from" node (heat flows out)
-    totalQ += sign * computeConductorFlow(conductor, tFrom, tTo);
+    totalQ += sign * computeConductorFlow(conductor, tFrom, tTo, network);
   }
 
   return totalQ;
@@ -303,7 +385,7 @@ export function computeTotalConductorHeatFlow(
 
 /**
  * Compute dT/dt for a diffusion node.
- * C * dT/dt = Σ conductor_flows + Σ external_loads
+ * C(T) * dT/dt = Σ conductor_flows + Σ external_loads - Q_space
  */
 export function computeNodeDerivative(
   nodeId: string,
@@ -315,6 +397,7 @@ export function computeNodeDerivative(
   if (!node || node.nodeType !== 'diffusion') return 0;
   if (node.capacitance <= 0) return 0;
 
+  const temperature = temperatures.get(nodeId)!;
   const conductorHeat = computeTotalConductorHeatFlow(
     nodeId,
     temperatures,
@@ -325,9 +408,12 @@ export function computeNodeDerivative(
     network.heatLoads,
     t,
     network,
+    temperature,
   );
 
-  return (conductorHeat + externalHeat) / node.capacitance;
+  const spaceHeat = computeSpaceRadiationFlow(node, temperature, network);
+
+  return (conductorHeat + externalHeat - spaceHeat) / nodeCapacitance(node, temperature);
 }
 
 /**
@@ -372,7 +458,10 @@ export function solveArithmeticNodes(
             conductor.emissivity *
             conductor.area *
             conductor.viewFactor *
-            Math.pow(tAvg, 3);
+            Math.pow(tAvg, 3) *
+            (network.hasMaterialTables
+              ? conductorMaterialScaleAt(conductor, nodeId, tNode, tOther, network.nodes)
+              : 1);
           sumRadNumerator += radG * tOther;
           sumRadDenominator += radG;
         } else if (conductor.conductorType === 'heat_pipe') {
@@ -384,13 +473,34 @@ export function solveArithmeticNodes(
           sumGT += gEff * tOther;
         } else {
           // Linear or contact
-          sumG += conductor.conductance;
-          sumGT += conductor.conductance * tOther;
+          const tNode = temperatures.get(nodeId) ?? 293;
+          const g =
+            conductor.conductance *
+            (network.hasMaterialTables
+              ? conductorMaterialScaleAt(conductor, nodeId, tNode, tOther, network.nodes)
+              : 1);
+          sumG += g;
+          sumGT += g * tOther;
         }
       }
 
+      // Radiation to deep space, linearized like the radiation conductors
+      const tSelf = temperatures.get(nodeId) ?? 293;
+      const kSpace = spaceRadiationCoefficient(node, tSelf, network);
+      if (kSpace > 0) {
+        const radG = 4 * kSpace * Math.pow((tSelf + SPACE_TEMPERATURE) / 2, 3);
+        sumRadNumerator += radG * SPACE_TEMPERATURE;
+        sumRadDenominator += radG;
+      }
+
       // Add external heat loads
-      const Q = computeNodeHeatLoad(nodeId, network.heatLoads, t, network);
+      const Q = computeNodeHeatLoad(
+        nodeId,
+        network.heatLoads,
+        t,
+        network,
+        temperatures.get(nodeId),
+      );
 
       const totalG = sumG + sumRadDenominator;
       if (totalG === 0) continue;
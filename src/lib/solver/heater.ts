@@ -0,0 +1,167 @@
+/**
+ * Thermostat-controlled heaters — on/off control with hysteresis.
+ *
+ * A heater switches on when its sense node cools to `onSetpoint` and off once
+ * it warms to `offSetpoint`. Transient solvers keep the state in
+ * `network.heaterOutput` (0 or 1), shorten steps so each switch lands on a
+ * step boundary (heaterSwitchFraction) and toggle the state after accepting
+ * the step (updateHeaterStates). The switching timeline then yields the duty
+ * cycle and orbit-average power per heater.
+ */
+
+import type {
+  HeaterResult,
+  HeaterSwitchEvent,
+  SolverHeatLoad,
+  ThermalNetwork,
+} from './types';
+
+/** Switching timeline per heater load id. */
+export type HeaterTimelines = Map<string, HeaterSwitchEvent[]>;
+
+export function getHeaterLoads(network: ThermalNetwork): SolverHeatLoad[] {
+  return network.heatLoads.filter((l) => l.loadType === 'heater' && l.heaterParams);
+}
+
+/** Heater power at its current output (W). */
+export function computeHeaterPower(load: SolverHeatLoad, network: ThermalNetwork): number {
+  if (!load.heaterParams) return 0;
+  return load.heaterParams.maxPower * (network.heaterOutput?.get(load.id) ?? 0);
+}
+
+/**
+ * Set the initial thermostat states: on if the sense node starts at or below
+ * the on setpoint. Returns the timelines, seeded with the initial states.
+ */
+export function initHeaterStates(
+  network: ThermalNetwork,
+  temperatures: Map<string, number>,
+  t: number,
+): HeaterTimelines {
+  const output = new Map<string, number>();
+  const timelines: HeaterTimelines = new Map();
+
+  for (const load of getHeaterLoads(network)) {
+    const params = load.heaterParams!;
+    const on = (temperatures.get(params.senseNodeId) ?? Infinity) <= params.onSetpoint;
+    output.set(load.id, on ? 1 : 0);
+    timelines.set(load.id, [{ time: t, on }]);
+  }
+
+  network.heaterOutput = output;
+  return timelines;
+}
+
+/**
+ * Earliest point within a step, as a fraction of it, at which a heater's
+ * sense temperature crosses the setpoint that would switch it; null if none
+ * does. Linear interpolation between the step's end temperatures.
+ */
+export function heaterSwitchFraction(
+  network: ThermalNetwork,
+  before: Map<string, number>,
+  after: Map<string, number>,
+): number | null {
+  const output = network.heaterOutput;
+  if (!output || output.size === 0) return null;
+
+  let earliest: number | null = null;
+  for (const load of network.heatLoads) {
+    if (!load.heaterParams || !output.has(load.id)) continue;
+    const { senseNodeId, onSetpoint, offSetpoint } = load.heaterParams;
+    const t0 = before.get(senseNodeId);
+    const t1 = after.get(senseNodeId);
+    if (t0 === undefined || t1 === undefined || t0 === t1) continue;
+
+    const setpoint = output.get(load.id)! > 0 ? offSetpoint : onSetpoint;
+    const crosses =
+      output.get(load.id)! > 0
+        ? t0 < setpoint && t1 >= setpoint
+        : t0 > setpoint && t1 <= setpoint;
+    if (!crosses) continue;
+
+    const fraction = (setpoint - t0) / (t1 - t0);
+    if (earliest === null || fraction < earliest) earliest = fraction;
+  }
+  return earliest;
+}
+
+/**
+ * Apply the hysteresis at the end of an accepted step and record switches.
+ * Returns true if any heater switched.
+ */
+export function updateHeaterStates(
+  network: ThermalNetwork,
+  temperatures: Map<string, number>,
+  t: number,
+  timelines: HeaterTimelines,
+): boolean {
+  const output = network.heaterOutput;
+  if (!output || output.size === 0) return false;
+
+  let switched = false;
+  for (const load of network.heatLoads) {
+    if (!load.heaterParams || !output.has(load.id)) continue;
+    const { senseNodeId, onSetpoint, offSetpoint } = load.heaterParams;
+    const tSense = temperatures.get(senseNodeId);
+    if (tSense === undefined) continue;
+
+    const on = output.get(load.id)! > 0;
+    const next = on ? tSense < offSetpoint : tSense <= onSetpoint;
+    if (next !== on) {
+      output.set(load.id, next ? 1 : 0);
+      timelines.get(load.id)?.push({ time: t, on: next });
+      switched = true;
+    }
+  }
+  return switched;
+}
+
+/** Duty cycle, average and per-orbit power from the switching timelines. */
+export function summarizeHeaters(
+  network: ThermalNetwork,
+  timelines: HeaterTimelines,
+  timeStart: number,
+  timeEnd: number,
+): HeaterResult[] {
+  const duration = timeEnd - timeStart;
+  const period = network.orbitalEnv?.orbitalPeriod ?? 0;
+
+  return getHeaterLoads(network).map((load) => {
+    const params = load.heaterParams!;
+    const timeline = timelines.get(load.id) ?? [];
+
+    // On-intervals from consecutive timeline entries
+    const onIntervals: Array<[number, number]> = [];
+    for (let i = 0; i < timeline.length; i++) {
+      if (!timeline[i].on) continue;
+      const end = i + 1 < timeline.length ? timeline[i + 1].time : timeEnd;
+      onIntervals.push([timeline[i].time, end]);
+    }
+    const onTimeBetween = (a: number, b: number) =>
+      onIntervals.reduce(
+        (sum, [s, e]) => sum + Math.max(0, Math.min(e, b) - Math.max(s, a)),
+        0,
+      );
+
+    const onTime = onTimeBetween(timeStart, timeEnd);
+    const orbitAveragePower: number[] = [];
+    if (period > 0) {
+      for (let a = timeStart; a < timeEnd - 1e-9; a += period) {
+        const b = Math.min(a + period, timeEnd);
+        orbitAveragePower.push((params.maxPower * onTimeBetween(a, b)) / (b - a));
+      }
+    }
+
+    return {
+      heatLoadId: load.id,
+      nodeId: load.nodeId,
+      senseNodeId: params.senseNodeId,
+      timeline,
+      dutyCycle: duration > 0 ? onTime / duration : 0,
+      averagePower: duration > 0 ? (params.maxPower * onTime) / duration : 0,
+      orbitAveragePower,
+      energy: params.maxPower * onTime,
+    };
+  });
+}
@@ -1,97 +1,29 @@
 import type {
   ThermalNetwork,
   SimulationConfig,
+  SolverHooks,
   SolverResult,
   NodeResult,
   ConductorFlowResult,
-  SolverConductor,
+  SpaceFlowResult,
 } from './types';
-import { STEFAN_BOLTZMANN } from './types';
 import {
   computeTotalConductorHeatFlow,
+  computeSpaceRadiationFlow,
+  computeAllSpaceFlows,
   computeNodeHeatLoad,
   solveArithmeticNodes,
   computeConductorFlow,
   interpolateTimeVarying,
 } from './heat-flow';
-import { interpolateGeff } from './heat-pipe';
-
-/**
- * Compute the diagonal Jacobian entry dF_i/dT_i for node i.
- *
- * F_i(T) = C_i * (T_i - T_n_i) / dt - Q_net_i(T)
- * dF_i/dT_i = C_i / dt - dQ_net_i/dT_i
- *
- * dQ_net_i/dT_i is the sum of partial derivatives from all conductors
- * connected to node i, with respect to T_i.
- */
-function computeDiagonalJacobian(
-  nodeId: string,
-  temperatures: Map<string, number>,
-  network: ThermalNetwork,
-  capacitance: number,
-  dt: number,
-): number {
-  let dQdT = 0;
-  const tNode = temperatures.get(nodeId)!;
-
-  for (const conductor of network.conductors) {
-    const isFrom = conductor.nodeFromId === nodeId;
-    const isTo = conductor.nodeToId === nodeId;
-    if (!isFrom && !isTo) continue;
-
-    const otherNodeId = isFrom ? conductor.nodeToId : conductor.nodeFromId;
-    const tOther = temperatures.get(otherNodeId);
-    if (tOther === undefined) continue;
-
-    // Sign convention: if nodeId is "from", heat flows OUT (negative contribution to Q_net)
-    // computeTotalConductorHeatFlow subtracts flow when node is "from", adds when "to"
-    // So dQ_net/dT_i has a sign that depends on direction.
-
-    let dFlow_dTi: number;
-
-    switch (conductor.conductorType) {
-      case 'linear':
-      case 'contact':
-        // Q = G * (T_from - T_to)
-        // If nodeId is from: dQ/dT_from = G, but Q_net subtracts → dQ_net/dT_i = -G
-        // If nodeId is to: dQ/dT_to = -G, but Q_net adds → dQ_net/dT_i = -G
-        dFlow_dTi = -conductor.conductance;
-        break;
-
-      case 'radiation':
-        // Q = σεAF(T_from⁴ - T_to⁴)
-        // dQ/dT_from = 4σεAF * T_from³
-        // If nodeId is from: Q_net subtracts → dQ_net/dT_i = -4σεAF * T_i³
-        // If nodeId is to: dQ/dT_to = -4σεAF * T_to³, Q_net adds → dQ_net/dT_i = -4σεAF * T_i³
-        dFlow_dTi =
-          -4 *
-          STEFAN_BOLTZMANN *
-          conductor.emissivity *
-          conductor.area *
-          conductor.viewFactor *
-          Math.pow(tNode, 3);
-        break;
-
-      case 'heat_pipe': {
-        // Q = G_eff(T_avg) * (T_from - T_to)
-        // Frozen Jacobian: treat G_eff as constant at current T_avg
-        const tAvg = (tNode + tOther) / 2;
-        const gEff = interpolateGeff(
-          conductor.conductanceData?.points ?? null,
-          tAvg,
-        );
-        dFlow_dTi = -gEff;
-        break;
-      }
-    }
-
-    dQdT += dFlow_dTi;
-  }
-
-  // J_ii = C_i / dt - dQ_net_i/dT_i
-  return capacitance / dt - dQdT;
-}
+import { createNetworkJacobian, fillNetworkJacobian, solveSparse } from './sparse';
+import { nodeCapacitance, nodeStoredEnergy } from './material-properties';
+import {
+  initHeaterStates,
+  heaterSwitchFraction,
+  updateHeaterStates,
+  summarizeHeaters,
+} from './heater';
 
 /**
  * Compute all conductor flows at given temperatures.
@@ -104,7 +36,7 @@ function computeAllConductorFlows(
   for (const conductor of network.conductors) {
     const tFrom = temperatures.get(conductor.nodeFromId) ?? 0;
     const tTo = temperatures.get(conductor.nodeToId) ?? 0;
-    flows.set(conductor.id, computeConductorFlow(conductor, tFrom, tTo));
+    flows.set(conductor.id, computeConductorFlow(conductor, tFrom, tTo, network));
   }
   return flows;
 }
@@ -112,17 +44,22 @@ function computeAllConductorFlows(
 /**
  * Implicit Euler (Backward Euler) transient solver.
  *
- * Solves C * (T_{n+1} - T_n) / dt = Q_net(T_{n+1}) using Newton-Raphson
- * with a diagonal Jacobian approximation at each timestep.
+ * Solves (H(T_{n+1}) - H(T_n)) / dt = Q_net(T_{n+1}) using Newton-Raphson
+ * at each timestep, where H is the node's stored energy ∫C(T)dT (C × ΔT for
+ * constant capacitance). The Newton system (C/dt - ∂Q/∂T) * ΔT = -F is sparse
+ * and solved with ILU(0)-preconditioned BiCGSTAB (see sparse.ts).
  *
  * Adaptive timestep based on Newton iteration count:
  * - ≤3 iterations → double dt next step
  * - 7-10 iterations → halve dt next step
  * - >10 iterations (no convergence) → halve dt, retry
+ *
+ * Steps in which a thermostat would switch are shortened to end at the switch.
  */
 export function solveImplicitEuler(
   network: ThermalNetwork,
   config: SimulationConfig,
+  hooks: SolverHooks = {},
 ): SolverResult {
   const { timeStart, timeEnd, timeStep, tolerance, minStep, maxStep } = config;
 
@@ -161,6 +98,25 @@ export function solveImplicitEuler(
     conductorFlowsMap.get(cid)?.flows.push(flow);
   }
 
+  // Radiation to space, per node with a sink
+  const spaceFlowsMap = new Map<string, { times: number[]; flows: number[] }>();
+  for (const [nodeId, flow] of computeAllSpaceFlows(temperatures, network)) {
+    spaceFlowsMap.set(nodeId, { times: [timeStart], flows: [flow] });
+  }
+
+  // Newton unknowns: diffusion nodes with thermal mass. Arithmetic nodes are
+  // solved separately at each iterate.
+  const solveNodeIds = network.diffusionNodeIds.filter(
+    (id) => network.nodes.get(id)!.capacitance > 0,
+  );
+  const solveNodes = solveNodeIds.map((id) => network.nodes.get(id)!);
+  const jacobian = createNetworkJacobian(network, solveNodeIds);
+  const residual = new Float64Array(solveNodeIds.length);
+  const shift = new Float64Array(solveNodeIds.length);
+
+  solveArithmeticNodes(temperatures, timeStart, network);
+  const heaterTimelines = initHeaterStates(network, temperatures, timeStart);
+
   const timePoints = [timeStart];
   let t = timeStart;
   let dt = Math.min(timeStep, maxStep);
@@ -178,10 +134,7 @@ export function solveImplicitEuler(
     solveArithmeticNodes(temperatures, t, network);
 
     // Save T_n for this timestep
-    const tN = new Map<string, number>();
-    for (const nodeId of network.diffusionNodeIds) {
-      tN.set(nodeId, temperatures.get(nodeId)!);
-    }
+    const tN = new Map<string, number>(temperatures);
 
     // Newton-Raphson iteration
     // Initial guess: T = T_n (current temperatures already set)
@@ -192,16 +145,10 @@ export function solveImplicitEuler(
       // Solve arithmetic nodes at trial temperature
       solveArithmeticNodes(temperatures, t + dt, network);
 
-      let maxDeltaT = 0;
-
-      for (const nodeId of network.diffusionNodeIds) {
-        const node = network.nodes.get(nodeId)!;
-        if (node.capacitance <= 0) continue;
-
-        const tCurrent = temperatures.get(nodeId)!;
-        const tPrev = tN.get(nodeId)!;
-
-        // F_i = C_i * (T_i - T_n_i) / dt - Q_net_i(T)
+      // F_i = (H_i(T_i) - H_i(T_n_i)) / dt - Q_net_i(T)
+      for (let i = 0; i < solveNodeIds.length; i++) {
+        const nodeId = solveNodeIds[i];
+        const temperature = temperatures.get(nodeId)!;
         const conductorHeat = computeTotalConductorHeatFlow(
           nodeId,
           temperatures,
@@ -212,26 +159,26 @@ export function solveImplicitEuler(
           network.heatLoads,
           t + dt,
           network,
+          temperature,
         );
-        const qNet = conductorHeat + externalHeat;
+        const spaceHeat = computeSpaceRadiationFlow(solveNodes[i], temperature, network);
+        const qNet = conductorHeat + externalHeat - spaceHeat;
 
-        const F = (node.capacitance * (tCurrent - tPrev)) / dt - qNet;
-
-        // J_ii
-        const J = computeDiagonalJacobian(
-          nodeId,
-          temperatures,
-          network,
-          node.capacitance,
-          dt,
-        );
+        residual[i] =
+          -(nodeStoredEnergy(solveNodes[i], tN.get(nodeId)!, temperature) / dt - qNet);
+        shift[i] = nodeCapacitance(solveNodes[i], temperature) / dt;
+      }
 
-        // Safeguard against zero Jacobian
-        if (Math.abs(J) < 1e-30) continue;
+      // J = C(T)/dt - ∂Q/∂T; solve J * ΔT = -F
+      fillNetworkJacobian(jacobian, temperatures, shift);
+      const linear = solveSparse(jacobian.matrix, residual);
+      if (!linear.converged) break; // treated as Newton failure → smaller dt
 
-        // ΔT = -F / J
-        const deltaT = -F / J;
-        temperatures.set(nodeId, tCurrent + deltaT);
+      let maxDeltaT = 0;
+      for (let i = 0; i < solveNodeIds.length; i++) {
+        const nodeId = solveNodeIds[i];
+        const deltaT = linear.x[i];
+        temperatures.set(nodeId, temperatures.get(nodeId)! + deltaT);
 
         if (Math.abs(deltaT) > maxDeltaT) {
           maxDeltaT = Math.abs(deltaT);
@@ -245,9 +192,17 @@ export function solveImplicitEuler(
       }
     }
 
-    if (!converged) {
-      // Newton didn't converge — halve dt and retry
-      dt = Math.max(dt / 2, minStep);
+    // A thermostat switches inside this step — retry ending at the switch
+    const switchFraction = converged
+      ? heaterSwitchFraction(network, tN, temperatures)
+      : null;
+    const endAtSwitch = switchFraction !== null && (1 - switchFraction) * dt > minStep;
+
+    if (!converged || endAtSwitch) {
+      // Retry from T_n: halved dt if Newton didn't converge
+      dt = endAtSwitch
+        ? Math.max(switchFraction! * dt, minStep)
+        : Math.max(dt / 2, minStep);
       // Reset temperatures to T_n
       for (const nodeId of network.diffusionNodeIds) {
         temperatures.set(nodeId, tN.get(nodeId)!);
@@ -266,6 +221,7 @@ export function solveImplicitEuler(
     // Advance time
     t += dt;
     solveArithmeticNodes(temperatures, t, network);
+    updateHeaterStates(network, temperatures, t, heaterTimelines);
 
     // Record results
     timePoints.push(t);
@@ -280,8 +236,16 @@ export function solveImplicitEuler(
     // Record conductor flows
     const flows = computeAllConductorFlows(temperatures, network);
     for (const [cid, flow] of flows) {
-      conductorFlowsMap.get(cid)?.flows.push(flow);
+      const entry = conductorFlowsMap.get(cid);
+      entry?.times.push(t);
+      entry?.flows.push(flow);
+    }
+    for (const [nodeId, flow] of computeAllSpaceFlows(temperatures, network)) {
+      const entry = spaceFlowsMap.get(nodeId)!;
+      entry.times.push(t);
+      entry.flows.push(flow);
     }
+    hooks.onProgress?.((t - timeStart) / (timeEnd - timeStart));
 
     // Adaptive timestep based on Newton iteration count
     if (newtonIter <= 3) {
@@ -292,6 +256,8 @@ export function solveImplicitEuler(
     // Otherwise keep dt unchanged
   }
 
+  const heaterResults = summarizeHeaters(network, heaterTimelines, timeStart, t);
+
   // Compute energy balance (same approach as RK4)
   let totalEnergyStored = 0;
   let totalEnergyIn = 0;
@@ -300,8 +266,7 @@ export function solveImplicitEuler(
     const node = network.nodes.get(nodeId);
     if (node) {
       const tFinal = temperatures.get(nodeId) ?? node.initialTemperature;
-      totalEnergyStored +=
-        node.capacitance * (tFinal - node.initialTemperature);
+      totalEnergyStored += nodeStoredEnergy(node, node.initialTemperature, tFinal);
     }
   }
 
@@ -320,6 +285,15 @@ export function solveImplicitEuler(
       }
     }
   }
+  for (const heater of heaterResults) {
+    totalEnergyIn += heater.energy;
+  }
+  // Radiation to space leaves the system
+  for (const { times, flows } of spaceFlowsMap.values()) {
+    for (let i = 1; i < times.length; i++) {
+      totalEnergyIn -= (flows[i - 1] + flows[i]) * 0.5 * (times[i] - times[i - 1]);
+    }
+  }
 
   const energyBalanceError =
     totalEnergyStored !== 0
@@ -341,11 +315,18 @@ export function solveImplicitEuler(
     conductorFlows.push({ conductorId, times: data.times, flows: data.flows });
   }
 
+  const spaceFlows: SpaceFlowResult[] = [];
+  for (const [nodeId, data] of spaceFlowsMap) {
+    spaceFlows.push({ nodeId, times: data.times, flows: data.flows });
+  }
+
   return {
     nodeResults,
     conductorFlows,
     timePoints,
     energyBalanceError,
     converged: true,
+    heaterResults,
+    spaceFlows,
   };
 }
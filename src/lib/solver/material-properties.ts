@@ -0,0 +1,146 @@
+/**
+ * Temperature-dependent material properties — k(T), cp(T) and ε(T).
+ *
+ * Tables on a node's material scale the node's nominal values by
+ * property(T) / reference (see SolverMaterial). Nodes without a material, or
+ * whose material has no tables, keep their constant properties.
+ */
+
+import type { PropertyPoint, SolverConductor, SolverNode } from './types';
+
+/**
+ * Piecewise linear interpolation of a property table.
+ * Clamps to the end values outside the tabulated range.
+ */
+export function interpolateProperty(points: PropertyPoint[], temperature: number): number {
+  if (points.length === 1 || temperature <= points[0].temperature) {
+    return points[0].value;
+  }
+  const last = points[points.length - 1];
+  if (temperature >= last.temperature) {
+    return last.value;
+  }
+
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (points[mid].temperature <= temperature) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  const frac =
+    (temperature - points[lo].temperature) /
+    (points[hi].temperature - points[lo].temperature);
+  return points[lo].value + frac * (points[hi].value - points[lo].value);
+}
+
+/** property(T) / reference, or 1 when there is no usable table. */
+function propertyRatio(
+  points: PropertyPoint[] | null,
+  reference: number,
+  temperature: number,
+): number {
+  if (!points || points.length === 0 || reference <= 0) return 1;
+  return interpolateProperty(points, temperature) / reference;
+}
+
+/** k(T) / k_ref for the node's material. */
+export function conductivityRatio(node: SolverNode | undefined, temperature: number): number {
+  const material = node?.material;
+  if (!material) return 1;
+  return propertyRatio(material.conductivityTable, material.conductivity, temperature);
+}
+
+/** ε(T) / ε_ref for the node's material. */
+export function emissivityRatio(node: SolverNode | undefined, temperature: number): number {
+  const material = node?.material;
+  if (!material) return 1;
+  return propertyRatio(material.emissivityTable, material.emissivity, temperature);
+}
+
+/** Thermal capacitance C(T) = C × cp(T) / cp_ref (J/K). */
+export function nodeCapacitance(node: SolverNode, temperature: number): number {
+  const material = node.material;
+  if (!material) return node.capacitance;
+  return (
+    node.capacitance *
+    propertyRatio(material.specificHeatTable, material.specificHeat, temperature)
+  );
+}
+
+/**
+ * Energy stored between two temperatures, ∫ C(T) dT (J).
+ * Exact for the piecewise linear cp(T): trapezoids between table breakpoints.
+ */
+export function nodeStoredEnergy(node: SolverNode, tFrom: number, tTo: number): number {
+  const table = node.material?.specificHeatTable;
+  if (!table || table.length < 2) {
+    return nodeCapacitance(node, tFrom) * (tTo - tFrom);
+  }
+
+  const lo = Math.min(tFrom, tTo);
+  const hi = Math.max(tFrom, tTo);
+  const breaks = [lo];
+  for (const p of table) {
+    if (p.temperature > lo && p.temperature < hi) breaks.push(p.temperature);
+  }
+  breaks.push(hi);
+
+  let energy = 0;
+  for (let i = 1; i < breaks.length; i++) {
+    energy +=
+      0.5 *
+      (nodeCapacitance(node, breaks[i - 1]) + nodeCapacitance(node, breaks[i])) *
+      (breaks[i] - breaks[i - 1]);
+  }
+  return tTo >= tFrom ? energy : -energy;
+}
+
+/**
+ * Factor applied to a conductor's nominal coupling at the current
+ * temperatures of its end nodes.
+ *
+ *  - linear: the conductor is two half-resistances in series, one per end,
+ *    each scaled by that node's k(T): G_eff = G × 2·r₁·r₂ / (r₁ + r₂)
+ *  - radiation: the effective emissivity scales with each surface's ε(T)
+ *  - contact and heat pipe couplings are not material properties → 1
+ */
+export function conductorMaterialScale(
+  conductor: SolverConductor,
+  tFrom: number,
+  tTo: number,
+  nodes: Map<string, SolverNode>,
+): number {
+  switch (conductor.conductorType) {
+    case 'linear': {
+      const rFrom = conductivityRatio(nodes.get(conductor.nodeFromId), tFrom);
+      const rTo = conductivityRatio(nodes.get(conductor.nodeToId), tTo);
+      if (rFrom === 1 && rTo === 1) return 1;
+      return rFrom + rTo > 0 ? (2 * rFrom * rTo) / (rFrom + rTo) : 0;
+    }
+    case 'radiation':
+      return (
+        emissivityRatio(nodes.get(conductor.nodeFromId), tFrom) *
+        emissivityRatio(nodes.get(conductor.nodeToId), tTo)
+      );
+    default:
+      return 1;
+  }
+}
+
+/** conductorMaterialScale() seen from one end of the conductor. */
+export function conductorMaterialScaleAt(
+  conductor: SolverConductor,
+  nodeId: string,
+  tNode: number,
+  tOther: number,
+  nodes: Map<string, SolverNode>,
+): number {
+  return conductor.nodeFromId === nodeId
+    ? conductorMaterialScale(conductor, tNode, tOther, nodes)
+    : conductorMaterialScale(conductor, tOther, tNode, nodes);
+}
@@ -0,0 +1,100 @@
+/**
+ * Multi-layer insulation blankets.
+ *
+ * A blanket over a node's exposed surface is modelled as an outer-layer node
+ * (the cover) coupled to the covered node by a radiation conductor carrying
+ * the blanket's effective emittance: Q = σ·ε*·A·(T_node⁴ − T_outer⁴). The
+ * outer layer sees the environment with the cover's α/ε. Seams and
+ * penetrations raise the heat leak by a fraction of ε*.
+ */
+
+/** ε of a vapour-deposited aluminium layer, for the ideal-blanket bound. */
+export const MLI_LAYER_EMISSIVITY = 0.03;
+
+export interface MliBlanketParams {
+  layerCount: number;
+  effectiveEmittance: number;
+  outerAbsorptivity: number;
+  outerEmissivity: number;
+  area: number;
+  seamDegradation?: number | null;
+}
+
+/**
+ * ε* of an ideal blanket — N floating shields of emissivity ε with no
+ * conduction between layers: 1 / ((N + 1)·(2/ε − 1)). Real blankets leak
+ * more, so an ε* below this is not physical.
+ */
+export function idealEffectiveEmittance(
+  layerCount: number,
+  layerEmissivity: number = MLI_LAYER_EMISSIVITY,
+): number {
+  return 1 / ((layerCount + 1) * (2 / layerEmissivity - 1));
+}
+
+/** ε* including the seam and penetration degradation. */
+export function blanketEmittance(blanket: MliBlanketParams): number {
+  return Math.min(blanket.effectiveEmittance * (1 + (blanket.seamDegradation ?? 0)), 1);
+}
+
+/** Radiation conductor values between the covered node and the outer layer. */
+export function blanketConductorValues(blanket: MliBlanketParams) {
+  return {
+    conductorType: 'radiation' as const,
+    area: blanket.area,
+    viewFactor: 1,
+    emissivity: blanketEmittance(blanket),
+  };
+}
+
+/** Outer-layer node values; the cover has no capacitance of its own. */
+export function blanketOuterNodeValues(blanket: MliBlanketParams) {
+  return {
+    nodeType: 'arithmetic' as const,
+    area: blanket.area,
+    absorptivity: blanket.outerAbsorptivity,
+    emissivity: blanket.outerEmissivity,
+    propertyOverrides: ['absorptivity', 'emissivity'] as Array<'absorptivity' | 'emissivity'>,
+  };
+}
+
+/** An orbital load's parameters as seen by the blanket's outer layer. */
+export function blanketOrbitalParams<T extends { absorptivity: number; emissivity: number; area: number }>(
+  blanket: MliBlanketParams,
+  params: T,
+): T {
+  return {
+    ...params,
+    absorptivity: blanket.outerAbsorptivity,
+    emissivity: blanket.outerEmissivity,
+    area: blanket.area,
+  };
+}
+
+/** Reason the blanket parameters are not physical, or null. */
+export function blanketParamsError(
+  blanket: Pick<MliBlanketParams, 'layerCount' | 'effectiveEmittance'>,
+): string | null {
+  const ideal = idealEffectiveEmittance(blanket.layerCount);
+  if (blanket.effectiveEmittance < ideal) {
+    return `effectiveEmittance is below the ideal ${blanket.layerCount}-layer limit of ${ideal.toPrecision(3)}`;
+  }
+  return null;
+}
+
+/** Ids of the conductors coupling each blanket's covered node to its outer layer. */
+export function blanketConductorIds(
+  blankets: Array<{ nodeId: string; outerNodeId: string | null }>,
+  conductors: Array<{ id: string; conductorType: string; nodeFromId: string; nodeToId: string }>,
+): string[] {
+  const pairs = new Set(
+    blankets.filter((b) => b.outerNodeId).map((b) => `${b.nodeId}:${b.outerNodeId}`),
+  );
+  return conductors
+    .filter(
+      (c) =>
+        c.conductorType === 'radiation' &&
+        (pairs.has(`${c.nodeFromId}:${c.nodeToId}`) || pairs.has(`${c.nodeToId}:${c.nodeFromId}`)),
+    )
+    .map((c) => c.id);
+}
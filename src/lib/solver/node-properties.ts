@@ -0,0 +1,131 @@
+/**
+ * Material-derived node properties.
+ *
+ * A node with a material takes its capacitance from the material's specific
+ * heat — C = m·cp, or C = ρ·(A·t)·cp when only the area and thickness are
+ * known — and its α/ε from its surface coating, falling back to the
+ * material. A field listed in the node's `propertyOverrides` keeps the value
+ * typed on the node instead. Shared by buildThermalNetwork(), the node and
+ * material API routes and the editor, so all three agree on the values.
+ */
+
+export const DERIVED_NODE_FIELDS = ['capacitance', 'absorptivity', 'emissivity'] as const;
+
+export type DerivedNodeField = (typeof DERIVED_NODE_FIELDS)[number];
+
+/**
+ * The material properties a node derives from. `absorptivity` and `density`
+ * are optional so solver-level materials (which carry neither) can be passed.
+ */
+export interface NodePropertyMaterial {
+  specificHeat: number;
+  emissivity: number;
+  absorptivity?: number;
+  density?: number;
+}
+
+export interface NodePropertyInputs {
+  area?: number | null;
+  mass?: number | null;
+  thickness?: number | null;
+  propertyOverrides?: readonly DerivedNodeField[] | null;
+}
+
+export type DerivedNodeProperties = Partial<Record<DerivedNodeField, number>>;
+
+/** Where a derived field's value comes from, for labelling it in the UI. */
+export type NodePropertySource = 'mass' | 'volume' | 'material' | 'coating';
+
+function positive(value: number | null | undefined): value is number {
+  return value != null && Number.isFinite(value) && value > 0;
+}
+
+/** C from the material, or null when the node lacks the mass or the area and thickness. */
+export function materialCapacitance(
+  node: NodePropertyInputs,
+  material: NodePropertyMaterial,
+): { value: number; source: 'mass' | 'volume' } | null {
+  if (positive(node.mass)) {
+    return { value: node.mass * material.specificHeat, source: 'mass' };
+  }
+  if (positive(node.area) && positive(node.thickness) && material.density != null) {
+    return {
+      value: node.area * node.thickness * material.density * material.specificHeat,
+      source: 'volume',
+    };
+  }
+  return null;
+}
+
+/**
+ * Source of each field the material or coating can supply. Overridden
+ * fields, and fields neither can supply, are absent.
+ */
+export function derivedNodePropertySources(
+  node: NodePropertyInputs,
+  material: NodePropertyMaterial | null | undefined,
+  coating: NodePropertyMaterial | null | undefined,
+): Partial<Record<DerivedNodeField, NodePropertySource>> {
+  const overrides = new Set(node.propertyOverrides ?? []);
+  const sources: Partial<Record<DerivedNodeField, NodePropertySource>> = {};
+
+  if (material && !overrides.has('capacitance')) {
+    const capacitance = materialCapacitance(node, material);
+    if (capacitance) sources.capacitance = capacitance.source;
+  }
+  if (!overrides.has('absorptivity')) {
+    if (coating?.absorptivity != null) sources.absorptivity = 'coating';
+    else if (material?.absorptivity != null) sources.absorptivity = 'material';
+  }
+  if (!overrides.has('emissivity')) {
+    if (coating) sources.emissivity = 'coating';
+    else if (material) sources.emissivity = 'material';
+  }
+  return sources;
+}
+
+/** Values of the fields the node derives; overridden or underivable fields are absent. */
+export function deriveNodeProperties(
+  node: NodePropertyInputs,
+  material: NodePropertyMaterial | null | undefined,
+  coating: NodePropertyMaterial | null | undefined,
+): DerivedNodeProperties {
+  const sources = derivedNodePropertySources(node, material, coating);
+  const derived: DerivedNodeProperties = {};
+
+  if (sources.capacitance && material) {
+    derived.capacitance = materialCapacitance(node, material)!.value;
+  }
+  if (sources.absorptivity) {
+    derived.absorptivity = (sources.absorptivity === 'coating' ? coating : material)!.absorptivity;
+  }
+  if (sources.emissivity) {
+    derived.emissivity = (sources.emissivity === 'coating' ? coating : material)!.emissivity;
+  }
+  return derived;
+}
+
+/** The node with its derived fields written over the stored values. */
+export function applyDerivedNodeProperties<T extends NodePropertyInputs>(
+  node: T,
+  material: NodePropertyMaterial | null | undefined,
+  coating: NodePropertyMaterial | null | undefined,
+): T {
+  return { ...node, ...deriveNodeProperties(node, material, coating) };
+}
+
+/**
+ * Mark a field as typed on the node after writing a value to it, so the
+ * material or coating no longer replaces it. Nodes without `propertyOverrides`
+ * derive nothing and are left alone.
+ */
+export function addPropertyOverride(
+  node: { propertyOverrides?: readonly DerivedNodeField[] | null },
+  field: string,
+): void {
+  const overrides = node.propertyOverrides;
+  if (!overrides || !DERIVED_NODE_FIELDS.includes(field as DerivedNodeField)) return;
+  if (!overrides.includes(field as DerivedNodeField)) {
+    node.propertyOverrides = [...overrides, field as DerivedNodeField];
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Beginning- and end-of-life coating optics.
+ *
+ * A material's α/ε scalars are its beginning-of-life (BOL) values. For an
+ * end-of-life (EOL) run they are replaced by the per-year degradation rates
+ * times the mission duration when both are known, otherwise by the
+ * tabulated EOL values; a material with neither keeps its BOL optics.
+ */
+
+export type OpticalLifeStage = 'bol' | 'eol';
+
+export interface OpticalLife {
+  stage: OpticalLifeStage;
+  /** Mission duration for the per-year rates; without it EOL uses the EOL values */
+  years?: number | null;
+}
+
+export interface OpticalLifeMaterial {
+  absorptivity: number;
+  emissivity: number;
+  absorptivityEol?: number | null;
+  emissivityEol?: number | null;
+  absorptivityPerYear?: number | null;
+  emissivityPerYear?: number | null;
+}
+
+function clampUnit(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+function opticalValue(
+  bol: number,
+  eol: number | null | undefined,
+  perYear: number | null | undefined,
+  life: OpticalLife,
+): number {
+  if (life.stage === 'bol') return bol;
+  if (life.years != null && perYear != null) return clampUnit(bol + perYear * life.years);
+  return eol ?? bol;
+}
+
+/** α and ε of the material at the given point in its life. */
+export function opticalPropertiesAt(
+  material: OpticalLifeMaterial,
+  life: OpticalLife,
+): { absorptivity: number; emissivity: number } {
+  return {
+    absorptivity: opticalValue(
+      material.absorptivity,
+      material.absorptivityEol,
+      material.absorptivityPerYear,
+      life,
+    ),
+    emissivity: opticalValue(
+      material.emissivity,
+      material.emissivityEol,
+      material.emissivityPerYear,
+      life,
+    ),
+  };
+}
+
+/** Whether the material has any data that makes its EOL optics differ from BOL. */
+export function hasDegradationData(material: OpticalLifeMaterial): boolean {
+  return (
+    material.absorptivityEol != null ||
+    material.emissivityEol != null ||
+    material.absorptivityPerYear != null ||
+    material.emissivityPerYear != null
+  );
+}
+
+/** The material with its α/ε scalars at the given point in its life. */
+export function materialAtLife<T extends OpticalLifeMaterial>(material: T, life: OpticalLife): T {
+  return life.stage === 'bol' ? material : { ...material, ...opticalPropertiesAt(material, life) };
+}
+
+/** Change in α and ε from beginning of life. */
+export interface OpticalDelta {
+  absorptivity: number;
+  emissivity: number;
+}
+
+interface LifeNode {
+  id: string;
+  material?: OpticalLifeMaterial | null;
+  coating?: OpticalLifeMaterial | null;
+  propertyOverrides?: readonly string[] | null;
+}
+
+/**
+ * How far each node's surface (its coating, else its material) has degraded
+ * at `life`. Nodes whose surface has no degradation data are absent, and a
+ * typed α or ε override does not degrade.
+ */
+export function surfaceDegradation(nodes: LifeNode[], life: OpticalLife): Map<string, OpticalDelta> {
+  const degradation = new Map<string, OpticalDelta>();
+  if (life.stage === 'bol') return degradation;
+
+  for (const node of nodes) {
+    const surface = node.coating ?? node.material;
+    if (!surface || !hasDegradationData(surface)) continue;
+    const overrides = node.propertyOverrides ?? [];
+    const at = opticalPropertiesAt(surface, life);
+    const delta = {
+      absorptivity: overrides.includes('absorptivity') ? 0 : at.absorptivity - surface.absorptivity,
+      emissivity: overrides.includes('emissivity') ? 0 : at.emissivity - surface.emissivity,
+    };
+    if (delta.absorptivity !== 0 || delta.emissivity !== 0) degradation.set(node.id, delta);
+  }
+  return degradation;
+}
+
+/** Nodes with their material and coating at `life`, for buildThermalNetwork() to derive α/ε from. */
+export function nodesAtLife<T extends LifeNode>(nodes: T[], life: OpticalLife): T[] {
+  if (life.stage === 'bol') return nodes;
+  return nodes.map((node) => ({
+    ...node,
+    material: node.material ? materialAtLife(node.material, life) : node.material,
+    coating: node.coating ? materialAtLife(node.coating, life) : node.coating,
+  }));
+}
+
+/**
+ * Orbital loads carry their own α/ε; shift those on degraded nodes by the
+ * node's degradation so the absorbed environment flux follows the coating.
+ */
+export function degradeOrbitalLoads<
+  T extends { nodeId: string; orbitalParams: { absorptivity: number; emissivity: number } | null },
+>(loads: T[], degradation: Map<string, OpticalDelta>): T[] {
+  return loads.map((load) => {
+    const delta = degradation.get(load.nodeId);
+    if (!delta || !load.orbitalParams) return load;
+    return {
+      ...load,
+      orbitalParams: {
+        ...load.orbitalParams,
+        absorptivity: clampUnit(load.orbitalParams.absorptivity + delta.absorptivity),
+        emissivity: clampUnit(load.orbitalParams.emissivity + delta.emissivity),
+      },
+    };
+  });
+}
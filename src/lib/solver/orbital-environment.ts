@@ -1,12 +1,17 @@
 import {
   EARTH_RADIUS_KM,
   EARTH_MU,
+  EARTH_J2,
   SOLAR_CONSTANT,
   EARTH_ALBEDO,
   EARTH_IR,
   type OrbitalConfig,
+  type EnvironmentPreset,
   type OrbitalEnvironment,
   type OrbitalHeatProfile,
+  type OrbitGeometry,
+  type ThermalNetwork,
+  type Vec3,
 } from './types';
 
 const DEG_TO_RAD = Math.PI / 180;
@@ -92,6 +97,49 @@ function calculateEarthViewFactor(altitudeKm: number): number {
   return Math.pow(Math.sin(rho), 2);
 }
 
+/**
+ * View factor from a flat plate to the Earth sphere, for a plate whose normal
+ * is `nadirAngle` (radians) from nadir at `radiusKm` from Earth's centre.
+ *
+ * With H = r / R_e and ρ = arcsin(1 / H):
+ *  - λ ≤ π/2 − ρ (whole disc in view):  F = cos λ / H²
+ *  - π/2 − ρ < λ < π/2 + ρ (disc cut by the plate's horizon):
+ *      F = 1/2 − (1/π)·asin(√(H²−1) / (H sin λ))
+ *          + (1/(πH²))·[cos λ · acos(−√(H²−1) cot λ) − √(H²−1)·√(1 − H² cos² λ)]
+ *  - λ ≥ π/2 + ρ: F = 0
+ * F at λ = 0 equals calculateEarthViewFactor().
+ */
+export function plateEarthViewFactor(nadirAngle: number, radiusKm: number): number {
+  const H = Math.max(radiusKm / EARTH_RADIUS_KM, 1 + 1e-9);
+  const rho = Math.asin(1 / H);
+  const lambda = Math.min(Math.max(nadirAngle, 0), Math.PI);
+  const cosL = Math.cos(lambda);
+
+  if (lambda <= Math.PI / 2 - rho) return cosL / (H * H);
+  if (lambda >= Math.PI / 2 + rho) return 0;
+
+  const x = Math.sqrt(H * H - 1);
+  const sinL = Math.sin(lambda);
+  const clamp = (v: number) => Math.min(Math.max(v, -1), 1);
+  const F =
+    0.5 -
+    Math.asin(clamp(x / (H * sinL))) / Math.PI +
+    (cosL * Math.acos(clamp((-x * cosL) / sinL)) -
+      x * Math.sqrt(Math.max(0, 1 - H * H * cosL * cosL))) /
+      (Math.PI * H * H);
+  return Math.max(0, F);
+}
+
+/**
+ * True if a spacecraft at unit position `position`, `radiusKm` from Earth's
+ * centre, is inside the cylindrical Earth shadow for sun direction `sun`.
+ */
+export function isInEarthShadow(position: Vec3, radiusKm: number, sun: Vec3): boolean {
+  const cosSun = position.x * sun.x + position.y * sun.y + position.z * sun.z;
+  if (cosSun >= 0) return false;
+  return radiusKm * Math.sqrt(1 - cosSun * cosSun) < EARTH_RADIUS_KM;
+}
+
 /**
  * Calculate eclipse fraction using cylindrical shadow model.
  * For LEO circular orbits.
@@ -107,8 +155,8 @@ function calculateEclipseFraction(
   const rhoRad = Math.asin(EARTH_RADIUS_KM / orbitRadius);
 
   // Check if orbit is fully sunlit (no eclipse)
-  // This happens when |beta| > 90° - rho (edge-on to shadow)
-  const betaLimit = Math.PI / 2 - rhoRad;
+  // This happens when |beta| >= rho (orbit clears the shadow cylinder)
+  const betaLimit = rhoRad;
   if (betaRad >= betaLimit) {
     return 0; // No eclipse
   }
@@ -170,39 +218,68 @@ function calculateHeoEccentricity(apogeeAltKm: number, perigeeAltKm: number): nu
 }
 
 /**
- * Calculate HEO eclipse fraction using simplified model.
- * Eclipse mainly occurs near perigee. Weighted by time fraction spent near perigee.
+ * Semi-major axis (km) and eccentricity of the orbit: Keplerian ellipse from
+ * apogee and perigee for HEO, circular at `altitude` otherwise.
  */
-function calculateHeoEclipseFraction(
-  apogeeAltKm: number,
-  perigeeAltKm: number,
-  betaAngleDeg: number,
-): number {
-  // Eclipse fraction at perigee altitude (as if circular orbit at perigee)
-  const perigeeEclipse = calculateEclipseFraction(perigeeAltKm, betaAngleDeg);
+function orbitShape(config: OrbitalConfig): { a: number; e: number } {
+  if ((config.orbitType ?? 'leo') === 'heo') {
+    const rApogee = EARTH_RADIUS_KM + config.apogeeAltitude!;
+    const rPerigee = EARTH_RADIUS_KM + config.perigeeAltitude!;
+    return {
+      a: (rApogee + rPerigee) / 2,
+      e: calculateHeoEccentricity(config.apogeeAltitude!, config.perigeeAltitude!),
+    };
+  }
+  return { a: EARTH_RADIUS_KM + config.altitude, e: 0 };
+}
 
-  // Fraction of time spent near perigee — approximated from eccentricity
-  // For highly elliptical orbits, spacecraft spends most time near apogee
-  // perigee_time_fraction ≈ (1 - e)^(3/2) / (1 + e)^(3/2) is one approximation
-  // Simpler: use ~1/6 for Molniya-class, scale with eccentricity
-  const e = calculateHeoEccentricity(apogeeAltKm, perigeeAltKm);
-  const perigeeTimeFraction = Math.pow((1 - e) / (1 + e), 1.5);
+/** Solve Kepler's equation M = E − e·sin E for the eccentric anomaly E. */
+function solveKepler(meanAnomaly: number, e: number): number {
+  // Solve within [-π, π] and add the whole revolutions back
+  const revolutions = Math.round(meanAnomaly / (2 * Math.PI));
+  const M = meanAnomaly - revolutions * 2 * Math.PI;
+
+  let E = e < 0.8 ? M : Math.PI * Math.sign(M);
+  for (let iter = 0; iter < 50; iter++) {
+    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-12) break;
+  }
+  return E + revolutions * 2 * Math.PI;
+}
 
-  return perigeeEclipse * perigeeTimeFraction;
+/**
+ * Mean motion (rad/s) and the eccentric and mean anomalies at the epoch, from
+ * the true anomaly at the epoch (HEO; circular orbits start at the node).
+ */
+function epochAnomalies(config: OrbitalConfig): { n: number; E0: number; M0: number; e: number } {
+  const { a, e } = orbitShape(config);
+  const n = Math.sqrt(EARTH_MU / Math.pow(a * 1000, 3));
+  const nu0 = e > 0 ? (config.trueAnomaly ?? 0) * DEG_TO_RAD : 0;
+  const E0 = Math.atan2(Math.sqrt(1 - e * e) * Math.sin(nu0), e + Math.cos(nu0));
+  return { n, E0, M0: E0 - e * Math.sin(E0), e };
 }
 
 /**
- * Compute spacecraft position and velocity direction in ECI for a circular orbit.
+ * Compute spacecraft position and velocity direction in ECI.
+ * HEO orbits are propagated as Keplerian ellipses (argument of perigee, true
+ * anomaly at the epoch); other orbit types are circular, starting at the
+ * ascending node.
  * Returns position vector (metres) and velocity unit vector.
  */
 export function computeSpacecraftPositionECI(
   config: OrbitalConfig,
   t: number,
 ): { position: { x: number; y: number; z: number }; velocity: { x: number; y: number; z: number } } {
-  const a = (EARTH_RADIUS_KM + config.altitude) * 1000; // metres
-  const T = 2 * Math.PI * Math.sqrt(Math.pow(a, 3) / EARTH_MU);
-  const omega = (2 * Math.PI) / T;
-  const theta = omega * t;
+  const { a } = orbitShape(config);
+  const { n, M0, e } = epochAnomalies(config);
+  const E = solveKepler(M0 + n * t, e);
+  const nu = Math.atan2(Math.sqrt(1 - e * e) * Math.sin(E), Math.cos(E) - e);
+  const r = a * 1000 * (1 - e * Math.cos(E)); // metres
+
+  // Argument of latitude
+  const argPerigee = e > 0 ? (config.argumentOfPerigee ?? 0) * DEG_TO_RAD : 0;
+  const u = argPerigee + nu;
 
   const i = config.inclination * DEG_TO_RAD;
   const RAAN = config.raan * DEG_TO_RAD;
@@ -211,18 +288,29 @@ export function computeSpacecraftPositionECI(
   const sinR = Math.sin(RAAN);
   const cosI = Math.cos(i);
   const sinI = Math.sin(i);
-  const cosT = Math.cos(theta);
-  const sinT = Math.sin(theta);
-
-  const position = {
-    x: a * (cosR * cosT - sinR * cosI * sinT),
-    y: a * (sinR * cosT + cosR * cosI * sinT),
-    z: a * (sinI * sinT),
+  const cosU = Math.cos(u);
+  const sinU = Math.sin(u);
+
+  // Radial and in-plane transverse unit vectors
+  const radial = {
+    x: cosR * cosU - sinR * cosI * sinU,
+    y: sinR * cosU + cosR * cosI * sinU,
+    z: sinI * sinU,
+  };
+  const transverse = {
+    x: -cosR * sinU - sinR * cosI * cosU,
+    y: -sinR * sinU + cosR * cosI * cosU,
+    z: sinI * cosU,
   };
 
-  const vx = -cosR * sinT - sinR * cosI * cosT;
-  const vy = -sinR * sinT + cosR * cosI * cosT;
-  const vz = sinI * cosT;
+  const position = { x: r * radial.x, y: r * radial.y, z: r * radial.z };
+
+  // Flight path: v ∝ e·sin ν r̂ + (1 + e·cos ν) t̂
+  const vr = e * Math.sin(nu);
+  const vt = 1 + e * Math.cos(nu);
+  const vx = vr * radial.x + vt * transverse.x;
+  const vy = vr * radial.y + vt * transverse.y;
+  const vz = vr * radial.z + vt * transverse.z;
   const vLen = Math.sqrt(vx * vx + vy * vy + vz * vz);
 
   const velocity = { x: vx / vLen, y: vy / vLen, z: vz / vLen };
@@ -230,6 +318,47 @@ export function computeSpacecraftPositionECI(
   return { position, velocity };
 }
 
+/**
+ * Profile sample times over one orbit (s after the epoch). Circular orbits
+ * are sampled uniformly in time; elliptical ones uniformly in eccentric
+ * anomaly, so the step scales with orbit radius and points concentrate near
+ * perigee where the environment changes fastest.
+ */
+export function orbitSampleTimes(
+  config: OrbitalConfig,
+  orbitalPeriod: number,
+  numSteps: number,
+): number[] {
+  const { n, E0, M0, e } = epochAnomalies(config);
+  const times: number[] = [];
+  for (let i = 0; i < numSteps; i++) {
+    if (e === 0) {
+      times.push((i * orbitalPeriod) / numSteps);
+    } else {
+      const E = E0 + (2 * Math.PI * i) / numSteps;
+      times.push((E - e * Math.sin(E) - M0) / n);
+    }
+  }
+  return times;
+}
+
+/**
+ * Fraction of the orbit spent in the cylindrical Earth shadow, from the
+ * propagated position at uniformly spaced times.
+ */
+function calculateGeometricEclipseFraction(
+  config: OrbitalConfig,
+  orbitalPeriod: number,
+  numSamples: number = 720,
+): number {
+  let shadowed = 0;
+  for (let i = 0; i < numSamples; i++) {
+    const geometry = computeOrbitGeometry(config, (i * orbitalPeriod) / numSamples);
+    if (isInEarthShadow(geometry.position, geometry.radius, geometry.sun)) shadowed++;
+  }
+  return shadowed / numSamples;
+}
+
 /**
  * Convert a sun direction from ECI to LVLH frame.
  * LVLH: +x = along-track (velocity), +y = orbit normal, +z = nadir.
@@ -262,16 +391,24 @@ export function computeSunDirectionLVLH(
 
 /**
  * Calculate complete orbital environment from configuration.
+ * An environment preset (hot/cold/nominal) replaces the default solar
+ * constant, albedo and Earth IR values.
  */
 export function calculateOrbitalEnvironment(
   config: OrbitalConfig,
+  environment: EnvironmentPreset | null = null,
 ): OrbitalEnvironment {
   const epochDate = new Date(config.epoch);
   const sunPos = getSunPosition(epochDate);
   const orbitType = config.orbitType ?? 'leo';
 
-  // Solar flux with seasonal distance correction (same for all orbit types)
-  const solarFlux = SOLAR_CONSTANT / Math.pow(sunPos.earthSunDistance, 2);
+  // Preset solar flux already brackets the seasonal distance variation, so it
+  // is used as-is. Otherwise apply the seasonal correction to the solar constant.
+  const solarFlux = environment
+    ? environment.solarFlux
+    : SOLAR_CONSTANT / Math.pow(sunPos.earthSunDistance, 2);
+  const albedo = environment?.albedo ?? EARTH_ALBEDO;
+  const earthIR = environment?.earthIR ?? EARTH_IR;
 
   if (orbitType === 'geo') {
     const GEO_ALTITUDE = 35786; // km
@@ -290,13 +427,14 @@ export function calculateOrbitalEnvironment(
 
     // Earth IR reduced by inverse square of distance
     const r = EARTH_RADIUS_KM + GEO_ALTITUDE;
-    const earthIRFlux = EARTH_IR * Math.pow(EARTH_RADIUS_KM / r, 2);
+    const earthIRFlux = earthIR * Math.pow(EARTH_RADIUS_KM / r, 2);
 
     return {
       orbitalPeriod,
       betaAngle,
       eclipseFraction,
       solarFlux,
+      albedo,
       albedoFlux,
       earthIR: earthIRFlux,
       earthViewFactor,
@@ -315,24 +453,26 @@ export function calculateOrbitalEnvironment(
       sunPos.declination,
       sunPos.rightAscension,
     );
-    const eclipseFraction = calculateHeoEclipseFraction(apogeeAlt, perigeeAlt, betaAngle);
+    const eclipseFraction = calculateGeometricEclipseFraction(config, orbitalPeriod);
 
-    // Use average altitude for albedo/OLR
+    // Reference albedo/OLR at the average altitude — the heat profile rescales
+    // them to the actual altitude at each timestep
     const avgAltitude = (apogeeAlt + perigeeAlt) / 2;
     const earthViewFactor = calculateEarthViewFactor(avgAltitude);
 
     // Albedo reduced at high altitude
-    const albedoFlux = EARTH_ALBEDO * solarFlux * earthViewFactor;
+    const albedoFlux = albedo * solarFlux * earthViewFactor;
 
     // Earth IR reduced by altitude
     const r = EARTH_RADIUS_KM + avgAltitude;
-    const earthIRFlux = EARTH_IR * Math.pow(EARTH_RADIUS_KM / r, 2);
+    const earthIRFlux = earthIR * Math.pow(EARTH_RADIUS_KM / r, 2);
 
     return {
       orbitalPeriod,
       betaAngle,
       eclipseFraction,
       solarFlux,
+      albedo,
       albedoFlux,
       earthIR: earthIRFlux,
       earthViewFactor,
@@ -352,16 +492,17 @@ export function calculateOrbitalEnvironment(
   const earthViewFactor = calculateEarthViewFactor(config.altitude);
 
   // Peak albedo flux (at subsolar point)
-  const albedoFlux = EARTH_ALBEDO * solarFlux * earthViewFactor;
+  const albedoFlux = albedo * solarFlux * earthViewFactor;
 
   // Earth IR (fairly constant)
-  const earthIRFlux = EARTH_IR * earthViewFactor;
+  const earthIRFlux = earthIR * earthViewFactor;
 
   return {
     orbitalPeriod,
     betaAngle,
     eclipseFraction,
     solarFlux,
+    albedo,
     albedoFlux,
     earthIR: earthIRFlux,
     earthViewFactor,
@@ -370,29 +511,59 @@ export function calculateOrbitalEnvironment(
 }
 
 /**
- * Calculate the Sun's ECI direction vector for a given orbital config and elapsed time.
- * Returns a normalized THREE-compatible {x, y, z} object.
+ * Sun unit vector in ECI (+Z = north pole), the frame of
+ * computeSpacecraftPositionECI, for a given orbital config and elapsed time.
  */
-export function computeSunDirectionAtTime(
+export function computeSunDirectionECI(
   config: OrbitalConfig,
   elapsedSeconds: number,
-): { x: number; y: number; z: number } {
+): Vec3 {
   const epochDate = new Date(config.epoch);
   const currentDate = new Date(epochDate.getTime() + elapsedSeconds * 1000);
   const sunPos = getSunPosition(currentDate);
 
-  // Sun direction in ECI: convert RA/Dec to unit vector
-  const x = Math.cos(sunPos.declination) * Math.cos(sunPos.rightAscension);
-  const y = Math.sin(sunPos.declination);
-  const z = Math.cos(sunPos.declination) * Math.sin(sunPos.rightAscension);
+  // Convert RA/Dec to unit vector
+  return {
+    x: Math.cos(sunPos.declination) * Math.cos(sunPos.rightAscension),
+    y: Math.cos(sunPos.declination) * Math.sin(sunPos.rightAscension),
+    z: Math.sin(sunPos.declination),
+  };
+}
+
+/**
+ * Calculate the Sun's ECI direction vector for a given orbital config and elapsed time.
+ * Returns a normalized THREE-compatible {x, y, z} object (Y up = north pole).
+ */
+export function computeSunDirectionAtTime(
+  config: OrbitalConfig,
+  elapsedSeconds: number,
+): { x: number; y: number; z: number } {
+  const sun = computeSunDirectionECI(config, elapsedSeconds);
+  return { x: sun.x, y: sun.z, z: sun.y };
+}
 
-  const len = Math.sqrt(x * x + y * y + z * z);
-  return { x: x / len, y: y / len, z: z / len };
+/** Sun direction and spacecraft position/velocity unit vectors in ECI. */
+export function computeOrbitGeometry(config: OrbitalConfig, t: number): OrbitGeometry {
+  const { position, velocity } = computeSpacecraftPositionECI(config, t);
+  const rLen = Math.sqrt(position.x * position.x + position.y * position.y + position.z * position.z);
+  return {
+    sun: computeSunDirectionECI(config, t),
+    position: { x: position.x / rLen, y: position.y / rLen, z: position.z / rLen },
+    velocity,
+    radius: rLen / 1000,
+  };
 }
 
 /**
  * Generate time-varying heat load profile over one orbit.
  * Discretizes the orbit into N steps and computes fluxes at each step.
+ *
+ * With orbital elements, sunlight comes from the cylindrical shadow at the
+ * spacecraft's position and albedo scales with the solar zenith angle at the
+ * sub-spacecraft point, cos θ = r̂·ŝ; both albedo and Earth IR follow the
+ * Earth view factor at the current orbit radius (constant unless the orbit is
+ * elliptical). Without them the eclipse is centred on mid-orbit and albedo
+ * follows the orbit angle. Sample times come from orbitSampleTimes().
  */
 export function generateOrbitalHeatProfile(
   config: OrbitalConfig,
@@ -405,48 +576,58 @@ export function generateOrbitalHeatProfile(
   const earthIRProfile: number[] = [];
   const inSunlightProfile: boolean[] = [];
   const sunDirectionLVLH: Array<{ x: number; y: number; z: number }> = [];
+  const geometryECI: OrbitGeometry[] = [];
 
-  const dt = env.orbitalPeriod / numSteps;
+  const sampleTimes = orbitSampleTimes(config, env.orbitalPeriod, numSteps);
   const eclipseStart = (0.5 - env.eclipseFraction / 2) * env.orbitalPeriod;
   const eclipseEnd = (0.5 + env.eclipseFraction / 2) * env.orbitalPeriod;
 
   const hasOrbitalElements = config.inclination != null && config.raan != null;
 
   for (let i = 0; i < numSteps; i++) {
-    const t = i * dt;
+    const t = sampleTimes[i];
     times.push(t);
 
-    // Determine if in sunlight
-    const inSunlight = t < eclipseStart || t > eclipseEnd;
-    inSunlightProfile.push(inSunlight);
+    let inSunlight: boolean;
+    let cosZenith: number;
+    // Albedo and Earth IR relative to the environment's reference altitude
+    let earthScale = 1;
+    if (hasOrbitalElements) {
+      const geometry = computeOrbitGeometry(config, t);
+      geometryECI.push(geometry);
+      sunDirectionLVLH.push(
+        computeSunDirectionLVLH(geometry.sun, geometry.position, geometry.velocity),
+      );
 
-    if (inSunlight) {
-      // Compute angle from subsolar point for albedo variation
+      inSunlight = !isInEarthShadow(geometry.position, geometry.radius, geometry.sun);
+      cosZenith = Math.max(
+        0,
+        geometry.position.x * geometry.sun.x +
+          geometry.position.y * geometry.sun.y +
+          geometry.position.z * geometry.sun.z,
+      );
+      if (env.earthViewFactor > 0) {
+        earthScale = plateEarthViewFactor(0, geometry.radius) / env.earthViewFactor;
+      }
+    } else {
+      sunDirectionLVLH.push({ x: 0, y: 0, z: 0 });
+      inSunlight = t < eclipseStart || t > eclipseEnd;
       // Simplified: assume cos variation with orbit angle
-      const orbitAngle = (2 * Math.PI * t) / env.orbitalPeriod;
-      const cosAngle = Math.max(0, Math.cos(orbitAngle));
+      cosZenith = Math.max(0, Math.cos((2 * Math.PI * t) / env.orbitalPeriod));
+    }
+    inSunlightProfile.push(inSunlight);
 
+    if (inSunlight) {
       solarFluxProfile.push(env.solarFlux);
-      albedoFluxProfile.push(
-        EARTH_ALBEDO * env.solarFlux * env.earthViewFactor * cosAngle,
-      );
+      // env.albedoFlux is the peak, at the subsolar point
+      albedoFluxProfile.push(env.albedoFlux * earthScale * cosZenith);
     } else {
       solarFluxProfile.push(0);
       albedoFluxProfile.push(0);
     }
 
-    // Earth IR is roughly constant around the orbit
-    earthIRProfile.push(env.earthIR);
-
-    // Compute sun direction in LVLH frame
-    if (hasOrbitalElements) {
-      const sunECI = computeSunDirectionAtTime(config, t);
-      const posVel = computeSpacecraftPositionECI(config, t);
-      const sunLVLH = computeSunDirectionLVLH(sunECI, posVel.position, posVel.velocity);
-      sunDirectionLVLH.push(sunLVLH);
-    } else {
-      sunDirectionLVLH.push({ x: 0, y: 0, z: 0 });
-    }
+    // Earth IR falls off with the view factor to the Earth disc
+    earthIRProfile.push(env.earthIR * earthScale);
   }
 
   return {
@@ -456,5 +637,126 @@ export function generateOrbitalHeatProfile(
     earthIR: earthIRProfile,
     inSunlight: inSunlightProfile,
     sunDirectionLVLH,
+    geometryECI: hasOrbitalElements ? geometryECI : undefined,
   };
 }
+
+/**
+ * RAAN precession rate from the J2 oblateness term, in degrees per second.
+ * dΩ/dt = -3/2 · J2 · (R_e / p)² · n · cos(i), with p = a(1 - e²).
+ */
+export function calculateRaanPrecessionRate(config: OrbitalConfig): number {
+  let a: number; // km
+  let e = 0;
+  if ((config.orbitType ?? 'leo') === 'heo') {
+    const rApogee = EARTH_RADIUS_KM + config.apogeeAltitude!;
+    const rPerigee = EARTH_RADIUS_KM + config.perigeeAltitude!;
+    a = (rApogee + rPerigee) / 2;
+    e = (rApogee - rPerigee) / (rApogee + rPerigee);
+  } else {
+    a = EARTH_RADIUS_KM + config.altitude;
+  }
+
+  const p = a * (1 - e * e);
+  const n = Math.sqrt(EARTH_MU / Math.pow(a * 1000, 3)); // rad/s
+  const rate =
+    -1.5 * EARTH_J2 * Math.pow(EARTH_RADIUS_KM / p, 2) * n *
+    Math.cos(config.inclination * DEG_TO_RAD);
+
+  return rate * RAD_TO_DEG;
+}
+
+/**
+ * Orbital config as it stands `elapsedSeconds` after its epoch: the epoch is
+ * moved forward and the RAAN precessed by J2.
+ */
+export function advanceOrbitalConfig(
+  config: OrbitalConfig,
+  elapsedSeconds: number,
+): OrbitalConfig {
+  const epoch = new Date(new Date(config.epoch).getTime() + elapsedSeconds * 1000);
+  const raan = config.raan + calculateRaanPrecessionRate(config) * elapsedSeconds;
+
+  return {
+    ...config,
+    epoch: epoch.toISOString(),
+    raan: ((raan % 360) + 360) % 360,
+  };
+}
+
+const ORBIT_CACHE_SIZE = 4;
+
+/**
+ * Orbital environment and heat profile for the orbit containing time t, plus
+ * t's offset into that orbit.
+ *
+ * Orbit 0 is the network's own orbitalEnv / orbitalProfile. Later orbits are
+ * recomputed from the advanced config (sun position, J2 RAAN drift, seasonal
+ * sun distance) and kept in a small cache on the network, so long transients
+ * follow beta-angle and eclipse-season changes instead of repeating orbit 0.
+ */
+export function getOrbitAtTime(
+  network: ThermalNetwork,
+  t: number,
+): { env: OrbitalEnvironment; profile: OrbitalHeatProfile; orbitTime: number } | null {
+  if (!network.orbitalConfig || !network.orbitalEnv || !network.orbitalProfile) {
+    return null;
+  }
+
+  const period = network.orbitalEnv.orbitalPeriod;
+  const orbitIndex = Math.floor(t / period);
+  const orbitTime = t - orbitIndex * period;
+
+  if (orbitIndex === 0) {
+    return { env: network.orbitalEnv, profile: network.orbitalProfile, orbitTime };
+  }
+
+  if (!network.orbitCache) network.orbitCache = new Map();
+  let orbit = network.orbitCache.get(orbitIndex);
+  if (!orbit) {
+    const config = advanceOrbitalConfig(network.orbitalConfig, orbitIndex * period);
+    const env = calculateOrbitalEnvironment(config, network.environment);
+    orbit = {
+      env,
+      profile: generateOrbitalHeatProfile(config, env, network.orbitalProfile.times.length),
+    };
+    network.orbitCache.set(orbitIndex, orbit);
+    // Solvers only move forward (bar rejected steps), so drop the oldest orbit
+    if (network.orbitCache.size > ORBIT_CACHE_SIZE) {
+      network.orbitCache.delete(network.orbitCache.keys().next().value!);
+    }
+  }
+
+  return { ...orbit, orbitTime };
+}
+
+/**
+ * Sample the orbital environment over a mission span — beta angle, eclipse
+ * fraction and solar flux every `sampleInterval` seconds of advanced epoch.
+ */
+export function calculateEnvironmentEvolution(
+  config: OrbitalConfig,
+  durationSeconds: number,
+  sampleInterval: number = 86400,
+  environment: EnvironmentPreset | null = null,
+): {
+  times: number[];
+  betaAngle: number[];
+  eclipseFraction: number[];
+  solarFlux: number[];
+} {
+  const times: number[] = [];
+  const betaAngle: number[] = [];
+  const eclipseFraction: number[] = [];
+  const solarFlux: number[] = [];
+
+  for (let t = 0; t <= durationSeconds; t += sampleInterval) {
+    const env = calculateOrbitalEnvironment(advanceOrbitalConfig(config, t), environment);
+    times.push(t);
+    betaAngle.push(env.betaAngle);
+    eclipseFraction.push(env.eclipseFraction);
+    solarFlux.push(env.solarFlux);
+  }
+
+  return { times, betaAngle, eclipseFraction, solarFlux };
+}
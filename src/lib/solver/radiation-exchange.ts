@@ -0,0 +1,168 @@
+/**
+ * Grey-body radiative exchange in an enclosure by Gebhart's method.
+ *
+ * B_ij is the fraction of the energy emitted by surface i that is finally
+ * absorbed by surface j after any number of reflections. Energy arriving at
+ * surface k is absorbed (ε_k), reflected diffusely (ρd_k = 1 − ε_k − ρs_k)
+ * or reflected specularly. Specular paths are already part of the traced
+ * exchange factors E, so only diffuse re-emission remains to be summed:
+ *
+ *   B_ij       = E_ij·ε_j    + Σ_k E_ik·ρd_k·B_kj
+ *   B_i,space  = E_i,space   + Σ_k E_ik·ρd_k·B_k,space
+ *
+ * The exact radiative conductor is GR_ij = ε_i·A_i·B_ij (= ε_j·A_j·B_ji),
+ * exchanging Q = σ·GR_ij·(T_i⁴ − T_j⁴) — the multiple-reflection
+ * counterpart of the single-bounce ε·A·F of computeRadiationFlow().
+ */
+
+import type { RadiationEnclosure, SolverConductor, SolverNode } from './types';
+
+const SINGULAR_PIVOT = 1e-14;
+
+export interface GebhartFactors {
+  /** B_ij; rows sum with toSpace to 1 */
+  gebhart: number[][];
+  toSpace: number[];
+}
+
+/**
+ * Solve a·X = rhs for all right-hand-side columns at once by Gaussian
+ * elimination with partial pivoting. Both arguments are overwritten.
+ */
+function solveDense(a: number[][], rhs: number[][]): number[][] {
+  const n = a.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < SINGULAR_PIVOT) {
+      throw new Error(
+        'Radiation enclosure is singular — a closed set of its surfaces has zero emissivity',
+      );
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = a[r][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let c = col; c < n; c++) a[r][c] -= factor * a[col][c];
+      for (let c = 0; c < rhs[r].length; c++) rhs[r][c] -= factor * rhs[col][c];
+    }
+  }
+
+  for (let row = n - 1; row >= 0; row--) {
+    for (let r = row + 1; r < n; r++) {
+      const factor = a[row][r];
+      if (factor === 0) continue;
+      for (let c = 0; c < rhs[row].length; c++) rhs[row][c] -= factor * rhs[r][c];
+    }
+    for (let c = 0; c < rhs[row].length; c++) rhs[row][c] /= a[row][row];
+  }
+  return rhs;
+}
+
+/**
+ * Gebhart factors of an enclosure for the given surface emissivities.
+ * Solves (I − E·diag(ρd))·B = [E·diag(ε) | E_space] for all columns.
+ */
+export function computeGebhartFactors(
+  enclosure: RadiationEnclosure,
+  emissivity: number[],
+): GebhartFactors {
+  const n = enclosure.nodeIds.length;
+  const { exchange, toSpace, specularReflectance } = enclosure;
+  const diffuse = emissivity.map((e, k) => Math.max(0, 1 - e - (specularReflectance[k] ?? 0)));
+
+  const a = exchange.map((row, i) => row.map((e, k) => (i === k ? 1 : 0) - e * diffuse[k]));
+  const rhs = exchange.map((row, i) => [...row.map((e, j) => e * emissivity[j]), toSpace[i]]);
+  const solution = solveDense(a, rhs);
+
+  return {
+    gebhart: solution.map((row) => row.slice(0, n)),
+    toSpace: solution.map((row) => row[n]),
+  };
+}
+
+/**
+ * Drop surfaces whose node is not in the network. What used to land on
+ * them leaves the enclosure, so closure is kept through the space term.
+ */
+function restrictEnclosure(
+  enclosure: RadiationEnclosure,
+  nodes: Map<string, SolverNode>,
+): RadiationEnclosure {
+  const kept: number[] = [];
+  const missing: number[] = [];
+  enclosure.nodeIds.forEach((id, i) => (nodes.has(id) ? kept : missing).push(i));
+  if (missing.length === 0) return enclosure;
+
+  const rs = (k: number) => enclosure.specularReflectance[k] ?? 0;
+  return {
+    nodeIds: kept.map((i) => enclosure.nodeIds[i]),
+    areas: kept.map((i) => enclosure.areas[i]),
+    exchange: kept.map((i) => kept.map((j) => enclosure.exchange[i][j])),
+    toSpace: kept.map(
+      (i) =>
+        enclosure.toSpace[i] +
+        missing.reduce((sum, k) => sum + (1 - rs(k)) * enclosure.exchange[i][k], 0),
+    ),
+    specularReflectance: kept.map(rs),
+  };
+}
+
+/**
+ * Give the radiation conductors between two surfaces of the enclosure
+ * their exact grey-body value for the nodes' current emissivities:
+ * area A_i, viewFactor B_ij and emissivity ε_i, so that ε·A·F = GR_ij.
+ * If several conductors join the same pair, the first carries the
+ * exchange and the rest are zeroed so it is not counted twice.
+ *
+ * Nodes that radiate to space get the view factor that makes their
+ * ε·A·F equal ε_i·A_i·B_i,space. `nodes` is updated in place.
+ */
+export function applyRadiationEnclosure(
+  enclosure: RadiationEnclosure,
+  nodes: Map<string, SolverNode>,
+  conductors: SolverConductor[],
+): SolverConductor[] {
+  const surfaces = restrictEnclosure(enclosure, nodes);
+  if (surfaces.nodeIds.length === 0) return conductors;
+
+  const emissivity = surfaces.nodeIds.map((id) => nodes.get(id)!.emissivity);
+  const { gebhart, toSpace } = computeGebhartFactors(surfaces, emissivity);
+  const index = new Map(surfaces.nodeIds.map((id, i) => [id, i]));
+
+  surfaces.nodeIds.forEach((id, i) => {
+    const node = nodes.get(id)!;
+    if (node.radiatesToSpace && node.area > 0) {
+      node.spaceViewFactor = (toSpace[i] * surfaces.areas[i]) / node.area;
+    }
+  });
+
+  const assigned = new Set<string>();
+  return conductors.map((conductor) => {
+    if (conductor.conductorType !== 'radiation') return conductor;
+    const i = index.get(conductor.nodeFromId);
+    const j = index.get(conductor.nodeToId);
+    if (i === undefined || j === undefined || i === j) return conductor;
+
+    const pair = i < j ? `${i}:${j}` : `${j}:${i}`;
+    const weight = emissivity[i] * surfaces.areas[i];
+    let viewFactor = 0;
+    if (!assigned.has(pair) && weight > 0) {
+      // GR_ij and GR_ji differ only by the tracing noise left after enforcement
+      const gr = (weight * gebhart[i][j] + emissivity[j] * surfaces.areas[j] * gebhart[j][i]) / 2;
+      viewFactor = gr / weight;
+    }
+    assigned.add(pair);
+
+    return {
+      ...conductor,
+      area: surfaces.areas[i],
+      emissivity: emissivity[i],
+      viewFactor,
+    };
+  });
+}
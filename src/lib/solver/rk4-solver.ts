@@ -1,5 +1,25 @@
-import type { ThermalNetwork, SimulationConfig, SolverResult, NodeResult, ConductorFlowResult } from './types';
-import { computeNodeDerivative, solveArithmeticNodes, computeConductorFlow } from './heat-flow';
+import type {
+  ThermalNetwork,
+  SimulationConfig,
+  SolverHooks,
+  SolverResult,
+  NodeResult,
+  ConductorFlowResult,
+  SpaceFlowResult,
+} from './types';
+import {
+  computeNodeDerivative,
+  solveArithmeticNodes,
+  computeConductorFlow,
+  computeAllSpaceFlows,
+} from './heat-flow';
+import { nodeStoredEnergy } from './material-properties';
+import {
+  initHeaterStates,
+  heaterSwitchFraction,
+  updateHeaterStates,
+  summarizeHeaters,
+} from './heater';
 
 /**
  * Compute derivatives for all diffusion nodes.
@@ -49,7 +69,7 @@ function computeAllConductorFlows(
   for (const conductor of network.conductors) {
     const tFrom = temperatures.get(conductor.nodeFromId) ?? 0;
     const tTo = temperatures.get(conductor.nodeToId) ?? 0;
-    flows.set(conductor.id, computeConductorFlow(conductor, tFrom, tTo));
+    flows.set(conductor.id, computeConductorFlow(conductor, tFrom, tTo, network));
   }
 
   return flows;
@@ -76,6 +96,7 @@ function computeAllConductorFlows(
 export function solveTransient(
   network: ThermalNetwork,
   config: SimulationConfig,
+  hooks: SolverHooks = {},
 ): SolverResult {
   const { timeStart, timeEnd, timeStep, tolerance, minStep, maxStep } = config;
 
@@ -102,6 +123,15 @@ export function solveTransient(
     conductorFlowsMap.get(cid)?.flows.push(flow);
   }
 
+  // Radiation to space, per node with a sink
+  const spaceFlowsMap = new Map<string, { times: number[]; flows: number[] }>();
+  for (const [nodeId, flow] of computeAllSpaceFlows(temperatures, network)) {
+    spaceFlowsMap.set(nodeId, { times: [timeStart], flows: [flow] });
+  }
+
+  solveArithmeticNodes(temperatures, timeStart, network);
+  const heaterTimelines = initHeaterStates(network, temperatures, timeStart);
+
   const timePoints = [timeStart];
   let t = timeStart;
   let dt = Math.min(timeStep, maxStep);
@@ -234,25 +264,39 @@ export function solveTransient(
       continue; // Retry with smaller step
     }
 
-    // Accept step — use Richardson extrapolated solution (5th order accuracy)
+    // Use Richardson extrapolated solution (5th order accuracy)
+    const newTemps = new Map<string, number>(temperatures);
     for (const nodeId of network.diffusionNodeIds) {
       const fullT = fullStepTemps.get(nodeId) ?? 0;
       const doubleT = doubleStepTemps.get(nodeId) ?? 0;
       const correctedT = doubleT + (doubleT - fullT) / 15;
-      temperatures.set(nodeId, correctedT);
+      newTemps.set(nodeId, correctedT);
     }
 
     // Boundary nodes stay fixed
     for (const nodeId of network.boundaryNodeIds) {
       const node = network.nodes.get(nodeId);
       if (node?.boundaryTemp !== null && node?.boundaryTemp !== undefined) {
-        temperatures.set(nodeId, node.boundaryTemp);
+        newTemps.set(nodeId, node.boundaryTemp);
       }
     }
 
     // Solve arithmetic nodes at new time
+    solveArithmeticNodes(newTemps, t + dt, network);
+
+    // A thermostat switches inside this step — shorten it to end at the switch
+    const switchFraction = heaterSwitchFraction(network, temperatures, newTemps);
+    if (switchFraction !== null && (1 - switchFraction) * dt > minStep) {
+      dt = Math.max(switchFraction * dt, minStep);
+      continue;
+    }
+
+    // Accept step
+    for (const [nodeId, T] of newTemps) {
+      temperatures.set(nodeId, T);
+    }
     t += dt;
-    solveArithmeticNodes(temperatures, t, network);
+    updateHeaterStates(network, temperatures, t, heaterTimelines);
 
     // Record results
     timePoints.push(t);
@@ -267,8 +311,16 @@ export function solveTransient(
     // Record conductor flows
     const flows = computeAllConductorFlows(temperatures, network);
     for (const [cid, flow] of flows) {
-      conductorFlowsMap.get(cid)?.flows.push(flow);
+      const entry = conductorFlowsMap.get(cid);
+      entry?.times.push(t);
+      entry?.flows.push(flow);
     }
+    for (const [nodeId, flow] of computeAllSpaceFlows(temperatures, network)) {
+      const entry = spaceFlowsMap.get(nodeId)!;
+      entry.times.push(t);
+      entry.flows.push(flow);
+    }
+    hooks.onProgress?.((t - timeStart) / (timeEnd - timeStart));
 
     // Grow step size for next iteration
     if (maxError > 0) {
@@ -282,12 +334,14 @@ export function solveTransient(
     }
   }
 
+  const heaterResults = summarizeHeaters(network, heaterTimelines, timeStart, t);
+
   // Compute energy balance
   for (const nodeId of network.diffusionNodeIds) {
     const node = network.nodes.get(nodeId);
     if (node) {
       const tFinal = temperatures.get(nodeId) ?? node.initialTemperature;
-      totalEnergyStored += node.capacitance * (tFinal - node.initialTemperature);
+      totalEnergyStored += nodeStoredEnergy(node, node.initialTemperature, tFinal);
     }
   }
 
@@ -318,6 +372,15 @@ export function solveTransient(
       }
     }
   }
+  for (const heater of heaterResults) {
+    totalEnergyIn += heater.energy;
+  }
+  // Radiation to space leaves the system
+  for (const { times, flows } of spaceFlowsMap.values()) {
+    for (let i = 1; i < times.length; i++) {
+      totalEnergyIn -= (flows[i - 1] + flows[i]) * 0.5 * (times[i] - times[i - 1]);
+    }
+  }
 
   const energyBalanceError =
     totalEnergyStored !== 0
@@ -335,11 +398,18 @@ export function solveTransient(
     conductorFlows.push({ conductorId, times: data.times, flows: data.flows });
   }
 
+  const spaceFlows: SpaceFlowResult[] = [];
+  for (const [nodeId, data] of spaceFlowsMap) {
+    spaceFlows.push({ nodeId, times: data.times, flows: data.flows });
+  }
+
   return {
     nodeResults,
     conductorFlows,
     timePoints,
     energyBalanceError,
     converged: true,
+    heaterResults,
+    spaceFlows,
   };
 }
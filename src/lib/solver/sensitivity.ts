@@ -3,6 +3,13 @@ import { sensitivityMatrices } from '@/lib/db/schema';
 import type { SensitivityEntry } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { buildThermalNetwork, runSimulation } from './thermal-network';
+import type { FieldExpressions, SymbolValues } from './expressions';
+import {
+  addPropertyOverride,
+  applyDerivedNodeProperties,
+  type DerivedNodeField,
+  type NodePropertyMaterial,
+} from './node-properties';
 import type {
   SimulationConfig,
   SolverNode,
@@ -10,9 +17,17 @@ import type {
   SolverHeatLoad,
   ThermalNetwork,
   OrbitalConfig,
+  EnvironmentPreset,
+  HeaterParams,
+  RadiationEnclosure,
 } from './types';
 
 // Database row types matching thermal-network.ts
+interface DbMaterial extends NodePropertyMaterial {
+  id: string;
+  conductivity: number;
+}
+
 interface DbNode {
   id: string;
   name: string;
@@ -24,6 +39,10 @@ interface DbNode {
   mass?: number | null;
   absorptivity: number | null;
   emissivity: number | null;
+  material?: DbMaterial | null;
+  coating?: DbMaterial | null;
+  propertyOverrides?: DerivedNodeField[] | null;
+  expressions?: FieldExpressions | null;
 }
 
 interface DbConductor {
@@ -37,13 +56,14 @@ interface DbConductor {
   viewFactor: number | null;
   emissivity: number | null;
   conductanceData?: { points: Array<{ temperature: number; conductance: number }> } | null;
+  expressions?: FieldExpressions | null;
 }
 
 interface DbHeatLoad {
   id: string;
   name: string;
   nodeId: string;
-  loadType: 'constant' | 'time_varying' | 'orbital';
+  loadType: 'constant' | 'time_varying' | 'orbital' | 'heater';
   value: number | null;
   timeValues: Array<{ time: number; value: number }> | null;
   orbitalParams: {
@@ -51,29 +71,47 @@ interface DbHeatLoad {
     absorptivity: number;
     emissivity: number;
     area: number;
+    surfaceNormal?: { x: number; y: number; z: number };
   } | null;
+  heaterParams?: HeaterParams | null;
+  expressions?: FieldExpressions | null;
+}
+
+/** One copy of the model inputs that a perturbation is applied to. */
+interface ModelData {
+  nodes: DbNode[];
+  conductors: DbConductor[];
+  loads: DbHeatLoad[];
+  symbols: SymbolValues;
 }
 
 interface ParameterDef {
   parameterId: string;
-  parameterType: 'node_property' | 'conductor' | 'heat_load';
+  parameterType: 'node_property' | 'conductor' | 'heat_load' | 'symbol';
   parameterLabel: string;
   entityId: string;
   baselineValue: number;
   getValue: () => number;
-  apply: (nodes: DbNode[], conductors: DbConductor[], loads: DbHeatLoad[], value: number) => void;
+  apply: (data: ModelData, value: number) => void;
 }
 
 const PERTURBATION_FRACTION = 0.05; // 5%
 const MIN_PERTURBATION = 1e-10; // avoid division by zero for zero-valued params
 
+/** True if the field's value comes from an expression rather than its literal. */
+function isDriven(entity: { expressions?: FieldExpressions | null }, field: string): boolean {
+  return entity.expressions?.[field] !== undefined;
+}
+
 /**
- * Collect all perturbable parameters from the model.
+ * Collect all perturbable parameters from the model. Fields driven by an
+ * expression are skipped — the symbols they use are perturbed instead.
  */
 function collectParameters(
   nodes: DbNode[],
   conductorsArr: DbConductor[],
   loads: DbHeatLoad[],
+  symbols: SymbolValues,
 ): ParameterDef[] {
   const params: ParameterDef[] = [];
 
@@ -81,7 +119,7 @@ function collectParameters(
   for (const node of nodes) {
     if (node.nodeType === 'boundary') continue; // boundary nodes are fixed
 
-    if (node.absorptivity !== null && node.absorptivity !== undefined) {
+    if (node.absorptivity !== null && node.absorptivity !== undefined && !isDriven(node, 'absorptivity')) {
       params.push({
         parameterId: `node_absorptivity_${node.id}`,
         parameterType: 'node_property',
@@ -89,14 +127,17 @@ function collectParameters(
         entityId: node.id,
         baselineValue: node.absorptivity!,
         getValue: () => node.absorptivity!,
-        apply: (ns, _cs, _ls, val) => {
-          const n = ns.find(x => x.id === node.id);
-          if (n) n.absorptivity = val;
+        apply: (data, val) => {
+          const n = data.nodes.find(x => x.id === node.id);
+          if (n) {
+            n.absorptivity = val;
+            addPropertyOverride(n, 'absorptivity');
+          }
         },
       });
     }
 
-    if (node.emissivity !== null && node.emissivity !== undefined) {
+    if (node.emissivity !== null && node.emissivity !== undefined && !isDriven(node, 'emissivity')) {
       params.push({
         parameterId: `node_emissivity_${node.id}`,
         parameterType: 'node_property',
@@ -104,14 +145,18 @@ function collectParameters(
         entityId: node.id,
         baselineValue: node.emissivity!,
         getValue: () => node.emissivity!,
-        apply: (ns, _cs, _ls, val) => {
-          const n = ns.find(x => x.id === node.id);
-          if (n) n.emissivity = val;
+        apply: (data, val) => {
+          const n = data.nodes.find(x => x.id === node.id);
+          if (n) {
+            n.emissivity = val;
+            addPropertyOverride(n, 'emissivity');
+          }
         },
       });
     }
 
-    if (node.capacitance !== null && node.capacitance !== undefined && node.capacitance > 0) {
+    if (node.capacitance !== null && node.capacitance !== undefined && node.capacitance > 0 &&
+        !isDriven(node, 'capacitance')) {
       params.push({
         parameterId: `node_capacitance_${node.id}`,
         parameterType: 'node_property',
@@ -119,14 +164,17 @@ function collectParameters(
         entityId: node.id,
         baselineValue: node.capacitance!,
         getValue: () => node.capacitance!,
-        apply: (ns, _cs, _ls, val) => {
-          const n = ns.find(x => x.id === node.id);
-          if (n) n.capacitance = val;
+        apply: (data, val) => {
+          const n = data.nodes.find(x => x.id === node.id);
+          if (n) {
+            n.capacitance = val;
+            addPropertyOverride(n, 'capacitance');
+          }
         },
       });
     }
 
-    if (node.mass !== null && node.mass !== undefined && node.mass > 0) {
+    if (node.mass !== null && node.mass !== undefined && node.mass > 0 && !isDriven(node, 'mass')) {
       params.push({
         parameterId: `node_mass_${node.id}`,
         parameterType: 'node_property',
@@ -134,8 +182,8 @@ function collectParameters(
         entityId: node.id,
         baselineValue: node.mass!,
         getValue: () => node.mass!,
-        apply: (ns, _cs, _ls, val) => {
-          const n = ns.find(x => x.id === node.id);
+        apply: (data, val) => {
+          const n = data.nodes.find(x => x.id === node.id);
           if (n) n.mass = val;
         },
       });
@@ -145,7 +193,8 @@ function collectParameters(
   // Conductor values
   for (const cond of conductorsArr) {
     if ((cond.conductorType === 'linear' || cond.conductorType === 'contact') &&
-        cond.conductance !== null && cond.conductance !== undefined && cond.conductance > 0) {
+        cond.conductance !== null && cond.conductance !== undefined && cond.conductance > 0 &&
+        !isDriven(cond, 'conductance')) {
       params.push({
         parameterId: `conductor_conductance_${cond.id}`,
         parameterType: 'conductor',
@@ -153,15 +202,16 @@ function collectParameters(
         entityId: cond.id,
         baselineValue: cond.conductance!,
         getValue: () => cond.conductance!,
-        apply: (_ns, cs, _ls, val) => {
-          const c = cs.find(x => x.id === cond.id);
+        apply: (data, val) => {
+          const c = data.conductors.find(x => x.id === cond.id);
           if (c) c.conductance = val;
         },
       });
     }
 
     if (cond.conductorType === 'radiation' &&
-        cond.viewFactor !== null && cond.viewFactor !== undefined && cond.viewFactor > 0) {
+        cond.viewFactor !== null && cond.viewFactor !== undefined && cond.viewFactor > 0 &&
+        !isDriven(cond, 'viewFactor')) {
       params.push({
         parameterId: `conductor_viewfactor_${cond.id}`,
         parameterType: 'conductor',
@@ -169,8 +219,8 @@ function collectParameters(
         entityId: cond.id,
         baselineValue: cond.viewFactor!,
         getValue: () => cond.viewFactor!,
-        apply: (_ns, cs, _ls, val) => {
-          const c = cs.find(x => x.id === cond.id);
+        apply: (data, val) => {
+          const c = data.conductors.find(x => x.id === cond.id);
           if (c) c.viewFactor = val;
         },
       });
@@ -179,7 +229,8 @@ function collectParameters(
 
   // Heat load magnitudes (constant loads only — time-varying and orbital excluded)
   for (const load of loads) {
-    if (load.loadType === 'constant' && load.value !== null && load.value !== undefined) {
+    if (load.loadType === 'constant' && load.value !== null && load.value !== undefined &&
+        !isDriven(load, 'value')) {
       params.push({
         parameterId: `heatload_value_${load.id}`,
         parameterType: 'heat_load',
@@ -187,14 +238,29 @@ function collectParameters(
         entityId: load.id,
         baselineValue: load.value!,
         getValue: () => load.value!,
-        apply: (_ns, _cs, ls, val) => {
-          const l = ls.find(x => x.id === load.id);
+        apply: (data, val) => {
+          const l = data.loads.find(x => x.id === load.id);
           if (l) l.value = val;
         },
       });
     }
   }
 
+  // Model symbols — each drives every field whose expression uses it
+  for (const [name, value] of Object.entries(symbols)) {
+    params.push({
+      parameterId: `symbol_value_${name}`,
+      parameterType: 'symbol',
+      parameterLabel: `Symbol — ${name}`,
+      entityId: name,
+      baselineValue: value,
+      getValue: () => value,
+      apply: (data, val) => {
+        data.symbols[name] = val;
+      },
+    });
+  }
+
   return params;
 }
 
@@ -205,8 +271,10 @@ function cloneData(
   nodes: DbNode[],
   conductorsArr: DbConductor[],
   loads: DbHeatLoad[],
-): { nodes: DbNode[]; conductors: DbConductor[]; loads: DbHeatLoad[] } {
+  symbols: SymbolValues,
+): ModelData {
   return {
+    symbols: { ...symbols },
     nodes: nodes.map(n => ({ ...n })),
     conductors: conductorsArr.map(c => ({ ...c, conductanceData: c.conductanceData ? { points: [...c.conductanceData.points] } : c.conductanceData })),
     loads: loads.map(l => ({ ...l, timeValues: l.timeValues ? [...l.timeValues] : l.timeValues, orbitalParams: l.orbitalParams ? { ...l.orbitalParams } : null })),
@@ -217,12 +285,20 @@ function cloneData(
  * Run a steady-state solve and return the final temperature map (nodeId → temperature).
  */
 function runSteadyStateSolve(
-  nodes: DbNode[],
-  conductorsArr: DbConductor[],
-  loads: DbHeatLoad[],
+  data: ModelData,
   orbitalConfig: OrbitalConfig | null,
+  environment: EnvironmentPreset | null,
+  enclosure: RadiationEnclosure | null,
 ): Map<string, number> {
-  const network = buildThermalNetwork(nodes, conductorsArr, loads, orbitalConfig);
+  const network = buildThermalNetwork(
+    data.nodes,
+    data.conductors,
+    data.loads,
+    orbitalConfig,
+    environment,
+    data.symbols,
+    enclosure,
+  );
 
   const config: SimulationConfig = {
     simulationType: 'steady_state',
@@ -260,6 +336,82 @@ function estimateSecondOrder(
   return (tPlus - 2 * tBase + tMinus) / (delta * delta);
 }
 
+/**
+ * Central-difference sensitivities of every non-boundary node's steady-state
+ * temperature to each perturbable parameter.
+ */
+export function computeSensitivityEntries(
+  modelNodes: DbNode[],
+  conductorsArr: DbConductor[],
+  loads: DbHeatLoad[],
+  orbitalConfig: OrbitalConfig | null,
+  environment: EnvironmentPreset | null = null,
+  symbols: SymbolValues = {},
+  enclosure: RadiationEnclosure | null = null,
+): SensitivityEntry[] {
+  // Perturb the values the solver uses, not stored columns a material replaces
+  const nodes = modelNodes.map((n) =>
+    n.propertyOverrides ? applyDerivedNodeProperties(n, n.material, n.coating) : n,
+  );
+  const parameters = collectParameters(nodes, conductorsArr, loads, symbols);
+  if (parameters.length === 0) return [];
+
+  // Run baseline steady-state solve
+  const baselineTemps = runSteadyStateSolve(
+    { nodes, conductors: conductorsArr, loads, symbols },
+    orbitalConfig,
+    environment,
+    enclosure,
+  );
+
+  // Get all node IDs for output (non-boundary)
+  const outputNodeIds = nodes
+    .filter(n => n.nodeType !== 'boundary')
+    .map(n => n.id);
+
+  const entries: SensitivityEntry[] = [];
+
+  // For each parameter, perturb ±5% and compute sensitivity
+  for (const param of parameters) {
+    const baseValue = param.getValue();
+    const delta = Math.max(Math.abs(baseValue * PERTURBATION_FRACTION), MIN_PERTURBATION);
+
+    // +5% perturbation
+    const plusData = cloneData(nodes, conductorsArr, loads, symbols);
+    param.apply(plusData, baseValue + delta);
+    const plusTemps = runSteadyStateSolve(plusData, orbitalConfig, environment, enclosure);
+
+    // -5% perturbation
+    const minusData = cloneData(nodes, conductorsArr, loads, symbols);
+    param.apply(minusData, baseValue - delta);
+    const minusTemps = runSteadyStateSolve(minusData, orbitalConfig, environment, enclosure);
+
+    // Compute derivatives for each output node
+    for (const nodeId of outputNodeIds) {
+      const tPlus = plusTemps.get(nodeId) ?? 0;
+      const tMinus = minusTemps.get(nodeId) ?? 0;
+      const tBase = baselineTemps.get(nodeId) ?? 0;
+
+      // Central difference: dT/dp = (T+ - T-) / (2 * delta)
+      const dT_dp = (tPlus - tMinus) / (2 * delta);
+
+      // Second-order estimate
+      const secondOrder = estimateSecondOrder(tPlus, tBase, tMinus, delta);
+
+      entries.push({
+        parameterId: param.parameterId,
+        parameterType: param.parameterType,
+        entityId: param.entityId,
+        nodeId,
+        dT_dp,
+        secondOrderEstimate: secondOrder,
+        baselineValue: param.baselineValue,
+      });
+    }
+  }
+  return entries;
+}
+
 /**
  * Main entry point: compute sensitivity matrix for a completed simulation run.
  * Called as a background task after simulation completes.
@@ -270,6 +422,9 @@ export async function computeSensitivityMatrix(
   conductorsArr: DbConductor[],
   loads: DbHeatLoad[],
   orbitalConfig: OrbitalConfig | null,
+  environment: EnvironmentPreset | null = null,
+  symbols: SymbolValues = {},
+  enclosure: RadiationEnclosure | null = null,
 ): Promise<void> {
   try {
     // Mark as running
@@ -278,69 +433,15 @@ export async function computeSensitivityMatrix(
       .set({ status: 'running' })
       .where(eq(sensitivityMatrices.id, sensitivityId));
 
-    // Collect parameters
-    const parameters = collectParameters(nodes, conductorsArr, loads);
-
-    if (parameters.length === 0) {
-      await db
-        .update(sensitivityMatrices)
-        .set({
-          status: 'complete',
-          computedAt: new Date(),
-          entries: [],
-        })
-        .where(eq(sensitivityMatrices.id, sensitivityId));
-      return;
-    }
-
-    // Run baseline steady-state solve
-    const baselineTemps = runSteadyStateSolve(nodes, conductorsArr, loads, orbitalConfig);
-
-    // Get all node IDs for output (non-boundary)
-    const outputNodeIds = nodes
-      .filter(n => n.nodeType !== 'boundary')
-      .map(n => n.id);
-
-    const entries: SensitivityEntry[] = [];
-
-    // For each parameter, perturb ±5% and compute sensitivity
-    for (const param of parameters) {
-      const baseValue = param.getValue();
-      const delta = Math.max(Math.abs(baseValue * PERTURBATION_FRACTION), MIN_PERTURBATION);
-
-      // +5% perturbation
-      const plusData = cloneData(nodes, conductorsArr, loads);
-      param.apply(plusData.nodes, plusData.conductors, plusData.loads, baseValue + delta);
-      const plusTemps = runSteadyStateSolve(plusData.nodes, plusData.conductors, plusData.loads, orbitalConfig);
-
-      // -5% perturbation
-      const minusData = cloneData(nodes, conductorsArr, loads);
-      param.apply(minusData.nodes, minusData.conductors, minusData.loads, baseValue - delta);
-      const minusTemps = runSteadyStateSolve(minusData.nodes, minusData.conductors, minusData.loads, orbitalConfig);
-
-      // Compute derivatives for each output node
-      for (const nodeId of outputNodeIds) {
-        const tPlus = plusTemps.get(nodeId) ?? 0;
-        const tMinus = minusTemps.get(nodeId) ?? 0;
-        const tBase = baselineTemps.get(nodeId) ?? 0;
-
-        // Central difference: dT/dp = (T+ - T-) / (2 * delta)
-        const dT_dp = (tPlus - tMinus) / (2 * delta);
-
-        // Second-order estimate
-        const secondOrder = estimateSecondOrder(tPlus, tBase, tMinus, delta);
-
-        entries.push({
-          parameterId: param.parameterId,
-          parameterType: param.parameterType,
-          entityId: param.entityId,
-          nodeId,
-          dT_dp,
-          secondOrderEstimate: secondOrder,
-          baselineValue: param.baselineValue,
-        });
-      }
-    }
+    const entries = computeSensitivityEntries(
+      nodes,
+      conductorsArr,
+      loads,
+      orbitalConfig,
+      environment,
+      symbols,
+      enclosure,
+    );
 
     // Store results
     await db
@@ -0,0 +1,459 @@
+/**
+ * Sparse linear algebra for the Newton solvers.
+ *
+ * Thermal networks are very sparse (a handful of conductors per node), so the
+ * Jacobian is stored in CSR form with a structure built once from the
+ * network's `nodeConductors` adjacency, and each Newton step is solved with a
+ * preconditioned Krylov method instead of a dense inverse:
+ *   - BiCGSTAB for the general (non-symmetric, radiation) case
+ *   - CG for symmetric positive-definite systems (linear conductors only)
+ *   - ILU(0) or Jacobi preconditioning
+ */
+
+import {
+  STEFAN_BOLTZMANN,
+  type ThermalNetwork,
+  type SolverConductor,
+  type SolverNode,
+} from './types';
+import { interpolateGeff } from './heat-pipe';
+import { conductorMaterialScaleAt } from './material-properties';
+import { spaceRadiationCoefficient } from './heat-flow';
+
+// ── CSR Matrix ──────────────────────────────────────────────────────────────
+
+/** Compressed sparse row matrix. Column indices are sorted within each row. */
+export interface CsrMatrix {
+  n: number;
+  rowPtr: Int32Array; // length n + 1
+  colIdx: Int32Array; // length nnz
+  values: Float64Array; // length nnz
+  diagIdx: Int32Array; // position of (i, i) in colIdx/values, per row
+}
+
+/**
+ * Build an empty CSR matrix (all values 0) from per-row column sets.
+ * The diagonal is always included.
+ */
+export function createCsrPattern(columns: Array<Set<number>>): CsrMatrix {
+  const n = columns.length;
+  const rowPtr = new Int32Array(n + 1);
+  for (let i = 0; i < n; i++) {
+    columns[i].add(i);
+    rowPtr[i + 1] = rowPtr[i] + columns[i].size;
+  }
+
+  const colIdx = new Int32Array(rowPtr[n]);
+  const diagIdx = new Int32Array(n);
+  for (let i = 0; i < n; i++) {
+    const cols = Array.from(columns[i]).sort((a, b) => a - b);
+    for (let k = 0; k < cols.length; k++) {
+      colIdx[rowPtr[i] + k] = cols[k];
+      if (cols[k] === i) diagIdx[i] = rowPtr[i] + k;
+    }
+  }
+
+  return { n, rowPtr, colIdx, values: new Float64Array(rowPtr[n]), diagIdx };
+}
+
+/** Position of entry (row, col) in colIdx/values, or -1 if not in the pattern. */
+export function findEntry(A: CsrMatrix, row: number, col: number): number {
+  let lo = A.rowPtr[row];
+  let hi = A.rowPtr[row + 1] - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const c = A.colIdx[mid];
+    if (c === col) return mid;
+    if (c < col) lo = mid + 1;
+    else hi = mid - 1;
+  }
+  return -1;
+}
+
+/** y = A x */
+export function multiplyCsr(A: CsrMatrix, x: Float64Array, y: Float64Array): void {
+  for (let i = 0; i < A.n; i++) {
+    let sum = 0;
+    for (let k = A.rowPtr[i]; k < A.rowPtr[i + 1]; k++) {
+      sum += A.values[k] * x[A.colIdx[k]];
+    }
+    y[i] = sum;
+  }
+}
+
+// ── Preconditioners ─────────────────────────────────────────────────────────
+
+export type PreconditionerType = 'ilu0' | 'jacobi' | 'none';
+
+/** Applies z = M⁻¹ r */
+type Preconditioner = (r: Float64Array, z: Float64Array) => void;
+
+function jacobiPreconditioner(A: CsrMatrix): Preconditioner {
+  const invDiag = new Float64Array(A.n);
+  for (let i = 0; i < A.n; i++) {
+    const d = A.values[A.diagIdx[i]];
+    invDiag[i] = d !== 0 ? 1 / d : 1;
+  }
+  return (r, z) => {
+    for (let i = 0; i < A.n; i++) z[i] = r[i] * invDiag[i];
+  };
+}
+
+/**
+ * Incomplete LU factorisation with zero fill-in. Returns null on a zero
+ * pivot so the caller can fall back to Jacobi.
+ */
+function ilu0Preconditioner(A: CsrMatrix): Preconditioner | null {
+  const { n, rowPtr, colIdx, diagIdx } = A;
+  const lu = Float64Array.from(A.values);
+
+  for (let i = 0; i < n; i++) {
+    for (let ik = rowPtr[i]; ik < diagIdx[i]; ik++) {
+      const k = colIdx[ik];
+      const pivot = lu[diagIdx[k]];
+      if (pivot === 0) return null;
+      lu[ik] /= pivot;
+
+      // Row i (cols > k) -= l_ik * row k (cols > k), restricted to row i's pattern
+      let ij = ik + 1;
+      let kj = diagIdx[k] + 1;
+      const iEnd = rowPtr[i + 1];
+      const kEnd = rowPtr[k + 1];
+      while (ij < iEnd && kj < kEnd) {
+        if (colIdx[ij] === colIdx[kj]) {
+          lu[ij] -= lu[ik] * lu[kj];
+          ij++;
+          kj++;
+        } else if (colIdx[ij] < colIdx[kj]) {
+          ij++;
+        } else {
+          kj++;
+        }
+      }
+    }
+    if (lu[diagIdx[i]] === 0) return null;
+  }
+
+  return (r, z) => {
+    // Forward solve L y = r (unit diagonal)
+    for (let i = 0; i < n; i++) {
+      let sum = r[i];
+      for (let k = rowPtr[i]; k < diagIdx[i]; k++) sum -= lu[k] * z[colIdx[k]];
+      z[i] = sum;
+    }
+    // Back solve U z = y
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = z[i];
+      for (let k = diagIdx[i] + 1; k < rowPtr[i + 1]; k++) sum -= lu[k] * z[colIdx[k]];
+      z[i] = sum / lu[diagIdx[i]];
+    }
+  };
+}
+
+function createPreconditioner(A: CsrMatrix, type: PreconditionerType): Preconditioner {
+  if (type === 'ilu0') {
+    return ilu0Preconditioner(A) ?? jacobiPreconditioner(A);
+  }
+  if (type === 'jacobi') return jacobiPreconditioner(A);
+  return (r, z) => z.set(r);
+}
+
+// ── Krylov Solvers ──────────────────────────────────────────────────────────
+
+export type LinearSolverMethod = 'bicgstab' | 'cg';
+
+export interface LinearSolveOptions {
+  method?: LinearSolverMethod; // default 'bicgstab'
+  preconditioner?: PreconditionerType; // default 'ilu0'
+  tolerance?: number; // relative residual ‖b - Ax‖ / ‖b‖, default 1e-10
+  maxIterations?: number; // default max(100, 2n)
+}
+
+export interface LinearSolveResult {
+  x: Float64Array;
+  converged: boolean;
+  iterations: number;
+  relativeResidual: number;
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+function norm(a: Float64Array): number {
+  return Math.sqrt(dot(a, a));
+}
+
+/** Preconditioned conjugate gradient. A must be symmetric positive definite. */
+function conjugateGradient(
+  A: CsrMatrix,
+  b: Float64Array,
+  M: Preconditioner,
+  tolerance: number,
+  maxIterations: number,
+): LinearSolveResult {
+  const n = A.n;
+  const x = new Float64Array(n);
+  const r = Float64Array.from(b);
+  const z = new Float64Array(n);
+  const p = new Float64Array(n);
+  const Ap = new Float64Array(n);
+
+  const bNorm = norm(b);
+  if (bNorm === 0) return { x, converged: true, iterations: 0, relativeResidual: 0 };
+
+  M(r, z);
+  p.set(z);
+  let rz = dot(r, z);
+
+  for (let iter = 1; iter <= maxIterations; iter++) {
+    multiplyCsr(A, p, Ap);
+    const pAp = dot(p, Ap);
+    if (pAp === 0) break;
+    const alpha = rz / pAp;
+    for (let i = 0; i < n; i++) {
+      x[i] += alpha * p[i];
+      r[i] -= alpha * Ap[i];
+    }
+
+    const rel = norm(r) / bNorm;
+    if (rel < tolerance) {
+      return { x, converged: true, iterations: iter, relativeResidual: rel };
+    }
+
+    M(r, z);
+    const rzNew = dot(r, z);
+    const beta = rzNew / rz;
+    rz = rzNew;
+    for (let i = 0; i < n; i++) p[i] = z[i] + beta * p[i];
+  }
+
+  return { x, converged: false, iterations: maxIterations, relativeResidual: norm(r) / bNorm };
+}
+
+/** Right-preconditioned BiCGSTAB for general non-symmetric systems. */
+function biCgStab(
+  A: CsrMatrix,
+  b: Float64Array,
+  M: Preconditioner,
+  tolerance: number,
+  maxIterations: number,
+): LinearSolveResult {
+  const n = A.n;
+  const x = new Float64Array(n);
+  const r = Float64Array.from(b);
+  const rHat = Float64Array.from(b);
+  const p = new Float64Array(n);
+  const v = new Float64Array(n);
+  const s = new Float64Array(n);
+  const t = new Float64Array(n);
+  const pHat = new Float64Array(n);
+  const sHat = new Float64Array(n);
+
+  const bNorm = norm(b);
+  if (bNorm === 0) return { x, converged: true, iterations: 0, relativeResidual: 0 };
+
+  let rho = 1;
+  let alpha = 1;
+  let omega = 1;
+
+  for (let iter = 1; iter <= maxIterations; iter++) {
+    const rhoNew = dot(rHat, r);
+    if (rhoNew === 0) break; // breakdown
+
+    if (iter === 1) {
+      p.set(r);
+    } else {
+      const beta = (rhoNew / rho) * (alpha / omega);
+      for (let i = 0; i < n; i++) p[i] = r[i] + beta * (p[i] - omega * v[i]);
+    }
+    rho = rhoNew;
+
+    M(p, pHat);
+    multiplyCsr(A, pHat, v);
+    const rHatV = dot(rHat, v);
+    if (rHatV === 0) break;
+    alpha = rho / rHatV;
+
+    for (let i = 0; i < n; i++) s[i] = r[i] - alpha * v[i];
+    const sRel = norm(s) / bNorm;
+    if (sRel < tolerance) {
+      for (let i = 0; i < n; i++) x[i] += alpha * pHat[i];
+      return { x, converged: true, iterations: iter, relativeResidual: sRel };
+    }
+
+    M(s, sHat);
+    multiplyCsr(A, sHat, t);
+    const tt = dot(t, t);
+    if (tt === 0) break;
+    omega = dot(t, s) / tt;
+
+    for (let i = 0; i < n; i++) {
+      x[i] += alpha * pHat[i] + omega * sHat[i];
+      r[i] = s[i] - omega * t[i];
+    }
+
+    const rel = norm(r) / bNorm;
+    if (rel < tolerance) {
+      return { x, converged: true, iterations: iter, relativeResidual: rel };
+    }
+    if (omega === 0) break;
+  }
+
+  // Report the true residual of whatever we ended with
+  multiplyCsr(A, x, t);
+  for (let i = 0; i < n; i++) r[i] = b[i] - t[i];
+  const rel = norm(r) / bNorm;
+  return { x, converged: rel < tolerance, iterations: maxIterations, relativeResidual: rel };
+}
+
+/** Solve A x = b with a preconditioned Krylov method. */
+export function solveSparse(
+  A: CsrMatrix,
+  b: Float64Array,
+  options: LinearSolveOptions = {},
+): LinearSolveResult {
+  const method = options.method ?? 'bicgstab';
+  const tolerance = options.tolerance ?? 1e-10;
+  const maxIterations = options.maxIterations ?? Math.max(100, 2 * A.n);
+  const M = createPreconditioner(A, options.preconditioner ?? 'ilu0');
+
+  return method === 'cg'
+    ? conjugateGradient(A, b, M, tolerance, maxIterations)
+    : biCgStab(A, b, M, tolerance, maxIterations);
+}
+
+// ── Network Jacobian ────────────────────────────────────────────────────────
+
+interface JacobianTerm {
+  conductor: SolverConductor;
+  otherNodeId: string;
+  otherPos: number; // position of (row, other) in the matrix, -1 if other is not solved for
+}
+
+/** Sparse Jacobian structure for a fixed set of unknown nodes. */
+export interface NetworkJacobian {
+  matrix: CsrMatrix;
+  nodeIds: string[]; // row/column order
+  index: Map<string, number>;
+  terms: JacobianTerm[][]; // per row, from the node's conductor adjacency
+  nodes: Map<string, SolverNode> | null; // set when material k(T)/ε(T) apply
+  space: Array<SolverNode | null>; // per row, the node if it radiates to space
+  network: ThermalNetwork;
+}
+
+/**
+ * Build the Jacobian structure for `nodeIds` from the network's conductor
+ * adjacency. Conductors to nodes outside the set (boundary nodes, or nodes
+ * solved separately) only contribute to the diagonal.
+ */
+export function createNetworkJacobian(
+  network: ThermalNetwork,
+  nodeIds: string[],
+): NetworkJacobian {
+  const index = new Map<string, number>();
+  nodeIds.forEach((id, i) => index.set(id, i));
+
+  const columns = nodeIds.map(() => new Set<number>());
+  for (let i = 0; i < nodeIds.length; i++) {
+    for (const entry of network.nodeConductors.get(nodeIds[i]) ?? []) {
+      const j = index.get(entry.otherNodeId);
+      if (j !== undefined) columns[i].add(j);
+    }
+  }
+
+  const matrix = createCsrPattern(columns);
+  const terms = nodeIds.map((nodeId, i) =>
+    (network.nodeConductors.get(nodeId) ?? []).map((entry) => {
+      const j = index.get(entry.otherNodeId);
+      return {
+        conductor: entry.conductor,
+        otherNodeId: entry.otherNodeId,
+        otherPos: j !== undefined ? findEntry(matrix, i, j) : -1,
+      };
+    }),
+  );
+
+  return {
+    matrix,
+    nodeIds,
+    index,
+    terms,
+    nodes: network.hasMaterialTables ? network.nodes : null,
+    space: nodeIds.map((id) => {
+      const node = network.nodes.get(id);
+      return node?.radiatesToSpace ? node : null;
+    }),
+    network,
+  };
+}
+
+/**
+ * Fill the matrix with A = -∂Q_net/∂T (conductor terms only) plus an optional
+ * diagonal shift, e.g. C/dt for implicit time stepping.
+ *
+ * For every conductor between i and j the net heat into i has
+ *   ∂Q_i/∂T_i = -g_i,  ∂Q_i/∂T_j = +g_j
+ * with g = G (linear/contact), G_eff(T_avg) frozen (heat pipe) or 4σεAF·T³
+ * (radiation), independent of the conductor's from/to direction. Material
+ * k(T)/ε(T) scale factors are frozen at the current temperatures too. A node's
+ * radiation to space adds 4σεAF·T³ to its diagonal.
+ */
+export function fillNetworkJacobian(
+  jac: NetworkJacobian,
+  temperatures: Map<string, number>,
+  diagonalShift: Float64Array | null = null,
+): void {
+  const { matrix, nodeIds, terms, nodes, space, network } = jac;
+  matrix.values.fill(0);
+
+  for (let i = 0; i < nodeIds.length; i++) {
+    const tNode = temperatures.get(nodeIds[i])!;
+    let diag = diagonalShift ? diagonalShift[i] : 0;
+
+    for (const term of terms[i]) {
+      const tOther = temperatures.get(term.otherNodeId);
+      if (tOther === undefined) continue;
+      const c = term.conductor;
+
+      let gSelf: number;
+      let gOther: number;
+      switch (c.conductorType) {
+        case 'linear':
+          gSelf = gOther =
+            c.conductance *
+            (nodes ? conductorMaterialScaleAt(c, nodeIds[i], tNode, tOther, nodes) : 1);
+          break;
+        case 'contact':
+          gSelf = gOther = c.conductance;
+          break;
+        case 'heat_pipe':
+          gSelf = gOther = interpolateGeff(
+            c.conductanceData?.points ?? null,
+            (tNode + tOther) / 2,
+          );
+          break;
+        case 'radiation': {
+          const k =
+            4 * STEFAN_BOLTZMANN * c.emissivity * c.area * c.viewFactor *
+            (nodes ? conductorMaterialScaleAt(c, nodeIds[i], tNode, tOther, nodes) : 1);
+          gSelf = k * Math.pow(tNode, 3);
+          gOther = k * Math.pow(tOther, 3);
+          break;
+        }
+      }
+
+      diag += gSelf;
+      if (term.otherPos >= 0) matrix.values[term.otherPos] -= gOther;
+    }
+
+    const spaceNode = space[i];
+    if (spaceNode) {
+      diag += 4 * spaceRadiationCoefficient(spaceNode, tNode, network) * Math.pow(tNode, 3);
+    }
+
+    matrix.values[matrix.diagIdx[i]] += diag;
+  }
+}
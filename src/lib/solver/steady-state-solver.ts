@@ -1,32 +1,45 @@
-import { multiply, inv, matrix, type Matrix } from 'mathjs';
 import type {
   ThermalNetwork,
   SimulationConfig,
+  SolverHooks,
   SolverResult,
   NodeResult,
   ConductorFlowResult,
-} from './types';
-import {
-  STEFAN_BOLTZMANN,
+  HeaterResult,
+  SpaceFlowResult,
 } from './types';
 import {
   computeNodeHeatLoad,
   computeConductorFlow,
   computeTotalConductorHeatFlow,
+  computeSpaceRadiationFlow,
+  computeAllSpaceFlows,
 } from './heat-flow';
+import {
+  createNetworkJacobian,
+  fillNetworkJacobian,
+  solveSparse,
+  type NetworkJacobian,
+} from './sparse';
+import { getHeaterLoads } from './heater';
+
+/** Bisection passes for heater duty cycles — resolves duty to ~1e-6. */
+const HEATER_BISECTION_PASSES = 20;
 
 /**
  * Newton-Raphson steady-state solver.
  *
  * Solves the nonlinear system F(T) = 0 where:
- * F_i(T) = Σ G_ij*(T_j - T_i) + Σ σ*ε*A*F*(T_j⁴ - T_i⁴) + Q_i = 0
+ * F_i(T) = Σ G_ij*(T_j - T_i) + Σ σ*ε*A*F*(T_j⁴ - T_i⁴) + Q_i
+ *          - σ*ε_i*A_i*F_i,space*(T_i⁴ - T_space⁴) = 0
  *
- * Uses Jacobian: J_ij = ∂F_i/∂T_j
- * Iteration: T_new = T - J⁻¹ * F(T)
+ * Uses Jacobian: J_ij = ∂F_i/∂T_j, stored sparse (see sparse.ts)
+ * Iteration: solve J * δT = -F(T) with ILU(0)-preconditioned BiCGSTAB
  */
 export function solveSteadyState(
   network: ThermalNetwork,
   config: SimulationConfig,
+  hooks: SolverHooks = {},
 ): SolverResult {
   const { maxIterations, tolerance } = config;
 
@@ -48,9 +61,8 @@ export function solveSteadyState(
     };
   }
 
-  // Create index map for matrix operations
-  const nodeIndexMap = new Map<string, number>();
-  solveNodeIds.forEach((id, idx) => nodeIndexMap.set(id, idx));
+  // Sparse Jacobian structure — fixed for the whole solve, values refilled per iteration
+  const jacobian = createNetworkJacobian(network, solveNodeIds);
 
   // Initialize temperatures
   const temperatures = new Map<string, number>();
@@ -58,138 +70,70 @@ export function solveSteadyState(
     temperatures.set(nodeId, node.initialTemperature);
   }
 
+  const heaters = getHeaterLoads(network);
   let converged = false;
   let iterations = 0;
+  let heaterResults: HeaterResult[] | undefined;
 
-  for (let iter = 0; iter < maxIterations; iter++) {
-    iterations = iter + 1;
-
-    // Compute residual vector F(T)
-    const F = new Array<number>(n).fill(0);
-
-    for (let i = 0; i < n; i++) {
-      const nodeId = solveNodeIds[i];
-
-      // Sum conductor heat flows into this node
-      const conductorHeat = computeTotalConductorHeatFlow(
-        nodeId,
-        temperatures,
-        network,
-      );
+  if (heaters.length === 0) {
+    ({ converged, iterations } = solveNewton(
+      network,
+      solveNodeIds,
+      jacobian,
+      temperatures,
+      maxIterations,
+      tolerance,
+      (iter) => hooks.onProgress?.(iter / maxIterations),
+    ));
+  } else {
+    // A thermostat holds its sense node in the deadband by cycling; averaged,
+    // that is a fractional duty keeping the sense node mid-band. Bisect every
+    // heater's duty together — more power never cools its own sense node.
+    const lo = new Map(heaters.map((h) => [h.id, 0]));
+    const hi = new Map(heaters.map((h) => [h.id, 1]));
+    const output = new Map<string, number>();
+    network.heaterOutput = output;
 
-      // External heat loads (at t=0 for steady state)
-      const externalHeat = computeNodeHeatLoad(
-        nodeId,
-        network.heatLoads,
-        0,
+    for (let pass = 0; pass < HEATER_BISECTION_PASSES; pass++) {
+      for (const h of heaters) {
+        output.set(h.id, (lo.get(h.id)! + hi.get(h.id)!) / 2);
+      }
+      const newton = solveNewton(
         network,
+        solveNodeIds,
+        jacobian,
+        temperatures,
+        maxIterations,
+        tolerance,
       );
+      converged = newton.converged;
+      iterations += newton.iterations;
+      hooks.onProgress?.((pass + 1) / HEATER_BISECTION_PASSES);
 
-      F[i] = conductorHeat + externalHeat;
-    }
-
-    // Check convergence
-    const maxResidual = Math.max(...F.map(Math.abs));
-    if (maxResidual < tolerance) {
-      converged = true;
-      break;
-    }
-
-    // Compute Jacobian matrix J(T)
-    const J: number[][] = Array.from({ length: n }, () =>
-      new Array<number>(n).fill(0),
-    );
-
-    for (const conductor of network.conductors) {
-      const fromIdx = nodeIndexMap.get(conductor.nodeFromId);
-      const toIdx = nodeIndexMap.get(conductor.nodeToId);
-      const tFrom = temperatures.get(conductor.nodeFromId) ?? 0;
-      const tTo = temperatures.get(conductor.nodeToId) ?? 0;
-
-      if (conductor.conductorType === 'linear' || conductor.conductorType === 'contact') {
-        const G = conductor.conductance;
-
-        // ∂F_from/∂T_from: heat leaving from node
-        if (fromIdx !== undefined) {
-          J[fromIdx][fromIdx] -= G;
-          if (toIdx !== undefined) {
-            J[fromIdx][toIdx] += G;
-          }
-        }
-
-        // ∂F_to/∂T_to: heat arriving at to node
-        if (toIdx !== undefined) {
-          J[toIdx][toIdx] -= G;
-          if (fromIdx !== undefined) {
-            J[toIdx][fromIdx] += G;
-          }
-        }
-      } else if (conductor.conductorType === 'radiation') {
-        const sigma_eps_A_F =
-          STEFAN_BOLTZMANN *
-          conductor.emissivity *
-          conductor.area *
-          conductor.viewFactor;
-
-        // dQ/dT_from = σεAF * 4 * T_from³
-        // dQ/dT_to = σεAF * (-4) * T_to³  (for flow from → to)
-        // but flow = σεAF * (T_from⁴ - T_to⁴)
-        // Partial derivatives:
-        const dQdTfrom = sigma_eps_A_F * 4 * Math.pow(tFrom, 3);
-        const dQdTto = sigma_eps_A_F * 4 * Math.pow(tTo, 3);
-
-        if (fromIdx !== undefined) {
-          J[fromIdx][fromIdx] -= dQdTfrom;
-          if (toIdx !== undefined) {
-            J[fromIdx][toIdx] += dQdTto;
-          }
-        }
-
-        if (toIdx !== undefined) {
-          J[toIdx][toIdx] -= dQdTto;
-          if (fromIdx !== undefined) {
-            J[toIdx][fromIdx] += dQdTfrom;
-          }
+      for (const h of heaters) {
+        const { senseNodeId, onSetpoint, offSetpoint } = h.heaterParams!;
+        const tSense = temperatures.get(senseNodeId) ?? 0;
+        if (tSense > (onSetpoint + offSetpoint) / 2) {
+          hi.set(h.id, output.get(h.id)!);
+        } else {
+          lo.set(h.id, output.get(h.id)!);
         }
       }
     }
 
-    // Solve J * δT = -F using math.js matrix inversion
-    // For small systems this is fine; for large systems, use LU decomposition
-    try {
-      const Jmat = matrix(J);
-      const Fvec = matrix(F.map((f) => [-f]));
-      const Jinv = inv(Jmat);
-      const deltaT = multiply(Jinv, Fvec) as Matrix;
-
-      // Apply Newton step with damping for stability
-      const dampingFactor = 1.0;
-      for (let i = 0; i < n; i++) {
-        const nodeId = solveNodeIds[i];
-        const currentT = temperatures.get(nodeId) ?? 293;
-        const dT = (deltaT.get([i, 0]) as number) * dampingFactor;
-
-        // Clamp temperature change to prevent wild oscillations
-        const maxChange = 100; // K per iteration
-        const clampedDT = Math.max(Math.min(dT, maxChange), -maxChange);
-
-        // Ensure temperature stays positive (Kelvin)
-        const newT = Math.max(currentT + clampedDT, 1);
-        temperatures.set(nodeId, newT);
-      }
-    } catch {
-      // Singular matrix — try with damping
-      // Fall back to simple relaxation
-      for (let i = 0; i < n; i++) {
-        const nodeId = solveNodeIds[i];
-        const currentT = temperatures.get(nodeId) ?? 293;
-        // Simple gradient step
-        const dT = F[i] * 0.01;
-        const maxChange = 10;
-        const clampedDT = Math.max(Math.min(dT, maxChange), -maxChange);
-        temperatures.set(nodeId, Math.max(currentT + clampedDT, 1));
-      }
-    }
+    heaterResults = heaters.map((h) => {
+      const duty = output.get(h.id)!;
+      return {
+        heatLoadId: h.id,
+        nodeId: h.nodeId,
+        senseNodeId: h.heaterParams!.senseNodeId,
+        timeline: [],
+        dutyCycle: duty,
+        averagePower: duty * h.heaterParams!.maxPower,
+        orbitAveragePower: [],
+        energy: 0,
+      };
+    });
   }
 
   // Ensure boundary nodes are at their fixed temperatures
@@ -205,7 +149,7 @@ export function solveSteadyState(
     (conductor) => {
       const tFrom = temperatures.get(conductor.nodeFromId) ?? 0;
       const tTo = temperatures.get(conductor.nodeToId) ?? 0;
-      const flow = computeConductorFlow(conductor, tFrom, tTo);
+      const flow = computeConductorFlow(conductor, tFrom, tTo, network);
       return {
         conductorId: conductor.id,
         times: [0],
@@ -214,15 +158,24 @@ export function solveSteadyState(
     },
   );
 
+  const spaceFlows: SpaceFlowResult[] = [];
+  for (const [nodeId, flow] of computeAllSpaceFlows(temperatures, network)) {
+    spaceFlows.push({ nodeId, times: [0], flows: [flow] });
+  }
+
   // Compute energy balance
   let totalExternalQ = 0;
   let totalRadiationToSpace = 0;
+  for (const { flows } of spaceFlows) {
+    totalRadiationToSpace += flows[0];
+  }
   for (const [nodeId] of network.nodes) {
     totalExternalQ += computeNodeHeatLoad(
       nodeId,
       network.heatLoads,
       0,
       network,
+      temperatures.get(nodeId),
     );
   }
 
@@ -249,5 +202,106 @@ export function solveSteadyState(
     energyBalanceError,
     converged,
     iterations,
+    heaterResults,
+    spaceFlows,
   };
 }
+
+/**
+ * Newton-Raphson iterations from the current `temperatures` (updated in
+ * place) until the largest nodal residual is below `tolerance` W.
+ */
+function solveNewton(
+  network: ThermalNetwork,
+  solveNodeIds: string[],
+  jacobian: NetworkJacobian,
+  temperatures: Map<string, number>,
+  maxIterations: number,
+  tolerance: number,
+  onIteration?: (iter: number) => void,
+): { converged: boolean; iterations: number } {
+  const n = solveNodeIds.length;
+  let converged = false;
+  let iterations = 0;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    iterations = iter + 1;
+    onIteration?.(iter);
+
+    // Compute residual vector F(T)
+    const F = new Float64Array(n);
+    let maxResidual = 0;
+
+    for (let i = 0; i < n; i++) {
+      const nodeId = solveNodeIds[i];
+
+      // Sum conductor heat flows into this node
+      const conductorHeat = computeTotalConductorHeatFlow(
+        nodeId,
+        temperatures,
+        network,
+      );
+
+      // External heat loads (at t=0 for steady state)
+      const externalHeat = computeNodeHeatLoad(
+        nodeId,
+        network.heatLoads,
+        0,
+        network,
+        temperatures.get(nodeId),
+      );
+
+      // Radiation to deep space
+      const spaceHeat = computeSpaceRadiationFlow(
+        network.nodes.get(nodeId)!,
+        temperatures.get(nodeId)!,
+        network,
+      );
+
+      F[i] = conductorHeat + externalHeat - spaceHeat;
+      maxResidual = Math.max(maxResidual, Math.abs(F[i]));
+    }
+
+    // Check convergence
+    if (maxResidual < tolerance) {
+      converged = true;
+      break;
+    }
+
+    // Jacobian is filled as A = -J, so J * δT = -F becomes A * δT = F
+    fillNetworkJacobian(jacobian, temperatures);
+    const linear = solveSparse(jacobian.matrix, F);
+
+    if (linear.converged) {
+      // Apply Newton step with damping for stability
+      const dampingFactor = 1.0;
+      for (let i = 0; i < n; i++) {
+        const nodeId = solveNodeIds[i];
+        const currentT = temperatures.get(nodeId) ?? 293;
+        const dT = linear.x[i] * dampingFactor;
+
+        // Clamp temperature change to prevent wild oscillations
+        const maxChange = 100; // K per iteration
+        const clampedDT = Math.max(Math.min(dT, maxChange), -maxChange);
+
+        // Ensure temperature stays positive (Kelvin)
+        const newT = Math.max(currentT + clampedDT, 1);
+        temperatures.set(nodeId, newT);
+      }
+    } else {
+      // Singular or ill-conditioned system (e.g. a node with no path to a
+      // boundary) — fall back to simple relaxation
+      for (let i = 0; i < n; i++) {
+        const nodeId = solveNodeIds[i];
+        const currentT = temperatures.get(nodeId) ?? 293;
+        // Simple gradient step
+        const dT = F[i] * 0.01;
+        const maxChange = 10;
+        const clampedDT = Math.max(Math.min(dT, maxChange), -maxChange);
+        temperatures.set(nodeId, Math.max(currentT + clampedDT, 1));
+      }
+    }
+  }
+
+  return { converged, iterations };
+}
@@ -0,0 +1,356 @@
+/**
+ * Design Space Surrogate — Gaussian process regression over exploration samples
+ *
+ * One GP per node metric (min/max/mean temperature) with a constant mean
+ * and a squared-exponential kernel with a length scale per parameter, on
+ * inputs scaled to [0, 1] over the explored ranges. All metrics share the
+ * correlation hyperparameters, chosen on a log grid to maximise the summed
+ * profile likelihood, so one Cholesky factor serves every metric; each
+ * metric keeps its own mean and signal variance. Predictions come with a
+ * 95% interval, and leave-one-out R² measures how far to trust each metric.
+ */
+
+import { paramKey, type ExplorationParameter, type NodeResult } from './design-space';
+
+export type SurrogateMetric = 'minTemp' | 'maxTemp' | 'meanTemp';
+
+const METRICS: SurrogateMetric[] = ['minTemp', 'maxTemp', 'meanTemp'];
+
+/** Samples needed before a surrogate is fitted. */
+export const MIN_SURROGATE_SAMPLES = 5;
+
+const LENGTH_SCALE_GRID = [0.05, 0.1, 0.2, 0.4, 0.8, 1.6, 3.2];
+const NUGGET_GRID = [1e-8, 1e-6, 1e-4, 1e-2];
+const Z_95 = 1.96;
+
+export interface SurrogateSample {
+  paramValues: Record<string, number>;
+  nodeResults: NodeResult[];
+}
+
+/** Fitted hyperparameters and diagnostics; stored on the exploration. */
+export interface SurrogateFit {
+  kind: 'gaussian_process';
+  parameterKeys: string[];
+  /** Per parameter, in units of its explored range */
+  lengthScales: number[];
+  /** Noise variance relative to the signal variance */
+  nugget: number;
+  sampleCount: number;
+  /** Leave-one-out R² per node and metric; 1 is a perfect fit */
+  looR2: Record<string, Record<SurrogateMetric, number>>;
+  fittedAt: string;
+}
+
+export interface PredictedValue {
+  mean: number;
+  lower: number; // 95% interval
+  upper: number;
+}
+
+export interface NodePrediction {
+  nodeId: string;
+  nodeName: string;
+  minTemp: PredictedValue;
+  maxTemp: PredictedValue;
+  meanTemp: PredictedValue;
+}
+
+export class SurrogateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SurrogateError';
+  }
+}
+
+// ── Linear algebra ──────────────────────────────────────────────────────────
+
+/** Lower Cholesky factor of a symmetric positive-definite matrix, or null. */
+function cholesky(a: number[][]): number[][] | null {
+  const n = a.length;
+  const l = a.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (!(sum > 0)) return null;
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  return l;
+}
+
+/** Solve L·x = b. */
+function forwardSolve(l: number[][], b: number[]): number[] {
+  const x = new Array<number>(b.length);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= l[i][k] * x[k];
+    x[i] = sum / l[i][i];
+  }
+  return x;
+}
+
+/** Solve Lᵀ·x = b. */
+function backSolve(l: number[][], b: number[]): number[] {
+  const n = b.length;
+  const x = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= l[k][i] * x[k];
+    x[i] = sum / l[i][i];
+  }
+  return x;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// ── Training data ───────────────────────────────────────────────────────────
+
+interface TrainingSet {
+  keys: string[];
+  x: number[][]; // scaled inputs
+  /** One target vector per node metric */
+  targets: Array<{ nodeId: string; nodeName: string; metric: SurrogateMetric; y: number[] }>;
+}
+
+function scaleInput(parameters: ExplorationParameter[], values: Record<string, number>): number[] {
+  return parameters.map((p) => {
+    const range = p.maxValue - p.minValue;
+    const v = values[paramKey(p)] ?? p.minValue;
+    return range > 0 ? (v - p.minValue) / range : 0;
+  });
+}
+
+function trainingSet(parameters: ExplorationParameter[], samples: SurrogateSample[]): TrainingSet {
+  // Failed solves have no node results
+  const usable = samples.filter((s) => s.nodeResults.length > 0);
+  if (usable.length < MIN_SURROGATE_SAMPLES) {
+    throw new SurrogateError(
+      `A surrogate needs at least ${MIN_SURROGATE_SAMPLES} solved samples, found ${usable.length}`,
+    );
+  }
+
+  const nodes = usable[0].nodeResults;
+  const targets: TrainingSet['targets'] = [];
+  for (const node of nodes) {
+    const rows = usable.map((s) => s.nodeResults.find((r) => r.nodeId === node.nodeId));
+    if (rows.some((r) => !r)) continue; // node missing from some sample
+    for (const metric of METRICS) {
+      targets.push({
+        nodeId: node.nodeId,
+        nodeName: node.nodeName,
+        metric,
+        y: rows.map((r) => r![metric]),
+      });
+    }
+  }
+
+  return {
+    keys: parameters.map(paramKey),
+    x: usable.map((s) => scaleInput(parameters, s.paramValues)),
+    targets,
+  };
+}
+
+// ── Gaussian process ────────────────────────────────────────────────────────
+
+function correlation(a: number[], b: number[], lengthScales: number[]): number {
+  let sum = 0;
+  for (let d = 0; d < a.length; d++) {
+    const r = (a[d] - b[d]) / lengthScales[d];
+    sum += r * r;
+  }
+  return Math.exp(-0.5 * sum);
+}
+
+interface Factorization {
+  l: number[][];
+  logDet: number;
+}
+
+function factorize(x: number[][], lengthScales: number[], nugget: number): Factorization | null {
+  const c = x.map((xi, i) =>
+    x.map((xj, j) => correlation(xi, xj, lengthScales) + (i === j ? nugget : 0)),
+  );
+  const l = cholesky(c);
+  if (!l) return null;
+  let logDet = 0;
+  for (let i = 0; i < l.length; i++) logDet += 2 * Math.log(l[i][i]);
+  return { l, logDet };
+}
+
+function mean(y: number[]): number {
+  return y.reduce((s, v) => s + v, 0) / y.length;
+}
+
+/** C⁻¹·(y − ȳ) for a target. */
+function weights(f: Factorization, y: number[]): number[] {
+  const mu = mean(y);
+  return backSolve(f.l, forwardSolve(f.l, y.map((v) => v - mu)));
+}
+
+/**
+ * Summed profile log-likelihood over the targets: each target's signal
+ * variance is at its maximum-likelihood value (y − ȳ)ᵀC⁻¹(y − ȳ)/n.
+ */
+function logLikelihood(f: Factorization, targets: TrainingSet['targets']): number {
+  const n = f.l.length;
+  let ll = 0;
+  let counted = 0;
+  for (const { y } of targets) {
+    const mu = mean(y);
+    const z = forwardSolve(f.l, y.map((v) => v - mu));
+    const q = dot(z, z) / n;
+    if (q <= 0) continue; // constant target carries no information
+    ll += -0.5 * n * Math.log(q);
+    counted++;
+  }
+  return ll - 0.5 * counted * f.logDet;
+}
+
+interface Hyperparameters {
+  lengthScales: number[];
+  nugget: number;
+  factorization: Factorization;
+  ll: number;
+}
+
+function trial(set: TrainingSet, lengthScales: number[], nugget: number): Hyperparameters | null {
+  const factorization = factorize(set.x, lengthScales, nugget);
+  if (!factorization) return null;
+  return { lengthScales, nugget, factorization, ll: logLikelihood(factorization, set.targets) };
+}
+
+/**
+ * Choose the shared hyperparameters: an isotropic grid search, then one pass
+ * of per-parameter refinement over the same grid.
+ */
+function selectHyperparameters(set: TrainingSet): Hyperparameters {
+  const dims = set.keys.length;
+  let best: Hyperparameters | null = null;
+
+  for (const ell of LENGTH_SCALE_GRID) {
+    for (const nugget of NUGGET_GRID) {
+      const t = trial(set, new Array<number>(dims).fill(ell), nugget);
+      if (t && (!best || t.ll > best.ll)) best = t;
+    }
+  }
+  if (!best) throw new SurrogateError('Samples are too close together to fit a surrogate');
+
+  for (let d = 0; d < dims && dims > 1; d++) {
+    for (const ell of LENGTH_SCALE_GRID) {
+      if (ell === best.lengthScales[d]) continue;
+      const lengthScales = [...best.lengthScales];
+      lengthScales[d] = ell;
+      const t = trial(set, lengthScales, best.nugget);
+      if (t && t.ll > best.ll) best = t;
+    }
+  }
+  return best;
+}
+
+/** Leave-one-out R² from the closed form e_i = [C⁻¹(y − ȳ)]_i / [C⁻¹]_ii. */
+function leaveOneOutR2(f: Factorization, y: number[]): number {
+  const n = y.length;
+  const mu = mean(y);
+  const total = y.reduce((s, v) => s + (v - mu) ** 2, 0);
+  if (total === 0) return 1;
+
+  const alpha = weights(f, y);
+  let residual = 0;
+  for (let i = 0; i < n; i++) {
+    const unit = new Array<number>(n).fill(0);
+    unit[i] = 1;
+    const column = forwardSolve(f.l, unit); // L⁻¹ column i
+    const inverseDiag = dot(column, column);
+    residual += (alpha[i] / inverseDiag) ** 2;
+  }
+  return 1 - residual / total;
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+/** Fit the surrogate's hyperparameters to the exploration samples. */
+export function fitSurrogate(
+  parameters: ExplorationParameter[],
+  samples: SurrogateSample[],
+): SurrogateFit {
+  const set = trainingSet(parameters, samples);
+  const { lengthScales, nugget, factorization } = selectHyperparameters(set);
+
+  const looR2: SurrogateFit['looR2'] = {};
+  for (const target of set.targets) {
+    looR2[target.nodeId] ??= { minTemp: 1, maxTemp: 1, meanTemp: 1 };
+    looR2[target.nodeId][target.metric] = leaveOneOutR2(factorization, target.y);
+  }
+
+  return {
+    kind: 'gaussian_process',
+    parameterKeys: set.keys,
+    lengthScales,
+    nugget,
+    sampleCount: set.x.length,
+    looR2,
+    fittedAt: new Date().toISOString(),
+  };
+}
+
+export interface Surrogate {
+  /** Predicted metrics of every node at the given parameter values. */
+  predict(paramValues: Record<string, number>): NodePrediction[];
+}
+
+/** A predictor for the samples with the fitted hyperparameters. */
+export function buildSurrogate(
+  parameters: ExplorationParameter[],
+  samples: SurrogateSample[],
+  fit: SurrogateFit,
+): Surrogate {
+  const set = trainingSet(parameters, samples);
+  if (set.keys.join() !== fit.parameterKeys.join()) {
+    throw new SurrogateError('The surrogate was fitted to different parameters');
+  }
+  const factorization = factorize(set.x, fit.lengthScales, fit.nugget);
+  if (!factorization) throw new SurrogateError('Surrogate hyperparameters are not valid for these samples');
+  const n = set.x.length;
+
+  const models = set.targets.map((target) => {
+    const alpha = weights(factorization, target.y);
+    const mu = mean(target.y);
+    const z = forwardSolve(factorization.l, target.y.map((v) => v - mu));
+    return { ...target, mu, alpha, variance: dot(z, z) / n };
+  });
+
+  return {
+    predict(paramValues) {
+      const xs = scaleInput(parameters, paramValues);
+      const r = set.x.map((xi) => correlation(xi, xs, fit.lengthScales));
+      const v = forwardSolve(factorization.l, r);
+      // Posterior correlation of the latent function at x*
+      const posterior = Math.max(1 - dot(v, v), 0);
+
+      const byNode = new Map<string, NodePrediction>();
+      for (const m of models) {
+        const value = m.mu + dot(r, m.alpha);
+        const half = Z_95 * Math.sqrt(m.variance * posterior);
+        let node = byNode.get(m.nodeId);
+        if (!node) {
+          const empty = { mean: 0, lower: 0, upper: 0 };
+          node = { nodeId: m.nodeId, nodeName: m.nodeName, minTemp: empty, maxTemp: empty, meanTemp: empty };
+          byNode.set(m.nodeId, node);
+        }
+        node[m.metric] = { mean: value, lower: value - half, upper: value + half };
+      }
+      return [...byNode.values()];
+    },
+  };
+}
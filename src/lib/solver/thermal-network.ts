@@ -14,11 +14,17 @@
 
 import type {
   SolverNode,
+  SolverMaterial,
+  PropertyPoint,
+  HeaterParams,
   SolverConductor,
   SolverHeatLoad,
   ThermalNetwork,
   OrbitalConfig,
+  EnvironmentPreset,
+  RadiationEnclosure,
   SimulationConfig,
+  SolverHooks,
   SolverResult,
   NodeConductorEntry,
 } from './types';
@@ -29,8 +35,30 @@ import {
 import { solveTransient } from './rk4-solver';
 import { solveImplicitEuler } from './implicit-euler';
 import { solveSteadyState } from './steady-state-solver';
+import { applyRadiationEnclosure } from './radiation-exchange';
+import {
+  CONDUCTOR_EXPRESSION_FIELDS,
+  HEAT_LOAD_EXPRESSION_FIELDS,
+  NODE_EXPRESSION_FIELDS,
+  evaluateFieldExpressions,
+  type FieldExpressions,
+  type SymbolValues,
+} from './expressions';
+import { DERIVED_NODE_FIELDS, deriveNodeProperties, type DerivedNodeField } from './node-properties';
 
 // Database row types (partial, matching schema)
+interface DbMaterial {
+  id: string;
+  conductivity: number;
+  specificHeat: number;
+  emissivity: number;
+  absorptivity?: number;
+  density?: number;
+  conductivityTable?: PropertyPoint[] | null;
+  specificHeatTable?: PropertyPoint[] | null;
+  emissivityTable?: PropertyPoint[] | null;
+}
+
 interface DbNode {
   id: string;
   name: string;
@@ -40,8 +68,21 @@ interface DbNode {
   boundaryTemp: number | null;
   area: number | null;
   mass?: number | null;
+  thickness?: number | null;
   absorptivity: number | null;
   emissivity: number | null;
+  radiatesToSpace?: boolean;
+  spaceViewFactor?: number | null;
+  /** The node's material, when its temperature-dependent tables should apply. */
+  material?: DbMaterial | null;
+  /** Surface coating; supplies α/ε ahead of the material. */
+  coating?: DbMaterial | null;
+  /**
+   * Fields typed on the node. Absent (as for networks rebuilt from solver
+   * nodes) means the stored values are final and nothing is derived.
+   */
+  propertyOverrides?: DerivedNodeField[] | null;
+  expressions?: FieldExpressions | null;
 }
 
 interface DbConductor {
@@ -55,13 +96,14 @@ interface DbConductor {
   viewFactor: number | null;
   emissivity: number | null;
   conductanceData?: { points: Array<{ temperature: number; conductance: number }> } | null;
+  expressions?: FieldExpressions | null;
 }
 
 interface DbHeatLoad {
   id: string;
   name: string;
   nodeId: string;
-  loadType: 'constant' | 'time_varying' | 'orbital';
+  loadType: 'constant' | 'time_varying' | 'orbital' | 'heater';
   value: number | null;
   timeValues: Array<{ time: number; value: number }> | null;
   orbitalParams: {
@@ -69,17 +111,79 @@ interface DbHeatLoad {
     absorptivity: number;
     emissivity: number;
     area: number;
+    surfaceNormal?: { x: number; y: number; z: number };
   } | null;
+  heaterParams?: HeaterParams | null;
+  expressions?: FieldExpressions | null;
+}
+
+/**
+ * Solver view of a node's material: null unless it has at least one property
+ * table, so constant-property nodes skip the per-step interpolation.
+ */
+function toSolverMaterial(material: DbMaterial | null | undefined): SolverMaterial | null {
+  if (!material) return null;
+  const table = (points: PropertyPoint[] | null | undefined) =>
+    points && points.length > 0
+      ? [...points].sort((a, b) => a.temperature - b.temperature)
+      : null;
+
+  const solverMaterial: SolverMaterial = {
+    id: material.id,
+    conductivity: material.conductivity,
+    specificHeat: material.specificHeat,
+    emissivity: material.emissivity,
+    conductivityTable: table(material.conductivityTable),
+    specificHeatTable: table(material.specificHeatTable),
+    emissivityTable: table(material.emissivityTable),
+  };
+  return solverMaterial.conductivityTable ||
+    solverMaterial.specificHeatTable ||
+    solverMaterial.emissivityTable
+    ? solverMaterial
+    : null;
+}
+
+/** Derived fields an expression already sets; the expression takes precedence. */
+function expressionFields(evaluated: Record<string, number>): DerivedNodeField[] {
+  return DERIVED_NODE_FIELDS.filter((f) => f in evaluated);
+}
+
+/** A heat load with its expressions applied; heater fields land in heaterParams. */
+function resolveHeatLoad(hl: DbHeatLoad, symbols: SymbolValues): DbHeatLoad {
+  const { value, ...heater } = evaluateFieldExpressions(
+    hl.expressions,
+    HEAT_LOAD_EXPRESSION_FIELDS,
+    symbols,
+    `Heat load "${hl.name}"`,
+  );
+  return {
+    ...hl,
+    value: value ?? hl.value,
+    heaterParams: hl.heaterParams ? { ...hl.heaterParams, ...heater } : hl.heaterParams,
+  };
 }
 
 /**
  * Build a ThermalNetwork from database model data.
+ * `environment` selects the hot/cold/nominal flux case; null uses the
+ * default physical constants. Field expressions are evaluated against
+ * `symbols` and override the stored literals (ExpressionError on failure).
+ * Nodes with a material or coating derive their capacitance and α/ε from it
+ * unless overridden (see node-properties.ts); an expression on the field
+ * still wins over the derived value.
+ * With a `radiationEnclosure`, the radiation conductors between its
+ * surfaces carry the exact grey-body exchange for the nodes' emissivities
+ * (see radiation-exchange.ts) instead of their stored ε·A·F.
  */
 export function buildThermalNetwork(
   dbNodes: DbNode[],
   dbConductors: DbConductor[],
   dbHeatLoads: DbHeatLoad[],
   orbitalConfig: OrbitalConfig | null,
+  environment: EnvironmentPreset | null = null,
+  symbols: SymbolValues = {},
+  radiationEnclosure: RadiationEnclosure | null = null,
 ): ThermalNetwork {
   // Convert DB nodes to solver nodes
   const nodes = new Map<string, SolverNode>();
@@ -87,7 +191,24 @@ export function buildThermalNetwork(
   const arithmeticNodeIds: string[] = [];
   const boundaryNodeIds: string[] = [];
 
-  for (const dbNode of dbNodes) {
+  for (const rawNode of dbNodes) {
+    const evaluated = evaluateFieldExpressions(
+      rawNode.expressions,
+      NODE_EXPRESSION_FIELDS,
+      symbols,
+      `Node "${rawNode.name}"`,
+    );
+    const resolved: DbNode = { ...rawNode, ...evaluated };
+    const dbNode: DbNode = rawNode.propertyOverrides
+      ? {
+          ...resolved,
+          ...deriveNodeProperties(
+            { ...resolved, propertyOverrides: [...rawNode.propertyOverrides, ...expressionFields(evaluated)] },
+            resolved.material,
+            resolved.coating,
+          ),
+        }
+      : resolved;
     const solverNode: SolverNode = {
       id: dbNode.id,
       name: dbNode.name,
@@ -99,6 +220,10 @@ export function buildThermalNetwork(
       area: dbNode.area ?? 0,
       absorptivity: dbNode.absorptivity ?? 0.5,
       emissivity: dbNode.emissivity ?? 0.5,
+      // Boundary nodes are held at a fixed temperature — a sink would be moot
+      radiatesToSpace: (dbNode.radiatesToSpace ?? false) && dbNode.nodeType !== 'boundary',
+      spaceViewFactor: dbNode.spaceViewFactor ?? 1,
+      material: toSolverMaterial(dbNode.material),
     };
 
     nodes.set(dbNode.id, solverNode);
@@ -117,7 +242,11 @@ export function buildThermalNetwork(
   }
 
   // Convert DB conductors to solver conductors
-  const conductors: SolverConductor[] = dbConductors.map((c) => ({
+  const resolvedConductors = dbConductors.map((c) => ({
+    ...c,
+    ...evaluateFieldExpressions(c.expressions, CONDUCTOR_EXPRESSION_FIELDS, symbols, `Conductor "${c.name}"`),
+  }));
+  let conductors: SolverConductor[] = resolvedConductors.map((c) => ({
     id: c.id,
     name: c.name,
     conductorType: c.conductorType,
@@ -129,9 +258,12 @@ export function buildThermalNetwork(
     emissivity: c.emissivity ?? 0,
     conductanceData: c.conductanceData ?? null,
   }));
+  if (radiationEnclosure) {
+    conductors = applyRadiationEnclosure(radiationEnclosure, nodes, conductors);
+  }
 
   // Convert DB heat loads to solver heat loads
-  const heatLoads: SolverHeatLoad[] = dbHeatLoads.map((hl) => ({
+  const heatLoads: SolverHeatLoad[] = dbHeatLoads.map((raw) => resolveHeatLoad(raw, symbols)).map((hl) => ({
     id: hl.id,
     name: hl.name,
     nodeId: hl.nodeId,
@@ -139,13 +271,14 @@ export function buildThermalNetwork(
     value: hl.value ?? 0,
     timeValues: hl.timeValues ?? [],
     orbitalParams: hl.orbitalParams ?? null,
+    heaterParams: hl.heaterParams ?? null,
   }));
 
   // Calculate orbital environment if config provided
   let orbitalEnv = null;
   let orbitalProfile = null;
   if (orbitalConfig) {
-    orbitalEnv = calculateOrbitalEnvironment(orbitalConfig);
+    orbitalEnv = calculateOrbitalEnvironment(orbitalConfig, environment);
     orbitalProfile = generateOrbitalHeatProfile(orbitalConfig, orbitalEnv);
   }
 
@@ -183,6 +316,7 @@ export function buildThermalNetwork(
     conductors,
     heatLoads,
     orbitalConfig,
+    environment,
     orbitalEnv,
     orbitalProfile,
     nodeIds,
@@ -191,6 +325,7 @@ export function buildThermalNetwork(
     boundaryNodeIds,
     nodeConductors,
     nodeHeatLoads,
+    hasMaterialTables: [...nodes.values()].some((n) => n.material),
   };
 }
 
@@ -200,6 +335,7 @@ export function buildThermalNetwork(
 export function runSimulation(
   network: ThermalNetwork,
   config: SimulationConfig,
+  hooks: SolverHooks = {},
 ): SolverResult {
   // Validate network has nodes
   if (network.nodes.size === 0) {
@@ -227,14 +363,19 @@ export function runSimulation(
         `Heat load "${load.name}" references non-existent node ${load.nodeId}`,
       );
     }
+    if (load.heaterParams && !network.nodes.has(load.heaterParams.senseNodeId)) {
+      throw new Error(
+        `Heater "${load.name}" senses non-existent node ${load.heaterParams.senseNodeId}`,
+      );
+    }
   }
 
   if (config.simulationType === 'transient') {
     if (config.solverMethod === 'implicit_euler') {
-      return solveImplicitEuler(network, config);
+      return solveImplicitEuler(network, config, hooks);
     }
-    return solveTransient(network, config);
+    return solveTransient(network, config, hooks);
   } else {
-    return solveSteadyState(network, config);
+    return solveSteadyState(network, config, hooks);
   }
 }
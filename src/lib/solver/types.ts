@@ -5,13 +5,38 @@ export const SOLAR_CONSTANT = 1361; // W/m²
 export const EARTH_RADIUS_KM = 6371; // km
 export const EARTH_RADIUS_M = 6371000; // m
 export const EARTH_MU = 3.986004418e14; // m³/s² gravitational parameter
+export const EARTH_J2 = 1.08263e-3; // oblateness coefficient
 export const EARTH_ALBEDO = 0.3;
 export const EARTH_IR = 237; // W/m²
+export const SPACE_TEMPERATURE = 2.7; // K, deep-space sink
 
 // ── Node Types ──────────────────────────────────────────────────────────────
 
 export type NodeType = 'diffusion' | 'arithmetic' | 'boundary';
 
+/** One point of a tabulated property curve, interpolated piecewise-linearly. */
+export interface PropertyPoint {
+  temperature: number; // K
+  value: number;
+}
+
+/**
+ * Temperature-dependent properties of the material a node references.
+ * Each table scales the node's nominal value by property(T) / reference,
+ * where the reference is the material's scalar property — so a node's
+ * capacitance, conductor conductances and emissivities are honoured as
+ * entered at the reference point and follow the curve elsewhere.
+ */
+export interface SolverMaterial {
+  id: string;
+  conductivity: number; // reference k, W/(m·K)
+  specificHeat: number; // reference cp, J/(kg·K)
+  emissivity: number; // reference ε_IR
+  conductivityTable: PropertyPoint[] | null; // k(T)
+  specificHeatTable: PropertyPoint[] | null; // cp(T)
+  emissivityTable: PropertyPoint[] | null; // ε(T)
+}
+
 export interface SolverNode {
   id: string;
   name: string;
@@ -23,6 +48,11 @@ export interface SolverNode {
   area: number; // m², surface area for environmental loading
   absorptivity: number; // α_s (0-1)
   emissivity: number; // ε_IR (0-1)
+  /** Radiates σεA·F(T⁴ − T_space⁴) to deep space, without a boundary node. */
+  radiatesToSpace?: boolean;
+  spaceViewFactor?: number; // F to space (0-1), default 1
+  /** Set only when the node's material has at least one property table. */
+  material?: SolverMaterial | null;
 }
 
 // ── Conductor Types ─────────────────────────────────────────────────────────
@@ -44,7 +74,7 @@ export interface SolverConductor {
 
 // ── Heat Load Types ─────────────────────────────────────────────────────────
 
-export type HeatLoadType = 'constant' | 'time_varying' | 'orbital';
+export type HeatLoadType = 'constant' | 'time_varying' | 'orbital' | 'heater';
 
 export interface TimeValuePair {
   time: number;
@@ -61,6 +91,18 @@ export interface OrbitalHeatLoadParams {
   surfaceNormal?: { x: number; y: number; z: number };
 }
 
+/**
+ * Thermostat-controlled heater. Switches on when the sense node cools to
+ * `onSetpoint` and off once it warms to `offSetpoint`; the gap between the
+ * two is the deadband.
+ */
+export interface HeaterParams {
+  senseNodeId: string; // may differ from the node the heater is mounted on
+  onSetpoint: number; // K
+  offSetpoint: number; // K, > onSetpoint
+  maxPower: number; // W while on
+}
+
 export interface SolverHeatLoad {
   id: string;
   name: string;
@@ -69,6 +111,7 @@ export interface SolverHeatLoad {
   value: number; // W, for constant
   timeValues: TimeValuePair[]; // piecewise linear
   orbitalParams: OrbitalHeatLoadParams | null;
+  heaterParams?: HeaterParams | null;
 }
 
 // ── Orbital Environment ─────────────────────────────────────────────────────
@@ -83,12 +126,73 @@ export interface OrbitalConfig {
   epoch: string; // ISO date
   apogeeAltitude?: number; // km (HEO only)
   perigeeAltitude?: number; // km (HEO only)
+  argumentOfPerigee?: number; // degrees (HEO only), default 0
+  trueAnomaly?: number; // degrees at the epoch (HEO only), default 0 = perigee
   /** Spacecraft attitude mode. Default: 'nadir_pointing'.
    *  - 'nadir_pointing': body -Z toward Earth, body +Z toward space (zenith).
    *      body +X = velocity (along-track), body +Y = orbit normal.
-   *  - 'sun_pointing': body +X always toward sun (single-axis solar tracker, legacy behaviour).
+   *  - 'sun_pointing': a body axis (default +X) toward the sun, a secondary
+   *      axis as close as possible to a target direction, optional roll.
+   *  - 'inertial': fixed body→ECI quaternion.
+   *  - 'spinning': spin-stabilised about an inertially fixed axis.
+   *  - 'quaternion_series': user-supplied body→ECI quaternions over time.
+   *  See attitude.ts.
    */
-  attitude?: 'nadir_pointing' | 'sun_pointing';
+  attitude?: AttitudeMode;
+  attitudeParams?: AttitudeParams;
+}
+
+export type AttitudeMode =
+  | 'nadir_pointing'
+  | 'sun_pointing'
+  | 'inertial'
+  | 'spinning'
+  | 'quaternion_series';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Rotation quaternion, scalar first. Attitude quaternions rotate body-frame
+ *  vectors into ECI. */
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface AttitudeQuaternionSample {
+  time: number; // s after the orbital epoch
+  quaternion: Quaternion;
+}
+
+/** Settings for the attitude modes; each mode reads only its own fields. */
+export interface AttitudeParams {
+  // sun_pointing
+  sunAxis?: Vec3; // body axis aimed at the sun, default +X
+  secondaryAxis?: Vec3; // body axis kept toward secondaryTarget, default -Z
+  secondaryTarget?: 'nadir' | 'orbit_normal' | 'velocity'; // default 'nadir'
+  rollAngle?: number; // degrees about the sun line, default 0
+  // inertial
+  quaternion?: Quaternion; // default identity (body axes = ECI axes)
+  // spinning
+  spinAxis?: Vec3; // body axis, default +Z
+  spinAxisInertial?: Vec3; // ECI direction, default orbit normal at the epoch
+  spinRate?: number; // deg/s
+  // quaternion_series
+  quaternions?: AttitudeQuaternionSample[]; // ascending time; held at the ends
+}
+
+/** Design-case environment (hot / cold / nominal / custom).
+ *  When supplied, replaces SOLAR_CONSTANT, EARTH_ALBEDO and EARTH_IR. */
+export interface EnvironmentPreset {
+  name: 'hot' | 'cold' | 'nominal' | 'custom';
+  solarFlux: number; // W/m², used as-is (no seasonal distance correction)
+  albedo: number; // 0-1
+  earthIR: number; // W/m² at the top of the atmosphere
 }
 
 export interface OrbitalEnvironment {
@@ -96,6 +200,7 @@ export interface OrbitalEnvironment {
   betaAngle: number; // degrees
   eclipseFraction: number; // 0-1
   solarFlux: number; // W/m²
+  albedo: number; // 0-1 albedo coefficient used for this environment
   albedoFlux: number; // W/m² (peak)
   earthIR: number; // W/m²
   earthViewFactor: number; // 0-1
@@ -105,13 +210,41 @@ export interface OrbitalEnvironment {
 export interface OrbitalHeatProfile {
   times: number[]; // seconds within one orbit
   solarFlux: number[]; // W/m² at each time
-  albedoFlux: number[]; // W/m² at each time
-  earthIR: number[]; // W/m² at each time (constant for MVP)
+  albedoFlux: number[]; // W/m² on a nadir-facing plate at each time
+  earthIR: number[]; // W/m² on a nadir-facing plate at each time
   inSunlight: boolean[]; // true/false at each time
   /** Sun unit vector expressed in LVLH frame at each orbital timestep.
    *  LVLH convention: +x = along-track (velocity), +y = orbit normal, +z = nadir.
    *  Length matches `times`. */
   sunDirectionLVLH?: Array<{ x: number; y: number; z: number }>;
+  /** Sun direction and spacecraft position/velocity in ECI at each timestep,
+   *  for attitudes defined against inertial space. Length matches `times`. */
+  geometryECI?: OrbitGeometry[];
+}
+
+/** Unit vectors in ECI (+Z = north pole) and the orbit radius. */
+export interface OrbitGeometry {
+  sun: Vec3;
+  position: Vec3; // r̂, zenith
+  velocity: Vec3; // v̂, along-track
+  radius: number; // km from Earth's centre
+}
+
+// ── Radiation Enclosure ─────────────────────────────────────────────────────
+
+/**
+ * Traced radiative geometry of a set of node surfaces. Exchange factors
+ * count energy arriving directly or after specular reflections, so for
+ * purely diffuse surfaces they are the view factors; A_i·E_ij = A_j·E_ji
+ * and Σ_j (1 − ρs_j)·E_ij + E_i,space = 1.
+ */
+export interface RadiationEnclosure {
+  nodeIds: string[];
+  areas: number[]; // m²
+  exchange: number[][]; // E_ij
+  toSpace: number[]; // E_i,space
+  /** Specular reflectance ρs of each surface when the rays were traced */
+  specularReflectance: number[];
 }
 
 // ── Thermal Network ─────────────────────────────────────────────────────────
@@ -129,8 +262,12 @@ export interface ThermalNetwork {
   conductors: SolverConductor[];
   heatLoads: SolverHeatLoad[];
   orbitalConfig: OrbitalConfig | null;
-  orbitalEnv: OrbitalEnvironment | null;
-  orbitalProfile: OrbitalHeatProfile | null;
+  environment: EnvironmentPreset | null;
+  orbitalEnv: OrbitalEnvironment | null; // first orbit, at the epoch
+  orbitalProfile: OrbitalHeatProfile | null; // first orbit, at the epoch
+  /** Later orbits of a multi-orbit transient, keyed by orbit index.
+   *  Filled lazily by getOrbitAtTime(). */
+  orbitCache?: Map<number, { env: OrbitalEnvironment; profile: OrbitalHeatProfile }>;
   nodeIds: string[]; // ordered list of node IDs (diffusion nodes first, then arithmetic)
   diffusionNodeIds: string[];
   arithmeticNodeIds: string[];
@@ -139,6 +276,13 @@ export interface ThermalNetwork {
   nodeConductors: Map<string, NodeConductorEntry[]>;
   /** Pre-indexed heat loads per node: nodeId → heat loads on that node */
   nodeHeatLoads: Map<string, SolverHeatLoad[]>;
+  /** True when any node has a material with property tables; lets
+   *  constant-property networks skip the k(T)/ε(T) lookups. */
+  hasMaterialTables?: boolean;
+  /** Output fraction (0-1) per heater load id, owned by the running solver:
+   *  the thermostat state (0/1) in transients, the regulating duty cycle in
+   *  steady state. Heaters are off when absent. */
+  heaterOutput?: Map<string, number>;
 }
 
 // ── Simulation Config ───────────────────────────────────────────────────────
@@ -157,6 +301,12 @@ export interface SimulationConfig {
   maxStep: number;
 }
 
+/** Optional callbacks invoked by the solvers while they run. */
+export interface SolverHooks {
+  /** Completed fraction (0-1), called after each accepted step or Newton iteration. */
+  onProgress?: (fraction: number) => void;
+}
+
 // ── Solver Results ──────────────────────────────────────────────────────────
 
 export interface NodeResult {
@@ -171,6 +321,32 @@ export interface ConductorFlowResult {
   flows: number[]; // W
 }
 
+/** Net radiation from a node to deep space; positive leaves the node. */
+export interface SpaceFlowResult {
+  nodeId: string;
+  times: number[];
+  flows: number[]; // W
+}
+
+export interface HeaterSwitchEvent {
+  time: number; // s
+  on: boolean;
+}
+
+export interface HeaterResult {
+  heatLoadId: string;
+  nodeId: string;
+  senseNodeId: string;
+  /** State at the start of the run, then every switch. Empty for steady state. */
+  timeline: HeaterSwitchEvent[];
+  dutyCycle: number; // fraction of the run spent on (regulating duty in steady state)
+  averagePower: number; // W over the run
+  /** Mean power per orbit (W) for models with an orbit; the last entry may
+   *  cover a partial orbit. */
+  orbitAveragePower: number[];
+  energy: number; // J delivered over the run
+}
+
 export interface SolverResult {
   nodeResults: NodeResult[];
   conductorFlows: ConductorFlowResult[];
@@ -178,4 +354,7 @@ export interface SolverResult {
   energyBalanceError: number;
   converged: boolean;
   iterations?: number;
+  heaterResults?: HeaterResult[];
+  /** One entry per node that radiates to space. */
+  spaceFlows?: SpaceFlowResult[];
 }
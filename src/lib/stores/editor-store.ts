@@ -1,6 +1,24 @@
 import { create } from 'zustand';
 import type { ColorScale, ThermalRange } from '@/lib/thermal-colors';
 import type { SensitivityEntry } from '@/lib/what-if/sensitivity-calc';
+import type { AttitudeMode, AttitudeParams } from '@/lib/solver/types';
+import {
+  subtreeGroupIds,
+  wouldCreateCycle,
+  type GroupResultRow,
+  type NodeGroup,
+} from '@/lib/node-groups';
+import {
+  evaluateExpression,
+  symbolValues,
+  type FieldExpressions,
+  type ModelSymbol,
+  type SymbolValues,
+} from '@/lib/solver/expressions';
+import type { DerivedNodeField } from '@/lib/solver/node-properties';
+import { encodeCadFaces, decodeCadFaces, type StoredCadFace } from '@/lib/cad/geometry-storage';
+
+export type { NodeGroup, FieldExpressions, ModelSymbol };
 
 // Types matching the backend schema
 export interface ThermalNode {
@@ -11,10 +29,20 @@ export interface ThermalNode {
   capacitance?: number | null;
   boundaryTemp?: number | null;
   materialId?: string | null;
+  coatingId?: string | null; // surface finish; supplies α/ε ahead of the material
   area?: number | null;
   mass?: number | null;
+  thickness?: number | null; // m
   absorptivity?: number | null;
   emissivity?: number | null;
+  /** Fields typed by hand; the rest derive from the material and coating */
+  propertyOverrides?: DerivedNodeField[];
+  radiatesToSpace?: boolean;
+  spaceViewFactor?: number | null; // null = 1
+  specularity?: number; // specular share of the reflectance, 0 = diffuse
+  groupId?: string | null;
+  /** Field → expression over the model symbols; overrides the literal */
+  expressions?: FieldExpressions | null;
   // UI positioning
   x?: number;
   y?: number;
@@ -40,13 +68,21 @@ export interface Conductor {
   viewFactor?: number | null;
   emissivity?: number | null;
   conductanceData?: ConductanceData | null;
+  expressions?: FieldExpressions | null;
+}
+
+export interface HeaterParams {
+  senseNodeId: string;
+  onSetpoint: number; // K
+  offSetpoint: number; // K
+  maxPower: number; // W
 }
 
 export interface HeatLoad {
   id: string;
   name: string;
   nodeId: string;
-  loadType: 'constant' | 'time_varying' | 'orbital';
+  loadType: 'constant' | 'time_varying' | 'orbital' | 'heater';
   value?: number | null;
   timeValues?: { time: number; value: number }[] | null;
   orbitalParams?: {
@@ -54,7 +90,11 @@ export interface HeatLoad {
     absorptivity: number;
     emissivity: number;
     area: number;
+    /** Outward body-frame unit normal; without it surfaceType decides the fluxes */
+    surfaceNormal?: { x: number; y: number; z: number };
   } | null;
+  heaterParams?: HeaterParams | null;
+  expressions?: FieldExpressions | null;
 }
 
 export interface OrbitalConfig {
@@ -65,6 +105,10 @@ export interface OrbitalConfig {
   epoch: string;
   apogeeAltitude?: number;
   perigeeAltitude?: number;
+  argumentOfPerigee?: number;
+  trueAnomaly?: number;
+  attitude?: AttitudeMode;
+  attitudeParams?: AttitudeParams;
 }
 
 export interface NodeTemperatureHistory {
@@ -72,12 +116,32 @@ export interface NodeTemperatureHistory {
   temperatures: number[];
 }
 
+export interface HeaterRunResult {
+  heatLoadId: string;
+  nodeId: string;
+  senseNodeId: string;
+  timeline: Array<{ time: number; on: boolean }>;
+  dutyCycle: number;
+  averagePower: number; // W
+  orbitAveragePower: number[]; // W per orbit
+  energy: number; // J
+}
+
 export interface SimulationResults {
   runId: string;
   status: 'completed' | 'failed';
   nodeResults: Record<string, NodeTemperatureHistory>;
   conductorFlows?: Record<string, { times: number[]; flows: number[] }>;
   energyBalanceError?: number;
+  /** The run row as returned by the results API */
+  run?: {
+    id: string;
+    simulationType?: SimulationConfig['simulationType'];
+    config: SimulationConfig['config'];
+    heaterResults?: HeaterRunResult[] | null;
+  };
+  /** Per-node result rows as returned by the results API */
+  results?: GroupResultRow[];
 }
 
 export interface SimulationConfig {
@@ -101,12 +165,14 @@ interface EditorSnapshot {
   nodes: ThermalNode[];
   conductors: Conductor[];
   heatLoads: HeatLoad[];
+  groups: NodeGroup[];
 }
 
 const MAX_HISTORY = 150;
 const DEBOUNCE_MS = 500;
 const AUTO_SAVE_DEBOUNCE_MS = 30_000; // 30 seconds
 const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_POLL_FAILURES = 5; // consecutive non-OK run status responses
 
 // ─── CAD Geometry Types ───────────────────────────────────────────────
 
@@ -175,10 +241,16 @@ interface EditorState {
   nodes: ThermalNode[];
   conductors: Conductor[];
   heatLoads: HeatLoad[];
+  groups: NodeGroup[];
   orbitalConfig: OrbitalConfig | null;
+  /** Model symbol table; saved with the model, not part of undo history */
+  symbols: ModelSymbol[];
 
   // UI state
   selectedNodeId: string | null;
+  selectedGroupId: string | null;
+  /** Groups drawn as a single node in the network view */
+  collapsedGroupIds: string[];
   selectedConductorId: string | null;
   selectedHeatLoadId: string | null;
   showResultsOverlay: boolean;
@@ -202,6 +274,8 @@ interface EditorState {
 
   // CAD import
   cadGeometry: CadGeometry | null;
+  /** Stored asset behind cadGeometry; null until an upload completes */
+  cadAssetId: string | null;
   cadImportStatus: CadImportStatus;
   cadImportProgress: CadImportProgress;
   selectedCadFaceId: string | null;
@@ -257,9 +331,25 @@ interface EditorState {
   updateHeatLoad: (id: string, data: Partial<HeatLoad>) => void;
   deleteHeatLoad: (id: string) => void;
 
+  addGroup: (name: string, parentId?: string | null) => string;
+  updateGroup: (id: string, data: Partial<Omit<NodeGroup, 'id'>>) => void;
+  /** Delete a group and its subgroups; members move to the top level unless withNodes */
+  deleteGroup: (id: string, withNodes?: boolean) => void;
+  moveNodeToGroup: (nodeId: string, groupId: string | null) => void;
+  /** Apply the same properties to every node in a group and its subgroups */
+  bulkUpdateGroupNodes: (groupId: string, data: Partial<ThermalNode>) => void;
+  /** Copy a group with its subgroups, members, internal conductors and member loads */
+  duplicateGroup: (id: string) => void;
+  toggleGroupCollapsed: (id: string) => void;
+
+  /** Replace the symbol table, re-evaluate expression fields and save it */
+  setSymbols: (symbols: ModelSymbol[]) => Promise<void>;
+  updateSymbol: (name: string, value: number) => Promise<void>;
+
   selectNode: (id: string | null) => void;
   selectConductor: (id: string | null) => void;
   selectHeatLoad: (id: string | null) => void;
+  selectGroup: (id: string | null) => void;
   clearSelection: () => void;
 
   setShowResultsOverlay: (show: boolean) => void;
@@ -280,10 +370,13 @@ interface EditorState {
   canRedo: () => boolean;
 
   // CAD import actions
-  setCadGeometry: (geometry: CadGeometry) => void;
+  /** Show imported geometry and, given the STEP file, store both with the model */
+  setCadGeometry: (geometry: CadGeometry, stepFile?: File) => Promise<void>;
   setCadImportStatus: (status: CadImportStatus) => void;
   setCadImportProgress: (progress: CadImportProgress) => void;
   clearCadGeometry: () => void;
+  /** Switch to a stored geometry and mappings, e.g. from a snapshot */
+  restoreCad: (assetId: string | null, mappings: SurfaceNodeMapping[]) => Promise<void>;
   selectCadFace: (id: string | null) => void;
   selectCadFaceMulti: (id: string, shiftKey: boolean) => void;
   setHoveredCadFace: (id: string | null) => void;
@@ -308,11 +401,79 @@ function generateId(): string {
   return crypto.randomUUID();
 }
 
-function takeSnapshot(state: { nodes: ThermalNode[]; conductors: Conductor[]; heatLoads: HeatLoad[] }): EditorSnapshot {
+/** Body of GET /api/projects/[id]/models/[mid]/cad */
+interface StoredCadResponse {
+  geometry: {
+    id: string;
+    fileName: string;
+    faces: StoredCadFace[];
+    boundingBox: CadGeometry['boundingBox'];
+    totalSurfaceArea: number;
+  } | null;
+  mappings: SurfaceNodeMapping[];
+}
+
+function toCadGeometry(stored: NonNullable<StoredCadResponse['geometry']>): CadGeometry {
+  return {
+    fileName: stored.fileName,
+    faces: decodeCadFaces(stored.faces),
+    boundingBox: stored.boundingBox,
+    totalSurfaceArea: stored.totalSurfaceArea,
+  };
+}
+
+/** Mappings belong to the stored geometry, so they save as soon as they change. */
+function saveSurfaceMappings(state: Pick<EditorState, 'projectId' | 'modelId' | 'cadAssetId' | 'surfaceNodeMappings'>): void {
+  const { projectId, modelId, cadAssetId, surfaceNodeMappings } = state;
+  // Geometry still uploading (or never stored) — nothing to attach them to
+  if (!projectId || !modelId || !cadAssetId) return;
+
+  fetch(`/api/projects/${projectId}/models/${modelId}/cad`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mappings: surfaceNodeMappings }),
+  })
+    .then((res) => {
+      if (!res.ok) throw new Error('Save failed');
+    })
+    .catch((err) => console.error('Failed to save surface mappings:', err));
+}
+
+const HEATER_EXPRESSION_FIELDS = new Set(['maxPower', 'onSetpoint', 'offSetpoint']);
+
+/**
+ * The entity with its expression fields re-evaluated so the literals shown in
+ * the editor match what the solver will use. A field that fails to evaluate
+ * keeps its literal; model validation reports the error.
+ */
+function withEvaluatedFields<T extends { expressions?: FieldExpressions | null }>(
+  entity: T,
+  symbols: SymbolValues,
+): T {
+  if (!entity.expressions) return entity;
+  const next: Record<string, unknown> = { ...entity };
+  for (const [field, source] of Object.entries(entity.expressions)) {
+    let value: number;
+    try {
+      value = evaluateExpression(source, symbols);
+    } catch {
+      continue;
+    }
+    if (HEATER_EXPRESSION_FIELDS.has(field)) {
+      if (next.heaterParams) next.heaterParams = { ...(next.heaterParams as HeaterParams), [field]: value };
+    } else {
+      next[field] = value;
+    }
+  }
+  return next as T;
+}
+
+function takeSnapshot(state: { nodes: ThermalNode[]; conductors: Conductor[]; heatLoads: HeatLoad[]; groups: NodeGroup[] }): EditorSnapshot {
   return {
     nodes: structuredClone(state.nodes),
     conductors: structuredClone(state.conductors),
     heatLoads: structuredClone(state.heatLoads),
+    groups: structuredClone(state.groups),
   };
 }
 
@@ -324,9 +485,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   nodes: [],
   conductors: [],
   heatLoads: [],
+  groups: [],
   orbitalConfig: null,
+  symbols: [],
 
   selectedNodeId: null,
+  selectedGroupId: null,
+  collapsedGroupIds: [],
   selectedConductorId: null,
   selectedHeatLoadId: null,
   showResultsOverlay: false,
@@ -345,6 +510,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   _pendingDescription: null,
 
   cadGeometry: null,
+  cadAssetId: null,
   cadImportStatus: 'idle',
   cadImportProgress: { percent: 0, message: '' },
   selectedCadFaceId: null,
@@ -382,17 +548,23 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   loadModel: async (projectId, modelId) => {
     try {
-      const [modelRes, nodesRes, conductorsRes, heatLoadsRes] = await Promise.all([
+      const [modelRes, nodesRes, conductorsRes, heatLoadsRes, groupsRes, cadRes] = await Promise.all([
         fetch(`/api/projects/${projectId}/models/${modelId}`),
         fetch(`/api/projects/${projectId}/models/${modelId}/nodes`),
         fetch(`/api/projects/${projectId}/models/${modelId}/conductors`),
         fetch(`/api/projects/${projectId}/models/${modelId}/heat-loads`),
+        fetch(`/api/projects/${projectId}/models/${modelId}/groups`),
+        fetch(`/api/projects/${projectId}/models/${modelId}/cad`),
       ]);
 
-      const model = await modelRes.json();
+      // The model route nests the row under `model`
+      const modelBody = await modelRes.json();
+      const model = modelBody.model ?? modelBody;
       const nodes = await nodesRes.json();
       const conductors = await conductorsRes.json();
       const heatLoads = await heatLoadsRes.json();
+      const { groups } = groupsRes.ok ? await groupsRes.json() : { groups: [] };
+      const cad: StoredCadResponse = cadRes.ok ? await cadRes.json() : { geometry: null, mappings: [] };
 
       const positionedNodes = (Array.isArray(nodes) ? nodes : []).map(
         (node: ThermalNode, i: number) => ({
@@ -404,9 +576,12 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
       const safeConductors = Array.isArray(conductors) ? conductors : [];
       const safeHeatLoads = Array.isArray(heatLoads) ? heatLoads : [];
+      const safeGroups: NodeGroup[] = Array.isArray(groups)
+        ? groups.map((g: NodeGroup) => ({ id: g.id, name: g.name, parentId: g.parentId ?? null }))
+        : [];
 
       const initialEntry: HistoryEntry = {
-        snapshot: { nodes: structuredClone(positionedNodes), conductors: structuredClone(safeConductors), heatLoads: structuredClone(safeHeatLoads) },
+        snapshot: { nodes: structuredClone(positionedNodes), conductors: structuredClone(safeConductors), heatLoads: structuredClone(safeHeatLoads), groups: structuredClone(safeGroups) },
         description: 'Model loaded',
         timestamp: Date.now(),
       };
@@ -432,7 +607,18 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         nodes: positionedNodes,
         conductors: safeConductors,
         heatLoads: safeHeatLoads,
+        groups: safeGroups,
+        collapsedGroupIds: [],
+        selectedGroupId: null,
         orbitalConfig: model.orbitalConfig || null,
+        symbols: Array.isArray(model.symbols) ? model.symbols : [],
+        cadGeometry: cad.geometry ? toCadGeometry(cad.geometry) : null,
+        cadAssetId: cad.geometry?.id ?? null,
+        cadImportStatus: cad.geometry ? 'done' : 'idle',
+        surfaceNodeMappings: cad.geometry ? cad.mappings : [],
+        selectedCadFaceId: null,
+        selectedCadFaceIds: [],
+        hoveredCadFaceId: null,
         isDirty: false,
         autoSaveStatus: 'idle',
         lastSavedAt: null,
@@ -452,7 +638,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   save: async (snapshotDescription?: string) => {
-    const { projectId, modelId, nodes, conductors, heatLoads, _autoSaveTimer } = get();
+    const { projectId, modelId, nodes, conductors, heatLoads, groups, _autoSaveTimer } = get();
     if (!projectId || !modelId) return;
 
     // Clear pending auto-save since we're saving now
@@ -468,6 +654,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           nodes,
           conductors,
           heatLoads,
+          groups,
           snapshotDescription: snapshotDescription || 'Auto-save',
           createSnapshot: true,
         }),
@@ -489,7 +676,10 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   createSnapshot: async (description: string) => {
-    const { projectId, modelId, nodes, conductors, heatLoads, orbitalConfig } = get();
+    const {
+      projectId, modelId, nodes, conductors, heatLoads, groups, symbols, orbitalConfig,
+      cadAssetId, surfaceNodeMappings,
+    } = get();
     if (!projectId || !modelId) return;
 
     try {
@@ -498,7 +688,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           description,
-          snapshot: { nodes, conductors, heatLoads, orbitalConfig },
+          snapshot: {
+            nodes, conductors, heatLoads, groups, symbols, orbitalConfig, cadAssetId, surfaceNodeMappings,
+          },
         }),
       });
       set({ _lastSnapshotAt: Date.now() });
@@ -546,7 +738,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   updateNode: (id, data) => {
     const node = get().nodes.find((n) => n.id === id);
     set((state) => ({
-      nodes: state.nodes.map((n) => (n.id === id ? { ...n, ...data } : n)),
+      nodes: state.nodes.map((n) =>
+        n.id === id ? withEvaluatedFields({ ...n, ...data }, symbolValues(state.symbols)) : n,
+      ),
       isDirty: true,
     }));
     const changedFields = Object.keys(data).join(', ');
@@ -586,7 +780,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   updateConductor: (id, data) => {
     const cond = get().conductors.find((c) => c.id === id);
     set((state) => ({
-      conductors: state.conductors.map((c) => (c.id === id ? { ...c, ...data } : c)),
+      conductors: state.conductors.map((c) =>
+        c.id === id ? withEvaluatedFields({ ...c, ...data }, symbolValues(state.symbols)) : c,
+      ),
       isDirty: true,
     }));
     const changedFields = Object.keys(data).join(', ');
@@ -622,7 +818,9 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   updateHeatLoad: (id, data) => {
     const hl = get().heatLoads.find((h) => h.id === id);
     set((state) => ({
-      heatLoads: state.heatLoads.map((h) => (h.id === id ? { ...h, ...data } : h)),
+      heatLoads: state.heatLoads.map((h) =>
+        h.id === id ? withEvaluatedFields({ ...h, ...data }, symbolValues(state.symbols)) : h,
+      ),
       isDirty: true,
     }));
     const changedFields = Object.keys(data).join(', ');
@@ -642,19 +840,201 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     get()._scheduleAutoSave();
   },
 
+  // ─── Groups ─────────────────────────────────────────────────────
+
+  addGroup: (name, parentId = null) => {
+    const id = generateId();
+    set((state) => ({ groups: [...state.groups, { id, name, parentId }], isDirty: true }));
+    get().pushHistory(`Added group '${name}'`);
+    get()._scheduleAutoSave();
+    return id;
+  },
+
+  updateGroup: (id, data) => {
+    const { groups } = get();
+    const group = groups.find((g) => g.id === id);
+    if (!group) return;
+    if (data.parentId !== undefined && wouldCreateCycle(groups, id, data.parentId)) return;
+    set((state) => ({
+      groups: state.groups.map((g) => (g.id === id ? { ...g, ...data } : g)),
+      isDirty: true,
+    }));
+    const changedFields = Object.keys(data).join(', ');
+    get().pushHistoryDebounced(`Changed ${changedFields} on group '${group.name}'`);
+    get()._scheduleAutoSave();
+  },
+
+  deleteGroup: (id, withNodes = false) => {
+    const group = get().groups.find((g) => g.id === id);
+    if (!group) return;
+    get().flushDebouncedHistory();
+    const subtree = subtreeGroupIds(get().groups, id);
+    const removed = new Set(
+      withNodes
+        ? get().nodes.filter((n) => n.groupId && subtree.has(n.groupId)).map((n) => n.id)
+        : [],
+    );
+    set((state) => ({
+      groups: state.groups.filter((g) => !subtree.has(g.id)),
+      nodes: state.nodes
+        .filter((n) => !removed.has(n.id))
+        .map((n) => (n.groupId && subtree.has(n.groupId) ? { ...n, groupId: null } : n)),
+      conductors: state.conductors.filter(
+        (c) => !removed.has(c.nodeFromId) && !removed.has(c.nodeToId),
+      ),
+      heatLoads: state.heatLoads.filter((h) => !removed.has(h.nodeId)),
+      collapsedGroupIds: state.collapsedGroupIds.filter((g) => !subtree.has(g)),
+      selectedGroupId: state.selectedGroupId && subtree.has(state.selectedGroupId) ? null : state.selectedGroupId,
+      selectedNodeId: state.selectedNodeId && removed.has(state.selectedNodeId) ? null : state.selectedNodeId,
+      isDirty: true,
+    }));
+    get().pushHistory(
+      withNodes ? `Deleted group '${group.name}' and ${removed.size} nodes` : `Deleted group '${group.name}'`,
+    );
+    get()._scheduleAutoSave();
+  },
+
+  moveNodeToGroup: (nodeId, groupId) => {
+    const node = get().nodes.find((n) => n.id === nodeId);
+    if (!node) return;
+    const group = groupId ? get().groups.find((g) => g.id === groupId) : null;
+    get().flushDebouncedHistory();
+    set((state) => ({
+      nodes: state.nodes.map((n) => (n.id === nodeId ? { ...n, groupId } : n)),
+      isDirty: true,
+    }));
+    get().pushHistory(
+      group ? `Moved node '${node.name}' to group '${group.name}'` : `Removed node '${node.name}' from its group`,
+    );
+    get()._scheduleAutoSave();
+  },
+
+  bulkUpdateGroupNodes: (groupId, data) => {
+    const group = get().groups.find((g) => g.id === groupId);
+    if (!group) return;
+    get().flushDebouncedHistory();
+    const subtree = subtreeGroupIds(get().groups, groupId);
+    set((state) => ({
+      nodes: state.nodes.map((n) => (n.groupId && subtree.has(n.groupId) ? { ...n, ...data } : n)),
+      isDirty: true,
+    }));
+    const changedFields = Object.keys(data).join(', ');
+    get().pushHistory(`Changed ${changedFields} on all nodes in group '${group.name}'`);
+    get()._scheduleAutoSave();
+  },
+
+  duplicateGroup: (id) => {
+    const { groups, nodes, conductors, heatLoads } = get();
+    const source = groups.find((g) => g.id === id);
+    if (!source) return;
+    get().flushDebouncedHistory();
+
+    const subtree = subtreeGroupIds(groups, id);
+    const groupIds = new Map([...subtree].map((g) => [g, generateId()]));
+    const members = nodes.filter((n) => n.groupId && subtree.has(n.groupId));
+    const nodeIds = new Map(members.map((n) => [n.id, generateId()]));
+
+    const newGroups = groups
+      .filter((g) => subtree.has(g.id))
+      .map((g) => ({
+        id: groupIds.get(g.id)!,
+        name: g.id === id ? `${g.name} (copy)` : g.name,
+        parentId: g.id === id ? g.parentId : groupIds.get(g.parentId!)!,
+      }));
+    // Offset the copies so they don't sit on top of the originals
+    const newNodes = members.map((n) => ({
+      ...structuredClone(n),
+      id: nodeIds.get(n.id)!,
+      groupId: groupIds.get(n.groupId!)!,
+      x: (n.x ?? 0) + 60,
+      y: (n.y ?? 0) + 60,
+    }));
+    const newConductors = conductors
+      .filter((c) => nodeIds.has(c.nodeFromId) && nodeIds.has(c.nodeToId))
+      .map((c) => ({
+        ...structuredClone(c),
+        id: generateId(),
+        nodeFromId: nodeIds.get(c.nodeFromId)!,
+        nodeToId: nodeIds.get(c.nodeToId)!,
+      }));
+    const newHeatLoads = heatLoads
+      .filter((h) => nodeIds.has(h.nodeId))
+      .map((h) => ({
+        ...structuredClone(h),
+        id: generateId(),
+        nodeId: nodeIds.get(h.nodeId)!,
+        heaterParams: h.heaterParams
+          ? {
+              ...h.heaterParams,
+              senseNodeId: nodeIds.get(h.heaterParams.senseNodeId) ?? h.heaterParams.senseNodeId,
+            }
+          : h.heaterParams,
+      }));
+
+    set((state) => ({
+      groups: [...state.groups, ...newGroups],
+      nodes: [...state.nodes, ...newNodes],
+      conductors: [...state.conductors, ...newConductors],
+      heatLoads: [...state.heatLoads, ...newHeatLoads],
+      isDirty: true,
+    }));
+    get().pushHistory(`Duplicated group '${source.name}'`);
+    get()._scheduleAutoSave();
+  },
+
+  toggleGroupCollapsed: (id) =>
+    set((state) => ({
+      collapsedGroupIds: state.collapsedGroupIds.includes(id)
+        ? state.collapsedGroupIds.filter((g) => g !== id)
+        : [...state.collapsedGroupIds, id],
+    })),
+
+  // ─── Symbols ────────────────────────────────────────────────────
+
+  setSymbols: async (symbols) => {
+    const { projectId, modelId } = get();
+    const values = symbolValues(symbols);
+    set((state) => ({
+      symbols,
+      nodes: state.nodes.map((n) => withEvaluatedFields(n, values)),
+      conductors: state.conductors.map((c) => withEvaluatedFields(c, values)),
+      heatLoads: state.heatLoads.map((h) => withEvaluatedFields(h, values)),
+      isDirty: true,
+    }));
+    get()._scheduleAutoSave();
+    if (!projectId || !modelId) return;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/models/${modelId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbols }),
+      });
+      if (!res.ok) throw new Error('Save failed');
+    } catch (err) {
+      console.error('Failed to save symbols:', err);
+    }
+  },
+
+  updateSymbol: (name, value) =>
+    get().setSymbols(get().symbols.map((s) => (s.name === name ? { ...s, value } : s))),
+
   // ─── Selection ──────────────────────────────────────────────────
 
   selectNode: (id) =>
-    set({ selectedNodeId: id, selectedConductorId: null, selectedHeatLoadId: null }),
+    set({ selectedNodeId: id, selectedConductorId: null, selectedHeatLoadId: null, selectedGroupId: null }),
 
   selectConductor: (id) =>
-    set({ selectedNodeId: null, selectedConductorId: id, selectedHeatLoadId: null }),
+    set({ selectedNodeId: null, selectedConductorId: id, selectedHeatLoadId: null, selectedGroupId: null }),
 
   selectHeatLoad: (id) =>
-    set({ selectedNodeId: null, selectedConductorId: null, selectedHeatLoadId: id }),
+    set({ selectedNodeId: null, selectedConductorId: null, selectedHeatLoadId: id, selectedGroupId: null }),
+
+  selectGroup: (id) =>
+    set({ selectedNodeId: null, selectedConductorId: null, selectedHeatLoadId: null, selectedGroupId: id }),
 
   clearSelection: () =>
-    set({ selectedNodeId: null, selectedConductorId: null, selectedHeatLoadId: null, selectedCadFaceId: null, selectedCadFaceIds: [] }),
+    set({ selectedNodeId: null, selectedConductorId: null, selectedHeatLoadId: null, selectedGroupId: null, selectedCadFaceId: null, selectedCadFaceIds: [] }),
 
   setShowResultsOverlay: (show) => set({ showResultsOverlay: show }),
   setActiveView: (view) => set({ activeView: view }),
@@ -747,6 +1127,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       nodes: structuredClone(prev.snapshot.nodes),
       conductors: structuredClone(prev.snapshot.conductors),
       heatLoads: structuredClone(prev.snapshot.heatLoads),
+      groups: structuredClone(prev.snapshot.groups),
       historyIndex: idx - 1,
       isDirty: true,
     });
@@ -760,6 +1141,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       nodes: structuredClone(next.snapshot.nodes),
       conductors: structuredClone(next.snapshot.conductors),
       heatLoads: structuredClone(next.snapshot.heatLoads),
+      groups: structuredClone(next.snapshot.groups),
       historyIndex: historyIndex + 1,
       isDirty: true,
     });
@@ -770,10 +1152,75 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   // ─── CAD Import ──────────────────────────────────────────────────
 
-  setCadGeometry: (geometry) => set({ cadGeometry: geometry, cadImportStatus: 'done' }),
+  setCadGeometry: async (geometry, stepFile) => {
+    const { projectId, modelId } = get();
+    // A new tessellation has new face ids, so mappings start over
+    set({ cadGeometry: geometry, cadAssetId: null, cadImportStatus: 'done', surfaceNodeMappings: [] });
+    if (!stepFile || !projectId || !modelId) return;
+
+    const form = new FormData();
+    form.append('file', stepFile);
+    form.append('geometry', JSON.stringify({
+      fileName: geometry.fileName,
+      faces: encodeCadFaces(geometry.faces),
+      boundingBox: geometry.boundingBox,
+      totalSurfaceArea: geometry.totalSurfaceArea,
+    }));
+
+    const res = await fetch(`/api/projects/${projectId}/models/${modelId}/cad`, {
+      method: 'POST',
+      body: form,
+    });
+    if (!res.ok) throw new Error('The geometry could not be saved to the project.');
+    const { geometry: stored } = await res.json();
+    // Ignore the response if another import replaced this geometry meanwhile
+    if (get().cadGeometry !== geometry) return;
+    set({ cadAssetId: stored.id });
+    // Faces assigned while the upload was in flight
+    if (get().surfaceNodeMappings.length > 0) saveSurfaceMappings(get());
+  },
   setCadImportStatus: (status) => set({ cadImportStatus: status }),
   setCadImportProgress: (progress) => set({ cadImportProgress: progress }),
-  clearCadGeometry: () => set({ cadGeometry: null, cadImportStatus: 'idle', cadImportProgress: { percent: 0, message: '' }, selectedCadFaceId: null, selectedCadFaceIds: [], hoveredCadFaceId: null, surfaceNodeMappings: [] }),
+  clearCadGeometry: () => {
+    const { projectId, modelId } = get();
+    set({ cadGeometry: null, cadAssetId: null, cadImportStatus: 'idle', cadImportProgress: { percent: 0, message: '' }, selectedCadFaceId: null, selectedCadFaceIds: [], hoveredCadFaceId: null, surfaceNodeMappings: [] });
+    if (!projectId || !modelId) return;
+
+    fetch(`/api/projects/${projectId}/models/${modelId}/cad`, { method: 'DELETE' })
+      .then((res) => {
+        if (!res.ok) throw new Error('Delete failed');
+      })
+      .catch((err) => console.error('Failed to remove CAD geometry:', err));
+  },
+
+  restoreCad: async (assetId, mappings) => {
+    const { projectId, modelId } = get();
+    if (!projectId || !modelId) return;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/models/${modelId}/cad`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetId, mappings: assetId ? mappings : [] }),
+      });
+      if (!res.ok) throw new Error('Restore failed');
+
+      const cadRes = await fetch(`/api/projects/${projectId}/models/${modelId}/cad`);
+      if (!cadRes.ok) throw new Error('Reload failed');
+      const cad: StoredCadResponse = await cadRes.json();
+      set({
+        cadGeometry: cad.geometry ? toCadGeometry(cad.geometry) : null,
+        cadAssetId: cad.geometry?.id ?? null,
+        cadImportStatus: cad.geometry ? 'done' : 'idle',
+        surfaceNodeMappings: cad.mappings,
+        selectedCadFaceId: null,
+        selectedCadFaceIds: [],
+        hoveredCadFaceId: null,
+      });
+    } catch (err) {
+      console.error('Failed to restore CAD geometry:', err);
+    }
+  },
   selectCadFace: (id) => set({ selectedCadFaceId: id, selectedCadFaceIds: id ? [id] : [], selectedNodeId: null, selectedConductorId: null, selectedHeatLoadId: null }),
 
   selectCadFaceMulti: (id, shiftKey) => {
@@ -811,6 +1258,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       return { surfaceNodeMappings: newMappings, isDirty: true };
     });
     get()._scheduleAutoSave();
+    saveSurfaceMappings(get());
   },
 
   removeSurfaceAssignments: (faceIds) => {
@@ -819,6 +1267,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       isDirty: true,
     }));
     get()._scheduleAutoSave();
+    saveSurfaceMappings(get());
   },
 
   getNodeColorForFace: (faceId) => {
@@ -908,11 +1357,37 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
       if (!res.ok) throw new Error('Simulation failed');
 
-      const result = await res.json();
+      const { run } = await res.json();
+
+      // Solved by a background worker — wait for the run to finish
+      let status: string = run.status;
+      let pollFailures = 0;
+      while (status === 'pending' || status === 'running') {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        const pollRes = await fetch(
+          `/api/projects/${projectId}/models/${modelId}/simulate/${run.id}`,
+        );
+        if (pollRes.ok) {
+          status = (await pollRes.json()).status;
+          pollFailures = 0;
+          continue;
+        }
+        // The run or model was deleted, or the server keeps failing
+        if (pollRes.status === 404) throw new Error('Simulation run not found');
+        if (++pollFailures >= MAX_POLL_FAILURES) {
+          throw new Error(`Simulation status unavailable (HTTP ${pollRes.status})`);
+        }
+      }
+      if (status !== 'completed') throw new Error(`Simulation ${status}`);
+
+      const resultsRes = await fetch(
+        `/api/projects/${projectId}/models/${modelId}/results/${run.id}`,
+      );
+      if (!resultsRes.ok) throw new Error('Failed to load simulation results');
 
       set({
         simulationStatus: 'completed',
-        simulationResults: result,
+        simulationResults: await resultsRes.json(),
         showResultsOverlay: true,
       });
     } catch (err) {
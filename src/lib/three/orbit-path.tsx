@@ -5,6 +5,7 @@ import { useFrame } from '@react-three/fiber';
 import { Line } from '@react-three/drei';
 import * as THREE from 'three';
 import { EARTH_RADIUS_UNITS } from './earth-sphere';
+import type { BodyFrame } from '@/lib/solver/attitude';
 
 // ─── Constants ───────────────────────────────────────────────────────
 
@@ -19,6 +20,9 @@ interface OrbitPathProps {
   inclinationDeg: number;
   /** Current orbit fraction [0, 1) for spacecraft position */
   orbitFraction: number;
+  /** Spacecraft body axes in the local orbit frame (velocity, orbit normal,
+   *  zenith) — see toOrbitFrame(). Defaults to nadir pointing. */
+  attitude?: BodyFrame;
 }
 
 // ─── Mini CubeSat (standalone, no store dependencies) ────────────────
@@ -64,7 +68,7 @@ function MiniCubeSat() {
   );
 }
 
-export function OrbitPath({ altitudeKm, inclinationDeg, orbitFraction }: OrbitPathProps) {
+export function OrbitPath({ altitudeKm, inclinationDeg, orbitFraction, attitude }: OrbitPathProps) {
   // Orbit radius in scene units (1 unit = 1000 km)
   const orbitRadius = EARTH_RADIUS_UNITS + altitudeKm / 1000;
 
@@ -94,11 +98,27 @@ export function OrbitPath({ altitudeKm, inclinationDeg, orbitFraction }: OrbitPa
     return curve.getPointAt(orbitFraction % 1);
   }, [curve, orbitFraction]);
 
-  // Spacecraft facing direction (tangent to orbit)
+  // Spacecraft orientation: the local orbit frame at the spacecraft's scene
+  // position, rotated by the body attitude within that frame
   const spacecraftRotation = useMemo(() => {
-    const angle = orbitFraction * Math.PI * 2;
-    return new THREE.Euler(0, -angle + Math.PI / 2, 0);
-  }, [orbitFraction]);
+    const fraction = orbitFraction % 1;
+    const zenith = curve.getPointAt(fraction).normalize();
+    const normal = new THREE.Vector3().crossVectors(zenith, curve.getTangentAt(fraction)).normalize();
+    const velocity = new THREE.Vector3().crossVectors(normal, zenith);
+    const local = new THREE.Matrix4().makeBasis(velocity, normal, zenith);
+
+    const body = attitude ?? [
+      { x: 1, y: 0, z: 0 },
+      { x: 0, y: 1, z: 0 },
+      { x: 0, y: 0, z: 1 },
+    ];
+    const bodyInLocal = new THREE.Matrix4().makeBasis(
+      new THREE.Vector3(body[0].x, body[0].y, body[0].z),
+      new THREE.Vector3(body[1].x, body[1].y, body[1].z),
+      new THREE.Vector3(body[2].x, body[2].y, body[2].z),
+    );
+    return new THREE.Euler().setFromRotationMatrix(local.multiply(bodyInLocal));
+  }, [curve, orbitFraction, attitude]);
 
   return (
     <group>
@@ -1,23 +1,41 @@
 import { NextResponse } from 'next/server';
-import { validateApiKey } from '@/lib/auth/api-key';
-import { rateLimiter } from '@/lib/auth/rate-limit';
+import { validateApiKey, type ApiKeyAuth } from '@/lib/auth/api-key';
+import { consumeApiKeyRequest } from '@/lib/auth/rate-limit';
+import { getUserProjectAccess, AccessDeniedError, type ProjectRole } from '@/lib/auth/access';
+import type { ApiKeyScope } from '@/lib/db/schema';
 
+/**
+ * Authenticate the X-API-Key header, count the request against the key's
+ * rate limit and check that the key carries the scope the route needs.
+ */
 export async function authenticateApiKey(
   request: Request,
-): Promise<
-  | { userId: string; orgId: string | null }
-  | NextResponse
-> {
+  scope: ApiKeyScope,
+): Promise<ApiKeyAuth | NextResponse> {
   const auth = await validateApiKey(request);
   if (!auth) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const keyHeader = request.headers.get('X-API-Key') ?? '';
-  if (!rateLimiter.check(keyHeader)) {
+  const limit = await consumeApiKeyRequest(auth.keyId, auth.rateLimitPerMinute);
+  if (!limit.allowed) {
     return NextResponse.json(
       { error: 'Rate limit exceeded' },
-      { status: 429, headers: { 'Retry-After': '60' } },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(limit.retryAfterSec),
+          'X-RateLimit-Limit': String(auth.rateLimitPerMinute),
+          'X-RateLimit-Remaining': '0',
+        },
+      },
+    );
+  }
+
+  if (!auth.scopes.includes(scope)) {
+    return NextResponse.json(
+      { error: `API key does not have the '${scope}' scope` },
+      { status: 403 },
     );
   }
 
@@ -25,7 +43,26 @@ export async function authenticateApiKey(
 }
 
 export function isErrorResponse(
-  result: { userId: string; orgId: string | null } | NextResponse,
+  result: ApiKeyAuth | NextResponse,
 ): result is NextResponse {
   return result instanceof NextResponse;
 }
+
+/** Whether a key restricted to certain projects may touch this one. */
+export function keyAllowsProject(auth: ApiKeyAuth, projectId: string): boolean {
+  return auth.projectIds === null || auth.projectIds.includes(projectId);
+}
+
+/**
+ * The key owner's role on a project, after the key's own project
+ * restriction. Throws AccessDeniedError like getUserProjectAccess.
+ */
+export async function getKeyProjectAccess(
+  auth: ApiKeyAuth,
+  projectId: string,
+): Promise<ProjectRole> {
+  if (!keyAllowsProject(auth, projectId)) {
+    throw new AccessDeniedError('API key is not valid for this project');
+  }
+  return getUserProjectAccess(auth.userId, projectId);
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+const scopesSchema = z
+  .array(z.enum(['read', 'simulate', 'edit']))
+  .min(1, 'At least one scope is required');
+
+export const createApiKeySchema = z.object({
+  label: z.string().min(1).max(200),
+  expiresAt: z.string().datetime().optional(),
+  scopes: scopesSchema.default(['read', 'simulate', 'edit']),
+  // Omitted = every project the user can access
+  projectIds: z.array(z.string().uuid()).min(1).optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
+});
+
+export const updateApiKeySchema = z.object({
+  label: z.string().min(1).max(200).optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  scopes: scopesSchema.optional(),
+  projectIds: z.array(z.string().uuid()).min(1).nullable().optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).nullable().optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
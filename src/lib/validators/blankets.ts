@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const createBlanketSchema = z.object({
+  name: z.string().min(1).max(200),
+  nodeId: z.string().uuid(), // covered node
+  layerCount: z.number().int().min(1).max(200),
+  effectiveEmittance: z.number().positive().max(1), // ε*
+  outerAbsorptivity: z.number().min(0).max(1), // cover α_s
+  outerEmissivity: z.number().min(0).max(1), // cover ε_IR
+  area: z.number().positive().optional(), // m², defaults to the covered node's area
+  seamDegradation: z.number().min(0).max(10).optional(), // fractional increase of ε*
+});
+
+export const updateBlanketSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  layerCount: z.number().int().min(1).max(200).optional(),
+  effectiveEmittance: z.number().positive().max(1).optional(),
+  outerAbsorptivity: z.number().min(0).max(1).optional(),
+  outerEmissivity: z.number().min(0).max(1).optional(),
+  area: z.number().positive().optional(),
+  seamDegradation: z.number().min(0).max(10).optional(),
+});
+
+export type CreateBlanketInput = z.infer<typeof createBlanketSchema>;
+export type UpdateBlanketInput = z.infer<typeof updateBlanketSchema>;
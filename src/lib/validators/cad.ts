@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+const vec3Schema = z.tuple([z.number(), z.number(), z.number()]);
+const base64Schema = z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Must be base64');
+
+export const storedCadFaceSchema = z.object({
+  id: z.string().min(1).max(200),
+  name: z.string().max(500),
+  positions: base64Schema,
+  normals: base64Schema,
+  indices: base64Schema,
+  color: vec3Schema,
+  surfaceArea: z.number().nonnegative(),
+});
+
+/** Tessellation sent alongside an uploaded STEP file, and carried in .vxm files. */
+export const cadGeometrySchema = z.object({
+  fileName: z.string().min(1).max(500),
+  faces: z.array(storedCadFaceSchema).min(1).max(100_000),
+  boundingBox: z.object({ min: vec3Schema, max: vec3Schema }),
+  totalSurfaceArea: z.number().nonnegative(),
+});
+
+export const surfaceNodeMappingsSchema = z
+  .array(z.object({ faceId: z.string().min(1).max(200), nodeId: z.string().uuid() }))
+  .max(100_000)
+  .refine((mappings) => new Set(mappings.map((m) => m.faceId)).size === mappings.length, {
+    message: 'Each face can map to only one node',
+  });
+
+/** Replace the face→node mappings, optionally switching to another of the model's assets. */
+export const updateCadSchema = z.object({
+  assetId: z.string().uuid().nullable().optional(),
+  mappings: surfaceNodeMappingsSchema,
+});
+
+/** Batch Monte Carlo view factor run over the model's current geometry. */
+export const createViewFactorJobSchema = z.object({
+  raysPerSurface: z.number().int().min(1_000).max(1_000_000).default(100_000),
+  minViewFactor: z.number().min(0).max(0.1).default(0.001),
+  seed: z.number().int().min(0).max(2 ** 32 - 1).optional(),
+});
+
+export type CadGeometryInput = z.infer<typeof cadGeometrySchema>;
+export type UpdateCadInput = z.infer<typeof updateCadSchema>;
+export type CreateViewFactorJobInput = z.infer<typeof createViewFactorJobSchema>;
@@ -1,7 +1,11 @@
 import { z } from 'zod';
+import { CONDUCTOR_EXPRESSION_FIELDS } from '@/lib/solver/expressions';
+import { fieldExpressionsSchema } from './expressions';
 
 export const conductorTypeSchema = z.enum(['linear', 'radiation', 'contact', 'heat_pipe']);
 
+export const conductorExpressionsSchema = fieldExpressionsSchema(CONDUCTOR_EXPRESSION_FIELDS);
+
 const conductancePointSchema = z.object({
   temperature: z.number(), // K
   conductance: z.number().positive(),
@@ -41,6 +45,7 @@ export const createConductorSchema = z
     viewFactor: z.number().min(0).max(1).optional(),
     emissivity: z.number().min(0).max(1).optional(),
     conductanceData: conductanceDataSchema.optional().nullable(),
+    expressions: conductorExpressionsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -105,6 +110,7 @@ export const updateConductorSchema = z.object({
   viewFactor: z.number().min(0).max(1).nullable().optional(),
   emissivity: z.number().min(0).max(1).nullable().optional(),
   conductanceData: conductanceDataSchema.nullable().optional(),
+  expressions: conductorExpressionsSchema.nullable().optional(),
 });
 
 export type CreateConductorInput = z.infer<typeof createConductorSchema>;
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+/** Parameter values to predict at, keyed like the exploration's samples. */
+export const surrogatePredictSchema = z.object({
+  paramValues: z.record(z.string(), z.number().finite()),
+});
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import {
+  ExpressionError,
+  RESERVED_NAMES,
+  SYMBOL_NAME_PATTERN,
+  parseExpression,
+} from '@/lib/solver/expressions';
+
+export const modelSymbolSchema = z.object({
+  name: z
+    .string()
+    .regex(SYMBOL_NAME_PATTERN, 'Symbol names must start with a letter or underscore and contain only letters, digits and underscores')
+    .max(64)
+    .refine((name) => !RESERVED_NAMES.has(name), {
+      message: 'Symbol name is reserved for a built-in function or constant',
+    }),
+  value: z.number().finite(),
+  description: z.string().max(500).optional(),
+});
+
+export const symbolsSchema = z
+  .array(modelSymbolSchema)
+  .max(500)
+  .refine((symbols) => new Set(symbols.map((s) => s.name)).size === symbols.length, {
+    message: 'Symbol names must be unique',
+  });
+
+const expressionSourceSchema = z
+  .string()
+  .min(1)
+  .max(1000)
+  .superRefine((source, ctx) => {
+    try {
+      parseExpression(source);
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: err.message });
+    }
+  });
+
+/**
+ * Expressions keyed by field name, limited to `fields`. Syntax is checked
+ * here; symbol names are resolved when the network is built.
+ */
+export function fieldExpressionsSchema(fields: readonly [string, ...string[]]) {
+  return z.record(z.enum(fields), expressionSourceSchema);
+}
+
+export type ModelSymbolInput = z.infer<typeof modelSymbolSchema>;
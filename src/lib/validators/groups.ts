@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { updateNodeSchema } from './nodes';
+
+export const createGroupSchema = z.object({
+  name: z.string().min(1).max(200),
+  parentId: z.string().uuid().nullable().optional(),
+});
+
+export const updateGroupSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  parentId: z.string().uuid().nullable().optional(),
+});
+
+/** Properties applied to every node in a group and its subgroups. */
+export const bulkUpdateGroupNodesSchema = updateNodeSchema
+  .omit({ name: true, nodeType: true, groupId: true })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one property is required',
+  });
+
+export const duplicateGroupSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+});
+
+export type CreateGroupInput = z.infer<typeof createGroupSchema>;
+export type UpdateGroupInput = z.infer<typeof updateGroupSchema>;
+export type BulkUpdateGroupNodesInput = z.infer<typeof bulkUpdateGroupNodesSchema>;
@@ -1,19 +1,47 @@
 import { z } from 'zod';
+import { HEAT_LOAD_EXPRESSION_FIELDS } from '@/lib/solver/expressions';
+import { fieldExpressionsSchema } from './expressions';
 
-export const heatLoadTypeSchema = z.enum(['constant', 'time_varying', 'orbital']);
+export const heatLoadTypeSchema = z.enum(['constant', 'time_varying', 'orbital', 'heater']);
+
+export const heatLoadExpressionsSchema = fieldExpressionsSchema(HEAT_LOAD_EXPRESSION_FIELDS);
 
 export const timeValuePairSchema = z.object({
   time: z.number().min(0),
   value: z.number(),
 });
 
+/** Outward body-frame normal of an orbital load's surface; a unit vector. */
+export const surfaceNormalSchema = z
+  .object({
+    x: z.number(),
+    y: z.number(),
+    z: z.number(),
+  })
+  .refine((n) => Math.abs(Math.hypot(n.x, n.y, n.z) - 1) < 1e-3, {
+    message: 'Surface normal must be a unit vector',
+  });
+
 export const orbitalHeatLoadParamsSchema = z.object({
   surfaceType: z.enum(['solar', 'earth_facing', 'anti_earth', 'custom']),
   absorptivity: z.number().min(0).max(1),
   emissivity: z.number().min(0).max(1),
   area: z.number().positive(),
+  surfaceNormal: surfaceNormalSchema.optional(),
 });
 
+export const heaterParamsSchema = z
+  .object({
+    senseNodeId: z.string().uuid(),
+    onSetpoint: z.number().positive(),
+    offSetpoint: z.number().positive(),
+    maxPower: z.number().positive(),
+  })
+  .refine((data) => data.offSetpoint > data.onSetpoint, {
+    message: 'Off setpoint must be above the on setpoint (deadband > 0)',
+    path: ['offSetpoint'],
+  });
+
 export const createHeatLoadSchema = z
   .object({
     name: z.string().min(1).max(200),
@@ -22,6 +50,8 @@ export const createHeatLoadSchema = z
     value: z.number().optional(),
     timeValues: z.array(timeValuePairSchema).min(2).optional(),
     orbitalParams: orbitalHeatLoadParamsSchema.optional(),
+    heaterParams: heaterParamsSchema.optional(),
+    expressions: heatLoadExpressionsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -58,6 +88,18 @@ export const createHeatLoadSchema = z
       message: 'Orbital heat loads require orbital parameters',
       path: ['orbitalParams'],
     },
+  )
+  .refine(
+    (data) => {
+      if (data.loadType === 'heater') {
+        return data.heaterParams !== undefined;
+      }
+      return true;
+    },
+    {
+      message: 'Heaters require a sense node, setpoints and max power',
+      path: ['heaterParams'],
+    },
   );
 
 export const updateHeatLoadSchema = z.object({
@@ -67,6 +109,8 @@ export const updateHeatLoadSchema = z.object({
   value: z.number().nullable().optional(),
   timeValues: z.array(timeValuePairSchema).min(2).nullable().optional(),
   orbitalParams: orbitalHeatLoadParamsSchema.nullable().optional(),
+  heaterParams: heaterParamsSchema.nullable().optional(),
+  expressions: heatLoadExpressionsSchema.nullable().optional(),
 });
 
 export type CreateHeatLoadInput = z.infer<typeof createHeatLoadSchema>;
@@ -9,6 +9,38 @@ export const materialCategorySchema = z.enum([
   'adhesive',
 ]);
 
+const propertyPointSchema = z.object({
+  temperature: z.number().min(0), // K
+  value: z.number().min(0),
+});
+
+/** Tabulated property vs temperature (k, cp or ε), interpolated piecewise-linearly. */
+const propertyTableSchema = z
+  .array(propertyPointSchema)
+  .min(2, 'At least 2 points required')
+  .max(50, 'Maximum 50 points allowed')
+  .refine(
+    (points) => {
+      for (let i = 1; i < points.length; i++) {
+        if (points[i].temperature <= points[i - 1].temperature) return false;
+      }
+      return true;
+    },
+    { message: 'Points must be sorted ascending by unique temperature' },
+  );
+
+const emissivityTableSchema = propertyTableSchema.refine(
+  (points) => points.every((p) => p.value <= 1),
+  { message: 'Emissivity values must be between 0 and 1' },
+);
+
+/** Property name → source reference (test report, datasheet, handbook) */
+const sourcesSchema = z.record(z.string().max(100), z.string().max(500));
+
+const optical = z.number().min(0).max(1);
+// Change in α or ε per year in orbit; ε may fall as well as rise
+const opticalRate = z.number().min(-1).max(1);
+
 export const createMaterialSchema = z.object({
   name: z.string().min(1).max(200),
   category: materialCategorySchema,
@@ -19,7 +51,16 @@ export const createMaterialSchema = z.object({
   density: z.number().positive(), // kg/m³
   tempRangeMin: z.number().min(0), // K
   tempRangeMax: z.number().min(0), // K
+  conductivityTable: propertyTableSchema.nullable().optional(), // k(T), W/(m·K)
+  specificHeatTable: propertyTableSchema.nullable().optional(), // cp(T), J/(kg·K)
+  emissivityTable: emissivityTableSchema.nullable().optional(), // ε(T)
+  absorptivityEol: optical.nullable().optional(),
+  emissivityEol: optical.nullable().optional(),
+  absorptivityPerYear: opticalRate.nullable().optional(),
+  emissivityPerYear: opticalRate.nullable().optional(),
+  sources: sourcesSchema.nullable().optional(),
   projectId: z.string().uuid().optional(),
+  orgId: z.string().uuid().optional(), // add to the organisation's library
 });
 
 export const updateMaterialSchema = z.object({
@@ -32,7 +73,23 @@ export const updateMaterialSchema = z.object({
   density: z.number().positive().optional(),
   tempRangeMin: z.number().min(0).optional(),
   tempRangeMax: z.number().min(0).optional(),
+  conductivityTable: propertyTableSchema.nullable().optional(),
+  specificHeatTable: propertyTableSchema.nullable().optional(),
+  emissivityTable: emissivityTableSchema.nullable().optional(),
+  absorptivityEol: optical.nullable().optional(),
+  emissivityEol: optical.nullable().optional(),
+  absorptivityPerYear: opticalRate.nullable().optional(),
+  emissivityPerYear: opticalRate.nullable().optional(),
+  sources: sourcesSchema.nullable().optional(),
+  revisionNote: z.string().max(500).optional(), // recorded with the new revision
+});
+
+export const materialImportSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1).max(2_000_000),
+  orgId: z.string().uuid().optional(),
 });
 
 export type CreateMaterialInput = z.infer<typeof createMaterialSchema>;
 export type UpdateMaterialInput = z.infer<typeof updateMaterialSchema>;
+export type MaterialImportInput = z.infer<typeof materialImportSchema>;
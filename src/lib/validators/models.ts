@@ -1,15 +1,69 @@
 import { z } from 'zod';
+import { symbolsSchema } from './expressions';
 
-export const orbitalConfigSchema = z.object({
-  orbitType: z.enum(['leo', 'meo', 'geo', 'heo']).optional(),
-  altitude: z.number().min(160).max(50000), // km
-  inclination: z.number().min(0).max(180), // degrees
-  raan: z.number().min(0).max(360), // degrees
-  epoch: z.string().datetime(), // ISO 8601
-  apogeeAltitude: z.number().min(200).max(100000).optional(), // km, HEO
-  perigeeAltitude: z.number().min(160).max(100000).optional(), // km, HEO
+const vectorSchema = z
+  .object({ x: z.number(), y: z.number(), z: z.number() })
+  .refine((v) => v.x !== 0 || v.y !== 0 || v.z !== 0, {
+    message: 'Vector must be non-zero',
+  });
+
+const quaternionSchema = z
+  .object({ w: z.number(), x: z.number(), y: z.number(), z: z.number() })
+  .refine((q) => q.w !== 0 || q.x !== 0 || q.y !== 0 || q.z !== 0, {
+    message: 'Quaternion must be non-zero',
+  });
+
+export const attitudeParamsSchema = z.object({
+  sunAxis: vectorSchema.optional(),
+  secondaryAxis: vectorSchema.optional(),
+  secondaryTarget: z.enum(['nadir', 'orbit_normal', 'velocity']).optional(),
+  rollAngle: z.number().min(-360).max(360).optional(), // degrees
+  quaternion: quaternionSchema.optional(), // body → ECI
+  spinAxis: vectorSchema.optional(),
+  spinAxisInertial: vectorSchema.optional(), // ECI
+  spinRate: z.number().min(-360).max(360).optional(), // deg/s
+  quaternions: z
+    .array(z.object({ time: z.number().min(0), quaternion: quaternionSchema }))
+    .max(100000)
+    .optional(),
 });
 
+export const orbitalConfigSchema = z
+  .object({
+    orbitType: z.enum(['leo', 'meo', 'geo', 'heo']).optional(),
+    altitude: z.number().min(160).max(50000), // km
+    inclination: z.number().min(0).max(180), // degrees
+    raan: z.number().min(0).max(360), // degrees
+    epoch: z.string().datetime(), // ISO 8601
+    apogeeAltitude: z.number().min(200).max(100000).optional(), // km, HEO
+    perigeeAltitude: z.number().min(160).max(100000).optional(), // km, HEO
+    argumentOfPerigee: z.number().min(0).max(360).optional(), // degrees, HEO
+    trueAnomaly: z.number().min(0).max(360).optional(), // degrees at epoch, HEO
+    attitude: z
+      .enum(['nadir_pointing', 'sun_pointing', 'inertial', 'spinning', 'quaternion_series'])
+      .optional(),
+    attitudeParams: attitudeParamsSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.attitude !== 'quaternion_series' ||
+      (data.attitudeParams?.quaternions?.length ?? 0) > 0,
+    {
+      message: 'Quaternion series attitude requires at least one quaternion',
+      path: ['attitudeParams', 'quaternions'],
+    },
+  )
+  .refine(
+    (data) =>
+      (data.attitudeParams?.quaternions ?? []).every(
+        (sample, i, all) => i === 0 || sample.time > all[i - 1].time,
+      ),
+    {
+      message: 'Quaternion times must be strictly increasing',
+      path: ['attitudeParams', 'quaternions'],
+    },
+  );
+
 export const createModelSchema = z.object({
   name: z
     .string()
@@ -21,6 +75,7 @@ export const createModelSchema = z.object({
     .optional()
     .default(''),
   orbitalConfig: orbitalConfigSchema.optional(),
+  symbols: symbolsSchema.optional(),
 });
 
 export const updateModelSchema = z.object({
@@ -34,7 +89,18 @@ export const updateModelSchema = z.object({
     .max(2000, 'Description must be 2000 characters or less')
     .optional(),
   orbitalConfig: orbitalConfigSchema.nullable().optional(),
+  symbols: symbolsSchema.optional(),
+});
+
+/** New model from a snapshot; the name defaults to "<model> (branch of vN)". */
+export const branchSnapshotSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(200, 'Name must be 200 characters or less')
+    .optional(),
 });
 
 export type CreateModelInput = z.infer<typeof createModelSchema>;
 export type UpdateModelInput = z.infer<typeof updateModelSchema>;
+export type BranchSnapshotInput = z.infer<typeof branchSnapshotSchema>;
@@ -1,7 +1,15 @@
 import { z } from 'zod';
+import { NODE_EXPRESSION_FIELDS } from '@/lib/solver/expressions';
+import { DERIVED_NODE_FIELDS } from '@/lib/solver/node-properties';
+import { fieldExpressionsSchema } from './expressions';
 
 export const nodeTypeSchema = z.enum(['diffusion', 'arithmetic', 'boundary']);
 
+export const nodeExpressionsSchema = fieldExpressionsSchema(NODE_EXPRESSION_FIELDS);
+
+/** Fields kept at their typed value rather than derived from the material. */
+export const propertyOverridesSchema = z.array(z.enum(DERIVED_NODE_FIELDS)).max(DERIVED_NODE_FIELDS.length);
+
 export const createNodeSchema = z
   .object({
     name: z.string().min(1).max(200),
@@ -10,20 +18,33 @@ export const createNodeSchema = z
     capacitance: z.number().positive().optional(), // J/K
     boundaryTemp: z.number().min(0).max(10000).optional(), // K
     materialId: z.string().uuid().optional(),
+    coatingId: z.string().uuid().optional(),
     area: z.number().positive().optional(), // m²
     mass: z.number().positive().optional(), // kg
+    thickness: z.number().positive().optional(), // m
+    propertyOverrides: propertyOverridesSchema.optional(),
     absorptivity: z.number().min(0).max(1).optional(),
     emissivity: z.number().min(0).max(1).optional(),
+    radiatesToSpace: z.boolean().optional(),
+    spaceViewFactor: z.number().min(0).max(1).optional(),
+    specularity: z.number().min(0).max(1).optional(),
+    groupId: z.string().uuid().optional(),
+    expressions: nodeExpressionsSchema.optional(),
   })
   .refine(
     (data) => {
       if (data.nodeType === 'diffusion') {
-        return data.capacitance !== undefined && data.capacitance > 0;
+        // A material derives C from the mass, or from the area and thickness
+        const derivable =
+          data.materialId !== undefined &&
+          !data.propertyOverrides?.includes('capacitance') &&
+          (data.mass !== undefined || (data.area !== undefined && data.thickness !== undefined));
+        return derivable || (data.capacitance !== undefined && data.capacitance > 0);
       }
       return true;
     },
     {
-      message: 'Diffusion nodes require a positive capacitance',
+      message: 'Diffusion nodes require a positive capacitance, or a material with a mass or an area and thickness',
       path: ['capacitance'],
     },
   )
@@ -47,10 +68,18 @@ export const updateNodeSchema = z.object({
   capacitance: z.number().positive().nullable().optional(),
   boundaryTemp: z.number().min(0).max(10000).nullable().optional(),
   materialId: z.string().uuid().nullable().optional(),
+  coatingId: z.string().uuid().nullable().optional(),
   area: z.number().positive().nullable().optional(),
   mass: z.number().positive().nullable().optional(),
+  thickness: z.number().positive().nullable().optional(),
+  propertyOverrides: propertyOverridesSchema.optional(),
   absorptivity: z.number().min(0).max(1).nullable().optional(),
   emissivity: z.number().min(0).max(1).nullable().optional(),
+  radiatesToSpace: z.boolean().optional(),
+  spaceViewFactor: z.number().min(0).max(1).nullable().optional(),
+  specularity: z.number().min(0).max(1).optional(),
+  groupId: z.string().uuid().nullable().optional(),
+  expressions: nodeExpressionsSchema.nullable().optional(),
 });
 
 export type CreateNodeInput = z.infer<typeof createNodeSchema>;
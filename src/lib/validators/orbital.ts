@@ -10,6 +10,9 @@ export const calculateOrbitalEnvSchema = z.object({
   epoch: z.string().datetime(), // ISO 8601
   apogeeAltitude: z.number().min(200).max(100000).optional(), // km, HEO only
   perigeeAltitude: z.number().min(160).max(100000).optional(), // km, HEO only
+  argumentOfPerigee: z.number().min(0).max(360).optional(), // degrees, HEO
+  trueAnomaly: z.number().min(0).max(360).optional(), // degrees at epoch, HEO
+  durationDays: z.number().positive().max(3660).optional(), // mission span for beta/eclipse evolution
 }).refine((data) => {
   if (data.orbitType === 'heo') {
     return data.apogeeAltitude !== undefined && data.perigeeAltitude !== undefined;
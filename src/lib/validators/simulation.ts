@@ -4,10 +4,22 @@ export const simulationTypeSchema = z.enum(['transient', 'steady_state']);
 
 export const solverMethodSchema = z.enum(['rk4', 'implicit_euler']).optional();
 
+export const environmentPresetSchema = z.object({
+  name: z.enum(['hot', 'cold', 'nominal', 'custom']),
+  solarFlux: z.number().positive().max(5000), // W/m²
+  albedo: z.number().min(0).max(1),
+  earthIR: z.number().min(0).max(1000), // W/m²
+});
+
+/** BOL or EOL coating optics; EOL uses missionYears × the per-year rates when given. */
+export const opticalLifeSchema = z.enum(['bol', 'eol']);
+
 export const runSimulationSchema = z
   .object({
     simulationType: simulationTypeSchema,
     solverMethod: solverMethodSchema,
+    configId: z.string().uuid().optional(),
+    environment: environmentPresetSchema.optional(),
     config: z.object({
       timeStart: z.number().min(0).default(0),
       timeEnd: z.number().positive().default(3600),
@@ -16,6 +28,8 @@ export const runSimulationSchema = z
       tolerance: z.number().positive().default(1e-6),
       minStep: z.number().positive().optional(),
       maxStep: z.number().positive().optional(),
+      opticalLife: opticalLifeSchema.optional(),
+      missionYears: z.number().positive().max(100).optional(),
     }),
   })
   .refine(
@@ -45,5 +59,6 @@ export const runSimulationSchema = z
 
 export const exportFormatSchema = z.enum(['csv', 'json']).default('json');
 
+export type EnvironmentPresetInput = z.infer<typeof environmentPresetSchema>;
 export type RunSimulationInput = z.infer<typeof runSimulationSchema>;
 export type ExportFormat = z.infer<typeof exportFormatSchema>;
@@ -3,7 +3,7 @@
 
 export interface SensitivityEntry {
   parameterId: string;
-  parameterType: 'node_property' | 'conductor' | 'heat_load';
+  parameterType: 'node_property' | 'conductor' | 'heat_load' | 'symbol';
   parameterLabel: string;
   entityId: string;
   nodeId: string;
@@ -121,6 +121,7 @@ export function getParameterAccuracy(
  */
 export function getParameterUnit(parameterId: string, parameterType: string): string {
   if (parameterType === 'heat_load') return 'W';
+  if (parameterType === 'symbol') return ''; // symbols carry no unit
   if (parameterType === 'conductor') {
     if (parameterId.includes('viewfactor')) return '';
     return 'W/K';
@@ -144,6 +145,13 @@ export function getParameterRange(
   let min = baselineValue * 0.5;
   let max = baselineValue * 1.5;
 
+  // Symbols: plain ±50%, whatever the name suggests; baseline may be negative
+  if (parameterType === 'symbol') {
+    const lo = Math.min(min, max);
+    const hi = Math.max(min, max);
+    return { min: lo, max: hi, baseline: baselineValue, step: hi > lo ? (hi - lo) / 100 : 0.01 };
+  }
+
   // Absorptivity / emissivity: clamp to [0.01, 1.0]
   if (parameterId.includes('absorptivity') || parameterId.includes('emissivity')) {
     min = Math.max(0.01, min);
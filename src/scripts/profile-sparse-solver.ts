@@ -0,0 +1,194 @@
+/**
+ * Large-network profiling for the sparse Newton solvers (steady-state and
+ * implicit Euler). Companion to profile-solver.ts, which covers RK4 at
+ * 100 / 1000 nodes.
+ *
+ * Usage: npx tsx src/scripts/profile-sparse-solver.ts
+ */
+
+import { buildThermalNetwork, runSimulation } from '../lib/solver/thermal-network';
+import type { NodeType, SimulationConfig } from '../lib/solver/types';
+
+/**
+ * Panel-style mesh: nodes on a grid with 4-neighbour conduction, radiation to
+ * space from every 5th node, internal radiation cross-links and heat loads on
+ * every 10th node. Seeded so timings are comparable between runs.
+ */
+function generateModel(nodeCount: number) {
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  const nodes: Array<{
+    id: string;
+    name: string;
+    nodeType: NodeType;
+    temperature: number;
+    capacitance: number;
+    boundaryTemp: number | null;
+    area: number;
+    absorptivity: number;
+    emissivity: number;
+  }> = Array.from({ length: nodeCount }, (_, i) => ({
+    id: `node-${i}`,
+    name: `Node ${i}`,
+    nodeType: 'diffusion',
+    temperature: 270 + random() * 40, // 270-310 K
+    capacitance: 500 + random() * 1500, // 500-2000 J/K
+    boundaryTemp: null,
+    area: 0.01 + random() * 0.05,
+    absorptivity: 0.3 + random() * 0.5,
+    emissivity: 0.3 + random() * 0.6,
+  }));
+  nodes.push({
+    id: 'boundary-space',
+    name: 'Space',
+    nodeType: 'boundary',
+    temperature: 3,
+    capacitance: 0,
+    boundaryTemp: 3,
+    area: 0,
+    absorptivity: 0,
+    emissivity: 0,
+  });
+
+  const conductors: Array<{
+    id: string;
+    name: string;
+    conductorType: 'linear' | 'radiation';
+    nodeFromId: string;
+    nodeToId: string;
+    conductance: number;
+    area: number;
+    viewFactor: number;
+    emissivity: number;
+  }> = [];
+  const width = Math.ceil(Math.sqrt(nodeCount));
+  const link = (
+    type: 'linear' | 'radiation',
+    from: string,
+    to: string,
+  ) => {
+    conductors.push({
+      id: `cond-${conductors.length}`,
+      name: `${from}-${to}`,
+      conductorType: type,
+      nodeFromId: from,
+      nodeToId: to,
+      conductance: type === 'linear' ? 0.5 + random() * 2 : 0,
+      area: type === 'radiation' ? 0.01 + random() * 0.02 : 0,
+      viewFactor: type === 'radiation' ? 0.2 + random() * 0.6 : 0,
+      emissivity: type === 'radiation' ? 0.5 + random() * 0.4 : 0,
+    });
+  };
+
+  for (let i = 0; i < nodeCount; i++) {
+    if ((i + 1) % width !== 0 && i + 1 < nodeCount) link('linear', `node-${i}`, `node-${i + 1}`);
+    if (i + width < nodeCount) link('linear', `node-${i}`, `node-${i + width}`);
+    if (i % 5 === 0) link('radiation', `node-${i}`, 'boundary-space');
+    if (i % 7 === 0) {
+      const j = Math.floor(random() * nodeCount);
+      if (j !== i) link('radiation', `node-${i}`, `node-${j}`);
+    }
+  }
+
+  const heatLoads = [];
+  for (let i = 0; i < nodeCount; i += 10) {
+    heatLoads.push({
+      id: `hl-${i}`,
+      name: `Load ${i}`,
+      nodeId: `node-${i}`,
+      loadType: 'constant' as const,
+      value: 1 + random() * 10,
+      timeValues: null,
+      orbitalParams: null,
+    });
+  }
+
+  return { nodes, conductors, heatLoads };
+}
+
+function benchmark(
+  label: string,
+  nodeCount: number,
+  config: SimulationConfig,
+): number {
+  const { nodes, conductors, heatLoads } = generateModel(nodeCount);
+  const network = buildThermalNetwork(nodes, conductors, heatLoads, null);
+
+  console.log(`\n=== ${label} ===`);
+  console.log(`Nodes: ${nodeCount} diffusion + 1 boundary`);
+  console.log(`Conductors: ${network.conductors.length}`);
+
+  const start = performance.now();
+  const result = runSimulation(network, config);
+  const elapsed = performance.now() - start;
+
+  const finalTemps = result.nodeResults
+    .filter((r) => r.nodeId.startsWith('node-'))
+    .map((r) => r.temperatures[r.temperatures.length - 1]);
+  const min = Math.min(...finalTemps);
+  const max = Math.max(...finalTemps);
+
+  console.log(`Elapsed: ${elapsed.toFixed(1)} ms`);
+  if (config.simulationType === 'steady_state') {
+    console.log(`Newton iterations: ${result.iterations}`);
+  } else {
+    console.log(`Timesteps: ${result.timePoints.length}`);
+  }
+  console.log(`Converged: ${result.converged}`);
+  console.log(`Final temperatures: ${min.toFixed(2)} K … ${max.toFixed(2)} K`);
+
+  return elapsed;
+}
+
+const steadyConfig: SimulationConfig = {
+  simulationType: 'steady_state',
+  timeStart: 0,
+  timeEnd: 0,
+  timeStep: 1,
+  maxIterations: 100,
+  tolerance: 1e-3,
+  minStep: 0.1,
+  maxStep: 10,
+};
+
+const implicitConfig: SimulationConfig = {
+  simulationType: 'transient',
+  solverMethod: 'implicit_euler',
+  timeStart: 0,
+  timeEnd: 5400, // one 90-minute orbit
+  timeStep: 30,
+  maxIterations: 10000,
+  tolerance: 0.1,
+  minStep: 1,
+  maxStep: 300,
+};
+
+console.log('Sparse Solver Profiling');
+console.log('=======================');
+
+const results: Array<{ label: string; elapsed: number; target: number }> = [];
+for (const nodeCount of [5000, 20000]) {
+  const target = nodeCount === 5000 ? 10_000 : 60_000; // ms
+  results.push({
+    label: `${nodeCount}-node steady-state`,
+    elapsed: benchmark(`${nodeCount}-node steady-state`, nodeCount, steadyConfig),
+    target,
+  });
+  results.push({
+    label: `${nodeCount}-node implicit Euler / 90-min`,
+    elapsed: benchmark(`${nodeCount}-node implicit Euler / 90-min`, nodeCount, implicitConfig),
+    target,
+  });
+}
+
+console.log('\n=== SUMMARY ===');
+for (const r of results) {
+  const status = r.elapsed < r.target ? 'PASS ✓' : 'FAIL ✗';
+  console.log(
+    `${r.label.padEnd(36)} ${r.elapsed.toFixed(1).padStart(10)} ms (target: < ${r.target} ms)  ${status}`,
+  );
+}
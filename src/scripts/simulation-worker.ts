@@ -0,0 +1,43 @@
+/**
+ * Simulation worker: claims queued simulation runs, failure analyses, design
+ * explorations and view factor jobs from Postgres and solves them outside the
+ * web server.
+ * Run as many instances as needed; each claims one job at a time.
+ *
+ * Run with: pnpm worker
+ *
+ * Env: DATABASE_URL (required), WORKER_POLL_INTERVAL_MS (default 2000)
+ */
+
+import 'dotenv/config';
+import { createWorkerId } from '../lib/jobs/queue';
+import { runWorker } from '../lib/jobs/worker';
+
+const workerId = createWorkerId();
+const controller = new AbortController();
+
+for (const sig of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(sig, () => {
+    if (controller.signal.aborted) process.exit(1);
+    console.log(`[worker] ${sig} received — finishing current job`);
+    controller.abort();
+  });
+}
+
+console.log(`[worker] ${workerId} started`);
+
+runWorker(
+  {
+    workerId,
+    pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS) || undefined,
+  },
+  controller.signal,
+)
+  .then(() => {
+    console.log('[worker] stopped');
+    process.exit(0);
+  })
+  .catch((err) => {
+    console.error('[worker] fatal:', err);
+    process.exit(1);
+  });